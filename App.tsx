@@ -12,6 +12,10 @@ import LoadingScreen from './src/screens/LoadingScreen';
 // Import services for initialization
 import AuthService from './src/services/auth';
 import { initializeFirebase } from './src/config/firebase';
+import SyncEngine from './src/services/sync';
+import NotificationActions from './src/services/notifications/actions';
+import { navigate, navigationRef } from './src/navigation/navigationRef';
+import { errorHandler } from './src/utils/errorHandler';
 
 // Import types
 import { RootStackParamList } from './src/navigation/types';
@@ -28,6 +32,9 @@ const App: React.FC = () => {
         // Initialize Firebase
         await initializeFirebase();
         console.log('🔥 Firebase initialized successfully');
+
+        // Send anything queued while offline, now and on every reconnect
+        SyncEngine.start();
         
         // Check authentication status
         const currentUser = AuthService.getCurrentUser();
@@ -57,10 +64,25 @@ const App: React.FC = () => {
     return () => unsubscribe();
   }, [isLoading]);
 
+  // Notification buttons wait until a signed-in member is looking at the main screens
+  useEffect(() => {
+    const user = !isLoading && isAuthenticated ? AuthService.getCurrentUser() : null;
+    NotificationActions.setCurrentUser(user ? user.uid : null);
+  }, [isLoading, isAuthenticated]);
+
   return (
     <SafeAreaProvider>
       <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
-      <NavigationContainer>
+      <NavigationContainer
+        ref={navigationRef}
+        onReady={() =>
+          NotificationActions.attach({
+            navigate: target => navigate('Main', target),
+            showResult: (message, success) =>
+              success ? errorHandler.showSuccessToast(message) : errorHandler.showErrorToast(message),
+          })
+        }
+      >
         <Stack.Navigator screenOptions={{ headerShown: false }}>
           {isLoading ? (
             <Stack.Screen name="Loading" component={LoadingScreen} />
@@ -0,0 +1,264 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import JobRunner from '../src/services/jobs/jobRunner';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import ApprovalService from '../src/services/business/approvals';
+import GroupManagementService from '../src/services/business/groupManagement';
+import NotificationService from '../src/services/notifications';
+import { MEMBER_NAMES, createGroup } from './fixtures/groups';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2026-05-04T09:00:00.000Z');
+
+const createGroupWithPolicy = async () => {
+  const { groupId, users } = await createGroup({ names: MEMBER_NAMES, group: { start_date: START } });
+
+  // The admin can't approve their own requests, so Bola and Chidi both have to agree
+  const [admin, bola, chidi] = users;
+  await ApprovalService.setApprovalPolicy({
+    adminId: admin,
+    groupId,
+    policy: {
+      actions: ['remove_member', 'dissolve_group'],
+      approver_ids: [admin, bola, chidi],
+      required_approvals: 2,
+      expiry_hours: 48,
+    },
+  });
+  return { groupId, users };
+};
+
+const removeDayo = (groupId: string, admin: string, dayo: string) =>
+  GroupManagementService.removeMember({
+    adminId: admin,
+    groupId,
+    memberId: dayo,
+    reason: 'inactive',
+    redistributeTurn: false,
+    refundContributions: false,
+  });
+
+const isMember = async (userId: string, groupId: string) =>
+  !!(await DatabaseService.groupMembers.getMemberByUserAndGroup(userId, groupId)).data;
+
+describe('ApprovalService', () => {
+  let clock: ManualClock;
+  let sendToUser: jest.SpyInstance;
+
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    clock = new ManualClock(START);
+    setClock(clock);
+    sendToUser = jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('holds a covered action until enough approvers sign off, then runs it', async () => {
+    const { groupId, users } = await createGroupWithPolicy();
+    const [admin, bola, chidi, dayo] = users;
+
+    const requested = await removeDayo(groupId, admin, dayo);
+    expect(requested).toMatchObject({ success: false, code: 'APPROVAL_REQUIRED' });
+    expect(requested.pendingAction).toMatchObject({
+      status: 'pending',
+      approver_ids: [bola, chidi],
+      required_approvals: 2,
+      summary: 'remove Dayo Bello from the group',
+    });
+    expect(await isMember(dayo, groupId)).toBe(true);
+    expect(sendToUser.mock.calls.map(([call]) => [call.templateId, call.userId])).toEqual([
+      ['approval_requested', bola],
+      ['approval_requested', chidi],
+    ]);
+
+    const actionId = requested.pendingAction!.id;
+    expect(await ApprovalService.approveAction({ actionId, userId: admin })).toMatchObject({ success: false });
+    expect((await ApprovalService.approveAction({ actionId, userId: bola })).data!.status).toBe('pending');
+    expect(await ApprovalService.approveAction({ actionId, userId: bola })).toMatchObject({ success: false });
+    expect(await isMember(dayo, groupId)).toBe(true);
+
+    const approved = await ApprovalService.approveAction({ actionId, userId: chidi });
+    expect(approved.data).toMatchObject({ status: 'executed' });
+    expect(await isMember(dayo, groupId)).toBe(false);
+    expect(sendToUser).toHaveBeenLastCalledWith(expect.objectContaining({ templateId: 'approval_executed', userId: admin }));
+
+    // Recorded as the admin who asked, with the approval that let the last signer run it
+    const entries = (await DatabaseService.auditLog.getGroupEntries(groupId)).data!;
+    expect(entries.find(entry => entry.action === 'member_removed')).toMatchObject({
+      actor_id: admin,
+      target_id: dayo,
+      metadata: expect.objectContaining({ approved_action_id: actionId }),
+    });
+
+    // An approved request can't be replayed for something else
+    const replay = await GroupManagementService.removeMember({
+      adminId: admin,
+      groupId,
+      memberId: bola,
+      reason: 'inactive',
+      redistributeTurn: false,
+      refundContributions: false,
+      approvedActionId: actionId,
+    });
+    expect(replay).toMatchObject({ success: false, code: 'APPROVAL_NOT_VALID' });
+  });
+
+  it('counts approvers signing at the same time and runs the action once', async () => {
+    const { groupId, users } = await createGroupWithPolicy();
+    const [admin, bola, chidi, dayo] = users;
+    const removeMember = jest.spyOn(DatabaseService.groupMembers, 'removeMember');
+
+    const requested = await removeDayo(groupId, admin, dayo);
+    const actionId = requested.pendingAction!.id;
+    await Promise.all([
+      ApprovalService.approveAction({ actionId, userId: bola }),
+      ApprovalService.approveAction({ actionId, userId: chidi }),
+    ]);
+
+    const action = await DatabaseService.pendingActions.getActionById(actionId);
+    expect(Object.keys(action.data!.signatures).sort()).toEqual([bola, chidi].sort());
+    expect(action.data!.approval_count).toBe(2);
+    expect(action.data!.status).toBe('executed');
+    expect(removeMember).toHaveBeenCalledTimes(1);
+    expect(await isMember(dayo, groupId)).toBe(false);
+  });
+
+  it('records one signature when an approver signs twice at the same time', async () => {
+    const { groupId, users } = await createGroupWithPolicy();
+    const [admin, bola, , dayo] = users;
+
+    const requested = await removeDayo(groupId, admin, dayo);
+    const actionId = requested.pendingAction!.id;
+    const results = await Promise.all([
+      ApprovalService.approveAction({ actionId, userId: bola }),
+      ApprovalService.approveAction({ actionId, userId: bola }),
+    ]);
+
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    const action = (await DatabaseService.pendingActions.getActionById(actionId)).data!;
+    expect(Object.keys(action.signatures)).toEqual([bola]);
+    expect(action).toMatchObject({ approval_count: 1, status: 'pending' });
+    expect(await isMember(dayo, groupId)).toBe(true);
+  });
+
+  it('marks the action failed when running it fails, and does not run it again', async () => {
+    const { groupId, users } = await createGroupWithPolicy();
+    const [admin, bola, chidi, dayo] = users;
+    jest.spyOn(DatabaseService.groupMembers, 'removeMember').mockResolvedValueOnce({ success: false, error: 'unavailable' });
+
+    const requested = await removeDayo(groupId, admin, dayo);
+    const actionId = requested.pendingAction!.id;
+    await ApprovalService.approveAction({ actionId, userId: bola });
+    const approved = await ApprovalService.approveAction({ actionId, userId: chidi });
+
+    expect(approved.data).toMatchObject({ status: 'failed', failure_reason: 'Failed to remove member from database' });
+    expect(await isMember(dayo, groupId)).toBe(true);
+    expect(sendToUser).toHaveBeenLastCalledWith(expect.objectContaining({ templateId: 'approval_failed', userId: admin }));
+
+    expect(await ApprovalService.approveAction({ actionId, userId: chidi })).toMatchObject({
+      success: false,
+      error: 'This request is already failed',
+    });
+    const retried = await GroupManagementService.removeMember({
+      adminId: admin,
+      groupId,
+      memberId: dayo,
+      reason: 'inactive',
+      redistributeTurn: false,
+      refundContributions: false,
+      approvedActionId: actionId,
+    });
+    expect(retried).toMatchObject({ success: false, code: 'APPROVAL_NOT_VALID' });
+    expect(await isMember(dayo, groupId)).toBe(true);
+  });
+
+  it('lets only the requester withdraw a request, and only while it is pending', async () => {
+    const { groupId, users } = await createGroupWithPolicy();
+    const [admin, bola, chidi, dayo] = users;
+
+    const requested = await removeDayo(groupId, admin, dayo);
+    const actionId = requested.pendingAction!.id;
+    expect(await ApprovalService.cancelAction({ actionId, userId: bola })).toMatchObject({
+      success: false,
+      error: 'Only the member who asked can withdraw this request',
+    });
+    expect(await ApprovalService.approveAction({ actionId, userId: dayo })).toMatchObject({
+      success: false,
+      error: 'You are not an approver for this request',
+    });
+
+    expect((await ApprovalService.cancelAction({ actionId, userId: admin })).data).toMatchObject({ status: 'cancelled' });
+    expect(await ApprovalService.cancelAction({ actionId, userId: admin })).toMatchObject({ success: false });
+    expect(await ApprovalService.approveAction({ actionId, userId: bola })).toMatchObject({ success: false });
+    expect(await ApprovalService.approveAction({ actionId, userId: chidi })).toMatchObject({ success: false });
+    expect(await isMember(dayo, groupId)).toBe(true);
+  });
+
+  it('marks the action executed with the writes it authorises, so it cannot run again', async () => {
+    const { groupId, users } = await createGroupWithPolicy();
+    const [admin, bola, chidi, dayo] = users;
+
+    const requested = await removeDayo(groupId, admin, dayo);
+    const actionId = requested.pendingAction!.id;
+    await ApprovalService.approveAction({ actionId, userId: bola });
+    await ApprovalService.approveAction({ actionId, userId: chidi });
+
+    const removed = (await DatabaseService.groupMembers.getGroupMembers(groupId)).data!.items
+      .find(member => member.user_id === dayo)!;
+    expect(removed).toMatchObject({ status: 'removed', approved_action_id: actionId });
+    expect((await DatabaseService.groups.getGroupById(groupId)).data).toMatchObject({ approved_action_id: actionId });
+
+    // A write can't use the approval again, even bypassing the service checks
+    const write = await DatabaseService.groups.updateGroup(groupId, { status: 'dissolved' }, actionId);
+    expect(write).toMatchObject({ success: false, code: 'action-not-approved' });
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.status).not.toBe('dissolved');
+  });
+
+  it('rejects once approval is out of reach, and lets stale requests expire', async () => {
+    const { groupId, users } = await createGroupWithPolicy();
+    const [admin, bola, chidi, dayo] = users;
+
+    const first = await removeDayo(groupId, admin, dayo);
+    const rejected = await ApprovalService.rejectAction({ actionId: first.pendingAction!.id, userId: chidi });
+    expect(rejected.data).toMatchObject({ status: 'rejected' });
+    expect(await isMember(dayo, groupId)).toBe(true);
+
+    const second = await removeDayo(groupId, admin, dayo);
+    await ApprovalService.approveAction({ actionId: second.pendingAction!.id, userId: bola });
+    await clock.advance(48 * HOUR);
+    // The admin's phone runs the group's expiry job
+    JobRunner.setScope({ adminGroupIds: [groupId] });
+    await JobRunner.runDueJobs();
+    JobRunner.setScope({ adminGroupIds: [] });
+
+    const expired = await DatabaseService.pendingActions.getActionById(second.pendingAction!.id);
+    expect(expired.data).toMatchObject({ status: 'expired' });
+    expect(await ApprovalService.approveAction({ actionId: second.pendingAction!.id, userId: chidi })).toMatchObject({
+      success: false,
+    });
+    expect(await isMember(dayo, groupId)).toBe(true);
+  });
+
+  it('puts changes to the approval rules themselves behind approval', async () => {
+    const { groupId, users } = await createGroupWithPolicy();
+    const [admin, bola] = users;
+
+    const invalid = await ApprovalService.setApprovalPolicy({
+      adminId: admin,
+      groupId,
+      policy: { actions: ['transfer_admin'], approver_ids: [bola], required_approvals: 2, expiry_hours: 24 },
+    });
+    expect(invalid).toMatchObject({ success: false, code: 'APPROVAL_ERROR' });
+
+    const cleared = await ApprovalService.setApprovalPolicy({ adminId: admin, groupId, policy: null });
+    expect(cleared).toMatchObject({ success: false, code: 'APPROVAL_REQUIRED' });
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.approval_policy).toMatchObject({
+      required_approvals: 2,
+    });
+  });
+});
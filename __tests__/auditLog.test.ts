@@ -0,0 +1,127 @@
+import DatabaseService, { COLLECTIONS, InMemoryStore } from '../src/services/database';
+import AuditLogService from '../src/services/business/auditLog';
+import GroupManagementService from '../src/services/business/groupManagement';
+import { sha256 } from '../src/utils/hash';
+import { MEMBER_NAMES, createGroup } from './fixtures/groups';
+
+describe('sha256', () => {
+  it('matches the published test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    );
+  });
+});
+
+describe('AuditLogService', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('chains every recorded action and records what changed', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+    const [admin, bola] = users;
+
+    await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: bola, role: 'treasurer' });
+    await GroupManagementService.updateGroupSettings({
+      adminId: admin,
+      groupId,
+      settings: { paymentDeadlineDays: 5 },
+      notifyMembers: false,
+    });
+
+    const trail = await AuditLogService.getAuditTrail({ groupId, userId: bola });
+    expect(trail.data!.map(entry => [entry.sequence, entry.action])).toEqual([
+      [2, 'settings_changed'],
+      [1, 'role_changed'],
+    ]);
+    const [settings, role] = trail.data!;
+    expect(role).toMatchObject({ actor_id: admin, target_id: bola, category: 'roles' });
+    expect(role.changes).toEqual([{ field: 'role', before: 'member', after: 'treasurer' }]);
+    expect(settings.changes).toEqual([{ field: 'paymentDeadlineDays', before: 7, after: 5 }]);
+    expect(settings.previous_hash).toBe(role.hash);
+
+    const roles = await AuditLogService.getAuditTrail({ groupId, userId: bola, filters: { category: 'roles' } });
+    expect(roles.data).toHaveLength(1);
+
+    expect((await AuditLogService.verifyChain(groupId)).data).toMatchObject({
+      valid: true,
+      entryCount: 2,
+      headHash: settings.hash,
+    });
+  });
+
+  it('detects entries that were edited or removed', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+    const [admin, bola, chidi] = users;
+    for (const actorId of [admin, bola, chidi]) {
+      await AuditLogService.record({ groupId, actorId, category: 'payments', action: 'payment_confirmed' });
+    }
+    const store = DatabaseService.getStore();
+    const entries = (await DatabaseService.auditLog.getGroupEntries(groupId)).data!;
+
+    await store.update(COLLECTIONS.AUDIT_LOG, entries[1].id, { actor_id: admin });
+    expect((await AuditLogService.verifyChain(groupId)).data).toMatchObject({
+      valid: false,
+      brokenAt: 2,
+      problem: 'hash_mismatch',
+    });
+
+    await store.update(COLLECTIONS.AUDIT_LOG, entries[1].id, { actor_id: bola });
+    await store.delete(COLLECTIONS.AUDIT_LOG, entries[2].id);
+    expect((await AuditLogService.verifyChain(groupId)).data).toMatchObject({
+      valid: false,
+      brokenAt: 3,
+      problem: 'head_mismatch',
+    });
+
+    await store.delete(COLLECTIONS.AUDIT_LOG, entries[0].id);
+    expect((await AuditLogService.verifyChain(groupId)).data).toMatchObject({ valid: false, problem: 'missing_entry' });
+  });
+
+  it('chains actions recorded at the same time one after another', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+
+    const results = await Promise.all(
+      users.map(actorId => AuditLogService.record({ groupId, actorId, category: 'payments', action: 'payment_confirmed' })),
+    );
+    expect(results.every(result => result.success)).toBe(true);
+    expect(results.map(result => result.data!.sequence).sort()).toEqual([1, 2, 3]);
+
+    const entries = (await DatabaseService.auditLog.getGroupEntries(groupId)).data!;
+    expect(entries.map(entry => entry.previous_hash).slice(1)).toEqual(entries.map(entry => entry.hash).slice(0, 2));
+    expect((await AuditLogService.verifyChain(groupId)).data).toMatchObject({ valid: true, entryCount: 3 });
+  });
+
+  it('reports a failed audit write without blocking the action or breaking the chain', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new InMemoryStore();
+    DatabaseService.useStore(store);
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+    const [admin, bola] = users;
+    jest.spyOn(store, 'commit').mockRejectedValueOnce(new Error('unavailable'));
+
+    const failed = await AuditLogService.record({ groupId, actorId: admin, category: 'payments', action: 'payment_confirmed' });
+    expect(failed).toMatchObject({ success: false, error: 'unavailable' });
+    expect((await DatabaseService.auditLog.getChainHead(groupId)).data).toBeNull();
+
+    const role = await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: bola, role: 'treasurer' });
+    expect(role.success).toBe(true);
+    expect((await AuditLogService.verifyChain(groupId)).data).toMatchObject({ valid: true, entryCount: 1 });
+  });
+
+  it('only shows the audit trail to group members', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+    await AuditLogService.record({ groupId, actorId: users[0], category: 'group', action: 'group_created' });
+
+    const outsider = await AuditLogService.getAuditTrail({ groupId, userId: 'outsider' });
+    expect(outsider).toMatchObject({ success: false, error: 'Only group members can view the audit trail' });
+  });
+});
@@ -0,0 +1,195 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import LedgerService from '../src/services/business/ledger';
+import BankReconciliationService from '../src/services/business/bankReconciliation';
+import NotificationService from '../src/services/notifications';
+import { parseStatement } from '../src/services/payments/statements';
+import { MEMBER_NAMES, contributionOf, createCycle, createGroup } from './fixtures/groups';
+
+const createGroupWithCycle = async () => {
+  const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+  return { groupId, users, contributions: await createCycle(groupId) };
+};
+
+describe('statement parsing', () => {
+  it('reads credits from MT940 and camt.053 statements', () => {
+    const mt940 = [
+      ':20:STMT0001',
+      ':25:0123456789',
+      ':60F:C260105NGN100000,00',
+      ':61:2601060106C10000,00NTRFNONREF//FT26006ABC',
+      ':86:TRF FROM BOLA ADE AJ7KQ2MX',
+      ':61:2601060106D2500,00NTRFNONREF',
+      ':86:ATM WITHDRAWAL',
+      ':62F:C260106NGN107500,00',
+      '-',
+    ].join('\n');
+    expect(parseStatement(mt940)).toEqual([
+      {
+        bankReference: 'FT26006ABC',
+        amount: 10000,
+        currency: 'NGN',
+        valueDate: new Date('2026-01-06T00:00:00Z'),
+        narration: 'TRF FROM BOLA ADE AJ7KQ2MX',
+      },
+    ]);
+
+    const camt = `<?xml version="1.0"?>
+      <Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+        <Ntry><Amt Ccy="NGN">10000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><ValDt><Dt>2026-01-06</Dt></ValDt>
+          <AcctSvcrRef>FT26006ABC</AcctSvcrRef>
+          <NtryDtls><TxDtls><RltdPties><Dbtr><Nm>Bola Ade</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Ajo AJ7KQ2MX</Ustrd></RmtInf></TxDtls></NtryDtls></Ntry>
+        <Ntry><Amt Ccy="NGN">2500.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><ValDt><Dt>2026-01-06</Dt></ValDt></Ntry>
+      </Stmt></BkToCstmrStmt></Document>`;
+    expect(parseStatement(camt)).toEqual([
+      {
+        bankReference: 'FT26006ABC',
+        amount: 10000,
+        currency: 'NGN',
+        valueDate: new Date('2026-01-06T00:00:00Z'),
+        narration: 'Ajo AJ7KQ2MX',
+        payerName: 'Bola Ade',
+      },
+    ]);
+  });
+});
+
+describe('BankReconciliationService', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('confirms clear matches and queues the rest for review', async () => {
+    const { groupId, users, contributions } = await createGroupWithCycle();
+    const instructions = await BankReconciliationService.getPaymentInstructions(groupId, users[1]);
+    const reference = instructions.data!.reference;
+    expect(reference).toMatch(/^AJ[A-Z2-9]{6}$/);
+    expect((await BankReconciliationService.getPaymentInstructions(groupId, users[1])).data!.reference).toBe(reference);
+
+    const today = new Date().toISOString().slice(0, 10);
+    const statement = [
+      'Account: 0123456789',
+      'Value Date,Narration,Payer Name,Reference,Debit,Credit',
+      `${today},TRF ajo ${reference.toLowerCase()},Bola Ade,FT001,,"10,000.00"`,
+      `${today},TRF ajo contribution,OKAFOR CHIDI E,FT002,,10000`,
+      `${today},Cash deposit,,FT003,,10000`,
+      `${today},Bank charges,,FT004,50.00,`,
+    ].join('\n');
+
+    const imported = await BankReconciliationService.importStatement({ groupId, adminId: users[0], content: statement });
+    expect(imported.data!.statementImport).toMatchObject({
+      format: 'csv',
+      credit_count: 3,
+      matched_count: 2,
+      review_count: 1,
+      duplicate_count: 0,
+    });
+
+    const bola = await DatabaseService.contributions.getContributionById(contributionOf(contributions, users[1]).id);
+    expect(bola.data).toMatchObject({ status: 'paid', transaction_reference: 'FT001' });
+    expect((await DatabaseService.contributions.getContributionById(contributionOf(contributions, users[2]).id)).data!.status).toBe('paid');
+
+    const queue = await BankReconciliationService.getReviewQueue(groupId);
+    expect(queue.data).toHaveLength(1);
+    expect(queue.data![0]).toMatchObject({
+      bank_reference: 'FT003',
+      status: 'review',
+      candidate_contribution_ids: [contributionOf(contributions, users[0]).id],
+    });
+
+    const again = await BankReconciliationService.importStatement({ groupId, adminId: users[0], content: statement });
+    expect(again.data!.statementImport).toMatchObject({ credit_count: 3, duplicate_count: 3, matched_count: 0 });
+
+    const resolved = await BankReconciliationService.resolveCredit({
+      creditId: queue.data![0].id,
+      adminId: users[0],
+      contributionId: contributionOf(contributions, users[0]).id,
+    });
+    expect(resolved.data!.status).toBe('matched');
+    expect((await DatabaseService.contributions.getContributionById(contributionOf(contributions, users[0]).id)).data!.status).toBe('paid');
+    expect((await BankReconciliationService.getReviewQueue(groupId)).data).toHaveLength(0);
+  });
+
+  it('leaves a transfer for review when the reference matches but the amount does not', async () => {
+    const { groupId, users, contributions } = await createGroupWithCycle();
+    const reference = (await BankReconciliationService.getPaymentInstructions(groupId, users[2])).data!.reference;
+    const today = new Date().toISOString().slice(0, 10);
+
+    const imported = await BankReconciliationService.importStatement({
+      groupId,
+      adminId: users[0],
+      content: `Date,Description,Amount\n${today},${reference} part payment,5000\n`,
+    });
+    expect(imported.data!.credits[0]).toMatchObject({
+      status: 'review',
+      match_reason: 'Reference matches but the amount differs',
+      candidate_contribution_ids: [contributionOf(contributions, users[2]).id],
+    });
+    expect((await DatabaseService.contributions.getContributionById(contributionOf(contributions, users[2]).id)).data!.status).toBe('pending');
+
+    const denied = await BankReconciliationService.importStatement({ groupId, adminId: users[1], content: 'x' });
+    expect(denied).toMatchObject({ success: false, code: 'RECONCILIATION_ERROR' });
+  });
+
+  it('confirms a transfer once when the same statement is imported twice at the same time', async () => {
+    const { groupId, users, contributions } = await createGroupWithCycle();
+    const reference = (await BankReconciliationService.getPaymentInstructions(groupId, users[1])).data!.reference;
+    const today = new Date().toISOString().slice(0, 10);
+    const content = `Date,Description,Reference,Amount\n${today},Ajo ${reference},FT100,10000\n`;
+
+    const imports = await Promise.all([
+      BankReconciliationService.importStatement({ groupId, adminId: users[0], content }),
+      BankReconciliationService.importStatement({ groupId, adminId: users[0], content }),
+    ]);
+    expect(imports.every(result => result.success)).toBe(true);
+
+    const bola = (await DatabaseService.contributions.getContributionById(contributionOf(contributions, users[1]).id)).data!;
+    expect(bola).toMatchObject({ status: 'paid', transaction_reference: 'FT100' });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(10000);
+  });
+
+  it('keeps a credit in the review queue when its payment cannot be confirmed', async () => {
+    const { groupId, users, contributions } = await createGroupWithCycle();
+    const today = new Date().toISOString().slice(0, 10);
+    await BankReconciliationService.importStatement({
+      groupId,
+      adminId: users[0],
+      content: `Date,Description,Reference,Amount\n${today},Cash deposit,FT200,10000\n`,
+    });
+    const [credit] = (await BankReconciliationService.getReviewQueue(groupId)).data!;
+    const contributionId = contributionOf(contributions, users[2]).id;
+
+    jest.spyOn(DatabaseService.contributions, 'updateContribution').mockResolvedValueOnce({ success: false, error: 'unavailable' });
+    const failed = await BankReconciliationService.resolveCredit({ creditId: credit.id, adminId: users[0], contributionId });
+    expect(failed.success).toBe(false);
+    expect((await BankReconciliationService.getReviewQueue(groupId)).data).toEqual([
+      expect.objectContaining({ id: credit.id, status: credit.status }),
+    ]);
+    expect((await DatabaseService.contributions.getContributionById(contributionId)).data!.status).toBe('pending');
+
+    const denied = await BankReconciliationService.ignoreCredit({ creditId: credit.id, adminId: users[1] });
+    expect(denied).toMatchObject({ success: false, error: 'You do not have permission to reconcile bank payments' });
+
+    const resolved = await BankReconciliationService.resolveCredit({ creditId: credit.id, adminId: users[0], contributionId });
+    expect(resolved.data!.status).toBe('matched');
+    const again = await BankReconciliationService.ignoreCredit({ creditId: credit.id, adminId: users[0] });
+    expect(again).toMatchObject({ success: false, error: 'This credit has already been dealt with' });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(10000);
+  });
+
+  it('rejects a statement it cannot read without recording an import', async () => {
+    const { groupId, users } = await createGroupWithCycle();
+
+    const unreadable = await BankReconciliationService.importStatement({ groupId, adminId: users[0], content: 'not a statement' });
+    expect(unreadable.success).toBe(false);
+    expect((await DatabaseService.bankStatements.getGroupCredits(groupId)).data).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import DatabaseService, {
+  InMemoryStore,
+  GroupWithMembers,
+  LEGACY_GROUPS_COLLECTION,
+  User,
+  groupMapper,
+} from '../src/services/database';
+import CycleProcessorService from '../src/services/business/cycleProcessor';
+import PaymentStatusService from '../src/services/business/paymentStatus';
+import GroupInviteService from '../src/services/groupInvites';
+import JobRunner from '../src/services/jobs/jobRunner';
+import MigrationJobs from '../src/services/jobs/migrationJobs';
+import { createGroupRunBy, createUser } from './fixtures/groups';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createGroup = (admin: User, startDate: Date) =>
+  createGroupRunBy(admin.id, { max_members: 3, start_date: startDate });
+
+// A group as the first release stored it, with its members embedded
+const createLegacyGroup = (store: InMemoryStore, id: string, adminId: string) =>
+  store.set(LEGACY_GROUPS_COLLECTION, id, {
+    name: 'Old Ajo',
+    description: 'From the first release',
+    adminId,
+    contributionAmount: 5000,
+    contributionFrequency: 'weekly',
+    payoutSchedule: 'weekly',
+    status: 'active',
+    startDate: new Date('2024-01-01'),
+    currentCycle: 2,
+    totalCycles: 3,
+    members: [
+      { userId: 'user3', displayName: 'Chidi', joinedAt: new Date('2024-01-03'), role: 'member', isActive: false },
+      { userId: adminId, displayName: 'Ada', joinedAt: new Date('2024-01-01'), role: 'admin', isActive: true },
+      { userId: 'user2', displayName: 'Bola', joinedAt: new Date('2024-01-02'), role: 'member', isActive: true },
+    ],
+  });
+
+describe('DatabaseService with InMemoryStore', () => {
+  let store: InMemoryStore;
+
+  beforeEach(() => {
+    store = new InMemoryStore();
+    DatabaseService.useStore(store);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates a group with its admin as the first member', async () => {
+    const admin = await createUser('Ada');
+    const group = await createGroup(admin, new Date());
+
+    expect(group.total_members).toBe(1);
+    expect(group.current_cycle).toBe(1);
+    expect(group.total_cycles).toBe(3);
+
+    const membership = await DatabaseService.groupMembers.getMemberByUserAndGroup(admin.id, group.id);
+    expect(membership.data).toMatchObject({ role: 'admin', join_order: 1, can_invite_members: true });
+  });
+
+  it('assigns join order and rejects duplicate or over-capacity joins', async () => {
+    const admin = await createUser('Ada');
+    const [bola, chidi, dayo] = await Promise.all(['Bola', 'Chidi', 'Dayo'].map(name => createUser(name)));
+    const group = await createGroup(admin, new Date());
+
+    const joined = await DatabaseService.joinGroup(group.id, bola.id);
+    expect(joined.data?.membership.join_order).toBe(2);
+
+    const duplicate = await DatabaseService.joinGroup(group.id, bola.id);
+    expect(duplicate.success).toBe(false);
+
+    await DatabaseService.joinGroup(group.id, chidi.id);
+    const full = await DatabaseService.joinGroup(group.id, dayo.id);
+    expect(full).toMatchObject({ success: false, code: 'group-full' });
+  });
+
+  it('runs a full cycle through the business layer', async () => {
+    const admin = await createUser('Ada');
+    const [bola, chidi] = await Promise.all(['Bola', 'Chidi'].map(name => createUser(name)));
+    const group = await createGroup(admin, new Date(Date.now() - 8 * DAY_MS));
+    await DatabaseService.joinGroup(group.id, bola.id);
+    await DatabaseService.joinGroup(group.id, chidi.id);
+
+    const contributions = await DatabaseService.createCycleContributions(
+      group.id,
+      1,
+      new Date(Date.now() + DAY_MS),
+    );
+    expect(contributions.data).toHaveLength(3);
+
+    for (const contribution of contributions.data!) {
+      await DatabaseService.contributions.markAsPaid(contribution.id, { payment_method: 'cash' });
+    }
+
+    const status = await PaymentStatusService.checkPaymentStatus({ groupId: group.id, cycle: 1 });
+    expect(status.data).toMatchObject({ paidMembers: 3, completionRate: 100, totalCollected: 30000 });
+
+    const processed = await CycleProcessorService.processGroupCycle({
+      groupId: group.id,
+      adminId: admin.id,
+    });
+    expect(processed.success).toBe(true);
+    expect(processed.data).toMatchObject({ payoutCreated: true, contributionsCreated: true, recipientId: admin.id });
+
+    const updatedGroup = await DatabaseService.groups.getGroupById(group.id);
+    expect(updatedGroup.data).toMatchObject({ current_cycle: 2, total_contributions_collected: 30000 });
+
+    const payout = await DatabaseService.payouts.getCyclePayout(group.id, 1);
+    expect(payout.data).toMatchObject({ amount: 30000, net_amount: 29700, recipient_id: admin.id });
+
+    const nextCycle = await DatabaseService.contributions.getCycleContributions(group.id, 2);
+    expect(nextCycle.data).toHaveLength(3);
+
+    const adminMember = await DatabaseService.groupMembers.getMemberByUserAndGroup(admin.id, group.id);
+    expect(adminMember.data).toMatchObject({ total_contributions_made: 1, reliability_percentage: 100 });
+  });
+
+  it('prevents leaving a group with pending contributions', async () => {
+    const admin = await createUser('Ada');
+    const bola = await createUser('Bola');
+    const group = await createGroup(admin, new Date());
+    await DatabaseService.joinGroup(group.id, bola.id);
+    await DatabaseService.createCycleContributions(group.id, 1, new Date(Date.now() + DAY_MS));
+
+    const blocked = await DatabaseService.leaveGroup(group.id, bola.id);
+    expect(blocked).toMatchObject({ success: false, code: 'pending-contributions' });
+  });
+
+  it('stores invite codes and tracks their usage', async () => {
+    const admin = await createUser('Ada');
+    const bola = await createUser('Bola');
+    const group = await createGroup(admin, new Date());
+
+    const invite = await GroupInviteService.generateInviteCode(group.id, admin.id, 24, 1);
+    expect(invite.success).toBe(true);
+
+    const used = await GroupInviteService.useInviteCode(invite.data!.invite_code, bola.id);
+    expect(used.success).toBe(true);
+    expect(used.data.membership).toMatchObject({ joined_via: 'invite_code', join_order: 2 });
+
+    const updatedGroup = await DatabaseService.groups.getGroupById(group.id);
+    expect(updatedGroup.data?.total_members).toBe(2);
+
+    const exhausted = await GroupInviteService.validateInviteCode(invite.data!.invite_code);
+    expect(exhausted.data?.isValid).toBe(false);
+  });
+
+  it('maps legacy camelCase group documents to the canonical model', () => {
+    const group = groupMapper.fromDocument('legacy1', {
+      name: 'Old Ajo',
+      adminId: 'admin1',
+      contributionAmount: 5000,
+      contributionFrequency: 'monthly',
+      currentCycle: 2,
+      totalCycles: 4,
+      startDate: new Date('2024-01-01'),
+      members: [{ userId: 'admin1' }, { userId: 'user2' }],
+    });
+
+    expect(group).toMatchObject({
+      id: 'legacy1',
+      admin_id: 'admin1',
+      contribution_amount: 5000,
+      contribution_frequency: 'monthly',
+      current_cycle: 2,
+      total_cycles: 4,
+      total_members: 2,
+    });
+    expect(group).not.toHaveProperty('members');
+    expect(group).not.toHaveProperty('contributionAmount');
+    const withMembers: GroupWithMembers = { ...group, members: [] };
+    expect(groupMapper.toDocument(withMembers)).not.toHaveProperty('members');
+  });
+
+  it('migrates embedded group members into group_members once', async () => {
+    await createLegacyGroup(store, 'legacy1', 'admin1');
+
+    const migrated = await DatabaseService.migrateEmbeddedMembers({ adminId: 'admin1' });
+    expect(migrated.data).toEqual({ groupsMigrated: 1, membersMigrated: 3, groupsSkipped: 0 });
+
+    const group = await DatabaseService.getGroupWithMembers('legacy1');
+    expect(group.data).toMatchObject({ admin_id: 'admin1', contribution_amount: 5000, current_cycle: 2, total_members: 2 });
+    expect(group.data?.members.map(member => [member.display_name, member.join_order, member.status])).toEqual([
+      ['Ada', 1, 'active'],
+      ['Bola', 2, 'active'],
+      ['Chidi', 3, 'inactive'],
+    ]);
+
+    const rerun = await DatabaseService.migrateEmbeddedMembers();
+    expect(rerun.data).toEqual({ groupsMigrated: 0, membersMigrated: 0, groupsSkipped: 1 });
+
+    const groups = await DatabaseService.getUserGroups('user2');
+    expect(groups.data?.map(g => g.id)).toEqual(['legacy1']);
+  });
+
+  it('migrates the groups of admins who never sign in through a one-off backend job', async () => {
+    await createLegacyGroup(store, 'legacy1', 'admin1');
+    await createLegacyGroup(store, 'legacy2', 'admin2');
+    JobRunner.setScope({ server: true });
+
+    await MigrationJobs.scheduleMigrations();
+    await MigrationJobs.scheduleMigrations();
+    expect(await JobRunner.runDueJobs()).toBe(1);
+    JobRunner.setScope({ adminGroupIds: [] });
+
+    for (const groupId of ['legacy1', 'legacy2']) {
+      const group = await DatabaseService.getGroupWithMembers(groupId);
+      expect(group.data?.members).toHaveLength(3);
+    }
+  });
+
+  it('leaves no partial writes when a batch fails', async () => {
+    const admin = await createUser('Ada');
+
+    await expect(
+      store.commit([
+        { type: 'update', collection: 'users', id: admin.id, data: { name: 'Changed' } },
+        { type: 'update', collection: 'users', id: 'missing', data: { name: 'Nobody' } },
+      ]),
+    ).rejects.toThrow();
+
+    const user = await DatabaseService.users.getUserById(admin.id);
+    expect(user.data?.name).toBe('Ada');
+  });
+});
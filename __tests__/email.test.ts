@@ -0,0 +1,275 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import EmailService, {
+  CaptureEmailTransport,
+  SmtpConnection,
+  SmtpTransport,
+  notificationDocument,
+  settlementStatementDocument,
+} from '../src/services/email';
+import NotificationTemplates from '../src/services/notifications/templates';
+import { EmailError } from '../src/types/business';
+import { base64ToBytes } from '../src/utils/base64';
+
+// Base64 of UTF-8 text back to the text
+const decode = (base64: string) =>
+  decodeURIComponent(Array.from(base64ToBytes(base64), byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+
+// The decoded text of one part of a multipart/alternative email
+const mimePart = (content: string, type: 'plain' | 'html') => {
+  const match = content.match(
+    new RegExp(`Content-Type: text/${type}; charset=utf-8\\r\\nContent-Transfer-Encoding: base64\\r\\n\\r\\n([A-Za-z0-9+/=\\r\\n]+?)\\r\\n--`)
+  );
+  return match ? decode(match[1]) : null;
+};
+
+// Answers SMTP commands the way a relay offering STARTTLS and AUTH PLAIN does
+class FakeSmtpServer {
+  written: string[] = [];
+  tls = false;
+  closed = false;
+  private replies: string[] = [];
+
+  constructor(private rejected: string[] = []) {}
+
+  connect = async (): Promise<SmtpConnection> => {
+    this.replies.push('220 smtp.example.com ESMTP');
+    return {
+      write: async data => {
+        this.written.push(data);
+        this.replies.push(...this.respond(data));
+      },
+      readLine: async () => {
+        const line = this.replies.shift();
+        if (line === undefined) {
+          throw new Error('Server sent nothing');
+        }
+        return line;
+      },
+      startTls: async () => {
+        this.tls = true;
+      },
+      close: async () => {
+        this.closed = true;
+      },
+    };
+  };
+
+  private respond(data: string): string[] {
+    if (data.startsWith('EHLO')) {
+      return this.tls
+        ? ['250-smtp.example.com', '250-AUTH PLAIN LOGIN', '250 SIZE 10240000']
+        : ['250-smtp.example.com', '250 STARTTLS'];
+    }
+    if (data === 'STARTTLS\r\n') return ['220 Ready to start TLS'];
+    if (data.startsWith('AUTH PLAIN')) return ['235 Authenticated'];
+    if (data.startsWith('MAIL FROM')) return ['250 OK'];
+    if (data.startsWith('RCPT TO')) {
+      return this.rejected.some(address => data.includes(address)) ? ['550 5.1.1 No such user'] : ['250 OK'];
+    }
+    if (data === 'DATA\r\n') return ['354 End data with <CR><LF>.<CR><LF>'];
+    if (data.endsWith('\r\n.\r\n')) return ['250 Queued'];
+    if (data === 'QUIT\r\n') return ['221 Bye'];
+    return ['500 Unknown command'];
+  }
+}
+
+const message = {
+  from: { address: 'no-reply@ajoturn.app', name: 'Ajoturn' },
+  to: { address: 'ada@example.com', name: 'Ada Obi' },
+  subject: '💰 Payment Reminder',
+  text: 'Your payment of ₦10,000 is due',
+  html: '<p>Your payment of ₦10,000 is due</p>',
+};
+
+describe('SmtpTransport', () => {
+  it('upgrades to TLS, authenticates and sends both renderings', async () => {
+    const server = new FakeSmtpServer();
+    const transport = new SmtpTransport({
+      host: 'smtp.example.com',
+      username: 'apikey',
+      password: 'secret',
+      connect: server.connect,
+    });
+
+    const result = await transport.send(message);
+
+    expect(result.messageId).toMatch(/@ajoturn\.app$/);
+    expect(server.tls).toBe(true);
+    expect(server.closed).toBe(true);
+    expect(server.written.map(line => line.split(/[ :\r]/)[0])).toEqual([
+      'EHLO',
+      'STARTTLS',
+      'EHLO',
+      'AUTH',
+      'MAIL',
+      'RCPT',
+      'DATA',
+      expect.any(String),
+      'QUIT',
+    ]);
+    expect(decode(server.written[3].slice('AUTH PLAIN '.length))).toBe('\u0000apikey\u0000secret');
+
+    const content = server.written[7];
+    expect(content).toContain('To: "Ada Obi" <ada@example.com>');
+    expect(content).toContain(`Message-ID: <${result.messageId}>`);
+    const subject = content.match(/Subject: ((?:=\?UTF-8\?B\?[^?]+\?=\s*)+)/)![1];
+    expect(
+      subject
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => decode(word.slice('=?UTF-8?B?'.length, -2)))
+        .join('')
+    ).toBe('💰 Payment Reminder');
+    expect(mimePart(content, 'plain')).toBe(message.text);
+    expect(mimePart(content, 'html')).toBe(message.html);
+  });
+
+  it('reports a refused recipient as a hard bounce', async () => {
+    const server = new FakeSmtpServer(['ada@example.com']);
+    const transport = new SmtpTransport({ host: 'smtp.example.com', connect: server.connect });
+
+    const error = await transport.send(message).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(EmailError);
+    expect(error.details).toEqual({ bounce: 'hard', smtpCode: 550 });
+    expect(server.written).not.toContain('DATA\r\n');
+    expect(server.closed).toBe(true);
+  });
+
+  it('refuses to send in the clear when the server has no STARTTLS', async () => {
+    const server = new FakeSmtpServer();
+    server.tls = true; // already past STARTTLS, so it isn't offered again
+    const transport = new SmtpTransport({ host: 'smtp.example.com', connect: server.connect });
+
+    await expect(transport.send(message)).rejects.toThrow('smtp.example.com does not support STARTTLS');
+  });
+});
+
+describe('EmailService', () => {
+  let capture: CaptureEmailTransport;
+
+  const createUser = async (email?: string) =>
+    (await DatabaseService.users.createUser({ name: 'Ada Obi', phone: '+2348000000000', email })).data!.id;
+
+  const reminder = () =>
+    notificationDocument(
+      NotificationTemplates.renderTemplate('payment_reminder_3_days', {
+        memberName: 'Ada <Obi>',
+        groupName: 'Market Women Ajo',
+        amount: 10000,
+        dueDate: '13 March',
+      })!
+    );
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    capture = new CaptureEmailTransport();
+    EmailService.setTransport(capture);
+    EmailService.initialize({ unsubscribeUrl: 'https://ajoturn.app/unsubscribe' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends HTML and plain-text renderings of a notification template with an unsubscribe link', async () => {
+    const userId = await createUser('Ada@Example.com');
+
+    const result = await EmailService.sendToUser(userId, reminder());
+
+    expect(result.success).toBe(true);
+    const [email] = capture.sentTo('ada@example.com');
+    expect(email.subject).toBe('💰 Payment Reminder');
+    expect(email.html).toContain('Hi Ada &lt;Obi&gt;! Your payment of ₦10,000 for Market Women Ajo is due in 3 days');
+    expect(email.text).toContain('Hi Ada <Obi>! Your payment of ₦10,000 for Market Women Ajo is due in 3 days');
+
+    const token = (await DatabaseService.users.getUserById(userId)).data!.email_unsubscribe_token!;
+    const link = `https://ajoturn.app/unsubscribe?token=${token}`;
+    expect(email.text).toContain(`Unsubscribe: ${link}`);
+    expect(email.html).toContain(`href="${link}"`);
+    expect(email.headers).toMatchObject({ 'List-Unsubscribe': `<${link}>` });
+  });
+
+  it('stops emailing an address that bounced until the member changes it', async () => {
+    const userId = await createUser('ada@example.com');
+    capture.bounce('ada@example.com');
+
+    const bounced = await EmailService.sendToUser(userId, reminder());
+    expect(bounced).toMatchObject({ success: false, code: 'EMAIL_BOUNCED' });
+    expect((await DatabaseService.users.getUserById(userId)).data!.email_suppression).toMatchObject({
+      email: 'ada@example.com',
+      reason: 'hard_bounce',
+    });
+
+    capture.clear();
+    const suppressed = await EmailService.sendToUser(userId, reminder());
+    expect(suppressed.code).toBe('EMAIL_SUPPRESSED');
+    expect(capture.sent).toHaveLength(0);
+
+    await DatabaseService.users.updateUser(userId, { email: 'ada.obi@example.com' });
+    expect((await EmailService.sendToUser(userId, reminder())).success).toBe(true);
+    expect(capture.sentTo('ada.obi@example.com')).toHaveLength(1);
+  });
+
+  it('suppresses after repeated soft bounces and resets the count on delivery', async () => {
+    const userId = await createUser('ada@example.com');
+
+    await EmailService.handleBounce({ email: 'ada@example.com', type: 'soft', reason: 'Mailbox full' });
+    await EmailService.sendToUser(userId, reminder());
+    expect((await DatabaseService.users.getUserById(userId)).data!.email_soft_bounces).toBe(0);
+
+    for (let bounce = 0; bounce < 3; bounce++) {
+      await EmailService.handleBounce({ email: 'ada@example.com', type: 'soft', reason: 'Mailbox full' });
+    }
+    expect((await DatabaseService.users.getUserById(userId)).data!.email_suppression).toMatchObject({
+      reason: 'soft_bounces',
+      detail: 'Mailbox full',
+    });
+  });
+
+  it('unsubscribes by link token and resubscribes from the app', async () => {
+    const userId = await createUser('ada@example.com');
+    await EmailService.sendToUser(userId, reminder());
+    const token = (await DatabaseService.users.getUserById(userId)).data!.email_unsubscribe_token!;
+
+    expect((await EmailService.unsubscribe('not-a-token')).code).toBe('INVALID_UNSUBSCRIBE_TOKEN');
+    expect((await EmailService.unsubscribe(token)).success).toBe(true);
+    expect((await EmailService.sendToUser(userId, reminder())).code).toBe('EMAIL_SUPPRESSED');
+
+    await EmailService.resubscribe(userId);
+    expect((await EmailService.sendToUser(userId, reminder())).success).toBe(true);
+    expect(capture.sent).toHaveLength(2);
+  });
+
+  it('lays out a settlement statement as a table', async () => {
+    const userId = await createUser('ada@example.com');
+    const document = settlementStatementDocument(
+      { reason: 'dissolve', cycle_number: 4, currency: 'NGN' },
+      {
+        user_id: userId,
+        paid_in: 40000,
+        received: 0,
+        penalties: 500,
+        received_payout: false,
+        claim: 39500,
+        owes: 0,
+        surplus_share: 0,
+        amount: 30000,
+        shortfall: 9500,
+      },
+      'Market Women Ajo'
+    );
+
+    await EmailService.sendToUser(userId, document);
+
+    const [email] = capture.sent;
+    expect(email.subject).toBe('Market Women Ajo settlement statement');
+    expect(email.text).toMatch(/Paid to you\s+₦30,000/);
+    expect(email.text).toMatch(/Not covered by the pot\s+₦9,500/);
+    expect(email.html).toContain('<td style="padding:6px 0;text-align:right;font-weight:600">₦30,000</td>');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+/// <reference types="node" />
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+// Runs firestore.rules in the Firestore emulator, so it is skipped unless one is running:
+//   firebase emulators:exec --only firestore "npx jest __tests__/firestoreRules.test.ts"
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('firestore.rules', () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'ajoturn-rules-test',
+      firestore: { rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async context => {
+      await context.firestore().doc('groups/group_1').set({
+        admin_id: 'admin',
+        delegated_permissions: { treasurer: ['canMarkPayments', 'canViewFinances'] },
+      });
+    });
+  });
+
+  describe('scheduled_notifications', () => {
+    const reminder = (overrides: Record<string, any> = {}) => ({
+      templateId: 'payment_reminder_1_day',
+      userId: 'member',
+      groupId: 'group_1',
+      contributionId: 'contribution_1',
+      data: {},
+      scheduledFor: new Date('2026-03-01T09:00:00Z'),
+      status: 'pending',
+      sendSMS: false,
+      sendEmail: false,
+      attempts: 0,
+      maxAttempts: 3,
+      ...overrides,
+    });
+    const notifications = (uid: string) => env.authenticatedContext(uid).firestore().collection('scheduled_notifications');
+
+    it('lets the admin and payment delegates schedule reminders for their group', async () => {
+      await assertSucceeds(notifications('admin').doc('n1').set(reminder()));
+      await assertSucceeds(notifications('treasurer').doc('n2').set(reminder()));
+    });
+
+    it('denies scheduling to members, outside a group and for notifications already under way', async () => {
+      await assertFails(notifications('member').doc('n1').set(reminder()));
+      await assertFails(notifications('admin').doc('n2').set(reminder({ groupId: null })));
+      await assertFails(notifications('admin').doc('n3').set(reminder({ status: 'sent' })));
+      await assertFails(notifications('admin').doc('n4').set(reminder({ attempts: 1 })));
+    });
+
+    it('lets schedulers cancel reminders and members only record receipts', async () => {
+      await env.withSecurityRulesDisabled(async context => {
+        await context.firestore().doc('scheduled_notifications/n1').set(reminder());
+      });
+
+      await assertFails(notifications('member').doc('n1').update({ status: 'cancelled' }));
+      await assertSucceeds(notifications('member').doc('n1').update({ deliveredAt: new Date() }));
+      await assertFails(notifications('treasurer').doc('n1').update({ scheduledFor: new Date() }));
+      await assertSucceeds(notifications('treasurer').doc('n1').update({ status: 'cancelled' }));
+    });
+  });
+});
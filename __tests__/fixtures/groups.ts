@@ -0,0 +1,99 @@
+import DatabaseService, { Contribution, Group, NewGroup, NewUser, User } from '../../src/services/database';
+
+// The test group's members in join order; the first runs the group
+export const MEMBER_NAMES = ['Ada Obi', 'Bola Ade', 'Chidi Okafor', 'Dayo Bello'];
+
+export interface TestGroup {
+  group: Group;
+  groupId: string;
+  users: string[]; // user IDs in join order, admin first
+  admin: string;
+  member: string; // the first member after the admin
+}
+
+let phoneNumber = 0;
+
+// The data of a repository result, failing the test with its error when there is none
+export const unwrap = <T>(result: { data?: T | null; error?: string }): T => {
+  if (result.data === undefined || result.data === null) {
+    throw new Error(result.error || 'Expected a result');
+  }
+  return result.data;
+};
+
+// A user with a phone number no other test user has, e.g. ada.obi@example.com for "Ada Obi"
+export const createUser = async (name: string, details: Partial<NewUser> = {}): Promise<User> =>
+  unwrap(
+    await DatabaseService.users.createUser({
+      name,
+      phone: `+23480${String(++phoneNumber).padStart(8, '0')}`,
+      email: `${name.toLowerCase().replace(/ /g, '.')}@example.com`,
+      ...details,
+    }),
+  );
+
+// A weekly ₦10,000 "Market Women Ajo" group with only its admin as a member
+export const createGroupRunBy = async (adminId: string, overrides: Partial<NewGroup> = {}): Promise<Group> => {
+  const { group } = unwrap(
+    await DatabaseService.createGroupWithAdmin({
+      name: 'Market Women Ajo',
+      contribution_amount: 10000,
+      admin_id: adminId,
+      max_members: 4,
+      contribution_frequency: 'weekly',
+      start_date: new Date(),
+      ...overrides,
+    }),
+  );
+  return group;
+};
+
+/**
+ * A Market Women Ajo group run by the first of `names`, with the rest added as
+ * active members in order
+ * @param options.names - Members' names; Ada Obi and Bola Ade by default
+ * @param options.group - Overrides for the group, e.g. its start date
+ */
+export const createGroup = async (
+  options: { names?: string[]; group?: Partial<NewGroup> } = {},
+): Promise<TestGroup> => {
+  const { names = MEMBER_NAMES.slice(0, 2) } = options;
+  const users: string[] = [];
+  for (const name of names) {
+    users.push((await createUser(name)).id);
+  }
+
+  const group = await createGroupRunBy(users[0], { max_members: names.length, ...options.group });
+  for (let index = 1; index < users.length; index++) {
+    await DatabaseService.groupMembers.addMember({
+      group_id: group.id,
+      user_id: users[index],
+      join_order: index + 1,
+      display_name: names[index],
+    });
+  }
+
+  return { group, groupId: group.id, users, admin: users[0], member: users[1] };
+};
+
+// Every member's contribution for a cycle
+export const createCycle = async (groupId: string, cycleNumber = 1, dueDate = new Date()): Promise<Contribution[]> =>
+  unwrap(await DatabaseService.createCycleContributions(groupId, cycleNumber, dueDate));
+
+export const contributionOf = (contributions: Contribution[], userId: string): Contribution => {
+  const contribution = contributions.find(item => item.user_id === userId);
+  if (!contribution) {
+    throw new Error(`No contribution for ${userId}`);
+  }
+  return contribution;
+};
+
+// Admin plus three members, all active
+export const createFourMemberGroup = async () => {
+  const [ada, bola, chidi, dayo] = await Promise.all(['Ada', 'Bola', 'Chidi', 'Dayo'].map(name => createUser(name)));
+  const group = await createGroupRunBy(ada.id);
+  for (const user of [bola, chidi, dayo]) {
+    await DatabaseService.joinGroup(group.id, user.id);
+  }
+  return { group, ada, bola, chidi, dayo };
+};
@@ -0,0 +1,121 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import GroupManagementService from '../src/services/business/groupManagement';
+import GroupSettlementService, { calculateSettlement } from '../src/services/business/groupSettlement';
+import LedgerService from '../src/services/business/ledger';
+import NotificationService from '../src/services/notifications';
+import { MEMBER_NAMES, createGroup } from './fixtures/groups';
+
+const member = (user_id: string, paid_in: number, received = 0, penalties = 0) => ({
+  user_id,
+  paid_in,
+  received,
+  penalties,
+  received_payout: received > 0,
+});
+
+describe('calculateSettlement', () => {
+  it('returns every claim and shares what is left over equally', () => {
+    const result = calculateSettlement(31000.01, [member('a', 10000), member('b', 10000), member('c', 10500, 0, 500)], 'NGN');
+
+    expect(result.total_claims).toBe(30000);
+    expect(result.lines.map(line => line.amount)).toEqual([10333.34, 10333.34, 10333.33]);
+    expect(result.total_paid).toBe(31000.01);
+  });
+
+  it('pays whole units in currencies without a minor unit', () => {
+    const result = calculateSettlement(100, [member('a', 100), member('b', 100), member('c', 100)], 'UGX');
+
+    expect(result.lines.map(line => line.amount)).toEqual([34, 33, 33]);
+    expect(result.total_paid).toBe(100);
+  });
+
+  it('splits a short pot in proportion to what members are still owed', () => {
+    const result = calculateSettlement(9000, [member('a', 20000, 30000), member('b', 20000), member('c', 10000)], 'NGN');
+
+    expect(result.lines).toEqual([
+      expect.objectContaining({ user_id: 'a', claim: 0, owes: 10000, amount: 0 }),
+      expect.objectContaining({ user_id: 'b', claim: 20000, amount: 6000, shortfall: 14000 }),
+      expect.objectContaining({ user_id: 'c', claim: 10000, amount: 3000, shortfall: 7000 }),
+    ]);
+  });
+});
+
+describe('GroupSettlementService', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('makes members who never had their turn whole first when dissolving mid-rotation', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+
+    // Ada takes cycle 1's payout, then everyone pays cycle 2
+    for (const cycle of [1, 2]) {
+      const contributions = await DatabaseService.createCycleContributions(groupId, cycle, new Date());
+      for (const contribution of contributions.data!) {
+        await DatabaseService.contributions.markAsPaid(contribution.id);
+      }
+      if (cycle === 1) {
+        const payout = await DatabaseService.createCyclePayout(groupId, 1, new Date(), users[0]);
+        await DatabaseService.payouts.markAsSent(payout.data!.id);
+      }
+    }
+
+    const preview = await GroupSettlementService.previewSettlement(groupId);
+    expect(preview.data!.lines.map(line => line.amount)).toEqual([0, 15000, 15000]);
+
+    const result = await GroupManagementService.handleGroupCompletion({
+      adminId: users[0],
+      groupId,
+      options: { action: 'dissolve', redistributeFunds: true, retainMembers: false, notifyMembers: false },
+    });
+    expect(result.success).toBe(true);
+
+    const settlements = await GroupSettlementService.getGroupSettlements(groupId);
+    expect(settlements.data).toHaveLength(1);
+    expect(settlements.data![0]).toMatchObject({ reason: 'dissolve', pot_balance: 30000, total_paid: 30000 });
+    expect(settlements.data![0].lines[0]).toMatchObject({ user_id: users[0], owes: 10000, amount: 0 });
+    expect(settlements.data![0].lines[2]).toMatchObject({ user_id: users[2], claim: 20000, shortfall: 5000 });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(0);
+
+    // Shares are paid into members' wallets, and everyone leaves with the group
+    const wallets = await DatabaseService.wallets.getGroupWallets(groupId);
+    expect(wallets.data!.map(wallet => [wallet.user_id, wallet.balance]).sort()).toEqual(
+      [[users[1], 15000], [users[2], 15000]].sort()
+    );
+    const members = await DatabaseService.groupMembers.getGroupMembers(groupId);
+    expect(members.data!.items.map(item => item.status)).toEqual(['left', 'left', 'left']);
+  });
+
+  it('settles a group once and leaves it untouched when the settlement fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 2) });
+    const contributions = await DatabaseService.createCycleContributions(groupId, 1, new Date());
+    for (const contribution of contributions.data!) {
+      await DatabaseService.contributions.markAsPaid(contribution.id);
+    }
+
+    const first = await GroupSettlementService.settleGroup({ groupId, adminId: users[0], reason: 'dissolve' });
+    expect(first.success).toBe(true);
+    const second = await GroupSettlementService.settleGroup({ groupId, adminId: users[0], reason: 'dissolve' });
+    expect(second).toMatchObject({ success: false, error: 'This group has already been settled' });
+
+    const result = await GroupManagementService.handleGroupCompletion({
+      adminId: users[0],
+      groupId,
+      options: { action: 'dissolve', redistributeFunds: true, retainMembers: false, notifyMembers: false },
+    });
+    expect(result).toMatchObject({ success: false, code: 'DISSOLVE_GROUP_ERROR' });
+
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.status).toBe('active');
+    const members = await DatabaseService.groupMembers.getGroupMembers(groupId);
+    expect(members.data!.items.map(item => item.status)).toEqual(['active', 'active']);
+    expect((await GroupSettlementService.getGroupSettlements(groupId)).data).toHaveLength(1);
+    expect((await DatabaseService.wallets.getWallet(groupId, users[1])).data!.balance).toBe(10000);
+  });
+});
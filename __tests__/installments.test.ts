@@ -0,0 +1,197 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import PaymentTrackingService from '../src/services/business/paymentTracking';
+import PaymentStatusService from '../src/services/business/paymentStatus';
+import LatePaymentMonitor from '../src/services/business/latePaymentMonitor';
+import LedgerService from '../src/services/business/ledger';
+import NotificationService from '../src/services/notifications';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import { splitIntoInstallments, validateInstallments } from '../src/services/business/installments';
+import { contributionOf, createCycle, createGroup } from './fixtures/groups';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Bola's cycle 1 contribution in a two-member group, due on dueDate
+const createDueContribution = async (dueDate: Date) => {
+  const { groupId, admin, member } = await createGroup();
+  const contributions = await createCycle(groupId, 1, dueDate);
+  return { groupId, admin, member, contribution: contributionOf(contributions, member) };
+};
+
+describe('installment helpers', () => {
+  it('splits a balance into equal installments and checks they add up', () => {
+    const start = new Date('2026-03-01T00:00:00Z');
+    const installments = splitIntoInstallments(10000, 3, start, 7, 'NGN');
+    expect(installments.map(installment => installment.amount)).toEqual([3333.34, 3333.33, 3333.33]);
+    expect(installments[0].due_date).toEqual(new Date('2026-03-08T00:00:00Z'));
+    expect(validateInstallments(installments, 10000, start, 'NGN')).toEqual([]);
+    expect(validateInstallments(installments.slice(1), 10000, start, 'NGN')).toEqual([
+      'Installments must add up to the outstanding balance of ₦10,000',
+    ]);
+  });
+});
+
+describe('partial payments', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('records pieces toward the pot and settles the contribution with the last one', async () => {
+    const { groupId, admin, contribution } = await createDueContribution(new Date(Date.now() + 3 * DAY));
+
+    const tooMuch = await PaymentTrackingService.recordPartialPayment({
+      contributionId: contribution.id,
+      adminId: admin,
+      amount: 12000,
+      confirmationType: 'cash',
+    });
+    expect(tooMuch.code).toBe('AMOUNT_EXCEEDS_BALANCE');
+
+    const first = await PaymentTrackingService.recordPartialPayment({
+      contributionId: contribution.id,
+      adminId: admin,
+      amount: 4000,
+      confirmationType: 'cash',
+    });
+    expect(first.data).toMatchObject({ outstandingAmount: 6000, completed: false });
+    expect(first.data!.contribution).toMatchObject({ status: 'partially_paid', paid_amount: 4000 });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(4000);
+
+    const status = await PaymentStatusService.checkPaymentStatus({ groupId, cycle: 1 });
+    expect(status.data).toMatchObject({ partiallyPaidMembers: 1, paidMembers: 0, totalCollected: 4000 });
+    expect(status.data!.membersStatus.find(member => member.contributionId === contribution.id)).toMatchObject({
+      status: 'partially_paid',
+      paidAmount: 4000,
+      outstandingAmount: 6000,
+    });
+
+    const last = await PaymentTrackingService.recordPartialPayment({
+      contributionId: contribution.id,
+      adminId: admin,
+      amount: 6000,
+      confirmationType: 'bank_transfer',
+    });
+    expect(last.data).toMatchObject({ outstandingAmount: 0, completed: true });
+    expect(last.data!.contribution.status).toBe('paid');
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(10000);
+  });
+
+  it('holds off late escalation while a member keeps to an agreed plan', async () => {
+    const start = new Date();
+    const { groupId, admin, contribution } = await createDueContribution(new Date(start.getTime() - 10 * DAY));
+    const clock = new ManualClock(start);
+    setClock(clock);
+
+    const lateContributions = async () =>
+      (await LatePaymentMonitor.getLatePaymentMembers(groupId)).data!.filter(
+        member => member.contributionId === contribution.id,
+      );
+    expect(await lateContributions()).toHaveLength(1);
+
+    const agreed = await PaymentTrackingService.agreeInstallmentPlan({
+      contributionId: contribution.id,
+      adminId: admin,
+      installments: splitIntoInstallments(10000, 2, start, 7, 'NGN'),
+    });
+    expect(agreed.success).toBe(true);
+    expect(await lateContributions()).toEqual([]);
+
+    // A week and a day later the first installment has been missed
+    await clock.advance(8 * DAY);
+    expect(await lateContributions()).toEqual([expect.objectContaining({ daysLate: 1, outstandingAmount: 10000 })]);
+
+    await PaymentTrackingService.recordPartialPayment({
+      contributionId: contribution.id,
+      adminId: admin,
+      amount: 5000,
+      confirmationType: 'mobile_money',
+    });
+    expect(await lateContributions()).toEqual([]);
+  });
+
+  it('charges a manual penalty from the first missed installment, not the original due date', async () => {
+    const start = new Date();
+    const { admin, contribution } = await createDueContribution(new Date(start.getTime() - 10 * DAY));
+    const clock = new ManualClock(start);
+    setClock(clock);
+    await PaymentTrackingService.agreeInstallmentPlan({
+      contributionId: contribution.id,
+      adminId: admin,
+      installments: splitIntoInstallments(10000, 2, start, 7, 'NGN'),
+    });
+
+    const penalty = () =>
+      PaymentTrackingService.handleLatePayment({ contributionId: contribution.id, adminId: admin, action: 'penalty' });
+
+    // On plan, so not late at all, though the contribution was due ten days ago
+    expect((await penalty()).data).toMatchObject({ daysLate: 0 });
+    expect((await DatabaseService.contributions.getContributionById(contribution.id)).data!.late_penalty_amount).toBe(0);
+
+    // Past grace after missing the first installment
+    await clock.advance(12 * DAY);
+    expect((await penalty()).data).toMatchObject({ daysLate: 5 });
+    expect((await DatabaseService.contributions.getContributionById(contribution.id)).data!.late_penalty_amount).toBeGreaterThan(0);
+  });
+
+  it('records two pieces paid at the same moment and refuses one that would overpay', async () => {
+    const { groupId, admin, contribution } = await createDueContribution(new Date(Date.now() + 3 * DAY));
+    setClock(new ManualClock(new Date()));
+    const record = (amount: number) =>
+      PaymentTrackingService.recordPartialPayment({ contributionId: contribution.id, adminId: admin, amount, confirmationType: 'cash' });
+
+    const pieces = await Promise.all([record(3000), record(3000)]);
+    expect(pieces.every(piece => piece.success)).toBe(true);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(6000);
+
+    const [allowed, overpaid] = await Promise.all([record(3000), record(3000)]);
+    expect(allowed.success).toBe(true);
+    expect(overpaid).toMatchObject({ success: false, error: 'Payment covers the rest of the contribution' });
+    const saved = (await DatabaseService.contributions.getContributionById(contribution.id)).data!;
+    expect(saved).toMatchObject({ status: 'partially_paid', paid_amount: 9000 });
+    expect(saved.payments).toHaveLength(3);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(9000);
+  });
+
+  it('leaves the contribution untouched when its ledger entry cannot be written', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new InMemoryStore();
+    DatabaseService.useStore(store);
+    const { groupId, admin, contribution } = await createDueContribution(new Date(Date.now() + 3 * DAY));
+    jest.spyOn(store, 'commit').mockRejectedValueOnce(new Error('unavailable'));
+
+    const failed = await PaymentTrackingService.recordPartialPayment({
+      contributionId: contribution.id,
+      adminId: admin,
+      amount: 4000,
+      confirmationType: 'cash',
+    });
+    expect(failed).toMatchObject({ success: false, code: 'UPDATE_FAILED' });
+    const saved = (await DatabaseService.contributions.getContributionById(contribution.id)).data!;
+    expect(saved.status).toBe('pending');
+    expect(saved.payments).toBeUndefined();
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(0);
+  });
+
+  it('refuses plans from members and plans that do not cover the balance', async () => {
+    const start = new Date();
+    const { member, admin, contribution } = await createDueContribution(new Date(start.getTime() - 10 * DAY));
+    const installments = splitIntoInstallments(10000, 2, start, 7, 'NGN');
+
+    const byMember = await PaymentTrackingService.agreeInstallmentPlan({ contributionId: contribution.id, adminId: member, installments });
+    expect(byMember).toMatchObject({ success: false, code: 'PERMISSION_DENIED' });
+
+    const short = await PaymentTrackingService.agreeInstallmentPlan({
+      contributionId: contribution.id,
+      adminId: admin,
+      installments: installments.slice(1),
+    });
+    expect(short).toMatchObject({ success: false, code: 'INVALID_PLAN' });
+    expect((await DatabaseService.contributions.getContributionById(contribution.id)).data!.installment_plan).toBeUndefined();
+  });
+});
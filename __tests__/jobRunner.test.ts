@@ -0,0 +1,192 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import DefaultJobRunner, { JobRunner, JobScope } from '../src/services/jobs/jobRunner';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import LatePaymentMonitor from '../src/services/business/latePaymentMonitor';
+import NotificationService from '../src/services/notifications';
+import { createGroup } from './fixtures/groups';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2026-03-02T08:00:00.000Z');
+const BACKEND: JobScope = { server: true };
+
+describe('JobRunner', () => {
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    clock = new ManualClock(START);
+    setClock(clock);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('creates one job per idempotency key', async () => {
+    const runner = new JobRunner('worker_a', BACKEND);
+    const first = await runner.enqueue({ type: 'late_check', idempotencyKey: 'late-check:g1:3:2026-03-02' });
+    const second = await runner.enqueue({ type: 'late_check', idempotencyKey: 'late-check:g1:3:2026-03-02' });
+
+    expect(first.success).toBe(true);
+    expect(second).toMatchObject({ success: false, code: 'DUPLICATE_JOB', data: { id: first.data!.id } });
+    expect((await DatabaseService.jobs.getJobsByType('late_check')).data).toHaveLength(1);
+  });
+
+  it('runs a job on only one of several workers', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const workers = [new JobRunner('worker_a', BACKEND), new JobRunner('worker_b', BACKEND), new JobRunner('worker_c', BACKEND)];
+    workers.forEach(worker => worker.registerHandler('rotation', handler));
+
+    await workers[0].enqueue({ type: 'rotation', idempotencyKey: 'turn-rotation:g1:1' });
+    const ran = await Promise.all(workers.map(worker => worker.runDueJobs()));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(ran.reduce((sum, count) => sum + count, 0)).toBe(1);
+    const job = await DatabaseService.jobs.getJobByKey('turn-rotation:g1:1');
+    expect(job.data).toMatchObject({ status: 'completed', attempts: 1, lease_owner: null });
+  });
+
+  it('retries failed attempts with exponential backoff', async () => {
+    const runner = new JobRunner('worker_a', BACKEND);
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockRejectedValueOnce(new Error('still down'))
+      .mockResolvedValue(undefined);
+    runner.registerHandler('payout', handler, { retryDelayMs: MINUTE });
+    await runner.enqueue({ type: 'payout', idempotencyKey: 'payout:g1:1', maxAttempts: 3 });
+
+    await runner.runDueJobs();
+    let job = await DatabaseService.jobs.getJobByKey('payout:g1:1');
+    expect(job.data).toMatchObject({ status: 'pending', attempts: 1, last_error: 'network down' });
+    expect(job.data!.run_at).toEqual(new Date(START.getTime() + MINUTE));
+
+    // Not due again until the backoff has passed
+    await clock.advance(MINUTE - 1);
+    expect(await runner.runDueJobs()).toBe(0);
+
+    await clock.advance(1);
+    await runner.runDueJobs();
+    job = await DatabaseService.jobs.getJobByKey('payout:g1:1');
+    expect(job.data!.run_at).toEqual(new Date(START.getTime() + 3 * MINUTE));
+
+    await clock.advance(2 * MINUTE);
+    await runner.runDueJobs();
+    job = await DatabaseService.jobs.getJobByKey('payout:g1:1');
+    expect(job.data).toMatchObject({ status: 'completed', attempts: 3 });
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports a job as failed once its attempts run out', async () => {
+    const onFailed = jest.fn().mockResolvedValue(undefined);
+    const runner = new JobRunner('worker_a', BACKEND);
+    runner.registerHandler('payout', jest.fn().mockRejectedValue(new Error('bank rejected')), { onFailed });
+    await runner.enqueue({ type: 'payout', idempotencyKey: 'payout:g1:2', maxAttempts: 1 });
+
+    await runner.runDueJobs();
+
+    const job = await DatabaseService.jobs.getJobByKey('payout:g1:2');
+    expect(job.data).toMatchObject({ status: 'failed', last_error: 'bank rejected' });
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: job.data!.id }), expect.any(Error));
+  });
+
+  it('lets another worker take over once a lease expires', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const runner = new JobRunner('worker_b', BACKEND);
+    runner.registerHandler('rotation', handler, { leaseMs: 5 * MINUTE });
+    const enqueued = await runner.enqueue({ type: 'rotation', idempotencyKey: 'turn-rotation:g1:2' });
+
+    // worker_a claims the job and then disappears
+    await DatabaseService.jobs.claimJob(enqueued.data!.id, 'worker_a', clock.now(), 5 * MINUTE);
+    expect(await runner.runDueJobs()).toBe(0);
+
+    await clock.advance(5 * MINUTE);
+    expect(await runner.runDueJobs()).toBe(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    // worker_a can no longer complete a job it lost
+    expect((await DatabaseService.jobs.completeJob(enqueued.data!.id, 'worker_a', clock.now())).data).toBe(false);
+  });
+
+  it('only runs jobs for the groups an app worker administers', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const app = new JobRunner('phone', { adminGroupIds: ['g1'] });
+    app.registerHandler('rotation', handler);
+    app.registerHandler('sweep', handler);
+    app.scheduleRecurring('sweep', MINUTE);
+
+    await app.enqueue({ type: 'rotation', idempotencyKey: 'turn-rotation:g1:1', groupId: 'g1' });
+    await app.enqueue({ type: 'rotation', idempotencyKey: 'turn-rotation:g2:1', groupId: 'g2' });
+    await app.enqueue({ type: 'rotation', idempotencyKey: 'turn-rotation:all', payload: {} });
+
+    expect(await app.tick()).toBe(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ group_id: 'g1' }));
+    // Recurring jobs span groups, so the app never queues them
+    expect((await DatabaseService.jobs.getJobsByType('sweep')).data).toHaveLength(0);
+
+    const backend = new JobRunner('backend', BACKEND);
+    backend.registerHandler('rotation', handler);
+    expect(await backend.runDueJobs()).toBe(2);
+  });
+
+  it('runs each period of a recurring job once across workers', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const workers = [new JobRunner('worker_a', BACKEND), new JobRunner('worker_b', BACKEND)];
+    for (const worker of workers) {
+      worker.registerHandler('sweep', handler);
+      worker.scheduleRecurring('sweep', MINUTE);
+      worker.start(30 * 1000);
+    }
+
+    await clock.advance(3 * MINUTE);
+    workers.forEach(worker => worker.stop());
+
+    // Periods starting at 08:00, 08:01, 08:02 and 08:03
+    expect(handler).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('LatePaymentMonitor on the job runner', () => {
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    clock = new ManualClock(START);
+    setClock(clock);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    // The sweep spans groups, so it runs on the backend
+    DefaultJobRunner.setScope(BACKEND);
+  });
+
+  afterEach(() => {
+    LatePaymentMonitor.cleanup();
+    DefaultJobRunner.stop();
+    DefaultJobRunner.setScope({ adminGroupIds: [] });
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('checks each late group once a day however often it sweeps', async () => {
+    const { groupId } = await createGroup({ names: ['Ada Obi'], group: { max_members: 4, start_date: START } });
+    const contributions = await DatabaseService.createCycleContributions(
+      groupId,
+      1,
+      new Date(START.getTime() - 4 * 24 * 60 * MINUTE),
+    );
+
+    await LatePaymentMonitor.startMonitoring(60);
+    await clock.advance(3 * 60 * MINUTE);
+
+    const checks = await DatabaseService.jobs.getJobsByType('late_payment_check');
+    expect(checks.data!.map(job => job.idempotency_key)).toEqual([`late-check:${groupId}:1:2026-03-02`]);
+    expect(checks.data![0].status).toBe('completed');
+
+    // Four days late with a three-day grace period: exactly one warning so far
+    const contribution = await DatabaseService.contributions.getContributionById(contributions.data![0].id);
+    expect(contribution.data).toMatchObject({ late_warnings_sent: 1, last_late_action_type: 'warning' });
+  });
+});
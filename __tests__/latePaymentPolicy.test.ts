@@ -0,0 +1,113 @@
+import DatabaseService, { InMemoryStore, LatePaymentPolicy } from '../src/services/database';
+import LatePaymentMonitor from '../src/services/business/latePaymentMonitor';
+import LedgerService from '../src/services/business/ledger';
+import PaymentTrackingService from '../src/services/business/paymentTracking';
+import NotificationService from '../src/services/notifications';
+import {
+  DEFAULT_LATE_PAYMENT_POLICY,
+  buildLatePaymentPolicy,
+  evaluateLatePayment,
+  validateLatePaymentPolicy,
+} from '../src/services/business/latePaymentPolicy';
+import { createGroup } from './fixtures/groups';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('late payment policy', () => {
+  it('derives the ladder from group settings', () => {
+    const policy = buildLatePaymentPolicy({ grace_period_days: 3, late_penalty_rate: 10, max_late_days: 21 });
+    expect(policy).toMatchObject({
+      grace_days: 3,
+      fee: { type: 'percent', rate: 10 },
+      fee_after_days: 8,
+      suspend_after_days: 21,
+    });
+    expect(validateLatePaymentPolicy(policy)).toEqual([]);
+  });
+
+  it('rejects a ladder that removes members before suspending them', () => {
+    const policy: LatePaymentPolicy = { ...DEFAULT_LATE_PAYMENT_POLICY, remove_after_days: 10 };
+    expect(validateLatePaymentPolicy(policy)).toContain('Removal must come after suspension');
+  });
+
+  it('escalates one step at a time without repeating steps', () => {
+    const policy = { ...DEFAULT_LATE_PAYMENT_POLICY, remove_after_days: 30 };
+    const state = { amount: 10000, currency: 'NGN' as const, warningsSent: 0, penaltyAmount: 0, memberStatus: 'active' as const };
+
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 1 }).action).toBe('warning');
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 3, warningsSent: 1 }).action).toBeNull();
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 4, warningsSent: 1 }).action).toBe('warning');
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 8, warningsSent: 2 })).toMatchObject({
+      action: 'penalty',
+      fee: 500,
+    });
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 9, warningsSent: 2, penaltyAmount: 500 }).action).toBeNull();
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 14, warningsSent: 2, penaltyAmount: 500 }).action).toBe(
+      'suspension',
+    );
+    expect(
+      evaluateLatePayment(policy, { ...state, daysLate: 30, penaltyAmount: 500, memberStatus: 'suspended' }).action,
+    ).toBe('removal');
+  });
+
+  it('charges a capped daily fee after the grace period', () => {
+    const policy: LatePaymentPolicy = {
+      ...DEFAULT_LATE_PAYMENT_POLICY,
+      grace_days: 2,
+      fee: { type: 'per_day', rate: 2, cap: 20 },
+      fee_after_days: 3,
+    };
+    const state = { amount: 10000, currency: 'NGN' as const, warningsSent: 2, penaltyAmount: 0 };
+
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 2 })).toMatchObject({ action: null, fee: 0 });
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 5 })).toMatchObject({ action: 'penalty', fee: 600 });
+    expect(evaluateLatePayment(policy, { ...state, daysLate: 13 }).fee).toBe(2000);
+  });
+});
+
+describe('LatePaymentMonitor with group policies', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('previews actions in a dry run and applies them on a real run', async () => {
+    const { groupId } = await createGroup({ names: ['Ada Obi'], group: { max_members: 4 } });
+    await DatabaseService.groups.updateGroup(groupId, { late_penalty_rate: 10 });
+    const contributions = await DatabaseService.createCycleContributions(groupId, 1, new Date(Date.now() - 10 * DAY + 60 * 60 * 1000));
+    const contributionId = contributions.data![0].id;
+
+    const preview = await LatePaymentMonitor.getLatePaymentSummary(groupId);
+    expect(preview.data?.plannedActions).toEqual([
+      expect.objectContaining({ decision: expect.objectContaining({ action: 'penalty', fee: 1000 }) }),
+    ]);
+    const untouched = await DatabaseService.contributions.getContributionById(contributionId);
+    expect(untouched.data?.late_penalty_amount).toBeUndefined();
+
+    const applied = await LatePaymentMonitor.checkLatePayments({ groupId });
+    expect(applied.data?.penaltiesApplied).toBe(1);
+    const charged = await DatabaseService.contributions.getContributionById(contributionId);
+    expect(charged.data).toMatchObject({ late_penalty_amount: 1000, last_late_action_type: 'penalty' });
+  });
+
+  it('leaves the contribution unchanged when the ledger refuses the late fee', async () => {
+    const { groupId, admin } = await createGroup({ names: ['Ada Obi'], group: { max_members: 4 } });
+    const contributions = await DatabaseService.createCycleContributions(groupId, 1, new Date(Date.now() - 10 * DAY));
+    const contributionId = contributions.data![0].id;
+    jest
+      .spyOn(LedgerService, 'recordLateFee')
+      .mockResolvedValue({ success: false, error: 'Ledger unavailable', code: 'LEDGER_ERROR' });
+
+    const result = await PaymentTrackingService.handleLatePayment({ contributionId, adminId: admin, action: 'penalty' });
+
+    expect(result).toMatchObject({ success: false, code: 'LEDGER_ERROR' });
+    const contribution = await DatabaseService.contributions.getContributionById(contributionId);
+    expect(contribution.data).not.toHaveProperty('late_penalty_amount');
+    expect(contribution.data).not.toHaveProperty('last_late_action_type');
+  });
+});
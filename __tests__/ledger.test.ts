@@ -0,0 +1,113 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import LedgerService from '../src/services/business/ledger';
+import GroupManagementService from '../src/services/business/groupManagement';
+import NotificationService from '../src/services/notifications';
+import { MEMBER_NAMES, createGroup } from './fixtures/groups';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('group ledger', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('tracks the pot through contributions, a late fee and the payout', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+    const contributions = await DatabaseService.createCycleContributions(groupId, 1, new Date(Date.now() - 10 * DAY));
+    const [first, second, late] = contributions.data!;
+
+    await LedgerService.recordLateFee(late, 500, users[0]);
+    await DatabaseService.contributions.updateContribution(late.id, { late_penalty_amount: 500 });
+    for (const contribution of [first, second, late]) {
+      await DatabaseService.contributions.markAsPaid(contribution.id);
+    }
+    expect((await LedgerService.getPotBalance(groupId, 1)).data).toBe(30500);
+
+    const payout = await DatabaseService.createCyclePayout(groupId, 1, new Date(), users[0]);
+    await DatabaseService.payouts.markAsSent(payout.data!.id);
+
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(0);
+    const positions = (await LedgerService.getMemberPositions(groupId)).data!;
+    expect(positions.find(position => position.userId === users[0])).toMatchObject({ paidIn: 10000, received: 30500 });
+    expect(positions.find(position => position.userId === users[2])).toMatchObject({
+      paidIn: 10500,
+      penalties: 500,
+      net: 10000,
+    });
+
+    const reconciliation = await LedgerService.reconcilePayouts(groupId);
+    expect(reconciliation.data).toMatchObject({ reconciled: true, ledgerPayoutTotal: 30195, missingEntries: [] });
+  });
+
+  it('flags completed payouts that never reached the ledger', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+    const contributions = await DatabaseService.createCycleContributions(groupId, 1, new Date());
+    for (const contribution of contributions.data!) {
+      await DatabaseService.contributions.markAsPaid(contribution.id);
+    }
+    const payout = await DatabaseService.createCyclePayout(groupId, 1, new Date(), users[1]);
+    await DatabaseService.payouts.updatePayout(payout.data!.id, { status: 'sent' });
+
+    const reconciliation = await LedgerService.reconcilePayouts(groupId);
+    expect(reconciliation.data).toMatchObject({ reconciled: false, missingEntries: [payout.data!.id] });
+  });
+
+  it('records the refund paid to a member who leaves', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+    const contributions = await DatabaseService.createCycleContributions(groupId, 1, new Date());
+    for (const contribution of contributions.data!) {
+      await DatabaseService.contributions.markAsPaid(contribution.id);
+    }
+
+    const removed = await GroupManagementService.removeMember({
+      adminId: users[0],
+      groupId,
+      memberId: users[2],
+      reason: 'request',
+      redistributeTurn: false,
+      refundContributions: true,
+    });
+    expect(removed.success).toBe(true);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(21000);
+
+    const positions = (await LedgerService.getMemberPositions(groupId)).data!;
+    expect(positions.find(position => position.userId === users[2])).toMatchObject({ received: 10000, net: 0 });
+  });
+
+  it("records entries in the group's currency", async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES.slice(0, 3), group: { currency: 'UGX' } });
+    const [first, , late] = (await DatabaseService.createCycleContributions(groupId, 1, new Date(Date.now() - 10 * DAY))).data!;
+
+    // Shillings have no minor unit, so the fee is charged in whole shillings
+    const fee = await LedgerService.recordLateFee(late, 250.6, users[0]);
+    expect(fee.data).toMatchObject({ currency: 'UGX', lines: [{ debit: 251 }, { credit: 251 }] });
+
+    await DatabaseService.contributions.markAsPaid(first.id);
+    const entries = (await DatabaseService.ledger.getGroupEntries(groupId)).data!;
+    expect(entries.map(entry => entry.currency)).toEqual(['UGX', 'UGX']);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(10000);
+  });
+
+  it('rejects entries that do not balance', async () => {
+    const result = await DatabaseService.ledger.appendEntry({
+      id: 'broken',
+      group_id: 'group_1',
+      type: 'contribution',
+      cycle_number: 1,
+      reference_id: 'contribution_1',
+      description: 'Unbalanced',
+      lines: [
+        { account: 'pot', debit: 100, credit: 0 },
+        { account: 'member:user_1', debit: 0, credit: 90 },
+      ],
+      created_at: new Date(),
+    });
+    expect(result).toMatchObject({ success: false, code: 'unbalanced-entry' });
+  });
+});
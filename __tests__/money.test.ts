@@ -0,0 +1,76 @@
+import {
+  addMoney,
+  allocateMoney,
+  checkAmountLimits,
+  compareMoney,
+  currencyOf,
+  formatAmount,
+  formatCompactAmount,
+  formatMoney,
+  formatTotals,
+  isCurrencyCode,
+  money,
+  multiplyMoney,
+  parseMoney,
+  roundAmount,
+  subtractMoney,
+  sumMoney,
+  toMajor,
+  totalsByCurrency,
+} from '../src/utils/money';
+
+describe('money', () => {
+  it('adds and splits amounts in whole minor units', () => {
+    const total = sumMoney([money(0.1, 'NGN'), money(0.2, 'NGN'), money(1000.005, 'NGN')], 'NGN');
+    expect(total).toEqual({ minorUnits: 100031, currency: 'NGN' });
+    expect(toMajor(multiplyMoney(money(10000, 'NGN'), 0.05))).toBe(500);
+
+    const parts = allocateMoney(money(100, 'NGN'), [1, 1, 1]);
+    expect(parts.map(part => part.minorUnits)).toEqual([3334, 3333, 3333]);
+    expect(allocateMoney(money(100, 'UGX'), [1, 1, 1]).map(toMajor)).toEqual([34, 33, 33]);
+    expect(() => sumMoney([money(5, 'KES')], 'NGN')).toThrow('Cannot combine NGN and KES amounts');
+
+    expect(totalsByCurrency([money(5000, 'NGN'), money(200, 'KES'), money(2500, 'NGN')])).toEqual([
+      { minorUnits: 750000, currency: 'NGN' },
+      { minorUnits: 20000, currency: 'KES' },
+    ]);
+  });
+
+  it('formats and parses amounts for each currency', () => {
+    expect(formatAmount(5000, 'NGN')).toBe('₦5,000');
+    expect(formatAmount(1250.5, 'KES')).toBe('KSh1,250.50');
+    expect(formatAmount(75000, 'UGX', { showCode: true })).toBe('UGX 75,000');
+    expect(formatMoney(money(-250, 'GHS'))).toBe('-GH₵250');
+    expect(formatCompactAmount(1500000, 'NGN')).toBe('NGN 1.5M');
+
+    expect(parseMoney('₦5,000.50', 'NGN')).toEqual({ minorUnits: 500050, currency: 'NGN' });
+    expect(parseMoney('5 000,5', 'XOF')).toBeNull(); // CFA francs have no minor unit
+    expect(parseMoney('12,000', 'XOF')).toBeNull(); // ',' is the decimal separator in fr-SN
+    expect(parseMoney('12 000', 'XOF')).toEqual({ minorUnits: 12000, currency: 'XOF' });
+    expect(parseMoney('abc', 'NGN')).toBeNull();
+  });
+
+  it('checks amounts against per-currency limits', () => {
+    expect(checkAmountLimits(500, 'NGN')).toBe('Contribution amount must be at least ₦1,000');
+    expect(checkAmountLimits(500, 'KES')).toBeNull();
+    expect(checkAmountLimits(1500.5, 'UGX')).toBe('Contribution amount cannot have more than 0 decimal places');
+    expect(checkAmountLimits(20000000, 'NGN', 'payment')).toBe('Amount cannot exceed ₦10,000,000');
+  });
+
+  it('refuses to mix currencies and keeps edge cases in whole minor units', () => {
+    expect(() => addMoney(money(5, 'NGN'), money(5, 'GHS'))).toThrow('Cannot combine NGN and GHS amounts');
+    expect(() => subtractMoney(money(5, 'KES'), money(5, 'UGX'))).toThrow('Cannot combine KES and UGX amounts');
+    expect(() => compareMoney(money(5, 'NGN'), money(5, 'XOF'))).toThrow('Cannot combine NGN and XOF amounts');
+
+    expect(allocateMoney(money(100, 'NGN'), [0, 0])).toEqual([money(0, 'NGN'), money(0, 'NGN')]);
+    expect(allocateMoney(money(100, 'NGN'), [-1, 1]).map(toMajor)).toEqual([0, 100]);
+    expect(roundAmount(1000.6, 'UGX')).toBe(1001);
+    expect(roundAmount(0.105, 'KES')).toBe(0.11);
+
+    expect(currencyOf({ currency: 'KES' })).toBe('KES');
+    expect(currencyOf({})).toBe('NGN'); // groups from before currencies were configurable
+    expect(isCurrencyCode('USD')).toBe(false);
+    expect(formatTotals([])).toBe('0');
+    expect(formatTotals([money(5000, 'NGN'), money(2000, 'KES')])).toBe('₦5,000 + KSh2,000');
+  });
+});
@@ -0,0 +1,151 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import NotificationService from '../src/services/notifications';
+import NotificationActions, {
+  NotificationActionDispatcher,
+  NotificationActionHost,
+  OPEN_NOTIFICATION,
+} from '../src/services/notifications/actions';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import { contributionOf, createCycle, createGroup } from './fixtures/groups';
+// Registers the grant_extension and explain_delay handlers
+import '../src/services/business/paymentTracking';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createHost = (): jest.Mocked<NotificationActionHost> => ({ navigate: jest.fn(), showResult: jest.fn() });
+
+// Bola's cycle 1 contribution in a two-member group, due on dueDate
+const createDueContribution = async (dueDate: Date) => {
+  const { groupId, admin, member } = await createGroup();
+  const contributions = await createCycle(groupId, 1, dueDate);
+  return { groupId, admin, member, contribution: contributionOf(contributions, member) };
+};
+
+describe('NotificationActionDispatcher', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('holds taps until a member is signed in and the navigator is ready, and runs each once', async () => {
+    const dispatcher = new NotificationActionDispatcher();
+    const host = createHost();
+    const data = { notificationId: 'n1', userId: 'u1', groupId: 'g1', contributionId: 'c1', amount: '5000' };
+
+    await dispatcher.enqueue('pay_now', data);
+    await dispatcher.enqueue('pay_now', data);
+    dispatcher.setCurrentUser('u1');
+    await dispatcher.processPending();
+    expect(host.navigate).not.toHaveBeenCalled();
+
+    dispatcher.attach(host);
+    await dispatcher.processPending();
+    await dispatcher.enqueue('pay_now', data);
+
+    expect(host.navigate).toHaveBeenCalledTimes(1);
+    expect(host.navigate).toHaveBeenCalledWith({
+      screen: 'Payment',
+      params: { groupId: 'g1', contributionId: 'c1', amount: 5000 },
+    });
+  });
+
+  it('opens what the notification is about when its body is tapped', async () => {
+    const dispatcher = new NotificationActionDispatcher();
+    const host = createHost();
+    dispatcher.attach(host);
+    dispatcher.setCurrentUser('u1');
+
+    await dispatcher.enqueue(OPEN_NOTIFICATION, { notificationId: 'n2', groupId: 'g1', groupName: 'Ajo' });
+
+    expect(host.navigate).toHaveBeenCalledWith({ screen: 'GroupDetails', params: { groupId: 'g1', groupName: 'Ajo' } });
+  });
+
+  it('refuses notifications sent to another account', async () => {
+    const dispatcher = new NotificationActionDispatcher();
+    const host = createHost();
+    dispatcher.attach(host);
+    dispatcher.setCurrentUser('u2');
+
+    await dispatcher.enqueue('view_details', { notificationId: 'n3', userId: 'u1', groupId: 'g1' });
+
+    expect(host.navigate).not.toHaveBeenCalled();
+    expect(host.showResult).toHaveBeenCalledWith('This notification was sent to another account', false);
+  });
+
+  it('keeps taps whose handler has not registered yet', async () => {
+    const dispatcher = new NotificationActionDispatcher();
+    const host = createHost();
+    dispatcher.attach(host);
+    dispatcher.setCurrentUser('u1');
+
+    await dispatcher.enqueue('custom_action', { notificationId: 'n4' });
+    expect(host.showResult).not.toHaveBeenCalled();
+
+    dispatcher.registerHandler('custom_action', async () => ({ success: true, data: { message: 'Done' } }));
+    await dispatcher.processPending();
+    expect(host.showResult).toHaveBeenCalledWith('Done', true);
+  });
+});
+
+describe('notification actions that change data', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('lets an admin grant an extension from the notification, but not the member', async () => {
+    const clock = new ManualClock(new Date('2026-03-10T09:00:00Z'));
+    setClock(clock);
+    const dueDate = new Date('2026-03-05T09:00:00Z');
+    const { admin, member, contribution } = await createDueContribution(dueDate);
+    await DatabaseService.contributions.markAsOverdue(contribution.id);
+
+    const denied = await NotificationActions.dispatch(
+      { actionId: 'grant_extension', data: { contributionId: contribution.id } },
+      member
+    );
+    expect(denied).toMatchObject({ success: false, code: 'PERMISSION_DENIED' });
+
+    const granted = await NotificationActions.dispatch(
+      { actionId: 'grant_extension', data: { contributionId: contribution.id, userId: admin } },
+      admin
+    );
+    expect(granted).toEqual({ success: true, data: { message: 'Due date extended by 7 days' } });
+
+    const updated = (await DatabaseService.contributions.getContributionById(contribution.id)).data!;
+    expect(updated).toMatchObject({ status: 'pending', is_late: false, original_due_date: dueDate });
+    expect(updated.due_date).toEqual(new Date('2026-03-17T09:00:00Z'));
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'payment_extension_granted', userId: member, refs: { contributionId: contribution.id } })
+    );
+  });
+
+  it('asks the admin for help when the member explains a delay', async () => {
+    const { groupId, admin, member, contribution } = await createDueContribution(new Date(Date.now() - 2 * DAY));
+
+    const result = await NotificationActions.dispatch(
+      { actionId: 'explain_delay', data: { contributionId: contribution.id } },
+      member
+    );
+
+    expect(result.success).toBe(true);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateId: 'admin_member_needs_help',
+        userId: admin,
+        groupId,
+        refs: { contributionId: contribution.id, memberId: member },
+      })
+    );
+    expect(
+      (await NotificationActions.dispatch({ actionId: 'explain_delay', data: { contributionId: contribution.id } }, admin)).code
+    ).toBe('PERMISSION_DENIED');
+  });
+});
@@ -0,0 +1,144 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import DatabaseService, { InMemoryStore, NotificationDeliveryPreferences } from '../src/services/database';
+import NotificationService from '../src/services/notifications';
+import NotificationScheduler from '../src/services/notifications/scheduler';
+import NotificationPreferences from '../src/services/notifications/preferences';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+
+const MINUTE = 60 * 1000;
+const data = { memberName: 'Ada Obi', groupName: 'Market Women Ajo', amount: 10000, dueDate: '2026-03-13' };
+
+// 22:30 in Lagos (UTC+1)
+const EVENING = new Date('2026-03-10T21:30:00Z');
+
+const createUser = async (preferences: Partial<NotificationDeliveryPreferences>) => {
+  const user = await DatabaseService.users.createUser({ name: 'Ada Obi', phone: '+2348000000000' });
+  const updated = await NotificationPreferences.updatePreferences(user.data!.id, preferences);
+  expect(updated.success).toBe(true);
+  return user.data!.id;
+};
+
+const schedule = async (userId: string, templateId: string, sendSMS = false) =>
+  (await NotificationScheduler.scheduleNotification({ templateId, userId, data, scheduledFor: clock.now(), sendSMS })).data!;
+
+const getScheduled = async (id: string) => (await DatabaseService.notifications.getScheduledNotificationById(id)).data!;
+
+let clock: ManualClock;
+
+describe('Notification delivery preferences', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    DatabaseService.useStore(new InMemoryStore());
+    clock = new ManualClock(EVENING);
+    setClock(clock);
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('holds notifications until quiet hours end in the member time zone, except urgent ones', async () => {
+    const userId = await createUser({ timezone: 'Africa/Lagos', quiet_hours: { start: '22:00', end: '07:00' } });
+    const reminder = await schedule(userId, 'payment_reminder_3_days');
+    const overdue = await schedule(userId, 'payment_overdue_2_days');
+
+    await NotificationScheduler.processScheduledNotifications();
+
+    expect(NotificationService.sendToUser).toHaveBeenCalledTimes(1);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(expect.objectContaining({ templateId: 'payment_overdue_2_days' }));
+    expect((await getScheduled(overdue.id)).status).toBe('sent');
+    expect(await getScheduled(reminder.id)).toMatchObject({
+      status: 'pending',
+      scheduledFor: new Date('2026-03-11T06:00:00Z'),
+    });
+
+    await clock.advance(8.5 * 60 * MINUTE);
+    await NotificationScheduler.processScheduledNotifications();
+
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(expect.objectContaining({ templateId: 'payment_reminder_3_days' }));
+    expect((await getScheduled(reminder.id)).status).toBe('sent');
+  });
+
+  it('batches routine notifications into one daily digest', async () => {
+    clock = new ManualClock(new Date('2026-03-10T09:00:00Z'));
+    setClock(clock);
+    const userId = await createUser({ delivery: 'daily_digest', digest_time: '19:00' });
+    const reminder = await schedule(userId, 'payment_reminder_3_days');
+    const joined = await schedule(userId, 'member_joined');
+    await schedule(userId, 'payment_due_today');
+
+    await NotificationScheduler.processScheduledNotifications();
+
+    expect(NotificationService.sendToUser).toHaveBeenCalledTimes(1);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(expect.objectContaining({ templateId: 'payment_due_today' }));
+    expect(await getScheduled(reminder.id)).toMatchObject({ digest: true, scheduledFor: new Date('2026-03-10T18:00:00Z') });
+
+    await clock.advance(9 * 60 * MINUTE);
+    await NotificationScheduler.processScheduledNotifications();
+
+    expect(NotificationService.sendToUser).toHaveBeenCalledTimes(2);
+    expect(NotificationService.sendToUser).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        templateId: 'notification_digest',
+        userId,
+        data: { notificationCount: 2, digestSummary: '💰 Payment Reminder; 👋 New Member Joined' },
+      })
+    );
+    expect((await getScheduled(reminder.id)).status).toBe('sent');
+    expect((await getScheduled(joined.id)).status).toBe('sent');
+  });
+
+  it('falls back to SMS only when the push is not opened in time', async () => {
+    const userId = await createUser({ channels: { payments: ['push', 'sms'] }, sms_fallback_minutes: 30 });
+    const opened = await schedule(userId, 'payment_reminder_3_days');
+    const ignored = await schedule(userId, 'installment_plan_agreed');
+
+    await NotificationScheduler.processScheduledNotifications();
+
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateId: 'payment_reminder_3_days',
+        sendPush: true,
+        sendSMS: false,
+        refs: expect.objectContaining({ scheduledNotificationId: opened.id }),
+      })
+    );
+    await NotificationService.recordPushReceipt({ scheduledNotificationId: opened.id }, 'opened');
+    expect((await getScheduled(opened.id)).openedAt).toBeInstanceOf(Date);
+
+    await clock.advance(30 * MINUTE);
+    await NotificationScheduler.processScheduledNotifications();
+
+    expect(NotificationService.sendToUser).toHaveBeenCalledTimes(3);
+    expect(NotificationService.sendToUser).toHaveBeenLastCalledWith(
+      expect.objectContaining({ templateId: 'installment_plan_agreed', sendPush: false, sendSMS: true })
+    );
+    const fallbacks = (await NotificationScheduler.getUserScheduledNotifications(userId)).data!.filter(item => item.fallbackFor);
+    expect(fallbacks.find(item => item.fallbackFor === opened.id)).toMatchObject({ status: 'cancelled', error: 'Push was opened' });
+    expect(fallbacks.find(item => item.fallbackFor === ignored.id)).toMatchObject({ status: 'sent' });
+  });
+
+  it('skips muted categories and rejects invalid settings', async () => {
+    const userId = await createUser({ channels: { group: [] } });
+    const joined = await schedule(userId, 'member_joined');
+
+    await NotificationScheduler.processScheduledNotifications();
+
+    expect(NotificationService.sendToUser).not.toHaveBeenCalled();
+    expect(await getScheduled(joined.id)).toMatchObject({ status: 'cancelled', error: 'Muted in member preferences' });
+
+    const badZone = await NotificationPreferences.updatePreferences(userId, { timezone: 'Lagos/Ikeja' });
+    expect(badZone).toMatchObject({ success: false, code: 'INVALID_PREFERENCES' });
+    const tooSoon = await NotificationPreferences.updatePreferences(userId, { sms_fallback_minutes: 2 });
+    expect(tooSoon.error).toBe('SMS fallback must be between 5 minutes and 24 hours');
+    const duplicate = await NotificationPreferences.updatePreferences(userId, { channels: { payouts: ['sms', 'sms'] } });
+    expect(duplicate.success).toBe(false);
+
+    const turnedOff = await NotificationPreferences.updatePreferences(userId, { channels: { group: undefined } });
+    expect(turnedOff.data!.channels).toEqual({});
+  });
+});
@@ -0,0 +1,86 @@
+import NotificationTemplates from '../src/services/notifications/templates';
+import { TemplateSyntaxError, parseTemplate, renderNodes, smsLength } from '../src/services/notifications/templateEngine';
+import { SUPPORTED_LANGUAGES } from '../src/utils/languages';
+
+describe('template engine', () => {
+  const kinds = { daysLate: 'number' as const, reason: 'text' as const, amount: 'money' as const };
+
+  it('picks the plural form for the language', () => {
+    const nodes = parseTemplate('{{plural daysLate one="# day" other="# days"}} late');
+    expect(renderNodes(nodes, { daysLate: 1 }, { kinds })).toBe('1 day late');
+    expect(renderNodes(nodes, { daysLate: 1200 }, { kinds })).toBe('1,200 days late');
+    expect(renderNodes(nodes, { daysLate: 1 }, { kinds, language: 'yo' })).toBe('1 days late');
+  });
+
+  it('renders conditional sections only when the variable is set', () => {
+    const nodes = parseTemplate('Not sent{{#if reason}}: {{reason}}{{else}}.{{/if}}');
+    expect(renderNodes(nodes, { reason: 'Wrong account' }, { kinds })).toBe('Not sent: Wrong account');
+    expect(renderNodes(nodes, {}, { kinds })).toBe('Not sent.');
+  });
+
+  it('rejects malformed templates', () => {
+    expect(() => parseTemplate('{{#if reason}}open')).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate('{{plural daysLate one="# day"}}')).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate('{{amount | upper}}')).toThrow(TemplateSyntaxError);
+  });
+
+  it('formats money with the currency code in SMS so it stays GSM-7', () => {
+    const nodes = parseTemplate('{{amount}}');
+    expect(renderNodes(nodes, { amount: 5000 }, { kinds })).toBe('₦5,000');
+    expect(renderNodes(nodes, { amount: 5000 }, { kinds, channel: 'sms' })).toBe('NGN 5,000');
+    expect(renderNodes(nodes, { amount: 1250.5 }, { kinds, currency: 'KES', language: 'sw', channel: 'sms' })).toBe('KES 1,250.50');
+  });
+
+  it('counts SMS length by encoding', () => {
+    expect(smsLength('Pay [now]')).toEqual({ length: 11, limit: 160, encoding: 'gsm7' });
+    expect(smsLength('Ẹ n lẹ́ o')).toMatchObject({ limit: 70, encoding: 'ucs2' });
+  });
+});
+
+describe('NotificationTemplates', () => {
+  const data = { memberName: 'Bola', groupName: 'Market Women Ajo', amount: 5000, daysLate: 1, dueDate: new Date(2026, 2, 10) };
+
+  it('loads every template and translation without problems', () => {
+    expect(NotificationTemplates.validateTemplates()).toEqual([]);
+    SUPPORTED_LANGUAGES.forEach(language => {
+      const rendered = NotificationTemplates.renderTemplate('payment_due_today', data, language)!;
+      expect(rendered.body).toContain('Bola');
+      expect(rendered.body).not.toContain('{{');
+      expect(smsLength(rendered.smsTemplate!).encoding).toBe('gsm7');
+    });
+  });
+
+  it('renders in the member language and falls back to English', () => {
+    expect(NotificationTemplates.renderTemplate('payment_overdue_2_days', data)!.body).toContain('is 1 day overdue');
+    expect(NotificationTemplates.renderTemplate('payment_overdue_2_days', data, 'pcm')!.body).toContain('don late by 1 day');
+
+    const yoruba = NotificationTemplates.renderTemplate('payment_reminder_3_days', data, 'yo')!;
+    expect(yoruba.title).toBe('💰 Ìrántí Ìsanwó');
+    expect(yoruba.actions!.map(action => action.title)).toEqual(['Wo Àlàyé', 'Mo Ti San']);
+    expect(yoruba.smsTemplate).toContain('NGN 5,000');
+
+    const admin = NotificationTemplates.renderTemplate('admin_payment_confirmed', { ...data, cycle: 2 }, 'ha')!;
+    expect(admin.body).toBe('Payment confirmed: Bola paid ₦5,000 for Market Women Ajo cycle 2.');
+  });
+
+  it('leaves out translations that do not match the English template', () => {
+    const problems = NotificationTemplates.addTranslations('sw', {
+      member_joined: { body: 'Karibu {{memberName}}!' },
+      group_full: {
+        smsTemplate: '{{groupName}} kimekamilika! Mzunguko wa kwanza utaanza hivi karibuni. Jiandae kuweka akiba pamoja, kila mwanachama atapokea zamu yake kwa wakati wake, tafadhali lipa mapema.',
+      },
+      unknown_template: { title: 'Habari' },
+    });
+
+    expect(problems).toEqual([
+      'sw/member_joined: body is missing {{joinedMemberName}}',
+      'sw/member_joined: body is missing {{groupName}}',
+      'sw/member_joined: body uses {{memberName}}, which the English text does not',
+      'sw/group_full: SMS is 176 characters, over the 160 that fit in one GSM-7 segment',
+      'sw/unknown_template: no such template',
+    ]);
+    expect(NotificationTemplates.renderTemplate('member_joined', { joinedMemberName: 'Ada', groupName: 'Ajo' }, 'sw')!.body).toBe(
+      'Welcome Ada to Ajo! Our group is growing stronger together.',
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import LedgerService from '../src/services/business/ledger';
+import PaymentService, { FakePaymentProvider, PaystackProvider } from '../src/services/payments';
+import { HttpRequest } from '../src/services/payments/http';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import JobRunner from '../src/services/jobs/jobRunner';
+import { contributionOf, createCycle, createGroup } from './fixtures/groups';
+
+const createContributions = async () => {
+  const { groupId, users, member } = await createGroup();
+  return { groupId, users, contribution: contributionOf(await createCycle(groupId), member) };
+};
+
+describe('PaymentService', () => {
+  let provider: FakePaymentProvider;
+
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    provider = new FakePaymentProvider();
+    PaymentService.registerProvider(provider);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('marks the contribution paid once the provider confirms the payment', async () => {
+    const { groupId, users, contribution } = await createContributions();
+
+    const started = await PaymentService.startContributionPayment({
+      contributionId: contribution.id,
+      userId: users[1],
+      method: 'card',
+    });
+    expect(started.data).toMatchObject({ status: 'pending', amount: 10000, provider: 'fake' });
+    expect(started.data!.authorization_url).toBeDefined();
+
+    const reference = started.data!.id;
+    expect((await PaymentService.verifyPayment(reference)).data!.status).toBe('pending');
+
+    const webhook = provider.completePayment(reference);
+    const [fromWebhook, fromApp] = await Promise.all([
+      PaymentService.handleWebhook('fake', webhook),
+      PaymentService.verifyPayment(reference),
+    ]);
+    expect(fromWebhook.data!.status).toBe('success');
+    expect(fromApp.data!.status).toBe('success');
+
+    const paid = await DatabaseService.contributions.getContributionById(contribution.id);
+    expect(paid.data).toMatchObject({
+      status: 'paid',
+      payment_method: 'card',
+      transaction_reference: reference,
+      transaction_id: `fake_txn_${reference}`,
+    });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(10000);
+  });
+
+  it('checks a payment a member asks about in a job until the provider settles it', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const clock = new ManualClock(new Date('2026-01-05T09:00:00Z'));
+    setClock(clock);
+    const runJobs = async () => {
+      JobRunner.setScope({ server: true });
+      await JobRunner.runDueJobs();
+      JobRunner.setScope({ adminGroupIds: [] });
+    };
+    try {
+      const { users, contribution } = await createContributions();
+      const started = await PaymentService.startContributionPayment({
+        contributionId: contribution.id,
+        userId: users[1],
+        method: 'card',
+      });
+      const reference = started.data!.id;
+
+      const someoneElse = await PaymentService.requestVerification({ reference, userId: users[0] });
+      expect(someoneElse).toMatchObject({ success: false, error: 'You can only check your own payments' });
+
+      // Asking twice queues one check, which tries again while the provider has no answer
+      const requested = await PaymentService.requestVerification({ reference, userId: users[1] });
+      expect(requested.data!.status).toBe('pending');
+      expect((await PaymentService.requestVerification({ reference, userId: users[1] })).success).toBe(true);
+      await runJobs();
+      expect((await DatabaseService.paymentTransactions.getByReference(reference)).data!.status).toBe('pending');
+
+      provider.completePayment(reference);
+      await clock.advance(2 * 60 * 1000);
+      await runJobs();
+      expect((await DatabaseService.paymentTransactions.getByReference(reference)).data!.status).toBe('success');
+      expect((await DatabaseService.contributions.getContributionById(contribution.id)).data!.status).toBe('paid');
+    } finally {
+      setClock(systemClock);
+    }
+  });
+
+  it('marks the contribution paid on a later check when updating it failed', async () => {
+    const { users, contribution } = await createContributions();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const started = await PaymentService.startContributionPayment({
+      contributionId: contribution.id,
+      userId: users[1],
+      method: 'card',
+    });
+    const reference = started.data!.id;
+    provider.completePayment(reference);
+
+    jest
+      .spyOn(DatabaseService.contributions, 'markAsPaid')
+      .mockResolvedValueOnce({ success: false, error: 'Network error' });
+    expect((await PaymentService.verifyPayment(reference)).success).toBe(false);
+    expect((await DatabaseService.contributions.getContributionById(contribution.id)).data!.status).not.toBe('paid');
+
+    const retried = await PaymentService.verifyPayment(reference);
+    expect(retried.data!.status).toBe('success');
+    expect((await DatabaseService.contributions.getContributionById(contribution.id)).data).toMatchObject({
+      status: 'paid',
+      transaction_reference: reference,
+    });
+  });
+
+  it('leaves methods unavailable outside development until a provider is registered', () => {
+    const dev = __DEV__;
+    Object.assign(globalThis, { __DEV__: false });
+    try {
+      jest.isolateModules(() => {
+        const release: typeof PaymentService = require('../src/services/payments').default;
+        expect(release.isMethodAvailable('card')).toBe(false);
+        expect(() => release.getProviderForMethod('card')).toThrow('Payments by card are not available yet');
+
+        release.registerProvider(new FakePaymentProvider(), ['card']);
+        expect(release.isMethodAvailable('card')).toBe(true);
+        expect(release.isMethodAvailable('mobile_money')).toBe(false);
+      });
+    } finally {
+      Object.assign(globalThis, { __DEV__: dev });
+    }
+  });
+
+  it('only refunds payments that did not pay a contribution', async () => {
+    const { users, contribution } = await createContributions();
+    const pay = async () => {
+      const started = await PaymentService.startContributionPayment({
+        contributionId: contribution.id,
+        userId: users[1],
+        method: 'mobile_money',
+      });
+      return started.data!.id;
+    };
+
+    // Two payment attempts both go through
+    const [first, second] = [await pay(), await pay()];
+    provider.completePayment(first);
+    provider.completePayment(second);
+    await PaymentService.verifyPayment(first);
+    await PaymentService.verifyPayment(second);
+
+    const rejected = await PaymentService.refundPayment({ reference: first, adminId: users[0] });
+    expect(rejected).toMatchObject({ success: false, code: 'PAYMENT_ERROR' });
+
+    const refunded = await PaymentService.refundPayment({ reference: second, adminId: users[0] });
+    expect(refunded.data).toMatchObject({ status: 'refunded', refunded_amount: 10000 });
+  });
+});
+
+describe('PaystackProvider', () => {
+  it('sends amounts in kobo and reads verification results back', async () => {
+    const requests: HttpRequest[] = [];
+    const paystack = new PaystackProvider({ secretKey: 'sk_test', verifySignature: () => false }, async request => {
+      requests.push(request);
+      if (request.url.endsWith('/transaction/initialize')) {
+        return { status: 200, text: JSON.stringify({ status: true, data: { authorization_url: 'https://pay' } }) };
+      }
+      return {
+        status: 200,
+        text: JSON.stringify({
+          status: true,
+          data: { id: 42, status: 'success', amount: 1050000, currency: 'NGN', paid_at: '2026-01-05T10:00:00Z' },
+        }),
+      };
+    });
+
+    const initialization = await paystack.initializePayment({
+      reference: 'ajo_1',
+      amount: 10500,
+      currency: 'NGN',
+      method: 'card',
+      customer: { userId: 'user_1', name: 'Ada', email: 'ada@example.com' },
+      description: 'Ajoturn cycle 1',
+    });
+    expect(initialization.authorizationUrl).toBe('https://pay');
+    expect(JSON.parse(requests[0].body!)).toMatchObject({ amount: 1050000, reference: 'ajo_1' });
+    expect(requests[0].headers!.Authorization).toBe('Bearer sk_test');
+
+    expect(await paystack.verifyTransaction('ajo_1')).toMatchObject({
+      status: 'success',
+      amount: 10500,
+      providerTransactionId: '42',
+    });
+    await expect(
+      paystack.handleWebhook({ headers: { 'x-paystack-signature': 'forged' }, body: {}, rawBody: '{}' })
+    ).rejects.toThrow('Invalid Paystack webhook signature');
+  });
+});
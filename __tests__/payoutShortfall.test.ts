@@ -0,0 +1,188 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import CycleProcessorService from '../src/services/business/cycleProcessor';
+import GroupManagementService from '../src/services/business/groupManagement';
+import PaymentTrackingService from '../src/services/business/paymentTracking';
+import PayoutService from '../src/services/business/payouts';
+import LedgerService from '../src/services/business/ledger';
+import { evaluatePayoutShortfall, validatePayoutShortfallPolicy } from '../src/services/business/payoutShortfallPolicy';
+import NotificationService from '../src/services/notifications';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import { contributionOf, createCycle, createGroup } from './fixtures/groups';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Two members, cycle 1 over two days ago, and only the admin has paid
+const createShortCycle = async () => {
+  const { groupId, admin, member } = await createGroup();
+  await DatabaseService.groups.updateGroup(groupId, {
+    status: 'active',
+    total_members: 2,
+    cycle_end_date: new Date(Date.now() - 2 * DAY_MS),
+  });
+  await DatabaseService.contributions.markAsPaid(contributionOf(await createCycle(groupId), admin).id);
+  return { groupId, admin, member };
+};
+
+describe('evaluatePayoutShortfall', () => {
+  const cycleEndDate = new Date('2026-03-01T00:00:00Z');
+  const state = {
+    expected: 30000,
+    collected: 20000,
+    cycleEndDate,
+    now: new Date('2026-03-03T00:00:00Z'),
+    currency: 'NGN' as const,
+  };
+
+  it('holds the payout under full_only until everything is collected', () => {
+    expect(evaluatePayoutShortfall({ rule: 'full_only' }, state)).toMatchObject({ release: false, shortfall: 10000 });
+    expect(evaluatePayoutShortfall({ rule: 'full_only' }, { ...state, collected: 30000 })).toMatchObject({
+      release: true,
+      shortfall: 0,
+    });
+  });
+
+  it('holds a delayed payout until the delay has passed', () => {
+    const held = evaluatePayoutShortfall({ rule: 'delay', delay_days: 3 }, state);
+    expect(held).toMatchObject({ release: false, heldUntil: new Date('2026-03-04T00:00:00Z') });
+    const released = evaluatePayoutShortfall({ rule: 'delay', delay_days: 3 }, { ...state, now: new Date('2026-03-04T00:00:00Z') });
+    expect(released).toMatchObject({ release: true, shortfall: 10000 });
+  });
+
+  it('pays the collected portion under the other rules', () => {
+    expect(evaluatePayoutShortfall({ rule: 'pay_collected' }, state).release).toBe(true);
+    expect(evaluatePayoutShortfall({ rule: 'advance_from_reserve' }, state).release).toBe(true);
+  });
+
+  it('requires a delay for the delay rule', () => {
+    expect(validatePayoutShortfallPolicy({ rule: 'delay' })).toEqual(['Payout delay must be between 1 and 30 days']);
+    expect(validatePayoutShortfallPolicy({ rule: 'delay', delay_days: 5 })).toEqual([]);
+  });
+});
+
+describe('payout shortfall policy', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the cycle open under full_only and records what is owed once a delay passes', async () => {
+    const { groupId, admin, member } = await createShortCycle();
+
+    await GroupManagementService.updatePayoutShortfallPolicy({ adminId: admin, groupId, policy: { rule: 'full_only' } });
+    const held = await CycleProcessorService.processGroupCycle({ groupId, adminId: admin });
+    expect(held.error).toContain('The payout waits until every member has paid');
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.current_cycle).toBe(1);
+
+    const invalid = await GroupManagementService.updatePayoutShortfallPolicy({ adminId: admin, groupId, policy: { rule: 'delay' } });
+    expect(invalid.code).toBe('INVALID_PAYOUT_SHORTFALL_POLICY');
+    await GroupManagementService.updatePayoutShortfallPolicy({
+      adminId: admin,
+      groupId,
+      policy: { rule: 'delay', delay_days: 1 },
+    });
+
+    const processed = await CycleProcessorService.processGroupCycle({ groupId, adminId: admin });
+    expect(processed.data).toMatchObject({ payoutCreated: true, newCycle: 2, recipientId: admin });
+
+    const payout = (await DatabaseService.payouts.getCyclePayout(groupId, 1)).data!;
+    expect(payout).toMatchObject({ amount: 10000, expected_amount: 20000, shortfall_amount: 10000, shortfall_rule: 'delay' });
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateId: 'payout_shortfall',
+        userId: admin,
+        data: expect.objectContaining({ owedAmount: 10000 }),
+      }),
+    );
+    expect(NotificationService.sendToUser).not.toHaveBeenCalledWith(expect.objectContaining({ userId: member, templateId: 'payout_shortfall' }));
+  });
+
+  it('lets an admin cover the shortfall from the reserve fund before sending', async () => {
+    const { groupId, admin } = await createShortCycle();
+    await GroupManagementService.updatePayoutShortfallPolicy({
+      adminId: admin,
+      groupId,
+      policy: { rule: 'advance_from_reserve' },
+    });
+    await CycleProcessorService.processGroupCycle({ groupId, adminId: admin, forceProcess: true });
+    const payout = (await DatabaseService.payouts.getCyclePayout(groupId, 1)).data!;
+    expect(payout).toMatchObject({ shortfall_amount: 10000, shortfall_rule: 'advance_from_reserve' });
+
+    const empty = await PayoutService.advanceFromReserve({ payoutId: payout.id, adminId: admin });
+    expect(empty.error).toBe('The reserve fund is empty');
+
+    expect((await PayoutService.fundReserve({ groupId, adminId: admin, amount: 6000 })).data).toBe(6000);
+    const tooMuch = await PayoutService.advanceFromReserve({ payoutId: payout.id, adminId: admin, amount: 8000 });
+    expect(tooMuch.success).toBe(false);
+
+    const advanced = await PayoutService.advanceFromReserve({ payoutId: payout.id, adminId: admin });
+    expect(advanced.data).toMatchObject({ amount: 16000, reserve_advance: 6000, shortfall_amount: 4000 });
+    expect((await LedgerService.getReserveBalance(groupId)).data).toBe(0);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(16000);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateId: 'payout_reserve_advance',
+        data: expect.objectContaining({ amount: 6000, owedAmount: 4000 }),
+      }),
+    );
+
+    await PaymentTrackingService.releasePayout({ adminId: admin, payoutId: payout.id });
+    await DatabaseService.payouts.markAsSent(payout.id);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(0);
+    expect((await LedgerService.reconcilePayouts(groupId)).data!.reconciled).toBe(true);
+  });
+
+  it('keeps every deposit made at the same moment and advances the reserve only once', async () => {
+    const { groupId, admin } = await createShortCycle();
+    await GroupManagementService.updatePayoutShortfallPolicy({
+      adminId: admin,
+      groupId,
+      policy: { rule: 'advance_from_reserve' },
+    });
+    await CycleProcessorService.processGroupCycle({ groupId, adminId: admin, forceProcess: true });
+    const payout = (await DatabaseService.payouts.getCyclePayout(groupId, 1)).data!;
+    setClock(new ManualClock(new Date()));
+
+    await Promise.all([
+      PayoutService.fundReserve({ groupId, adminId: admin, amount: 3000 }),
+      PayoutService.fundReserve({ groupId, adminId: admin, amount: 3000 }),
+    ]);
+    expect((await LedgerService.getReserveBalance(groupId)).data).toBe(6000);
+
+    const advances = await Promise.all([
+      PayoutService.advanceFromReserve({ payoutId: payout.id, adminId: admin }),
+      PayoutService.advanceFromReserve({ payoutId: payout.id, adminId: admin }),
+    ]);
+    expect(advances.filter(advance => advance.success)).toHaveLength(1);
+    expect((await LedgerService.getReserveBalance(groupId)).data).toBe(0);
+    expect((await DatabaseService.payouts.getPayoutById(payout.id)).data).toMatchObject({
+      amount: 16000,
+      reserve_advance: 6000,
+    });
+  });
+
+  it('refuses reserve advances to members and to groups that do not allow them', async () => {
+    const { groupId, admin, member } = await createShortCycle();
+    await GroupManagementService.updatePayoutShortfallPolicy({
+      adminId: admin,
+      groupId,
+      policy: { rule: 'pay_collected' },
+    });
+    await CycleProcessorService.processGroupCycle({ groupId, adminId: admin, forceProcess: true });
+    const payout = (await DatabaseService.payouts.getCyclePayout(groupId, 1)).data!;
+    await PayoutService.fundReserve({ groupId, adminId: admin, amount: 6000 });
+
+    const byMember = await PayoutService.advanceFromReserve({ payoutId: payout.id, adminId: member });
+    expect(byMember.error).toBe('You do not have permission to manage payouts');
+    const notAllowed = await PayoutService.advanceFromReserve({ payoutId: payout.id, adminId: admin });
+    expect(notAllowed.error).toBe('This group does not advance payouts from its reserve fund');
+    expect((await PayoutService.fundReserve({ groupId, adminId: member, amount: 1000 })).success).toBe(false);
+    expect((await LedgerService.getReserveBalance(groupId)).data).toBe(6000);
+  });
+});
@@ -0,0 +1,220 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import PaymentService, { FakePaymentProvider } from '../src/services/payments';
+import PaymentTrackingService from '../src/services/business/paymentTracking';
+import PayoutService, { namesMatch } from '../src/services/business/payouts';
+import LedgerService from '../src/services/business/ledger';
+import NotificationService from '../src/services/notifications';
+import { createCycle, createGroup, unwrap } from './fixtures/groups';
+
+const createPayout = async () => {
+  const { groupId, admin, member } = await createGroup();
+  for (const contribution of await createCycle(groupId)) {
+    await DatabaseService.contributions.markAsPaid(contribution.id);
+  }
+  const payout = await DatabaseService.createCyclePayout(groupId, 1, new Date(), member);
+  return { groupId, admin, recipient: member, payout: unwrap(payout) };
+};
+
+describe('namesMatch', () => {
+  it('accepts the member name in any order and with extra names on the account', () => {
+    expect(namesMatch('Bola Ade', 'ADE BOLA FUNMILAYO')).toBe(true);
+    expect(namesMatch('bola ade-ola', 'BOLA ADE OLA')).toBe(true);
+    expect(namesMatch('Bola Ade', 'BOLA OKAFOR')).toBe(false);
+  });
+});
+
+describe('PayoutService', () => {
+  let provider: FakePaymentProvider;
+
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    provider = new FakePaymentProvider();
+    provider.addAccount('0123456789', 'ADE BOLA');
+    provider.addAccount('0987654321', 'OKAFOR CHINEDU');
+    PaymentService.registerProvider(provider);
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('only saves accounts held in the member name', async () => {
+    const { recipient } = await createPayout();
+    const register = (accountNumber: string) =>
+      PayoutService.registerPayoutAccount({
+        userId: recipient,
+        method: 'bank_transfer',
+        accountNumber,
+        bankCode: '058',
+        bankName: 'GTBank',
+        currency: 'NGN',
+      });
+
+    const someoneElse = await register('0987654321');
+    expect(someoneElse).toMatchObject({ success: false, code: 'PAYOUT_ERROR' });
+    expect(someoneElse.error).toContain('OKAFOR CHINEDU');
+    expect((await register('1111111111')).error).toBe('Account not found');
+
+    const saved = await register('0123456789');
+    expect(saved.data).toMatchObject({ account_name: 'ADE BOLA', is_default: true, provider: 'fake' });
+  });
+
+  it('moves a payout from release to sent to confirmed by the recipient', async () => {
+    const { groupId, admin, recipient, payout } = await createPayout();
+
+    const early = await PayoutService.sendPayout({ payoutId: payout.id, adminId: admin });
+    expect(early.error).toBe('This payout has to be released before it can be sent');
+
+    const released = await PaymentTrackingService.releasePayout({ adminId: admin, payoutId: payout.id });
+    expect(released.data).toMatchObject({ status: 'approved', approved_by: admin });
+
+    const noAccount = await PayoutService.sendPayout({ payoutId: payout.id, adminId: admin });
+    expect(noAccount.error).toBe('The recipient has not added a verified payout account yet');
+
+    await PayoutService.registerPayoutAccount({
+      userId: recipient,
+      method: 'bank_transfer',
+      accountNumber: '0123456789',
+      bankCode: '058',
+      currency: 'NGN',
+    });
+    const sent = await PayoutService.sendPayout({ payoutId: payout.id, adminId: admin });
+    expect(sent.data).toMatchObject({
+      status: 'sent',
+      provider: 'fake',
+      bank_details: { account_number: '0123456789', account_name: 'ADE BOLA' },
+    });
+    expect(provider.getTransfer(payout.id)).toMatchObject({ amount: payout.net_amount, currency: 'NGN' });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(0);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'payout_processing', userId: recipient }),
+    );
+
+    const notRecipient = await PayoutService.confirmReceipt({ payoutId: payout.id, userId: admin });
+    expect(notRecipient.success).toBe(false);
+
+    const confirmed = await PayoutService.confirmReceipt({ payoutId: payout.id, userId: recipient });
+    expect(confirmed.data!.status).toBe('confirmed');
+    expect(confirmed.data!.confirmed_date).toBeDefined();
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'payout_completed', userId: recipient }),
+    );
+    expect((await LedgerService.reconcilePayouts(groupId)).data!.reconciled).toBe(true);
+  });
+
+  it('asks the provider for one transfer when two admins send at once', async () => {
+    const { admin, recipient, payout } = await createPayout();
+    await PaymentTrackingService.releasePayout({ adminId: admin, payoutId: payout.id });
+    await PayoutService.registerPayoutAccount({
+      userId: recipient,
+      method: 'bank_transfer',
+      accountNumber: '0123456789',
+      bankCode: '058',
+      currency: 'NGN',
+    });
+    const sendTransfer = jest.spyOn(provider, 'sendTransfer');
+
+    const results = await Promise.all([
+      PayoutService.sendPayout({ payoutId: payout.id, adminId: admin }),
+      PayoutService.sendPayout({ payoutId: payout.id, adminId: admin }),
+    ]);
+
+    expect(sendTransfer).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.data?.status ?? result.error)).toEqual(
+      expect.arrayContaining(['sent', 'This payout is already being sent']),
+    );
+  });
+
+  it('leaves a declined transfer failed until it is retried', async () => {
+    const { groupId, admin, recipient, payout } = await createPayout();
+    await PaymentTrackingService.releasePayout({ adminId: admin, payoutId: payout.id });
+    await PayoutService.registerPayoutAccount({
+      userId: recipient,
+      method: 'bank_transfer',
+      accountNumber: '0123456789',
+      bankCode: '058',
+      currency: 'NGN',
+    });
+
+    provider.failNextTransfer('Insufficient balance');
+    const failed = await PayoutService.sendPayout({ payoutId: payout.id, adminId: admin });
+    expect(failed.error).toBe('The transfer failed: Insufficient balance');
+    expect((await DatabaseService.payouts.getPayoutById(payout.id)).data).toMatchObject({
+      status: 'failed',
+      retry_count: 1,
+      failure_reason: 'Insufficient balance',
+    });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(20000);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'payout_failed', data: expect.objectContaining({ reason: 'Insufficient balance' }) }),
+    );
+
+    const retried = await PayoutService.retryPayout({ payoutId: payout.id, adminId: admin });
+    expect(retried.data).toMatchObject({ status: 'sent', retry_count: 1 });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(0);
+  });
+
+  it('keeps a sent payout from going out again when its ledger entry cannot be written', async () => {
+    const store = new InMemoryStore();
+    DatabaseService.useStore(store);
+    const { groupId, admin, recipient, payout } = await createPayout();
+    await PaymentTrackingService.releasePayout({ adminId: admin, payoutId: payout.id });
+    await PayoutService.registerPayoutAccount({
+      userId: recipient,
+      method: 'bank_transfer',
+      accountNumber: '0123456789',
+      bankCode: '058',
+      currency: 'NGN',
+    });
+    const sendTransfer = jest.spyOn(provider, 'sendTransfer');
+    const commit = store.commit.bind(store);
+    jest.spyOn(store, 'commit').mockImplementation(async writes => {
+      if (writes.some(write => write.collection === 'ledger_entries')) {
+        throw new Error('unavailable');
+      }
+      return commit(writes);
+    });
+
+    const sent = await PayoutService.sendPayout({ payoutId: payout.id, adminId: admin });
+    expect(sent.error).toBe('The payout was sent but could not be saved');
+    expect((await DatabaseService.payouts.getPayoutById(payout.id)).data!.status).toBe('sending');
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.total_payouts_made).toBe(0);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(20000);
+
+    expect((await PayoutService.sendPayout({ payoutId: payout.id, adminId: admin })).error).toBe('This payout is already sending');
+    expect((await PayoutService.retryPayout({ payoutId: payout.id, adminId: admin })).error).toBe(
+      'Only failed payouts can be retried',
+    );
+    expect(sendTransfer).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying a payout once its retries are used up', async () => {
+    const { admin, recipient, payout } = await createPayout();
+    await PaymentTrackingService.releasePayout({ adminId: admin, payoutId: payout.id });
+    await PayoutService.registerPayoutAccount({
+      userId: recipient,
+      method: 'bank_transfer',
+      accountNumber: '0123456789',
+      bankCode: '058',
+      currency: 'NGN',
+    });
+
+    provider.failNextTransfer('Bank unavailable');
+    await PayoutService.sendPayout({ payoutId: payout.id, adminId: admin });
+    for (let attempt = 0; attempt < 2; attempt++) {
+      provider.failNextTransfer('Bank unavailable');
+      expect((await PayoutService.retryPayout({ payoutId: payout.id, adminId: admin })).success).toBe(false);
+    }
+    expect((await DatabaseService.payouts.getPayoutById(payout.id)).data).toMatchObject({ status: 'failed', retry_count: 3 });
+
+    const exhausted = await PayoutService.retryPayout({ payoutId: payout.id, adminId: admin });
+    expect(exhausted.error).toBe('This payout has failed too many times; check the account with the recipient');
+    expect(provider.getTransfer(payout.id)).toBeUndefined();
+
+    const notAllowed = await PayoutService.retryPayout({ payoutId: payout.id, adminId: recipient });
+    expect(notAllowed.error).toBe('You do not have permission to send payouts');
+  });
+});
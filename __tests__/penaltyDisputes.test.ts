@@ -0,0 +1,240 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import PaymentTrackingService from '../src/services/business/paymentTracking';
+import PenaltyDisputeService from '../src/services/business/penaltyDisputes';
+import LedgerService from '../src/services/business/ledger';
+import NotificationService from '../src/services/notifications';
+import NotificationActions from '../src/services/notifications/actions';
+import { InMemoryReceiptFileStore } from '../src/services/receipts';
+import JobRunner from '../src/services/jobs/jobRunner';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import { MEMBER_NAMES, contributionOf, createCycle, createGroup } from './fixtures/groups';
+
+// Ada is the admin and Bola the member who was penalised; Chidi and Dayo can vote
+const createDueContribution = async (dueDate: Date) => {
+  const { groupId, admin, member, users } = await createGroup({ names: MEMBER_NAMES });
+  const contributions = await createCycle(groupId, 1, dueDate);
+  return { groupId, admin, member, others: users.slice(2), contribution: contributionOf(contributions, member) };
+};
+
+// Settle decided votes, as the backend worker would
+const runJobs = async () => {
+  JobRunner.setScope({ server: true });
+  await JobRunner.runDueJobs();
+  JobRunner.setScope({ adminGroupIds: [] });
+};
+
+const getContribution = async (contributionId: string) =>
+  (await DatabaseService.contributions.getContributionById(contributionId)).data!;
+
+describe('PenaltyDisputeService', () => {
+  const dueDate = new Date('2026-03-01T09:00:00Z');
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    DatabaseService.useStore(new InMemoryStore());
+    PenaltyDisputeService.useFileStore(new InMemoryReceiptFileStore());
+    setClock(new ManualClock(new Date('2026-03-11T09:00:00Z')));
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('refunds a waived late fee that was already paid to the member wallet', async () => {
+    const { groupId, admin, member, contribution } = await createDueContribution(dueDate);
+    await PaymentTrackingService.handleLatePayment({ contributionId: contribution.id, adminId: admin, action: 'penalty' });
+    await PaymentTrackingService.confirmMemberPayment({
+      contributionId: contribution.id,
+      adminId: admin,
+      confirmationType: 'bank_transfer',
+      paidDate: new Date('2026-03-11T09:00:00Z'),
+    });
+    expect((await getContribution(contribution.id)).late_penalty_amount).toBe(500);
+
+    const opened = await PenaltyDisputeService.openDispute({
+      contributionId: contribution.id,
+      memberId: member,
+      penaltyType: 'late_fee',
+      explanation: 'I paid on the due date but the bank held the transfer',
+      evidence: [{ name: 'alert.png', contentType: 'image/png', base64: 'iVBORw0KGgo=' }],
+    });
+    expect(opened.data).toMatchObject({ status: 'open', penalty_amount: 500 });
+    expect(opened.data!.evidence[0].storage_path).toBe(`penalty_disputes/${groupId}/${opened.data!.id}/1.png`);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'penalty_dispute_opened', userId: admin })
+    );
+
+    const resolved = await PenaltyDisputeService.resolveDispute({
+      disputeId: opened.data!.id,
+      adminId: admin,
+      outcome: 'waived',
+      notes: 'Bank delay confirmed',
+    });
+
+    expect(resolved.data).toMatchObject({
+      status: 'resolved',
+      resolution: { outcome: 'waived', decided_by: 'admin', final_amount: 0, member_reinstated: false },
+    });
+    expect(await getContribution(contribution.id)).toMatchObject({ late_penalty_amount: 0, settled_late_fee: 0 });
+    expect((await DatabaseService.wallets.getWallet(groupId, member)).data!.balance).toBe(500);
+    const positions = (await LedgerService.getMemberPositions(groupId)).data!;
+    expect(positions.find(position => position.userId === member)).toMatchObject({ penalties: 0 });
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'penalty_dispute_waived', userId: member })
+    );
+  });
+
+  it('keeps a reduced fee when the payment is confirmed later', async () => {
+    const { admin, member, contribution } = await createDueContribution(dueDate);
+    await PaymentTrackingService.handleLatePayment({ contributionId: contribution.id, adminId: admin, action: 'penalty' });
+    const opened = await PenaltyDisputeService.openDispute({
+      contributionId: contribution.id,
+      memberId: member,
+      penaltyType: 'late_fee',
+      explanation: 'I was in hospital',
+    });
+
+    const tooHigh = await PenaltyDisputeService.resolveDispute({
+      disputeId: opened.data!.id,
+      adminId: admin,
+      outcome: 'reduced',
+      amount: 500,
+    });
+    expect(tooHigh.success).toBe(false);
+
+    await PenaltyDisputeService.resolveDispute({ disputeId: opened.data!.id, adminId: admin, outcome: 'reduced', amount: 200 });
+    await PaymentTrackingService.confirmMemberPayment({
+      contributionId: contribution.id,
+      adminId: admin,
+      confirmationType: 'bank_transfer',
+      paidDate: new Date('2026-03-20T09:00:00Z'),
+    });
+
+    expect(await getContribution(contribution.id)).toMatchObject({ status: 'paid', late_penalty_amount: 200 });
+  });
+
+  it('reinstates a suspended member when the group votes to waive', async () => {
+    const { admin, member, others, contribution } = await createDueContribution(dueDate);
+    await PaymentTrackingService.handleLatePayment({ contributionId: contribution.id, adminId: admin, action: 'suspension' });
+    const opened = await PenaltyDisputeService.openDispute({
+      contributionId: contribution.id,
+      memberId: member,
+      penaltyType: 'suspension',
+      explanation: 'I have paid everything I owe',
+    });
+
+    const started = await PenaltyDisputeService.startVote({ disputeId: opened.data!.id, adminId: admin, outcome: 'waived' });
+    expect(started.data!.vote!.voter_ids.sort()).toEqual([admin, ...others].sort());
+
+    const byNotification = await NotificationActions.dispatch(
+      { actionId: 'support_dispute', data: { disputeId: opened.data!.id } },
+      others[0]
+    );
+    expect(byNotification.success).toBe(true);
+    const secondVote = await PenaltyDisputeService.voteOnDispute({ disputeId: opened.data!.id, voterId: others[0], support: true });
+    expect(secondVote.error).toBe('You have already voted on this dispute');
+
+    const carried = await PenaltyDisputeService.voteOnDispute({ disputeId: opened.data!.id, voterId: others[1], support: true });
+    expect(carried.data!.status).toBe('voting');
+    expect(carried.data!.resolution).toBeUndefined();
+
+    await runJobs();
+    const settled = (await DatabaseService.penaltyDisputes.getDisputeById(opened.data!.id)).data!;
+    expect(settled.resolution).toMatchObject({
+      outcome: 'waived',
+      decided_by: 'vote',
+      resolved_by: others[1],
+      member_reinstated: true,
+    });
+    const membership = await DatabaseService.groupMembers.getMemberByUserAndGroup(member, contribution.group_id);
+    expect(membership.data!.status).toBe('active');
+  });
+
+  describe('when members and admins act at the same time', () => {
+    const openVote = async () => {
+      const group = await createDueContribution(dueDate);
+      const { admin, member, contribution } = group;
+      await PaymentTrackingService.handleLatePayment({ contributionId: contribution.id, adminId: admin, action: 'penalty' });
+      const opened = await PenaltyDisputeService.openDispute({
+        contributionId: contribution.id,
+        memberId: member,
+        penaltyType: 'late_fee',
+        explanation: 'The bank held my transfer over the weekend',
+      });
+      await PenaltyDisputeService.startVote({ disputeId: opened.data!.id, adminId: admin, outcome: 'waived' });
+      return { ...group, disputeId: opened.data!.id };
+    };
+
+    const decisions = () =>
+      (NotificationService.sendToUser as jest.Mock).mock.calls.filter(([call]) =>
+        /^penalty_dispute_(upheld|waived)$/.test(call.templateId)
+      ).length;
+
+    it('counts every vote and settles the dispute once', async () => {
+      const { admin, others, disputeId } = await openVote();
+      const recordWaiver = jest.spyOn(LedgerService, 'recordLateFeeWaiver');
+
+      await Promise.all(
+        [admin, ...others].map(voterId => PenaltyDisputeService.voteOnDispute({ disputeId, voterId, support: true }))
+      );
+      await runJobs();
+
+      const dispute = (await DatabaseService.penaltyDisputes.getDisputeById(disputeId)).data!;
+      expect(dispute).toMatchObject({ status: 'resolved', resolution: { outcome: 'waived', decided_by: 'vote' } });
+      expect(dispute.vote!.votes_for).toHaveLength(2);
+      expect(recordWaiver).toHaveBeenCalledTimes(1);
+      expect(decisions()).toBe(1);
+    });
+
+    it('lets only one of the deciding vote and an admin decision settle it', async () => {
+      const { admin, others, disputeId } = await openVote();
+      await PenaltyDisputeService.voteOnDispute({ disputeId, voterId: others[0], support: true });
+
+      await Promise.all([
+        PenaltyDisputeService.voteOnDispute({ disputeId, voterId: others[1], support: true }),
+        PenaltyDisputeService.resolveDispute({ disputeId, adminId: admin, outcome: 'upheld' }),
+      ]);
+      await runJobs();
+
+      const dispute = (await DatabaseService.penaltyDisputes.getDisputeById(disputeId)).data!;
+      expect(dispute.status).toBe('resolved');
+      expect(decisions()).toBe(1);
+    });
+  });
+
+  it('only lets members dispute their own penalties and admins decide them', async () => {
+    const { admin, member, others, contribution } = await createDueContribution(dueDate);
+
+    const noFee = await PenaltyDisputeService.openDispute({
+      contributionId: contribution.id,
+      memberId: member,
+      penaltyType: 'late_fee',
+      explanation: 'Not late',
+    });
+    expect(noFee.error).toBe('There is no late fee on this contribution');
+
+    await PaymentTrackingService.handleLatePayment({ contributionId: contribution.id, adminId: admin, action: 'penalty' });
+    const notTheirs = await PenaltyDisputeService.openDispute({
+      contributionId: contribution.id,
+      memberId: others[0],
+      penaltyType: 'late_fee',
+      explanation: 'Unfair',
+    });
+    expect(notTheirs).toMatchObject({ success: false, code: 'PENALTY_DISPUTE_ERROR' });
+
+    const opened = await PenaltyDisputeService.openDispute({
+      contributionId: contribution.id,
+      memberId: member,
+      penaltyType: 'late_fee',
+      explanation: 'Unfair',
+    });
+    const byMember = await PenaltyDisputeService.resolveDispute({ disputeId: opened.data!.id, adminId: others[0], outcome: 'waived' });
+    expect(byMember.error).toBe('You do not have permission to decide this dispute');
+    expect((await getContribution(contribution.id)).late_penalty_amount).toBe(500);
+  });
+});
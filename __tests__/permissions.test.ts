@@ -0,0 +1,176 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import GroupManagementService from '../src/services/business/groupManagement';
+import PaymentTrackingService from '../src/services/business/paymentTracking';
+import { hasGroupPermission, resolvePermissions } from '../src/utils/permissions';
+import { MEMBER_NAMES, contributionOf, createCycle, createGroup } from './fixtures/groups';
+
+describe('resolvePermissions', () => {
+  it('applies overrides to the role template but never hands out owner-only permissions', () => {
+    expect(resolvePermissions('treasurer')).toMatchObject({
+      canMarkPayments: true,
+      canViewFinances: true,
+      canEditSettings: false,
+      canAddMembers: false,
+    });
+    expect(resolvePermissions('auditor', { canMarkPayments: true, canViewFinances: false })).toMatchObject({
+      canMarkPayments: true,
+      canViewFinances: false,
+    });
+    expect(resolvePermissions('co_admin', { canDeleteGroup: true })).toMatchObject({
+      canManageCycles: true,
+      canDeleteGroup: false,
+      canTransferAdmin: false,
+    });
+    expect(resolvePermissions('admin', { canEditSettings: false }).canEditSettings).toBe(true);
+  });
+});
+
+describe('delegated roles', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores roles per membership and mirrors them onto the group', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES });
+    const [admin, bola, chidi, dayo] = users;
+
+    const treasurer = await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: bola, role: 'treasurer' });
+    expect(treasurer.data!.role).toBe('treasurer');
+    await GroupManagementService.assignMemberRole({
+      adminId: admin,
+      groupId,
+      memberId: chidi,
+      role: 'auditor',
+      permissionOverrides: { canAddMembers: true },
+    });
+
+    expect((await GroupManagementService.checkPermission(bola, groupId, 'canMarkPayments')).data).toBe(true);
+    expect((await GroupManagementService.checkPermission(bola, groupId, 'canEditSettings')).data).toBe(false);
+    expect((await GroupManagementService.checkPermission(chidi, groupId, 'canAddMembers')).data).toBe(true);
+    expect((await GroupManagementService.checkPermission(dayo, groupId, 'canViewFinances')).data).toBe(false);
+    expect((await GroupManagementService.checkPermission(dayo, groupId, 'canMarkPayments')).data).toBe(false);
+
+    const group = (await DatabaseService.groups.getGroupById(groupId)).data!;
+    expect(group.delegated_permissions).toEqual({
+      [bola]: ['canMarkPayments', 'canViewFinances'],
+      [chidi]: ['canAddMembers', 'canViewFinances'],
+    });
+    expect(hasGroupPermission(group, bola, 'canMarkPayments')).toBe(true);
+    expect(hasGroupPermission(group, dayo, 'canMarkPayments')).toBe(false);
+    expect(hasGroupPermission(group, admin, 'canDeleteGroup')).toBe(true);
+
+    const membership = (await DatabaseService.groupMembers.getMemberByUserAndGroup(bola, groupId)).data!;
+    await DatabaseService.groupMembers.removeMember(membership.id);
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.delegated_permissions).toEqual({
+      [chidi]: ['canAddMembers', 'canViewFinances'],
+    });
+  });
+
+  it('denies a suspended delegate their role until they are reactivated', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES });
+    const [admin, bola] = users;
+    await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: bola, role: 'treasurer' });
+    const membership = (await DatabaseService.groupMembers.getMemberByUserAndGroup(bola, groupId)).data!;
+
+    await DatabaseService.groupMembers.updateMemberStatus(membership.id, 'suspended');
+    expect((await GroupManagementService.checkPermission(bola, groupId, 'canMarkPayments')).data).toBe(false);
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.delegated_permissions).toEqual({});
+
+    await DatabaseService.groupMembers.updateMemberStatus(membership.id, 'active');
+    expect((await GroupManagementService.checkPermission(bola, groupId, 'canMarkPayments')).data).toBe(true);
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.delegated_permissions).toEqual({
+      [bola]: ['canMarkPayments', 'canViewFinances'],
+    });
+  });
+
+  it('only lets the admin delegate, and never the owner-only permissions', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES });
+    const [admin, bola, chidi] = users;
+    await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: bola, role: 'co_admin' });
+
+    const byCoAdmin = await GroupManagementService.assignMemberRole({ adminId: bola, groupId, memberId: chidi, role: 'co_admin' });
+    expect(byCoAdmin).toMatchObject({ success: false, code: 'INSUFFICIENT_PERMISSIONS' });
+
+    const ownerOnly = await GroupManagementService.assignMemberRole({
+      adminId: admin,
+      groupId,
+      memberId: chidi,
+      role: 'member',
+      permissionOverrides: { canTransferAdmin: true },
+    });
+    expect(ownerOnly).toMatchObject({ success: false, code: 'INVALID_PERMISSIONS' });
+
+    const toAdmin = await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: chidi, role: 'admin' });
+    expect(toAdmin).toMatchObject({ success: false, code: 'INVALID_ROLE' });
+
+    expect((await GroupManagementService.checkPermission(bola, groupId, 'canManageCycles')).data).toBe(true);
+    expect((await GroupManagementService.checkPermission(bola, groupId, 'canDeleteGroup')).data).toBe(false);
+  });
+
+  it('refuses delegates anything outside their role and takes it all back when they are demoted', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES });
+    const [admin, bola, chidi] = users;
+    await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: bola, role: 'treasurer' });
+    await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: chidi, role: 'auditor' });
+    const contributions = await createCycle(groupId);
+
+    const byAuditor = await PaymentTrackingService.confirmMemberPayment({
+      contributionId: contributionOf(contributions, chidi).id,
+      adminId: chidi,
+      confirmationType: 'cash',
+    });
+    expect(byAuditor).toMatchObject({ success: false, error: 'You do not have permission to confirm payments' });
+    const settings = await GroupManagementService.updateGroupSettings({
+      adminId: bola,
+      groupId,
+      settings: { paymentDeadlineDays: 5 },
+      notifyMembers: false,
+    });
+    expect(settings).toMatchObject({ success: false, code: 'INSUFFICIENT_PERMISSIONS' });
+
+    const byTreasurer = await PaymentTrackingService.confirmMemberPayment({
+      contributionId: contributionOf(contributions, chidi).id,
+      adminId: bola,
+      confirmationType: 'cash',
+    });
+    expect(byTreasurer.success).toBe(true);
+
+    await GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: bola, role: 'member' });
+    expect((await DatabaseService.groups.getGroupById(groupId)).data!.delegated_permissions).toEqual({
+      [chidi]: ['canViewFinances'],
+    });
+    const afterDemotion = await PaymentTrackingService.confirmMemberPayment({
+      contributionId: contributionOf(contributions, bola).id,
+      adminId: bola,
+      confirmationType: 'cash',
+    });
+    expect(afterDemotion).toMatchObject({ success: false, code: 'PERMISSION_DENIED' });
+  });
+
+  it('mirrors roles assigned at the same time onto the group', async () => {
+    const { groupId, users } = await createGroup({ names: MEMBER_NAMES });
+    const [admin, bola, chidi, dayo] = users;
+
+    await Promise.all([
+      GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: bola, role: 'treasurer' }),
+      GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: chidi, role: 'co_admin' }),
+      GroupManagementService.assignMemberRole({ adminId: admin, groupId, memberId: dayo, role: 'auditor' }),
+    ]);
+
+    const delegated = (await DatabaseService.groups.getGroupById(groupId)).data!.delegated_permissions!;
+    expect(Object.keys(delegated).sort()).toEqual([bola, chidi, dayo].sort());
+    expect(delegated[bola]).toEqual(['canMarkPayments', 'canViewFinances']);
+  });
+
+  it('tells outsiders they are not in the group', async () => {
+    const { groupId } = await createGroup({ names: MEMBER_NAMES.slice(0, 2) });
+
+    const outsider = await GroupManagementService.checkPermission('outsider', groupId, 'canViewFinances');
+    expect(outsider).toMatchObject({ success: false, code: 'NOT_GROUP_MEMBER' });
+  });
+});
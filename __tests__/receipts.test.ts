@@ -0,0 +1,197 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import ReceiptService, { InMemoryReceiptFileStore, extractReceiptDetails } from '../src/services/receipts';
+import PaymentTrackingService from '../src/services/business/paymentTracking';
+import NotificationService from '../src/services/notifications';
+import { base64ToBytes, bytesToBase64, utf8Bytes } from '../src/utils/base64';
+import { sha256Bytes } from '../src/utils/hash';
+import { MEMBER_NAMES, contributionOf, createCycle, createGroup } from './fixtures/groups';
+
+const GTBANK_ALERT = [
+  'Acct: 012****789',
+  'Amt: NGN10,000.00 CR',
+  'Desc: TRF FROM ADA OBI/REF:GTB2603051022',
+  'Date: 05-Mar-2026 10:22',
+  'Avail Bal: NGN45,500.00',
+].join('\n');
+
+const MPESA_SMS =
+  'QCK4T7XYZ1 Confirmed. Ksh1,000.00 sent to JANE WANJIKU 0712345678 on 2026-03-05 at 10:22 AM. ' +
+  'New M-PESA balance is Ksh2,500.00. Transaction cost, Ksh13.00.';
+
+const OPAY_RECEIPT = [
+  'Transfer Successful',
+  'Amount: ₦5,000.00',
+  'Recipient: ADA OBI',
+  'Transaction Date: Mar 5th, 2026 10:22:14',
+  'Transaction No.: 260305010100123456789',
+].join('\n');
+
+// Bola's contributions for the first two cycles
+const createContributions = async () => {
+  const { groupId, admin, member } = await createGroup();
+  const first = contributionOf(await createCycle(groupId, 1), member);
+  const second = contributionOf(await createCycle(groupId, 2), member);
+  return { admin, member, first, second };
+};
+
+describe('receipt text extraction', () => {
+  it('reads amount, date and reference from bank and mobile money alerts', () => {
+    expect(extractReceiptDetails(GTBANK_ALERT)).toEqual({
+      amount: 10000,
+      currency: 'NGN',
+      paid_at: new Date('2026-03-05T00:00:00Z'),
+      reference: 'GTB2603051022',
+    });
+    expect(extractReceiptDetails(MPESA_SMS)).toEqual({
+      amount: 1000,
+      currency: 'KES',
+      paid_at: new Date('2026-03-05T00:00:00Z'),
+      reference: 'QCK4T7XYZ1',
+    });
+    expect(extractReceiptDetails(OPAY_RECEIPT)).toEqual({
+      amount: 5000,
+      currency: 'NGN',
+      paid_at: new Date('2026-03-05T00:00:00Z'),
+      reference: '260305010100123456789',
+    });
+    expect(extractReceiptDetails('Thanks, I have paid')).toEqual({});
+  });
+
+  it('checksums file bytes with SHA-256', () => {
+    const bytes = base64ToBytes(bytesToBase64(utf8Bytes('abc')));
+    expect(sha256Bytes(bytes)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('ReceiptService', () => {
+  let files: InMemoryReceiptFileStore;
+
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    files = new InMemoryReceiptFileStore();
+    ReceiptService.useFileStore(files);
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores receipts with checksums and stops one being reused for another contribution', async () => {
+    const { admin, member, first, second } = await createContributions();
+    const photo = { name: 'transfer.png', contentType: 'image/png' as const, base64: bytesToBase64([137, 80, 78, 71, 1, 2, 3]) };
+
+    const attached = await ReceiptService.attachReceipt({ contributionId: first.id, userId: member, file: photo });
+    expect(attached.success).toBe(true);
+    expect(attached.data).toMatchObject({
+      contribution_id: first.id,
+      status: 'submitted',
+      size_bytes: 7,
+      checksum: sha256Bytes([137, 80, 78, 71, 1, 2, 3]),
+    });
+    expect(files.has(attached.data!.storage_path)).toBe(true);
+
+    const again = await ReceiptService.attachReceipt({ contributionId: first.id, userId: member, file: photo });
+    expect(again.code).toBe('RECEIPT_ALREADY_ATTACHED');
+
+    const reused = await ReceiptService.attachReceipt({ contributionId: second.id, userId: member, file: photo });
+    expect(reused.code).toBe('DUPLICATE_RECEIPT');
+
+    // The same transfer pasted as text is caught by its reference
+    await ReceiptService.attachPastedText({ contributionId: first.id, userId: member, text: GTBANK_ALERT });
+    const reworded = await ReceiptService.attachPastedText({
+      contributionId: second.id,
+      userId: member,
+      text: GTBANK_ALERT.replace('Avail Bal: NGN45,500.00', ''),
+    });
+    expect(reworded.code).toBe('DUPLICATE_RECEIPT');
+
+    const others = await ReceiptService.getContributionReceipts({ contributionId: first.id, userId: admin });
+    expect(others.data!.map(receipt => receipt.source)).toEqual(['file', 'pasted_text']);
+    expect(others.data![1].details).toMatchObject({ amount: 10000, reference: 'GTB2603051022' });
+
+    const rejected = await ReceiptService.rejectReceipt({ receiptId: attached.data!.id, adminId: member, reason: 'Blurry' });
+    expect(rejected.success).toBe(false);
+  });
+
+  it('accepts submitted receipts when the payment is confirmed', async () => {
+    const { admin, member, first } = await createContributions();
+    const pasted = await ReceiptService.attachPastedText({ contributionId: first.id, userId: member, text: GTBANK_ALERT });
+    const photo = await ReceiptService.attachReceipt({
+      contributionId: first.id,
+      userId: member,
+      file: { name: 'old.jpg', contentType: 'image/jpeg', base64: bytesToBase64([255, 216, 255, 1]) },
+    });
+
+    const rejected = await ReceiptService.rejectReceipt({ receiptId: photo.data!.id, adminId: admin, reason: 'Wrong month' });
+    expect(rejected.data!.status).toBe('rejected');
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'receipt_rejected', userId: member }),
+    );
+
+    const confirmed = await PaymentTrackingService.confirmMemberPayment({
+      contributionId: first.id,
+      adminId: admin,
+      confirmationType: 'bank_transfer',
+    });
+    expect(confirmed.data).toMatchObject({ confirmationMethod: 'receipt_upload', receiptUrl: pasted.data!.url });
+
+    const receipts = await ReceiptService.getContributionReceipts({ contributionId: first.id, userId: member });
+    expect(receipts.data!.map(receipt => receipt.status)).toEqual(['accepted', 'rejected']);
+  });
+
+  it('keeps one of two copies of a receipt uploaded at the same time and drops the other file', async () => {
+    const { member, first, second } = await createContributions();
+    const photo = { name: 'transfer.png', contentType: 'image/png' as const, base64: bytesToBase64([137, 80, 78, 71, 9]) };
+    const remove = jest.spyOn(files, 'remove');
+
+    const uploads = await Promise.all([
+      ReceiptService.attachReceipt({ contributionId: first.id, userId: member, file: photo }),
+      ReceiptService.attachReceipt({ contributionId: second.id, userId: member, file: photo }),
+    ]);
+    const [kept] = uploads.filter(upload => upload.success);
+    expect(uploads.map(upload => upload.code).filter(Boolean)).toEqual(['DUPLICATE_RECEIPT']);
+    expect(remove).toHaveBeenCalledTimes(1);
+    expect(remove).not.toHaveBeenCalledWith(kept.data!.storage_path);
+    expect(files.has(kept.data!.storage_path)).toBe(true);
+  });
+
+  it('removes the uploaded file when the receipt cannot be saved', async () => {
+    const store = new InMemoryStore();
+    DatabaseService.useStore(store);
+    const { member, first } = await createContributions();
+    const remove = jest.spyOn(files, 'remove');
+    jest.spyOn(store, 'commit').mockRejectedValueOnce(new Error('unavailable'));
+
+    const failed = await ReceiptService.attachReceipt({
+      contributionId: first.id,
+      userId: member,
+      file: { name: 'transfer.jpg', contentType: 'image/jpeg', base64: bytesToBase64([255, 216, 255, 2]) },
+    });
+    expect(failed).toMatchObject({ success: false, error: 'unavailable' });
+    expect(remove).toHaveBeenCalledTimes(1);
+    expect(files.has(remove.mock.calls[0][0])).toBe(false);
+    expect((await ReceiptService.getContributionReceipts({ contributionId: first.id, userId: member })).data).toEqual([]);
+  });
+
+  it('refuses receipts for other members, empty files and decided receipts', async () => {
+    const { groupId, users, admin, member } = await createGroup({ names: MEMBER_NAMES.slice(0, 3) });
+    const first = contributionOf(await createCycle(groupId), member);
+    const chidi = users[2];
+    const attach = (userId: string, file: Parameters<typeof ReceiptService.attachReceipt>[0]['file']) =>
+      ReceiptService.attachReceipt({ contributionId: first.id, userId, file });
+
+    const byOther = await attach(chidi, { name: 'a.png', contentType: 'image/png', base64: bytesToBase64([1]) });
+    expect(byOther.error).toBe('You can only attach receipts to your own contributions');
+    const empty = await attach(member, { name: 'a.png', contentType: 'image/png', base64: '' });
+    expect(empty.error).toBe('The receipt file is empty');
+
+    const receipt = (await attach(member, { name: 'a.png', contentType: 'image/png', base64: bytesToBase64([1]) })).data!;
+    const reject = (reason: string) => ReceiptService.rejectReceipt({ receiptId: receipt.id, adminId: admin, reason });
+    expect((await reject(' ')).error).toBe('Please give a reason so the member knows what to fix');
+    expect((await reject('Wrong month')).success).toBe(true);
+    expect((await reject('Still wrong')).error).toBe('This receipt has already been rejected');
+  });
+});
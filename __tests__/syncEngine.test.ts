@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import DatabaseService, { COLLECTIONS, Group, InMemoryStore } from '../src/services/database';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import { MakePaymentPayload, SyncEngine } from '../src/services/sync';
+import { syncCreateGroup } from '../src/services/sync/handlers';
+import { createUser } from './fixtures/groups';
+
+// NetworkManager subscribes to NetInfo when it is first imported
+const netInfoListener = (NetInfo.addEventListener as jest.Mock).mock.calls[0][0];
+const setOnline = (online: boolean) => netInfoListener({ isConnected: online, isInternetReachable: online });
+
+// Store whose requests fail like a dropped connection while it is down
+class FlakyStore extends InMemoryStore {
+  down = false;
+  failures = 0; // fail this many more requests, then recover
+
+  private request(): void {
+    if (this.down || this.failures > 0) {
+      this.failures = Math.max(this.failures - 1, 0);
+      throw Object.assign(new Error('Network unavailable'), { code: 'unavailable' });
+    }
+  }
+
+  async get<T>(collection: string, id: string): Promise<T | null> {
+    this.request();
+    return super.get<T>(collection, id);
+  }
+
+  async set<T extends { id: string }>(collection: string, id: string, data: Omit<T, 'id'>): Promise<T> {
+    this.request();
+    return super.set<T>(collection, id, data);
+  }
+
+  async update(collection: string, id: string, data: Record<string, any>): Promise<void> {
+    this.request();
+    return super.update(collection, id, data);
+  }
+
+  async query<T>(...args: Parameters<InMemoryStore['query']>): Promise<T[]> {
+    this.request();
+    return super.query<T>(...args);
+  }
+}
+
+const payment = (cycle: number): MakePaymentPayload => ({
+  group_id: 'group_1',
+  user_id: 'user_1',
+  amount: 10000,
+  cycle_number: cycle,
+  due_date: '2026-03-01T00:00:00.000Z',
+  payment_method: 'cash',
+  transaction_reference: `CASH-${cycle}`,
+});
+
+describe('SyncEngine', () => {
+  let store: FlakyStore;
+  let clock: ManualClock;
+  let engine: SyncEngine;
+
+  beforeEach(async () => {
+    store = new FlakyStore();
+    DatabaseService.useStore(store);
+    clock = new ManualClock(new Date('2026-03-01T08:00:00Z'));
+    setClock(clock);
+    await AsyncStorage.clear();
+    setOnline(true);
+    engine = new SyncEngine({ maxAttempts: 4, retryDelayMs: 1000 });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    engine.stop();
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('keeps actions while offline and sends them when the connection comes back', async () => {
+    engine.start();
+    setOnline(false);
+    await engine.enqueue('MAKE_PAYMENT', payment(1));
+    await engine.enqueue('MAKE_PAYMENT', payment(2));
+    await clock.advance(0);
+    expect(await engine.getActions()).toHaveLength(2);
+
+    setOnline(true);
+    expect(await engine.flush()).toMatchObject({ synced: 2, offline: false });
+    expect(await engine.getActions()).toEqual([]);
+    const cycle1 = await DatabaseService.contributions.getCycleContributions('group_1', 1);
+    expect(cycle1.data).toEqual([expect.objectContaining({ amount: 10000, transaction_reference: 'CASH-1' })]);
+
+    // Replaying an action that already reached the server does not record it twice
+    await engine.enqueue('MAKE_PAYMENT', payment(1));
+    await clock.advance(0);
+    expect(await engine.getActions()).toEqual([]);
+    expect((await DatabaseService.contributions.getCycleContributions('group_1', 1)).data).toHaveLength(1);
+  });
+
+  it('backs off while requests fail and keeps the action as a dead letter', async () => {
+    engine.start();
+    store.down = true;
+    const { id } = await engine.enqueue('MAKE_PAYMENT', payment(1));
+
+    const attemptsAfter = async (ms: number) => {
+      await clock.advance(ms);
+      const [action] = await engine.getActions();
+      return [action.status, action.attempts];
+    };
+    expect(await attemptsAfter(0)).toEqual(['pending', 1]);
+    expect(await attemptsAfter(999)).toEqual(['pending', 1]);
+    expect(await attemptsAfter(1)).toEqual(['pending', 2]);
+    expect(await attemptsAfter(2000)).toEqual(['pending', 3]);
+    expect(await attemptsAfter(4000)).toEqual(['dead', 4]);
+    expect(await attemptsAfter(60 * 60 * 1000)).toEqual(['dead', 4]);
+
+    const status = await engine.getStatus();
+    expect(status.pending).toBe(0);
+    expect(status.needsAttention).toEqual([
+      expect.objectContaining({ id, status: 'dead', last_error: 'Network unavailable' }),
+    ]);
+
+    // Once the member retries, a request that drops once more is retried again
+    store.down = false;
+    store.failures = 1;
+    expect(await engine.retry(id)).toBe(true);
+    expect(await attemptsAfter(0)).toEqual(['pending', 1]);
+    await clock.advance(1000);
+    expect(await engine.getActions()).toEqual([]);
+    expect((await DatabaseService.contributions.getCycleContributions('group_1', 1)).data).toHaveLength(1);
+  });
+
+  it('creates a group queued offline only once when a response is lost', async () => {
+    const admin = await createUser('Ada Obi');
+    let lostResponses = 1;
+    engine.registerHandler('CREATE_GROUP', async action => {
+      const outcome = await syncCreateGroup(action);
+      return lostResponses-- > 0 ? { status: 'retry', error: 'Connection dropped' } : outcome;
+    });
+
+    const groupId = DatabaseService.groups.generateGroupId();
+    await engine.enqueue('CREATE_GROUP', {
+      group_id: groupId,
+      name: 'Market Women Ajo',
+      contribution_amount: 10000,
+      admin_id: admin.id,
+      max_members: 4,
+      contribution_frequency: 'weekly',
+      start_date: '2026-03-02T00:00:00.000Z',
+    });
+    expect(await engine.flush()).toMatchObject({ synced: 0, retrying: 1 });
+    await clock.advance(1000);
+    expect(await engine.flush()).toMatchObject({ synced: 1 });
+
+    expect((await store.query<Group>(COLLECTIONS.GROUPS)).map(group => group.id)).toEqual([groupId]);
+    expect((await DatabaseService.groupMembers.getGroupMembers(groupId)).data!.items).toHaveLength(1);
+  });
+
+  it('does not bring back an action discarded while it was being sent', async () => {
+    engine.registerHandler('MAKE_PAYMENT', async action => {
+      await engine.discard(action.id);
+      return { status: 'retry', error: 'Connection dropped' };
+    });
+
+    await engine.enqueue('MAKE_PAYMENT', payment(1));
+    expect(await engine.flush()).toMatchObject({ retrying: 0 });
+    expect(await engine.getActions()).toEqual([]);
+  });
+
+  it('holds an action whose record changed on the server until the conflict is resolved', async () => {
+    const user = await createUser('Ada Obi');
+    const editedAt = new Date(user.updated_at);
+    // Edited on another device after this device's copy was loaded
+    await store.update(COLLECTIONS.USERS, user.id, {
+      name: 'Ada O.',
+      updated_at: new Date(editedAt.getTime() + 60 * 1000),
+    });
+
+    const renamed = await engine.enqueue(
+      'UPDATE_PROFILE',
+      { user_id: user.id, updates: { name: 'Ada Obi-Okafor' } },
+      { entityKey: `user:${user.id}`, baseVersion: editedAt },
+    );
+    const retitled = await engine.enqueue(
+      'UPDATE_PROFILE',
+      { user_id: user.id, updates: { occupation: 'Trader' } },
+      { entityKey: `user:${user.id}` },
+    );
+
+    expect(await engine.flush()).toMatchObject({ synced: 0, conflicts: 1 });
+    const [conflict, waiting] = await engine.getActions();
+    expect(conflict).toMatchObject({ id: renamed.id, status: 'conflict', server_version: editedAt.getTime() + 60000 });
+    // Later edits to the same record wait behind the conflict
+    expect(waiting).toMatchObject({ id: retitled.id, status: 'pending', attempts: 0 });
+    expect((await DatabaseService.users.getUserById(user.id)).data!.name).toBe('Ada O.');
+
+    expect(await engine.resolveConflict(renamed.id, 'overwrite')).toBe(true);
+    expect(await engine.flush()).toMatchObject({ synced: 2, conflicts: 0 });
+    expect((await DatabaseService.users.getUserById(user.id)).data).toMatchObject({
+      name: 'Ada Obi-Okafor',
+      occupation: 'Trader',
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import TurnOrderService from '../src/services/business/turnOrder';
+import { drawSeed } from '../src/services/business/turnOrderStrategies';
+import { createFourMemberGroup } from './fixtures/groups';
+
+const recipients = async (groupId: string) => {
+  const schedule = await TurnOrderService.getGroupTurnSchedule(groupId);
+  return schedule.data?.map(turn => turn.recipientName);
+};
+
+describe('TurnOrderService strategies', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses join order when no strategy is set', async () => {
+    const { group } = await createFourMemberGroup();
+    expect(await recipients(group.id)).toEqual(['Ada', 'Bola', 'Chidi', 'Dayo']);
+  });
+
+  it('reproduces a seeded random draw from its audit record', async () => {
+    const { group, ada } = await createFourMemberGroup();
+
+    const drawn = await TurnOrderService.setTurnOrderStrategy(group.id, ada.id, { type: 'random_draw' });
+    expect(drawn.success).toBe(true);
+
+    // The seed comes from the group, so drawing again gives the same order
+    await TurnOrderService.setTurnOrderStrategy(group.id, ada.id, { type: 'random_draw' });
+    const audits = await DatabaseService.turnOrderAudits.getGroupAudits(group.id);
+    expect(audits.data).toHaveLength(2);
+    expect(audits.data![0].order).toEqual(audits.data![1].order);
+    expect(audits.data![0].inputs.seed).toBe(drawSeed(group.id));
+    expect(audits.data![0].checksum).toMatch(/^[0-9a-f]{64}$/);
+
+    const verification = await TurnOrderService.verifyTurnOrderAudit(audits.data![0].id);
+    expect(verification.data).toMatchObject({ matches: true, checksumValid: true });
+
+    // Tampering with the recorded order is detected
+    await DatabaseService.getStore().update('turn_order_audits', audits.data![0].id, {
+      order: [...audits.data![0].order].reverse(),
+    });
+    const tampered = await TurnOrderService.verifyTurnOrderAudit(audits.data![0].id);
+    expect(tampered.data).toMatchObject({ matches: false, checksumValid: false });
+  });
+
+  it('pays the highest bidder first and keeps paid members in their slot', async () => {
+    const { group, ada, chidi, dayo } = await createFourMemberGroup();
+    await TurnOrderService.setTurnOrderStrategy(group.id, ada.id, { type: 'bidding' });
+
+    await TurnOrderService.placeBid(group.id, chidi.id, 500);
+    const bid = await TurnOrderService.placeBid(group.id, dayo.id, 1500);
+    expect(bid.data?.[0]).toMatchObject({ recipientName: 'Dayo', discountAmount: 1500 });
+    expect(await recipients(group.id)).toEqual(['Dayo', 'Chidi', 'Ada', 'Bola']);
+
+    const adaMember = await DatabaseService.groupMembers.getMemberByUserAndGroup(ada.id, group.id);
+    await DatabaseService.groupMembers.markPayoutReceived(adaMember.data!.id, 1);
+    expect(await recipients(group.id)).toEqual(['Ada', 'Dayo', 'Chidi', 'Bola']);
+  });
+
+  it('keeps every bid placed at the same time', async () => {
+    const { group, ada, bola, chidi, dayo } = await createFourMemberGroup();
+    await TurnOrderService.setTurnOrderStrategy(group.id, ada.id, { type: 'bidding' });
+
+    const bids = await Promise.all([
+      TurnOrderService.placeBid(group.id, bola.id, 200),
+      TurnOrderService.placeBid(group.id, chidi.id, 500),
+      TurnOrderService.placeBid(group.id, dayo.id, 1500),
+    ]);
+    expect(bids.every(bid => bid.success)).toBe(true);
+
+    const saved = await DatabaseService.groups.getGroupById(group.id);
+    expect(Object.keys(saved.data!.turn_order_strategy!.bids!).sort()).toEqual([bola.id, chidi.id, dayo.id].sort());
+    expect(await recipients(group.id)).toEqual(['Dayo', 'Chidi', 'Bola', 'Ada']);
+  });
+
+  it('uses the order assigned by the admin', async () => {
+    const { group, ada, bola, chidi, dayo } = await createFourMemberGroup();
+
+    const rejected = await TurnOrderService.setTurnOrderStrategy(group.id, bola.id, {
+      type: 'admin_assigned',
+      admin_order: [bola.id],
+    });
+    expect(rejected).toMatchObject({ success: false, code: 'TURN_ORDER_ERROR' });
+
+    await TurnOrderService.setTurnOrderStrategy(group.id, ada.id, {
+      type: 'admin_assigned',
+      admin_order: [chidi.id, dayo.id],
+    });
+    expect(await recipients(group.id)).toEqual(['Chidi', 'Dayo', 'Ada', 'Bola']);
+  });
+
+  it('applies a need-based swap once a majority approves it', async () => {
+    const { group, ada, bola, chidi, dayo } = await createFourMemberGroup();
+    await TurnOrderService.setTurnOrderStrategy(group.id, ada.id, { type: 'need_based' });
+
+    const request = await TurnOrderService.requestTurnSwap(group.id, dayo.id, bola.id, 'School fees due');
+    const swapId = request.data!.id;
+
+    await TurnOrderService.voteOnTurnSwap(group.id, swapId, ada.id, true);
+    const second = await TurnOrderService.voteOnTurnSwap(group.id, swapId, chidi.id, true);
+    expect(second.data?.status).toBe('pending');
+    expect(await recipients(group.id)).toEqual(['Ada', 'Bola', 'Chidi', 'Dayo']);
+
+    const third = await TurnOrderService.voteOnTurnSwap(group.id, swapId, dayo.id, true);
+    expect(third.data?.status).toBe('approved');
+    expect(await recipients(group.id)).toEqual(['Ada', 'Dayo', 'Chidi', 'Bola']);
+
+    const audits = await DatabaseService.turnOrderAudits.getGroupAudits(group.id);
+    expect(audits.data![0]).toMatchObject({ reason: 'swap_approved', triggered_by: dayo.id });
+  });
+
+  it('counts votes cast at the same time and each voter once', async () => {
+    const { group, ada, bola, chidi, dayo } = await createFourMemberGroup();
+    await TurnOrderService.setTurnOrderStrategy(group.id, ada.id, { type: 'need_based' });
+    const request = await TurnOrderService.requestTurnSwap(group.id, dayo.id, bola.id, 'School fees due');
+    const swapId = request.data!.id;
+
+    const votes = await Promise.all([
+      TurnOrderService.voteOnTurnSwap(group.id, swapId, ada.id, true),
+      TurnOrderService.voteOnTurnSwap(group.id, swapId, chidi.id, true),
+      TurnOrderService.voteOnTurnSwap(group.id, swapId, chidi.id, false),
+    ]);
+    expect(votes.map(vote => vote.success)).toEqual([true, true, false]);
+    expect(votes[2].error).toBe('You have already voted on this swap');
+
+    const saved = await DatabaseService.groups.getGroupById(group.id);
+    expect(saved.data!.turn_order_strategy!.swap_requests![swapId]).toMatchObject({
+      votes_for: [ada.id, chidi.id],
+      votes_against: [],
+      status: 'pending',
+    });
+  });
+});
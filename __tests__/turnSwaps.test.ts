@@ -0,0 +1,142 @@
+import DatabaseService, { InMemoryStore } from '../src/services/database';
+import TurnOrderService from '../src/services/business/turnOrder';
+import TurnSwapService from '../src/services/business/turnSwaps';
+import NotificationService from '../src/services/notifications';
+import { createFourMemberGroup } from './fixtures/groups';
+
+const recipients = async (groupId: string) => {
+  const schedule = await TurnOrderService.getGroupTurnSchedule(groupId);
+  return schedule.data?.map(turn => turn.recipientName);
+};
+
+describe('TurnSwapService marketplace', () => {
+  let sendToUser: jest.SpyInstance;
+
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    sendToUser = jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('swaps two upcoming turns once the counterparty accepts', async () => {
+    const { group, bola, dayo } = await createFourMemberGroup();
+
+    const proposed = await TurnSwapService.proposeSwap({
+      groupId: group.id,
+      requesterId: dayo.id,
+      requesterCycle: 4,
+      counterpartyCycle: 2,
+    });
+    expect(proposed.data).toMatchObject({ counterparty_id: bola.id, status: 'proposed' });
+    expect(sendToUser).toHaveBeenCalledWith(expect.objectContaining({ templateId: 'turn_swap_proposed', userId: bola.id }));
+
+    const accepted = await TurnSwapService.respondToSwap(proposed.data!.id, bola.id, true);
+    expect(accepted.data?.status).toBe('completed');
+    expect(await recipients(group.id)).toEqual(['Ada', 'Dayo', 'Chidi', 'Bola']);
+
+    const completedFor = sendToUser.mock.calls
+      .filter(([params]) => params.templateId === 'turn_swap_completed')
+      .map(([params]) => [params.userId, params.data.cycle]);
+    expect(completedFor).toEqual([
+      [dayo.id, 2],
+      [bola.id, 4],
+    ]);
+
+    const audits = await DatabaseService.turnOrderAudits.getGroupAudits(group.id);
+    expect(audits.data![0]).toMatchObject({ reason: 'swap_completed', order: [expect.any(String), dayo.id, expect.any(String), bola.id] });
+  });
+
+  it('waits for admin approval when the group requires it', async () => {
+    const { group, ada, chidi, dayo } = await createFourMemberGroup();
+    await DatabaseService.groups.updateGroup(group.id, { require_swap_approval: true });
+
+    const proposed = await TurnSwapService.proposeSwap({
+      groupId: group.id,
+      requesterId: dayo.id,
+      requesterCycle: 4,
+      counterpartyCycle: 3,
+    });
+    const accepted = await TurnSwapService.respondToSwap(proposed.data!.id, chidi.id, true);
+    expect(accepted.data?.status).toBe('accepted');
+    expect(await recipients(group.id)).toEqual(['Ada', 'Bola', 'Chidi', 'Dayo']);
+
+    const notAdmin = await TurnSwapService.reviewSwap(proposed.data!.id, chidi.id, true);
+    expect(notAdmin).toMatchObject({ success: false, code: 'TURN_SWAP_ERROR' });
+
+    const approved = await TurnSwapService.reviewSwap(proposed.data!.id, ada.id, true);
+    expect(approved.data?.status).toBe('completed');
+    expect(await recipients(group.id)).toEqual(['Ada', 'Bola', 'Dayo', 'Chidi']);
+  });
+
+  it('completes a swap once when it is accepted twice at the same time', async () => {
+    const { group, bola, dayo } = await createFourMemberGroup();
+    const proposed = await TurnSwapService.proposeSwap({
+      groupId: group.id,
+      requesterId: dayo.id,
+      requesterCycle: 4,
+      counterpartyCycle: 2,
+    });
+
+    const answers = await Promise.all([
+      TurnSwapService.respondToSwap(proposed.data!.id, bola.id, true),
+      TurnSwapService.respondToSwap(proposed.data!.id, bola.id, true),
+    ]);
+    expect(answers.map(answer => answer.success).sort()).toEqual([false, true]);
+
+    const saved = await DatabaseService.groups.getGroupById(group.id);
+    expect(saved.data!.turn_trades).toHaveLength(1);
+    expect(await recipients(group.id)).toEqual(['Ada', 'Dayo', 'Chidi', 'Bola']);
+    const audits = await DatabaseService.turnOrderAudits.getGroupAudits(group.id);
+    expect(audits.data!.filter(audit => audit.reason === 'swap_completed')).toHaveLength(1);
+  });
+
+  it('does not apply a swap that was withdrawn before it was approved', async () => {
+    const { group, ada, chidi, dayo } = await createFourMemberGroup();
+    await DatabaseService.groups.updateGroup(group.id, { require_swap_approval: true });
+    const proposed = await TurnSwapService.proposeSwap({
+      groupId: group.id,
+      requesterId: dayo.id,
+      requesterCycle: 4,
+      counterpartyCycle: 3,
+    });
+    await TurnSwapService.respondToSwap(proposed.data!.id, chidi.id, true);
+    await TurnSwapService.cancelSwap(proposed.data!.id, dayo.id);
+
+    const completed = await DatabaseService.turnSwaps.completeSwap(
+      proposed.data!.id,
+      ada.id,
+      { swap_id: proposed.data!.id, user_a: dayo.id, user_b: chidi.id, applied_at: new Date() },
+      () => {
+        throw new Error('A closed swap builds no audit');
+      },
+    );
+    expect(completed).toMatchObject({ success: false, code: 'swap-closed' });
+    expect(await recipients(group.id)).toEqual(['Ada', 'Bola', 'Chidi', 'Dayo']);
+  });
+
+  it('rejects swaps involving completed or current cycles', async () => {
+    const { group, ada, dayo } = await createFourMemberGroup();
+    await DatabaseService.groups.updateGroup(group.id, { current_cycle: 2 });
+
+    const current = await TurnSwapService.proposeSwap({
+      groupId: group.id,
+      requesterId: dayo.id,
+      requesterCycle: 4,
+      counterpartyCycle: 2,
+    });
+    expect(current).toMatchObject({ success: false, code: 'TURN_SWAP_ERROR' });
+
+    const completed = await TurnSwapService.proposeSwap({
+      groupId: group.id,
+      requesterId: ada.id,
+      requesterCycle: 1,
+      counterpartyCycle: 4,
+    });
+    expect(completed).toMatchObject({ success: false, code: 'TURN_SWAP_ERROR' });
+    expect(await DatabaseService.turnSwaps.getGroupSwaps(group.id)).toMatchObject({ data: [] });
+  });
+});
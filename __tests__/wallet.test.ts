@@ -0,0 +1,232 @@
+import DatabaseService, { InMemoryStore, LEDGER_ACCOUNTS } from '../src/services/database';
+import PaymentTrackingService from '../src/services/business/paymentTracking';
+import CycleProcessorService from '../src/services/business/cycleProcessor';
+import GroupManagementService from '../src/services/business/groupManagement';
+import LedgerService from '../src/services/business/ledger';
+import WalletService from '../src/services/business/wallet';
+import NotificationService from '../src/services/notifications';
+import { ManualClock, setClock, systemClock } from '../src/services/jobs/clock';
+import { createCycle, createGroup } from './fixtures/groups';
+
+// An active two-member group with its first cycle's contributions
+const createActiveGroup = async () => {
+  const { groupId, admin, member } = await createGroup();
+  await DatabaseService.groups.updateGroup(groupId, { status: 'active' });
+  return { groupId, admin, member, contributions: await createCycle(groupId) };
+};
+
+const walletFunds = async (groupId: string) => {
+  const entries = (await DatabaseService.ledger.getGroupEntries(groupId)).data!;
+  return entries
+    .flatMap(entry => entry.lines)
+    .filter(line => line.account === LEDGER_ACCOUNTS.WALLET_FUNDS)
+    .reduce((sum, line) => sum + line.debit - line.credit, 0);
+};
+
+describe('WalletService', () => {
+  beforeEach(() => {
+    DatabaseService.useStore(new InMemoryStore());
+    jest.spyOn(NotificationService, 'sendToUser').mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setClock(systemClock);
+    jest.restoreAllMocks();
+  });
+
+  it('keeps overpayments in the wallet and uses them for the next cycles first', async () => {
+    const { groupId, admin, member, contributions } = await createActiveGroup();
+    const [adminContribution, memberContribution] = [admin, member].map(
+      userId => contributions.find(contribution => contribution.user_id === userId)!,
+    );
+
+    const confirmed = await PaymentTrackingService.confirmMemberPayment({
+      contributionId: memberContribution.id,
+      adminId: admin,
+      confirmationType: 'bank_transfer',
+      customAmount: 25000,
+    });
+    expect(confirmed.data).toMatchObject({ amount: 10000, walletCredit: 15000 });
+    await PaymentTrackingService.confirmMemberPayment({
+      contributionId: adminContribution.id,
+      adminId: admin,
+      confirmationType: 'cash',
+    });
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(20000);
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(15000);
+
+    const processed = await CycleProcessorService.processGroupCycle({ groupId, adminId: admin, forceProcess: true, skipValidation: true });
+    expect(processed.data).toMatchObject({ contributionsCreated: true, newCycle: 2 });
+
+    const cycle2 = (await DatabaseService.contributions.getCycleContributions(groupId, 2)).data!;
+    expect(cycle2.find(contribution => contribution.user_id === member)).toMatchObject({
+      status: 'paid',
+      paid_amount: 10000,
+      payment_method: 'wallet',
+    });
+    expect(cycle2.find(contribution => contribution.user_id === admin)!.status).toBe('pending');
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(5000);
+
+    // What is left pays part of the following cycle
+    const cycle3 = await DatabaseService.createCycleContributions(groupId, 3, new Date());
+    const settled = await WalletService.settleFromWallets(cycle3.data!);
+    expect(settled.data).toEqual([expect.objectContaining({ amount: 5000, settled: false })]);
+    expect(settled.data![0].contribution).toMatchObject({ status: 'partially_paid', paid_amount: 5000 });
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(0);
+    expect(await walletFunds(groupId)).toBe(0);
+  });
+
+  it('holds the refund of a leaving member until a withdrawal is approved', async () => {
+    const { groupId, admin, member, contributions } = await createActiveGroup();
+    for (const contribution of contributions) {
+      await DatabaseService.contributions.markAsPaid(contribution.id);
+    }
+
+    await GroupManagementService.removeMember({
+      adminId: admin,
+      groupId,
+      memberId: member,
+      reason: 'request',
+      redistributeTurn: false,
+      refundContributions: true,
+    });
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(9000);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(11000);
+
+    const tooMuch = await WalletService.requestWithdrawal({ groupId, userId: member, amount: 20000 });
+    expect(tooMuch.success).toBe(false);
+
+    const requested = await WalletService.requestWithdrawal({ groupId, userId: member });
+    expect(requested.data).toMatchObject({ amount: 9000, status: 'requested' });
+    expect((await WalletService.requestWithdrawal({ groupId, userId: member })).success).toBe(false);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'wallet_withdrawal_requested', userId: admin }),
+    );
+
+    const selfApproved = await WalletService.approveWithdrawal({ withdrawalId: requested.data!.id, adminId: member });
+    expect(selfApproved.success).toBe(false);
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(9000);
+
+    const approved = await WalletService.approveWithdrawal({ withdrawalId: requested.data!.id, adminId: admin });
+    expect(approved.data).toMatchObject({ status: 'approved', decided_by: admin });
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(0);
+    expect(await walletFunds(groupId)).toBe(0);
+  });
+
+  it('keeps a member in the group when their refund cannot be recorded', async () => {
+    const store = new InMemoryStore();
+    DatabaseService.useStore(store);
+    const { groupId, admin, member, contributions } = await createActiveGroup();
+    for (const contribution of contributions) {
+      await DatabaseService.contributions.markAsPaid(contribution.id);
+    }
+
+    jest.spyOn(store, 'runTransaction').mockRejectedValueOnce(new Error('unavailable'));
+    const removed = await GroupManagementService.removeMember({
+      adminId: admin,
+      groupId,
+      memberId: member,
+      reason: 'request',
+      redistributeTurn: false,
+      refundContributions: true,
+    });
+    expect(removed.success).toBe(false);
+    expect((await DatabaseService.groupMembers.getMemberByUserAndGroup(member, groupId)).data!.status).toBe('active');
+    expect((await WalletService.getWallet(groupId, member)).data?.balance ?? 0).toBe(0);
+    expect((await LedgerService.getPotBalance(groupId)).data).toBe(20000);
+  });
+
+  it('pays out a withdrawal once when two admins approve it at the same time', async () => {
+    const { groupId, admin, member } = await createActiveGroup();
+    await DatabaseService.groups.updateGroup(groupId, { delegated_permissions: { [member]: ['canMarkPayments'] } });
+    await WalletService.recordPrepayment({ groupId, memberId: admin, adminId: admin, amount: 12000 });
+    const requested = await WalletService.requestWithdrawal({ groupId, userId: admin, amount: 12000 });
+
+    const decisions = await Promise.all([
+      WalletService.approveWithdrawal({ withdrawalId: requested.data!.id, adminId: admin }),
+      WalletService.approveWithdrawal({ withdrawalId: requested.data!.id, adminId: member }),
+    ]);
+    expect(decisions.map(decision => decision.success).sort()).toEqual([false, true]);
+    expect(decisions.find(decision => !decision.success)!.error).toBe('This withdrawal has already been approved');
+    expect((await WalletService.getWallet(groupId, admin)).data!.balance).toBe(0);
+    expect(await walletFunds(groupId)).toBe(0);
+  });
+
+  it('refuses a withdrawal the wallet no longer covers', async () => {
+    const { groupId, admin, member } = await createActiveGroup();
+    await WalletService.recordPrepayment({ groupId, memberId: member, adminId: admin, amount: 10000 });
+    const requested = await WalletService.requestWithdrawal({ groupId, userId: member, amount: 10000 });
+
+    // The balance pays the next cycle before the withdrawal is approved
+    await WalletService.settleFromWallets(await createCycle(groupId, 2));
+    const approved = await WalletService.approveWithdrawal({ withdrawalId: requested.data!.id, adminId: admin });
+    expect(approved).toMatchObject({ success: false, error: 'The wallet no longer holds enough to pay this withdrawal' });
+    expect((await DatabaseService.wallets.getWithdrawalById(requested.data!.id)).data!.status).toBe('requested');
+  });
+
+  it('leaves the wallet untouched when its ledger entry cannot be written', async () => {
+    const store = new InMemoryStore();
+    DatabaseService.useStore(store);
+    const { groupId, admin, member, contributions } = await createActiveGroup();
+    const contribution = contributions.find(c => c.user_id === member)!;
+
+    jest.spyOn(store, 'commit').mockRejectedValueOnce(new Error('unavailable'));
+    const failed = await WalletService.creditOverpayment(contribution, 5000, admin);
+    expect(failed).toMatchObject({ success: false, error: 'unavailable' });
+    expect((await WalletService.getWallet(groupId, member)).data?.balance ?? 0).toBe(0);
+    expect(await walletFunds(groupId)).toBe(0);
+
+    // Retrying credits the overpayment once, however often it is retried
+    await WalletService.creditOverpayment(contribution, 5000, admin);
+    await WalletService.creditOverpayment(contribution, 5000, admin);
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(5000);
+    expect(await walletFunds(groupId)).toBe(5000);
+  });
+
+  it('credits two prepayments recorded at the same moment', async () => {
+    const { groupId, admin, member } = await createActiveGroup();
+    setClock(new ManualClock(new Date()));
+
+    await Promise.all([
+      WalletService.recordPrepayment({ groupId, memberId: member, adminId: admin, amount: 5000 }),
+      WalletService.recordPrepayment({ groupId, memberId: member, adminId: admin, amount: 5000 }),
+    ]);
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(10000);
+    expect(await walletFunds(groupId)).toBe(10000);
+  });
+
+  it('lets only payment handlers record prepayments and decide withdrawals', async () => {
+    const { groupId, admin, member } = await createActiveGroup();
+
+    const prepaid = await WalletService.recordPrepayment({ groupId, memberId: admin, adminId: member, amount: 5000 });
+    expect(prepaid).toMatchObject({ success: false, error: 'You do not have permission to record payments' });
+
+    await WalletService.recordPrepayment({ groupId, memberId: member, adminId: admin, amount: 5000 });
+    const requested = await WalletService.requestWithdrawal({ groupId, userId: member });
+    const rejected = await WalletService.rejectWithdrawal({ withdrawalId: requested.data!.id, adminId: member, reason: 'No' });
+    expect(rejected.success).toBe(false);
+    const unexplained = await WalletService.rejectWithdrawal({ withdrawalId: requested.data!.id, adminId: admin, reason: ' ' });
+    expect(unexplained).toMatchObject({ success: false, error: 'Please give a reason so the member knows why' });
+    expect((await DatabaseService.wallets.getWithdrawalById(requested.data!.id)).data!.status).toBe('requested');
+  });
+
+  it('returns a rejected withdrawal to the wallet', async () => {
+    const { groupId, admin, member } = await createActiveGroup();
+    const prepaid = await WalletService.recordPrepayment({ groupId, memberId: member, adminId: admin, cycles: 3 });
+    expect(prepaid.data!.balance).toBe(30000);
+
+    const requested = await WalletService.requestWithdrawal({ groupId, userId: member, amount: 10000 });
+    const rejected = await WalletService.rejectWithdrawal({
+      withdrawalId: requested.data!.id,
+      adminId: admin,
+      reason: 'Prepaid cycles cannot be withdrawn',
+    });
+    expect(rejected.data!.status).toBe('rejected');
+    expect((await WalletService.getWallet(groupId, member)).data!.balance).toBe(30000);
+    expect(NotificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId: 'wallet_withdrawal_rejected', userId: member }),
+    );
+  });
+});
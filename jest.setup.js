@@ -0,0 +1,70 @@
+/* eslint-env jest */
+
+// Native modules are not available under Jest; services talk to the
+// in-memory DocumentStore instead (see src/services/database).
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js'),
+);
+
+jest.mock('@react-native-firebase/app', () => ({}));
+
+jest.mock('@react-native-firebase/messaging', () => {
+  const instance = {
+    requestPermission: jest.fn(() => Promise.resolve(1)),
+    hasPermission: jest.fn(() => Promise.resolve(1)),
+    getToken: jest.fn(() => Promise.resolve('test-fcm-token')),
+    onMessage: jest.fn(() => jest.fn()),
+    onNotificationOpenedApp: jest.fn(() => jest.fn()),
+    onTokenRefresh: jest.fn(() => jest.fn()),
+    setBackgroundMessageHandler: jest.fn(),
+    getInitialNotification: jest.fn(() => Promise.resolve(null)),
+    subscribeToTopic: jest.fn(() => Promise.resolve()),
+    unsubscribeFromTopic: jest.fn(() => Promise.resolve()),
+  };
+  const messaging = () => instance;
+  messaging.AuthorizationStatus = { AUTHORIZED: 1, PROVISIONAL: 2, DENIED: 0 };
+  return { __esModule: true, default: messaging };
+});
+
+jest.mock('@react-native-firebase/firestore', () => {
+  const firestore = () => {
+    throw new Error('Firestore is not available in tests; use InMemoryStore');
+  };
+  firestore.Timestamp = {
+    fromDate: date => ({ toDate: () => date }),
+    now: () => ({ toDate: () => new Date() }),
+  };
+  firestore.FieldValue = {
+    serverTimestamp: () => new Date(),
+  };
+  return { __esModule: true, default: firestore };
+});
+
+jest.mock('@react-native-firebase/auth', () => {
+  const auth = () => ({
+    currentUser: null,
+    onAuthStateChanged: jest.fn(() => jest.fn()),
+  });
+  return { __esModule: true, default: auth };
+});
+
+jest.mock('@react-native-firebase/crashlytics', () => {
+  const crashlytics = () => ({
+    log: jest.fn(),
+    recordError: jest.fn(),
+    setAttribute: jest.fn(),
+    setUserId: jest.fn(),
+  });
+  return { __esModule: true, default: crashlytics };
+});
+
+jest.mock('@react-native-firebase/storage', () => {
+  const storage = () => {
+    throw new Error('Firebase Storage is not available in tests; use InMemoryReceiptFileStore');
+  };
+  return { __esModule: true, default: storage };
+});
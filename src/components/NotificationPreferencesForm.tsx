@@ -0,0 +1,298 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import NotificationPreferences, {
+  DEFAULT_DELIVERY_PREFERENCES,
+  NOTIFICATION_CHANNELS,
+  PREFERENCE_CATEGORY_LABELS,
+} from '../services/notifications/preferences';
+import { NotificationChannel, NotificationDeliveryPreferences, NotificationPreferenceCategory } from '../services/database';
+
+interface NotificationPreferencesFormProps {
+  userId: string;
+}
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  push: 'Push',
+  sms: 'SMS',
+  email: 'Email',
+};
+
+const CATEGORIES = Object.keys(PREFERENCE_CATEGORY_LABELS) as NotificationPreferenceCategory[];
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+const DEFAULT_FALLBACK_MINUTES = 30;
+
+// How scheduled notifications reach the member: channel priority per category,
+// quiet hours, daily digest and SMS fallback
+const NotificationPreferencesForm: React.FC<NotificationPreferencesFormProps> = ({ userId }) => {
+  const [preferences, setPreferences] = useState<NotificationDeliveryPreferences | null>(null);
+  const [fallbackMinutes, setFallbackMinutes] = useState(String(DEFAULT_FALLBACK_MINUTES));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    NotificationPreferences.getPreferences(userId).then(result => {
+      const loaded = result.data || DEFAULT_DELIVERY_PREFERENCES;
+      setPreferences(loaded);
+      if (loaded.sms_fallback_minutes) {
+        setFallbackMinutes(String(loaded.sms_fallback_minutes));
+      }
+    });
+  }, [userId]);
+
+  if (!preferences) {
+    return <ActivityIndicator style={styles.loading} color="#3182ce" />;
+  }
+
+  const update = (changes: Partial<NotificationDeliveryPreferences>) => setPreferences({ ...preferences, ...changes });
+
+  // Tapping a channel turns it off, or adds it after the ones already on
+  const toggleChannel = (category: NotificationPreferenceCategory, channel: NotificationChannel) => {
+    const current = preferences.channels[category] || ['push'];
+    const channels = current.includes(channel) ? current.filter(item => item !== channel) : [...current, channel];
+    update({ channels: { ...preferences.channels, [category]: channels } });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await NotificationPreferences.updatePreferences(userId, {
+        ...preferences,
+        sms_fallback_minutes: preferences.sms_fallback_minutes ? Number(fallbackMinutes) : undefined,
+      });
+      if (result.success && result.data) {
+        setPreferences(result.data);
+        Alert.alert('Saved', 'Your notification preferences have been updated.');
+      } else {
+        Alert.alert('Error', result.error || 'Failed to save preferences');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCategory = (category: NotificationPreferenceCategory) => {
+    const channels = preferences.channels[category] || ['push'];
+    return (
+      <View key={category} style={styles.row}>
+        <Text style={styles.label}>{PREFERENCE_CATEGORY_LABELS[category]}</Text>
+        <View style={styles.chipRow}>
+          {NOTIFICATION_CHANNELS.map(channel => {
+            const position = channels.indexOf(channel);
+            return (
+              <TouchableOpacity
+                key={channel}
+                style={[styles.chip, position >= 0 && styles.chipActive]}
+                onPress={() => toggleChannel(category, channel)}
+              >
+                <Text style={[styles.chipText, position >= 0 && styles.chipTextActive]}>
+                  {position >= 0 ? `${position + 1}. ` : ''}
+                  {CHANNEL_LABELS[channel]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {channels.length === 0 ? <Text style={styles.hint}>Muted, except urgent alerts</Text> : null}
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      <Text style={styles.subheading}>Channels, in the order to try them</Text>
+      {CATEGORIES.map(renderCategory)}
+
+      <View style={styles.row}>
+        <View style={styles.switchRow}>
+          <Text style={styles.label}>Quiet Hours</Text>
+          <Switch
+            value={!!preferences.quiet_hours}
+            onValueChange={enabled => update({ quiet_hours: enabled ? DEFAULT_QUIET_HOURS : undefined })}
+            trackColor={{ false: '#e2e8f0', true: '#3182ce' }}
+            thumbColor={preferences.quiet_hours ? '#ffffff' : '#f4f4f4'}
+          />
+        </View>
+        {preferences.quiet_hours ? (
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.input}
+              value={preferences.quiet_hours.start}
+              onChangeText={start => update({ quiet_hours: { ...preferences.quiet_hours!, start } })}
+              placeholder="22:00"
+            />
+            <Text style={styles.hint}>to</Text>
+            <TextInput
+              style={styles.input}
+              value={preferences.quiet_hours.end}
+              onChangeText={end => update({ quiet_hours: { ...preferences.quiet_hours!, end } })}
+              placeholder="07:00"
+            />
+          </View>
+        ) : null}
+        <TextInput
+          style={[styles.input, styles.timezoneInput]}
+          value={preferences.timezone}
+          onChangeText={timezone => update({ timezone })}
+          placeholder="Time zone, e.g. Africa/Lagos"
+          autoCapitalize="none"
+        />
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Delivery</Text>
+        <View style={styles.chipRow}>
+          {(['immediate', 'daily_digest'] as const).map(delivery => (
+            <TouchableOpacity
+              key={delivery}
+              style={[styles.chip, preferences.delivery === delivery && styles.chipActive]}
+              onPress={() => update({ delivery })}
+            >
+              <Text style={[styles.chipText, preferences.delivery === delivery && styles.chipTextActive]}>
+                {delivery === 'immediate' ? 'Immediately' : 'Daily digest'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {preferences.delivery === 'daily_digest' ? (
+          <View style={styles.inputRow}>
+            <Text style={styles.hint}>Send at</Text>
+            <TextInput
+              style={styles.input}
+              value={preferences.digest_time}
+              onChangeText={digest_time => update({ digest_time })}
+              placeholder="19:00"
+            />
+          </View>
+        ) : null}
+      </View>
+
+      <View style={styles.row}>
+        <View style={styles.switchRow}>
+          <Text style={styles.label}>SMS if a push isn't opened</Text>
+          <Switch
+            value={!!preferences.sms_fallback_minutes}
+            onValueChange={enabled => update({ sms_fallback_minutes: enabled ? Number(fallbackMinutes) || DEFAULT_FALLBACK_MINUTES : undefined })}
+            trackColor={{ false: '#e2e8f0', true: '#3182ce' }}
+            thumbColor={preferences.sms_fallback_minutes ? '#ffffff' : '#f4f4f4'}
+          />
+        </View>
+        {preferences.sms_fallback_minutes ? (
+          <View style={styles.inputRow}>
+            <Text style={styles.hint}>After</Text>
+            <TextInput
+              style={styles.input}
+              value={fallbackMinutes}
+              onChangeText={setFallbackMinutes}
+              keyboardType="number-pad"
+            />
+            <Text style={styles.hint}>minutes</Text>
+          </View>
+        ) : null}
+      </View>
+
+      <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+        {isSaving ? <ActivityIndicator size="small" color="#ffffff" /> : <Text style={styles.saveButtonText}>Save Preferences</Text>}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    padding: 16,
+  },
+  subheading: {
+    fontSize: 13,
+    color: '#718096',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  row: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f7fafc',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 16,
+    color: '#2d3748',
+    flex: 1,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#718096',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipActive: {
+    backgroundColor: '#3182ce',
+    borderColor: '#3182ce',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4a5568',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#2d3748',
+    minWidth: 72,
+  },
+  timezoneInput: {
+    marginTop: 8,
+  },
+  saveButton: {
+    margin: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#3182ce',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
+
+export default NotificationPreferencesForm;
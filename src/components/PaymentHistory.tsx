@@ -12,6 +12,7 @@ import {
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import PaymentTrackingService from '../services/business/paymentTracking';
 import { PaymentHistoryItem } from '../services/business/paymentTracking';
+import { CurrencyCode, formatAmount, localeFor } from '../utils/money';
 
 interface PaymentHistoryProps {
   userId?: string;
@@ -97,16 +98,12 @@ const PaymentHistory: React.FC<PaymentHistoryProps> = ({
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-UG', {
-      style: 'currency',
-      currency: 'UGX',
-      minimumFractionDigits: 0,
-    }).format(amount);
+  const formatCurrency = (amount: number, currency: CurrencyCode) => {
+    return formatAmount(amount, currency);
   };
 
-  const formatDate = (date: Date) => {
-    return new Intl.DateTimeFormat('en-UG', {
+  const formatDate = (date: Date, currency: CurrencyCode) => {
+    return new Intl.DateTimeFormat(localeFor(currency), {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -132,12 +129,12 @@ const PaymentHistory: React.FC<PaymentHistoryProps> = ({
           </Text>
         </View>
         <Text style={styles.amountText}>
-          {formatCurrency(item.amount)}
+          {formatCurrency(item.amount, item.currency)}
         </Text>
       </View>
       
       <Text style={styles.dateText}>
-        {formatDate(item.paidDate)}
+        {formatDate(item.paidDate, item.currency)}
       </Text>
       
       <View style={styles.paymentDetails}>
@@ -209,14 +206,14 @@ const PaymentHistory: React.FC<PaymentHistoryProps> = ({
               <View style={styles.detailSection}>
                 <Text style={styles.detailLabel}>Amount</Text>
                 <Text style={styles.detailAmount}>
-                  {formatCurrency(selectedPayment.amount)}
+                  {formatCurrency(selectedPayment.amount, selectedPayment.currency)}
                 </Text>
               </View>
               
               <View style={styles.detailSection}>
                 <Text style={styles.detailLabel}>Payment Date</Text>
                 <Text style={styles.detailText}>
-                  {formatDate(selectedPayment.paidDate)}
+                  {formatDate(selectedPayment.paidDate, selectedPayment.currency)}
                 </Text>
               </View>
               
@@ -240,7 +237,7 @@ const PaymentHistory: React.FC<PaymentHistoryProps> = ({
                 <View style={styles.detailSection}>
                   <Text style={styles.detailLabel}>Confirmed At</Text>
                   <Text style={styles.detailText}>
-                    {formatDate(selectedPayment.confirmedAt)}
+                    {formatDate(selectedPayment.confirmedAt, selectedPayment.currency)}
                   </Text>
                 </View>
               )}
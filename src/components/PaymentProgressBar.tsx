@@ -1,11 +1,15 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import { CurrencyCode, DEFAULT_CURRENCY, formatAmount } from '../utils/money';
 
 interface PaymentProgressBarProps {
   totalMembers: number;
   confirmedCount: number;
   totalAmount: number;
+  partialCount?: number; // members who have paid part of their contribution
+  collectedAmount?: number; // everything collected so far, part payments included
+  currency?: CurrencyCode;
   showDetails?: boolean;
   size?: 'small' | 'medium' | 'large';
   style?: any;
@@ -15,19 +19,22 @@ const PaymentProgressBar: React.FC<PaymentProgressBarProps> = ({
   totalMembers,
   confirmedCount,
   totalAmount,
+  partialCount = 0,
+  collectedAmount,
+  currency = DEFAULT_CURRENCY,
   showDetails = true,
   size = 'medium',
   style,
 }) => {
   const progressPercentage = totalMembers > 0 ? (confirmedCount / totalMembers) * 100 : 0;
   const isComplete = confirmedCount === totalMembers;
+  // Part payments show as a lighter segment after the members who have paid in full
+  const collectedPercentage =
+    collectedAmount !== undefined && totalAmount > 0 ? Math.min(100, (collectedAmount / totalAmount) * 100) : 0;
+  const partialPercentage = isComplete ? 0 : Math.max(0, collectedPercentage - progressPercentage);
   
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-UG', {
-      style: 'currency',
-      currency: 'UGX',
-      minimumFractionDigits: 0,
-    }).format(amount);
+    return formatAmount(amount, currency);
   };
 
   const getBarHeight = () => {
@@ -81,6 +88,9 @@ const PaymentProgressBar: React.FC<PaymentProgressBarProps> = ({
               },
             ]}
           />
+          {partialPercentage > 0 && (
+            <View style={[styles.partialFill, { width: `${partialPercentage}%` }]} />
+          )}
         </View>
         <Text style={[styles.percentageText, { fontSize: textSizes.sub }]}>
           {Math.round(progressPercentage)}%
@@ -91,10 +101,13 @@ const PaymentProgressBar: React.FC<PaymentProgressBarProps> = ({
         <View style={styles.details}>
           <Text style={[styles.memberText, { fontSize: textSizes.sub }]}>
             {confirmedCount} of {totalMembers} members paid
+            {partialCount > 0 && `, ${partialCount} in part`}
           </Text>
           {totalAmount > 0 && (
             <Text style={[styles.amountText, { fontSize: textSizes.sub }]}>
-              Total: {formatCurrency(totalAmount)}
+              {collectedAmount !== undefined
+                ? `${formatCurrency(collectedAmount)} of ${formatCurrency(totalAmount)}`
+                : `Total: ${formatCurrency(totalAmount)}`}
             </Text>
           )}
         </View>
@@ -133,14 +146,20 @@ const styles = StyleSheet.create({
   },
   progressBar: {
     flex: 1,
+    flexDirection: 'row',
     backgroundColor: '#e0e0e0',
     borderRadius: 6,
     marginRight: 8,
+    overflow: 'hidden',
   },
   progressFill: {
     height: '100%',
     borderRadius: 6,
   },
+  partialFill: {
+    height: '100%',
+    backgroundColor: '#90CAF9',
+  },
   percentageText: {
     color: '#666',
     fontWeight: '500',
@@ -0,0 +1,481 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import PayoutService from '../services/business/payouts';
+import { CurrencyCode, Payout, PayoutAccount } from '../services/database';
+import { formatAmount, localeFor } from '../utils/money';
+
+interface PayoutCardProps {
+  groupId: string;
+  userId: string;
+  currency: CurrencyCode;
+  // Admins who manage cycles also send released payouts and retry failed ones
+  canSend?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+const STATUS_LABELS: Record<Payout['status'], string> = {
+  scheduled: 'Waiting for release',
+  approved: 'Released, about to be sent',
+  sending: 'Being sent',
+  sent: 'Sent',
+  confirmed: 'Received',
+  failed: 'Transfer failed',
+  cancelled: 'Cancelled',
+};
+
+const maskAccount = (accountNumber: string): string => `•••${accountNumber.slice(-4)}`;
+
+// The member's payout on its way to them, where it goes, and the admin's send queue
+const PayoutCard: React.FC<PayoutCardProps> = ({ groupId, userId, currency, canSend = false, style }) => {
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [account, setAccount] = useState<PayoutAccount | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [accountForm, setAccountForm] = useState<{
+    method: PayoutAccount['method'];
+    accountNumber: string;
+    bankCode: string;
+    bankName: string;
+    mobileProvider: string;
+  } | null>(null);
+
+  const loadPayouts = useCallback(async () => {
+    const [payoutsResult, accountsResult] = await Promise.all([
+      PayoutService.getGroupPayouts(groupId),
+      PayoutService.getPayoutAccounts(userId),
+    ]);
+    if (payoutsResult.success && payoutsResult.data) {
+      setPayouts(payoutsResult.data);
+    }
+    if (accountsResult.success && accountsResult.data) {
+      setAccount(accountsResult.data[0] || null);
+    }
+  }, [groupId, userId]);
+
+  useEffect(() => {
+    loadPayouts();
+  }, [loadPayouts]);
+
+  const ownPayout = payouts.find(
+    payout => payout.recipient_id === userId && !['confirmed', 'cancelled'].includes(payout.status)
+  );
+  const queue = canSend ? payouts.filter(payout => payout.status === 'approved' || payout.status === 'failed') : [];
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    setIsBusy(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        setAccountForm(null);
+      } else {
+        Alert.alert('Error', result.error || failure);
+      }
+      await loadPayouts();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveAccount = () => {
+    if (!accountForm) return;
+    run(
+      () =>
+        PayoutService.registerPayoutAccount({
+          userId,
+          method: accountForm.method,
+          accountNumber: accountForm.accountNumber,
+          ...(accountForm.method === 'bank_transfer'
+            ? { bankCode: accountForm.bankCode, bankName: accountForm.bankName }
+            : { mobileProvider: accountForm.mobileProvider }),
+          currency,
+        }),
+      'Failed to verify account'
+    );
+  };
+
+  const handleConfirm = (payout: Payout) => {
+    Alert.alert(
+      'Confirm Payout',
+      `Has ${formatAmount(payout.net_amount, currency)} arrived in your account?`,
+      [
+        { text: 'Not Yet', style: 'cancel' },
+        {
+          text: 'Yes, Received',
+          onPress: () => run(() => PayoutService.confirmReceipt({ payoutId: payout.id, userId }), 'Failed to confirm payout'),
+        },
+      ]
+    );
+  };
+
+  const handleAdvance = (payout: Payout) => {
+    Alert.alert(
+      'Advance From Reserve',
+      `Cover up to ${formatAmount(payout.shortfall_amount || 0, currency)} of the cycle ${payout.cycle_number} shortfall from the reserve fund?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Advance',
+          onPress: () =>
+            run(() => PayoutService.advanceFromReserve({ payoutId: payout.id, adminId: userId }), 'Failed to advance from the reserve'),
+        },
+      ]
+    );
+  };
+
+  const handleSend = (payout: Payout) => {
+    const retry = payout.status === 'failed';
+    Alert.alert(
+      retry ? 'Retry Payout' : 'Send Payout',
+      `Send ${formatAmount(payout.net_amount, currency)} for cycle ${payout.cycle_number} to the recipient's account?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: retry ? 'Retry' : 'Send',
+          onPress: () =>
+            run(
+              () =>
+                retry
+                  ? PayoutService.retryPayout({ payoutId: payout.id, adminId: userId })
+                  : PayoutService.sendPayout({ payoutId: payout.id, adminId: userId }),
+              'Failed to send payout'
+            ),
+        },
+      ]
+    );
+  };
+
+  if (!ownPayout && queue.length === 0) {
+    return null;
+  }
+
+  const renderAccountForm = () => {
+    if (!accountForm) return null;
+    const isBank = accountForm.method === 'bank_transfer';
+    return (
+      <View>
+        <View style={styles.methodRow}>
+          {(['bank_transfer', 'mobile_money'] as const).map(method => (
+            <TouchableOpacity
+              key={method}
+              style={[styles.methodOption, accountForm.method === method && styles.methodOptionSelected]}
+              onPress={() => setAccountForm({ ...accountForm, method })}
+            >
+              <Text style={[styles.methodText, accountForm.method === method && styles.methodTextSelected]}>
+                {method === 'bank_transfer' ? 'Bank Account' : 'Mobile Money'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          style={styles.input}
+          placeholder={isBank ? 'Account number' : 'Mobile money number'}
+          keyboardType={isBank ? 'number-pad' : 'phone-pad'}
+          value={accountForm.accountNumber}
+          onChangeText={accountNumber => setAccountForm({ ...accountForm, accountNumber })}
+        />
+        {isBank ? (
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, styles.inputHalf]}
+              placeholder="Bank name"
+              value={accountForm.bankName}
+              onChangeText={bankName => setAccountForm({ ...accountForm, bankName })}
+            />
+            <TextInput
+              style={[styles.input, styles.inputHalf]}
+              placeholder="Bank code"
+              keyboardType="number-pad"
+              value={accountForm.bankCode}
+              onChangeText={bankCode => setAccountForm({ ...accountForm, bankCode })}
+            />
+          </View>
+        ) : (
+          <TextInput
+            style={styles.input}
+            placeholder="Network, e.g. M-Pesa or MTN"
+            value={accountForm.mobileProvider}
+            onChangeText={mobileProvider => setAccountForm({ ...accountForm, mobileProvider })}
+          />
+        )}
+        <Text style={styles.hint}>The name on the account must match your name in Ajoturn</Text>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setAccountForm(null)}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleSaveAccount} disabled={isBusy}>
+            {isBusy ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Verify & Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <Icon name="payments" size={22} color="#10B981" />
+        <Text style={styles.title}>Payouts</Text>
+      </View>
+
+      {ownPayout && (
+        <View style={styles.section}>
+          <View style={styles.payoutRow}>
+            <Text style={styles.amount}>{formatAmount(ownPayout.net_amount, currency)}</Text>
+            <Text style={[styles.status, ownPayout.status === 'failed' && styles.statusFailed]}>
+              {STATUS_LABELS[ownPayout.status]}
+            </Text>
+          </View>
+          {ownPayout.status === 'failed' && ownPayout.failure_reason ? (
+            <Text style={styles.notes}>{ownPayout.failure_reason}</Text>
+          ) : null}
+          {ownPayout.reserve_advance ? (
+            <Text style={styles.hint}>Includes {formatAmount(ownPayout.reserve_advance, currency)} advanced from the reserve fund</Text>
+          ) : null}
+          {ownPayout.shortfall_amount ? (
+            <Text style={styles.notes}>
+              Still owed to you: {formatAmount(ownPayout.shortfall_amount, currency)} of{' '}
+              {formatAmount(ownPayout.expected_amount || 0, currency)}
+            </Text>
+          ) : null}
+          {ownPayout.status === 'sent' ? (
+            <>
+              <Text style={styles.hint}>
+                Sent {ownPayout.sent_date ? new Date(ownPayout.sent_date).toLocaleDateString(localeFor(currency)) : ''} to{' '}
+                {ownPayout.bank_details?.bank_name || ownPayout.mobile_money_details?.provider || 'your account'}
+              </Text>
+              <TouchableOpacity
+                style={[styles.primaryButton, styles.actionButton]}
+                onPress={() => handleConfirm(ownPayout)}
+                disabled={isBusy}
+              >
+                <Text style={styles.primaryButtonText}>Confirm Received</Text>
+              </TouchableOpacity>
+            </>
+          ) : accountForm ? (
+            renderAccountForm()
+          ) : account ? (
+            <View style={styles.accountRow}>
+              <Text style={styles.hint}>
+                Paid to {account.account_name}, {account.bank_name || account.mobile_provider || 'mobile money'}{' '}
+                {maskAccount(account.account_number)}
+              </Text>
+              <TouchableOpacity
+                onPress={() =>
+                  setAccountForm({ method: account.method, accountNumber: '', bankCode: '', bankName: '', mobileProvider: '' })
+                }
+              >
+                <Text style={styles.link}>Change</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.secondaryButton, styles.actionButton]}
+              onPress={() =>
+                setAccountForm({ method: 'bank_transfer', accountNumber: '', bankCode: '', bankName: '', mobileProvider: '' })
+              }
+            >
+              <Text style={styles.secondaryButtonText}>Add Payout Account</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {queue.map(payout => (
+        <View key={payout.id} style={styles.request}>
+          <Text style={styles.requestText}>
+            Cycle {payout.cycle_number}: {formatAmount(payout.net_amount, currency)} · {STATUS_LABELS[payout.status]}
+          </Text>
+          {payout.failure_reason && payout.status === 'failed' ? (
+            <Text style={styles.notes}>
+              {payout.failure_reason} (attempt {payout.retry_count} of {payout.max_retries})
+            </Text>
+          ) : null}
+          {payout.shortfall_amount ? (
+            <Text style={styles.notes}>Short by {formatAmount(payout.shortfall_amount, currency)}</Text>
+          ) : null}
+          <View style={styles.buttonRow}>
+            {payout.status === 'approved' && payout.shortfall_amount && payout.shortfall_rule === 'advance_from_reserve' ? (
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => handleAdvance(payout)} disabled={isBusy}>
+                <Text style={styles.secondaryButtonText}>Advance From Reserve</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity style={styles.primaryButton} onPress={() => handleSend(payout)} disabled={isBusy}>
+              {isBusy ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>{payout.status === 'failed' ? 'Retry' : 'Send'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  section: {
+    marginTop: 12,
+  },
+  payoutRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  amount: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  status: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#10B981',
+  },
+  statusFailed: {
+    color: '#EF4444',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  accountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  link: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3B82F6',
+    marginTop: 4,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  methodOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+  },
+  methodOptionSelected: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#EFF6FF',
+  },
+  methodText: {
+    fontSize: 13,
+    color: '#4B5563',
+  },
+  methodTextSelected: {
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1F2937',
+    backgroundColor: '#FFFFFF',
+    marginTop: 8,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  request: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F9FAFB',
+    marginTop: 12,
+  },
+  requestText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  notes: {
+    fontSize: 12,
+    color: '#B91C1C',
+    marginTop: 2,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 10,
+  },
+  actionButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  primaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+  },
+  primaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+  },
+  secondaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+});
+
+export default PayoutCard;
@@ -0,0 +1,461 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Linking,
+  Alert,
+  ActivityIndicator,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { pick, types, isErrorWithCode, errorCodes } from '@react-native-documents/picker';
+import ReceiptService, { extractReceiptDetails } from '../services/receipts';
+import { CurrencyCode, PaymentReceipt, ReceiptContentType, ReceiptDetails } from '../services/database';
+import { parseStatementDate } from '../services/payments/statements';
+import { formatAmount, localeFor } from '../utils/money';
+import { readAsBase64 } from '../utils/base64';
+
+interface ReceiptAttachmentsProps {
+  contributionId: string;
+  userId: string;
+  // 'member' attaches receipts; 'review' lets an admin inspect and reject them
+  mode: 'member' | 'review';
+  expectedAmount?: number;
+  currency: CurrencyCode;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Editable copies of the fields read from a pasted alert
+interface DetailFields {
+  amount: string;
+  date: string;
+  reference: string;
+}
+
+const EMPTY_FIELDS: DetailFields = { amount: '', date: '', reference: '' };
+
+const STATUS_COLORS: Record<PaymentReceipt['status'], string> = {
+  submitted: '#F59E0B',
+  accepted: '#10B981',
+  rejected: '#EF4444',
+};
+
+const toFields = (details: ReceiptDetails): DetailFields => ({
+  amount: details.amount !== undefined ? String(details.amount) : '',
+  date: details.paid_at ? new Date(details.paid_at).toISOString().slice(0, 10) : '',
+  reference: details.reference || '',
+});
+
+const fromFields = (fields: DetailFields, currency: CurrencyCode): ReceiptDetails => {
+  const details: ReceiptDetails = {};
+  const amount = Number(fields.amount.replace(/,/g, ''));
+  if (fields.amount.trim() && !isNaN(amount)) {
+    details.amount = amount;
+    details.currency = currency;
+  }
+  const paidAt = fields.date.trim() ? parseStatementDate(fields.date.trim()) : null;
+  if (paidAt) {
+    details.paid_at = paidAt;
+  }
+  if (fields.reference.trim()) {
+    details.reference = fields.reference.trim();
+  }
+  return details;
+};
+
+// Receipts attached to one contribution: members add photos, PDFs or pasted
+// bank alerts; admins see them inline while confirming the payment
+const ReceiptAttachments: React.FC<ReceiptAttachmentsProps> = ({
+  contributionId,
+  userId,
+  mode,
+  expectedAmount,
+  currency,
+  style,
+}) => {
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+  const [fields, setFields] = useState<DetailFields>(EMPTY_FIELDS);
+  const [rejecting, setRejecting] = useState<{ receiptId: string; reason: string } | null>(null);
+
+  const loadReceipts = useCallback(async () => {
+    const result = await ReceiptService.getContributionReceipts({ contributionId, userId });
+    if (result.success && result.data) {
+      setReceipts(result.data);
+    }
+  }, [contributionId, userId]);
+
+  useEffect(() => {
+    loadReceipts();
+  }, [loadReceipts]);
+
+  const handlePasteChange = (text: string) => {
+    setPastedText(text);
+    setFields(toFields(extractReceiptDetails(text)));
+  };
+
+  const handleResult = async (result: { success: boolean; error?: string }) => {
+    if (result.success) {
+      await loadReceipts();
+      return true;
+    }
+    Alert.alert('Receipt not attached', result.error || 'Failed to attach receipt');
+    return false;
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const [file] = await pick({ type: [types.images, types.pdf] });
+      setIsBusy(true);
+      const base64 = await readAsBase64(file.uri);
+      await handleResult(
+        await ReceiptService.attachReceipt({
+          contributionId,
+          userId,
+          file: {
+            name: file.name || 'receipt',
+            contentType: (file.type || 'application/octet-stream') as ReceiptContentType,
+            base64,
+          },
+          details: fromFields(fields, currency),
+        }),
+      );
+    } catch (error) {
+      if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) {
+        return;
+      }
+      console.error('Error picking receipt:', error);
+      Alert.alert('Error', 'The file could not be read. Please try another one.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAttachText = async () => {
+    setIsBusy(true);
+    try {
+      const attached = await handleResult(
+        await ReceiptService.attachPastedText({
+          contributionId,
+          userId,
+          text: pastedText,
+          details: fromFields(fields, currency),
+        }),
+      );
+      if (attached) {
+        setPastedText('');
+        setFields(EMPTY_FIELDS);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    setIsBusy(true);
+    try {
+      const result = await ReceiptService.rejectReceipt({
+        receiptId: rejecting.receiptId,
+        adminId: userId,
+        reason: rejecting.reason,
+      });
+      if (result.success) {
+        setRejecting(null);
+        await loadReceipts();
+      } else {
+        Alert.alert('Error', result.error || 'Failed to reject receipt');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const renderDetails = (details: ReceiptDetails) => {
+    const mismatch =
+      details.amount !== undefined && expectedAmount !== undefined && details.amount !== expectedAmount;
+    return (
+      <View style={styles.details}>
+        {details.amount !== undefined ? (
+          <Text style={[styles.detailText, mismatch && styles.warningText]}>
+            Amount: {formatAmount(details.amount, details.currency || currency)}
+            {mismatch ? ` (expected ${formatAmount(expectedAmount!, currency)})` : ''}
+          </Text>
+        ) : null}
+        {details.paid_at ? (
+          <Text style={styles.detailText}>
+            Paid: {new Date(details.paid_at).toLocaleDateString(localeFor(currency))}
+          </Text>
+        ) : null}
+        {details.reference ? <Text style={styles.detailText}>Ref: {details.reference}</Text> : null}
+      </View>
+    );
+  };
+
+  const renderReceipt = (receipt: PaymentReceipt) => (
+    <View key={receipt.id} style={styles.receipt}>
+      <View style={styles.receiptHeader}>
+        {receipt.content_type.startsWith('image/') ? (
+          <Image source={{ uri: receipt.url }} style={styles.thumbnail} resizeMode="cover" />
+        ) : (
+          <TouchableOpacity style={styles.fileIcon} onPress={() => Linking.openURL(receipt.url)}>
+            <Icon name={receipt.content_type === 'application/pdf' ? 'picture-as-pdf' : 'sms'} size={28} color="#6B7280" />
+          </TouchableOpacity>
+        )}
+        <View style={styles.receiptInfo}>
+          <Text style={styles.fileName} numberOfLines={1}>{receipt.file_name}</Text>
+          <Text style={[styles.status, { color: STATUS_COLORS[receipt.status] }]}>
+            {receipt.status.charAt(0).toUpperCase() + receipt.status.slice(1)}
+          </Text>
+          {renderDetails(receipt.details)}
+          {receipt.review_notes ? <Text style={styles.reviewNotes}>{receipt.review_notes}</Text> : null}
+        </View>
+      </View>
+
+      {mode === 'review' && receipt.status === 'submitted' ? (
+        rejecting?.receiptId === receipt.id ? (
+          <View>
+            <TextInput
+              style={styles.input}
+              placeholder="Why is this receipt not valid?"
+              value={rejecting.reason}
+              onChangeText={reason => setRejecting({ receiptId: receipt.id, reason })}
+            />
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setRejecting(null)}>
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.dangerButton} onPress={handleReject} disabled={isBusy}>
+                <Text style={styles.primaryButtonText}>Reject Receipt</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => setRejecting({ receiptId: receipt.id, reason: '' })}
+          >
+            <Text style={styles.linkButtonText}>Reject</Text>
+          </TouchableOpacity>
+        )
+      ) : null}
+    </View>
+  );
+
+  if (mode === 'review' && receipts.length === 0) {
+    return (
+      <View style={[styles.container, style]}>
+        <Text style={styles.emptyText}>No receipts attached</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>Receipts</Text>
+      {receipts.map(renderReceipt)}
+
+      {mode === 'member' ? (
+        <View>
+          <TextInput
+            style={[styles.input, styles.pasteInput]}
+            placeholder="Paste your bank transfer confirmation or SMS alert"
+            value={pastedText}
+            onChangeText={handlePasteChange}
+            multiline
+          />
+          <View style={styles.fieldRow}>
+            <TextInput
+              style={[styles.input, styles.field]}
+              placeholder="Amount"
+              keyboardType="decimal-pad"
+              value={fields.amount}
+              onChangeText={amount => setFields({ ...fields, amount })}
+            />
+            <TextInput
+              style={[styles.input, styles.field]}
+              placeholder="Date (YYYY-MM-DD)"
+              value={fields.date}
+              onChangeText={date => setFields({ ...fields, date })}
+            />
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder="Transaction reference"
+            autoCapitalize="characters"
+            value={fields.reference}
+            onChangeText={reference => setFields({ ...fields, reference })}
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handlePickFile} disabled={isBusy}>
+              <Icon name="attach-file" size={16} color="#3B82F6" />
+              <Text style={styles.secondaryButtonText}>Photo or PDF</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, !pastedText.trim() && styles.disabledButton]}
+              onPress={handleAttachText}
+              disabled={isBusy || !pastedText.trim()}
+            >
+              {isBusy ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Attach Alert</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#9CA3AF',
+  },
+  receipt: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F9FAFB',
+    marginBottom: 8,
+  },
+  receiptHeader: {
+    flexDirection: 'row',
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    backgroundColor: '#E5E7EB',
+  },
+  fileIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    backgroundColor: '#E5E7EB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  receiptInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  fileName: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  details: {
+    marginTop: 4,
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  warningText: {
+    color: '#B45309',
+    fontWeight: '600',
+  },
+  reviewNotes: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1F2937',
+    backgroundColor: '#FFFFFF',
+    marginTop: 8,
+  },
+  pasteInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 10,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+  },
+  dangerButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#EF4444',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+  },
+  secondaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  linkButton: {
+    alignSelf: 'flex-end',
+    marginTop: 6,
+  },
+  linkButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
+
+export default ReceiptAttachments;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import SyncEngine, { OutboxAction, SyncActionType, SyncStatus } from '../services/sync';
+
+const ACTION_LABELS: Record<SyncActionType, string> = {
+  MAKE_PAYMENT: 'Payment',
+  CREATE_GROUP: 'New group',
+  UPDATE_PROFILE: 'Profile update',
+  JOIN_GROUP: 'Group join request',
+};
+
+// Shows unsent offline actions, and lets the member retry, discard or settle the ones that are stuck
+const SyncStatusBanner: React.FC<{ style?: StyleProp<ViewStyle> }> = ({ style }) => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => SyncEngine.subscribe(setStatus), []);
+
+  if (!status || (status.online && status.pending === 0 && status.needsAttention.length === 0)) {
+    return null;
+  }
+
+  const renderAction = (action: OutboxAction) => {
+    const isConflict = action.status === 'conflict';
+    return (
+      <View key={action.id} style={styles.action}>
+        <View style={styles.actionInfo}>
+          <Text style={styles.actionTitle}>
+            {ACTION_LABELS[action.type]} {isConflict ? 'conflicts with a newer change' : 'could not be sent'}
+          </Text>
+          {action.last_error ? <Text style={styles.actionError}>{action.last_error}</Text> : null}
+        </View>
+        <View style={styles.actionButtons}>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() =>
+              isConflict ? SyncEngine.resolveConflict(action.id, 'overwrite') : SyncEngine.retry(action.id)
+            }
+          >
+            <Text style={styles.primaryButtonText}>{isConflict ? 'Keep mine' : 'Retry'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() =>
+              isConflict ? SyncEngine.resolveConflict(action.id, 'discard') : SyncEngine.discard(action.id)
+            }
+          >
+            <Text style={styles.secondaryButtonText}>{isConflict ? 'Use theirs' : 'Discard'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <Icon name={status.online ? 'sync' : 'cloud-off'} size={18} color="#975a16" />
+        <Text style={styles.headerText}>
+          {!status.online
+            ? `You're offline${status.pending > 0 ? ` • ${status.pending} waiting to sync` : ''}`
+            : status.pending > 0
+              ? `Syncing ${status.pending} offline ${status.pending === 1 ? 'change' : 'changes'}...`
+              : 'Some offline changes need your attention'}
+        </Text>
+      </View>
+      {status.needsAttention.map(renderAction)}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fffaf0',
+    borderWidth: 1,
+    borderColor: '#fbd38d',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#975a16',
+    flex: 1,
+  },
+  action: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#feebc8',
+  },
+  actionInfo: {
+    marginBottom: 8,
+  },
+  actionTitle: {
+    fontSize: 13,
+    color: '#1a202c',
+  },
+  actionError: {
+    fontSize: 12,
+    color: '#c53030',
+    marginTop: 2,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+  },
+  primaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#3182ce',
+    marginRight: 8,
+  },
+  primaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+  },
+  secondaryButtonText: {
+    fontSize: 13,
+    color: '#4a5568',
+  },
+});
+
+export default SyncStatusBanner;
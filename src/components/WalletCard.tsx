@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import WalletService from '../services/business/wallet';
+import { CurrencyCode, WalletWithdrawal } from '../services/database';
+import { formatAmount, localeFor } from '../utils/money';
+
+interface WalletCardProps {
+  groupId: string;
+  userId: string;
+  currency: CurrencyCode;
+  // Admins and treasurers also see the group's withdrawal requests to approve
+  canDecide?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+// A member's wallet balance with the group, with withdrawal requests
+const WalletCard: React.FC<WalletCardProps> = ({ groupId, userId, currency, canDecide = false, style }) => {
+  const [balance, setBalance] = useState(0);
+  const [withdrawals, setWithdrawals] = useState<WalletWithdrawal[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [rejecting, setRejecting] = useState<{ withdrawalId: string; reason: string } | null>(null);
+
+  const loadWallet = useCallback(async () => {
+    const [walletResult, withdrawalsResult] = await Promise.all([
+      WalletService.getWallet(groupId, userId),
+      WalletService.getWithdrawals(groupId, ['requested']),
+    ]);
+    if (walletResult.success && walletResult.data) {
+      setBalance(walletResult.data.balance);
+    }
+    if (withdrawalsResult.success && withdrawalsResult.data) {
+      setWithdrawals(withdrawalsResult.data);
+    }
+  }, [groupId, userId]);
+
+  useEffect(() => {
+    loadWallet();
+  }, [loadWallet]);
+
+  const ownRequest = withdrawals.find(withdrawal => withdrawal.user_id === userId);
+  const queue = canDecide ? withdrawals.filter(withdrawal => withdrawal.user_id !== userId) : [];
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    setIsBusy(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        setRejecting(null);
+        await loadWallet();
+      } else {
+        Alert.alert('Error', result.error || failure);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleWithdraw = () => {
+    Alert.alert(
+      'Withdraw Balance',
+      `Ask the group admin to pay out ${formatAmount(balance, currency)} from your wallet?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Request',
+          onPress: () => run(() => WalletService.requestWithdrawal({ groupId, userId }), 'Failed to request withdrawal'),
+        },
+      ]
+    );
+  };
+
+  const handleApprove = (withdrawal: WalletWithdrawal) => {
+    Alert.alert(
+      'Approve Withdrawal',
+      `Confirm you have paid ${formatAmount(withdrawal.amount, currency)} to this member?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Approve',
+          onPress: () =>
+            run(
+              () => WalletService.approveWithdrawal({ withdrawalId: withdrawal.id, adminId: userId }),
+              'Failed to approve withdrawal'
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleReject = () => {
+    if (!rejecting) return;
+    run(
+      () => WalletService.rejectWithdrawal({ withdrawalId: rejecting.withdrawalId, adminId: userId, reason: rejecting.reason }),
+      'Failed to reject withdrawal'
+    );
+  };
+
+  if (balance === 0 && !ownRequest && queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <Icon name="account-balance-wallet" size={22} color="#3B82F6" />
+        <Text style={styles.title}>Wallet</Text>
+        <Text style={styles.balance}>{formatAmount(balance, currency)}</Text>
+      </View>
+      <Text style={styles.hint}>Pays your next contributions first</Text>
+
+      {ownRequest ? (
+        <Text style={styles.pendingText}>
+          Withdrawal of {formatAmount(ownRequest.amount, currency)} waiting for approval
+        </Text>
+      ) : balance > 0 ? (
+        <TouchableOpacity style={[styles.secondaryButton, styles.withdrawButton]} onPress={handleWithdraw} disabled={isBusy}>
+          <Text style={styles.secondaryButtonText}>Request Withdrawal</Text>
+        </TouchableOpacity>
+      ) : null}
+
+      {queue.map(withdrawal => (
+        <View key={withdrawal.id} style={styles.request}>
+          <Text style={styles.requestText}>
+            {formatAmount(withdrawal.amount, currency)} requested{' '}
+            {new Date(withdrawal.created_at).toLocaleDateString(localeFor(currency))}
+          </Text>
+          {withdrawal.notes ? <Text style={styles.notes}>{withdrawal.notes}</Text> : null}
+          {rejecting?.withdrawalId === withdrawal.id ? (
+            <View>
+              <TextInput
+                style={styles.input}
+                placeholder="Why is this withdrawal not approved?"
+                value={rejecting.reason}
+                onChangeText={reason => setRejecting({ withdrawalId: withdrawal.id, reason })}
+              />
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setRejecting(null)}>
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.dangerButton} onPress={handleReject} disabled={isBusy}>
+                  <Text style={styles.primaryButtonText}>Reject</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setRejecting({ withdrawalId: withdrawal.id, reason: '' })}
+              >
+                <Text style={styles.secondaryButtonText}>Reject</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.primaryButton} onPress={() => handleApprove(withdrawal)} disabled={isBusy}>
+                {isBusy ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Approve</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  balance: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  pendingText: {
+    fontSize: 13,
+    color: '#B45309',
+    marginTop: 12,
+  },
+  request: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F9FAFB',
+    marginTop: 12,
+  },
+  requestText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  notes: {
+    fontSize: 12,
+    color: '#4B5563',
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1F2937',
+    backgroundColor: '#FFFFFF',
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 10,
+  },
+  primaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+  },
+  dangerButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#EF4444',
+  },
+  primaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+  },
+  withdrawButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+});
+
+export default WalletCard;
@@ -2,11 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import GroupManagementService, { GroupPermissions } from '../../services/business/groupManagement';
+import { ROLE_DESCRIPTIONS, getMinimumRoleForPermissions, hasAllPermissions } from '../../utils/permissions';
 
 interface PermissionGateProps {
   userId: string;
   groupId: string;
-  permission: keyof GroupPermissions;
+  permission: keyof GroupPermissions | (keyof GroupPermissions)[]; // all are required
   children: React.ReactNode;
   fallback?: React.ReactNode;
   showError?: boolean;
@@ -33,20 +34,24 @@ const PermissionGate: React.FC<PermissionGateProps> = ({
     hasPermission: false,
   });
 
+  const required = Array.isArray(permission) ? permission : [permission];
+  const requiredKey = required.join(',');
+
   useEffect(() => {
     checkPermission();
-  }, [userId, groupId, permission]);
+  }, [userId, groupId, requiredKey]);
 
   const checkPermission = async () => {
     try {
       setState({ loading: true, hasPermission: false });
 
-      const result = await GroupManagementService.checkPermission(userId, groupId, permission);
+      // Role and per-member overrides are resolved by the service
+      const result = await GroupManagementService.getMemberPermissions(userId, groupId);
       
-      if (result.success) {
+      if (result.success && result.data) {
         setState({
           loading: false,
-          hasPermission: result.data || false,
+          hasPermission: hasAllPermissions(result.data.permissions, required),
         });
       } else {
         setState({
@@ -73,6 +78,8 @@ const PermissionGate: React.FC<PermissionGateProps> = ({
   }
 
   if (!state.hasPermission) {
+    const minimumRole = getMinimumRoleForPermissions(required);
+
     if (showError && state.error) {
       return (
         <View style={styles.errorContainer}>
@@ -91,6 +98,9 @@ const PermissionGate: React.FC<PermissionGateProps> = ({
           <Text style={styles.noPermissionText}>
             You don't have permission to access this feature
           </Text>
+          <Text style={styles.noPermissionHint}>
+            Needs the {ROLE_DESCRIPTIONS[minimumRole].title.toLowerCase()} role or above
+          </Text>
         </View>
       )
     );
@@ -132,6 +142,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
+  noPermissionHint: {
+    marginTop: 4,
+    color: '#BBB',
+    fontSize: 12,
+    textAlign: 'center',
+  },
 });
 
 export default PermissionGate;
\ No newline at end of file
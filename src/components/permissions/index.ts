@@ -6,13 +6,17 @@ export { default as withPermission } from './withPermission';
 export {
   PermissionsProvider,
   usePermissions,
+  useHasPermission,
   useIsAdmin,
   useCanManageMembers,
   useCanEditSettings,
+  useCanMarkPayments,
+  useCanViewFinances,
 } from '../../contexts/PermissionsContext';
 
 // Utilities and constants
 export * from '../../utils/permissions';
 
 // Types from the service
-export type { GroupPermissions } from '../../services/business/groupManagement';
\ No newline at end of file
+export type { GroupPermissions } from '../../services/business/groupManagement';
+export type { GroupRole } from '../../types/database';
\ No newline at end of file
@@ -1,15 +1,18 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { SavingsGroup, Contribution } from '../services/firestore';
-import FirestoreService from '../services/firestore';
+import React, { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react';
+import DatabaseService, { GroupWithMembers, NewGroup } from '../services/database';
+import JobRunner from '../services/jobs/jobRunner';
 import { useAuth } from './AuthContext';
 
+// The signed-in user is always the admin of groups they create
+export type CreateGroupInput = Omit<NewGroup, 'admin_id'>;
+
 interface GroupContextType {
-  groups: SavingsGroup[];
-  currentGroup: SavingsGroup | null;
+  groups: GroupWithMembers[];
+  currentGroup: GroupWithMembers | null;
   loading: boolean;
   refreshGroups: () => Promise<void>;
-  setCurrentGroup: (group: SavingsGroup | null) => void;
-  createGroup: (groupData: Omit<SavingsGroup, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string | null>;
+  setCurrentGroup: (group: GroupWithMembers | null) => void;
+  createGroup: (groupData: CreateGroupInput) => Promise<string | null>;
   joinGroup: (groupId: string, displayName: string) => Promise<boolean>;
   leaveGroup: (groupId: string) => Promise<boolean>;
 }
@@ -39,39 +42,49 @@ interface GroupProviderProps {
 
 export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
   const { user } = useAuth();
-  const [groups, setGroups] = useState<SavingsGroup[]>([]);
-  const [currentGroup, setCurrentGroup] = useState<SavingsGroup | null>(null);
+  const [groups, setGroups] = useState<GroupWithMembers[]>([]);
+  const [currentGroup, setCurrentGroup] = useState<GroupWithMembers | null>(null);
   const [loading, setLoading] = useState(false);
 
-  const refreshGroups = async () => {
+  const refreshGroups = useCallback(async () => {
     if (!user) return;
     
     try {
       setLoading(true);
-      const userGroups = await FirestoreService.getUserGroups(user.uid);
-      setGroups(userGroups);
+      const result = await DatabaseService.getUserGroups(user.uid);
+      if (result.success && result.data) {
+        setGroups(result.data);
+        // This device runs background jobs for the groups the user administers
+        JobRunner.setScope({
+          adminGroupIds: result.data.filter(group => group.admin_id === user.uid).map(group => group.id),
+        });
+      } else {
+        console.error('Error refreshing groups:', result.error);
+      }
     } catch (error) {
       console.error('Error refreshing groups:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [user]);
 
-  const createGroup = async (groupData: Omit<SavingsGroup, 'id' | 'createdAt' | 'updatedAt'>): Promise<string | null> => {
+  const createGroup = async (groupData: CreateGroupInput): Promise<string | null> => {
     if (!user) return null;
     
     try {
       setLoading(true);
-      const groupId = await FirestoreService.createSavingsGroup({
+      const result = await DatabaseService.createGroupWithAdmin({
         ...groupData,
-        adminId: user.uid,
+        admin_id: user.uid,
       });
       
-      if (groupId) {
-        await refreshGroups();
+      if (!result.success || !result.data) {
+        console.error('Error creating group:', result.error);
+        return null;
       }
-      
-      return groupId;
+
+      await refreshGroups();
+      return result.data.group.id;
     } catch (error) {
       console.error('Error creating group:', error);
       return null;
@@ -85,17 +98,19 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
     
     try {
       setLoading(true);
-      const success = await FirestoreService.joinSavingsGroup(
+      const result = await DatabaseService.joinGroup(
         groupId, 
         user.uid, 
         displayName || user.displayName || 'Unknown User'
       );
       
-      if (success) {
+      if (result.success) {
         await refreshGroups();
+      } else {
+        console.error('Error joining group:', result.error);
       }
       
-      return success;
+      return result.success;
     } catch (error) {
       console.error('Error joining group:', error);
       return false;
@@ -109,16 +124,18 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
     
     try {
       setLoading(true);
-      const success = await FirestoreService.leaveSavingsGroup(groupId, user.uid);
+      const result = await DatabaseService.leaveGroup(groupId, user.uid);
       
-      if (success) {
+      if (result.success) {
         await refreshGroups();
         if (currentGroup?.id === groupId) {
           setCurrentGroup(null);
         }
+      } else {
+        console.error('Error leaving group:', result.error);
       }
       
-      return success;
+      return result.success;
     } catch (error) {
       console.error('Error leaving group:', error);
       return false;
@@ -127,14 +144,27 @@ export const GroupProvider: React.FC<GroupProviderProps> = ({ children }) => {
     }
   };
 
+  // Groups created by the first version of the app embed their members; move
+  // the signed-in admin's groups into group_members before loading. The backend
+  // migrates every other group with a one-off job (see MigrationJobs).
+  const migrateLegacyGroups = useCallback(async () => {
+    if (!user) return;
+
+    const result = await DatabaseService.migrateEmbeddedMembers({ adminId: user.uid });
+    if (!result.success) {
+      console.error('Error migrating legacy groups:', result.error);
+    }
+  }, [user]);
+
   useEffect(() => {
     if (user) {
-      refreshGroups();
+      migrateLegacyGroups().then(refreshGroups);
     } else {
       setGroups([]);
       setCurrentGroup(null);
+      JobRunner.setScope({ adminGroupIds: [] });
     }
-  }, [user]);
+  }, [user, migrateLegacyGroups, refreshGroups]);
 
   const value: GroupContextType = {
     groups,
@@ -2,6 +2,8 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import messaging from '@react-native-firebase/messaging';
 import { Platform, Alert } from 'react-native';
 import { useAuth } from './AuthContext';
+import NotificationActions, { OPEN_NOTIFICATION } from '../services/notifications/actions';
+import NotificationService from '../services/notifications';
 
 interface Notification {
   id: string;
@@ -141,6 +143,12 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     setNotifications(prev => [newNotification, ...prev]);
   };
 
+  // Queue the tapped button (or the notification itself) to run once the app is ready
+  const openNotification = (data?: Record<string, any>) => {
+    NotificationActions.enqueue(typeof data?.actionId === 'string' ? data.actionId : OPEN_NOTIFICATION, data);
+    NotificationService.recordPushReceipt(data, 'opened');
+  };
+
   useEffect(() => {
     let unsubscribeOnMessage: (() => void) | undefined;
     let unsubscribeOnNotificationOpenedApp: (() => void) | undefined;
@@ -176,6 +184,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
         // Handle notification opened app
         unsubscribeOnNotificationOpenedApp = messaging().onNotificationOpenedApp(remoteMessage => {
           console.log('Notification caused app to open:', remoteMessage);
+          openNotification(remoteMessage.data);
           
           if (remoteMessage.notification) {
             addNotification(
@@ -192,6 +201,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
           .then(remoteMessage => {
             if (remoteMessage) {
               console.log('App opened by notification:', remoteMessage);
+              openNotification(remoteMessage.data);
               
               if (remoteMessage.notification) {
                 addNotification(
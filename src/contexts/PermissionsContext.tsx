@@ -1,10 +1,11 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import GroupManagementService, { GroupPermissions } from '../services/business/groupManagement';
+import { GroupRole } from '../types/database';
 
 interface GroupPermissionCache {
   [groupId: string]: {
     permissions: GroupPermissions;
-    role: 'admin' | 'member';
+    role: GroupRole;
     lastUpdated: number;
     userId: string;
   };
@@ -18,7 +19,7 @@ interface PermissionsContextType {
   getPermissions: (userId: string, groupId: string) => Promise<GroupPermissions | null>;
   
   // Get user's role in a group
-  getUserRole: (userId: string, groupId: string) => Promise<'admin' | 'member' | null>;
+  getUserRole: (userId: string, groupId: string) => Promise<GroupRole | null>;
   
   // Clear cache for specific group (e.g., when permissions change)
   clearGroupCache: (groupId: string) => void;
@@ -54,82 +55,59 @@ export const PermissionsProvider: React.FC<PermissionsProviderProps> = ({
     return Date.now() - cached.lastUpdated < cacheTimeout;
   }, [cache, cacheTimeout]);
 
-  const getUserRole = useCallback(async (
-    userId: string, 
+  // Fetch the member's role and permissions in one call and cache them
+  const loadMemberPermissions = useCallback(async (
+    userId: string,
     groupId: string
-  ): Promise<'admin' | 'member' | null> => {
-    try {
-      // Check cache first
-      if (isCacheValid(groupId, userId)) {
-        return cache[groupId].role;
-      }
+  ): Promise<{ role: GroupRole; permissions: GroupPermissions } | null> => {
+    if (isCacheValid(groupId, userId)) {
+      return cache[groupId];
+    }
 
-      // Fetch from service
-      const memberResult = await GroupManagementService.checkPermission(userId, groupId, 'canViewFinances');
-      if (!memberResult.success) {
-        return null;
-      }
+    const result = await GroupManagementService.getMemberPermissions(userId, groupId);
+    if (!result.success || !result.data) {
+      return null;
+    }
 
-      // Get detailed permissions to determine role
-      const permissions = await getPermissions(userId, groupId);
-      if (!permissions) return null;
+    const { role, permissions } = result.data;
+    setCache(prev => ({
+      ...prev,
+      [groupId]: {
+        permissions,
+        role,
+        lastUpdated: Date.now(),
+        userId,
+      },
+    }));
+
+    return { role, permissions };
+  }, [cache, isCacheValid]);
 
-      // Admin has all permissions, member has limited permissions
-      const role: 'admin' | 'member' = permissions.canDeleteGroup ? 'admin' : 'member';
-      return role;
+  const getUserRole = useCallback(async (
+    userId: string, 
+    groupId: string
+  ): Promise<GroupRole | null> => {
+    try {
+      const memberPermissions = await loadMemberPermissions(userId, groupId);
+      return memberPermissions ? memberPermissions.role : null;
     } catch (error) {
       console.error('Error getting user role:', error);
       return null;
     }
-  }, [cache, isCacheValid]);
+  }, [loadMemberPermissions]);
 
   const getPermissions = useCallback(async (
     userId: string, 
     groupId: string
   ): Promise<GroupPermissions | null> => {
     try {
-      // Check cache first
-      if (isCacheValid(groupId, userId)) {
-        return cache[groupId].permissions;
-      }
-
-      // This is a simplified approach - in a real app, you'd fetch this in one call
-      // For now, we'll determine permissions based on role
-      const roleResult = await GroupManagementService.checkPermission(userId, groupId, 'canDeleteGroup');
-      
-      if (!roleResult.success) {
-        return null;
-      }
-
-      const isAdmin = roleResult.data;
-      const permissions: GroupPermissions = {
-        canAddMembers: isAdmin,
-        canRemoveMembers: isAdmin,
-        canEditSettings: isAdmin,
-        canMarkPayments: isAdmin,
-        canDeleteGroup: isAdmin,
-        canTransferAdmin: isAdmin,
-        canViewFinances: true, // Both admin and member can view
-        canManageCycles: isAdmin,
-      };
-
-      // Cache the result
-      setCache(prev => ({
-        ...prev,
-        [groupId]: {
-          permissions,
-          role: isAdmin ? 'admin' : 'member',
-          lastUpdated: Date.now(),
-          userId,
-        },
-      }));
-
-      return permissions;
+      const memberPermissions = await loadMemberPermissions(userId, groupId);
+      return memberPermissions ? memberPermissions.permissions : null;
     } catch (error) {
       console.error('Error getting permissions:', error);
       return null;
     }
-  }, [cache, isCacheValid]);
+  }, [loadMemberPermissions]);
 
   const hasPermission = useCallback(async (
     userId: string, 
@@ -137,19 +115,13 @@ export const PermissionsProvider: React.FC<PermissionsProviderProps> = ({
     permission: keyof GroupPermissions
   ): Promise<boolean> => {
     try {
-      // Check cache first
-      if (isCacheValid(groupId, userId)) {
-        return cache[groupId].permissions[permission];
-      }
-
-      // Fetch from service
-      const result = await GroupManagementService.checkPermission(userId, groupId, permission);
-      return result.success && result.data === true;
+      const permissions = await getPermissions(userId, groupId);
+      return permissions ? permissions[permission] : false;
     } catch (error) {
       console.error('Error checking permission:', error);
       return false;
     }
-  }, [cache, isCacheValid]);
+  }, [getPermissions]);
 
   const clearGroupCache = useCallback((groupId: string) => {
     setCache(prev => {
@@ -208,65 +180,49 @@ export const usePermissions = (): PermissionsContextType => {
 };
 
 // Utility hooks for common permission checks
-export const useIsAdmin = (userId: string, groupId: string) => {
+export const useHasPermission = (userId: string, groupId: string, permission: keyof GroupPermissions) => {
   const { hasPermission } = usePermissions();
-  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [allowed, setAllowed] = useState<boolean | null>(null);
   const [loading, setLoading] = useState(true);
 
   React.useEffect(() => {
-    const checkAdmin = async () => {
+    const checkPermission = async () => {
       setLoading(true);
-      const adminStatus = await hasPermission(userId, groupId, 'canDeleteGroup');
-      setIsAdmin(adminStatus);
+      const result = await hasPermission(userId, groupId, permission);
+      setAllowed(result);
       setLoading(false);
     };
 
     if (userId && groupId) {
-      checkAdmin();
+      checkPermission();
     }
-  }, [userId, groupId, hasPermission]);
+  }, [userId, groupId, permission, hasPermission]);
 
-  return { isAdmin, loading };
+  return { allowed, loading };
 };
 
-export const useCanManageMembers = (userId: string, groupId: string) => {
-  const { hasPermission } = usePermissions();
-  const [canManage, setCanManage] = useState<boolean | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  React.useEffect(() => {
-    const checkPermission = async () => {
-      setLoading(true);
-      const result = await hasPermission(userId, groupId, 'canAddMembers');
-      setCanManage(result);
-      setLoading(false);
-    };
-
-    if (userId && groupId) {
-      checkPermission();
-    }
-  }, [userId, groupId, hasPermission]);
+// Only the group admin can delete the group, so this is false for co-admins
+export const useIsAdmin = (userId: string, groupId: string) => {
+  const { allowed, loading } = useHasPermission(userId, groupId, 'canDeleteGroup');
+  return { isAdmin: allowed, loading };
+};
 
-  return { canManage, loading };
+export const useCanManageMembers = (userId: string, groupId: string) => {
+  const { allowed, loading } = useHasPermission(userId, groupId, 'canAddMembers');
+  return { canManage: allowed, loading };
 };
 
 export const useCanEditSettings = (userId: string, groupId: string) => {
-  const { hasPermission } = usePermissions();
-  const [canEdit, setCanEdit] = useState<boolean | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  React.useEffect(() => {
-    const checkPermission = async () => {
-      setLoading(true);
-      const result = await hasPermission(userId, groupId, 'canEditSettings');
-      setCanEdit(result);
-      setLoading(false);
-    };
+  const { allowed, loading } = useHasPermission(userId, groupId, 'canEditSettings');
+  return { canEdit: allowed, loading };
+};
 
-    if (userId && groupId) {
-      checkPermission();
-    }
-  }, [userId, groupId, hasPermission]);
+export const useCanMarkPayments = (userId: string, groupId: string) => {
+  const { allowed, loading } = useHasPermission(userId, groupId, 'canMarkPayments');
+  return { canMarkPayments: allowed, loading };
+};
 
-  return { canEdit, loading };
-};
\ No newline at end of file
+export const useCanViewFinances = (userId: string, groupId: string) => {
+  const { allowed, loading } = useHasPermission(userId, groupId, 'canViewFinances');
+  return { canViewFinances: allowed, loading };
+};
@@ -19,6 +19,8 @@ import EditProfileScreen from '../screens/main/EditProfileScreen';
 import NotificationsScreen from '../screens/main/NotificationsScreen';
 import HelpScreen from '../screens/main/HelpScreen';
 import SettingsScreen from '../screens/main/SettingsScreen';
+import AuditLogScreen from '../screens/main/AuditLogScreen';
+import PenaltyDisputeScreen from '../screens/main/PenaltyDisputeScreen';
 
 const Stack = createStackNavigator<MainStackParamList>();
 
@@ -118,6 +120,24 @@ const MainStack: React.FC = () => {
         }}
       />
       
+      <Stack.Screen 
+        name="AuditLog" 
+        component={AuditLogScreen}
+        options={{
+          title: 'Audit Log',
+          headerTitle: 'Group Audit Log',
+        }}
+      />
+      
+      <Stack.Screen 
+        name="PenaltyDispute" 
+        component={PenaltyDisputeScreen}
+        options={{
+          title: 'Dispute Penalty',
+          headerTitle: 'Penalty Dispute',
+        }}
+      />
+      
       <Stack.Screen 
         name="MemberProfile" 
         component={MemberProfileScreen}
@@ -6,6 +6,7 @@
 import { StackScreenProps } from '@react-navigation/stack';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { CompositeScreenProps } from '@react-navigation/native';
+import { CurrencyCode } from '../types/database';
 
 // Root Stack Parameter List
 export type RootStackParamList = {
@@ -66,9 +67,17 @@ export type MainStackParamList = {
   GroupInvite: {
     groupId: string;
   };
+  AuditLog: {
+    groupId: string;
+  };
+  PenaltyDispute: {
+    contributionId: string;
+    groupId?: string;
+  };
   PaymentConfirmation: {
     paymentId: string;
     amount: number;
+    currency: CurrencyCode;
     recipient: string;
   };
   EditProfile: undefined;
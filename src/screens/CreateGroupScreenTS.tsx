@@ -11,13 +11,14 @@ import {
 } from 'react-native';
 import { MainStackScreenProps } from '../navigation/types';
 import { useAuth } from '../contexts/AuthContext';
-import { useGroup } from '../contexts/GroupContext';
-import { SavingsGroup, GroupMember } from '../services/firestore';
+import { CreateGroupInput, useGroup } from '../contexts/GroupContext';
+import { CurrencyCode, DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, checkAmountLimits, formatMoney, money, multiplyMoney } from '../utils/money';
 
 interface CreateGroupForm {
   name: string;
   description: string;
   contributionAmount: string;
+  currency: CurrencyCode;
   maxMembers: string;
   contributionFrequency: 'daily' | 'weekly' | 'monthly';
   payoutSchedule: 'weekly' | 'monthly';
@@ -32,6 +33,7 @@ const CreateGroupScreenTS: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ na
     name: '',
     description: '',
     contributionAmount: '',
+    currency: DEFAULT_CURRENCY,
     maxMembers: '',
     contributionFrequency: 'monthly',
     payoutSchedule: 'monthly',
@@ -64,6 +66,11 @@ const CreateGroupScreenTS: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ na
       newErrors.contributionAmount = 'Contribution amount is required';
     } else if (isNaN(Number(form.contributionAmount)) || Number(form.contributionAmount) <= 0) {
       newErrors.contributionAmount = 'Please enter a valid amount';
+    } else {
+      const amountError = checkAmountLimits(Number(form.contributionAmount), form.currency, 'contribution');
+      if (amountError) {
+        newErrors.contributionAmount = amountError;
+      }
     }
 
     if (!form.maxMembers.trim()) {
@@ -92,30 +99,18 @@ const CreateGroupScreenTS: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ na
     try {
       setLoading(true);
 
-      // Create admin member
-      const adminMember: GroupMember = {
-        userId: user.uid,
-        displayName: user.displayName || user.email || 'Admin',
-        joinedAt: new Date(),
-        role: 'admin',
-        isActive: true,
-        totalContributions: 0,
-        missedPayments: 0,
-      };
-
-      // Create group data
-      const newGroup: Omit<SavingsGroup, 'id' | 'createdAt' | 'updatedAt'> = {
+      // Create group data; the signed-in user becomes its admin and first member
+      const newGroup: CreateGroupInput = {
         name: form.name,
         description: form.description,
-        adminId: user.uid,
-        members: [adminMember],
-        contributionAmount: Number(form.contributionAmount),
-        contributionFrequency: form.contributionFrequency,
-        payoutSchedule: form.payoutSchedule,
+        contribution_amount: Number(form.contributionAmount),
+        currency: form.currency,
+        contribution_frequency: form.contributionFrequency,
+        payout_schedule: form.payoutSchedule,
         status: 'active',
-        startDate: new Date(),
-        currentCycle: 1,
-        totalCycles: Number(form.maxMembers),
+        start_date: new Date(),
+        max_members: Number(form.maxMembers),
+        total_cycles: Number(form.maxMembers),
       };
 
       const groupId = await createGroup(newGroup);
@@ -177,9 +172,36 @@ const CreateGroupScreenTS: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ na
           />
         </View>
 
+        {/* Currency */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Currency</Text>
+          <View style={styles.currencyContainer}>
+            {SUPPORTED_CURRENCIES.map((currency) => (
+              <TouchableOpacity
+                key={currency}
+                style={[
+                  styles.frequencyOption,
+                  styles.currencyOption,
+                  form.currency === currency && styles.frequencyOptionSelected,
+                ]}
+                onPress={() => updateForm('currency', currency)}
+              >
+                <Text
+                  style={[
+                    styles.frequencyText,
+                    form.currency === currency && styles.frequencyTextSelected,
+                  ]}
+                >
+                  {currency}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
         {/* Contribution Amount */}
         <View style={styles.inputContainer}>
-          <Text style={styles.label}>Contribution Amount (₦) *</Text>
+          <Text style={styles.label}>Contribution Amount ({form.currency}) *</Text>
           <TextInput
             style={[styles.input, errors.contributionAmount && styles.inputError]}
             placeholder="5000"
@@ -256,9 +278,11 @@ const CreateGroupScreenTS: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ na
           <View style={styles.summaryItem}>
             <Text style={styles.summaryLabel}>Total Payout Pool:</Text>
             <Text style={styles.summaryValue}>
-              ₦{form.contributionAmount && form.maxMembers 
-                ? (Number(form.contributionAmount) * Number(form.maxMembers)).toLocaleString()
-                : '0'}
+              {formatMoney(
+                form.contributionAmount && form.maxMembers
+                  ? multiplyMoney(money(Number(form.contributionAmount) || 0, form.currency), Number(form.maxMembers) || 0)
+                  : money(0, form.currency)
+              )}
             </Text>
           </View>
           <View style={styles.summaryItem}>
@@ -360,6 +384,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: '#ffffff',
   },
+  currencyContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  currencyOption: {
+    flex: 0,
+    minWidth: 72,
+  },
   frequencyOptionSelected: {
     borderColor: '#3182ce',
     backgroundColor: '#3182ce',
@@ -11,16 +11,16 @@ import {
 import { MainTabScreenProps } from '../navigation/types';
 import { useAuth } from '../contexts/AuthContext';
 import { useGroup } from '../contexts/GroupContext';
-import { SavingsGroup, Contribution } from '../services/firestore';
-import FirestoreService from '../services/firestore';
+import DatabaseService, { Contribution, GroupWithMembers } from '../services/database';
 import { usePaymentStatus, useGroupCompletion } from '../hooks/useBusinessLogic';
-import { formatNigerianDate, getRelativeTime } from '../utils/dateUtils';
+import { formatDisplayDate, getRelativeTime } from '../utils/dateUtils';
+import { Money, currencyOf, formatAmount, formatTotals, localeFor, money, multiplyMoney, totalsByCurrency } from '../utils/money';
 
 
 interface DashboardStats {
   totalGroups: number;
-  totalContributions: number;
-  nextPayoutAmount: number;
+  totalContributions: Money[]; // one total per currency
+  nextPayoutAmount: Money | null;
   nextPayoutDate: string;
   reliabilityScore: number;
 }
@@ -33,8 +33,8 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
   
   const [stats, setStats] = useState<DashboardStats>({
     totalGroups: 0,
-    totalContributions: 0,
-    nextPayoutAmount: 0,
+    totalContributions: [],
+    nextPayoutAmount: null,
     nextPayoutDate: '',
     reliabilityScore: 0,
   });
@@ -51,7 +51,8 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
       await refreshGroups();
       
       // Load user contributions
-      const userContributions = await FirestoreService.getUserContributions(user.uid);
+      const contributionsResult = await DatabaseService.contributions.getUserContributions(user.uid);
+      const userContributions = contributionsResult.data?.items || [];
       setContributions(userContributions);
       
       // Calculate stats with business logic
@@ -63,10 +64,13 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
   };
 
   // Calculate dashboard statistics with business logic
-  const calculateStats = async (userGroups: SavingsGroup[], userContributions: Contribution[]): Promise<void> => {
-    const totalContributions = userContributions
-      .filter(c => c.status === 'paid')
-      .reduce((sum, c) => sum + c.amount, 0);
+  const calculateStats = async (userGroups: GroupWithMembers[], userContributions: Contribution[]): Promise<void> => {
+    const groupById = new Map(userGroups.map(group => [group.id, group]));
+    const totalContributions = totalsByCurrency(
+      userContributions
+        .filter(c => c.status === 'paid')
+        .map(c => money(c.amount, currencyOf(groupById.get(c.group_id))))
+    );
     
     const paidCount = userContributions.filter(c => c.status === 'paid').length;
     const totalCount = userContributions.length;
@@ -74,7 +78,7 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
     
     // Get detailed group statuses using business logic
     const groupStatusData: {[key: string]: any} = {};
-    let nextPayoutAmount = 0;
+    let nextPayoutAmount: Money | null = null;
     let nextPayoutDate = 'Not scheduled';
     
     for (const group of userGroups) {
@@ -89,10 +93,10 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
         };
         
         // Find user's next expected payout
-        const userMember = group.members.find(m => m.userId === user?.uid);
+        const userMember = group.members.find(m => m.user_id === user?.uid);
         if (userMember && !nextPayoutAmount) {
-          nextPayoutAmount = group.contributionAmount * group.members.length;
-          nextPayoutDate = formatNigerianDate(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)); // Rough estimate
+          nextPayoutAmount = multiplyMoney(money(group.contribution_amount, currencyOf(group)), group.members.length);
+          nextPayoutDate = formatDisplayDate(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), localeFor(currencyOf(group))); // Rough estimate
         }
       }
     }
@@ -115,7 +119,7 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
   };
 
   // Navigate to group details
-  const navigateToGroup = (group: SavingsGroup): void => {
+  const navigateToGroup = (group: GroupWithMembers): void => {
     navigation.navigate('GroupDetails', { 
       groupId: group.id, 
       groupName: group.name 
@@ -164,7 +168,7 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
           <Text style={styles.statLabel}>Active Groups</Text>
         </View>
         <View style={styles.statCard}>
-          <Text style={styles.statValue}>₦{stats.totalContributions.toLocaleString()}</Text>
+          <Text style={styles.statValue}>{formatTotals(stats.totalContributions)}</Text>
           <Text style={styles.statLabel}>Total Contributed</Text>
         </View>
         <View style={styles.statCard}>
@@ -176,7 +180,7 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
       {/* Next Payout Info */}
       <View style={styles.payoutCard}>
         <Text style={styles.payoutTitle}>Next Payout</Text>
-        <Text style={styles.payoutAmount}>₦{stats.nextPayoutAmount.toLocaleString()}</Text>
+        <Text style={styles.payoutAmount}>{formatTotals(stats.nextPayoutAmount ? [stats.nextPayoutAmount] : [])}</Text>
         <Text style={styles.payoutDate}>{stats.nextPayoutDate}</Text>
       </View>
 
@@ -207,9 +211,9 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
               <View style={styles.groupInfo}>
                 <Text style={styles.groupName}>{group.name}</Text>
                 <Text style={styles.groupDetails}>
-                  {group.members.length} members • Cycle {group.currentCycle}/{group.totalCycles}
+                  {group.members.length} members • Cycle {group.current_cycle}/{group.total_cycles}
                 </Text>
-                <Text style={styles.groupAmount}>₦{group.contributionAmount.toLocaleString()}/{group.contributionFrequency}</Text>
+                <Text style={styles.groupAmount}>{formatAmount(group.contribution_amount, currencyOf(group))}/{group.contribution_frequency}</Text>
                 {groupStatus && (
                   <Text style={styles.paymentProgress}>
                     {paymentCompletion}% paid this cycle
@@ -248,9 +252,7 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
       <View style={styles.activitySection}>
         <Text style={styles.sectionTitle}>Recent Activity</Text>
         {contributions.slice(0, 3).map((contribution) => {
-          const contributionDate = contribution.paidDate 
-            ? new Date(contribution.paidDate.seconds * 1000)
-            : new Date(contribution.dueDate.seconds * 1000);
+          const contributionDate = new Date(contribution.paid_date || contribution.due_date);
             
           return (
             <View key={contribution.id} style={styles.activityItem}>
@@ -260,7 +262,7 @@ const DashboardScreenTS: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
                  'Payment overdue'}
               </Text>
               <Text style={styles.activityAmount}>
-                ₦{contribution.amount.toLocaleString()}
+                {formatAmount(contribution.amount, currencyOf(groups.find(group => group.id === contribution.group_id)))}
               </Text>
               <Text style={styles.activityDate}>
                 {getRelativeTime(contributionDate)}
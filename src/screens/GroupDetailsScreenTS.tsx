@@ -13,10 +13,10 @@ import {
 import { MainStackScreenProps } from '../navigation/types';
 import { useAuth } from '../contexts/AuthContext';
 import { useGroup } from '../contexts/GroupContext';
-import { SavingsGroup, GroupMember, Contribution } from '../services/firestore';
-import FirestoreService from '../services/firestore';
+import DatabaseService, { Contribution, GroupMember, GroupWithMembers } from '../services/database';
 import { useGroupManagement } from '../hooks/useBusinessLogic';
-import { formatNigerianDate, getRelativeTime, getDaysOverdue } from '../utils/dateUtils';
+import { formatDisplayDate, getRelativeTime, getDaysOverdue } from '../utils/dateUtils';
+import { currencyOf, formatAmount, formatMoney, localeFor, money, multiplyMoney } from '../utils/money';
 
 
 const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({ navigation, route }) => {
@@ -25,7 +25,7 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
   const { groups } = useGroup();
   const groupManagement = useGroupManagement(groupId);
   
-  const [group, setGroup] = useState<SavingsGroup | null>(null);
+  const [group, setGroup] = useState<GroupWithMembers | null>(null);
   const [contributions, setContributions] = useState<Contribution[]>([]);
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
@@ -35,19 +35,27 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
   const [invitePhone, setInvitePhone] = useState<string>('');
   const [isAdmin, setIsAdmin] = useState<boolean>(false);
 
+  const currency = currencyOf(group);
+  const formatCurrency = (amount: number): string => formatAmount(amount, currency);
+  const formatDate = (date: Date): string => formatDisplayDate(date, localeFor(currency));
+
   const loadGroupDetails = async (): Promise<void> => {
     try {
       setLoading(true);
       
       // Get group details
-      const groupDetails = await FirestoreService.getSavingsGroup(groupId);
+      const groupResult = await DatabaseService.getGroupWithMembers(groupId);
+      const groupDetails = groupResult.data;
       if (groupDetails) {
         setGroup(groupDetails);
-        setIsAdmin(groupDetails.adminId === user?.uid);
+        setIsAdmin(groupDetails.admin_id === user?.uid);
         
         // Get group contributions for current cycle
-        const groupContributions = await FirestoreService.getGroupContributions(groupId, groupDetails.currentCycle);
-        setContributions(groupContributions);
+        const contributionsResult = await DatabaseService.contributions.getCycleContributions(
+          groupId,
+          groupDetails.current_cycle,
+        );
+        setContributions(contributionsResult.data || []);
         
         // Load business logic data
         await groupManagement.refreshAll();
@@ -75,7 +83,7 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
     navigation.navigate('Payment', { 
       groupId, 
       contributionId: undefined,
-      amount: group.contributionAmount,
+      amount: group.contribution_amount,
       dueDate: new Date().toISOString(),
       recipient: undefined
     });
@@ -152,7 +160,7 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
             if (result.success) {
               Alert.alert(
                 'Cycle Processed!',
-                `Cycle ${result.newCycle} started. Payout of ₦${result.payoutAmount.toLocaleString()} created.`
+                `Cycle ${result.newCycle} started. Payout of ${formatCurrency(result.payoutAmount)} created.`
               );
               await loadGroupDetails();
             } else {
@@ -209,7 +217,7 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
           <Text style={styles.statDivider}>•</Text>
           <Text style={styles.statText}>Cycle {group.current_cycle}</Text>
           <Text style={styles.statDivider}>•</Text>
-          <Text style={styles.statText}>₦{group.contribution_amount.toLocaleString()}</Text>
+          <Text style={styles.statText}>{formatCurrency(group.contribution_amount)}</Text>
         </View>
       </View>
 
@@ -221,7 +229,7 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
             {calculateProgress()}% Complete
           </Text>
           <Text style={styles.progressAmount}>
-            ₦{(group.contribution_amount * group.total_members).toLocaleString()} Total
+            {formatMoney(multiplyMoney(money(group.contribution_amount, currency), group.total_members))} Total
           </Text>
         </View>
         <View style={styles.progressBarContainer}>
@@ -230,11 +238,13 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
       </View>
 
       {/* Next Payout */}
-      {group.next_recipient && (
+      {getNextRecipient() && (
         <View style={styles.payoutCard}>
           <Text style={styles.payoutTitle}>Next Payout Recipient</Text>
-          <Text style={styles.recipientName}>{group.next_recipient.name}</Text>
-          <Text style={styles.payoutDate}>Expected: {group.next_payout_date}</Text>
+          <Text style={styles.recipientName}>{getNextRecipient()?.display_name}</Text>
+          <Text style={styles.payoutDate}>
+            Expected: {formatDate(new Date(group.cycle_end_date))}
+          </Text>
         </View>
       )}
 
@@ -245,13 +255,13 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
           <View style={styles.businessLogicRow}>
             <Text style={styles.businessLogicLabel}>Current Recipient:</Text>
             <Text style={styles.businessLogicValue}>
-              {getCurrentRecipient()?.displayName || 'None'}
+              {getCurrentRecipient()?.display_name || 'None'}
             </Text>
           </View>
           <View style={styles.businessLogicRow}>
             <Text style={styles.businessLogicLabel}>Next Recipient:</Text>
             <Text style={styles.businessLogicValue}>
-              {getNextRecipient()?.displayName || 'TBD'}
+              {getNextRecipient()?.display_name || 'TBD'}
             </Text>
           </View>
           <View style={styles.businessLogicRow}>
@@ -302,14 +312,14 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
           <View key={member.user_id} style={styles.memberCard}>
             <View style={styles.memberInfo}>
               <View style={styles.memberHeader}>
-                <Text style={styles.memberName}>{member.name}</Text>
+                <Text style={styles.memberName}>{member.display_name}</Text>
                 <Text style={styles.memberPosition}>#{member.join_order}</Text>
               </View>
               <Text style={styles.memberStats}>
-                ₦{member.total_contributions.toLocaleString()} contributed
+                {formatMoney(multiplyMoney(money(group.contribution_amount, currency), member.total_contributions_made))} contributed
               </Text>
-              <Text style={[styles.memberReliability, { color: getMemberStatusColor(member.missed_payments) }]}>
-                {member.missed_payments === 0 ? 'Perfect Record' : `${member.missed_payments} missed payments`}
+              <Text style={[styles.memberReliability, { color: getMemberStatusColor(member.missed_contributions) }]}>
+                {member.missed_contributions === 0 ? 'Perfect Record' : `${member.missed_contributions} missed payments`}
               </Text>
             </View>
             <View style={styles.memberStatus}>
@@ -327,18 +337,18 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
       {/* Payment Status */}
       <View style={styles.paymentsSection}>
         <Text style={styles.sectionTitle}>This Cycle's Payments</Text>
-        {group.contributions
+        {contributions
           .filter(c => c.cycle_number === group.current_cycle)
           .map((contribution) => {
             const member = group.members.find(m => m.user_id === contribution.user_id);
             return (
               <View key={contribution.id} style={styles.paymentCard}>
                 <View style={styles.paymentInfo}>
-                  <Text style={styles.paymentMember}>{member?.name || 'Unknown'}</Text>
-                  <Text style={styles.paymentAmount}>₦{contribution.amount.toLocaleString()}</Text>
+                  <Text style={styles.paymentMember}>{member?.display_name || 'Unknown'}</Text>
+                  <Text style={styles.paymentAmount}>{formatCurrency(contribution.amount)}</Text>
                   <Text style={styles.paymentDate}>
-                    Due: {contribution.due_date}
-                    {contribution.paid_date && ` • Paid: ${contribution.paid_date}`}
+                    Due: {formatDate(new Date(contribution.due_date))}
+                    {contribution.paid_date && ` • Paid: ${formatDate(new Date(contribution.paid_date))}`}
                   </Text>
                 </View>
                 <View style={getStatusBadgeStyle(contribution.status)}>
@@ -368,15 +378,15 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
                   <View style={styles.memberListInfo}>
                     <View style={styles.memberListHeader}>
                       <Text style={styles.memberListName}>
-                        {member.name}
-                        {member.user_id === '1' && ' (You)'}
+                        {member.display_name}
+                        {member.user_id === user?.uid && ' (You)'}
                       </Text>
                       <View style={styles.memberListPosition}>
                         <Text style={styles.positionNumber}>#{member.join_order}</Text>
                       </View>
                     </View>
                     <Text style={styles.memberListContribution}>
-                      ₦{member.total_contributions.toLocaleString()} contributed
+                      {formatMoney(multiplyMoney(money(group.contribution_amount, currency), member.total_contributions_made))} contributed
                     </Text>
                     <View style={styles.memberListStatus}>
                       <View
@@ -387,9 +397,9 @@ const GroupDetailsScreenTS: React.FC<MainStackScreenProps<'GroupDetails'>> = ({
                       />
                       <Text style={[
                         styles.memberListReliability,
-                        { color: getMemberStatusColor(member.missed_payments) }
+                        { color: getMemberStatusColor(member.missed_contributions) }
                       ]}>
-                        {member.missed_payments === 0 ? 'Perfect Record' : `${member.missed_payments} missed`}
+                        {member.missed_contributions === 0 ? 'Perfect Record' : `${member.missed_contributions} missed`}
                       </Text>
                     </View>
                   </View>
@@ -13,8 +13,8 @@ import {
 import { MainStackScreenProps } from '../navigation/types';
 import { useAuth } from '../contexts/AuthContext';
 import { useGroup } from '../contexts/GroupContext';
-import { SavingsGroup, Contribution } from '../services/firestore';
-import FirestoreService from '../services/firestore';
+import DatabaseService, { GroupWithMembers } from '../services/database';
+import { currencyOf, formatAmount } from '../utils/money';
 
 interface PaymentDetails {
   groupId: string;
@@ -49,7 +49,7 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
   
   const { user } = useAuth();
   const { groups } = useGroup();
-  const [group, setGroup] = useState<SavingsGroup | null>(null);
+  const [group, setGroup] = useState<GroupWithMembers | null>(null);
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails>({
     groupId,
     amount,
@@ -65,17 +65,18 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
   const loadPaymentDetails = async (): Promise<void> => {
     try {
       // Find group from context first, then fetch if not found
-      let groupData = groups.find(g => g.id === groupId);
+      let groupData = groups.find(g => g.id === groupId) || null;
       
       if (!groupData) {
-        groupData = await FirestoreService.getSavingsGroup(groupId);
+        const groupResult = await DatabaseService.getGroupWithMembers(groupId);
+        groupData = groupResult.data || null;
       }
       
       if (groupData) {
         setGroup(groupData);
         setPaymentDetails(prev => ({
           ...prev,
-          cycleNumber: groupData.currentCycle,
+          cycleNumber: groupData.current_cycle,
         }));
       } else {
         Alert.alert('Error', 'Group not found');
@@ -122,25 +123,25 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
       // Simulate payment processing delay
       await new Promise(resolve => setTimeout(resolve, 2000));
       
-      const newContribution: Omit<Contribution, 'id' | 'createdAt'> = {
-        groupId: paymentDetails.groupId,
-        userId: user.uid,
+      const result = await DatabaseService.contributions.createContribution({
+        group_id: paymentDetails.groupId,
+        user_id: user.uid,
         amount: paymentDetails.amount,
-        dueDate: new Date(paymentDetails.dueDate),
-        paidDate: new Date(),
+        due_date: new Date(paymentDetails.dueDate),
+        paid_date: new Date(),
         status: 'paid',
-        paymentMethod: selectedMethod?.name,
-        transactionId: `TXN${Date.now()}`,
-        cycle: paymentDetails.cycleNumber,
-      };
-
-      const contributionId = await FirestoreService.createContribution(newContribution);
+        payment_method: selectedMethod?.type,
+        transaction_reference: `TXN${Date.now()}`,
+        cycle_number: paymentDetails.cycleNumber,
+      });
+      const contributionId = result.data?.id;
       
       if (contributionId) {
         // Navigate to confirmation screen
         navigation.navigate('PaymentConfirmation', {
           paymentId: contributionId,
           amount: paymentDetails.amount,
+          currency: currencyOf(group),
           recipient: group?.name || 'Group',
         });
       } else {
@@ -166,18 +167,17 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
     try {
       setLoading(true);
       
-      const newContribution: Omit<Contribution, 'id' | 'createdAt'> = {
-        groupId: paymentDetails.groupId,
-        userId: user.uid,
+      const result = await DatabaseService.contributions.createContribution({
+        group_id: paymentDetails.groupId,
+        user_id: user.uid,
         amount: paymentDetails.amount,
-        dueDate: new Date(paymentDetails.dueDate),
+        due_date: new Date(paymentDetails.dueDate),
         status: 'pending',
-        paymentMethod: 'Cash',
-        transactionId: transactionRef,
-        cycle: paymentDetails.cycleNumber,
-      };
-
-      const contributionId = await FirestoreService.createContribution(newContribution);
+        payment_method: 'cash',
+        transaction_reference: transactionRef,
+        cycle_number: paymentDetails.cycleNumber,
+      });
+      const contributionId = result.data?.id;
       
       if (contributionId) {
         setShowProofModal(false);
@@ -213,6 +213,8 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
     return paymentDetails.amount + calculateLateFee();
   };
 
+  const formatCurrency = (value: number): string => formatAmount(value, currencyOf(group));
+
   useEffect(() => {
     loadPaymentDetails();
   }, [groupId]);
@@ -230,7 +232,7 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
         <Text style={styles.summaryTitle}>Payment Summary</Text>
         <View style={styles.summaryRow}>
           <Text style={styles.summaryLabel}>Contribution Amount:</Text>
-          <Text style={styles.summaryValue}>₦{paymentDetails.amount.toLocaleString()}</Text>
+          <Text style={styles.summaryValue}>{formatCurrency(paymentDetails.amount)}</Text>
         </View>
         <View style={styles.summaryRow}>
           <Text style={styles.summaryLabel}>Cycle Number:</Text>
@@ -244,13 +246,13 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
           <View style={styles.summaryRow}>
             <Text style={[styles.summaryLabel, styles.lateLabel]}>Late Fee:</Text>
             <Text style={[styles.summaryValue, styles.lateValue]}>
-              ₦{calculateLateFee().toLocaleString()}
+              {formatCurrency(calculateLateFee())}
             </Text>
           </View>
         )}
         <View style={[styles.summaryRow, styles.totalRow]}>
           <Text style={styles.totalLabel}>Total Amount:</Text>
-          <Text style={styles.totalValue}>₦{getTotalAmount().toLocaleString()}</Text>
+          <Text style={styles.totalValue}>{formatCurrency(getTotalAmount())}</Text>
         </View>
       </View>
 
@@ -260,7 +262,7 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
           <View style={styles.warningContent}>
             <Text style={styles.warningTitle}>Late Payment</Text>
             <Text style={styles.warningText}>
-              Your payment is overdue. A late fee of ₦{calculateLateFee().toLocaleString()} has been added.
+              Your payment is overdue. A late fee of {formatCurrency(calculateLateFee())} has been added.
             </Text>
           </View>
         </View>
@@ -299,7 +301,7 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
           {selectedMethod.type === 'bank_transfer' && (
             <View>
               <Text style={styles.instructionText}>
-                • Transfer ₦{getTotalAmount().toLocaleString()} to the group's bank account
+                • Transfer {formatCurrency(getTotalAmount())} to the group's bank account
               </Text>
               <Text style={styles.instructionText}>
                 • Use your name and "{group?.name || 'Group'} - Cycle {paymentDetails.cycleNumber}" as reference
@@ -328,7 +330,7 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
                 • Dial your mobile money USSD code
               </Text>
               <Text style={styles.instructionText}>
-                • Send ₦{getTotalAmount().toLocaleString()} to the group's registered number
+                • Send {formatCurrency(getTotalAmount())} to the group's registered number
               </Text>
               <Text style={styles.instructionText}>
                 • Keep the transaction SMS for verification
@@ -338,7 +340,7 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
           {selectedMethod.type === 'cash' && (
             <View>
               <Text style={styles.instructionText}>
-                • Pay ₦{getTotalAmount().toLocaleString()} in cash to the group admin
+                • Pay {formatCurrency(getTotalAmount())} in cash to the group admin
               </Text>
               <Text style={styles.instructionText}>
                 • Get a written receipt from the admin
@@ -358,7 +360,7 @@ const PaymentScreenTS: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation
         disabled={!selectedMethod || loading}
       >
         <Text style={styles.payButtonText}>
-          {loading ? 'Processing...' : `Pay ₦${getTotalAmount().toLocaleString()}`}
+          {loading ? 'Processing...' : `Pay ${formatCurrency(getTotalAmount())}`}
         </Text>
       </TouchableOpacity>
 
@@ -15,6 +15,10 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../context/AppContext';
 import GroupManagementService, { GroupMemberDetailed, GroupSettings } from '../../services/business/groupManagement';
 import PaymentTrackingService from '../../services/business/paymentTracking';
+import ApprovalService, { APPROVAL_ACTION_LABELS } from '../../services/business/approvals';
+import DatabaseService, { Group, GroupRole, PendingAction } from '../../services/database';
+import { currencyOf, formatAmount, localeFor } from '../../utils/money';
+import { DELEGATED_ROLES, ROLE_DESCRIPTIONS } from '../../utils/permissions';
 
 interface GroupAdminControlsProps {
   navigation: any;
@@ -45,6 +49,10 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
   const [newMemberPosition, setNewMemberPosition] = useState('');
   const [transferToUserId, setTransferToUserId] = useState('');
   const [pendingPayments, setPendingPayments] = useState<any[]>([]);
+  const [group, setGroup] = useState<Group | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<PendingAction[]>([]);
+
+  const currency = currencyOf(group);
 
   useEffect(() => {
     loadAdminData();
@@ -56,6 +64,11 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
 
       if (!user) return;
 
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      if (groupResult.success && groupResult.data) {
+        setGroup(groupResult.data);
+      }
+
       // Load members with financial details
       const membersResult = await GroupManagementService.getGroupMembersDetailed({
         userId: user.uid,
@@ -63,16 +76,26 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
         includeFinancials: true,
       });
 
-      if (membersResult.success) {
+      if (membersResult.success && membersResult.data) {
         setMembers(membersResult.data);
       }
 
       // Load pending payment confirmations
       const paymentsResult = await PaymentTrackingService.getPendingConfirmations(user.uid);
-      if (paymentsResult.success) {
+      if (paymentsResult.success && paymentsResult.data) {
         setPendingPayments(paymentsResult.data.filter(p => p.groupId === groupId));
       }
 
+      // Load admin actions waiting for sign-off
+      const approvalsResult = await ApprovalService.getGroupActions({
+        groupId,
+        userId: user.uid,
+        statuses: ['pending'],
+      });
+      if (approvalsResult.success && approvalsResult.data) {
+        setPendingApprovals(approvalsResult.data);
+      }
+
       // Load current group settings (would need to implement this method)
       // const settingsResult = await GroupManagementService.getGroupSettings(groupId);
       // if (settingsResult.success) {
@@ -100,7 +123,7 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
         assignedPosition: newMemberPosition ? parseInt(newMemberPosition) : undefined,
       });
 
-      if (result.success) {
+      if (result.success && result.data) {
         Alert.alert('Success', `Successfully added ${result.data.displayName} to the group`);
         setAddMemberModal(false);
         setNewMemberEmail('');
@@ -139,6 +162,8 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
               if (result.success) {
                 Alert.alert('Success', 'Member removed successfully');
                 await loadAdminData();
+              } else if (result.code === 'APPROVAL_REQUIRED') {
+                Alert.alert('Sent for Approval', result.error);
               } else {
                 Alert.alert('Error', result.error || 'Failed to remove member');
               }
@@ -151,6 +176,45 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
     );
   };
 
+  const handleChangeRole = (member: GroupMemberDetailed) => {
+    if (!user) return;
+
+    const assignRole = async (role: GroupRole) => {
+      try {
+        const result = await GroupManagementService.assignMemberRole({
+          adminId: user.uid,
+          groupId,
+          memberId: member.userId,
+          role,
+        });
+
+        if (result.success) {
+          Alert.alert('Success', `${member.displayName} is now ${ROLE_DESCRIPTIONS[role].title.toLowerCase()}`);
+          await loadAdminData();
+        } else {
+          Alert.alert('Error', result.error || 'Failed to change role');
+        }
+      } catch (error) {
+        Alert.alert('Error', 'Failed to change role');
+      }
+    };
+
+    const roles: GroupRole[] = [...DELEGATED_ROLES, 'member'];
+    Alert.alert(
+      'Change Role',
+      `Choose a role for ${member.displayName}`,
+      [
+        ...roles
+          .filter(role => role !== member.role)
+          .map(role => ({
+            text: `${ROLE_DESCRIPTIONS[role].title} - ${ROLE_DESCRIPTIONS[role].description}`,
+            onPress: () => assignRole(role),
+          })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   const handleTransferAdmin = async () => {
     if (!user || !transferToUserId) {
       Alert.alert('Error', 'Please select a member to transfer admin rights to');
@@ -176,6 +240,9 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
                 Alert.alert('Success', 'Admin rights transferred successfully');
                 setTransferAdminModal(false);
                 navigation.goBack(); // Admin is no longer admin
+              } else if (result.code === 'APPROVAL_REQUIRED') {
+                Alert.alert('Sent for Approval', result.error);
+                setTransferAdminModal(false);
               } else {
                 Alert.alert('Error', result.error || 'Failed to transfer admin rights');
               }
@@ -188,6 +255,25 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
     );
   };
 
+  const handleApprovalDecision = async (action: PendingAction, decision: 'approve' | 'reject') => {
+    if (!user) return;
+
+    const result = decision === 'approve'
+      ? await ApprovalService.approveAction({ actionId: action.id, userId: user.uid })
+      : await ApprovalService.rejectAction({ actionId: action.id, userId: user.uid });
+
+    if (!result.success || !result.data) {
+      Alert.alert('Error', result.error || 'Failed to record your response');
+    } else if (result.data.status === 'failed') {
+      Alert.alert('Approved', `The action was approved but could not be completed: ${result.data.failure_reason}`);
+    } else if (result.data.status === 'executed') {
+      Alert.alert('Approved', 'The action has been carried out');
+    } else {
+      Alert.alert('Thanks', 'Your response has been recorded');
+    }
+    await loadAdminData();
+  };
+
   const handleMarkPayment = async (payment: any) => {
     if (!user) return;
 
@@ -249,12 +335,27 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
                     <Text style={styles.adminBadgeText}>Admin</Text>
                   </View>
                 ) : (
-                  <TouchableOpacity
-                    style={styles.removeButton}
-                    onPress={() => handleRemoveMember(member)}
-                  >
-                    <Icon name="remove-circle" size={20} color="#F44336" />
-                  </TouchableOpacity>
+                  <>
+                    {member.role !== 'member' && (
+                      <View style={styles.roleBadge}>
+                        <Text style={styles.roleBadgeText}>{ROLE_DESCRIPTIONS[member.role].title}</Text>
+                      </View>
+                    )}
+                    {group?.admin_id === user?.uid && (
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => handleChangeRole(member)}
+                      >
+                        <Icon name="manage-accounts" size={20} color="#2196F3" />
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => handleRemoveMember(member)}
+                    >
+                      <Icon name="remove-circle" size={20} color="#F44336" />
+                    </TouchableOpacity>
+                  </>
                 )}
               </View>
             </View>
@@ -264,13 +365,13 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
               <View style={styles.financialStat}>
                 <Text style={styles.financialLabel}>Contributed</Text>
                 <Text style={styles.financialValue}>
-                  UGX {member.totalContributions.toLocaleString()}
+                  {formatAmount(member.totalContributions, currency)}
                 </Text>
               </View>
               <View style={styles.financialStat}>
                 <Text style={styles.financialLabel}>Received</Text>
                 <Text style={styles.financialValue}>
-                  UGX {member.totalReceived.toLocaleString()}
+                  {formatAmount(member.totalReceived, currency)}
                 </Text>
               </View>
               <View style={styles.financialStat}>
@@ -302,8 +403,53 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
     </View>
   );
 
+  const renderPendingApprovals = () => (
+    <View style={styles.paymentsList}>
+      <Text style={styles.sectionTitle}>Waiting for Approval</Text>
+      {pendingApprovals.map(action => {
+        const approvals = action.approval_count;
+        const canSign = !!user && action.approver_ids.includes(user.uid) && !action.signatures[user.uid];
+
+        return (
+          <View key={action.id} style={styles.paymentCard}>
+            <View style={styles.paymentHeader}>
+              <Text style={styles.paymentMember}>{APPROVAL_ACTION_LABELS[action.type]}</Text>
+              <Text style={styles.paymentAmount}>
+                {approvals} / {action.required_approvals}
+              </Text>
+            </View>
+            <Text style={styles.paymentDue}>{action.summary}</Text>
+            <Text style={styles.paymentDue}>
+              Expires: {new Date(action.expires_at).toLocaleString(localeFor(currency))}
+            </Text>
+            {canSign && (
+              <View style={styles.paymentActions}>
+                <TouchableOpacity
+                  style={[styles.confirmButton, styles.rejectButton]}
+                  onPress={() => handleApprovalDecision(action, 'reject')}
+                >
+                  <Icon name="close" size={16} color="#fff" />
+                  <Text style={styles.confirmButtonText}>Reject</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.confirmButton}
+                  onPress={() => handleApprovalDecision(action, 'approve')}
+                >
+                  <Icon name="check" size={16} color="#fff" />
+                  <Text style={styles.confirmButtonText}>Approve</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+
   const renderPaymentsTab = () => (
     <View style={styles.tabContent}>
+      {pendingApprovals.length > 0 && renderPendingApprovals()}
+
       <Text style={styles.sectionTitle}>Pending Payment Confirmations</Text>
       
       {pendingPayments.length === 0 ? (
@@ -321,11 +467,11 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
               <View style={styles.paymentHeader}>
                 <Text style={styles.paymentMember}>{payment.memberName}</Text>
                 <Text style={styles.paymentAmount}>
-                  UGX {payment.amount.toLocaleString()}
+                  {formatAmount(payment.amount, currency)}
                 </Text>
               </View>
               <Text style={styles.paymentDue}>
-                Due: {new Date(payment.dueDate).toLocaleDateString()}
+                Due: {new Date(payment.dueDate).toLocaleDateString(localeFor(currency))}
               </Text>
               {payment.daysLate > 0 && (
                 <Text style={styles.paymentOverdue}>
@@ -368,7 +514,7 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
         </View>
         <View style={styles.settingItem}>
           <Text style={styles.settingLabel}>Contribution Amount</Text>
-          <Text style={styles.settingValue}>UGX 50,000</Text>
+          <Text style={styles.settingValue}>{formatAmount(group?.contribution_amount || 0, currency)}</Text>
         </View>
         <View style={styles.settingItem}>
           <Text style={styles.settingLabel}>Payment Frequency</Text>
@@ -445,9 +591,9 @@ const GroupAdminControls: React.FC<GroupAdminControlsProps> = ({ navigation, rou
           ]}>
             Payments
           </Text>
-          {pendingPayments.length > 0 && (
+          {pendingPayments.length + pendingApprovals.length > 0 && (
             <View style={styles.notificationBadge}>
-              <Text style={styles.badgeText}>{pendingPayments.length}</Text>
+              <Text style={styles.badgeText}>{pendingPayments.length + pendingApprovals.length}</Text>
             </View>
           )}
         </TouchableOpacity>
@@ -789,6 +935,18 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '600',
   },
+  roleBadge: {
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginBottom: 4,
+  },
+  roleBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
   removeButton: {
     padding: 4,
   },
@@ -894,6 +1052,10 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     borderRadius: 6,
   },
+  rejectButton: {
+    backgroundColor: '#F44336',
+    marginRight: 8,
+  },
   confirmButtonText: {
     color: '#fff',
     fontSize: 14,
@@ -15,6 +15,7 @@ import { useAuth } from '../../context/AppContext';
 import LatePaymentMonitor from '../../services/business/latePaymentMonitor';
 import PaymentTrackingService from '../../services/business/paymentTracking';
 import { LatePaymentMember, LatePaymentSummary } from '../../services/business/latePaymentMonitor';
+import { formatAmount, formatTotals, localeFor } from '../../utils/money';
 
 interface LatePaymentDashboardProps {
   navigation: any;
@@ -51,11 +52,11 @@ const LatePaymentDashboard: React.FC<LatePaymentDashboardProps> = ({
         LatePaymentMonitor.getLatePaymentMembers(groupId),
       ]);
 
-      if (summaryResult.success) {
+      if (summaryResult.success && summaryResult.data) {
         setSummary(summaryResult.data);
       }
 
-      if (membersResult.success) {
+      if (membersResult.success && membersResult.data) {
         setLateMembers(membersResult.data);
       }
     } catch (error) {
@@ -106,14 +107,6 @@ const LatePaymentDashboard: React.FC<LatePaymentDashboardProps> = ({
     );
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-UG', {
-      style: 'currency',
-      currency: 'UGX',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
-
   const renderSummaryCards = () => {
     if (!summary) return null;
 
@@ -127,7 +120,7 @@ const LatePaymentDashboard: React.FC<LatePaymentDashboardProps> = ({
         
         <View style={styles.summaryCard}>
           <Icon name="money-off" size={32} color="#F44336" />
-          <Text style={styles.summaryValue}>{formatCurrency(summary.totalOverdueAmount)}</Text>
+          <Text style={styles.summaryValue}>{formatTotals(summary.totalOverdue)}</Text>
           <Text style={styles.summaryLabel}>Overdue Amount</Text>
         </View>
         
@@ -190,14 +183,16 @@ const LatePaymentDashboard: React.FC<LatePaymentDashboardProps> = ({
       
       <View style={styles.memberDetails}>
         <Text style={styles.amountText}>
-          Amount: {formatCurrency(item.amount)}
+          Amount: {formatAmount(item.amount, item.currency)}
+          {item.outstandingAmount < item.amount &&
+            ` (${formatAmount(item.outstandingAmount, item.currency)} outstanding)`}
         </Text>
         <Text style={styles.dueDateText}>
-          Due: {item.dueDate.toLocaleDateString()}
+          Due: {item.dueDate.toLocaleDateString(localeFor(item.currency))}
         </Text>
         {item.penaltyAmount > 0 && (
           <Text style={styles.penaltyText}>
-            Penalty: {formatCurrency(item.penaltyAmount)}
+            Penalty: {formatAmount(item.penaltyAmount, item.currency)}
           </Text>
         )}
         <Text style={styles.warningsText}>
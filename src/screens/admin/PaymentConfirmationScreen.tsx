@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -15,7 +15,12 @@ import {
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../context/AppContext';
 import PaymentTrackingService, { PaymentConfirmation } from '../../services/business/paymentTracking';
+import BankReconciliationService from '../../services/business/bankReconciliation';
+import DatabaseService, { CollectionAccount, CurrencyCode, StatementCredit } from '../../services/database';
+import { DEFAULT_CURRENCY, currencyOf, formatAmount, localeFor } from '../../utils/money';
 import { MemberPaymentStatus } from '../../types/business';
+import { splitIntoInstallments } from '../../services/business/installments';
+import ReceiptAttachments from '../../components/ReceiptAttachments';
 
 interface PaymentConfirmationScreenProps {
   navigation: any;
@@ -42,22 +47,28 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
     confirmationType: 'cash' as PaymentConfirmation['confirmationType'],
     notes: '',
     customAmount: '',
+    partial: false,
   });
+  const [planModal, setPlanModal] = useState<{
+    visible: boolean;
+    member?: MemberPaymentStatus;
+    count: string;
+    intervalDays: string;
+  }>({ visible: false, count: '3', intervalDays: '7' });
   const [processing, setProcessing] = useState(false);
+  const [collectionAccount, setCollectionAccount] = useState<CollectionAccount | undefined>();
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [reviewQueue, setReviewQueue] = useState<StatementCredit[]>([]);
+  const [importModal, setImportModal] = useState({ visible: false, content: '' });
 
-  const loadPendingPayments = async () => {
+  const loadPendingPayments = useCallback(async () => {
     try {
       if (!user) return;
       
       const result = await PaymentTrackingService.getPendingConfirmations(user.uid);
       if (result.success && result.data) {
         // Filter for this specific group if groupId is provided
-        const filteredPayments = groupId 
-          ? result.data.filter(payment => {
-              // We need to get the groupId from the contribution - this is a simplified approach
-              return true; // In a real implementation, we'd have groupId in the payment status
-            })
-          : result.data;
+        const filteredPayments = groupId ? result.data.filter(payment => payment.groupId === groupId) : result.data;
         
         setPendingPayments(filteredPayments);
       }
@@ -66,17 +77,116 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [user, groupId]);
+
+  const loadBankTransfers = useCallback(async () => {
+    try {
+      const [groupResult, queueResult] = await Promise.all([
+        DatabaseService.groups.getGroupById(groupId),
+        BankReconciliationService.getReviewQueue(groupId),
+      ]);
+      setCollectionAccount(groupResult.data?.collection_account);
+      setCurrency(currencyOf(groupResult.data));
+      if (queueResult.success && queueResult.data) {
+        setReviewQueue(queueResult.data);
+      }
+    } catch (error) {
+      console.error('Error loading bank transfers:', error);
+    }
+  }, [groupId]);
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadPendingPayments();
+    await Promise.all([loadPendingPayments(), loadBankTransfers()]);
     setRefreshing(false);
   };
 
   useEffect(() => {
     loadPendingPayments();
-  }, [user, groupId]);
+    loadBankTransfers();
+  }, [loadPendingPayments, loadBankTransfers]);
+
+  const handleCreateVirtualAccount = async () => {
+    if (!user) return;
+
+    setProcessing(true);
+    try {
+      const result = await BankReconciliationService.setCollectionAccount({ groupId, adminId: user.uid });
+      if (result.success && result.data) {
+        setCollectionAccount(result.data);
+        Alert.alert('Account Ready', `Members can now pay into ${result.data.account_number} (${result.data.bank_name})`);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to set up collection account');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleImportStatement = async () => {
+    if (!user || !importModal.content.trim()) return;
+
+    setProcessing(true);
+    try {
+      const result = await BankReconciliationService.importStatement({
+        groupId,
+        adminId: user.uid,
+        content: importModal.content,
+      });
+      if (result.success && result.data) {
+        const summary = result.data.statementImport;
+        Alert.alert(
+          'Statement Imported',
+          `${summary.matched_count} payments confirmed, ${summary.review_count + summary.unmatched_count} to review` +
+            (summary.duplicate_count ? `, ${summary.duplicate_count} already imported` : '')
+        );
+        setImportModal({ visible: false, content: '' });
+        await Promise.all([loadPendingPayments(), loadBankTransfers()]);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to import statement');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleResolveCredit = async (credit: StatementCredit, contributionId: string) => {
+    if (!user) return;
+
+    const result = await BankReconciliationService.resolveCredit({ creditId: credit.id, adminId: user.uid, contributionId });
+    if (result.success) {
+      await Promise.all([loadPendingPayments(), loadBankTransfers()]);
+    } else {
+      Alert.alert('Error', result.error || 'Failed to confirm payment');
+    }
+  };
+
+  const handleIgnoreCredit = (credit: StatementCredit) => {
+    Alert.alert(
+      'Ignore Transfer',
+      `Remove this ${formatCurrency(credit.amount)} transfer from the review list without confirming a payment?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Ignore',
+          style: 'destructive',
+          onPress: async () => {
+            if (!user) return;
+            const result = await BankReconciliationService.ignoreCredit({ creditId: credit.id, adminId: user.uid });
+            if (result.success) {
+              await loadBankTransfers();
+            } else {
+              Alert.alert('Error', result.error || 'Failed to ignore transfer');
+            }
+          },
+        },
+      ]
+    );
+  };
 
   const handleConfirmPayment = (member: MemberPaymentStatus) => {
     setConfirmationModal({ visible: true, member });
@@ -84,9 +194,48 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
       confirmationType: 'cash',
       notes: '',
       customAmount: '',
+      partial: false,
     });
   };
 
+  const handleOpenPlan = (member: MemberPaymentStatus) => {
+    setPlanModal({ visible: true, member, count: '3', intervalDays: '7' });
+  };
+
+  const outstandingOf = (member: MemberPaymentStatus) => member.outstandingAmount ?? member.amount;
+
+  const planInstallments = () => {
+    const count = parseInt(planModal.count, 10);
+    const intervalDays = parseInt(planModal.intervalDays, 10);
+    if (!planModal.member || !(count > 0) || !(intervalDays > 0)) return [];
+    return splitIntoInstallments(outstandingOf(planModal.member), count, new Date(), intervalDays, currency);
+  };
+
+  const processInstallmentPlan = async () => {
+    if (!user || !planModal.member?.contributionId) return;
+
+    setProcessing(true);
+    try {
+      const result = await PaymentTrackingService.agreeInstallmentPlan({
+        contributionId: planModal.member.contributionId,
+        adminId: user.uid,
+        installments: planInstallments(),
+      });
+
+      if (result.success) {
+        Alert.alert('Plan Agreed', `${planModal.member.userName} will be reminded before each installment`);
+        setPlanModal(prev => ({ ...prev, visible: false }));
+        await loadPendingPayments();
+      } else {
+        Alert.alert('Error', result.error || 'Failed to agree installment plan');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const handleLatePaymentAction = (member: MemberPaymentStatus, action: 'warning' | 'penalty') => {
     Alert.alert(
       'Late Payment Action',
@@ -130,6 +279,30 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
         ? parseFloat(confirmationData.customAmount) 
         : undefined;
 
+      if (confirmationData.partial) {
+        const partial = await PaymentTrackingService.recordPartialPayment({
+          contributionId: confirmationModal.member.contributionId,
+          adminId: user.uid,
+          amount: customAmount ?? 0,
+          confirmationType: confirmationData.confirmationType,
+          notes: confirmationData.notes,
+        });
+
+        if (partial.success && partial.data) {
+          Alert.alert(
+            'Part Payment Recorded',
+            partial.data.completed
+              ? 'Contribution is now fully paid'
+              : `${formatCurrency(partial.data.outstandingAmount)} still outstanding`
+          );
+          setConfirmationModal({ visible: false });
+          await loadPendingPayments();
+        } else {
+          Alert.alert('Error', partial.error || 'Failed to record part payment');
+        }
+        return;
+      }
+
       const result = await PaymentTrackingService.confirmMemberPayment({
         contributionId: confirmationModal.member.contributionId,
         adminId: user.uid,
@@ -139,7 +312,12 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
       });
 
       if (result.success) {
-        Alert.alert('Success', 'Payment confirmed successfully');
+        Alert.alert(
+          'Success',
+          result.data?.walletCredit
+            ? `Payment confirmed. ${formatCurrency(result.data.walletCredit)} extra was put in the member's wallet`
+            : 'Payment confirmed successfully'
+        );
         setConfirmationModal({ visible: false });
         await loadPendingPayments();
       } else {
@@ -152,16 +330,10 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatAmount(amount, currency);
 
   const formatDate = (date: Date) => {
-    return new Date(date).toLocaleDateString('en-US', {
+    return new Date(date).toLocaleDateString(localeFor(currency), {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
@@ -172,6 +344,7 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
     switch (status) {
       case 'overdue': return '#EF4444';
       case 'pending': return '#F59E0B';
+      case 'partially_paid': return '#3B82F6';
       default: return '#6B7280';
     }
   };
@@ -180,6 +353,7 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
     switch (status) {
       case 'overdue': return 'error';
       case 'pending': return 'schedule';
+      case 'partially_paid': return 'timelapse';
       default: return 'help';
     }
   };
@@ -205,7 +379,7 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
             color={getStatusColor(member.status)} 
           />
           <Text style={[styles.statusText, { color: getStatusColor(member.status) }]}>
-            {member.status}
+            {member.status === 'partially_paid' ? 'part paid' : member.status}
           </Text>
         </View>
       </View>
@@ -215,6 +389,20 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
           <Text style={styles.detailLabel}>Due Date:</Text>
           <Text style={styles.detailValue}>{formatDate(member.dueDate)}</Text>
         </View>
+        {member.paidAmount !== undefined && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Paid So Far:</Text>
+            <Text style={styles.detailValue}>
+              {formatCurrency(member.paidAmount)} ({formatCurrency(outstandingOf(member))} left)
+            </Text>
+          </View>
+        )}
+        {member.onInstallmentPlan && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Arrangement:</Text>
+            <Text style={styles.detailValue}>Installment plan</Text>
+          </View>
+        )}
         {member.daysOverdue && member.daysOverdue > 0 && (
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Days Overdue:</Text>
@@ -225,6 +413,16 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
         )}
       </View>
 
+      {member.contributionId && user && (
+        <ReceiptAttachments
+          contributionId={member.contributionId}
+          userId={user.uid}
+          mode="review"
+          expectedAmount={outstandingOf(member)}
+          currency={currency}
+        />
+      )}
+
       <View style={styles.actionButtons}>
         <TouchableOpacity
           style={[styles.actionButton, styles.confirmButton]}
@@ -234,6 +432,16 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
           <Text style={styles.actionButtonText}>Confirm Payment</Text>
         </TouchableOpacity>
 
+        {!member.onInstallmentPlan && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.importButton]}
+            onPress={() => handleOpenPlan(member)}
+          >
+            <Icon name="event-note" size={16} color="#1E40AF" />
+            <Text style={[styles.actionButtonText, styles.importButtonText]}>Plan</Text>
+          </TouchableOpacity>
+        )}
+
         {member.status === 'overdue' && (
           <>
             <TouchableOpacity
@@ -256,6 +464,134 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
     </View>
   );
 
+  const renderBankTransfers = () => {
+    const memberNames = new Map(pendingPayments.map(member => [member.contributionId, member.userName]));
+
+    return (
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryTitle}>Bank Transfers</Text>
+        {collectionAccount ? (
+          <View style={styles.paymentDetails}>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Collection Account:</Text>
+              <Text style={styles.detailValue}>{collectionAccount.account_number}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Bank:</Text>
+              <Text style={styles.detailValue}>{collectionAccount.bank_name}</Text>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.confirmButton, styles.bankButton]}
+            onPress={handleCreateVirtualAccount}
+            disabled={processing}
+          >
+            <Icon name="account-balance" size={16} color="#FFFFFF" />
+            <Text style={styles.actionButtonText}>Open Group Collection Account</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.importButton, styles.bankButton]}
+          onPress={() => setImportModal({ visible: true, content: '' })}
+        >
+          <Icon name="upload-file" size={16} color="#1E40AF" />
+          <Text style={[styles.actionButtonText, styles.importButtonText]}>Import Bank Statement</Text>
+        </TouchableOpacity>
+
+        {reviewQueue.map(credit => (
+          <View key={credit.id} style={styles.creditCard}>
+            <View style={styles.detailRow}>
+              <Text style={styles.memberAmount}>{formatCurrency(credit.amount)}</Text>
+              <Text style={styles.detailValue}>{formatDate(credit.value_date)}</Text>
+            </View>
+            <Text style={styles.creditNarration}>{credit.payer_name || credit.narration || 'No narration'}</Text>
+            <Text style={styles.creditReason}>{credit.match_reason}</Text>
+            <View style={styles.creditActions}>
+              {credit.candidate_contribution_ids.map(contributionId => (
+                <TouchableOpacity
+                  key={contributionId}
+                  style={[styles.actionButton, styles.confirmButton]}
+                  onPress={() => handleResolveCredit(credit, contributionId)}
+                >
+                  <Icon name="check-circle" size={16} color="#FFFFFF" />
+                  <Text style={styles.actionButtonText}>{memberNames.get(contributionId) || 'Confirm'}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.actionButton, styles.warningButton]}
+                onPress={() => handleIgnoreCredit(credit)}
+              >
+                <Icon name="block" size={16} color="#F59E0B" />
+                <Text style={[styles.actionButtonText, styles.ignoreButtonText]}>Ignore</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderImportModal = () => (
+    <Modal
+      visible={importModal.visible}
+      transparent
+      animationType="slide"
+      onRequestClose={() => setImportModal({ visible: false, content: '' })}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Import Bank Statement</Text>
+            <TouchableOpacity
+              onPress={() => setImportModal({ visible: false, content: '' })}
+              style={styles.closeButton}
+            >
+              <Icon name="close" size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.formSection}>
+            <Text style={styles.formLabel}>Statement (CSV, MT940 or camt.053)</Text>
+            <TextInput
+              style={[styles.textInput, styles.statementInput]}
+              placeholder="Paste the statement exported from your bank..."
+              value={importModal.content}
+              onChangeText={(value) => setImportModal(prev => ({ ...prev, content: value }))}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setImportModal({ visible: false, content: '' })}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.confirmModalButton, processing && styles.processingButton]}
+              onPress={handleImportStatement}
+              disabled={processing}
+            >
+              {processing ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <Icon name="upload-file" size={16} color="#FFFFFF" />
+                  <Text style={styles.confirmModalButtonText}>Import</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
   const renderConfirmationModal = () => (
     <Modal
       visible={confirmationModal.visible}
@@ -282,7 +618,7 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
                   {confirmationModal.member.userName}
                 </Text>
                 <Text style={styles.memberSummaryAmount}>
-                  {formatCurrency(confirmationModal.member.amount)}
+                  {formatCurrency(outstandingOf(confirmationModal.member))}
                 </Text>
               </View>
 
@@ -322,11 +658,27 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
                 </View>
               </View>
 
+              <TouchableOpacity
+                style={[styles.methodButton, styles.partialToggle, confirmationData.partial && styles.selectedMethod]}
+                onPress={() => setConfirmationData(prev => ({ ...prev, partial: !prev.partial }))}
+              >
+                <Icon
+                  name={confirmationData.partial ? 'check-box' : 'check-box-outline-blank'}
+                  size={20}
+                  color={confirmationData.partial ? '#1E40AF' : '#6B7280'}
+                />
+                <Text style={[styles.methodText, confirmationData.partial && styles.selectedMethodText]}>
+                  Part payment only
+                </Text>
+              </TouchableOpacity>
+
               <View style={styles.formSection}>
-                <Text style={styles.formLabel}>Custom Amount (Optional)</Text>
+                <Text style={styles.formLabel}>
+                  {confirmationData.partial ? 'Amount Received' : 'Custom Amount (Optional)'}
+                </Text>
                 <TextInput
                   style={styles.textInput}
-                  placeholder="Enter custom amount if different"
+                  placeholder={confirmationData.partial ? 'Enter the amount paid' : 'Enter custom amount if different'}
                   value={confirmationData.customAmount}
                   onChangeText={(value) => setConfirmationData(prev => ({ ...prev, customAmount: value }))}
                   keyboardType="numeric"
@@ -362,7 +714,93 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
                   ) : (
                     <>
                       <Icon name="check-circle" size={16} color="#FFFFFF" />
-                      <Text style={styles.confirmModalButtonText}>Confirm Payment</Text>
+                      <Text style={styles.confirmModalButtonText}>
+                        {confirmationData.partial ? 'Record Part Payment' : 'Confirm Payment'}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const renderPlanModal = () => (
+    <Modal
+      visible={planModal.visible}
+      transparent
+      animationType="slide"
+      onRequestClose={() => setPlanModal(prev => ({ ...prev, visible: false }))}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Installment Plan</Text>
+            <TouchableOpacity
+              onPress={() => setPlanModal(prev => ({ ...prev, visible: false }))}
+              style={styles.closeButton}
+            >
+              <Icon name="close" size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          {planModal.member && (
+            <>
+              <View style={styles.memberSummary}>
+                <Text style={styles.memberSummaryName}>{planModal.member.userName}</Text>
+                <Text style={styles.memberSummaryAmount}>{formatCurrency(outstandingOf(planModal.member))}</Text>
+              </View>
+
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Number of Installments</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={planModal.count}
+                  onChangeText={(value) => setPlanModal(prev => ({ ...prev, count: value }))}
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Days Between Installments</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={planModal.intervalDays}
+                  onChangeText={(value) => setPlanModal(prev => ({ ...prev, intervalDays: value }))}
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <View style={styles.paymentDetails}>
+                {planInstallments().map((installment, index) => (
+                  <View key={index} style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>{formatDate(installment.due_date)}</Text>
+                    <Text style={styles.detailValue}>{formatCurrency(installment.amount)}</Text>
+                  </View>
+                ))}
+              </View>
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={() => setPlanModal(prev => ({ ...prev, visible: false }))}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.confirmModalButton, processing && styles.processingButton]}
+                  onPress={processInstallmentPlan}
+                  disabled={processing}
+                >
+                  {processing ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <>
+                      <Icon name="event-note" size={16} color="#FFFFFF" />
+                      <Text style={styles.confirmModalButtonText}>Agree Plan</Text>
                     </>
                   )}
                 </TouchableOpacity>
@@ -401,6 +839,8 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
       >
+        {renderBankTransfers()}
+
         {pendingPayments.length === 0 ? (
           <View style={styles.emptyState}>
             <Icon name="check-circle" size={64} color="#10B981" />
@@ -427,10 +867,10 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
                 <View style={styles.statItem}>
                   <Text style={styles.statNumber}>
                     {formatCurrency(
-                      pendingPayments.reduce((sum, p) => sum + p.amount, 0)
+                      pendingPayments.reduce((sum, p) => sum + outstandingOf(p), 0)
                     )}
                   </Text>
-                  <Text style={styles.statLabel}>Total Amount</Text>
+                  <Text style={styles.statLabel}>Outstanding</Text>
                 </View>
               </View>
             </View>
@@ -443,6 +883,8 @@ const PaymentConfirmationScreen: React.FC<PaymentConfirmationScreenProps> = ({ n
       </ScrollView>
 
       {renderConfirmationModal()}
+      {renderPlanModal()}
+      {renderImportModal()}
     </SafeAreaView>
   );
 };
@@ -631,6 +1073,48 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  bankButton: {
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  importButton: {
+    backgroundColor: '#EFF6FF',
+    borderWidth: 1,
+    borderColor: '#1E40AF',
+  },
+  importButtonText: {
+    color: '#1E40AF',
+  },
+  creditCard: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  creditNarration: {
+    fontSize: 14,
+    color: '#1F2937',
+    marginTop: 4,
+  },
+  creditReason: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  creditActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  ignoreButtonText: {
+    color: '#F59E0B',
+  },
+  statementInput: {
+    height: 200,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+  },
   emptyState: {
     alignItems: 'center',
     padding: 40,
@@ -723,6 +1207,10 @@ const styles = StyleSheet.create({
     borderColor: '#1E40AF',
     backgroundColor: '#EEF2FF',
   },
+  partialToggle: {
+    alignSelf: 'flex-start',
+    marginBottom: 16,
+  },
   methodText: {
     fontSize: 14,
     color: '#6B7280',
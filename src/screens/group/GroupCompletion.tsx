@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -11,11 +11,15 @@ import {
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import GroupManagementService, { GroupCompletionOptions, GroupSettings } from '../../services/business/groupManagement';
+import GroupSettlementService, { SettlementPreview } from '../../services/business/groupSettlement';
+import { Settlement } from '../../services/database';
+import { CurrencyCode, DEFAULT_CURRENCY, currencyOf, formatAmount, localeFor } from '../../utils/money';
 
 interface GroupCompletionProps {
   groupId: string;
   userId: string;
   currentSettings: GroupSettings;
+  currency?: CurrencyCode;
   onCompletion: (success: boolean) => void;
 }
 
@@ -31,6 +35,7 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
   groupId,
   userId,
   currentSettings,
+  currency = DEFAULT_CURRENCY,
   onCompletion,
 }) => {
   const [loading, setLoading] = useState(true);
@@ -38,6 +43,8 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
   const [selectedAction, setSelectedAction] = useState<'restart' | 'dissolve' | 'pause' | null>(null);
   const [showConfirmationModal, setShowConfirmationModal] = useState(false);
   const [processing, setProcessing] = useState(false);
+  const [settlement, setSettlement] = useState<Settlement | null>(null);
+  const [settlementPreview, setSettlementPreview] = useState<SettlementPreview | null>(null);
 
   // Option states
   const [redistributeFunds, setRedistributeFunds] = useState(false);
@@ -46,11 +53,7 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
   const [newContributionAmount, setNewContributionAmount] = useState(currentSettings.contributionAmount.toString());
   const [newPaymentDeadline, setNewPaymentDeadline] = useState(currentSettings.paymentDeadlineDays.toString());
 
-  useEffect(() => {
-    checkCompletionStatus();
-  }, []);
-
-  const checkCompletionStatus = async () => {
+  const checkCompletionStatus = useCallback(async () => {
     try {
       setLoading(true);
       const result = await GroupManagementService.checkGroupCompletion(groupId);
@@ -65,7 +68,30 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
     } finally {
       setLoading(false);
     }
-  };
+  }, [groupId]);
+
+  const loadSettlement = useCallback(async () => {
+    const result = await GroupSettlementService.getGroupSettlements(groupId);
+    if (result.success && result.data) {
+      setSettlement(result.data[0] || null);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    checkCompletionStatus();
+    loadSettlement();
+  }, [checkCompletionStatus, loadSettlement]);
+
+  // Preview each member's share while the admin decides whether to redistribute
+  useEffect(() => {
+    if (!showConfirmationModal || !redistributeFunds || (selectedAction !== 'dissolve' && selectedAction !== 'restart')) {
+      setSettlementPreview(null);
+      return;
+    }
+    GroupSettlementService.previewSettlement(groupId, selectedAction).then(result => {
+      setSettlementPreview(result.success && result.data ? result.data : null);
+    });
+  }, [groupId, showConfirmationModal, redistributeFunds, selectedAction]);
 
   const handleActionSelect = (action: 'restart' | 'dissolve' | 'pause') => {
     setSelectedAction(action);
@@ -106,11 +132,14 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
       });
 
       if (result.success) {
+        await loadSettlement();
         Alert.alert(
           'Success', 
           result.data?.message || 'Action completed successfully',
           [{ text: 'OK', onPress: () => onCompletion(true) }]
         );
+      } else if (result.code === 'APPROVAL_REQUIRED') {
+        Alert.alert('Sent for Approval', result.error);
       } else {
         Alert.alert('Error', result.error || 'Failed to execute action');
       }
@@ -202,6 +231,58 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
     </View>
   );
 
+  const renderSettlementStatement = (statement: SettlementPreview, title: string) => {
+    const ownLine = statement.lines.find(line => line.user_id === userId);
+    const format = (amount: number) => formatAmount(amount, currencyOf(statement));
+
+    return (
+      <View style={styles.settlementContainer}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+
+        {ownLine && (
+          <View style={styles.settlementSummary}>
+            <Text style={styles.settlementSummaryLabel}>Your settlement</Text>
+            <Text style={styles.settlementSummaryAmount}>{format(ownLine.amount)}</Text>
+            {ownLine.shortfall > 0 && (
+              <Text style={styles.settlementNote}>
+                {format(ownLine.shortfall)} of your claim could not be covered by the pot
+              </Text>
+            )}
+            {ownLine.owes > 0 && (
+              <Text style={styles.settlementNote}>
+                You have received {format(ownLine.owes)} more than you paid in
+              </Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.settlementRow}>
+          <Text style={[styles.settlementCell, styles.settlementNameCell, styles.settlementHeader]}>Member</Text>
+          <Text style={[styles.settlementCell, styles.settlementHeader]}>Paid in</Text>
+          <Text style={[styles.settlementCell, styles.settlementHeader]}>Received</Text>
+          <Text style={[styles.settlementCell, styles.settlementHeader]}>Settled</Text>
+        </View>
+        {statement.lines.map(line => (
+          <View
+            key={line.user_id}
+            style={[styles.settlementRow, line.user_id === userId && styles.settlementOwnRow]}
+          >
+            <Text style={[styles.settlementCell, styles.settlementNameCell]} numberOfLines={1}>
+              {line.user_id === userId ? 'You' : line.display_name || 'Member'}
+            </Text>
+            <Text style={styles.settlementCell}>{format(line.paid_in)}</Text>
+            <Text style={styles.settlementCell}>{format(line.received + line.penalties)}</Text>
+            <Text style={[styles.settlementCell, styles.settlementAmount]}>{format(line.amount)}</Text>
+          </View>
+        ))}
+
+        <Text style={styles.settlementFooter}>
+          Pot balance {format(statement.pot_balance)} · Paid out {format(statement.total_paid)}
+        </Text>
+      </View>
+    );
+  };
+
   const renderConfirmationModal = () => {
     if (!selectedAction) return null;
 
@@ -280,9 +361,9 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
                     <View style={styles.settingRow}>
                       <Text style={styles.settingLabel}>Contribution Amount</Text>
                       <View style={styles.settingInput}>
-                        <Text style={styles.currency}>UGX</Text>
+                        <Text style={styles.currency}>{currency}</Text>
                         <Text style={styles.settingValue}>
-                          {parseFloat(newContributionAmount).toLocaleString()}
+                          {parseFloat(newContributionAmount).toLocaleString(localeFor(currency))}
                         </Text>
                       </View>
                     </View>
@@ -310,6 +391,8 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
                 )}
               </View>
 
+              {settlementPreview && renderSettlementStatement(settlementPreview, 'Settlement Preview')}
+
               {/* Warning for dissolve */}
               {selectedAction === 'dissolve' && (
                 <View style={styles.warningContainer}>
@@ -377,6 +460,25 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
             {Math.round(completionStatus?.completionRate || 0)}% Complete
           </Text>
         </View>
+
+        {settlement ? (
+          renderSettlementStatement(settlement, 'Settlement Statement')
+        ) : (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.dissolveButton]}
+            onPress={() => handleActionSelect('dissolve')}
+          >
+            <Icon name="cancel" size={24} color="#fff" />
+            <View style={styles.actionContent}>
+              <Text style={styles.actionTitle}>Dissolve Group Early</Text>
+              <Text style={styles.actionDescription}>
+                Members still waiting for their turn get their contributions back first
+              </Text>
+            </View>
+            <Icon name="arrow-forward-ios" size={16} color="#fff" />
+          </TouchableOpacity>
+        )}
+        {renderConfirmationModal()}
       </View>
     );
   }
@@ -384,6 +486,7 @@ const GroupCompletion: React.FC<GroupCompletionProps> = ({
   return (
     <ScrollView style={styles.container}>
       {renderCompletionStatus()}
+      {settlement && renderSettlementStatement(settlement, 'Settlement Statement')}
       {renderActionOptions()}
       {renderConfirmationModal()}
     </ScrollView>
@@ -628,6 +731,66 @@ const styles = StyleSheet.create({
     color: '#F44336',
     marginLeft: 8,
   },
+  settlementContainer: {
+    backgroundColor: '#fff',
+    margin: 16,
+    padding: 16,
+    borderRadius: 12,
+    alignSelf: 'stretch',
+  },
+  settlementSummary: {
+    backgroundColor: '#E8F5E9',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  settlementSummaryLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  settlementSummaryAmount: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    marginVertical: 4,
+  },
+  settlementNote: {
+    fontSize: 13,
+    color: '#F57C00',
+  },
+  settlementRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  settlementOwnRow: {
+    backgroundColor: '#F0F7FF',
+  },
+  settlementHeader: {
+    fontWeight: '600',
+    color: '#666',
+  },
+  settlementCell: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    textAlign: 'right',
+  },
+  settlementNameCell: {
+    flex: 1.5,
+    textAlign: 'left',
+  },
+  settlementAmount: {
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  settlementFooter: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 12,
+    textAlign: 'center',
+  },
   modalFooter: {
     flexDirection: 'row',
     padding: 20,
@@ -14,6 +14,8 @@ import {
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../context/AppContext';
 import GroupManagementService, { GroupMemberDetailed } from '../../services/business/groupManagement';
+import { formatAmount } from '../../utils/money';
+import { ROLE_DESCRIPTIONS } from '../../utils/permissions';
 
 interface GroupMembersListProps {
   navigation: any;
@@ -56,7 +58,7 @@ const GroupMembersList: React.FC<GroupMembersListProps> = ({ navigation, route }
         includeFinancials: userRole === 'admin' || showFinancials,
       });
 
-      if (result.success) {
+      if (result.success && result.data) {
         setMembers(result.data);
       } else {
         Alert.alert('Error', result.error || 'Failed to load members');
@@ -150,6 +152,8 @@ const GroupMembersList: React.FC<GroupMembersListProps> = ({ navigation, route }
               if (result.success) {
                 Alert.alert('Success', 'Member removed successfully');
                 await loadMembers();
+              } else if (result.code === 'APPROVAL_REQUIRED') {
+                Alert.alert('Sent for Approval', result.error);
               } else {
                 Alert.alert('Error', result.error || 'Failed to remove member');
               }
@@ -299,9 +303,9 @@ const GroupMembersList: React.FC<GroupMembersListProps> = ({ navigation, route }
             <View style={styles.memberInfo}>
               <View style={styles.memberNameContainer}>
                 <Text style={styles.memberName}>{member.displayName}</Text>
-                {member.role === 'admin' && (
+                {member.role !== 'member' && (
                   <View style={styles.adminBadge}>
-                    <Text style={styles.adminBadgeText}>Admin</Text>
+                    <Text style={styles.adminBadgeText}>{ROLE_DESCRIPTIONS[member.role].title}</Text>
                   </View>
                 )}
               </View>
@@ -362,13 +366,13 @@ const GroupMembersList: React.FC<GroupMembersListProps> = ({ navigation, route }
             <View style={styles.financialItem}>
               <Text style={styles.financialLabel}>Contributed</Text>
               <Text style={styles.financialValue}>
-                UGX {member.totalContributions.toLocaleString()}
+                {formatAmount(member.totalContributions, member.currency)}
               </Text>
             </View>
             <View style={styles.financialItem}>
               <Text style={styles.financialLabel}>Received</Text>
               <Text style={styles.financialValue}>
-                UGX {member.totalReceived.toLocaleString()}
+                {formatAmount(member.totalReceived, member.currency)}
               </Text>
             </View>
             <View style={styles.financialItem}>
@@ -530,14 +534,14 @@ const GroupMembersList: React.FC<GroupMembersListProps> = ({ navigation, route }
                       <View style={styles.detailRow}>
                         <Text style={styles.detailLabel}>Total Contributed</Text>
                         <Text style={styles.detailValue}>
-                          UGX {selectedMember.totalContributions.toLocaleString()}
+                          {formatAmount(selectedMember.totalContributions, selectedMember.currency)}
                         </Text>
                       </View>
                       
                       <View style={styles.detailRow}>
                         <Text style={styles.detailLabel}>Total Received</Text>
                         <Text style={styles.detailValue}>
-                          UGX {selectedMember.totalReceived.toLocaleString()}
+                          {formatAmount(selectedMember.totalReceived, selectedMember.currency)}
                         </Text>
                       </View>
                       
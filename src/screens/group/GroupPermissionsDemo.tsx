@@ -17,6 +17,7 @@ import {
   getPermissionStatus,
   requiresConfirmation,
 } from '../../utils/permissions';
+import { GroupPermissions } from '../../types/database';
 
 interface GroupPermissionsDemoProps {
   userId: string;
@@ -31,8 +32,8 @@ const GroupPermissionsDemo: React.FC<GroupPermissionsDemoProps> = ({
   const { canManage: canManageMembers, loading: membersLoading } = useCanManageMembers(userId, groupId);
   const { canEdit: canEditSettings, loading: settingsLoading } = useCanEditSettings(userId, groupId);
 
-  const handleProtectedAction = (actionName: string) => {
-    if (requiresConfirmation(actionName as keyof typeof PERMISSIONS)) {
+  const handleProtectedAction = (permission: keyof GroupPermissions, actionName: string) => {
+    if (requiresConfirmation(permission)) {
       Alert.alert(
         'Confirm Action',
         `Are you sure you want to perform: ${actionName}?`,
@@ -50,7 +51,7 @@ const GroupPermissionsDemo: React.FC<GroupPermissionsDemoProps> = ({
     Alert.alert('Success', `${actionName} completed successfully!`);
   };
 
-  const renderPermissionItem = (permission: keyof typeof PERMISSIONS) => {
+  const renderPermissionItem = (permission: keyof GroupPermissions) => {
     const config = PERMISSION_DESCRIPTIONS[permission];
     const status = getPermissionStatus(true); // This would be dynamic in real usage
 
@@ -77,7 +78,7 @@ const GroupPermissionsDemo: React.FC<GroupPermissionsDemoProps> = ({
       >
         <TouchableOpacity
           style={styles.permissionItem}
-          onPress={() => handleProtectedAction(config.title)}
+          onPress={() => handleProtectedAction(permission, config.title)}
         >
           <Icon name={config.icon} size={24} color={status.color} />
           <View style={styles.permissionContent}>
@@ -141,9 +142,7 @@ const GroupPermissionsDemo: React.FC<GroupPermissionsDemoProps> = ({
           Actions you can perform are highlighted. Restricted actions show with a lock icon.
         </Text>
 
-        {Object.keys(PERMISSIONS).map(key => 
-          renderPermissionItem(PERMISSIONS[key as keyof typeof PERMISSIONS])
-        )}
+        {Object.values(PERMISSIONS).map(permission => renderPermissionItem(permission))}
       </View>
 
       {/* Admin-only section wrapped with HOC */}
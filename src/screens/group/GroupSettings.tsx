@@ -15,6 +15,7 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../context/AppContext';
 import GroupManagementService, { GroupSettings as GroupSettingsType } from '../../services/business/groupManagement';
 import DatabaseService from '../../services/database';
+import { CurrencyCode, DEFAULT_CURRENCY, checkAmountLimits, currencyOf, formatAmount } from '../../utils/money';
 
 interface GroupSettingsProps {
   navigation: any;
@@ -36,6 +37,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
   const [originalSettings, setOriginalSettings] = useState<GroupSettingsType | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
 
   // Form state
   const [contributionAmount, setContributionAmount] = useState('');
@@ -45,6 +47,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
   const [autoProcessCycles, setAutoProcessCycles] = useState(false);
   const [requirePaymentProof, setRequirePaymentProof] = useState(false);
   const [allowMemberInvites, setAllowMemberInvites] = useState(false);
+  const [requireSwapApproval, setRequireSwapApproval] = useState(false);
   const [groupVisibility, setGroupVisibility] = useState<'private' | 'public' | 'invite_only'>('private');
 
   // Modals
@@ -65,6 +68,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
     autoProcessCycles,
     requirePaymentProof,
     allowMemberInvites,
+    requireSwapApproval,
     groupVisibility,
   ]);
 
@@ -80,6 +84,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
       }
 
       const group = groupResult.data;
+      setCurrency(currencyOf(group));
 
       // Create settings object from group data
       const currentSettings: GroupSettingsType = {
@@ -92,6 +97,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
         requirePaymentProof: group.require_payment_proof || false,
         allowMemberInvites: group.allow_member_invites || false,
         groupVisibility: (group.group_visibility as any) || 'private',
+        requireSwapApproval: group.require_swap_approval || false,
       };
 
       setSettings(currentSettings);
@@ -105,6 +111,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
       setAutoProcessCycles(currentSettings.autoProcessCycles);
       setRequirePaymentProof(currentSettings.requirePaymentProof);
       setAllowMemberInvites(currentSettings.allowMemberInvites);
+      setRequireSwapApproval(currentSettings.requireSwapApproval);
       setGroupVisibility(currentSettings.groupVisibility);
 
     } catch (error) {
@@ -128,6 +135,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
       requirePaymentProof,
       allowMemberInvites,
       groupVisibility,
+      requireSwapApproval,
     };
 
     const hasChanged = JSON.stringify(currentFormSettings) !== JSON.stringify(originalSettings);
@@ -164,6 +172,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
         requirePaymentProof,
         allowMemberInvites,
         groupVisibility,
+        requireSwapApproval,
       };
 
       const result = await GroupManagementService.updateGroupSettings({
@@ -174,10 +183,12 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
         notifyMembers: true,
       });
 
-      if (result.success) {
+      if (result.success && result.data) {
         Alert.alert('Success', 'Group settings updated successfully');
         setOriginalSettings(result.data);
         setHasChanges(false);
+      } else if (result.code === 'APPROVAL_REQUIRED') {
+        Alert.alert('Sent for Approval', result.error);
       } else {
         Alert.alert('Error', result.error || 'Failed to update settings');
       }
@@ -190,10 +201,11 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
   };
 
   const validateSettings = (): { isValid: boolean; message: string } => {
-    if (!contributionAmount || parseFloat(contributionAmount) < 1000) {
+    const amountError = checkAmountLimits(parseFloat(contributionAmount), currency, 'contribution');
+    if (amountError) {
       return {
         isValid: false,
-        message: 'Contribution amount must be at least UGX 1,000',
+        message: amountError,
       };
     }
 
@@ -239,6 +251,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
             setAutoProcessCycles(originalSettings.autoProcessCycles);
             setRequirePaymentProof(originalSettings.requirePaymentProof);
             setAllowMemberInvites(originalSettings.allowMemberInvites);
+            setRequireSwapApproval(originalSettings.requireSwapApproval);
             setGroupVisibility(originalSettings.groupVisibility);
           },
         },
@@ -254,8 +267,8 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
     if (parseFloat(contributionAmount) !== originalSettings.contributionAmount) {
       changes.push({
         setting: 'Contribution Amount',
-        from: `UGX ${originalSettings.contributionAmount.toLocaleString()}`,
-        to: `UGX ${parseFloat(contributionAmount).toLocaleString()}`,
+        from: formatAmount(originalSettings.contributionAmount, currency),
+        to: formatAmount(parseFloat(contributionAmount), currency),
       });
     }
     
@@ -323,7 +336,7 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
           <Text style={styles.sectionTitle}>Payment Settings</Text>
           
           <View style={styles.settingItem}>
-            <Text style={styles.settingLabel}>Contribution Amount (UGX)</Text>
+            <Text style={styles.settingLabel}>Contribution Amount ({currency})</Text>
             <Text style={styles.settingDescription}>
               Amount each member contributes per cycle
             </Text>
@@ -426,6 +439,20 @@ const GroupSettings: React.FC<GroupSettingsProps> = ({ navigation, route }) => {
               disabled={userRole !== 'admin'}
             />
           </View>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchInfo}>
+              <Text style={styles.settingLabel}>Require Swap Approval</Text>
+              <Text style={styles.settingDescription}>
+                Turn swaps agreed between members need your approval before the schedule changes
+              </Text>
+            </View>
+            <Switch
+              value={requireSwapApproval}
+              onValueChange={setRequireSwapApproval}
+              disabled={userRole !== 'admin'}
+            />
+          </View>
         </View>
 
         {/* Group Access Settings */}
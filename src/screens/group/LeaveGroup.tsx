@@ -15,6 +15,7 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../context/AppContext';
 import GroupManagementService, { GroupMemberDetailed } from '../../services/business/groupManagement';
 import DatabaseService from '../../services/database';
+import { CurrencyCode, DEFAULT_CURRENCY, currencyOf, formatAmount, money, multiplyMoney, subtractMoney, sumMoney, toMajor } from '../../utils/money';
 
 interface LeaveGroupProps {
   navigation: any;
@@ -35,10 +36,12 @@ const LeaveGroup: React.FC<LeaveGroupProps> = ({ navigation, route }) => {
   const [loading, setLoading] = useState(true);
   const [leaving, setLeaving] = useState(false);
   const [members, setMembers] = useState<GroupMemberDetailed[]>([]);
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
   const [userContributions, setUserContributions] = useState({
     totalPaid: 0,
     pendingAmount: 0,
     eligibleRefund: 0,
+    processingFee: 0,
     cycles: 0,
   });
   
@@ -66,27 +69,32 @@ const LeaveGroup: React.FC<LeaveGroupProps> = ({ navigation, route }) => {
         includeFinancials: true,
       });
 
-      if (membersResult.success) {
+      if (membersResult.success && membersResult.data) {
         setMembers(membersResult.data);
       }
 
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      const groupCurrency = currencyOf(groupResult.data);
+      setCurrency(groupCurrency);
+
       // Get user's contributions
-      const contributionsResult = await DatabaseService.contributions.getUserContributions(user.uid, groupId);
-      if (contributionsResult.success) {
+      const contributionsResult = await DatabaseService.contributions.getUserContributions(user.uid, { group_id: groupId });
+      if (contributionsResult.success && contributionsResult.data) {
         const contributions = contributionsResult.data.items;
         const paidContributions = contributions.filter(c => c.status === 'paid');
         const pendingContributions = contributions.filter(c => c.status === 'pending');
         
-        const totalPaid = paidContributions.reduce((sum, c) => sum + c.amount, 0);
-        const pendingAmount = pendingContributions.reduce((sum, c) => sum + c.amount, 0);
+        const totalPaid = sumMoney(paidContributions.map(c => money(c.amount, groupCurrency)), groupCurrency);
+        const pendingAmount = sumMoney(pendingContributions.map(c => money(c.amount, groupCurrency)), groupCurrency);
         
         // Calculate eligible refund (example: 90% of total paid)
-        const eligibleRefund = totalPaid * 0.9;
+        const eligibleRefund = multiplyMoney(totalPaid, 0.9);
 
         setUserContributions({
-          totalPaid,
-          pendingAmount,
-          eligibleRefund,
+          totalPaid: toMajor(totalPaid),
+          pendingAmount: toMajor(pendingAmount),
+          eligibleRefund: toMajor(eligibleRefund),
+          processingFee: toMajor(subtractMoney(totalPaid, eligibleRefund)),
           cycles: contributions.length,
         });
       }
@@ -143,8 +151,8 @@ const LeaveGroup: React.FC<LeaveGroupProps> = ({ navigation, route }) => {
         Alert.alert(
           'Left Group Successfully',
           `You have left ${groupName}. ${
-            leaveResult.data.refundAmount 
-              ? `A refund of UGX ${leaveResult.data.refundAmount.toLocaleString()} will be processed.`
+            leaveResult.data?.refundAmount
+              ? `A refund of ${formatAmount(leaveResult.data.refundAmount, currency)} will be processed.`
               : ''
           }`,
           [
@@ -236,14 +244,14 @@ const LeaveGroup: React.FC<LeaveGroupProps> = ({ navigation, route }) => {
             <View style={styles.financialItem}>
               <Text style={styles.financialLabel}>Total Contributed</Text>
               <Text style={styles.financialValue}>
-                UGX {userContributions.totalPaid.toLocaleString()}
+                {formatAmount(userContributions.totalPaid, currency)}
               </Text>
             </View>
             
             <View style={styles.financialItem}>
               <Text style={styles.financialLabel}>Pending Payments</Text>
               <Text style={styles.financialValue}>
-                UGX {userContributions.pendingAmount.toLocaleString()}
+                {formatAmount(userContributions.pendingAmount, currency)}
               </Text>
             </View>
             
@@ -257,7 +265,7 @@ const LeaveGroup: React.FC<LeaveGroupProps> = ({ navigation, route }) => {
             <View style={styles.financialItem}>
               <Text style={styles.financialLabel}>Eligible Refund</Text>
               <Text style={[styles.financialValue, styles.refundAmount]}>
-                UGX {userContributions.eligibleRefund.toLocaleString()}
+                {formatAmount(userContributions.eligibleRefund, currency)}
               </Text>
             </View>
           </View>
@@ -420,7 +428,7 @@ const LeaveGroup: React.FC<LeaveGroupProps> = ({ navigation, route }) => {
                   <View style={styles.financialRow}>
                     <Text style={styles.financialLabel}>Your Contributions</Text>
                     <Text style={styles.financialAmount}>
-                      UGX {userContributions.totalPaid.toLocaleString()}
+                      {formatAmount(userContributions.totalPaid, currency)}
                     </Text>
                   </View>
                   
@@ -429,13 +437,13 @@ const LeaveGroup: React.FC<LeaveGroupProps> = ({ navigation, route }) => {
                       <View style={styles.financialRow}>
                         <Text style={styles.financialLabel}>Processing Fee (10%)</Text>
                         <Text style={styles.financialFee}>
-                          -UGX {(userContributions.totalPaid * 0.1).toLocaleString()}
+                          -{formatAmount(userContributions.processingFee, currency)}
                         </Text>
                       </View>
                       <View style={styles.financialRow}>
                         <Text style={styles.financialLabel}>Refund Amount</Text>
                         <Text style={styles.financialRefund}>
-                          UGX {userContributions.eligibleRefund.toLocaleString()}
+                          {formatAmount(userContributions.eligibleRefund, currency)}
                         </Text>
                       </View>
                     </>
@@ -443,7 +451,7 @@ const LeaveGroup: React.FC<LeaveGroupProps> = ({ navigation, route }) => {
                     <View style={styles.financialRow}>
                       <Text style={styles.financialLabel}>Forfeited Amount</Text>
                       <Text style={styles.financialForfeit}>
-                        UGX {userContributions.totalPaid.toLocaleString()}
+                        {formatAmount(userContributions.totalPaid, currency)}
                       </Text>
                     </View>
                   )}
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { MainStackScreenProps } from '../../navigation/types';
+import AuthService from '../../services/auth';
+import AuditLogService, { AUDIT_CATEGORY_LABELS, SYSTEM_ACTOR } from '../../services/business/auditLog';
+import DatabaseService, { AuditCategory, AuditChange, AuditEntry } from '../../services/database';
+import { AuditChainVerification } from '../../types/business';
+
+type Props = MainStackScreenProps<'AuditLog'>;
+
+const CATEGORIES = Object.keys(AUDIT_CATEGORY_LABELS) as AuditCategory[];
+
+// 'payment_confirmed' -> 'Payment confirmed'
+const actionLabel = (action: string): string => {
+  const words = action.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value instanceof Date) return value.toLocaleDateString();
+  return JSON.stringify(value) ?? String(value);
+};
+
+const AuditLogScreen: React.FC<Props> = ({ route }) => {
+  const { groupId } = route.params;
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [category, setCategory] = useState<AuditCategory | null>(null);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser) return;
+
+    const [trailResult, verifyResult] = await Promise.all([
+      AuditLogService.getAuditTrail({
+        groupId,
+        userId: currentUser.uid,
+        filters: category ? { category } : {},
+      }),
+      AuditLogService.verifyChain(groupId),
+    ]);
+
+    if (!trailResult.success || !trailResult.data) {
+      setError(trailResult.error || 'Failed to load audit trail');
+      return;
+    }
+    setError(null);
+    setEntries(trailResult.data);
+    setVerification(verifyResult.data || null);
+
+    const names: Record<string, string> = {};
+    for (const actorId of new Set(trailResult.data.map(entry => entry.actor_id))) {
+      if (actorId === SYSTEM_ACTOR) {
+        names[actorId] = 'Ajoturn';
+      } else {
+        const userResult = await DatabaseService.users.getUserById(actorId);
+        names[actorId] = userResult.data?.name || 'Former member';
+      }
+    }
+    setActorNames(names);
+  }, [groupId, category]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadEntries().finally(() => setLoading(false));
+  }, [loadEntries]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadEntries();
+    setRefreshing(false);
+  };
+
+  const renderVerification = () => {
+    if (!verification) return null;
+
+    return (
+      <View style={[styles.verification, !verification.valid && styles.verificationBroken]}>
+        <Icon
+          name={verification.valid ? 'verified' : 'gpp-bad'}
+          size={20}
+          color={verification.valid ? '#2f855a' : '#c53030'}
+        />
+        <View style={styles.verificationText}>
+          <Text style={[styles.verificationTitle, !verification.valid && styles.verificationTitleBroken]}>
+            {verification.valid
+              ? `All ${verification.entryCount} entries verified`
+              : `Audit trail altered at entry #${verification.brokenAt}`}
+          </Text>
+          {verification.headHash && (
+            <Text style={styles.hashText}>Latest hash {verification.headHash.slice(0, 16)}…</Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderFilters = () => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.filters}
+      contentContainerStyle={styles.filtersContent}
+    >
+      {[null, ...CATEGORIES].map(item => (
+        <TouchableOpacity
+          key={item || 'all'}
+          style={[styles.filterChip, category === item && styles.filterChipActive]}
+          onPress={() => setCategory(item)}
+        >
+          <Text style={[styles.filterText, category === item && styles.filterTextActive]}>
+            {item ? AUDIT_CATEGORY_LABELS[item] : 'All'}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const renderChange = (change: AuditChange) => (
+    <Text key={change.field} style={styles.changeText}>
+      {change.field}: {formatValue(change.before)} → {formatValue(change.after)}
+    </Text>
+  );
+
+  const renderEntry = ({ item }: { item: AuditEntry }) => (
+    <View style={styles.entry}>
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryAction}>{actionLabel(item.action)}</Text>
+        <Text style={styles.entryCategory}>{AUDIT_CATEGORY_LABELS[item.category]}</Text>
+      </View>
+      <Text style={styles.entryMeta}>
+        {actorNames[item.actor_id] || '…'} • {new Date(item.created_at).toLocaleString()}
+      </Text>
+      {item.reason ? <Text style={styles.entryReason}>{item.reason}</Text> : null}
+      {item.changes.length > 0 && <View style={styles.changes}>{item.changes.map(renderChange)}</View>}
+      <Text style={styles.hashText}>
+        #{item.sequence} • {item.hash.slice(0, 12)}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {renderVerification()}
+      {renderFilters()}
+      <FlatList
+        style={styles.list}
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={item => item.id}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Icon name="history" size={48} color="#a0aec0" />
+            <Text style={styles.emptyText}>
+              {loading ? 'Loading audit trail...' : error || 'No recorded actions yet'}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  verification: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#f0fff4',
+    borderWidth: 1,
+    borderColor: '#c6f6d5',
+  },
+  verificationBroken: {
+    backgroundColor: '#fff5f5',
+    borderColor: '#fed7d7',
+  },
+  verificationText: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  verificationTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2f855a',
+  },
+  verificationTitleBroken: {
+    color: '#c53030',
+  },
+  filters: {
+    flexGrow: 0,
+  },
+  filtersContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  filterChipActive: {
+    backgroundColor: '#3182ce',
+    borderColor: '#3182ce',
+  },
+  filterText: {
+    fontSize: 13,
+    color: '#4a5568',
+  },
+  filterTextActive: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  list: {
+    flex: 1,
+  },
+  entry: {
+    padding: 16,
+    backgroundColor: '#ffffff',
+    marginHorizontal: 16,
+    marginVertical: 4,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  entryAction: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a202c',
+  },
+  entryCategory: {
+    fontSize: 12,
+    color: '#3182ce',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 4,
+  },
+  entryReason: {
+    fontSize: 13,
+    color: '#4a5568',
+    marginTop: 6,
+  },
+  changes: {
+    marginTop: 6,
+    paddingLeft: 8,
+    borderLeftWidth: 2,
+    borderLeftColor: '#e2e8f0',
+  },
+  changeText: {
+    fontSize: 12,
+    color: '#4a5568',
+    marginVertical: 1,
+  },
+  hashText: {
+    fontSize: 11,
+    color: '#a0aec0',
+    marginTop: 6,
+    fontFamily: 'monospace',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 48,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#718096',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+});
+
+export default AuditLogScreen;
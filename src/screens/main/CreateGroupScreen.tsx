@@ -16,12 +16,25 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { MainStackScreenProps } from '../../navigation/types';
 import AuthService from '../../services/auth';
 import GroupInviteService from '../../services/groupInvites';
+import {
+  CurrencyCode,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  checkAmountLimits,
+  formatAmount,
+  formatMoney,
+  getCurrency,
+  localeFor,
+  money,
+  multiplyMoney,
+} from '../../utils/money';
 
 const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navigation }) => {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
     contributionAmount: '',
+    currency: DEFAULT_CURRENCY as CurrencyCode,
     maxMembers: '10',
     contributionFrequency: 'monthly' as 'daily' | 'weekly' | 'monthly',
     gracePeriodDays: '3',
@@ -36,7 +49,7 @@ const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navi
   };
 
   const validateForm = () => {
-    const { name, contributionAmount, maxMembers } = formData;
+    const { name, contributionAmount, currency, maxMembers } = formData;
 
     if (!name.trim()) {
       Alert.alert('Error', 'Please enter a group name');
@@ -48,8 +61,9 @@ const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navi
       return false;
     }
 
-    if (Number(contributionAmount) < 1000) {
-      Alert.alert('Error', 'Minimum contribution amount is ₦1,000');
+    const amountError = checkAmountLimits(Number(contributionAmount), currency, 'contribution');
+    if (amountError) {
+      Alert.alert('Error', amountError);
       return false;
     }
 
@@ -118,6 +132,7 @@ const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navi
         name: formData.name.trim(),
         description: formData.description.trim() || undefined,
         contribution_amount: Number(formData.contributionAmount),
+        currency: formData.currency,
         total_members: 1, // Will be set by the service
         admin_id: currentUser.uid,
         status: 'active' as const,
@@ -144,6 +159,7 @@ const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navi
         name: groupData.name,
         description: groupData.description,
         contribution_amount: groupData.contribution_amount,
+        currency: groupData.currency,
         max_members: groupData.max_members,
         admin_id: currentUser.uid,
         status: 'active',
@@ -178,7 +194,7 @@ const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navi
     const numericValue = value.replace(/[^0-9]/g, '');
     if (!numericValue) return '';
     
-    return new Intl.NumberFormat('en-NG').format(Number(numericValue));
+    return new Intl.NumberFormat(localeFor(formData.currency)).format(Number(numericValue));
   };
 
   const frequencyOptions = [
@@ -245,11 +261,7 @@ const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navi
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Contribution Amount:</Text>
               <Text style={styles.summaryValue}>
-                {new Intl.NumberFormat('en-NG', { 
-                  style: 'currency', 
-                  currency: 'NGN',
-                  minimumFractionDigits: 0 
-                }).format(Number(formData.contributionAmount))}
+                {formatAmount(Number(formData.contributionAmount), formData.currency)}
               </Text>
             </View>
             <View style={styles.summaryRow}>
@@ -335,11 +347,40 @@ const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navi
               </View>
             </View>
 
+            {/* Currency */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Currency *</Text>
+              <View style={styles.currencyContainer}>
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <TouchableOpacity
+                    key={code}
+                    style={[
+                      styles.currencyButton,
+                      formData.currency === code && styles.frequencyButtonActive,
+                    ]}
+                    onPress={() => updateFormData('currency', code)}
+                  >
+                    <Text
+                      style={[
+                        styles.frequencyButtonText,
+                        formData.currency === code && styles.frequencyButtonTextActive,
+                      ]}
+                    >
+                      {code}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.helpText}>
+                {getCurrency(formData.currency).name}. All contributions and payouts use this currency
+              </Text>
+            </View>
+
             {/* Contribution Amount */}
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Contribution Amount *</Text>
               <View style={styles.inputContainer}>
-                <Text style={styles.currencySymbol}>₦</Text>
+                <Text style={styles.currencySymbol}>{getCurrency(formData.currency).symbol}</Text>
                 <TextInput
                   style={styles.textInput}
                   placeholder="10,000"
@@ -427,7 +468,7 @@ const CreateGroupScreen: React.FC<MainStackScreenProps<'CreateGroup'>> = ({ navi
                 <View style={styles.summaryRow}>
                   <Text style={styles.summaryLabel}>Total Pool Amount:</Text>
                   <Text style={styles.summaryValue}>
-                    ₦{formatCurrency((Number(formData.contributionAmount) * Number(formData.maxMembers)).toString())}
+                    {formatMoney(multiplyMoney(money(Number(formData.contributionAmount), formData.currency), Number(formData.maxMembers)))}
                   </Text>
                 </View>
                 <View style={styles.summaryRow}>
@@ -552,6 +593,19 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     borderRadius: 8,
   },
+  currencyContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    padding: 4,
+  },
+  currencyButton: {
+    width: '25%',
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
   frequencyButtonActive: {
     backgroundColor: '#1E40AF',
   },
@@ -10,6 +10,8 @@ import {
   Alert,
 } from 'react-native';
 import { MainTabScreenProps } from '../../navigation/types';
+import { CurrencyCode, formatAmount } from '../../utils/money';
+import SyncStatusBanner from '../../components/SyncStatusBanner';
 
 type Props = MainTabScreenProps<'Dashboard'>;
 
@@ -20,6 +22,7 @@ interface GroupSummary {
   nextPayoutDate: string;
   memberCount: number;
   myPosition: number;
+  currency: CurrencyCode;
 }
 
 interface QuickStats {
@@ -27,6 +30,7 @@ interface QuickStats {
   activeGroups: number;
   nextPayout: number;
   reliabilityScore: number;
+  currency: CurrencyCode; // totals are shown in the user's home currency
 }
 
 const DashboardScreen: React.FC<Props> = ({ navigation }) => {
@@ -37,6 +41,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     activeGroups: 3,
     nextPayout: 500000,
     reliabilityScore: 98,
+    currency: 'NGN',
   });
 
   const [groups, setGroups] = useState<GroupSummary[]>([
@@ -47,6 +52,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
       nextPayoutDate: '2024-03-15',
       memberCount: 10,
       myPosition: 3,
+      currency: 'NGN',
     },
     {
       id: '2',
@@ -55,6 +61,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
       nextPayoutDate: '2024-03-20',
       memberCount: 8,
       myPosition: 5,
+      currency: 'NGN',
     },
     {
       id: '3',
@@ -63,6 +70,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
       nextPayoutDate: '2024-04-01',
       memberCount: 20,
       myPosition: 12,
+      currency: 'NGN',
     },
   ]);
 
@@ -110,8 +118,8 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     });
   };
 
-  const formatCurrency = (amount: number) => {
-    return `₦${amount.toLocaleString()}`;
+  const formatCurrency = (amount: number, currency: CurrencyCode) => {
+    return formatAmount(amount, currency);
   };
 
   const formatDate = (dateString: string) => {
@@ -139,6 +147,8 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
         }
         showsVerticalScrollIndicator={false}
       >
+        <SyncStatusBanner />
+
         {/* Quick Stats */}
         <View style={styles.statsContainer}>
           <Text style={styles.welcomeText}>Welcome back! 👋</Text>
@@ -146,7 +156,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
           
           <View style={styles.statsGrid}>
             <View style={styles.statCard}>
-              <Text style={styles.statValue}>{formatCurrency(stats.totalSavings)}</Text>
+              <Text style={styles.statValue}>{formatCurrency(stats.totalSavings, stats.currency)}</Text>
               <Text style={styles.statLabel}>Total Savings</Text>
             </View>
             
@@ -156,7 +166,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
             </View>
             
             <View style={styles.statCard}>
-              <Text style={styles.statValue}>{formatCurrency(stats.nextPayout)}</Text>
+              <Text style={styles.statValue}>{formatCurrency(stats.nextPayout, stats.currency)}</Text>
               <Text style={styles.statLabel}>Next Payout</Text>
             </View>
             
@@ -217,7 +227,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
               </View>
               
               <View style={styles.groupDetails}>
-                <Text style={styles.groupAmount}>{formatCurrency(group.totalAmount)}</Text>
+                <Text style={styles.groupAmount}>{formatCurrency(group.totalAmount, group.currency)}</Text>
                 <Text style={styles.groupMembers}>{group.memberCount} members</Text>
               </View>
               
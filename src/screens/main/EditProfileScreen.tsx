@@ -10,6 +10,7 @@ import {
   Image,
 } from 'react-native';
 import { MainStackScreenProps } from '../../navigation/types';
+import { LanguageCode, SUPPORTED_LANGUAGES, getLanguage } from '../../utils/languages';
 
 type Props = MainStackScreenProps<'EditProfile'>;
 
@@ -20,6 +21,7 @@ interface UserProfile {
   bvn: string;
   dateOfBirth: string;
   address: string;
+  language: LanguageCode;
 }
 
 const EditProfileScreen: React.FC<Props> = ({ navigation }) => {
@@ -30,6 +32,7 @@ const EditProfileScreen: React.FC<Props> = ({ navigation }) => {
     bvn: '12345678901',
     dateOfBirth: '1990-01-01',
     address: 'Lagos, Nigeria',
+    language: 'en',
   });
 
   const [loading, setLoading] = useState(false);
@@ -99,7 +102,7 @@ const EditProfileScreen: React.FC<Props> = ({ navigation }) => {
     );
   };
 
-  const updateProfile = (field: keyof UserProfile, value: string) => {
+  const updateProfile = (field: Exclude<keyof UserProfile, 'language'>, value: string) => {
     setProfile(prev => ({ ...prev, [field]: value }));
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: undefined }));
@@ -195,6 +198,26 @@ const EditProfileScreen: React.FC<Props> = ({ navigation }) => {
           />
         </View>
 
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Notification Language</Text>
+          <View style={styles.chipRow}>
+            {SUPPORTED_LANGUAGES.map(code => (
+              <TouchableOpacity
+                key={code}
+                style={[styles.chip, profile.language === code && styles.chipSelected]}
+                onPress={() => setProfile(prev => ({ ...prev, language: code }))}
+              >
+                <Text style={[styles.chipText, profile.language === code && styles.chipTextSelected]}>
+                  {getLanguage(code).nativeName}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.helpText}>
+            Reminders, payout updates and SMS are sent in this language
+          </Text>
+        </View>
+
         <View style={styles.buttonContainer}>
           <TouchableOpacity 
             style={[styles.button, styles.cancelButton]} 
@@ -278,6 +301,31 @@ const styles = StyleSheet.create({
   textArea: {
     height: 80,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+  },
+  chipSelected: {
+    backgroundColor: '#3182ce',
+    borderColor: '#3182ce',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#2d3748',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
   errorText: {
     fontSize: 12,
     color: '#e53e3e',
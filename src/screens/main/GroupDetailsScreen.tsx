@@ -14,6 +14,11 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { MainStackScreenProps } from '../../navigation/types';
 // import DatabaseService from '../../services/database';
 import AuthService from '../../services/auth';
+import { currencyOf, formatAmount, localeFor } from '../../utils/money';
+import PaymentProgressBar from '../../components/PaymentProgressBar';
+import WalletCard from '../../components/WalletCard';
+import PayoutCard from '../../components/PayoutCard';
+import { hasGroupPermission } from '../../utils/permissions';
 // import BusinessLogicService from '../../services/business';
 // import { PaymentStatusSummary, TurnOrder } from '../../types/business';
 
@@ -185,11 +190,7 @@ const GroupDetailsScreen: React.FC<MainStackScreenProps<'GroupDetails'>> = ({ na
   }, [groupId]);
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN',
-      minimumFractionDigits: 0,
-    }).format(amount);
+    return formatAmount(amount, currencyOf(groupData.group));
   };
 
   const handleMakePayment = () => {
@@ -241,6 +242,7 @@ const GroupDetailsScreen: React.FC<MainStackScreenProps<'GroupDetails'>> = ({ na
   );
 
   const renderTabContent = () => {
+    const currentUser = AuthService.getCurrentUser();
     switch (activeTab) {
       case 'overview':
         return (
@@ -301,22 +303,42 @@ const GroupDetailsScreen: React.FC<MainStackScreenProps<'GroupDetails'>> = ({ na
                   ))}
                 </View>
                 
-                <View style={styles.progressContainer}>
-                  <View style={styles.progressBar}>
-                    <View 
-                      style={[
-                        styles.progressFill, 
-                        { width: `${groupData.paymentStatus.completionRate}%` }
-                      ]} 
-                    />
-                  </View>
+                <PaymentProgressBar
+                  totalMembers={groupData.paymentStatus.totalMembers}
+                  confirmedCount={groupData.paymentStatus.paidMembers}
+                  partialCount={groupData.paymentStatus.partiallyPaidMembers}
+                  totalAmount={groupData.paymentStatus.totalExpected}
+                  collectedAmount={groupData.paymentStatus.totalCollected}
+                  currency={groupData.paymentStatus.currency}
+                  showDetails={false}
+                  size="small"
+                />
+                {groupData.paymentStatus.partiallyPaidMembers > 0 && (
                   <Text style={styles.progressText}>
-                    {Math.round(groupData.paymentStatus.completionRate)}% Complete
+                    {groupData.paymentStatus.partiallyPaidMembers} paid in part
                   </Text>
-                </View>
+                )}
               </View>
             )}
 
+            {groupData.group && currentUser && (
+              <WalletCard
+                groupId={groupId}
+                userId={currentUser.uid}
+                currency={currencyOf(groupData.group)}
+                canDecide={hasGroupPermission(groupData.group, currentUser.uid, 'canMarkPayments')}
+              />
+            )}
+
+            {groupData.group && currentUser && (
+              <PayoutCard
+                groupId={groupId}
+                userId={currentUser.uid}
+                currency={currencyOf(groupData.group)}
+                canSend={hasGroupPermission(groupData.group, currentUser.uid, 'canManageCycles')}
+              />
+            )}
+
             {/* Current Recipient Info */}
             {groupData.currentRecipient && (
               <View style={styles.recipientCard}>
@@ -353,7 +375,7 @@ const GroupDetailsScreen: React.FC<MainStackScreenProps<'GroupDetails'>> = ({ na
                   <Text style={styles.deadlineTitle}>Next Payment Deadline</Text>
                 </View>
                 <Text style={styles.deadlineDate}>
-                  {groupData.nextPaymentDeadline.toLocaleDateString('en-US', {
+                  {groupData.nextPaymentDeadline.toLocaleDateString(localeFor(currencyOf(groupData.group)), {
                     weekday: 'long',
                     year: 'numeric',
                     month: 'long',
@@ -405,6 +427,15 @@ const GroupDetailsScreen: React.FC<MainStackScreenProps<'GroupDetails'>> = ({ na
                 </TouchableOpacity>
               )}
             </View>
+
+            <TouchableOpacity
+              style={styles.auditLink}
+              onPress={() => navigation.navigate('AuditLog', { groupId })}
+            >
+              <Icon name="history" size={18} color="#1E40AF" />
+              <Text style={styles.auditLinkText}>View audit log</Text>
+              <Icon name="chevron-right" size={18} color="#1E40AF" />
+            </TouchableOpacity>
           </View>
         );
         
@@ -671,17 +702,6 @@ const styles = StyleSheet.create({
   cycleProgress: {
     marginBottom: 12,
   },
-  progressBar: {
-    height: 8,
-    backgroundColor: '#BAE6FD',
-    borderRadius: 4,
-    marginBottom: 8,
-  },
-  progressFill: {
-    height: '100%',
-    backgroundColor: '#0EA5E9',
-    borderRadius: 4,
-  },
   progressText: {
     fontSize: 14,
     color: '#0C4A6E',
@@ -719,6 +739,19 @@ const styles = StyleSheet.create({
   secondaryButtonText: {
     color: '#1E40AF',
   },
+  auditLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+    paddingVertical: 10,
+    gap: 6,
+  },
+  auditLinkText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1E40AF',
+  },
   membersList: {
     gap: 12,
   },
@@ -902,9 +935,6 @@ const styles = StyleSheet.create({
   overdueText: {
     color: '#DC2626',
   },
-  progressContainer: {
-    gap: 8,
-  },
   recipientCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 16,
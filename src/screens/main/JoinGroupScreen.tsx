@@ -16,6 +16,7 @@ import { MainStackScreenProps } from '../../navigation/types';
 // import DatabaseService from '../../services/database';
 import AuthService from '../../services/auth';
 import GroupInviteService from '../../services/groupInvites';
+import { currencyOf, formatAmount } from '../../utils/money';
 
 const JoinGroupScreen: React.FC<MainStackScreenProps<'JoinGroup'>> = ({ navigation, route }) => {
   const [groupCode, setGroupCode] = useState(route.params?.groupCode || '');
@@ -214,13 +215,6 @@ const JoinGroupScreen: React.FC<MainStackScreenProps<'JoinGroup'>> = ({ navigati
     return () => clearTimeout(timeoutId);
   }, [searchQuery]);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
 
   const renderGroupCard = ({ item }: { item: NavigationGroup }) => (
     <TouchableOpacity
@@ -249,7 +243,7 @@ const JoinGroupScreen: React.FC<MainStackScreenProps<'JoinGroup'>> = ({ navigati
             {item.name}
           </Text>
           <Text style={styles.groupDetails}>
-            {formatCurrency(item.contribution_amount)} • {item.contribution_frequency}
+            {formatAmount(item.contribution_amount, currencyOf(item))} • {item.contribution_frequency}
           </Text>
           <Text style={styles.groupMembers}>
             {item.memberCount}/{item.max_members} members
@@ -341,7 +335,7 @@ const JoinGroupScreen: React.FC<MainStackScreenProps<'JoinGroup'>> = ({ navigati
                       <View style={styles.previewInfo}>
                         <Text style={styles.previewName}>{validatedGroup.name}</Text>
                         <Text style={styles.previewDetails}>
-                          {formatCurrency(validatedGroup.contribution_amount)} • {validatedGroup.contribution_frequency}
+                          {formatAmount(validatedGroup.contribution_amount, currencyOf(validatedGroup))} • {validatedGroup.contribution_frequency}
                         </Text>
                         <Text style={styles.previewMembers}>
                           {validatedGroup.total_members}/{validatedGroup.max_members} members
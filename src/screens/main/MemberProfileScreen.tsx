@@ -9,6 +9,7 @@ import {
   Alert,
 } from 'react-native';
 import { MainStackScreenProps } from '../../navigation/types';
+import { CurrencyCode, formatAmount } from '../../utils/money';
 
 type Props = MainStackScreenProps<'MemberProfile'>;
 
@@ -25,6 +26,7 @@ interface Member {
   }>;
   reliability: number;
   totalContributions: number;
+  currency: CurrencyCode;
 }
 
 const MemberProfileScreen: React.FC<Props> = ({ navigation, route }) => {
@@ -48,6 +50,7 @@ const MemberProfileScreen: React.FC<Props> = ({ navigation, route }) => {
         ],
         reliability: 98,
         totalContributions: 150000,
+        currency: 'NGN',
       });
       setLoading(false);
     }, 1000);
@@ -105,7 +108,7 @@ const MemberProfileScreen: React.FC<Props> = ({ navigation, route }) => {
 
       <View style={styles.statsSection}>
         <View style={styles.statItem}>
-          <Text style={styles.statValue}>₦{member.totalContributions.toLocaleString()}</Text>
+          <Text style={styles.statValue}>{formatAmount(member.totalContributions, member.currency)}</Text>
           <Text style={styles.statLabel}>Total Contributions</Text>
         </View>
         <View style={styles.statItem}>
@@ -135,7 +138,7 @@ const MemberProfileScreen: React.FC<Props> = ({ navigation, route }) => {
         {member.paymentHistory.map((payment, index) => (
           <View key={index} style={styles.paymentItem}>
             <View style={styles.paymentInfo}>
-              <Text style={styles.paymentAmount}>₦{payment.amount.toLocaleString()}</Text>
+              <Text style={styles.paymentAmount}>{formatAmount(payment.amount, member.currency)}</Text>
               <Text style={styles.paymentDate}>{payment.date}</Text>
             </View>
             <View style={[styles.paymentStatus, styles[`status${payment.status}`]]}>
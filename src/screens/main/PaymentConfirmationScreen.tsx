@@ -7,11 +7,12 @@ import {
   Animated,
 } from 'react-native';
 import { MainStackScreenProps } from '../../navigation/types';
+import { formatAmount } from '../../utils/money';
 
 type Props = MainStackScreenProps<'PaymentConfirmation'>;
 
 const PaymentConfirmationScreen: React.FC<Props> = ({ navigation, route }) => {
-  const { paymentId, amount, recipient } = route.params;
+  const { paymentId, amount, currency, recipient } = route.params;
   const scaleValue = new Animated.Value(0);
   const fadeValue = new Animated.Value(0);
 
@@ -71,7 +72,7 @@ const PaymentConfirmationScreen: React.FC<Props> = ({ navigation, route }) => {
             
             <View style={styles.infoRow}>
               <Text style={styles.infoLabel}>Amount</Text>
-              <Text style={styles.amountValue}>₦{amount.toLocaleString()}</Text>
+              <Text style={styles.amountValue}>{formatAmount(amount, currency)}</Text>
             </View>
             
             <View style={styles.infoRow}>
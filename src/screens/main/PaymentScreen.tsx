@@ -12,31 +12,38 @@ import {
   Alert,
   ActivityIndicator,
   Image,
+  Linking,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { MainStackScreenProps } from '../../navigation/types';
-// import DatabaseService from '../../services/database';
+import DatabaseService, { CollectionAccount, GatewayPaymentMethod, PaymentTransaction } from '../../services/database';
+import AuthService from '../../services/auth';
+import PaymentService from '../../services/payments';
+import BankReconciliationService from '../../services/business/bankReconciliation';
+import { currencyOf, formatAmount, localeFor } from '../../utils/money';
+import ReceiptAttachments from '../../components/ReceiptAttachments';
 
 const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation, route }) => {
   const { contributionId, groupId, amount } = route.params;
   
   const [isLoading, setIsLoading] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState<'bank_transfer' | 'card' | 'mobile_money'>('bank_transfer');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<GatewayPaymentMethod>('bank_transfer');
   const [contributionData, setContributionData] = useState<any>(null);
   const [groupData, setGroupData] = useState<any>(null);
-  const [paymentDetails, setPaymentDetails] = useState({
-    transactionReference: '',
-    paymentProof: '',
-    notes: '',
-  });
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [transaction, setTransaction] = useState<PaymentTransaction | null>(null);
+  const [groupAccount, setGroupAccount] = useState<{ account: CollectionAccount; reference: string } | null>(null);
 
   const loadPaymentData = async () => {
     setIsLoading(true);
     try {
       // Load contribution details
-      const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
-      if (contributionResult.success && contributionResult.data) {
-        setContributionData(contributionResult.data);
+      if (contributionId) {
+        const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+        if (contributionResult.success && contributionResult.data) {
+          setContributionData(contributionResult.data);
+        }
       }
 
       // Load group details
@@ -44,6 +51,15 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
       if (groupResult.success && groupResult.data) {
         setGroupData(groupResult.data);
       }
+
+      // Groups with a collection account take transfers there, matched by the member's reference
+      const currentUser = AuthService.getCurrentUser();
+      if (groupResult.data?.collection_account && currentUser) {
+        const instructionsResult = await BankReconciliationService.getPaymentInstructions(groupId, currentUser.uid);
+        if (instructionsResult.success && instructionsResult.data?.account) {
+          setGroupAccount({ account: instructionsResult.data.account, reference: instructionsResult.data.reference });
+        }
+      }
     } catch (error) {
       console.error('Error loading payment data:', error);
     } finally {
@@ -55,16 +71,10 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
     loadPaymentData();
   }, [contributionId, groupId]);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
+  const formatCurrency = (value: number) => formatAmount(value, currencyOf(groupData));
 
   const formatDate = (date: Date) => {
-    return new Intl.DateTimeFormat('en-NG', {
+    return new Intl.DateTimeFormat(localeFor(currencyOf(groupData)), {
       weekday: 'short',
       year: 'numeric',
       month: 'short',
@@ -72,49 +82,106 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
     }).format(date);
   };
 
-  const handlePayment = async () => {
-    if (!paymentDetails.transactionReference.trim()) {
-      Alert.alert('Error', 'Please enter the transaction reference');
+  // Ask the payment provider for a checkout page, transfer account or phone prompt
+  const handleStartPayment = async () => {
+    const currentUser = AuthService.getCurrentUser();
+    if (!currentUser || !contributionId) {
+      Alert.alert('Error', 'Please sign in to make a payment');
+      return;
+    }
+    if (paymentMethod === 'mobile_money' && !phoneNumber.trim()) {
+      Alert.alert('Error', 'Please enter your mobile money number');
       return;
     }
 
-    setIsLoading(true);
-    
+    setIsProcessing(true);
+
     try {
-      const result = await DatabaseService.contributions.markAsPaid(contributionId, {
-        paid_date: new Date(),
-        payment_method: paymentMethod,
-        transaction_reference: paymentDetails.transactionReference,
-        payment_proof_url: paymentDetails.paymentProof || undefined,
+      const result = await PaymentService.startContributionPayment({
+        contributionId,
+        userId: currentUser.uid,
+        method: paymentMethod,
+        phoneNumber: phoneNumber.trim() || undefined,
       });
 
-      if (result.success) {
-        Alert.alert(
-          'Payment Recorded',
-          'Your payment has been recorded successfully and is pending verification.',
-          [
+      if (!result.success || !result.data) {
+        Alert.alert('Error', result.error || 'Failed to start payment');
+        return;
+      }
+
+      setTransaction(result.data);
+      if (result.data.authorization_url) {
+        await Linking.openURL(result.data.authorization_url);
+      }
+    } catch (error) {
+      console.error('Error starting payment:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Ask for the payment to be checked with the provider; a confirmed payment marks the contribution paid
+  const handleVerifyPayment = async () => {
+    const currentUser = AuthService.getCurrentUser();
+    if (!transaction || !currentUser) {
+      return;
+    }
+
+    setIsProcessing(true);
+
+    try {
+      const result = await PaymentService.requestVerification({
+        reference: transaction.id,
+        userId: currentUser.uid,
+      });
+      if (!result.success || !result.data) {
+        Alert.alert('Error', result.error || 'Failed to check payment');
+        return;
+      }
+
+      switch (result.data.status) {
+        case 'success':
+          setTransaction(result.data);
+          Alert.alert('Payment Confirmed', 'Your contribution has been paid. Thank you!', [
             {
               text: 'OK',
               onPress: () => {
                 navigation.goBack();
               },
             },
-          ]
-        );
-      } else {
-        Alert.alert('Error', result.error || 'Failed to record payment');
+          ]);
+          break;
+        case 'failed':
+          setTransaction(null);
+          Alert.alert('Payment Failed', result.data.failure_reason || 'The payment did not go through. Please try again.');
+          break;
+        default:
+          setTransaction(result.data);
+          Alert.alert(
+            'Payment Pending',
+            'We are checking your payment with the provider. If you have already paid, please check again in a few minutes.'
+          );
       }
     } catch (error) {
-      console.error('Error recording payment:', error);
+      console.error('Error verifying payment:', error);
       Alert.alert('Error', 'An unexpected error occurred');
     } finally {
-      setIsLoading(false);
+      setIsProcessing(false);
     }
   };
 
-  const handleUploadProof = () => {
-    // In a real app, this would open image picker or camera
-    Alert.alert('Upload Proof', 'Image picker would open here to upload payment proof');
+  const handleTransferSent = () => {
+    Alert.alert(
+      'Thank You',
+      'Your contribution will be marked paid once the transfer shows up on the group account statement.',
+      [{ text: 'OK', onPress: () => navigation.goBack() }]
+    );
+  };
+
+  const handleSelectMethod = (method: GatewayPaymentMethod) => {
+    setPaymentMethod(method);
+    setTransaction(null);
   };
 
   if (isLoading || !contributionData || !groupData) {
@@ -130,9 +197,12 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
     {
       id: 'bank_transfer',
       title: 'Bank Transfer',
-      subtitle: 'Transfer to group account',
+      subtitle: groupAccount ? 'Transfer to the group account' : 'Transfer to a one-time account',
       icon: 'account-balance',
       color: '#1E40AF',
+      action: groupAccount ? "I've Sent the Transfer" : 'Get Account Details',
+      // Transfers to the group account are confirmed from its statement, not a provider
+      available: !!groupAccount || PaymentService.isMethodAvailable('bank_transfer'),
     },
     {
       id: 'mobile_money',
@@ -140,6 +210,8 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
       subtitle: 'Pay via mobile wallet',
       icon: 'phone-android',
       color: '#10B981',
+      action: 'Send Payment Prompt',
+      available: PaymentService.isMethodAvailable('mobile_money'),
     },
     {
       id: 'card',
@@ -147,10 +219,13 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
       subtitle: 'Pay with your card',
       icon: 'credit-card',
       color: '#F59E0B',
+      action: 'Pay with Card',
+      available: PaymentService.isMethodAvailable('card'),
     },
   ];
 
   const selectedMethod = paymentMethods.find(m => m.id === paymentMethod);
+  const usesGroupAccount = paymentMethod === 'bank_transfer' && !!groupAccount;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -198,15 +273,19 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
                 style={[
                   styles.paymentMethodCard,
                   paymentMethod === method.id && styles.paymentMethodCardSelected,
+                  !method.available && styles.paymentMethodCardDisabled,
                 ]}
-                onPress={() => setPaymentMethod(method.id as any)}
+                onPress={() => handleSelectMethod(method.id as GatewayPaymentMethod)}
+                disabled={!method.available}
               >
                 <View style={styles.paymentMethodIcon}>
                   <Icon name={method.icon} size={24} color={method.color} />
                 </View>
                 <View style={styles.paymentMethodInfo}>
                   <Text style={styles.paymentMethodTitle}>{method.title}</Text>
-                  <Text style={styles.paymentMethodSubtitle}>{method.subtitle}</Text>
+                  <Text style={styles.paymentMethodSubtitle}>
+                    {method.available ? method.subtitle : 'Not available yet'}
+                  </Text>
                 </View>
                 <View style={styles.radioButton}>
                   {paymentMethod === method.id && (
@@ -229,30 +308,75 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
                 </Text>
               </View>
               
-              {paymentMethod === 'bank_transfer' && (
+              {usesGroupAccount && groupAccount && (
                 <View style={styles.bankDetails}>
                   <View style={styles.bankDetailRow}>
                     <Text style={styles.bankDetailLabel}>Bank Name:</Text>
-                    <Text style={styles.bankDetailValue}>First Bank of Nigeria</Text>
+                    <Text style={styles.bankDetailValue}>{groupAccount.account.bank_name}</Text>
                   </View>
                   <View style={styles.bankDetailRow}>
                     <Text style={styles.bankDetailLabel}>Account Name:</Text>
-                    <Text style={styles.bankDetailValue}>Ajoturn Group Account</Text>
+                    <Text style={styles.bankDetailValue}>{groupAccount.account.account_name}</Text>
                   </View>
                   <View style={styles.bankDetailRow}>
                     <Text style={styles.bankDetailLabel}>Account Number:</Text>
-                    <Text style={styles.bankDetailValue}>1234567890</Text>
+                    <Text style={styles.bankDetailValue}>{groupAccount.account.account_number}</Text>
+                  </View>
+                  <View style={styles.bankDetailRow}>
+                    <Text style={styles.bankDetailLabel}>Your Reference:</Text>
+                    <Text style={styles.bankDetailValue}>{groupAccount.reference}</Text>
                   </View>
                   <Text style={styles.instructionNote}>
-                    Please use your name and group name as reference when making the transfer.
+                    Transfer exactly {formatCurrency(amount)} and put {groupAccount.reference} in the transfer
+                    narration so your payment is matched to you automatically.
                   </Text>
                 </View>
               )}
+
+              {paymentMethod === 'bank_transfer' && !usesGroupAccount && (
+                transaction?.bank_transfer ? (
+                  <View style={styles.bankDetails}>
+                    <View style={styles.bankDetailRow}>
+                      <Text style={styles.bankDetailLabel}>Bank Name:</Text>
+                      <Text style={styles.bankDetailValue}>{transaction.bank_transfer.bank_name}</Text>
+                    </View>
+                    <View style={styles.bankDetailRow}>
+                      <Text style={styles.bankDetailLabel}>Account Name:</Text>
+                      <Text style={styles.bankDetailValue}>{transaction.bank_transfer.account_name}</Text>
+                    </View>
+                    <View style={styles.bankDetailRow}>
+                      <Text style={styles.bankDetailLabel}>Account Number:</Text>
+                      <Text style={styles.bankDetailValue}>{transaction.bank_transfer.account_number}</Text>
+                    </View>
+                    <Text style={styles.instructionNote}>
+                      {transaction.instructions || `Transfer exactly ${formatCurrency(transaction.amount)} to this account.`}
+                      {transaction.bank_transfer.expires_at &&
+                        ` This account expires ${formatDate(new Date(transaction.bank_transfer.expires_at))}.`}
+                    </Text>
+                  </View>
+                ) : (
+                  <Text style={styles.instructionNote}>
+                    Tap the button below to get an account number for this payment. Your contribution is confirmed
+                    as soon as the transfer arrives.
+                  </Text>
+                )
+              )}
               
               {paymentMethod === 'mobile_money' && (
                 <View style={styles.mobileMoneyDetails}>
+                  <View style={styles.inputContainer}>
+                    <Icon name="phone" size={20} color="#6B7280" style={styles.inputIcon} />
+                    <TextInput
+                      style={styles.textInput}
+                      placeholder="Mobile money number"
+                      value={phoneNumber}
+                      onChangeText={setPhoneNumber}
+                      keyboardType="phone-pad"
+                      editable={!transaction}
+                    />
+                  </View>
                   <Text style={styles.instructionNote}>
-                    Send money to the group's mobile money account and enter the transaction reference below.
+                    {transaction?.instructions || 'We will send a payment prompt to this number for you to approve.'}
                   </Text>
                 </View>
               )}
@@ -260,73 +384,44 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
               {paymentMethod === 'card' && (
                 <View style={styles.cardDetails}>
                   <Text style={styles.instructionNote}>
-                    Card payment integration coming soon! Please use bank transfer for now.
+                    {transaction
+                      ? 'Complete the payment on the checkout page, then come back and confirm it below.'
+                      : 'You will be taken to a secure checkout page to pay with your card.'}
                   </Text>
                 </View>
               )}
             </View>
           </View>
 
-          {/* Transaction Reference */}
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Transaction Reference *</Text>
-            <View style={styles.inputContainer}>
-              <Icon name="receipt" size={20} color="#6B7280" style={styles.inputIcon} />
-              <TextInput
-                style={styles.textInput}
-                placeholder="Enter transaction reference/ID"
-                value={paymentDetails.transactionReference}
-                onChangeText={(value) =>
-                  setPaymentDetails(prev => ({ ...prev, transactionReference: value }))
-                }
-                autoCapitalize="characters"
-                autoCorrect={false}
-              />
-            </View>
-          </View>
-
-          {/* Payment Proof */}
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Payment Proof (Optional)</Text>
-            <TouchableOpacity style={styles.uploadButton} onPress={handleUploadProof}>
-              <Icon name="cloud-upload" size={24} color="#6B7280" />
-              <Text style={styles.uploadButtonText}>
-                {paymentDetails.paymentProof ? 'Change Proof' : 'Upload Receipt/Screenshot'}
+          {/* Proof of Payment */}
+          {contributionId && AuthService.getCurrentUser() && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Proof of Payment</Text>
+              <Text style={styles.instructionNote}>
+                Paid some other way? Attach your receipt or paste the bank alert so an admin can confirm it.
               </Text>
-            </TouchableOpacity>
-            {paymentDetails.paymentProof && (
-              <Text style={styles.uploadedFileName}>Receipt uploaded ✓</Text>
-            )}
-          </View>
-
-          {/* Notes */}
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Additional Notes (Optional)</Text>
-            <View style={[styles.inputContainer, styles.textAreaContainer]}>
-              <TextInput
-                style={[styles.textInput, styles.textArea]}
-                placeholder="Add any notes about this payment..."
-                value={paymentDetails.notes}
-                onChangeText={(value) =>
-                  setPaymentDetails(prev => ({ ...prev, notes: value }))
-                }
-                multiline
-                numberOfLines={3}
-                textAlignVertical="top"
+              <ReceiptAttachments
+                contributionId={contributionId}
+                userId={AuthService.getCurrentUser()!.uid}
+                mode="member"
+                expectedAmount={contributionData.amount}
+                currency={currencyOf(groupData)}
               />
             </View>
-          </View>
+          )}
 
           {/* Submit Button */}
           <TouchableOpacity
-            style={[styles.submitButton, isLoading && styles.submitButtonDisabled]}
-            onPress={handlePayment}
-            disabled={isLoading}
+            style={[styles.submitButton, isProcessing && styles.submitButtonDisabled]}
+            onPress={usesGroupAccount ? handleTransferSent : transaction ? handleVerifyPayment : handleStartPayment}
+            disabled={isProcessing}
           >
-            {isLoading ? (
+            {isProcessing ? (
               <ActivityIndicator size="small" color="#FFFFFF" />
             ) : (
-              <Text style={styles.submitButtonText}>Record Payment</Text>
+              <Text style={styles.submitButtonText}>
+                {transaction ? "I've Paid - Confirm Payment" : selectedMethod?.action}
+              </Text>
             )}
           </TouchableOpacity>
 
@@ -334,7 +429,8 @@ const PaymentScreen: React.FC<MainStackScreenProps<'Payment'>> = ({ navigation,
           <View style={styles.disclaimer}>
             <Icon name="info" size={16} color="#6B7280" />
             <Text style={styles.disclaimerText}>
-              Your payment will be verified by the group admin. Please ensure all details are correct.
+              Payments are confirmed by our payment partner, and your contribution is marked paid as soon as the
+              payment goes through.
             </Text>
           </View>
         </ScrollView>
@@ -461,6 +557,9 @@ const styles = StyleSheet.create({
     borderColor: '#1E40AF',
     backgroundColor: '#EFF6FF',
   },
+  paymentMethodCardDisabled: {
+    opacity: 0.5,
+  },
   paymentMethodIcon: {
     width: 40,
     height: 40,
@@ -553,10 +652,6 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     paddingHorizontal: 16,
   },
-  textAreaContainer: {
-    alignItems: 'flex-start',
-    paddingVertical: 12,
-  },
   inputIcon: {
     marginRight: 12,
   },
@@ -566,34 +661,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#1F2937',
   },
-  textArea: {
-    height: 80,
-    paddingVertical: 8,
-  },
-  uploadButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: '#F9FAFB',
-    borderWidth: 2,
-    borderColor: '#D1D5DB',
-    borderStyle: 'dashed',
-    borderRadius: 12,
-    paddingVertical: 20,
-    gap: 8,
-  },
-  uploadButtonText: {
-    fontSize: 14,
-    color: '#6B7280',
-    fontWeight: '500',
-  },
-  uploadedFileName: {
-    fontSize: 12,
-    color: '#10B981',
-    marginTop: 8,
-    textAlign: 'center',
-    fontWeight: '500',
-  },
   submitButton: {
     backgroundColor: '#1E40AF',
     borderRadius: 12,
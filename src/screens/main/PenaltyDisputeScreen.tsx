@@ -0,0 +1,540 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { pick, types, isErrorWithCode, errorCodes } from '@react-native-documents/picker';
+import { MainStackScreenProps } from '../../navigation/types';
+import AuthService from '../../services/auth';
+import PenaltyDisputeService from '../../services/business/penaltyDisputes';
+import DatabaseService, { Contribution, Group, GroupMember, PenaltyDispute, ReceiptContentType } from '../../services/database';
+import { ReceiptFile } from '../../services/receipts';
+import { BusinessLogicResult } from '../../types/business';
+import { currencyOf, formatAmount } from '../../utils/money';
+import { hasGroupPermission } from '../../utils/permissions';
+import { readAsBase64 } from '../../utils/base64';
+
+type Props = MainStackScreenProps<'PenaltyDispute'>;
+
+const STATUS_LABELS: Record<PenaltyDispute['status'], string> = {
+  open: 'Waiting for a decision',
+  voting: 'Group is voting',
+  resolved: 'Decided',
+  withdrawn: 'Withdrawn',
+};
+
+const OUTCOME_LABELS: Record<NonNullable<PenaltyDispute['resolution']>['outcome'], string> = {
+  upheld: 'Penalty upheld',
+  reduced: 'Late fee reduced',
+  waived: 'Penalty waived',
+};
+
+// A member disputes the late fee or suspension on a contribution; admins and
+// voting members decide it from the same screen
+const PenaltyDisputeScreen: React.FC<Props> = ({ route }) => {
+  const { contributionId } = route.params;
+  const userId = AuthService.getCurrentUser()?.uid || '';
+
+  const [contribution, setContribution] = useState<Contribution | null>(null);
+  const [group, setGroup] = useState<Group | null>(null);
+  const [member, setMember] = useState<GroupMember | null>(null);
+  const [disputes, setDisputes] = useState<PenaltyDispute[]>([]);
+  const [penaltyType, setPenaltyType] = useState<PenaltyDispute['penalty_type']>('late_fee');
+  const [explanation, setExplanation] = useState('');
+  const [evidence, setEvidence] = useState<ReceiptFile[]>([]);
+  const [reducedAmount, setReducedAmount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadDispute = useCallback(async () => {
+    const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+    if (!contributionResult.data) return;
+    const [groupResult, memberResult, disputesResult] = await Promise.all([
+      DatabaseService.groups.getGroupById(contributionResult.data.group_id),
+      DatabaseService.groupMembers.getMemberByUserAndGroup(contributionResult.data.user_id, contributionResult.data.group_id),
+      PenaltyDisputeService.getContributionDisputes(contributionId, userId),
+    ]);
+
+    setContribution(contributionResult.data);
+    setGroup(groupResult.data || null);
+    setMember(memberResult.data || null);
+    setDisputes(disputesResult.data || []);
+    if (!contributionResult.data.late_penalty_amount && memberResult.data?.status === 'suspended') {
+      setPenaltyType('suspension');
+    }
+  }, [contributionId, userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadDispute().finally(() => setLoading(false));
+  }, [loadDispute]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadDispute();
+    setRefreshing(false);
+  };
+
+  const runAction = async (action: () => Promise<BusinessLogicResult<PenaltyDispute>>, success: string) => {
+    setIsBusy(true);
+    try {
+      const result = await action();
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Something went wrong');
+        return;
+      }
+      Alert.alert('Done', success);
+      await loadDispute();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePickEvidence = async () => {
+    try {
+      const [file] = await pick({ type: [types.images, types.pdf] });
+      const base64 = await readAsBase64(file.uri);
+      setEvidence([
+        ...evidence,
+        {
+          name: file.name || 'evidence',
+          contentType: (file.type || 'application/octet-stream') as ReceiptContentType,
+          base64,
+        },
+      ]);
+    } catch (error) {
+      if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) {
+        return;
+      }
+      console.error('Error picking evidence:', error);
+      Alert.alert('Error', 'The file could not be read. Please try another one.');
+    }
+  };
+
+  const handleOpen = () =>
+    runAction(async () => {
+      const result = await PenaltyDisputeService.openDispute({
+        contributionId,
+        memberId: userId,
+        penaltyType,
+        explanation,
+        evidence,
+      });
+      if (result.success) {
+        setExplanation('');
+        setEvidence([]);
+      }
+      return result;
+    }, 'Your dispute has been sent to the group admin.');
+
+  const handleWithdraw = (dispute: PenaltyDispute) =>
+    Alert.alert('Withdraw Dispute', 'The penalty will stand. Withdraw this dispute?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Withdraw',
+        style: 'destructive',
+        onPress: () => runAction(() => PenaltyDisputeService.withdrawDispute(dispute.id, userId), 'Dispute withdrawn.'),
+      },
+    ]);
+
+  const handleResolve = (dispute: PenaltyDispute, outcome: 'upheld' | 'reduced' | 'waived') =>
+    runAction(
+      () =>
+        PenaltyDisputeService.resolveDispute({
+          disputeId: dispute.id,
+          adminId: userId,
+          outcome,
+          amount: outcome === 'reduced' ? Number(reducedAmount.replace(/,/g, '')) : undefined,
+          notes: notes.trim() || undefined,
+        }),
+      OUTCOME_LABELS[outcome],
+    );
+
+  const handleStartVote = (dispute: PenaltyDispute, outcome: 'reduced' | 'waived') =>
+    runAction(
+      () =>
+        PenaltyDisputeService.startVote({
+          disputeId: dispute.id,
+          adminId: userId,
+          outcome,
+          amount: outcome === 'reduced' ? Number(reducedAmount.replace(/,/g, '')) : undefined,
+        }),
+      'The group has been asked to vote.',
+    );
+
+  const handleVote = (dispute: PenaltyDispute, support: boolean) =>
+    runAction(
+      () => PenaltyDisputeService.voteOnDispute({ disputeId: dispute.id, voterId: userId, support }),
+      'Your vote has been counted.',
+    );
+
+  if (loading || !contribution || !group) {
+    return (
+      <View style={styles.centered}>
+        {loading ? <ActivityIndicator size="large" color="#3182ce" /> : <Text style={styles.emptyText}>Contribution not found</Text>}
+      </View>
+    );
+  }
+
+  const currency = currencyOf(group);
+  const isDisputant = contribution.user_id === userId;
+  const active = disputes.find(dispute => dispute.status === 'open' || dispute.status === 'voting');
+  const canDecide = (dispute: PenaltyDispute) =>
+    dispute.member_id !== userId &&
+    hasGroupPermission(group, userId, dispute.penalty_type === 'suspension' ? 'canRemoveMembers' : 'canMarkPayments');
+
+  const renderPenalties = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Cycle {contribution.cycle_number} penalties</Text>
+      <Text style={styles.detailText}>
+        Late fee: {contribution.late_penalty_amount ? formatAmount(contribution.late_penalty_amount, currency) : 'None'}
+      </Text>
+      <Text style={styles.detailText}>Membership: {member?.status === 'suspended' ? 'Suspended' : 'Active'}</Text>
+    </View>
+  );
+
+  const renderVote = (dispute: PenaltyDispute) => {
+    const vote = dispute.vote;
+    if (!vote) return null;
+    const proposal =
+      vote.outcome === 'waived' ? 'Waive the penalty' : `Reduce the late fee to ${formatAmount(vote.amount || 0, currency)}`;
+    const hasVoted = vote.votes_for.includes(userId) || vote.votes_against.includes(userId);
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.label}>Proposal: {proposal}</Text>
+        <Text style={styles.detailText}>
+          {vote.votes_for.length} for • {vote.votes_against.length} against • {vote.voter_ids.length} voters
+        </Text>
+        {dispute.status === 'voting' && vote.voter_ids.includes(userId) && !hasVoted ? (
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => handleVote(dispute, false)} disabled={isBusy}>
+              <Text style={styles.secondaryButtonText}>Disagree</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => handleVote(dispute, true)} disabled={isBusy}>
+              <Text style={styles.primaryButtonText}>Agree</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  const renderDecision = (dispute: PenaltyDispute) => (
+    <View style={styles.section}>
+      {dispute.penalty_type === 'late_fee' ? (
+        <TextInput
+          style={styles.input}
+          placeholder="Reduced fee"
+          keyboardType="decimal-pad"
+          value={reducedAmount}
+          onChangeText={setReducedAmount}
+        />
+      ) : null}
+      <TextInput style={styles.input} placeholder="Reason for your decision (optional)" value={notes} onChangeText={setNotes} />
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => handleResolve(dispute, 'upheld')} disabled={isBusy}>
+          <Text style={styles.secondaryButtonText}>Uphold</Text>
+        </TouchableOpacity>
+        {dispute.penalty_type === 'late_fee' ? (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => handleResolve(dispute, 'reduced')} disabled={isBusy}>
+            <Text style={styles.secondaryButtonText}>Reduce</Text>
+          </TouchableOpacity>
+        ) : null}
+        <TouchableOpacity style={styles.primaryButton} onPress={() => handleResolve(dispute, 'waived')} disabled={isBusy}>
+          <Text style={styles.primaryButtonText}>Waive</Text>
+        </TouchableOpacity>
+      </View>
+      {dispute.status === 'open' ? (
+        <View style={styles.buttonRow}>
+          {dispute.penalty_type === 'late_fee' ? (
+            <TouchableOpacity style={styles.linkButton} onPress={() => handleStartVote(dispute, 'reduced')} disabled={isBusy}>
+              <Text style={styles.linkButtonText}>Vote on reduction</Text>
+            </TouchableOpacity>
+          ) : null}
+          <TouchableOpacity style={styles.linkButton} onPress={() => handleStartVote(dispute, 'waived')} disabled={isBusy}>
+            <Text style={styles.linkButtonText}>Vote on waiver</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+    </View>
+  );
+
+  const renderDispute = (dispute: PenaltyDispute) => (
+    <View key={dispute.id} style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>
+          {dispute.penalty_type === 'late_fee'
+            ? `Late fee of ${formatAmount(dispute.penalty_amount, currency)}`
+            : 'Suspension'}
+        </Text>
+        <Text style={styles.status}>{STATUS_LABELS[dispute.status]}</Text>
+      </View>
+      <Text style={styles.explanation}>{dispute.explanation}</Text>
+      {dispute.evidence.map(file => (
+        <View key={file.storage_path} style={styles.evidenceRow}>
+          <Icon name={file.content_type === 'application/pdf' ? 'picture-as-pdf' : 'image'} size={16} color="#718096" />
+          <Text style={styles.detailText}>{file.file_name}</Text>
+        </View>
+      ))}
+
+      {renderVote(dispute)}
+
+      {dispute.resolution ? (
+        <View style={styles.section}>
+          <Text style={styles.label}>
+            {OUTCOME_LABELS[dispute.resolution.outcome]}
+            {dispute.resolution.outcome === 'reduced' ? ` to ${formatAmount(dispute.resolution.final_amount, currency)}` : ''}
+            {dispute.resolution.decided_by === 'vote' ? ' by group vote' : ''}
+          </Text>
+          {dispute.resolution.member_reinstated ? <Text style={styles.detailText}>Membership reinstated</Text> : null}
+          {dispute.resolution.notes ? <Text style={styles.detailText}>{dispute.resolution.notes}</Text> : null}
+        </View>
+      ) : null}
+
+      {(dispute.status === 'open' || dispute.status === 'voting') && canDecide(dispute) ? renderDecision(dispute) : null}
+
+      {dispute.status === 'open' && dispute.member_id === userId ? (
+        <TouchableOpacity style={styles.linkButton} onPress={() => handleWithdraw(dispute)} disabled={isBusy}>
+          <Text style={styles.dangerText}>Withdraw dispute</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+
+  const renderForm = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Dispute a penalty</Text>
+      <View style={styles.chipRow}>
+        {(['late_fee', 'suspension'] as const).map(type => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.chip, penaltyType === type && styles.chipActive]}
+            onPress={() => setPenaltyType(type)}
+          >
+            <Text style={[styles.chipText, penaltyType === type && styles.chipTextActive]}>
+              {type === 'late_fee' ? 'Late fee' : 'Suspension'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TextInput
+        style={[styles.input, styles.explanationInput]}
+        placeholder="What happened? e.g. I paid on time but the transfer was delayed"
+        value={explanation}
+        onChangeText={setExplanation}
+        multiline
+      />
+      {evidence.map((file, index) => (
+        <View key={`${file.name}-${index}`} style={styles.evidenceRow}>
+          <Icon name="attach-file" size={16} color="#718096" />
+          <Text style={styles.detailText}>{file.name}</Text>
+        </View>
+      ))}
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handlePickEvidence} disabled={isBusy}>
+          <Icon name="attach-file" size={16} color="#3182ce" />
+          <Text style={styles.secondaryButtonText}>Add Evidence</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, !explanation.trim() && styles.disabledButton]}
+          onPress={handleOpen}
+          disabled={isBusy || !explanation.trim()}
+        >
+          {isBusy ? <ActivityIndicator size="small" color="#ffffff" /> : <Text style={styles.primaryButtonText}>Submit Dispute</Text>}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+    >
+      {renderPenalties()}
+      {isDisputant && !active ? renderForm() : null}
+      {disputes.map(renderDispute)}
+      {!isDisputant && disputes.length === 0 ? <Text style={styles.emptyText}>No disputes raised</Text> : null}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  card: {
+    padding: 16,
+    backgroundColor: '#ffffff',
+    marginBottom: 12,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a202c',
+    marginBottom: 6,
+  },
+  status: {
+    fontSize: 12,
+    color: '#3182ce',
+  },
+  explanation: {
+    fontSize: 14,
+    color: '#4a5568',
+    marginTop: 4,
+  },
+  section: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2d3748',
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#4a5568',
+    marginTop: 2,
+  },
+  evidenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipActive: {
+    backgroundColor: '#3182ce',
+    borderColor: '#3182ce',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4a5568',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1a202c',
+    backgroundColor: '#ffffff',
+    marginTop: 8,
+  },
+  explanationInput: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 10,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#3182ce',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3182ce',
+  },
+  secondaryButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3182ce',
+  },
+  linkButton: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  linkButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3182ce',
+  },
+  dangerText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#e53e3e',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#718096',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
+
+export default PenaltyDisputeScreen;
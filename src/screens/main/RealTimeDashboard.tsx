@@ -13,11 +13,12 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { MainTabScreenProps } from '../../navigation/types';
 import { useAuth } from '../../contexts/AuthContext';
 import { useGroup } from '../../contexts/GroupContext';
-import { SavingsGroup, GroupMember } from '../../services/firestore';
+import { GroupMember, GroupWithMembers } from '../../services/database';
 import { useGroupManagement, useTurnOrder, usePaymentStatus, useGroupCompletion } from '../../hooks/useBusinessLogic';
-import { formatNigerianDate, getRelativeTime } from '../../utils/dateUtils';
+import { formatDisplayDate, getRelativeTime } from '../../utils/dateUtils';
+import { currencyOf, formatAmount, formatMoney, formatTotals, localeFor, money, multiplyMoney, totalsByCurrency } from '../../utils/money';
 
-interface DashboardGroup extends SavingsGroup {
+interface DashboardGroup extends GroupWithMembers {
   businessLogic: {
     currentRecipient: GroupMember | null;
     nextRecipient: GroupMember | null;
@@ -114,29 +115,22 @@ const RealTimeDashboard: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
     }
   }, [groups, groupsLoading]);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
 
   const getPaymentStatusColor = (member: GroupMember, group: DashboardGroup) => {
-    if (group.businessLogic.paidMembers.find(m => m.userId === member.userId)) {
+    if (group.businessLogic.paidMembers.find(m => m.user_id === member.user_id)) {
       return '#10B981'; // Green for paid
     }
-    if (group.businessLogic.overdueMembers.find(m => m.userId === member.userId)) {
+    if (group.businessLogic.overdueMembers.find(m => m.user_id === member.user_id)) {
       return '#EF4444'; // Red for overdue
     }
     return '#F59E0B'; // Yellow for pending
   };
 
   const getPaymentStatusIcon = (member: GroupMember, group: DashboardGroup) => {
-    if (group.businessLogic.paidMembers.find(m => m.userId === member.userId)) {
+    if (group.businessLogic.paidMembers.find(m => m.user_id === member.user_id)) {
       return 'check-circle';
     }
-    if (group.businessLogic.overdueMembers.find(m => m.userId === member.userId)) {
+    if (group.businessLogic.overdueMembers.find(m => m.user_id === member.user_id)) {
       return 'cancel';
     }
     return 'schedule';
@@ -156,10 +150,10 @@ const RealTimeDashboard: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
         <View style={styles.groupInfo}>
           <Text style={styles.groupName}>{group.name}</Text>
           <Text style={styles.groupDetails}>
-            {group.members.length} members • Cycle {group.currentCycle}/{group.totalCycles}
+            {group.members.length} members • Cycle {group.current_cycle}/{group.total_cycles}
           </Text>
           <Text style={styles.groupAmount}>
-            {formatCurrency(group.contributionAmount)}/{group.contributionFrequency}
+            {formatAmount(group.contribution_amount, currencyOf(group))}/{group.contribution_frequency}
           </Text>
         </View>
         <View style={[
@@ -189,7 +183,7 @@ const RealTimeDashboard: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
           />
         </View>
         <Text style={styles.progressDetails}>
-          {formatCurrency(group.businessLogic.totalPaid)} of {formatCurrency(group.contributionAmount * group.members.length)} collected
+          {formatAmount(group.businessLogic.totalPaid, currencyOf(group))} of {formatMoney(multiplyMoney(money(group.contribution_amount, currencyOf(group)), group.members.length))} collected
         </Text>
       </View>
 
@@ -198,11 +192,11 @@ const RealTimeDashboard: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
         <View style={styles.turnSection}>
           <Text style={styles.turnTitle}>🎯 Current Payout Recipient</Text>
           <Text style={styles.turnRecipient}>
-            {group.businessLogic.currentRecipient.displayName}
+            {group.businessLogic.currentRecipient.display_name}
           </Text>
           {group.businessLogic.nextRecipient && (
             <Text style={styles.turnNext}>
-              Next: {group.businessLogic.nextRecipient.displayName}
+              Next: {group.businessLogic.nextRecipient.display_name}
             </Text>
           )}
         </View>
@@ -210,18 +204,18 @@ const RealTimeDashboard: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
 
       {/* Payment Status */}
       <View style={styles.paymentSection}>
-        <Text style={styles.paymentTitle}>Payment Status ({group.contributionFrequency})</Text>
+        <Text style={styles.paymentTitle}>Payment Status ({group.contribution_frequency})</Text>
         <View style={styles.membersList}>
           {group.members.slice(0, 6).map((member, index) => (
-            <View key={member.userId} style={styles.memberPaymentStatus}>
+            <View key={member.user_id} style={styles.memberPaymentStatus}>
               <Icon 
                 name={getPaymentStatusIcon(member, group)}
                 size={16}
                 color={getPaymentStatusColor(member, group)}
               />
               <Text style={styles.memberName} numberOfLines={1}>
-                {member.displayName}
-                {member.userId === user?.uid && ' (You)'}
+                {member.display_name}
+                {member.user_id === user?.uid && ' (You)'}
               </Text>
             </View>
           ))}
@@ -239,10 +233,10 @@ const RealTimeDashboard: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
             <Text style={styles.deadlineTitle}>Next Payment Due</Text>
           </View>
           <Text style={styles.deadlineDate}>
-            {formatNigerianDate(nextPaymentDeadline)}
+            {formatDisplayDate(nextPaymentDeadline, localeFor(currencyOf(group)))}
           </Text>
           <Text style={styles.deadlineTime}>
-            {getRelativeTime(nextPaymentDeadline)}
+            {getRelativeTime(nextPaymentDeadline, new Date(), localeFor(currencyOf(group)))}
           </Text>
         </View>
       )}
@@ -253,7 +247,7 @@ const RealTimeDashboard: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
           style={[styles.actionButton, styles.payButton]}
           onPress={() => navigation.navigate('Payment', { 
             groupId: group.id, 
-            amount: group.contributionAmount,
+            amount: group.contribution_amount,
             contributionId: undefined,
             dueDate: new Date().toISOString(),
             recipient: undefined
@@ -309,11 +303,11 @@ const RealTimeDashboard: React.FC<MainTabScreenProps<'Dashboard'>> = ({ navigati
         <View style={styles.statCard}>
           <Icon name="account-balance-wallet" size={24} color="#3B82F6" />
           <Text style={styles.statValue}>
-            {dashboardGroups.reduce((total, group) => 
-              total + group.businessLogic.totalPaid, 0
-            ).toLocaleString()}
+            {formatTotals(totalsByCurrency(dashboardGroups.map(group =>
+              money(group.businessLogic.totalPaid, currencyOf(group))
+            )))}
           </Text>
-          <Text style={styles.statLabel}>Total Paid (₦)</Text>
+          <Text style={styles.statLabel}>Total Paid</Text>
         </View>
         
         <View style={styles.statCard}>
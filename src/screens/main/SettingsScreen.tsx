@@ -9,6 +9,8 @@ import {
   Alert,
 } from 'react-native';
 import { MainStackScreenProps } from '../../navigation/types';
+import AuthService from '../../services/auth';
+import NotificationPreferencesForm from '../../components/NotificationPreferencesForm';
 
 type Props = MainStackScreenProps<'Settings'>;
 
@@ -18,6 +20,7 @@ const SettingsScreen: React.FC<Props> = ({ navigation }) => {
   const [smsNotifications, setSmsNotifications] = useState(false);
   const [biometricAuth, setBiometricAuth] = useState(false);
   const [autoBackup, setAutoBackup] = useState(true);
+  const currentUser = AuthService.getCurrentUser();
 
   const handleLogout = () => {
     Alert.alert(
@@ -114,6 +117,13 @@ const SettingsScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       </View>
 
+      {currentUser ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Notification Delivery</Text>
+          <NotificationPreferencesForm userId={currentUser.uid} />
+        </View>
+      ) : null}
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Security</Text>
         
@@ -13,6 +13,7 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { useAuth } from '../../context/AppContext';
 import PaymentTrackingService from '../../services/business/paymentTracking';
 import { PaymentProgress, PaymentHistoryItem } from '../../services/business/paymentTracking';
+import { currencyOf, formatAmount, localeFor } from '../../utils/money';
 
 interface PaymentStatusScreenProps {
   navigation: any;
@@ -57,8 +58,8 @@ const PaymentStatusScreen: React.FC<PaymentStatusScreenProps> = ({ navigation, r
       if (historyResult.success && historyResult.data) {
         setPaymentHistory(historyResult.data);
       }
-    } catch (error) {
-      console.error('Error loading payment data:', error);
+    } catch (loadError) {
+      console.error('Error loading payment data:', loadError);
       setError('Failed to load payment data');
     } finally {
       setLoading(false);
@@ -89,16 +90,11 @@ const PaymentStatusScreen: React.FC<PaymentStatusScreenProps> = ({ navigation, r
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-UG', {
-      style: 'currency',
-      currency: 'UGX',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
+  const currency = currencyOf(paymentProgress);
+  const formatCurrency = (amount: number) => formatAmount(amount, currency);
 
   const formatDate = (date: Date) => {
-    return new Intl.DateTimeFormat('en-UG', {
+    return new Intl.DateTimeFormat(localeFor(currency), {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -0,0 +1,611 @@
+import { ApprovalError, BusinessLogicResult } from '../../types/business';
+import DatabaseService, {
+  ApprovalActionType,
+  ApprovalPolicy,
+  Group,
+  PendingAction,
+} from '../database';
+import NotificationService from '../notifications';
+import JobRunner from '../jobs/jobRunner';
+import { getClock } from '../jobs/clock';
+import { canonicalJson } from '../../utils/hash';
+import AuditLogService from './auditLog';
+import NotificationActions, { actionOutcome } from '../notifications/actions';
+import type { GroupCompletionOptions, GroupSettings } from './groupManagement';
+
+// Arguments each action type runs with once approved
+export interface ApprovalActionParams {
+  remove_member: {
+    memberId: string;
+    reason: 'violation' | 'request' | 'inactive' | 'other';
+    redistributeTurn: boolean;
+    refundContributions: boolean;
+    adminNotes?: string;
+  };
+  transfer_admin: { newAdminId: string; reason?: string };
+  dissolve_group: { options: GroupCompletionOptions };
+  change_contribution_amount: { settings: Partial<GroupSettings>; effectiveDate?: Date; notifyMembers?: boolean };
+  release_payout: { payoutId: string; notes?: string };
+  change_approval_policy: { policy: ApprovalPolicy | null };
+}
+
+// A pending action whose params match its type
+export type ApprovalRequest<T extends ApprovalActionType = ApprovalActionType> = {
+  [K in T]: PendingAction & { type: K; params: ApprovalActionParams[K] };
+}[T];
+
+// Runs an approved action; registered by the service that owns the action
+export type ApprovalExecutor<T extends ApprovalActionType> = (
+  action: ApprovalRequest<T>
+) => Promise<BusinessLogicResult<unknown>>;
+
+// Indexing by action type keeps each executor paired with its own params
+type ApprovalExecutors = { [K in ApprovalActionType]?: ApprovalExecutor<K> };
+
+// The action a caller wants to do, with the params it would run with
+type ApprovalGate = { [K in ApprovalActionType]: { type: K; params: ApprovalActionParams[K] } }[ApprovalActionType];
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalActionType, string> = {
+  remove_member: 'Remove a member',
+  transfer_admin: 'Transfer admin rights',
+  dissolve_group: 'Dissolve the group',
+  change_contribution_amount: 'Change the contribution amount',
+  release_payout: 'Release a payout',
+  change_approval_policy: 'Change the approval rules',
+};
+
+const EXPIRY_JOB = 'approval_expiry';
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_EXPIRY_HOURS = 14 * 24;
+
+// Key order doesn't matter when comparing an action's stored params with a caller's
+const sameParams = (a: Record<string, any>, b: Record<string, any>): boolean =>
+  canonicalJson(a) === canonicalJson(b);
+
+/**
+ * M-of-N sign-off for high-risk admin actions.
+ *
+ * A group's approval policy names the actions it covers, the members who may
+ * approve and how many must. Services call requireApproval() before doing a
+ * covered action: the first call records a pending action and returns
+ * APPROVAL_REQUIRED. Once enough approvers sign off, the action's executor
+ * runs it again with the pending action's ID, which lets it through. The
+ * executor's writes mark the action executed in the same transaction, which
+ * is what lets an approver make them under firestore.rules, and means an
+ * approval can't be replayed.
+ */
+class ApprovalService {
+  private executors: ApprovalExecutors = {};
+
+  constructor() {
+    JobRunner.registerHandler(EXPIRY_JOB, job => this.expireAction(job.payload.actionId));
+    this.registerExecutor('change_approval_policy', action =>
+      this.setApprovalPolicy({
+        adminId: action.requested_by,
+        groupId: action.group_id,
+        policy: action.params.policy,
+        approvedActionId: action.id,
+      })
+    );
+
+    NotificationActions.registerHandler('approve_action', async ({ userId, data }) =>
+      actionOutcome(await this.approveAction({ actionId: data.pendingActionId || '', userId }), { message: 'Approved' })
+    );
+    NotificationActions.registerHandler('reject_action', async ({ userId, data }) =>
+      actionOutcome(await this.rejectAction({ actionId: data.pendingActionId || '', userId }), { message: 'Rejected' })
+    );
+  }
+
+  /**
+   * Register the function that runs an action type once it is approved
+   * @param type - Action type
+   * @param executor - Called with the approved pending action
+   */
+  registerExecutor<T extends ApprovalActionType>(type: T, executor: NonNullable<ApprovalExecutors[T]>): void {
+    this.executors[type] = executor;
+  }
+
+  /**
+   * Set or clear a group's approval policy. Only the admin can, and once a
+   * policy is in place, changing it always needs sign-off under that policy.
+   * @param params.policy - New policy, or null to remove it
+   * @returns The updated group
+   */
+  async setApprovalPolicy(params: {
+    adminId: string;
+    groupId: string;
+    policy: ApprovalPolicy | null;
+    approvedActionId?: string;
+  }): Promise<BusinessLogicResult<Group>> {
+    try {
+      const { adminId, groupId, policy, approvedActionId } = params;
+
+      const group = await this.getGroup(groupId);
+      if (group.admin_id !== adminId) {
+        throw new ApprovalError('Only the group admin can change the approval rules');
+      }
+
+      if (policy) {
+        await this.validatePolicy(groupId, policy);
+      }
+
+      const gate = await this.requireApproval<Group>({
+        groupId,
+        requestedBy: adminId,
+        type: 'change_approval_policy',
+        params: { policy },
+        summary: policy
+          ? `require ${policy.required_approvals} of ${policy.approver_ids.length} approvers for ${policy.actions.length} action(s)`
+          : 'turn off approvals for admin actions',
+        approvedActionId,
+      });
+      if (gate) {
+        return gate;
+      }
+
+      const updateResult = await DatabaseService.groups.updateGroup(groupId, { approval_policy: policy }, approvedActionId);
+      if (!updateResult.success || !updateResult.data) {
+        throw new ApprovalError(updateResult.error || 'Failed to save approval rules');
+      }
+
+      await AuditLogService.record({
+        groupId,
+        actorId: adminId,
+        category: 'settings',
+        action: 'approval_policy_changed',
+        before: { approval_policy: group.approval_policy ?? null },
+        after: { approval_policy: policy },
+        ...(approvedActionId ? { metadata: { approved_action_id: approvedActionId } } : {}),
+      });
+
+      return { success: true, data: updateResult.data };
+    } catch (error) {
+      console.error('Error setting approval policy:', error);
+      return {
+        success: false,
+        error: error instanceof ApprovalError ? error.message : 'Failed to save approval rules',
+        code: error instanceof ApprovalError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Check whether an action may go ahead now.
+   * Returns null when it may: the group's policy doesn't cover it, or the
+   * caller is running an approved request with the same params. Otherwise
+   * records a pending action, asks the approvers and returns an
+   * APPROVAL_REQUIRED result for the caller to hand back.
+   * @param params.summary - What the action does, e.g. "remove Bola Ade from the group"
+   * @param params.approvedActionId - Set by executors running an approved request
+   */
+  async requireApproval<T>(
+    params: ApprovalGate & {
+      groupId: string;
+      requestedBy: string;
+      summary: string;
+      approvedActionId?: string;
+    }
+  ): Promise<BusinessLogicResult<T> | null> {
+    const { groupId, requestedBy, type, summary, approvedActionId } = params;
+
+    if (approvedActionId) {
+      const actionResult = await DatabaseService.pendingActions.getActionById(approvedActionId);
+      const action = actionResult.data;
+      if (
+        !action ||
+        action.status !== 'approved' ||
+        action.group_id !== groupId ||
+        action.type !== type ||
+        !sameParams(action.params, params.params)
+      ) {
+        return {
+          success: false,
+          error: 'This action has not been approved',
+          code: 'APPROVAL_NOT_VALID',
+        };
+      }
+      return null;
+    }
+
+    const group = await this.getGroup(groupId);
+    // A policy always covers changes to itself, or an admin could simply switch it off
+    const policy = group.approval_policy;
+    if (!policy || (!policy.actions.includes(type) && type !== 'change_approval_policy')) {
+      return null;
+    }
+
+    // Whoever asks can't approve their own request
+    const approverIds: string[] = [];
+    for (const approverId of policy.approver_ids) {
+      if (approverId === requestedBy) continue;
+      const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(approverId, groupId);
+      if (memberResult.data?.status === 'active') {
+        approverIds.push(approverId);
+      }
+    }
+    if (approverIds.length < policy.required_approvals) {
+      return {
+        success: false,
+        error: `This needs ${policy.required_approvals} approvals but only ${approverIds.length} approvers are available. Update the approval rules first.`,
+        code: 'NOT_ENOUGH_APPROVERS',
+      };
+    }
+
+    const now = getClock().now();
+    const createResult = await DatabaseService.pendingActions.createAction({
+      group_id: groupId,
+      type,
+      params: params.params,
+      summary,
+      requested_by: requestedBy,
+      approver_ids: approverIds,
+      required_approvals: policy.required_approvals,
+      expires_at: new Date(now.getTime() + policy.expiry_hours * HOUR_MS),
+    });
+    if (!createResult.success || !createResult.data) {
+      return {
+        success: false,
+        error: createResult.error || 'Failed to request approval',
+        code: 'APPROVAL_REQUEST_ERROR',
+      };
+    }
+    const action = createResult.data;
+
+    await JobRunner.enqueue({
+      type: EXPIRY_JOB,
+      idempotencyKey: `approval-expiry:${action.id}`,
+      groupId: action.group_id,
+      payload: { actionId: action.id },
+      runAt: action.expires_at,
+    });
+    await this.notifyApprovers(group, action);
+
+    console.log(`✍️ ${type} in group ${groupId} is waiting for ${action.required_approvals} approval(s)`);
+
+    return {
+      success: false,
+      error: `Sent for approval: ${action.required_approvals} of ${approverIds.length} approvers must agree before this goes ahead`,
+      code: 'APPROVAL_REQUIRED',
+      pendingAction: action,
+    };
+  }
+
+  /**
+   * Sign off on a pending action. The last approval needed runs the action.
+   * @returns The action after signing, with its final status if it ran
+   */
+  async approveAction(params: {
+    actionId: string;
+    userId: string;
+    comment?: string;
+  }): Promise<BusinessLogicResult<PendingAction>> {
+    try {
+      const { actionId, userId, comment } = params;
+      const action = await this.getOpenAction(actionId, userId);
+
+      const signed = await this.sign(action, userId, 'approved', comment);
+      if (signed.approval_count < signed.required_approvals) {
+        return { success: true, data: signed };
+      }
+
+      return { success: true, data: await this.execute(signed) };
+    } catch (error) {
+      console.error('Error approving action:', error);
+      return {
+        success: false,
+        error: error instanceof ApprovalError ? error.message : 'Failed to approve action',
+        code: error instanceof ApprovalError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Turn down a pending action. It is rejected as soon as too few approvers
+   * are left to reach the number required.
+   */
+  async rejectAction(params: {
+    actionId: string;
+    userId: string;
+    comment?: string;
+  }): Promise<BusinessLogicResult<PendingAction>> {
+    try {
+      const { actionId, userId, comment } = params;
+      const action = await this.getOpenAction(actionId, userId);
+
+      const signed = await this.sign(action, userId, 'rejected', comment);
+      const stillPossible = signed.approver_ids.length - signed.rejection_count;
+      if (stillPossible >= signed.required_approvals) {
+        return { success: true, data: signed };
+      }
+
+      return { success: true, data: await this.resolve(signed, 'rejected') };
+    } catch (error) {
+      console.error('Error rejecting action:', error);
+      return {
+        success: false,
+        error: error instanceof ApprovalError ? error.message : 'Failed to reject action',
+        code: error instanceof ApprovalError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Withdraw a request that is still waiting for approval (requester only)
+   */
+  async cancelAction(params: { actionId: string; userId: string }): Promise<BusinessLogicResult<PendingAction>> {
+    try {
+      const action = await this.getAction(params.actionId);
+      if (action.requested_by !== params.userId) {
+        throw new ApprovalError('Only the member who asked can withdraw this request');
+      }
+      if (action.status !== 'pending') {
+        throw new ApprovalError(`This request is already ${action.status}`);
+      }
+
+      const updated = await DatabaseService.pendingActions.transitionAction(action.id, 'pending', {
+        status: 'cancelled',
+        resolved_at: getClock().now(),
+      });
+      if (!updated.success) {
+        throw new ApprovalError(updated.error || 'Failed to withdraw request');
+      }
+      if (!updated.data) {
+        throw new ApprovalError('This request has already been decided');
+      }
+      await JobRunner.cancel(`approval-expiry:${action.id}`);
+      return { success: true, data: updated.data };
+    } catch (error) {
+      console.error('Error cancelling action:', error);
+      return {
+        success: false,
+        error: error instanceof ApprovalError ? error.message : 'Failed to withdraw request',
+        code: error instanceof ApprovalError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Get a group's approval requests, newest first. Requests past their expiry
+   * are marked expired on the way out, in case the expiry job hasn't run yet.
+   * @param params.userId - Must be a member of the group
+   */
+  async getGroupActions(params: {
+    groupId: string;
+    userId: string;
+    statuses?: PendingAction['status'][];
+  }): Promise<BusinessLogicResult<PendingAction[]>> {
+    try {
+      const { groupId, userId, statuses } = params;
+
+      const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(userId, groupId);
+      if (!memberResult.success || !memberResult.data) {
+        throw new ApprovalError('You are not a member of this group');
+      }
+
+      const actionsResult = await DatabaseService.pendingActions.getGroupActions(groupId);
+      if (!actionsResult.success || !actionsResult.data) {
+        throw new ApprovalError(actionsResult.error || 'Failed to load approval requests');
+      }
+
+      const actions: PendingAction[] = [];
+      for (const action of actionsResult.data) {
+        const current = this.isExpired(action) ? await this.resolve(action, 'expired') : action;
+        if (!statuses || statuses.includes(current.status)) {
+          actions.push(current);
+        }
+      }
+
+      return { success: true, data: actions };
+    } catch (error) {
+      console.error('Error getting approval requests:', error);
+      return {
+        success: false,
+        error: error instanceof ApprovalError ? error.message : 'Failed to load approval requests',
+        code: error instanceof ApprovalError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  // Job handler: lapse a request that is still waiting at its expiry time
+  private async expireAction(actionId: string): Promise<void> {
+    const actionResult = await DatabaseService.pendingActions.getActionById(actionId);
+    if (actionResult.data && this.isExpired(actionResult.data)) {
+      await this.resolve(actionResult.data, 'expired');
+    }
+  }
+
+  private isExpired(action: PendingAction): boolean {
+    return action.status === 'pending' && getClock().now().getTime() >= new Date(action.expires_at).getTime();
+  }
+
+  private async getGroup(groupId: string): Promise<Group> {
+    const groupResult = await DatabaseService.groups.getGroupById(groupId);
+    if (!groupResult.success || !groupResult.data) {
+      throw new ApprovalError('Group not found');
+    }
+    return groupResult.data;
+  }
+
+  private async getAction(actionId: string): Promise<PendingAction> {
+    const actionResult = await DatabaseService.pendingActions.getActionById(actionId);
+    if (!actionResult.success || !actionResult.data) {
+      throw new ApprovalError('Approval request not found');
+    }
+    return actionResult.data;
+  }
+
+  // A request the user may still sign: pending, unexpired, and they are one of its approvers
+  private async getOpenAction(actionId: string, userId: string): Promise<PendingAction> {
+    const action = await this.getAction(actionId);
+    if (this.isExpired(action)) {
+      await this.resolve(action, 'expired');
+      throw new ApprovalError('This request has expired');
+    }
+    if (action.status !== 'pending') {
+      throw new ApprovalError(`This request is already ${action.status}`);
+    }
+    if (!action.approver_ids.includes(userId)) {
+      throw new ApprovalError('You are not an approver for this request');
+    }
+
+    const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(userId, action.group_id);
+    if (memberResult.data?.status !== 'active') {
+      throw new ApprovalError('Only active members can approve requests');
+    }
+    return action;
+  }
+
+  private async sign(
+    action: PendingAction,
+    userId: string,
+    decision: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<PendingAction> {
+    const signResult = await DatabaseService.pendingActions.addSignature(action.id, {
+      user_id: userId,
+      decision,
+      comment,
+      signed_at: getClock().now(),
+    });
+    if (!signResult.success || !signResult.data) {
+      throw new ApprovalError(signResult.error || 'Failed to record your response');
+    }
+    return signResult.data;
+  }
+
+  // Mark the action approved, run it, and record how that went. Only the caller
+  // that moves it from pending to approved runs it, and the executor's writes
+  // mark it executed as they land, so it never runs twice.
+  private async execute(action: PendingAction): Promise<PendingAction> {
+    const claimResult = await DatabaseService.pendingActions.transitionAction(action.id, 'pending', {
+      status: 'approved',
+    });
+    if (!claimResult.success) {
+      throw new ApprovalError(claimResult.error || 'Failed to record the approval');
+    }
+    if (!claimResult.data) {
+      // Another approval, a rejection or the expiry got there first
+      return this.getAction(action.id);
+    }
+    const approved = claimResult.data;
+    await JobRunner.cancel(`approval-expiry:${action.id}`);
+
+    let result: BusinessLogicResult<unknown>;
+    try {
+      // The params were checked against the type when requireApproval() recorded the action
+      result = await this.run(approved.type, approved as ApprovalRequest);
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Action failed' };
+    }
+
+    if (!result.success) {
+      console.error(`Approved ${action.type} ${action.id} failed:`, result.error);
+    }
+
+    const current = await this.getAction(action.id);
+    if (current.status === 'executed') {
+      // The executor's writes already marked it executed
+      await this.notifyOutcome(current);
+      return current;
+    }
+    return this.resolve(approved, result.success ? 'executed' : 'failed', result.error);
+  }
+
+  private async run<T extends ApprovalActionType>(
+    type: T,
+    action: ApprovalRequest<T>
+  ): Promise<BusinessLogicResult<unknown>> {
+    const executor = this.executors[type];
+    return executor ? executor(action) : { success: false, error: `Nothing can run ${type} requests` };
+  }
+
+  // Record the outcome and tell the requester, unless someone else already decided the action
+  private async resolve(
+    action: PendingAction,
+    status: 'executed' | 'failed' | 'rejected' | 'expired',
+    failureReason?: string
+  ): Promise<PendingAction> {
+    const from = status === 'executed' || status === 'failed' ? 'approved' : 'pending';
+    const updated = await DatabaseService.pendingActions.transitionAction(action.id, from, {
+      status,
+      resolved_at: getClock().now(),
+      ...(failureReason ? { failure_reason: failureReason } : {}),
+    });
+    if (!updated.success) {
+      throw new ApprovalError(updated.error || 'Failed to update the request');
+    }
+    if (!updated.data) {
+      return this.getAction(action.id);
+    }
+
+    await this.notifyOutcome(updated.data);
+    return updated.data;
+  }
+
+  // Tell the requester how their request ended
+  private async notifyOutcome(action: PendingAction): Promise<void> {
+    const groupResult = await DatabaseService.groups.getGroupById(action.group_id);
+    await this.notify(action.requested_by, `approval_${action.status}`, action, groupResult.data?.name || 'your group');
+  }
+
+  private async notifyApprovers(group: Group, action: PendingAction): Promise<void> {
+    const requesterResult = await DatabaseService.users.getUserById(action.requested_by);
+    for (const approverId of action.approver_ids) {
+      await this.notify(approverId, 'approval_requested', action, group.name, {
+        memberName: requesterResult.data?.name || 'A group admin',
+        approvalsNeeded: action.required_approvals,
+        dueDate: action.expires_at,
+      });
+    }
+  }
+
+  private async notify(
+    userId: string,
+    templateId: string,
+    action: PendingAction,
+    groupName: string,
+    extra: Record<string, any> = {}
+  ): Promise<void> {
+    try {
+      await NotificationService.sendToUser({
+        templateId,
+        userId,
+        groupId: action.group_id,
+        data: { groupName, actionSummary: action.summary, ...extra },
+        refs: { pendingActionId: action.id },
+      });
+    } catch (error) {
+      console.error('Error sending approval notification:', error);
+    }
+  }
+
+  // Approvers must be members, and there must be enough of them to reach the threshold
+  private async validatePolicy(groupId: string, policy: ApprovalPolicy): Promise<void> {
+    const knownActions = Object.keys(APPROVAL_ACTION_LABELS);
+    if (policy.actions.some(type => !knownActions.includes(type))) {
+      throw new ApprovalError('Unknown action in approval rules');
+    }
+    if (!Number.isInteger(policy.required_approvals) || policy.required_approvals < 1) {
+      throw new ApprovalError('At least one approval must be required');
+    }
+
+    const approverIds = Array.from(new Set(policy.approver_ids));
+    if (policy.required_approvals > approverIds.length) {
+      throw new ApprovalError(
+        `Cannot require ${policy.required_approvals} approvals from ${approverIds.length} approvers`
+      );
+    }
+    for (const approverId of approverIds) {
+      const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(approverId, groupId);
+      if (!memberResult.data || memberResult.data.status !== 'active') {
+        throw new ApprovalError('Approvers must be active members of the group');
+      }
+    }
+
+    if (!(policy.expiry_hours >= 1 && policy.expiry_hours <= MAX_EXPIRY_HOURS)) {
+      throw new ApprovalError(`Requests must expire between 1 hour and ${MAX_EXPIRY_HOURS / 24} days`);
+    }
+  }
+}
+
+export default new ApprovalService();
@@ -0,0 +1,188 @@
+import { AuditChainVerification, AuditError, BusinessLogicResult } from '../../types/business';
+import DatabaseService, {
+  AUDIT_GENESIS_HASH,
+  AuditCategory,
+  AuditChange,
+  AuditEntry,
+  AuditEntryFilters,
+  auditEntryHash,
+} from '../database';
+import { getClock } from '../jobs/clock';
+import { canonicalJson } from '../../utils/hash';
+
+// Actor recorded for automated actions (job runner, payment webhooks, reconciliation)
+export const SYSTEM_ACTOR = 'system';
+
+export const AUDIT_CATEGORY_LABELS: Record<AuditCategory, string> = {
+  payments: 'Payments',
+  penalties: 'Penalties',
+  settings: 'Settings',
+  roles: 'Roles',
+  members: 'Members',
+  invites: 'Invites',
+  payouts: 'Payouts',
+  group: 'Group',
+};
+
+/**
+ * Fields that differ between two versions of a record. Fields missing from
+ * `after` are treated as unchanged, so partial updates can be passed as-is.
+ */
+export const diffChanges = (before: Record<string, any>, after: Record<string, any>): AuditChange[] =>
+  Object.keys(after)
+    .filter(field => after[field] !== undefined && canonicalJson(before[field] ?? null) !== canonicalJson(after[field]))
+    .sort()
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] }));
+
+/**
+ * Append-only audit trail of administrative and financial actions.
+ *
+ * Each group's entries form a hash chain: an entry's hash covers its content
+ * and the previous entry's hash, so any member can re-check the chain and
+ * spot an entry that was edited, removed or inserted after the fact.
+ */
+class AuditLogService {
+  /**
+   * Record an action. Auditing never blocks the action itself: failures are
+   * logged and returned, not thrown.
+   * @param params.before - Record before the change, diffed against `after`
+   * @param params.after - Changed fields, or the record after the change
+   * @returns The appended entry
+   */
+  async record(params: {
+    groupId: string;
+    actorId: string;
+    category: AuditCategory;
+    action: string;
+    targetId?: string;
+    before?: Record<string, any>;
+    after?: Record<string, any>;
+    reason?: string;
+    metadata?: Record<string, any>;
+  }): Promise<BusinessLogicResult<AuditEntry>> {
+    try {
+      const { groupId, actorId, category, action, targetId, before = {}, after = {}, reason, metadata } = params;
+
+      const appendResult = await DatabaseService.auditLog.appendEntry({
+        group_id: groupId,
+        category,
+        action,
+        actor_id: actorId || SYSTEM_ACTOR,
+        ...(targetId ? { target_id: targetId } : {}),
+        changes: diffChanges(before, after),
+        ...(reason ? { reason } : {}),
+        ...(metadata ? { metadata } : {}),
+        created_at: getClock().now(),
+      });
+      if (!appendResult.success || !appendResult.data) {
+        throw new AuditError(appendResult.error || 'Failed to write audit entry');
+      }
+
+      return { success: true, data: appendResult.data };
+    } catch (error) {
+      console.error(`Error recording ${params.action} in audit log:`, error);
+      return {
+        success: false,
+        error: error instanceof AuditError ? error.message : 'Failed to write audit entry',
+        code: error instanceof AuditError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Get a group's audit trail, newest first
+   * @param params.userId - Must be a member of the group
+   * @param params.filters - Limit to a category, actor, target or date range
+   */
+  async getAuditTrail(params: {
+    groupId: string;
+    userId: string;
+    filters?: AuditEntryFilters;
+  }): Promise<BusinessLogicResult<AuditEntry[]>> {
+    try {
+      const { groupId, userId, filters } = params;
+
+      const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(userId, groupId);
+      if (!memberResult.success || !memberResult.data) {
+        throw new AuditError('Only group members can view the audit trail');
+      }
+
+      const entriesResult = await DatabaseService.auditLog.getGroupEntries(groupId, filters);
+      if (!entriesResult.success || !entriesResult.data) {
+        throw new AuditError(entriesResult.error || 'Failed to load audit trail');
+      }
+
+      return { success: true, data: [...entriesResult.data].reverse() };
+    } catch (error) {
+      console.error('Error getting audit trail:', error);
+      return {
+        success: false,
+        error: error instanceof AuditError ? error.message : 'Failed to load audit trail',
+        code: error instanceof AuditError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Re-check a group's whole chain: every hash, every link and the head
+   * @param groupId - Group ID
+   * @returns Whether the chain is intact, and where it first breaks if not
+   */
+  async verifyChain(groupId: string): Promise<BusinessLogicResult<AuditChainVerification>> {
+    try {
+      const [entriesResult, headResult] = await Promise.all([
+        DatabaseService.auditLog.getGroupEntries(groupId),
+        DatabaseService.auditLog.getChainHead(groupId),
+      ]);
+      if (!entriesResult.success || !entriesResult.data || !headResult.success) {
+        throw new AuditError('Failed to load audit trail');
+      }
+
+      const entries = entriesResult.data;
+      const head = headResult.data;
+      const verification: AuditChainVerification = {
+        groupId,
+        valid: true,
+        entryCount: entries.length,
+        headHash: head?.hash || null,
+      };
+      const broken = (
+        brokenAt: number,
+        problem: AuditChainVerification['problem'],
+      ): BusinessLogicResult<AuditChainVerification> => ({
+        success: true,
+        data: { ...verification, valid: false, brokenAt, problem },
+      });
+
+      let previousHash = AUDIT_GENESIS_HASH;
+      for (const [index, entry] of entries.entries()) {
+        if (entry.sequence !== index + 1) {
+          return broken(index + 1, 'missing_entry');
+        }
+        if (entry.previous_hash !== previousHash) {
+          return broken(entry.sequence, 'broken_link');
+        }
+        if (auditEntryHash(entry) !== entry.hash) {
+          return broken(entry.sequence, 'hash_mismatch');
+        }
+        previousHash = entry.hash;
+      }
+
+      // Entries cut off the end leave the chain consistent, but not with its head
+      if ((head?.sequence || 0) !== entries.length || (head && head.hash !== previousHash)) {
+        return broken(entries.length + 1, 'head_mismatch');
+      }
+
+      return { success: true, data: verification };
+    } catch (error) {
+      console.error('Error verifying audit chain:', error);
+      return {
+        success: false,
+        error: error instanceof AuditError ? error.message : 'Failed to verify audit trail',
+        code: error instanceof AuditError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+}
+
+export default new AuditLogService();
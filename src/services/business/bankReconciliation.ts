@@ -0,0 +1,487 @@
+import { BusinessLogicResult, PaymentError, ReconciliationError } from '../../types/business';
+import DatabaseService, {
+  CollectionAccount,
+  Contribution,
+  GroupMember,
+  StatementCredit,
+  StatementImport,
+} from '../database';
+import { getClock } from '../jobs/clock';
+import PaymentService from '../payments';
+import { StatementEntry, StatementFormat, detectStatementFormat, parseStatement } from '../payments/statements';
+import PaymentTrackingService from './paymentTracking';
+import { CurrencyCode, addMoney, currencyOf, money } from '../../utils/money';
+import { hasGroupPermission } from '../../utils/permissions';
+
+export interface ReconciliationCandidate {
+  contribution: Contribution;
+  paymentReference?: string;
+  memberName?: string;
+}
+
+export interface CreditMatch {
+  status: 'matched' | 'review' | 'unmatched';
+  reason: string;
+  contributionId?: string;
+  candidateIds: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Transfers can clear a little before a contribution is created, e.g. when a member pays ahead
+const EARLY_PAYMENT_GRACE_DAYS = 3;
+
+const REFERENCE_PREFIX = 'AJ';
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I
+const REFERENCE_LENGTH = 6;
+
+const compact = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const nameTokens = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(token => token.length >= 2);
+
+// The payer name carries at least two of the member's names (or their only one)
+const namesMatch = (payerName: string, memberName: string): boolean => {
+  const payer = new Set(nameTokens(payerName));
+  const member = nameTokens(memberName);
+  const shared = member.filter(token => payer.has(token)).length;
+  return member.length > 0 && shared >= Math.min(2, member.length);
+};
+
+const byDueDate = (a: ReconciliationCandidate, b: ReconciliationCandidate): number =>
+  new Date(a.contribution.due_date).getTime() - new Date(b.contribution.due_date).getTime();
+
+/**
+ * Decide which unpaid contribution a statement credit pays.
+ * A credit is matched outright when it carries a member's payment reference
+ * (or, without one, the payer's name identifies a single member) and the
+ * amount is exactly what is due; the member's oldest matching contribution is
+ * paid. Anything less certain is left for an admin to review.
+ * @param entry - Credit from the statement
+ * @param candidates - Unpaid contributions with their member's reference and name
+ * @param currency - The group's currency
+ */
+export const matchStatementCredit = (
+  entry: StatementEntry,
+  candidates: ReconciliationCandidate[],
+  currency: CurrencyCode
+): CreditMatch => {
+  if (entry.currency && entry.currency.toUpperCase() !== currency) {
+    return { status: 'unmatched', reason: `Credit is in ${entry.currency}, the group saves in ${currency}`, candidateIds: [] };
+  }
+
+  const eligible = candidates.filter(
+    candidate =>
+      entry.valueDate.getTime() >=
+      new Date(candidate.contribution.created_at).getTime() - EARLY_PAYMENT_GRACE_DAYS * DAY_MS
+  );
+  const amountDue = (contribution: Contribution) =>
+    addMoney(money(contribution.amount, currency), money(contribution.late_penalty_amount || 0, currency)).minorUnits;
+  const received = money(entry.amount, currency).minorUnits;
+  const amountMatches = eligible.filter(candidate => amountDue(candidate.contribution) === received);
+  const ids = (list: ReconciliationCandidate[]) => list.map(candidate => candidate.contribution.id);
+
+  const narration = compact(`${entry.narration} ${entry.bankReference || ''}`);
+  const referenced = eligible.filter(
+    candidate => candidate.paymentReference && narration.includes(compact(candidate.paymentReference))
+  );
+  if (referenced.length > 0) {
+    const members = new Set(referenced.map(candidate => candidate.contribution.user_id));
+    if (members.size > 1) {
+      return { status: 'review', reason: 'Quotes the reference of more than one member', candidateIds: ids(referenced) };
+    }
+    const exact = referenced.filter(candidate => amountMatches.includes(candidate)).sort(byDueDate);
+    if (exact.length === 0) {
+      return { status: 'review', reason: 'Reference matches but the amount differs', candidateIds: ids(referenced) };
+    }
+    return {
+      status: 'matched',
+      reason: 'Reference and amount match',
+      contributionId: exact[0].contribution.id,
+      candidateIds: ids(exact),
+    };
+  }
+
+  if (amountMatches.length === 0) {
+    return { status: 'unmatched', reason: 'No unpaid contribution for this amount', candidateIds: [] };
+  }
+
+  const named = entry.payerName
+    ? amountMatches.filter(candidate => candidate.memberName && namesMatch(entry.payerName!, candidate.memberName))
+    : [];
+  if (new Set(named.map(candidate => candidate.contribution.user_id)).size === 1) {
+    const sorted = [...named].sort(byDueDate);
+    return {
+      status: 'matched',
+      reason: 'Payer name and amount match',
+      contributionId: sorted[0].contribution.id,
+      candidateIds: ids(sorted),
+    };
+  }
+
+  return {
+    status: 'review',
+    reason: 'Amount matches but the transfer has no member reference',
+    candidateIds: ids([...amountMatches].sort(byDueDate)),
+  };
+};
+
+const generatePaymentReference = (): string => {
+  let code = REFERENCE_PREFIX;
+  for (let index = 0; index < REFERENCE_LENGTH; index++) {
+    code += REFERENCE_ALPHABET[Math.floor(Math.random() * REFERENCE_ALPHABET.length)];
+  }
+  return code;
+};
+
+/**
+ * Matches bank-transfer contributions from bank statements.
+ *
+ * Each group can have a collection account (entered by the admin or issued as
+ * a virtual account by the payment provider) and each member a payment
+ * reference to quote on their transfers. Admins import statement files; credits
+ * that clearly pay a contribution confirm it, and the rest wait in a review
+ * queue on the payment confirmation screen.
+ */
+class BankReconciliationService {
+  /**
+   * Where and how a member should send a bank transfer
+   * @returns The group's collection account (if set up) and the member's payment reference
+   */
+  async getPaymentInstructions(
+    groupId: string,
+    userId: string
+  ): Promise<BusinessLogicResult<{ account?: CollectionAccount; reference: string }>> {
+    try {
+      const [groupResult, memberResult] = await Promise.all([
+        DatabaseService.groups.getGroupById(groupId),
+        DatabaseService.groupMembers.getMemberByUserAndGroup(userId, groupId),
+      ]);
+      if (!groupResult.success || !groupResult.data) {
+        throw new ReconciliationError('Group not found');
+      }
+      if (!memberResult.success || !memberResult.data) {
+        throw new ReconciliationError('You are not a member of this group');
+      }
+
+      const reference = await this.ensurePaymentReference(memberResult.data);
+      return { success: true, data: { account: groupResult.data.collection_account, reference } };
+    } catch (error) {
+      console.error('Error getting payment instructions:', error);
+      return {
+        success: false,
+        error: error instanceof ReconciliationError ? error.message : 'Failed to get payment instructions',
+        code: error instanceof ReconciliationError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Set the account members transfer to, or ask the payment provider for a virtual one
+   * @param params.account - Account details; omit to have the provider issue an account
+   * @returns The group's collection account
+   */
+  async setCollectionAccount(params: {
+    groupId: string;
+    adminId: string;
+    account?: CollectionAccount;
+  }): Promise<BusinessLogicResult<CollectionAccount>> {
+    try {
+      const { groupId, adminId } = params;
+      const group = await this.getAdminGroup(groupId, adminId);
+
+      let account = params.account;
+      if (!account) {
+        const provider = PaymentService.getProviderForMethod('bank_transfer');
+        if (!provider.createCollectionAccount) {
+          throw new ReconciliationError(`${provider.id} cannot issue virtual accounts; enter the account details instead`);
+        }
+        const adminResult = await DatabaseService.users.getUserById(adminId);
+        if (!adminResult.success || !adminResult.data?.email) {
+          throw new ReconciliationError('Add an email address to your profile to open a virtual account');
+        }
+        const details = await provider.createCollectionAccount({
+          groupId,
+          accountName: group.name,
+          email: adminResult.data.email,
+          phone: adminResult.data.phone,
+        });
+        account = {
+          account_number: details.accountNumber,
+          bank_name: details.bankName,
+          account_name: details.accountName,
+          provider: provider.id,
+        };
+      }
+
+      const updateResult = await DatabaseService.groups.updateGroup(groupId, { collection_account: account });
+      if (!updateResult.success) {
+        throw new ReconciliationError(updateResult.error || 'Failed to save collection account');
+      }
+      return { success: true, data: account };
+    } catch (error) {
+      console.error('Error setting collection account:', error);
+      return {
+        success: false,
+        error: error instanceof ReconciliationError ? error.message : 'Failed to set up collection account',
+        code: error instanceof ReconciliationError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Import a bank statement and match its credits against unpaid contributions.
+   * Credits already imported before are skipped, so overlapping statements are safe.
+   * @param params.content - Statement file contents (CSV, MT940 or camt.053)
+   * @returns The import summary and the new credits
+   */
+  async importStatement(params: {
+    groupId: string;
+    adminId: string;
+    content: string;
+    format?: StatementFormat;
+    fileName?: string;
+  }): Promise<BusinessLogicResult<{ statementImport: StatementImport; credits: StatementCredit[] }>> {
+    try {
+      const { groupId, adminId, content, fileName } = params;
+      const group = await this.getAdminGroup(groupId, adminId);
+      const currency = currencyOf(group);
+
+      const format = params.format || detectStatementFormat(content);
+      const entries = parseStatement(content, format);
+
+      const [existingResult, contributionsResult, membersResult] = await Promise.all([
+        DatabaseService.bankStatements.getGroupCredits(groupId),
+        DatabaseService.contributions.getGroupUnpaidContributions(groupId),
+        DatabaseService.groupMembers.getGroupMembers(groupId),
+      ]);
+      if (!existingResult.success || !contributionsResult.success || !membersResult.success) {
+        throw new ReconciliationError('Failed to load group payments');
+      }
+      const seen = new Set((existingResult.data || []).map(credit => credit.dedupe_key));
+      const members = new Map((membersResult.data?.items || []).map(member => [member.user_id, member]));
+      let candidates: ReconciliationCandidate[] = (contributionsResult.data || []).map(contribution => ({
+        contribution,
+        paymentReference: members.get(contribution.user_id)?.payment_reference,
+        memberName: members.get(contribution.user_id)?.display_name,
+      }));
+
+      const importId = DatabaseService.bankStatements.generateImportId();
+      const now = getClock().now();
+      const credits: StatementCredit[] = [];
+      let duplicates = 0;
+
+      for (const entry of entries) {
+        const dedupeKey = entry.bankReference
+          ? `ref:${compact(entry.bankReference)}`
+          : `${entry.valueDate.toISOString().slice(0, 10)}:${money(entry.amount, currency).minorUnits}:${compact(entry.narration)}`;
+        if (seen.has(dedupeKey)) {
+          duplicates++;
+          continue;
+        }
+        seen.add(dedupeKey);
+
+        let match = matchStatementCredit(entry, candidates, currency);
+        if (match.status === 'matched' && match.contributionId) {
+          const confirmation = await PaymentTrackingService.confirmMemberPayment({
+            contributionId: match.contributionId,
+            adminId,
+            confirmationType: 'bank_transfer',
+            confirmationMethod: 'bank_verification',
+            transactionReference: entry.bankReference,
+            paidDate: entry.valueDate,
+            notes: `Matched from bank statement: ${entry.narration}`.trim(),
+          });
+          if (confirmation.success) {
+            candidates = candidates.filter(candidate => candidate.contribution.id !== match.contributionId);
+          } else {
+            match = { status: 'review', reason: confirmation.error || 'Could not confirm the payment', candidateIds: [match.contributionId] };
+          }
+        }
+
+        credits.push({
+          id: DatabaseService.bankStatements.generateCreditId(),
+          group_id: groupId,
+          import_id: importId,
+          dedupe_key: dedupeKey,
+          bank_reference: entry.bankReference,
+          amount: entry.amount,
+          currency: entry.currency,
+          value_date: entry.valueDate,
+          narration: entry.narration,
+          payer_name: entry.payerName,
+          status: match.status,
+          match_reason: match.reason,
+          contribution_id: match.status === 'matched' ? match.contributionId : undefined,
+          candidate_contribution_ids: match.candidateIds,
+          created_at: now,
+        });
+      }
+
+      const count = (status: StatementCredit['status']) => credits.filter(credit => credit.status === status).length;
+      const statementImport: StatementImport = {
+        id: importId,
+        group_id: groupId,
+        format,
+        file_name: fileName,
+        imported_by: adminId,
+        imported_at: now,
+        credit_count: entries.length,
+        matched_count: count('matched'),
+        review_count: count('review'),
+        unmatched_count: count('unmatched'),
+        duplicate_count: duplicates,
+      };
+
+      const saveResult = await DatabaseService.bankStatements.saveImport(statementImport, credits);
+      if (!saveResult.success || !saveResult.data) {
+        throw new ReconciliationError(saveResult.error || 'Failed to save statement import');
+      }
+
+      console.log(
+        `Imported ${entries.length} credits for group ${groupId}: ${statementImport.matched_count} matched, ` +
+          `${statementImport.review_count} to review`
+      );
+      return { success: true, data: saveResult.data };
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      return {
+        success: false,
+        // PaymentError comes from a statement the parser could not read
+        error:
+          error instanceof ReconciliationError || error instanceof PaymentError ? error.message : 'Failed to import statement',
+        code: error instanceof ReconciliationError || error instanceof PaymentError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Credits waiting for an admin: ambiguous matches and credits nothing matched
+   * @param groupId - Group ID
+   * @returns Credits to review, oldest first
+   */
+  async getReviewQueue(groupId: string): Promise<BusinessLogicResult<StatementCredit[]>> {
+    const result = await DatabaseService.bankStatements.getGroupCredits(groupId, ['review', 'unmatched']);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to fetch review queue', code: 'FETCH_REVIEW_QUEUE_ERROR' };
+    }
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Confirm the contribution a reviewed credit pays
+   * @param params.contributionId - Contribution the admin picked
+   * @returns The resolved credit
+   */
+  async resolveCredit(params: {
+    creditId: string;
+    adminId: string;
+    contributionId: string;
+  }): Promise<BusinessLogicResult<StatementCredit>> {
+    try {
+      const { creditId, adminId, contributionId } = params;
+      const credit = await this.getOpenCredit(creditId, adminId);
+
+      const confirmation = await PaymentTrackingService.confirmMemberPayment({
+        contributionId,
+        adminId,
+        confirmationType: 'bank_transfer',
+        confirmationMethod: 'bank_verification',
+        transactionReference: credit.bank_reference,
+        paidDate: new Date(credit.value_date),
+        customAmount: credit.amount,
+        notes: `Matched from bank statement by admin: ${credit.narration}`.trim(),
+      });
+      if (!confirmation.success) {
+        throw new ReconciliationError(confirmation.error || 'Failed to confirm payment');
+      }
+
+      const updates = {
+        status: 'matched' as const,
+        contribution_id: contributionId,
+        resolved_by: adminId,
+        resolved_at: getClock().now(),
+      };
+      await DatabaseService.bankStatements.updateCredit(creditId, updates);
+      return { success: true, data: { ...credit, ...updates } };
+    } catch (error) {
+      console.error('Error resolving statement credit:', error);
+      return {
+        success: false,
+        error: error instanceof ReconciliationError ? error.message : 'Failed to resolve statement credit',
+        code: error instanceof ReconciliationError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Take a credit out of the review queue without confirming anything,
+   * e.g. money that is not a contribution
+   * @returns The ignored credit
+   */
+  async ignoreCredit(params: { creditId: string; adminId: string }): Promise<BusinessLogicResult<StatementCredit>> {
+    try {
+      const { creditId, adminId } = params;
+      const credit = await this.getOpenCredit(creditId, adminId);
+
+      const updates = { status: 'ignored' as const, resolved_by: adminId, resolved_at: getClock().now() };
+      await DatabaseService.bankStatements.updateCredit(creditId, updates);
+      return { success: true, data: { ...credit, ...updates } };
+    } catch (error) {
+      console.error('Error ignoring statement credit:', error);
+      return {
+        success: false,
+        error: error instanceof ReconciliationError ? error.message : 'Failed to ignore statement credit',
+        code: error instanceof ReconciliationError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  private async getAdminGroup(groupId: string, adminId: string) {
+    const groupResult = await DatabaseService.groups.getGroupById(groupId);
+    if (!groupResult.success || !groupResult.data) {
+      throw new ReconciliationError('Group not found');
+    }
+    if (!hasGroupPermission(groupResult.data, adminId, 'canMarkPayments')) {
+      throw new ReconciliationError('You do not have permission to reconcile bank payments');
+    }
+    return groupResult.data;
+  }
+
+  private async getOpenCredit(creditId: string, adminId: string): Promise<StatementCredit> {
+    const creditResult = await DatabaseService.bankStatements.getCreditById(creditId);
+    if (!creditResult.success || !creditResult.data) {
+      throw new ReconciliationError('Statement credit not found');
+    }
+    await this.getAdminGroup(creditResult.data.group_id, adminId);
+    if (creditResult.data.status === 'matched' || creditResult.data.status === 'ignored') {
+      throw new ReconciliationError('This credit has already been dealt with');
+    }
+    return creditResult.data;
+  }
+
+  // Give the member a payment reference the first time they need one
+  private async ensurePaymentReference(member: GroupMember): Promise<string> {
+    if (member.payment_reference) {
+      return member.payment_reference;
+    }
+
+    const membersResult = await DatabaseService.groupMembers.getGroupMembers(member.group_id);
+    const taken = new Set((membersResult.data?.items || []).map(item => item.payment_reference));
+    let reference = generatePaymentReference();
+    while (taken.has(reference)) {
+      reference = generatePaymentReference();
+    }
+
+    const updateResult = await DatabaseService.groupMembers.updateMember(member.id, { payment_reference: reference });
+    if (!updateResult.success) {
+      throw new ReconciliationError(updateResult.error || 'Failed to save payment reference');
+    }
+    return reference;
+  }
+}
+
+export default new BankReconciliationService();
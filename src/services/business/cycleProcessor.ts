@@ -4,11 +4,19 @@ import {
   BusinessLogicResult, 
   CycleProcessingError,
   CycleTransition,
+  PayoutShortfallDecision,
   BUSINESS_CONSTANTS
 } from '../../types/business';
-import DatabaseService from '../database';
+import DatabaseService, { Group, isPaidOut } from '../database';
+import { hasGroupPermission } from '../../utils/permissions';
+import { currencyOf } from '../../utils/money';
+import { getClock } from '../jobs/clock';
 import TurnOrderService from './turnOrder';
+import AuditLogService, { SYSTEM_ACTOR } from './auditLog';
 import PaymentStatusService from './paymentStatus';
+import WalletService from './wallet';
+import PayoutService from './payouts';
+import { buildPayoutShortfallPolicy, evaluatePayoutShortfall, summarizeCycleCollection } from './payoutShortfallPolicy';
 
 class CycleProcessorService {
   /**
@@ -34,8 +42,8 @@ class CycleProcessorService {
       const group = groupResult.data;
 
       // Verify admin permissions
-      if (group.admin_id !== adminId) {
-        throw new CycleProcessingError('Only group admin can process cycles');
+      if (!hasGroupPermission(group, adminId, 'canManageCycles')) {
+        throw new CycleProcessingError('You do not have permission to process cycles');
       }
 
       // Check if group is in valid state for processing
@@ -62,8 +70,15 @@ class CycleProcessorService {
         warnings: [],
       };
 
-      // Check if we can process (all payments collected or force process)
+      // Check if we can process (the group's shortfall policy lets the payout go ahead, or force process)
       if (!forceProcess) {
+        const shortfall = await this.evaluateCycleShortfall(group);
+        if (!shortfall.release) {
+          throw new CycleProcessingError(shortfall.notes);
+        }
+        // Once its delay has passed, a held payout goes ahead with whatever was collected
+        const delayPassed = buildPayoutShortfallPolicy(group).rule === 'delay';
+
         const paymentStatus = await PaymentStatusService.checkPaymentStatus({
           groupId,
           cycle: currentCycle,
@@ -72,7 +87,7 @@ class CycleProcessorService {
         if (paymentStatus.success && paymentStatus.data) {
           const completionRate = paymentStatus.data.completionRate;
           
-          if (completionRate < 90) { // Require at least 90% payment completion
+          if (completionRate < 90 && !delayPassed) { // Require at least 90% payment completion
             processingResult.warnings.push(
               `Only ${completionRate.toFixed(1)}% of payments collected. Consider waiting or using force processing.`
             );
@@ -87,7 +102,7 @@ class CycleProcessorService {
       }
 
       // Step 1: Process current cycle payout
-      const payoutResult = await this.processCurrentCyclePayout(group, currentCycle);
+      const payoutResult = await this.processCurrentCyclePayout(group, currentCycle, adminId);
       if (payoutResult.success && payoutResult.data) {
         processingResult.payoutCreated = true;
         processingResult.recipientId = payoutResult.data.recipientId;
@@ -232,7 +247,7 @@ class CycleProcessorService {
             transitionDate: payout.created_at,
             previousRecipient: i > 0 ? payouts[i - 1].recipient_id : '',
             nextRecipient: payout.recipient_id,
-            payoutProcessed: payout.status === 'completed',
+            payoutProcessed: isPaidOut(payout),
             contributionsGenerated: true, // Assume true if payout exists
           });
         }
@@ -290,14 +305,16 @@ class CycleProcessorService {
   }
 
   /**
-   * Process payout for current cycle
+   * Process payout for current cycle: schedule it, or send it once it has been released
    * @param group - Group data
    * @param cycle - Current cycle
+   * @param adminId - Admin processing the cycle
    * @returns Payout processing result
    */
   private async processCurrentCyclePayout(
     group: any, 
-    cycle: number
+    cycle: number,
+    adminId: string
   ): Promise<BusinessLogicResult<{ recipientId: string; amount: number }>> {
     try {
       // Get or create payout for this cycle
@@ -307,9 +324,11 @@ class CycleProcessorService {
         // Payout already exists, check if it needs processing
         const payout = existingPayoutResult.data;
         
-        if (payout.status === 'scheduled' && payout.approved_by_admin) {
-          // Mark as processing
-          await DatabaseService.payouts.markAsProcessing(payout.id);
+        if (payout.status === 'approved') {
+          const sendResult = await PayoutService.sendPayout({ payoutId: payout.id, adminId });
+          if (!sendResult.success) {
+            throw new CycleProcessingError(sendResult.error || 'Failed to send payout');
+          }
         }
 
         return {
@@ -320,14 +339,32 @@ class CycleProcessorService {
           },
         };
       } else {
-        // Create new payout
+        // Create new payout for whoever the group's turn order strategy schedules
+        const turnResult = await TurnOrderService.getNextRecipient(group.id, cycle);
+        if (!turnResult.success || !turnResult.data) {
+          throw new CycleProcessingError(turnResult.error || 'Failed to determine payout recipient');
+        }
+
         const payoutResult = await DatabaseService.createCyclePayout(
           group.id,
           cycle,
-          new Date()
+          new Date(),
+          turnResult.data.recipientId
         );
 
         if (payoutResult.success && payoutResult.data) {
+          if (payoutResult.data.shortfall_amount) {
+            await PayoutService.recordShortfall(payoutResult.data.id);
+          }
+          await AuditLogService.record({
+            groupId: group.id,
+            actorId: SYSTEM_ACTOR,
+            category: 'payouts',
+            action: 'payout_scheduled',
+            targetId: payoutResult.data.id,
+            after: { status: payoutResult.data.status, amount: payoutResult.data.amount },
+            metadata: { recipient_id: payoutResult.data.recipient_id, cycle },
+          });
           return {
             success: true,
             data: {
@@ -393,7 +430,7 @@ class CycleProcessorService {
   }
 
   /**
-   * Create contributions for next cycle
+   * Create contributions for next cycle, paying them from members' wallets first
    * @param groupId - Group ID
    * @param cycle - Cycle number
    * @returns Creation result
@@ -413,6 +450,10 @@ class CycleProcessorService {
         dueDate
       );
 
+      if (result.success && result.data) {
+        await WalletService.settleFromWallets(result.data);
+      }
+
       return {
         success: result.success,
         error: result.error,
@@ -481,6 +522,26 @@ class CycleProcessorService {
     }
   }
 
+  /**
+   * Apply the group's payout shortfall policy to what the current cycle has collected
+   * @param group - Group to check
+   * @returns Whether the payout can go ahead, and how much is short
+   */
+  private async evaluateCycleShortfall(group: Group): Promise<PayoutShortfallDecision> {
+    const contributionsResult = await DatabaseService.contributions.getCycleContributions(group.id, group.current_cycle);
+    if (!contributionsResult.success || !contributionsResult.data) {
+      throw new CycleProcessingError('Failed to get cycle contributions');
+    }
+
+    const currency = currencyOf(group);
+    return evaluatePayoutShortfall(buildPayoutShortfallPolicy(group), {
+      ...summarizeCycleCollection(contributionsResult.data, currency),
+      cycleEndDate: new Date(group.cycle_end_date),
+      now: getClock().now(),
+      currency,
+    });
+  }
+
   /**
    * Check if cycle is ready for processing
    * @param group - Group to check
@@ -496,6 +557,15 @@ class CycleProcessorService {
         return false;
       }
 
+      // Hold the cycle while the group's shortfall policy keeps the payout waiting
+      const shortfall = await this.evaluateCycleShortfall(group);
+      if (!shortfall.release) {
+        return false;
+      }
+      if (buildPayoutShortfallPolicy(group).rule === 'delay') {
+        return true;
+      }
+
       // Check payment completion rate
       const paymentStatus = await PaymentStatusService.checkPaymentStatus({
         groupId: group.id,
@@ -6,7 +6,8 @@ import {
   BUSINESS_CONSTANTS
 } from '../../types/business';
 import { Group, GroupMember, Contribution, Payout } from '../../types/database';
-import DatabaseService from '../database';
+import DatabaseService, { isPaidOut } from '../database';
+import { hasGroupPermission } from '../../utils/permissions';
 
 class GroupCompletionService {
   /**
@@ -50,7 +51,7 @@ class GroupCompletionService {
 
       // Calculate completion rate
       const expectedPayouts = Math.min(group.total_cycles, activeMembers.length);
-      const completedPayouts = payouts.filter(p => p.status === 'completed').length;
+      const completedPayouts = payouts.filter(isPaidOut).length;
       completionStatus.completionRate = expectedPayouts > 0 ? (completedPayouts / expectedPayouts) * 100 : 0;
 
       // Check payment completion across all cycles
@@ -82,7 +83,7 @@ class GroupCompletionService {
       // Set final payout date if completed
       if (completionStatus.isCompleted && payouts.length > 0) {
         const lastPayout = payouts
-          .filter(p => p.status === 'completed')
+          .filter(isPaidOut)
           .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
         
         if (lastPayout) {
@@ -132,7 +133,7 @@ class GroupCompletionService {
 
     for (const member of members) {
       const memberPayouts = payouts.filter(p => 
-        p.recipient_id === member.user_id && p.status === 'completed'
+        p.recipient_id === member.user_id && isPaidOut(p)
       );
 
       const hasReceivedPayout = memberPayouts.length > 0;
@@ -214,13 +215,13 @@ class GroupCompletionService {
       if (!groupResult.success || !groupResult.data) {
         throw new GroupCompletionError('Failed to fetch group data');
       }
-      if (!membersResult.success) {
+      if (!membersResult.success || !membersResult.data) {
         throw new GroupCompletionError('Failed to fetch group members');
       }
-      if (!contributionsResult.success) {
+      if (!contributionsResult.success || !contributionsResult.data) {
         throw new GroupCompletionError('Failed to fetch contributions');
       }
-      if (!payoutsResult.success) {
+      if (!payoutsResult.success || !payoutsResult.data) {
         throw new GroupCompletionError('Failed to fetch payouts');
       }
 
@@ -273,8 +274,8 @@ class GroupCompletionService {
         throw new GroupCompletionError('Group not found');
       }
 
-      if (groupResult.data.admin_id !== adminId) {
-        throw new GroupCompletionError('Only group admin can finalize completion');
+      if (!hasGroupPermission(groupResult.data, adminId, 'canManageCycles')) {
+        throw new GroupCompletionError('You do not have permission to finalize completion');
       }
 
       // Mark group as completed
@@ -284,7 +285,7 @@ class GroupCompletionService {
         final_completion_rate: status.completionRate,
       });
 
-      if (!updateResult.success) {
+      if (!updateResult.success || !updateResult.data) {
         throw new GroupCompletionError('Failed to mark group as completed');
       }
 
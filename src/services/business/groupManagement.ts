@@ -1,18 +1,29 @@
 import { BusinessLogicResult } from '../../types/business';
-import DatabaseService from '../database';
-import { GroupNotificationService } from '../notifications';
+import DatabaseService, {
+  GroupMember,
+  GroupPermissions,
+  GroupRole,
+  LatePaymentPolicy,
+  LedgerEntry,
+  PayoutShortfallPolicy,
+  isPaidOut,
+} from '../database';
+import { refundEntry } from '../database/ledger';
+import { getClock } from '../jobs/clock';
+import GroupNotificationService from '../notifications/groupNotifications';
 import PaymentReminderService from '../notifications/paymentReminders';
+import { buildLatePaymentPolicy, validateLatePaymentPolicy } from './latePaymentPolicy';
+import { buildPayoutShortfallPolicy, validatePayoutShortfallPolicy } from './payoutShortfallPolicy';
+import GroupSettlementService from './groupSettlement';
+import ApprovalService from './approvals';
+import AuditLogService from './auditLog';
+import { CurrencyCode, checkAmountLimits, currencyOf, formatAmount, money, multiplyMoney, sumMoney, toMajor } from '../../utils/money';
+import { DELEGATED_ROLES, ROLE_DESCRIPTIONS, resolvePermissions, validatePermissionChange } from '../../utils/permissions';
 
-export interface GroupPermissions {
-  canAddMembers: boolean;
-  canRemoveMembers: boolean;
-  canEditSettings: boolean;
-  canMarkPayments: boolean;
-  canDeleteGroup: boolean;
-  canTransferAdmin: boolean;
-  canViewFinances: boolean;
-  canManageCycles: boolean;
-}
+export type { GroupPermissions };
+
+// Share of a leaving member's contributions paid back; the rest stays with the group
+const REFUND_RATE = 0.9;
 
 export interface GroupMemberDetailed {
   id: string;
@@ -21,12 +32,13 @@ export interface GroupMemberDetailed {
   email: string;
   phoneNumber?: string;
   profileImageUrl?: string;
-  role: 'admin' | 'member';
+  role: GroupMember['role'];
   joinOrder: number;
   joinDate: Date;
   status: 'active' | 'suspended' | 'left';
   totalContributions: number;
   totalReceived: number;
+  currency: CurrencyCode; // of the totals above
   reliabilityScore: number;
   lastPaymentDate?: Date;
   nextTurnPosition: number;
@@ -43,6 +55,7 @@ export interface GroupSettings {
   requirePaymentProof: boolean;
   allowMemberInvites: boolean;
   groupVisibility: 'private' | 'public' | 'invite_only';
+  requireSwapApproval: boolean; // Admin must approve turn swaps agreed between members
 }
 
 export interface GroupCompletionOptions {
@@ -54,6 +67,20 @@ export interface GroupCompletionOptions {
 }
 
 class GroupManagementService {
+  constructor() {
+    ApprovalService.registerExecutor('remove_member', action =>
+      this.removeMember({ adminId: action.requested_by, groupId: action.group_id, ...action.params, approvedActionId: action.id })
+    );
+    ApprovalService.registerExecutor('transfer_admin', action =>
+      this.transferAdmin({ currentAdminId: action.requested_by, groupId: action.group_id, ...action.params, approvedActionId: action.id })
+    );
+    ApprovalService.registerExecutor('dissolve_group', action =>
+      this.handleGroupCompletion({ adminId: action.requested_by, groupId: action.group_id, ...action.params, approvedActionId: action.id })
+    );
+    ApprovalService.registerExecutor('change_contribution_amount', action =>
+      this.updateGroupSettings({ adminId: action.requested_by, groupId: action.group_id, ...action.params, approvedActionId: action.id })
+    );
+  }
 
   // Check if user has specific permission for a group
   async checkPermission(
@@ -72,12 +99,14 @@ class GroupManagementService {
         };
       }
 
-      const member = memberResult.data;
-      const permissions = this.getUserPermissions(member.role);
+      // Suspended (or departed) members keep their role but may not use it
+      if (memberResult.data.status !== 'active') {
+        return { success: true, data: false };
+      }
 
       return {
         success: true,
-        data: permissions[permission],
+        data: this.getUserPermissions(memberResult.data)[permission],
       };
     } catch (error) {
       console.error('Error checking permission:', error);
@@ -89,31 +118,157 @@ class GroupManagementService {
     }
   }
 
-  // Get user's permissions based on role
-  private getUserPermissions(role: 'admin' | 'member'): GroupPermissions {
-    if (role === 'admin') {
+  // Get a member's role and everything it currently allows them to do
+  async getMemberPermissions(
+    userId: string,
+    groupId: string
+  ): Promise<BusinessLogicResult<{ role: GroupRole; permissions: GroupPermissions }>> {
+    try {
+      const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(userId, groupId);
+
+      if (!memberResult.success || !memberResult.data) {
+        return {
+          success: false,
+          error: 'User is not a member of this group',
+          code: 'NOT_GROUP_MEMBER',
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          role: memberResult.data.role,
+          permissions: this.getUserPermissions(memberResult.data),
+        },
+      };
+    } catch (error) {
+      console.error('Error getting member permissions:', error);
       return {
-        canAddMembers: true,
-        canRemoveMembers: true,
-        canEditSettings: true,
-        canMarkPayments: true,
-        canDeleteGroup: true,
-        canTransferAdmin: true,
-        canViewFinances: true,
-        canManageCycles: true,
+        success: false,
+        error: 'Failed to get permissions',
+        code: 'PERMISSION_CHECK_ERROR',
       };
     }
+  }
 
-    return {
-      canAddMembers: false,
-      canRemoveMembers: false,
-      canEditSettings: false,
-      canMarkPayments: false,
-      canDeleteGroup: false,
-      canTransferAdmin: false,
-      canViewFinances: false,
-      canManageCycles: false,
-    };
+  // Give a member a delegated role (co-admin, treasurer, auditor) or take it away,
+  // optionally granting or revoking individual permissions on top of the role
+  async assignMemberRole(params: {
+    adminId: string;
+    groupId: string;
+    memberId: string; // user ID of the member
+    role: GroupRole;
+    permissionOverrides?: Partial<GroupPermissions>;
+  }): Promise<BusinessLogicResult<GroupMemberDetailed>> {
+    try {
+      const { adminId, groupId, memberId, role, permissionOverrides = {} } = params;
+
+      // Only the admin delegates, so co-admins cannot promote each other
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        return {
+          success: false,
+          error: 'Group not found',
+          code: 'GROUP_NOT_FOUND',
+        };
+      }
+      if (groupResult.data.admin_id !== adminId) {
+        return {
+          success: false,
+          error: 'Only the group admin can assign roles',
+          code: 'INSUFFICIENT_PERMISSIONS',
+        };
+      }
+
+      if (role !== 'member' && !DELEGATED_ROLES.includes(role)) {
+        return {
+          success: false,
+          error: role === 'admin'
+            ? 'Use an admin transfer to make someone the group admin'
+            : `Unknown role: ${role}`,
+          code: 'INVALID_ROLE',
+        };
+      }
+
+      const validation = validatePermissionChange(
+        resolvePermissions(role),
+        permissionOverrides,
+        true
+      );
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.errors.join('; '),
+          code: 'INVALID_PERMISSIONS',
+        };
+      }
+
+      const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(memberId, groupId);
+      if (!memberResult.success || !memberResult.data) {
+        return {
+          success: false,
+          error: 'Member not found in group',
+          code: 'MEMBER_NOT_FOUND',
+        };
+      }
+      if (memberResult.data.role === 'admin') {
+        return {
+          success: false,
+          error: 'Transfer admin rights before changing your own role',
+          code: 'ADMIN_ROLE_LOCKED',
+        };
+      }
+
+      const updateResult = await DatabaseService.groupMembers.updateMemberRole(
+        memberId, groupId, role, permissionOverrides
+      );
+      if (!updateResult.success || !updateResult.data) {
+        return {
+          success: false,
+          error: 'Failed to update member role',
+          code: 'ASSIGN_ROLE_ERROR',
+        };
+      }
+
+      const detailed = await this.getGroupMembersDetailed({ userId: adminId, groupId });
+      const updated = detailed.success && detailed.data ? detailed.data.find(item => item.userId === memberId) : undefined;
+      if (!updated) {
+        return {
+          success: false,
+          error: 'Failed to load updated member',
+          code: 'ASSIGN_ROLE_ERROR',
+        };
+      }
+
+      await AuditLogService.record({
+        groupId,
+        actorId: adminId,
+        category: 'roles',
+        action: 'role_changed',
+        targetId: memberId,
+        before: { role: memberResult.data.role, permission_overrides: memberResult.data.permission_overrides || {} },
+        after: { role, permission_overrides: permissionOverrides },
+      });
+
+      console.log(`✅ ${ROLE_DESCRIPTIONS[role].title} role given to ${memberId} in group ${groupId}`);
+
+      return {
+        success: true,
+        data: updated,
+      };
+    } catch (error) {
+      console.error('Error assigning member role:', error);
+      return {
+        success: false,
+        error: 'Failed to assign role',
+        code: 'ASSIGN_ROLE_ERROR',
+      };
+    }
+  }
+
+  // Get user's permissions from their role and any per-member overrides
+  private getUserPermissions(member: GroupMember): GroupPermissions {
+    return resolvePermissions(member.role, member.permission_overrides);
   }
 
   // Add member to group (admin only)
@@ -150,7 +305,7 @@ class GroupManagementService {
 
       // Check if group is full
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) {
+      if (!membersResult.success || !membersResult.data) {
         return {
           success: false,
           error: 'Failed to get group members',
@@ -213,8 +368,8 @@ class GroupManagementService {
         joined_at: new Date(),
       };
 
-      const addResult = await DatabaseService.groupMembers.addGroupMember(memberData);
-      if (!addResult.success) {
+      const addResult = await DatabaseService.groupMembers.addMember(memberData);
+      if (!addResult.success || !addResult.data) {
         return {
           success: false,
           error: 'Failed to add member to group',
@@ -226,16 +381,17 @@ class GroupManagementService {
       const newMember: GroupMemberDetailed = {
         id: addResult.data.id,
         userId: newUser.id,
-        displayName: newUser.displayName || newUser.email,
-        email: newUser.email,
-        phoneNumber: newUser.phoneNumber,
-        profileImageUrl: newUser.profileImageUrl,
+        displayName: newUser.name || newUser.email || newUser.phone,
+        email: newUser.email || '',
+        phoneNumber: newUser.phone,
+        profileImageUrl: newUser.profile_picture,
         role: 'member',
         joinOrder,
         joinDate: new Date(),
         status: 'active',
         totalContributions: 0,
         totalReceived: 0,
+        currency: currencyOf(group),
         reliabilityScore: 100,
         nextTurnPosition: joinOrder,
         hasReceivedPayout: false,
@@ -249,13 +405,22 @@ class GroupManagementService {
         adminName: '', // Will be fetched in notification service
         newMemberId: newUser.id,
         newMemberName: newMember.displayName,
-        newMemberPhone: newUser.phoneNumber,
+        newMemberPhone: newUser.phone,
         joinOrder,
         totalSlots: group.max_members,
         notifyMembers: true,
         sendSMS: true,
       });
 
+      await AuditLogService.record({
+        groupId,
+        actorId: adminId,
+        category: 'members',
+        action: 'member_added',
+        targetId: newUser.id,
+        after: { role: 'member', join_order: joinOrder },
+      });
+
       console.log(`✅ Added ${newMember.displayName} to group ${group.name} at position ${joinOrder}`);
 
       return {
@@ -281,6 +446,7 @@ class GroupManagementService {
     redistributeTurn: boolean;
     refundContributions: boolean;
     adminNotes?: string;
+    approvedActionId?: string; // set when running an approved request
   }): Promise<BusinessLogicResult<boolean>> {
     try {
       const { adminId, groupId, memberId, reason, redistributeTurn, refundContributions, adminNotes } = params;
@@ -316,17 +482,39 @@ class GroupManagementService {
 
       const member = memberResult.data;
 
+      // Get group details
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      const groupName = groupResult.data ? groupResult.data.name : 'Unknown Group';
+
+      // Co-admins can remove members, but only the admin removes someone holding a role
+      if (member.role !== 'member' && groupResult.data?.admin_id !== adminId && memberId !== adminId) {
+        return {
+          success: false,
+          error: 'Only the group admin can remove members with a role',
+          code: 'INSUFFICIENT_PERMISSIONS',
+        };
+      }
+
       // Get user details for notifications
       const userResult = await DatabaseService.users.getUserById(memberId);
-      const userName = userResult.success ? userResult.data.displayName || userResult.data.email : 'Unknown User';
+      const userName = userResult.data ? userResult.data.name || userResult.data.email : 'Unknown User';
 
-      // Get group details
-      const groupResult = await DatabaseService.groups.getGroupById(groupId);
-      const groupName = groupResult.success ? groupResult.data.name : 'Unknown Group';
+      // The group may require other members to sign off first
+      const approval = await ApprovalService.requireApproval<boolean>({
+        groupId,
+        requestedBy: adminId,
+        type: 'remove_member',
+        params: { memberId, reason, redistributeTurn, refundContributions, adminNotes },
+        summary: `remove ${userName} from the group`,
+        approvedActionId: params.approvedActionId,
+      });
+      if (approval) {
+        return approval;
+      }
 
       // Cancel any pending payment reminders for this member
-      const contributionsResult = await DatabaseService.contributions.getUserContributions(memberId, groupId);
-      if (contributionsResult.success) {
+      const contributionsResult = await DatabaseService.contributions.getUserContributions(memberId, { group_id: groupId });
+      if (contributionsResult.success && contributionsResult.data) {
         for (const contribution of contributionsResult.data.items) {
           if (contribution.status === 'pending') {
             await PaymentReminderService.cancelReminders(contribution.id);
@@ -334,20 +522,31 @@ class GroupManagementService {
         }
       }
 
-      // Handle turn redistribution
-      if (redistributeTurn && member.join_order) {
-        await this.adjustMemberPositions(groupId, member.join_order, 'remove');
-      }
-
-      // Handle contribution refunds (would integrate with payment system)
-      if (refundContributions) {
-        console.log(`Processing refund for member ${userName} - reason: ${reason}`);
-        // This would calculate and process actual refunds
+      // Any refund moves from the pot into their wallet as they are removed
+      let refund: LedgerEntry | undefined;
+      if (refundContributions && groupResult.data) {
+        const owed = await this.calculateRefund(memberId, groupId);
+        if (owed.refund > 0) {
+          refund = refundEntry({
+            groupId,
+            userId: memberId,
+            cycleNumber: groupResult.data.current_cycle,
+            contributed: owed.contributed,
+            refund: owed.refund,
+            currency: currencyOf(groupResult.data),
+            createdBy: adminId || memberId,
+            createdAt: getClock().now(),
+          });
+        }
       }
 
-      // Remove member from group
-      const removeResult = await DatabaseService.groupMembers.removeGroupMember(member.id);
-      if (!removeResult.success) {
+      // Remove member from group, closing the gap in the rotation if asked
+      const removeResult = await DatabaseService.groupMembers.removeMember(member.id, undefined, {
+        closeTurnGap: redistributeTurn,
+        refund,
+        approvedActionId: params.approvedActionId,
+      });
+      if (!removeResult.success || !removeResult.data) {
         return {
           success: false,
           error: 'Failed to remove member from database',
@@ -359,12 +558,13 @@ class GroupManagementService {
       await this.logMemberRemoval({
         groupId,
         memberId,
-        memberName: userName,
+        memberName: userName || 'Unknown User',
         adminId,
         reason,
         redistributeTurn,
         refundContributions,
         adminNotes,
+        approvedActionId: params.approvedActionId,
       });
 
       // Send notifications
@@ -372,7 +572,7 @@ class GroupManagementService {
         groupId,
         groupName,
         leftMemberId: memberId,
-        leftMemberName: userName,
+        leftMemberName: userName || 'Unknown User',
         reason: reason === 'request' ? 'voluntary' : 'removed',
         adminId,
         notifyGroup: true,
@@ -413,11 +613,11 @@ class GroupManagementService {
         };
       }
 
-      const userRole = memberCheck.data.role;
+      const canViewFinances = this.getUserPermissions(memberCheck.data).canViewFinances;
 
       // Get basic member list
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) {
+      if (!membersResult.success || !membersResult.data) {
         return {
           success: false,
           error: 'Failed to get group members',
@@ -427,11 +627,12 @@ class GroupManagementService {
 
       const members = membersResult.data.items;
       const detailedMembers: GroupMemberDetailed[] = [];
+      const currency = currencyOf((await DatabaseService.groups.getGroupById(groupId)).data);
 
       for (const member of members) {
         // Get user details
         const userResult = await DatabaseService.users.getUserById(member.user_id);
-        if (!userResult.success) continue;
+        if (!userResult.success || !userResult.data) continue;
 
         const user = userResult.data;
 
@@ -441,13 +642,14 @@ class GroupManagementService {
         let reliabilityScore = 100;
         let lastPaymentDate: Date | undefined;
 
-        if (includeFinancials && (userRole === 'admin' || member.user_id === userId)) {
-          const contributionsResult = await DatabaseService.contributions.getUserContributions(member.user_id, groupId);
-          if (contributionsResult.success) {
+        if (includeFinancials && (canViewFinances || member.user_id === userId)) {
+          const contributionsResult = await DatabaseService.contributions.getUserContributions(member.user_id, { group_id: groupId });
+          if (contributionsResult.success && contributionsResult.data) {
             const contributions = contributionsResult.data.items;
-            totalContributions = contributions
-              .filter(c => c.status === 'paid')
-              .reduce((sum, c) => sum + c.amount, 0);
+            totalContributions = toMajor(sumMoney(
+              contributions.filter(c => c.status === 'paid').map(c => money(c.amount, currency)),
+              currency,
+            ));
 
             const paidContributions = contributions.filter(c => c.status === 'paid' && c.paid_date);
             if (paidContributions.length > 0) {
@@ -463,27 +665,29 @@ class GroupManagementService {
           }
 
           // Get payout history
-          const payoutsResult = await DatabaseService.payouts?.getUserPayouts(member.user_id, groupId);
-          if (payoutsResult?.success) {
-            totalReceived = payoutsResult.data.items
-              .filter(p => p.status === 'completed')
-              .reduce((sum, p) => sum + p.amount, 0);
+          const payoutsResult = await DatabaseService.payouts.getUserPayouts(member.user_id, { group_id: groupId });
+          if (payoutsResult.success && payoutsResult.data) {
+            totalReceived = toMajor(sumMoney(
+              payoutsResult.data.items.filter(isPaidOut).map(p => money(p.amount, currency)),
+              currency,
+            ));
           }
         }
 
         const detailedMember: GroupMemberDetailed = {
           id: member.id,
           userId: member.user_id,
-          displayName: user.displayName || user.email,
-          email: user.email,
-          phoneNumber: user.phoneNumber,
-          profileImageUrl: user.profileImageUrl,
+          displayName: user.name || user.email || user.phone,
+          email: user.email || '',
+          phoneNumber: user.phone,
+          profileImageUrl: user.profile_picture,
           role: member.role,
           joinOrder: member.join_order,
           joinDate: new Date(member.joined_at),
           status: member.status as 'active' | 'suspended' | 'left',
           totalContributions,
           totalReceived,
+          currency,
           reliabilityScore,
           lastPaymentDate,
           nextTurnPosition: member.join_order, // Would be calculated based on current cycle
@@ -517,6 +721,7 @@ class GroupManagementService {
     settings: Partial<GroupSettings>;
     effectiveDate?: Date;
     notifyMembers?: boolean;
+    approvedActionId?: string; // set when running an approved request
   }): Promise<BusinessLogicResult<GroupSettings>> {
     try {
       const { adminId, groupId, settings, effectiveDate, notifyMembers = true } = params;
@@ -544,9 +749,37 @@ class GroupManagementService {
       const group = groupResult.data;
 
       // Validate settings
-      const validationResult = this.validateGroupSettings(settings);
+      const validationResult = this.validateGroupSettings(settings, currencyOf(group));
       if (!validationResult.success) {
-        return validationResult;
+        return { success: false, error: validationResult.error, code: validationResult.code };
+      }
+
+      // The late payment ladder built from the new settings must still hold together
+      const policyErrors = validateLatePaymentPolicy(
+        buildLatePaymentPolicy({
+          ...group,
+          late_penalty_rate: settings.latePenaltyRate ?? group.late_penalty_rate,
+          max_late_days: settings.maxLatePaymentDays ?? group.max_late_days,
+        }),
+      );
+      if (policyErrors.length > 0) {
+        return { success: false, error: policyErrors.join('. '), code: 'INVALID_LATE_PAYMENT_POLICY' };
+      }
+
+      // Changing what everyone pays may need other members to sign off first
+      if (settings.contributionAmount !== undefined && settings.contributionAmount !== group.contribution_amount) {
+        const currency = currencyOf(group);
+        const approval = await ApprovalService.requireApproval<GroupSettings>({
+          groupId,
+          requestedBy: adminId,
+          type: 'change_contribution_amount',
+          params: { settings, effectiveDate: params.effectiveDate, notifyMembers: params.notifyMembers },
+          summary: `change the contribution from ${formatAmount(group.contribution_amount, currency)} to ${formatAmount(settings.contributionAmount, currency)}`,
+          approvedActionId: params.approvedActionId,
+        });
+        if (approval) {
+          return approval;
+        }
       }
 
       // Update group settings in database
@@ -559,12 +792,13 @@ class GroupManagementService {
         require_payment_proof: settings.requirePaymentProof,
         allow_member_invites: settings.allowMemberInvites,
         group_visibility: settings.groupVisibility,
+        require_swap_approval: settings.requireSwapApproval,
         settings_updated_at: new Date(),
         settings_updated_by: adminId,
       };
 
-      const updateResult = await DatabaseService.groups.updateGroup(groupId, updateData);
-      if (!updateResult.success) {
+      const updateResult = await DatabaseService.groups.updateGroup(groupId, updateData, params.approvedActionId);
+      if (!updateResult.success || !updateResult.data) {
         return {
           success: false,
           error: 'Failed to update group settings',
@@ -574,15 +808,8 @@ class GroupManagementService {
 
       // Create complete settings object
       const updatedSettings: GroupSettings = {
-        contributionAmount: settings.contributionAmount ?? group.contribution_amount,
-        paymentFrequency: settings.paymentFrequency ?? 'monthly',
-        paymentDeadlineDays: settings.paymentDeadlineDays ?? group.payment_deadline_days,
-        latePenaltyRate: settings.latePenaltyRate ?? group.late_penalty_rate,
-        maxLatePaymentDays: settings.maxLatePaymentDays ?? group.max_late_days,
-        autoProcessCycles: settings.autoProcessCycles ?? group.auto_process_cycles,
-        requirePaymentProof: settings.requirePaymentProof ?? group.require_payment_proof,
-        allowMemberInvites: settings.allowMemberInvites ?? group.allow_member_invites,
-        groupVisibility: settings.groupVisibility ?? group.group_visibility,
+        ...this.extractCurrentSettings(group),
+        ...settings,
       };
 
       // Log settings change
@@ -592,6 +819,7 @@ class GroupManagementService {
         oldSettings: this.extractCurrentSettings(group),
         newSettings: updatedSettings,
         effectiveDate: effectiveDate || new Date(),
+        approvedActionId: params.approvedActionId,
       });
 
       // Notify members if requested
@@ -626,6 +854,140 @@ class GroupManagementService {
     }
   }
 
+  // Override parts of the late payment ladder derived from the group's settings
+  async updateLatePaymentPolicy(params: {
+    adminId: string;
+    groupId: string;
+    overrides: Partial<LatePaymentPolicy>;
+  }): Promise<BusinessLogicResult<LatePaymentPolicy>> {
+    try {
+      const { adminId, groupId, overrides } = params;
+
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        return {
+          success: false,
+          error: 'Group not found',
+          code: 'GROUP_NOT_FOUND',
+        };
+      }
+
+      // The ladder decides penalties and removals, so delegates cannot change it
+      if (groupResult.data.admin_id !== adminId) {
+        return {
+          success: false,
+          error: 'Only the group admin can change the late payment policy',
+          code: 'INSUFFICIENT_PERMISSIONS',
+        };
+      }
+
+      const latePaymentPolicy = { ...groupResult.data.late_payment_policy, ...overrides };
+      const policy = buildLatePaymentPolicy({ ...groupResult.data, late_payment_policy: latePaymentPolicy });
+      const policyErrors = validateLatePaymentPolicy(policy);
+      if (policyErrors.length > 0) {
+        return { success: false, error: policyErrors.join('. '), code: 'INVALID_LATE_PAYMENT_POLICY' };
+      }
+
+      const updateResult = await DatabaseService.groups.updateGroup(groupId, {
+        late_payment_policy: latePaymentPolicy,
+        settings_updated_at: new Date(),
+        settings_updated_by: adminId,
+      });
+      if (!updateResult.success) {
+        return {
+          success: false,
+          error: 'Failed to update late payment policy',
+          code: 'UPDATE_SETTINGS_ERROR',
+        };
+      }
+
+      await AuditLogService.record({
+        groupId,
+        actorId: adminId,
+        category: 'settings',
+        action: 'late_payment_policy_changed',
+        before: groupResult.data.late_payment_policy || {},
+        after: overrides,
+      });
+
+      return { success: true, data: policy };
+    } catch (error) {
+      console.error('Error updating late payment policy:', error);
+      return {
+        success: false,
+        error: 'Failed to update late payment policy',
+        code: 'UPDATE_SETTINGS_ERROR',
+      };
+    }
+  }
+
+  // Choose what a cycle's payout does when some members have not paid
+  async updatePayoutShortfallPolicy(params: {
+    adminId: string;
+    groupId: string;
+    policy: PayoutShortfallPolicy;
+  }): Promise<BusinessLogicResult<PayoutShortfallPolicy>> {
+    try {
+      const { adminId, groupId } = params;
+      const policy: PayoutShortfallPolicy =
+        params.policy.rule === 'delay' ? params.policy : { rule: params.policy.rule };
+
+      const permissionCheck = await this.checkPermission(adminId, groupId, 'canEditSettings');
+      if (!permissionCheck.success || !permissionCheck.data) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to edit group settings',
+          code: 'INSUFFICIENT_PERMISSIONS',
+        };
+      }
+
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        return {
+          success: false,
+          error: 'Group not found',
+          code: 'GROUP_NOT_FOUND',
+        };
+      }
+
+      const policyErrors = validatePayoutShortfallPolicy(policy);
+      if (policyErrors.length > 0) {
+        return { success: false, error: policyErrors.join('. '), code: 'INVALID_PAYOUT_SHORTFALL_POLICY' };
+      }
+
+      const updateResult = await DatabaseService.groups.updateGroup(groupId, {
+        payout_shortfall_policy: policy,
+        settings_updated_at: new Date(),
+        settings_updated_by: adminId,
+      });
+      if (!updateResult.success) {
+        return {
+          success: false,
+          error: 'Failed to update payout shortfall policy',
+          code: 'UPDATE_SETTINGS_ERROR',
+        };
+      }
+
+      await AuditLogService.record({
+        groupId,
+        actorId: adminId,
+        category: 'settings',
+        action: 'payout_shortfall_policy_changed',
+        before: { ...buildPayoutShortfallPolicy(groupResult.data) },
+        after: { ...policy },
+      });
+
+      return { success: true, data: policy };
+    } catch (error) {
+      console.error('Error updating payout shortfall policy:', error);
+      return {
+        success: false,
+        error: 'Failed to update payout shortfall policy',
+        code: 'UPDATE_SETTINGS_ERROR',
+      };
+    }
+  }
+
   // Handle member leaving group voluntarily
   async leaveGroup(params: {
     userId: string;
@@ -655,7 +1017,7 @@ class GroupManagementService {
       // Prevent admin from leaving without transferring admin rights
       if (member.role === 'admin') {
         const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-        if (membersResult.success && membersResult.data.items.length > 1) {
+        if (membersResult.success && membersResult.data && membersResult.data.items.length > 1) {
           return {
             success: false,
             error: 'As admin, you must transfer admin rights before leaving the group',
@@ -665,17 +1027,7 @@ class GroupManagementService {
       }
 
       // Calculate refund amount if requested
-      let refundAmount = 0;
-      if (requestRefund) {
-        const contributionsResult = await DatabaseService.contributions.getUserContributions(userId, groupId);
-        if (contributionsResult.success) {
-          const paidContributions = contributionsResult.data.items.filter(c => c.status === 'paid');
-          const totalPaid = paidContributions.reduce((sum, c) => sum + c.amount, 0);
-          
-          // Calculate refund based on group policy (e.g., minus processing fees)
-          refundAmount = Math.max(0, totalPaid * 0.9); // 90% refund policy
-        }
-      }
+      const refundAmount = requestRefund ? (await this.calculateRefund(userId, groupId)).refund : 0;
 
       // Remove member using the admin function (self-removal)
       const removeResult = await this.removeMember({
@@ -689,7 +1041,7 @@ class GroupManagementService {
       });
 
       if (!removeResult.success) {
-        return removeResult;
+        return { success: false, error: removeResult.error, code: removeResult.code };
       }
 
       return {
@@ -716,6 +1068,7 @@ class GroupManagementService {
     groupId: string;
     newAdminId: string;
     reason?: string;
+    approvedActionId?: string; // set when running an approved request
   }): Promise<BusinessLogicResult<boolean>> {
     try {
       const { currentAdminId, groupId, newAdminId, reason } = params;
@@ -740,24 +1093,26 @@ class GroupManagementService {
         };
       }
 
-      // Update roles
-      const updateCurrentAdmin = DatabaseService.groupMembers.updateMemberRole(
-        currentAdminId, groupId, 'member'
-      );
-      
-      const updateNewAdmin = DatabaseService.groupMembers.updateMemberRole(
-        newAdminId, groupId, 'admin'
-      );
-
-      const updateGroupAdmin = DatabaseService.groups.updateGroup(groupId, {
-        admin_id: newAdminId,
-        admin_transferred_at: new Date(),
-        admin_transferred_by: currentAdminId,
+      const newAdminUser = await DatabaseService.users.getUserById(newAdminId);
+      const approval = await ApprovalService.requireApproval<boolean>({
+        groupId,
+        requestedBy: currentAdminId,
+        type: 'transfer_admin',
+        params: { newAdminId, reason },
+        summary: `hand admin rights to ${newAdminUser.data?.name || 'another member'}`,
+        approvedActionId: params.approvedActionId,
       });
+      if (approval) {
+        return approval;
+      }
 
-      const results = await Promise.all([updateCurrentAdmin, updateNewAdmin, updateGroupAdmin]);
-      
-      if (!results.every(r => r.success)) {
+      const transferResult = await DatabaseService.groupMembers.transferAdmin(
+        groupId,
+        currentAdminId,
+        newAdminId,
+        params.approvedActionId,
+      );
+      if (!transferResult.success) {
         return {
           success: false,
           error: 'Failed to transfer admin rights',
@@ -765,7 +1120,18 @@ class GroupManagementService {
         };
       }
 
-      // Log the transfer
+      await AuditLogService.record({
+        groupId,
+        actorId: currentAdminId,
+        category: 'roles',
+        action: 'admin_transferred',
+        targetId: newAdminId,
+        before: { admin_id: currentAdminId },
+        after: { admin_id: newAdminId },
+        reason,
+        ...(params.approvedActionId ? { metadata: { approved_action_id: params.approvedActionId } } : {}),
+      });
+
       console.log(`✅ Admin rights transferred from ${currentAdminId} to ${newAdminId} for group ${groupId}`);
 
       return {
@@ -790,7 +1156,7 @@ class GroupManagementService {
   ): Promise<void> {
     try {
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) return;
+      if (!membersResult.success || !membersResult.data) return;
 
       const members = membersResult.data.items;
       
@@ -814,11 +1180,14 @@ class GroupManagementService {
     }
   }
 
-  private validateGroupSettings(settings: Partial<GroupSettings>): BusinessLogicResult<boolean> {
-    if (settings.contributionAmount && settings.contributionAmount < 1000) {
+  private validateGroupSettings(settings: Partial<GroupSettings>, currency: CurrencyCode): BusinessLogicResult<boolean> {
+    const amountError = settings.contributionAmount !== undefined
+      ? checkAmountLimits(settings.contributionAmount, currency, 'contribution')
+      : null;
+    if (amountError) {
       return {
         success: false,
-        error: 'Contribution amount must be at least UGX 1,000',
+        error: amountError,
         code: 'INVALID_CONTRIBUTION_AMOUNT',
       };
     }
@@ -853,6 +1222,7 @@ class GroupManagementService {
       requirePaymentProof: group.require_payment_proof || false,
       allowMemberInvites: group.allow_member_invites || false,
       groupVisibility: group.group_visibility || 'private',
+      requireSwapApproval: group.require_swap_approval || false,
     };
   }
 
@@ -866,8 +1236,8 @@ class GroupManagementService {
     if (newSettings.contributionAmount && newSettings.contributionAmount !== group.contribution_amount) {
       changes.push({
         type: 'contribution_amount' as const,
-        oldValue: `UGX ${group.contribution_amount?.toLocaleString()}`,
-        newValue: `UGX ${newSettings.contributionAmount.toLocaleString()}`,
+        oldValue: formatAmount(group.contribution_amount, currencyOf(group)),
+        newValue: formatAmount(newSettings.contributionAmount, currencyOf(group)),
       });
     }
 
@@ -882,14 +1252,55 @@ class GroupManagementService {
     return changes;
   }
 
-  private async logMemberRemoval(params: any): Promise<void> {
-    console.log('Member removal logged:', params);
-    // In production, this would save to an audit log table
+  private async logMemberRemoval(params: {
+    groupId: string;
+    memberId: string;
+    memberName: string;
+    adminId: string;
+    reason: string;
+    redistributeTurn: boolean;
+    refundContributions: boolean;
+    adminNotes?: string;
+    approvedActionId?: string;
+  }): Promise<void> {
+    await AuditLogService.record({
+      groupId: params.groupId,
+      actorId: params.adminId,
+      category: 'members',
+      action: 'member_removed',
+      targetId: params.memberId,
+      before: { status: 'active' },
+      after: { status: 'removed' },
+      reason: params.adminNotes ? `${params.reason}: ${params.adminNotes}` : params.reason,
+      metadata: {
+        member_name: params.memberName,
+        redistribute_turn: params.redistributeTurn,
+        refund_contributions: params.refundContributions,
+        ...(params.approvedActionId ? { approved_action_id: params.approvedActionId } : {}),
+      },
+    });
   }
 
-  private async logSettingsChange(params: any): Promise<void> {
-    console.log('Settings change logged:', params);
-    // In production, this would save to an audit log table
+  private async logSettingsChange(params: {
+    groupId: string;
+    adminId: string;
+    oldSettings: GroupSettings;
+    newSettings: GroupSettings;
+    effectiveDate: Date;
+    approvedActionId?: string;
+  }): Promise<void> {
+    await AuditLogService.record({
+      groupId: params.groupId,
+      actorId: params.adminId,
+      category: 'settings',
+      action: 'settings_changed',
+      before: params.oldSettings,
+      after: params.newSettings,
+      metadata: {
+        effective_date: params.effectiveDate,
+        ...(params.approvedActionId ? { approved_action_id: params.approvedActionId } : {}),
+      },
+    });
   }
 
   // Check if group has completed all cycles
@@ -911,7 +1322,7 @@ class GroupManagementService {
       }
 
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) {
+      if (!membersResult.success || !membersResult.data) {
         return {
           success: false,
           error: 'Failed to get group members',
@@ -927,9 +1338,9 @@ class GroupManagementService {
       const remainingMembers: string[] = [];
 
       for (const member of activeMembers) {
-        const payoutsResult = await DatabaseService.payouts?.getUserPayouts(member.user_id, groupId);
-        const hasReceived = payoutsResult?.success && 
-          payoutsResult.data.items.some(p => p.status === 'completed');
+        const payoutsResult = await DatabaseService.payouts.getUserPayouts(member.user_id, { group_id: groupId });
+        const hasReceived = payoutsResult.success && !!payoutsResult.data &&
+          payoutsResult.data.items.some(isPaidOut);
 
         if (hasReceived) {
           membersWithPayout++;
@@ -966,6 +1377,7 @@ class GroupManagementService {
     adminId: string;
     groupId: string;
     options: GroupCompletionOptions;
+    approvedActionId?: string; // set when running an approved request
   }): Promise<BusinessLogicResult<{ success: boolean; message: string }>> {
     try {
       const { adminId, groupId, options } = params;
@@ -980,9 +1392,10 @@ class GroupManagementService {
         };
       }
 
-      // Verify group is actually complete
+      // Verify group is actually complete; a group can be dissolved mid-rotation,
+      // in which case the settlement refunds members still waiting for their turn
       const completionCheck = await this.checkGroupCompletion(groupId);
-      if (!completionCheck.success || !completionCheck.data?.isComplete) {
+      if (options.action !== 'dissolve' && (!completionCheck.success || !completionCheck.data?.isComplete)) {
         return {
           success: false,
           error: 'Group has not completed all cycles yet',
@@ -990,11 +1403,25 @@ class GroupManagementService {
         };
       }
 
+      if (options.action === 'dissolve') {
+        const approval = await ApprovalService.requireApproval<{ success: boolean; message: string }>({
+          groupId,
+          requestedBy: adminId,
+          type: 'dissolve_group',
+          params: { options },
+          summary: 'dissolve the group and settle its funds',
+          approvedActionId: params.approvedActionId,
+        });
+        if (approval) {
+          return approval;
+        }
+      }
+
       switch (options.action) {
         case 'restart':
           return await this.restartGroup(adminId, groupId, options);
         case 'dissolve':
-          return await this.dissolveGroup(adminId, groupId, options);
+          return await this.dissolveGroup(adminId, groupId, options, params.approvedActionId);
         case 'pause':
           return await this.pauseGroup(adminId, groupId, options);
         default:
@@ -1021,6 +1448,18 @@ class GroupManagementService {
     options: GroupCompletionOptions
   ): Promise<BusinessLogicResult<{ success: boolean; message: string }>> {
     try {
+      // Settle the pot first if requested, so a failed settlement leaves the group as it was
+      if (options.redistributeFunds) {
+        const settleResult = await GroupSettlementService.settleGroup({ groupId, adminId, reason: 'restart' });
+        if (!settleResult.success) {
+          return {
+            success: false,
+            error: settleResult.error || 'Failed to restart group',
+            code: 'RESTART_GROUP_ERROR',
+          };
+        }
+      }
+
       // Update group status to active and reset cycles
       const updateData: any = {
         status: 'active',
@@ -1030,7 +1469,8 @@ class GroupManagementService {
 
       // Apply new settings if provided
       if (options.newSettings) {
-        const settingsValidation = this.validateGroupSettings(options.newSettings);
+        const groupResult = await DatabaseService.groups.getGroupById(groupId);
+        const settingsValidation = this.validateGroupSettings(options.newSettings, currencyOf(groupResult.data));
         if (!settingsValidation.success) {
           return settingsValidation as any;
         }
@@ -1057,7 +1497,7 @@ class GroupManagementService {
 
       // Reset member payout status for new cycle
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (membersResult.success && options.retainMembers) {
+      if (membersResult.success && membersResult.data && options.retainMembers) {
         for (const member of membersResult.data.items.filter(m => m.status === 'active')) {
           // Reset any cycle-specific flags or status
           await DatabaseService.groupMembers.updateMember(member.id, {
@@ -1066,15 +1506,15 @@ class GroupManagementService {
         }
       }
 
-      // Handle fund redistribution if requested
-      if (options.redistributeFunds) {
-        // This would redistribute any remaining funds equally
-        await this.redistributeRemainingFunds(groupId);
-      }
-
       // Send notifications if requested
       if (options.notifyMembers) {
-        await GroupNotificationService.sendGroupRestart(groupId);
+        await GroupNotificationService.notifyGroupStatusChange({
+          groupId,
+          status: 'active',
+          reason: 'Group restarted for a new round',
+          effectiveDate: new Date(),
+          adminName: '', // Will be fetched in notification service
+        });
       }
 
       // Log the restart
@@ -1107,17 +1547,15 @@ class GroupManagementService {
   private async dissolveGroup(
     adminId: string, 
     groupId: string, 
-    options: GroupCompletionOptions
+    options: GroupCompletionOptions,
+    approvedActionId?: string,
   ): Promise<BusinessLogicResult<{ success: boolean; message: string }>> {
     try {
-      // Update group status to dissolved
-      const groupUpdate = await DatabaseService.groups.updateGroup(groupId, {
-        status: 'dissolved',
-        dissolved_at: new Date(),
-        dissolved_by: adminId,
-      });
-
-      if (!groupUpdate.success) {
+      const [groupResult, membersResult] = await Promise.all([
+        DatabaseService.groups.getGroupById(groupId),
+        DatabaseService.groupMembers.getGroupMembers(groupId),
+      ]);
+      if (!groupResult.success || !groupResult.data || !membersResult.success || !membersResult.data) {
         return {
           success: false,
           error: 'Failed to dissolve group',
@@ -1125,25 +1563,49 @@ class GroupManagementService {
         };
       }
 
-      // Handle final fund redistribution if requested
-      if (options.redistributeFunds) {
-        await this.redistributeRemainingFunds(groupId);
+      // Work out the final fund redistribution if requested
+      const preview = options.redistributeFunds
+        ? await GroupSettlementService.previewSettlement(groupId, 'dissolve')
+        : undefined;
+      if (preview && (!preview.success || !preview.data)) {
+        return {
+          success: false,
+          error: preview.error || 'Failed to settle group funds',
+          code: 'DISSOLVE_GROUP_ERROR',
+        };
       }
 
-      // Update all member status to indicate group dissolution
-      const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (membersResult.success) {
-        for (const member of membersResult.data.items) {
-          await DatabaseService.groupMembers.updateMember(member.id, {
-            status: 'left',
-            left_at: new Date(),
-          });
-        }
+      // Settle the pot, dissolve the group and mark every member as left together,
+      // so a failed settlement leaves the group as it was
+      const dissolveResult = await DatabaseService.groups.dissolveGroup(
+        {
+          groupId,
+          dissolvedBy: adminId,
+          memberIds: membersResult.data.items.map(member => member.id),
+          settlement: preview?.data && { ...preview.data, created_by: adminId },
+        },
+        approvedActionId,
+      );
+      if (!dissolveResult.success) {
+        return {
+          success: false,
+          error: dissolveResult.code === 'already-settled' ? dissolveResult.error : 'Failed to dissolve group',
+          code: 'DISSOLVE_GROUP_ERROR',
+        };
+      }
+      if (dissolveResult.data) {
+        await GroupSettlementService.emailStatements(dissolveResult.data, groupResult.data.name);
       }
 
       // Send final notifications if requested
       if (options.notifyMembers) {
-        await GroupNotificationService.sendGroupDissolution(groupId);
+        await GroupNotificationService.notifyGroupStatusChange({
+          groupId,
+          status: 'cancelled',
+          reason: 'Group dissolved by admin',
+          effectiveDate: new Date(),
+          adminName: '', // Will be fetched in notification service
+        });
       }
 
       // Log the dissolution
@@ -1153,6 +1615,7 @@ class GroupManagementService {
         action: 'dissolve',
         timestamp: new Date(),
         options,
+        approvedActionId,
       });
 
       return {
@@ -1196,7 +1659,13 @@ class GroupManagementService {
 
       // Send pause notifications if requested
       if (options.notifyMembers) {
-        await GroupNotificationService.sendGroupPause(groupId);
+        await GroupNotificationService.notifyGroupStatusChange({
+          groupId,
+          status: 'suspended',
+          reason: 'Group paused by admin',
+          effectiveDate: new Date(),
+          adminName: '', // Will be fetched in notification service
+        });
       }
 
       // Log the pause action
@@ -1272,7 +1741,7 @@ class GroupManagementService {
 
       // Apply new settings if provided
       if (newSettings) {
-        const settingsValidation = this.validateGroupSettings(newSettings);
+        const settingsValidation = this.validateGroupSettings(newSettings, currencyOf(groupResult.data));
         if (!settingsValidation.success) {
           return settingsValidation as any;
         }
@@ -1312,23 +1781,20 @@ class GroupManagementService {
   }
 
   // Helper methods for completion handling
-  private async redistributeRemainingFunds(groupId: string): Promise<void> {
-    try {
-      // Get group balance and active members
-      const groupResult = await DatabaseService.groups.getGroupById(groupId);
-      const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-
-      if (!groupResult.success || !membersResult.success) return;
-
-      const group = groupResult.data;
-      const activeMembers = membersResult.data.items.filter(m => m.status === 'active');
-      
-      // This would implement the actual fund redistribution logic
-      // For now, just log the action
-      console.log(`Redistributing remaining funds for group ${groupId} among ${activeMembers.length} members`);
-    } catch (error) {
-      console.error('Error redistributing funds:', error);
-    }
+  // What a leaving member paid in and how much of it is refunded
+  private async calculateRefund(userId: string, groupId: string): Promise<{ contributed: number; refund: number }> {
+    const [groupResult, contributionsResult] = await Promise.all([
+      DatabaseService.groups.getGroupById(groupId),
+      DatabaseService.contributions.getUserContributions(userId, { group_id: groupId }),
+    ]);
+    const currency = currencyOf(groupResult.data);
+    const contributed = sumMoney(
+      (contributionsResult.data?.items || [])
+        .filter(c => c.status === 'paid')
+        .map(c => money(c.paid_amount ?? c.amount, currency)),
+      currency,
+    );
+    return { contributed: toMajor(contributed), refund: Math.max(0, toMajor(multiplyMoney(contributed, REFUND_RATE))) };
   }
 
   private async logGroupCompletion(params: {
@@ -1337,9 +1803,19 @@ class GroupManagementService {
     action: string;
     timestamp: Date;
     options: GroupCompletionOptions;
+    approvedActionId?: string;
   }): Promise<void> {
-    console.log('Group completion action logged:', params);
-    // In production, this would save to an audit log table
+    await AuditLogService.record({
+      groupId: params.groupId,
+      actorId: params.adminId,
+      category: 'group',
+      action: `group_${params.action}`,
+      metadata: {
+        options: params.options,
+        completed_at: params.timestamp,
+        ...(params.approvedActionId ? { approved_action_id: params.approvedActionId } : {}),
+      },
+    });
   }
 }
 
@@ -0,0 +1,230 @@
+import { BusinessLogicResult, GroupCompletionError } from '../../types/business';
+import DatabaseService, { Settlement, SettlementLine } from '../database';
+import {
+  CurrencyCode,
+  Money,
+  allocateMoney,
+  currencyOf,
+  maxMoney,
+  money,
+  subtractMoney,
+  sumMoney,
+  toMajor,
+  zeroMoney,
+} from '../../utils/money';
+import LedgerService from './ledger';
+import EmailService, { settlementStatementDocument } from '../email';
+import { hasGroupPermission } from '../../utils/permissions';
+
+export interface SettlementMember {
+  user_id: string;
+  display_name?: string;
+  paid_in: number;
+  received: number;
+  penalties: number;
+  received_payout: boolean;
+}
+
+export type SettlementPreview = Omit<Settlement, 'id' | 'ledger_entry_ids' | 'created_by' | 'created_at'>;
+
+/**
+ * Work out what each member is paid when a group's pot is settled.
+ * Every member first gets back what they paid in and have not yet taken out
+ * (their claim), so members who contributed but never had their turn are made
+ * whole before anything else. If the pot cannot cover every claim, it is split
+ * in proportion to the claims; if money is left over, it is shared equally.
+ * @param potBalance - Money left in the pot
+ * @param members - Members taking part, in join order
+ * @param currency - The group's currency; shares are whole minor units of it
+ */
+export const calculateSettlement = (
+  potBalance: number,
+  members: SettlementMember[],
+  currency: CurrencyCode
+): { lines: SettlementLine[]; total_claims: number; total_paid: number } => {
+  const zero = zeroMoney(currency);
+  const pot = maxMoney(zero, money(potBalance, currency));
+  const positions = members.map(member =>
+    subtractMoney(
+      money(member.paid_in, currency),
+      sumMoney([money(member.received, currency), money(member.penalties, currency)], currency)
+    )
+  );
+  const claims = positions.map(position => maxMoney(zero, position));
+  const totalClaims = sumMoney(claims, currency);
+
+  const covered: Money[] =
+    pot.minorUnits >= totalClaims.minorUnits
+      ? claims
+      : allocateMoney(pot, claims.map(claim => claim.minorUnits));
+  const surplus = allocateMoney(maxMoney(zero, subtractMoney(pot, totalClaims)), members.map(() => 1));
+
+  const lines = members.map((member, index) => ({
+    user_id: member.user_id,
+    ...(member.display_name ? { display_name: member.display_name } : {}),
+    paid_in: member.paid_in,
+    received: member.received,
+    penalties: member.penalties,
+    received_payout: member.received_payout,
+    claim: toMajor(claims[index]),
+    owes: toMajor(maxMoney(zero, subtractMoney(zero, positions[index]))),
+    surplus_share: toMajor(surplus[index]),
+    amount: toMajor(sumMoney([covered[index], surplus[index]], currency)),
+    shortfall: toMajor(subtractMoney(claims[index], covered[index])),
+  }));
+
+  return {
+    lines,
+    total_claims: toMajor(totalClaims),
+    total_paid: toMajor(sumMoney([...covered, ...surplus], currency)),
+  };
+};
+
+/**
+ * Pays out what is left in a group's pot into members' wallets when it is
+ * dissolved or restarted, and keeps the resulting statements so every member
+ * can see how their share was worked out. Member positions come from the group
+ * ledger.
+ */
+class GroupSettlementService {
+  /**
+   * Work out a settlement without paying anything
+   * @param groupId - Group ID
+   * @param reason - Why the group is being settled
+   * @returns What each member would be paid
+   */
+  async previewSettlement(
+    groupId: string,
+    reason: Settlement['reason'] = 'dissolve'
+  ): Promise<BusinessLogicResult<SettlementPreview>> {
+    try {
+      return { success: true, data: await this.buildSettlement(groupId, reason) };
+    } catch (error) {
+      console.error('Error previewing settlement:', error);
+      return {
+        success: false,
+        error: error instanceof GroupCompletionError ? error.message : 'Failed to preview settlement',
+        code: error instanceof GroupCompletionError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Settle the group's pot: pay each member's share into their wallet and save the statement.
+   * A group is settled once for each reason in a cycle.
+   * @param params.adminId - Must be the group admin
+   * @returns The saved settlement statement
+   */
+  async settleGroup(params: {
+    groupId: string;
+    adminId: string;
+    reason: Settlement['reason'];
+  }): Promise<BusinessLogicResult<Settlement>> {
+    try {
+      const { groupId, adminId, reason } = params;
+
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        throw new GroupCompletionError('Group not found');
+      }
+      if (!hasGroupPermission(groupResult.data, adminId, 'canManageCycles')) {
+        throw new GroupCompletionError('You do not have permission to settle group funds');
+      }
+
+      const preview = await this.buildSettlement(groupId, reason);
+      const createResult = await DatabaseService.settlements.createSettlement({ ...preview, created_by: adminId });
+      if (!createResult.success || !createResult.data) {
+        throw new GroupCompletionError(createResult.error || 'Failed to save settlement');
+      }
+
+      console.log(`Settled ${preview.total_paid} for group ${groupId} among ${preview.lines.length} members`);
+      await this.emailStatements(createResult.data, groupResult.data.name);
+      return { success: true, data: createResult.data };
+    } catch (error) {
+      console.error('Error settling group:', error);
+      return {
+        success: false,
+        error: error instanceof GroupCompletionError ? error.message : 'Failed to settle group funds',
+        code: error instanceof GroupCompletionError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Get a group's settlement statements, newest first
+   * @param groupId - Group ID
+   * @returns Settlement statements
+   */
+  async getGroupSettlements(groupId: string): Promise<BusinessLogicResult<Settlement[]>> {
+    const result = await DatabaseService.settlements.getGroupSettlements(groupId);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to fetch settlements', code: 'FETCH_SETTLEMENTS_ERROR' };
+    }
+    return { success: true, data: result.data };
+  }
+
+  // Email each member their line of the statement; members without an address see it in the app
+  async emailStatements(settlement: Settlement, groupName: string): Promise<void> {
+    for (const line of settlement.lines) {
+      const result = await EmailService.sendToUser(line.user_id, settlementStatementDocument(settlement, line, groupName));
+      if (!result.success && result.code !== 'NO_EMAIL_ADDRESS') {
+        console.warn(`Settlement statement not emailed to ${line.user_id}: ${result.error}`);
+      }
+    }
+  }
+
+  private async buildSettlement(groupId: string, reason: Settlement['reason']): Promise<SettlementPreview> {
+    const groupResult = await DatabaseService.groups.getGroupById(groupId);
+    if (!groupResult.success || !groupResult.data) {
+      throw new GroupCompletionError('Group not found');
+    }
+
+    // Suspended members still get back what they paid in; members who left were refunded then
+    const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
+    if (!membersResult.success || !membersResult.data) {
+      throw new GroupCompletionError('Failed to fetch group members');
+    }
+    const members = membersResult.data.items.filter(
+      member => member.status === 'active' || member.status === 'suspended'
+    );
+
+    const [balanceResult, positionsResult] = await Promise.all([
+      LedgerService.getPotBalance(groupId),
+      LedgerService.getMemberPositions(groupId),
+    ]);
+    if (!balanceResult.success || balanceResult.data === undefined || !positionsResult.success || !positionsResult.data) {
+      throw new GroupCompletionError('Failed to read the group ledger');
+    }
+    const positions = new Map(positionsResult.data.map(position => [position.userId, position]));
+
+    const currency = currencyOf(groupResult.data);
+    const { lines, total_claims, total_paid } = calculateSettlement(
+      balanceResult.data,
+      members.map(member => {
+        const position = positions.get(member.user_id);
+        return {
+          user_id: member.user_id,
+          display_name: member.display_name,
+          paid_in: position?.paidIn || 0,
+          received: position?.received || 0,
+          penalties: position?.penalties || 0,
+          received_payout: member.payout_received,
+        };
+      }),
+      currency
+    );
+
+    return {
+      group_id: groupId,
+      reason,
+      cycle_number: groupResult.data.current_cycle,
+      currency,
+      pot_balance: balanceResult.data,
+      total_claims,
+      total_paid,
+      lines,
+    };
+  }
+}
+
+export default new GroupSettlementService();
@@ -1,4 +1,5 @@
 import TurnOrderService from './turnOrder';
+import TurnSwapService from './turnSwaps';
 import PaymentStatusService from './paymentStatus';
 import CycleProcessorService from './cycleProcessor';
 import GroupCompletionService from './groupCompletion';
@@ -26,6 +27,9 @@ import {
 class BusinessLogicService {
   // Turn Order Management
   turnOrder = TurnOrderService;
+
+  // Turn Swap Marketplace
+  turnSwaps = TurnSwapService;
   
   // Payment Status Management
   paymentStatus = PaymentStatusService;
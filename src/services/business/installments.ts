@@ -0,0 +1,138 @@
+import { Contribution, InstallmentPlan } from '../../types/database';
+import { CurrencyCode, addMoney, allocateMoney, formatAmount, money, subtractMoney, sumMoney, toMajor } from '../../utils/money';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Where a contribution being paid in pieces stands against its installment plan
+export interface InstallmentProgress {
+  dueSoFar: number; // total of the installments already due
+  paidSoFar: number; // paid since the plan was agreed
+  nextInstallment?: { amount: number; due_date: Date };
+  behindSince?: Date; // due date of the earliest installment not yet covered
+}
+
+// Total of the part payments recorded so far
+export const partPaymentsTotal = (
+  contribution: Pick<Contribution, 'payments'>,
+  currency: CurrencyCode,
+): number => toMajor(sumMoney((contribution.payments || []).map(payment => money(payment.amount, currency)), currency));
+
+// What the member has paid toward the contribution itself (late fees aside)
+export const amountPaid = (
+  contribution: Pick<Contribution, 'status' | 'amount' | 'paid_amount' | 'payments'>,
+  currency: CurrencyCode,
+): number => {
+  if (contribution.status === 'paid') {
+    return contribution.paid_amount ?? contribution.amount;
+  }
+  return partPaymentsTotal(contribution, currency);
+};
+
+export const outstandingBalance = (
+  contribution: Pick<Contribution, 'status' | 'amount' | 'paid_amount' | 'payments'>,
+  currency: CurrencyCode,
+): number => {
+  if (contribution.status === 'paid' || contribution.status === 'cancelled') {
+    return 0;
+  }
+  return Math.max(0, toMajor(subtractMoney(money(contribution.amount, currency), money(amountPaid(contribution, currency), currency))));
+};
+
+/**
+ * Compare what a member has paid with what their plan says should be paid by now.
+ * Installments are covered oldest first, so the first one the payments don't
+ * reach is where the member fell behind.
+ */
+export const installmentProgress = (
+  contribution: Pick<Contribution, 'status' | 'amount' | 'paid_amount' | 'payments'>,
+  plan: InstallmentPlan,
+  asOf: Date,
+  currency: CurrencyCode,
+): InstallmentProgress => {
+  const paid = money(amountPaid(contribution, currency), currency);
+  const paidUnderPlan = subtractMoney(paid, money(plan.paid_before_plan, currency));
+  const installments = [...plan.installments].sort(
+    (a, b) => new Date(a.due_date).getTime() - new Date(b.due_date).getTime(),
+  );
+
+  let covered = 0;
+  let dueSoFar = money(0, currency);
+  let behindSince: Date | undefined;
+  let nextInstallment: InstallmentProgress['nextInstallment'];
+  for (const installment of installments) {
+    const dueDate = new Date(installment.due_date);
+    covered += money(installment.amount, currency).minorUnits;
+    const isCovered = paidUnderPlan.minorUnits >= covered;
+
+    if (dueDate.getTime() <= asOf.getTime()) {
+      dueSoFar = addMoney(dueSoFar, money(installment.amount, currency));
+      if (!isCovered && !behindSince) {
+        behindSince = dueDate;
+      }
+    } else if (!isCovered && !nextInstallment) {
+      nextInstallment = { amount: installment.amount, due_date: dueDate };
+    }
+  }
+
+  return { dueSoFar: toMajor(dueSoFar), paidSoFar: toMajor(paidUnderPlan), nextInstallment, behindSince };
+};
+
+/**
+ * The date lateness is counted from: the contribution's due date, or with a
+ * plan the earliest installment the member has missed. Null while a member
+ * is keeping up with their plan.
+ */
+export const lateSince = (contribution: Contribution, asOf: Date, currency: CurrencyCode): Date | null => {
+  if (!contribution.installment_plan) {
+    return new Date(contribution.due_date);
+  }
+  return installmentProgress(contribution, contribution.installment_plan, asOf, currency).behindSince || null;
+};
+
+// Whole days from a date to asOf, zero if it hasn't passed
+export const daysSince = (date: Date, asOf: Date): number =>
+  Math.max(0, Math.ceil((asOf.getTime() - new Date(date).getTime()) / DAY_MS));
+
+/**
+ * Split an amount into equal installments at a fixed interval, the first
+ * one interval from the start. Rounding differences go to the earliest ones.
+ */
+export const splitIntoInstallments = (
+  amount: number,
+  count: number,
+  start: Date,
+  intervalDays: number,
+  currency: CurrencyCode,
+): InstallmentPlan['installments'] =>
+  allocateMoney(money(amount, currency), Array(count).fill(1)).map((share, index) => ({
+    amount: toMajor(share),
+    due_date: new Date(start.getTime() + (index + 1) * intervalDays * DAY_MS),
+  }));
+
+/**
+ * Check installments before a plan is agreed
+ * @returns List of validation errors (empty when valid)
+ */
+export const validateInstallments = (
+  installments: InstallmentPlan['installments'],
+  outstanding: number,
+  asOf: Date,
+  currency: CurrencyCode,
+): string[] => {
+  const errors: string[] = [];
+  if (installments.length === 0) {
+    errors.push('A plan needs at least one installment');
+    return errors;
+  }
+  if (installments.some(installment => !(installment.amount > 0))) {
+    errors.push('Each installment must be more than zero');
+  }
+  if (installments.some(installment => new Date(installment.due_date).getTime() < asOf.getTime())) {
+    errors.push('Installments cannot be due in the past');
+  }
+  const total = sumMoney(installments.map(installment => money(installment.amount, currency)), currency);
+  if (total.minorUnits !== money(outstanding, currency).minorUnits) {
+    errors.push(`Installments must add up to the outstanding balance of ${formatAmount(outstanding, currency)}`);
+  }
+  return errors;
+};
@@ -1,7 +1,13 @@
-import { BusinessLogicResult } from '../../types/business';
+import { BusinessLogicResult, LatePaymentDecision } from '../../types/business';
+import { DatabaseResult, Group, GroupMember, LatePaymentPolicy } from '../../types/database';
 import DatabaseService from '../database';
 import PaymentTrackingService from './paymentTracking';
 import NotificationService from '../notifications';
+import { buildLatePaymentPolicy, evaluateLatePayment } from './latePaymentPolicy';
+import { lateSince, outstandingBalance } from './installments';
+import JobRunner from '../jobs/jobRunner';
+import { getClock } from '../jobs/clock';
+import { CurrencyCode, Money, currencyOf, money, totalsByCurrency } from '../../utils/money';
 
 export interface LatePaymentMember {
   memberId: string;
@@ -10,6 +16,7 @@ export interface LatePaymentMember {
   groupName: string;
   contributionId: string;
   amount: number;
+  outstandingAmount: number; // less any part payments
   dueDate: Date;
   daysLate: number;
   cycle: number;
@@ -17,22 +24,41 @@ export interface LatePaymentMember {
   penaltyAmount: number;
   lastActionDate?: Date;
   lastActionType?: 'warning' | 'penalty' | 'suspension' | 'removal';
+  memberStatus?: GroupMember['status'];
+  currency: CurrencyCode;
+}
+
+export interface LatePaymentPlan {
+  member: LatePaymentMember;
+  decision: LatePaymentDecision;
 }
 
 export interface LatePaymentSummary {
   totalLateMembers: number;
-  totalOverdueAmount: number;
+  totalOverdue: Money[]; // one total per currency, since groups can save in different currencies
   averageDaysLate: number;
   warningsIssued: number;
   penaltiesApplied: number;
   suspendedMembers: number;
+  removedMembers: number;
   criticalCases: LatePaymentMember[]; // > 7 days late
+  plannedActions: LatePaymentPlan[]; // what each member got, or would get in a dry run
 }
 
+type LatePaymentActionType = Exclude<LatePaymentDecision['action'], null>;
+
+const SWEEP_JOB = 'late_payment_sweep';
+const GROUP_CHECK_JOB = 'late_payment_check';
+
 class LatePaymentMonitorService {
-  private monitoringInterval: NodeJS.Timeout | null = null;
   private isMonitoring = false;
 
+  constructor() {
+    JobRunner.registerHandler(SWEEP_JOB, () => this.sweepLateGroups());
+    JobRunner.registerHandler(GROUP_CHECK_JOB, job => this.runGroupCheck(job.payload.groupId));
+  }
+
+  // Sweep for late payments every interval through the job runner
   async startMonitoring(intervalMinutes: number = 60): Promise<void> {
     if (this.isMonitoring) {
       console.log('Late payment monitoring already running');
@@ -42,34 +68,70 @@ class LatePaymentMonitorService {
     this.isMonitoring = true;
     console.log(`Starting late payment monitoring (checking every ${intervalMinutes} minutes)`);
 
-    // Initial check
-    await this.checkLatePayments();
-
-    // Set up recurring checks
-    this.monitoringInterval = setInterval(async () => {
-      await this.checkLatePayments();
-    }, intervalMinutes * 60 * 1000);
+    JobRunner.scheduleRecurring(SWEEP_JOB, intervalMinutes * 60 * 1000);
+    JobRunner.start();
   }
 
   stopMonitoring(): void {
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
-    }
+    JobRunner.unscheduleRecurring(SWEEP_JOB);
     this.isMonitoring = false;
     console.log('Late payment monitoring stopped');
   }
 
-  async checkLatePayments(): Promise<BusinessLogicResult<LatePaymentSummary>> {
+  // Queue one check per group with late contributions. Keys include the day,
+  // so each group's ladder advances at most once a day however often we sweep.
+  private async sweepLateGroups(): Promise<void> {
+    const now = getClock().now();
+    const contributionsResult = await DatabaseService.contributions.getAllPendingContributions();
+    if (!contributionsResult.success || !contributionsResult.data) {
+      throw new Error(contributionsResult.error || 'Failed to fetch contributions');
+    }
+
+    const lateGroupIds = new Set(
+      contributionsResult.data.items
+        .filter(contribution => new Date(contribution.due_date) < now)
+        .map(contribution => contribution.group_id),
+    );
+
+    const day = now.toISOString().slice(0, 10);
+    for (const groupId of lateGroupIds) {
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        continue;
+      }
+      await JobRunner.enqueue({
+        type: GROUP_CHECK_JOB,
+        idempotencyKey: `late-check:${groupId}:${groupResult.data.current_cycle}:${day}`,
+        groupId,
+        payload: { groupId },
+      });
+    }
+  }
+
+  private async runGroupCheck(groupId: string): Promise<void> {
+    const result = await this.checkLatePayments({ groupId });
+    if (!result.success) {
+      throw new Error(result.error || 'Late payment check failed');
+    }
+  }
+
+  /**
+   * Apply each group's late-payment policy to its late members
+   * @param options.dryRun - Work out the actions without taking them
+   * @param options.groupId - Limit the check to one group
+   */
+  async checkLatePayments(
+    options: { dryRun?: boolean; groupId?: string } = {},
+  ): Promise<BusinessLogicResult<LatePaymentSummary>> {
     try {
-      console.log('Checking for late payments...');
+      console.log(`Checking for late payments${options.dryRun ? ' (dry run)' : ''}...`);
 
-      const lateMembers = await this.getLatePaymentMembers();
-      if (!lateMembers.success) {
-        return lateMembers;
+      const lateMembers = await this.getLatePaymentMembers(options.groupId);
+      if (!lateMembers.success || !lateMembers.data) {
+        return { success: false, error: lateMembers.error, code: lateMembers.code };
       }
 
-      const summary = await this.processLatePayments(lateMembers.data);
+      const summary = await this.processLatePayments(lateMembers.data, options.dryRun ?? false);
 
       console.log(`Late payment check complete: ${summary.totalLateMembers} late members found`);
 
@@ -94,7 +156,7 @@ class LatePaymentMonitorService {
         ? await DatabaseService.contributions.getGroupContributions(groupId)
         : await DatabaseService.contributions.getAllPendingContributions();
 
-      if (!contributionsResult.success) {
+      if (!contributionsResult.success || !contributionsResult.data) {
         return {
           success: false,
           error: 'Failed to fetch contributions',
@@ -102,12 +164,23 @@ class LatePaymentMonitorService {
         };
       }
 
-      const now = new Date();
+      const now = getClock().now();
       const lateMembers: LatePaymentMember[] = [];
+      const groups = new Map<string, DatabaseResult<Group | null>>();
 
       for (const contribution of contributionsResult.data.items) {
+        let groupResult = groups.get(contribution.group_id);
+        if (!groupResult) {
+          groupResult = await DatabaseService.groups.getGroupById(contribution.group_id);
+          groups.set(contribution.group_id, groupResult);
+        }
+        const currency = currencyOf(groupResult.data);
+
         const dueDate = new Date(contribution.due_date);
-        const daysLate = Math.ceil((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
+        // Members keeping to an installment plan aren't late; once behind, lateness
+        // counts from the first installment they missed
+        const lateFrom = lateSince(contribution, now, currency);
+        const daysLate = lateFrom ? Math.ceil((now.getTime() - lateFrom.getTime()) / (1000 * 60 * 60 * 24)) : 0;
 
         if (daysLate > 0 && contribution.status !== 'paid') {
           // Get member details
@@ -117,27 +190,20 @@ class LatePaymentMonitorService {
           );
 
           let memberName = 'Unknown Member';
+          let memberStatus: GroupMember['status'] | undefined;
           if (memberResult.success && memberResult.data) {
+            memberStatus = memberResult.data.status;
             // Get user profile for display name
             const userResult = await DatabaseService.users.getUserById(contribution.user_id);
             if (userResult.success && userResult.data) {
-              memberName = userResult.data.displayName || userResult.data.email;
+              memberName = userResult.data.name || userResult.data.email || memberName;
             }
           }
 
-          // Get group name
-          const groupResult = await DatabaseService.groups.getGroupById(contribution.group_id);
           const groupName = groupResult.success && groupResult.data 
             ? groupResult.data.name 
             : 'Unknown Group';
 
-          // Check warning history and penalties
-          const warningsCount = await this.getWarningsCount(
-            contribution.user_id, 
-            contribution.group_id, 
-            contribution.cycle_number
-          );
-
           lateMembers.push({
             memberId: contribution.user_id,
             memberName,
@@ -145,12 +211,16 @@ class LatePaymentMonitorService {
             groupName,
             contributionId: contribution.id,
             amount: contribution.amount,
+            outstandingAmount: outstandingBalance(contribution, currency),
             dueDate,
             daysLate,
             cycle: contribution.cycle_number,
-            warningsCount,
+            warningsCount: contribution.late_warnings_sent || 0,
             penaltyAmount: contribution.late_penalty_amount || 0,
-            lastActionDate: contribution.last_reminder_sent || undefined,
+            lastActionDate: contribution.last_late_action_at || contribution.last_reminder_sent || undefined,
+            lastActionType: contribution.last_late_action_type,
+            memberStatus,
+            currency,
           });
         }
       }
@@ -172,21 +242,35 @@ class LatePaymentMonitorService {
     }
   }
 
-  private async processLatePayments(lateMembers: LatePaymentMember[]): Promise<LatePaymentSummary> {
+  private async processLatePayments(lateMembers: LatePaymentMember[], dryRun: boolean): Promise<LatePaymentSummary> {
     let warningsIssued = 0;
     let penaltiesApplied = 0;
     let suspendedMembers = 0;
+    let removedMembers = 0;
     const criticalCases: LatePaymentMember[] = [];
+    const plannedActions: LatePaymentPlan[] = [];
+    const policies = new Map<string, LatePaymentPolicy | null>();
 
     for (const member of lateMembers) {
       try {
-        // Determine action based on days late and previous actions
-        const action = this.determineAction(member);
-        
-        if (action) {
-          const result = await this.executeAction(member, action);
+        // Determine action from the group's policy and previous actions
+        if (!policies.has(member.groupId)) {
+          policies.set(member.groupId, await this.getGroupPolicy(member.groupId));
+        }
+        const policy = policies.get(member.groupId);
+        if (!policy) {
+          continue;
+        }
+
+        const decision = this.determineAction(member, policy);
+        plannedActions.push({ member, decision });
+
+        if (decision.action) {
+          const result = dryRun
+            ? { success: true }
+            : await this.executeAction(member, { type: decision.action, notes: decision.notes });
           if (result.success) {
-            switch (action.type) {
+            switch (decision.action) {
               case 'warning':
                 warningsIssued++;
                 break;
@@ -196,6 +280,9 @@ class LatePaymentMonitorService {
               case 'suspension':
                 suspendedMembers++;
                 break;
+              case 'removal':
+                removedMembers++;
+                break;
             }
           }
         }
@@ -209,65 +296,47 @@ class LatePaymentMonitorService {
       }
     }
 
-    const totalOverdueAmount = lateMembers.reduce((sum, member) => sum + member.amount, 0);
     const averageDaysLate = lateMembers.length > 0 
       ? lateMembers.reduce((sum, member) => sum + member.daysLate, 0) / lateMembers.length 
       : 0;
 
     return {
       totalLateMembers: lateMembers.length,
-      totalOverdueAmount,
+      totalOverdue: totalsByCurrency(lateMembers.map(member => money(member.outstandingAmount, member.currency))),
       averageDaysLate: Math.round(averageDaysLate * 10) / 10,
       warningsIssued,
       penaltiesApplied,
       suspendedMembers,
+      removedMembers,
       criticalCases: criticalCases.slice(0, 10), // Top 10 critical cases
+      plannedActions,
     };
   }
 
-  private determineAction(member: LatePaymentMember): { type: 'warning' | 'penalty' | 'suspension' | null; notes: string } | null {
-    const { daysLate, warningsCount, penaltyAmount, lastActionDate } = member;
-    
+  private determineAction(member: LatePaymentMember, policy: LatePaymentPolicy): LatePaymentDecision {
     // Don't take action if we've already taken action today
-    if (lastActionDate && this.isSameDay(lastActionDate, new Date())) {
-      return null;
-    }
-
-    // Progressive escalation
-    if (daysLate >= 1 && daysLate <= 3 && warningsCount === 0) {
-      return {
-        type: 'warning',
-        notes: `First warning: Payment is ${daysLate} day(s) overdue. Please pay as soon as possible to avoid penalties.`,
-      };
-    }
-
-    if (daysLate >= 4 && daysLate <= 7 && warningsCount <= 1) {
-      return {
-        type: 'warning',
-        notes: `Second warning: Payment is ${daysLate} days overdue. A penalty may be applied if payment is not received soon.`,
-      };
-    }
-
-    if (daysLate >= 8 && penaltyAmount === 0) {
-      return {
-        type: 'penalty',
-        notes: `Penalty applied: Payment is ${daysLate} days overdue. A 5% late fee has been added to your contribution.`,
-      };
+    if (member.lastActionDate && this.isSameDay(new Date(member.lastActionDate), getClock().now())) {
+      return { action: null, fee: 0, notes: 'Action already taken today' };
     }
 
-    if (daysLate >= 14) {
-      return {
-        type: 'suspension',
-        notes: `Account suspended: Payment is ${daysLate} days overdue. Your account has been suspended until payment is received.`,
-      };
-    }
+    return evaluateLatePayment(policy, {
+      daysLate: member.daysLate,
+      amount: member.amount,
+      warningsSent: member.warningsCount,
+      penaltyAmount: member.penaltyAmount,
+      memberStatus: member.memberStatus,
+      currency: member.currency,
+    });
+  }
 
-    return null;
+  private async getGroupPolicy(groupId: string): Promise<LatePaymentPolicy | null> {
+    const groupResult = await DatabaseService.groups.getGroupById(groupId);
+    return groupResult.success && groupResult.data ? buildLatePaymentPolicy(groupResult.data) : null;
   }
 
   private async executeAction(
     member: LatePaymentMember, 
-    action: { type: 'warning' | 'penalty' | 'suspension'; notes: string }
+    action: { type: LatePaymentActionType; notes: string }
   ): Promise<BusinessLogicResult<any>> {
     try {
       // Get group admin for the action
@@ -295,7 +364,7 @@ class LatePaymentMonitorService {
         await this.sendActionNotification(member, action);
         
         // Send summary to admin if it's a critical action
-        if (action.type === 'suspension') {
+        if (action.type === 'suspension' || action.type === 'removal') {
           await this.sendAdminNotification(adminId, member, action);
         }
       }
@@ -328,6 +397,7 @@ class LatePaymentMonitorService {
           actionType: action.type,
           daysLate: member.daysLate,
           amount: member.amount,
+          currency: member.currency,
         },
       });
     } catch (error) {
@@ -342,15 +412,16 @@ class LatePaymentMonitorService {
   ): Promise<void> {
     try {
       await NotificationService.sendToUser(adminId, {
-        type: 'member_suspended',
-        title: 'Member Suspended for Late Payment',
-        message: `${member.memberName} has been suspended for being ${member.daysLate} days late on their payment.`,
+        type: action.type === 'removal' ? 'member_removed' : 'member_suspended',
+        title: action.type === 'removal' ? 'Member Removed for Late Payment' : 'Member Suspended for Late Payment',
+        message: `${member.memberName} has been ${action.type === 'removal' ? 'removed' : 'suspended'} for being ${member.daysLate} days late on their payment.`,
         data: {
           groupId: member.groupId,
           memberId: member.memberId,
           contributionId: member.contributionId,
           daysLate: member.daysLate,
           amount: member.amount,
+          currency: member.currency,
         },
       });
     } catch (error) {
@@ -363,32 +434,18 @@ class LatePaymentMonitorService {
       case 'warning': return 'Payment Reminder';
       case 'penalty': return 'Late Payment Penalty Applied';
       case 'suspension': return 'Account Suspended';
+      case 'removal': return 'Removed From Group';
       default: return 'Payment Notice';
     }
   }
 
-  private async getWarningsCount(memberId: string, groupId: string, cycle: number): Promise<number> {
-    // In a real implementation, this would query a late payment actions log table
-    // For now, return 0 as placeholder
-    return 0;
-  }
-
   private isSameDay(date1: Date, date2: Date): boolean {
     return date1.toDateString() === date2.toDateString();
   }
 
+  // Read-only: reports what the policy would do without acting on it
   async getLatePaymentSummary(groupId?: string): Promise<BusinessLogicResult<LatePaymentSummary>> {
-    const lateMembers = await this.getLatePaymentMembers(groupId);
-    if (!lateMembers.success) {
-      return lateMembers as BusinessLogicResult<LatePaymentSummary>;
-    }
-
-    const summary = await this.processLatePayments(lateMembers.data);
-    
-    return {
-      success: true,
-      data: summary,
-    };
+    return this.checkLatePayments({ groupId, dryRun: true });
   }
 
   // Cleanup method
@@ -0,0 +1,194 @@
+import { LatePaymentDecision } from '../../types/business';
+import { Group, GroupMember, LatePaymentPolicy } from '../../types/database';
+import { CurrencyCode, formatAmount, money, multiplyMoney, toMajor } from '../../utils/money';
+
+/**
+ * The ladder groups had before policies were configurable: warnings on days
+ * 1 and 4, a 5% fee from day 8 and suspension from day 14
+ */
+export const DEFAULT_LATE_PAYMENT_POLICY: LatePaymentPolicy = {
+  grace_days: 0,
+  warnings: 2,
+  warning_interval_days: 3,
+  fee: { type: 'percent', rate: 5 },
+  fee_after_days: 8,
+  suspend_after_days: 14,
+};
+
+// Where a late contribution stands when the policy is evaluated
+export interface LatePaymentState {
+  daysLate: number;
+  amount: number;
+  warningsSent: number;
+  penaltyAmount: number; // fee already charged on the contribution
+  memberStatus?: GroupMember['status'];
+  currency: CurrencyCode;
+}
+
+/**
+ * Build a group's policy from its settings (penalty rate, max late days,
+ * grace period), then apply any overrides stored on the group
+ */
+export const buildLatePaymentPolicy = (
+  group: Pick<Group, 'grace_period_days' | 'late_penalty_rate' | 'max_late_days' | 'late_payment_policy'>,
+): LatePaymentPolicy => {
+  const graceDays = group.grace_period_days ?? DEFAULT_LATE_PAYMENT_POLICY.grace_days;
+  const derived: LatePaymentPolicy = {
+    ...DEFAULT_LATE_PAYMENT_POLICY,
+    grace_days: graceDays,
+    fee: { type: 'percent', rate: group.late_penalty_rate ?? 5 },
+    fee_after_days: Math.max(DEFAULT_LATE_PAYMENT_POLICY.fee_after_days, graceDays + 1),
+    suspend_after_days: Math.max(group.max_late_days ?? 14, graceDays + 1),
+  };
+  return { ...derived, ...group.late_payment_policy };
+};
+
+/**
+ * Check a policy before it is stored on a group
+ * @returns List of validation errors (empty when valid)
+ */
+export const validateLatePaymentPolicy = (policy: LatePaymentPolicy): string[] => {
+  const errors: string[] = [];
+  const isWholeDays = (value: number) => Number.isInteger(value) && value >= 0;
+
+  if (!isWholeDays(policy.grace_days)) {
+    errors.push('Grace days must be a whole number of days');
+  }
+  if (!isWholeDays(policy.warnings)) {
+    errors.push('Warning count must be a whole number');
+  }
+  if (!isWholeDays(policy.warning_interval_days) || policy.warning_interval_days < 1) {
+    errors.push('Warnings must be at least one day apart');
+  }
+
+  switch (policy.fee.type) {
+    case 'flat':
+      if (!(policy.fee.amount >= 0)) {
+        errors.push('Flat late fee cannot be negative');
+      }
+      break;
+    case 'percent':
+      if (!(policy.fee.rate >= 0 && policy.fee.rate <= 50)) {
+        errors.push('Late fee rate must be between 0% and 50%');
+      }
+      break;
+    case 'per_day':
+      if (!(policy.fee.rate > 0)) {
+        errors.push('Daily late fee rate must be greater than zero');
+      }
+      if (!(policy.fee.cap >= policy.fee.rate && policy.fee.cap <= 50)) {
+        errors.push('Late fee cap must be between the daily rate and 50%');
+      }
+      break;
+    default:
+      errors.push('Unknown late fee formula');
+  }
+
+  if (!isWholeDays(policy.fee_after_days) || policy.fee_after_days <= policy.grace_days) {
+    errors.push('Late fee cannot start within the grace period');
+  }
+  if (policy.suspend_after_days !== undefined && !(policy.suspend_after_days > policy.grace_days)) {
+    errors.push('Suspension cannot start within the grace period');
+  }
+  if (policy.remove_after_days !== undefined) {
+    if (!(policy.remove_after_days > policy.grace_days)) {
+      errors.push('Removal cannot start within the grace period');
+    }
+    if (policy.suspend_after_days !== undefined && policy.remove_after_days <= policy.suspend_after_days) {
+      errors.push('Removal must come after suspension');
+    }
+  }
+  return errors;
+};
+
+/**
+ * Late fee the formula gives for a contribution, in whole currency units.
+ * Nothing is owed within the grace period.
+ */
+export const calculateLateFee = (
+  policy: LatePaymentPolicy,
+  daysLate: number,
+  amount: number,
+  currency: CurrencyCode
+): number => {
+  const chargeableDays = daysLate - policy.grace_days;
+  if (chargeableDays <= 0) {
+    return 0;
+  }
+
+  const percentOfAmount = (percent: number) => Math.floor(toMajor(multiplyMoney(money(amount, currency), percent / 100)));
+  switch (policy.fee.type) {
+    case 'flat':
+      return Math.floor(policy.fee.amount);
+    case 'percent':
+      return percentOfAmount(policy.fee.rate);
+    case 'per_day':
+      return percentOfAmount(Math.min(chargeableDays * policy.fee.rate, policy.fee.cap));
+  }
+};
+
+/**
+ * Decide the next step for a late contribution. The most severe step due
+ * wins; steps already taken (warnings sent, fee charged, member suspended)
+ * are not repeated.
+ */
+export const evaluateLatePayment = (policy: LatePaymentPolicy, state: LatePaymentState): LatePaymentDecision => {
+  const { daysLate, amount, warningsSent, penaltyAmount, memberStatus, currency } = state;
+  const fee = calculateLateFee(policy, daysLate, amount, currency);
+  const overdue = `Payment is ${daysLate} day(s) overdue.`;
+
+  if (daysLate <= policy.grace_days) {
+    return { action: null, fee: 0, notes: 'Within grace period' };
+  }
+
+  if (
+    policy.remove_after_days !== undefined &&
+    daysLate >= policy.remove_after_days &&
+    memberStatus !== 'removed'
+  ) {
+    return {
+      action: 'removal',
+      fee,
+      notes: `Removed from group: ${overdue} Membership has ended for non-payment.`,
+    };
+  }
+
+  if (
+    policy.suspend_after_days !== undefined &&
+    daysLate >= policy.suspend_after_days &&
+    memberStatus !== 'suspended' &&
+    memberStatus !== 'removed'
+  ) {
+    return {
+      action: 'suspension',
+      fee,
+      notes: `Account suspended: ${overdue} Your account has been suspended until payment is received.`,
+    };
+  }
+
+  if (daysLate >= policy.fee_after_days && fee > penaltyAmount) {
+    return {
+      action: 'penalty',
+      fee,
+      notes: `Penalty applied: ${overdue} A late fee of ${formatAmount(fee, currency)} has been added to your contribution.`,
+    };
+  }
+
+  // Warnings go out on the first day after grace, then every interval
+  const warningsDue = Math.min(
+    policy.warnings,
+    Math.floor((daysLate - policy.grace_days - 1) / policy.warning_interval_days) + 1,
+  );
+  if (warningsSent < warningsDue) {
+    return {
+      action: 'warning',
+      fee,
+      notes:
+        warningsSent === 0
+          ? `First warning: ${overdue} Please pay as soon as possible to avoid penalties.`
+          : `Warning ${warningsSent + 1}: ${overdue} A penalty may be applied if payment is not received soon.`,
+    };
+  }
+
+  return { action: null, fee, notes: 'No further action due' };
+};
@@ -0,0 +1,427 @@
+import {
+  BusinessLogicResult,
+  LedgerError,
+  LedgerMemberPosition,
+  PayoutReconciliation,
+} from '../../types/business';
+import DatabaseService, {
+  Contribution,
+  LedgerEntry,
+  LEDGER_ACCOUNTS,
+  isPaidOut,
+  memberAccount,
+  memberIdFromAccount,
+  walletAccount,
+} from '../database';
+import {
+  contributionEntry,
+  contributionSettlementAmount,
+  credit,
+  debit,
+  isBalanced,
+} from '../database/ledger';
+import { getClock } from '../jobs/clock';
+import {
+  CurrencyCode,
+  Money,
+  addMoney,
+  compareMoney,
+  currencyOf,
+  money,
+  subtractMoney,
+  sumMoney,
+  toMajor,
+  zeroMoney,
+} from '../../utils/money';
+
+/**
+ * Double-entry ledger for each group's money.
+ * Contributions and payouts are recorded by the repositories in the same batch
+ * as the status change; this service records the events that happen in
+ * business code (late fees, refunds) and derives balances,
+ * member positions and payout reconciliation from the entries.
+ */
+class LedgerService {
+  /**
+   * Record a paid contribution that was confirmed outside markAsPaid
+   * @param contribution - Contribution as stored after it was marked paid
+   * @returns The ledger entry, or null when its part payments already covered it
+   */
+  async recordContribution(contribution: Contribution): Promise<BusinessLogicResult<LedgerEntry | null>> {
+    try {
+      if (contribution.status !== 'paid') {
+        throw new LedgerError('Only paid contributions can be recorded');
+      }
+      const currency = await this.groupCurrency(contribution.group_id);
+      if (money(contributionSettlementAmount(contribution, currency), currency).minorUnits <= 0) {
+        return { success: true, data: null };
+      }
+      return { success: true, data: await this.append(contributionEntry(contribution, currency, getClock().now())) };
+    } catch (error) {
+      console.error('Error recording contribution:', error);
+      return {
+        success: false,
+        error: error instanceof LedgerError ? error.message : 'Failed to record contribution',
+        code: error instanceof LedgerError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Charge a late fee to a member. Only the increase over the fee already on
+   * the contribution is charged, so a fee that grows daily adds one entry per step.
+   * @param contribution - Contribution before the new fee is saved
+   * @param totalFee - Late fee now owed on the contribution
+   * @param createdBy - Admin or service applying the fee
+   * @returns The ledger entry, or null when nothing more is owed
+   */
+  async recordLateFee(
+    contribution: Contribution,
+    totalFee: number,
+    createdBy?: string
+  ): Promise<BusinessLogicResult<LedgerEntry | null>> {
+    try {
+      const currency = await this.groupCurrency(contribution.group_id);
+      const increase = toMajor(
+        subtractMoney(money(totalFee, currency), money(contribution.late_penalty_amount || 0, currency))
+      );
+      if (increase <= 0) {
+        return { success: true, data: null };
+      }
+
+      const entry = await this.append({
+        id: `late_fee_${contribution.id}_${money(totalFee, currency).minorUnits}`,
+        group_id: contribution.group_id,
+        type: 'late_fee',
+        cycle_number: contribution.cycle_number,
+        reference_id: contribution.id,
+        description: `Late fee for cycle ${contribution.cycle_number}`,
+        currency,
+        lines: [
+          debit(memberAccount(contribution.user_id), increase, currency),
+          credit(LEDGER_ACCOUNTS.LATE_FEES, increase, currency),
+        ],
+        created_by: createdBy,
+        created_at: getClock().now(),
+      });
+      return { success: true, data: entry };
+    } catch (error) {
+      console.error('Error recording late fee:', error);
+      return {
+        success: false,
+        error: error instanceof LedgerError ? error.message : 'Failed to record late fee',
+        code: error instanceof LedgerError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Take back part or all of a late fee, e.g. when a penalty dispute reduces or
+   * waives it. A fee the member already paid with their contribution is refunded
+   * from the pot into their wallet.
+   * @param contribution - Contribution before the lower fee is saved
+   * @param totalFee - Late fee now owed on the contribution
+   * @param referenceId - Decision the fee is reduced by, so it is recorded once
+   * @param createdBy - Admin or member settling the decision
+   * @returns The ledger entry, or null when the fee isn't lower
+   */
+  async recordLateFeeWaiver(
+    contribution: Contribution,
+    totalFee: number,
+    referenceId: string,
+    createdBy?: string
+  ): Promise<BusinessLogicResult<LedgerEntry | null>> {
+    try {
+      const currency = await this.groupCurrency(contribution.group_id);
+      const reduction = toMajor(
+        subtractMoney(money(contribution.late_penalty_amount || 0, currency), money(totalFee, currency))
+      );
+      if (reduction <= 0) {
+        return { success: true, data: null };
+      }
+
+      const now = getClock().now();
+      const entry = await this.append({
+        id: `late_fee_waiver_${referenceId}`,
+        group_id: contribution.group_id,
+        type: 'late_fee',
+        cycle_number: contribution.cycle_number,
+        reference_id: contribution.id,
+        description: `Late fee reduced for cycle ${contribution.cycle_number}`,
+        currency,
+        lines: [
+          debit(LEDGER_ACCOUNTS.LATE_FEES, reduction, currency),
+          credit(memberAccount(contribution.user_id), reduction, currency),
+        ],
+        created_by: createdBy,
+        created_at: now,
+      });
+
+      if (contribution.status === 'paid') {
+        const refund: LedgerEntry = {
+          id: `late_fee_refund_${referenceId}`,
+          group_id: contribution.group_id,
+          type: 'refund',
+          cycle_number: contribution.cycle_number,
+          reference_id: contribution.id,
+          description: `Late fee refund for cycle ${contribution.cycle_number}`,
+          currency,
+          lines: [
+            debit(memberAccount(contribution.user_id), reduction, currency),
+            credit(LEDGER_ACCOUNTS.POT, reduction, currency),
+            debit(LEDGER_ACCOUNTS.WALLET_FUNDS, reduction, currency),
+            credit(walletAccount(contribution.user_id), reduction, currency),
+          ],
+          created_by: createdBy,
+          created_at: now,
+        };
+        const credited = await DatabaseService.wallets.creditWallet(contribution.group_id, contribution.user_id, refund);
+        if (!credited.success) {
+          throw new LedgerError(credited.error || 'Failed to refund late fee to wallet');
+        }
+      }
+
+      return { success: true, data: entry };
+    } catch (error) {
+      console.error('Error recording late fee waiver:', error);
+      return {
+        success: false,
+        error: error instanceof LedgerError ? error.message : 'Failed to record late fee waiver',
+        code: error instanceof LedgerError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Money held in the group's pot
+   * @param groupId - Group ID
+   * @param upToCycle - Only count entries up to and including this cycle
+   * @returns Pot balance
+   */
+  async getPotBalance(groupId: string, upToCycle?: number): Promise<BusinessLogicResult<number>> {
+    try {
+      const currency = await this.groupCurrency(groupId);
+      return {
+        success: true,
+        data: this.balanceOf(await this.loadEntries(groupId, upToCycle), LEDGER_ACCOUNTS.POT, currency),
+      };
+    } catch (error) {
+      console.error('Error getting pot balance:', error);
+      return {
+        success: false,
+        error: error instanceof LedgerError ? error.message : 'Failed to get pot balance',
+        code: error instanceof LedgerError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Money held in the group's reserve fund for covering payout shortfalls
+   * @param groupId - Group ID
+   * @returns Reserve balance
+   */
+  async getReserveBalance(groupId: string): Promise<BusinessLogicResult<number>> {
+    try {
+      const currency = await this.groupCurrency(groupId);
+      return {
+        success: true,
+        data: this.balanceOf(await this.loadEntries(groupId), LEDGER_ACCOUNTS.RESERVE, currency),
+      };
+    } catch (error) {
+      console.error('Error getting reserve balance:', error);
+      return {
+        success: false,
+        error: error instanceof LedgerError ? error.message : 'Failed to get reserve balance',
+        code: error instanceof LedgerError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Each member's net position: what they paid in less what they took out or were charged.
+   * Processing fees count against the payout recipient, since they come out of their payout.
+   * @param groupId - Group ID
+   * @param upToCycle - Only count entries up to and including this cycle
+   * @returns Positions for every member with ledger activity
+   */
+  async getMemberPositions(groupId: string, upToCycle?: number): Promise<BusinessLogicResult<LedgerMemberPosition[]>> {
+    try {
+      const currency = await this.groupCurrency(groupId);
+      const positions = new Map<string, { paidIn: Money; received: Money; penalties: Money }>();
+      const positionOf = (userId: string) => {
+        const position = positions.get(userId) || {
+          paidIn: zeroMoney(currency),
+          received: zeroMoney(currency),
+          penalties: zeroMoney(currency),
+        };
+        positions.set(userId, position);
+        return position;
+      };
+
+      for (const entry of await this.loadEntries(groupId, upToCycle)) {
+        for (const line of entry.lines) {
+          const userId = memberIdFromAccount(line.account);
+          if (!userId) {
+            continue;
+          }
+          const position = positionOf(userId);
+          if (entry.type === 'late_fee') {
+            // Fees charged, less any reduced or waived later
+            position.penalties = addMoney(
+              position.penalties,
+              subtractMoney(money(line.debit, currency), money(line.credit, currency))
+            );
+            continue;
+          }
+          position.paidIn = addMoney(position.paidIn, money(line.credit, currency));
+          position.received = addMoney(
+            position.received,
+            entry.type === 'payout' ? this.sumLines(entry, LEDGER_ACCOUNTS.POT, 'credit', currency) : money(line.debit, currency)
+          );
+        }
+      }
+
+      return {
+        success: true,
+        data: Array.from(positions, ([userId, { paidIn, received, penalties }]) => ({
+          userId,
+          paidIn: toMajor(paidIn),
+          received: toMajor(received),
+          penalties: toMajor(penalties),
+          paidOut: toMajor(addMoney(received, penalties)),
+          net: toMajor(subtractMoney(subtractMoney(paidIn, received), penalties)),
+        })),
+      };
+    } catch (error) {
+      console.error('Error getting member positions:', error);
+      return {
+        success: false,
+        error: error instanceof LedgerError ? error.message : 'Failed to get member positions',
+        code: error instanceof LedgerError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Check the ledger against the group's payout records
+   * @param groupId - Group ID
+   * @returns Every discrepancy found; reconciled is true when there are none
+   */
+  async reconcilePayouts(groupId: string): Promise<BusinessLogicResult<PayoutReconciliation>> {
+    try {
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        throw new LedgerError('Group not found');
+      }
+
+      const payoutsResult = await DatabaseService.payouts.getGroupPayouts(groupId, {}, { limit: 1000 });
+      if (!payoutsResult.success || !payoutsResult.data) {
+        throw new LedgerError('Failed to fetch payouts');
+      }
+
+      const currency = currencyOf(groupResult.data);
+      const entries = await this.loadEntries(groupId);
+      const payoutEntries = new Map(
+        entries.filter(entry => entry.type === 'payout').map(entry => [entry.reference_id, entry])
+      );
+      const paidOut = payoutsResult.data.items.filter(isPaidOut);
+
+      const missingEntries: string[] = [];
+      const mismatchedEntries: PayoutReconciliation['mismatchedEntries'] = [];
+      for (const payout of paidOut) {
+        const entry = payoutEntries.get(payout.id);
+        if (!entry) {
+          missingEntries.push(payout.id);
+          continue;
+        }
+        const ledgerAmount = this.sumLines(entry, LEDGER_ACCOUNTS.POT, 'credit', currency);
+        if (compareMoney(ledgerAmount, money(payout.amount, currency)) !== 0) {
+          mismatchedEntries.push({ payoutId: payout.id, payoutAmount: payout.amount, ledgerAmount: toMajor(ledgerAmount) });
+        }
+      }
+
+      const paidOutIds = new Set(paidOut.map(payout => payout.id));
+      const unexpectedEntries = Array.from(payoutEntries.keys()).filter(payoutId => !paidOutIds.has(payoutId));
+      const unbalancedEntries = entries.filter(entry => !isBalanced(entry.lines, currency)).map(entry => entry.id);
+
+      const ledgerPayoutTotal = sumMoney(
+        Array.from(payoutEntries.values()).flatMap(entry =>
+          entry.lines.filter(line => memberIdFromAccount(line.account)).map(line => money(line.debit, currency))
+        ),
+        currency
+      );
+      const recordedPayoutTotal = groupResult.data.total_payouts_made;
+
+      return {
+        success: true,
+        data: {
+          groupId,
+          reconciled:
+            missingEntries.length === 0 &&
+            mismatchedEntries.length === 0 &&
+            unexpectedEntries.length === 0 &&
+            unbalancedEntries.length === 0 &&
+            compareMoney(ledgerPayoutTotal, money(recordedPayoutTotal, currency)) === 0,
+          potBalance: this.balanceOf(entries, LEDGER_ACCOUNTS.POT, currency),
+          recordedPayoutTotal,
+          ledgerPayoutTotal: toMajor(ledgerPayoutTotal),
+          missingEntries,
+          mismatchedEntries,
+          unexpectedEntries,
+          unbalancedEntries,
+        },
+      };
+    } catch (error) {
+      console.error('Error reconciling payouts:', error);
+      return {
+        success: false,
+        error: error instanceof LedgerError ? error.message : 'Failed to reconcile payouts',
+        code: error instanceof LedgerError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  private async append(entry: LedgerEntry): Promise<LedgerEntry> {
+    const result = await DatabaseService.ledger.appendEntry(entry);
+    if (!result.success || !result.data) {
+      throw new LedgerError(result.error || 'Failed to write ledger entry');
+    }
+    return result.data.entry;
+  }
+
+  private async groupCurrency(groupId: string): Promise<CurrencyCode> {
+    const result = await DatabaseService.groups.getGroupById(groupId);
+    if (!result.success || !result.data) {
+      throw new LedgerError('Group not found');
+    }
+    return currencyOf(result.data);
+  }
+
+  private async loadEntries(groupId: string, upToCycle?: number): Promise<LedgerEntry[]> {
+    const result = await DatabaseService.ledger.getGroupEntries(groupId, upToCycle);
+    if (!result.success || !result.data) {
+      throw new LedgerError('Failed to fetch ledger entries');
+    }
+    return result.data;
+  }
+
+  private balanceOf(entries: LedgerEntry[], account: string, currency: CurrencyCode): number {
+    return toMajor(
+      sumMoney(
+        entries.map(entry =>
+          subtractMoney(this.sumLines(entry, account, 'debit', currency), this.sumLines(entry, account, 'credit', currency))
+        ),
+        currency
+      )
+    );
+  }
+
+  private sumLines(entry: LedgerEntry, account: string, side: 'debit' | 'credit', currency: CurrencyCode): Money {
+    return sumMoney(
+      entry.lines.filter(line => line.account === account).map(line => money(line[side], currency)),
+      currency
+    );
+  }
+}
+
+export default new LedgerService();
@@ -10,7 +10,9 @@ import {
 import { MemberPaymentStatus } from '../../types/business';
 import DatabaseService from '../database';
 import NotificationService from '../notifications';
+import EmailService from '../email';
 import PaymentStatusService from './paymentStatus';
+import { currencyOf, formatAmount, formatMoney, money, multiplyMoney } from '../../utils/money';
 
 class PaymentReminderService {
   /**
@@ -49,7 +51,7 @@ class PaymentReminderService {
       
       // Filter members who need reminders
       const membersNeedingReminders = paymentStatus.membersStatus.filter(member => 
-        member.status === 'pending' || member.status === 'overdue'
+        member.status === 'pending' || member.status === 'partially_paid' || member.status === 'overdue'
       );
 
       if (membersNeedingReminders.length === 0) {
@@ -245,15 +247,16 @@ class PaymentReminderService {
         return false;
       }
 
-      // This would integrate with an email service like SendGrid, AWS SES, etc.
-      // For now, we'll simulate the email sending
-      console.log(`[EMAIL] To: ${user.email}, Subject: Payment Reminder - ${group.name}`);
-      console.log(`[EMAIL] Message: ${message}`);
-
-      // Simulate email sending delay
-      await new Promise(resolve => setTimeout(resolve, 100));
-
-      return true;
+      const subject = `Payment Reminder - ${group.name}`;
+      const result = await EmailService.sendToUser(user.id, {
+        subject,
+        heading: `${subject} (cycle ${cycle})`,
+        paragraphs: message.split(/\n+/).filter(paragraph => paragraph.trim()),
+      });
+      if (!result.success) {
+        console.warn(`Email reminder not sent to user ${user.id}: ${result.error}`);
+      }
+      return result.success;
     } catch (error) {
       console.error('Failed to send email reminder:', error);
       return false;
@@ -303,32 +306,25 @@ class PaymentReminderService {
     config: PaymentReminderConfig,
     daysOverdue: number
   ): string {
+    const currency = currencyOf(group);
+    const formattedAmount = formatAmount(member.outstandingAmount ?? member.amount, currency);
+
     if (config.customMessage) {
       return config.customMessage
         .replace('{memberName}', member.userName)
         .replace('{groupName}', group.name)
-        .replace('{amount}', new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN' }).format(member.amount))
+        .replace('{amount}', formattedAmount)
         .replace('{cycle}', cycle.toString())
         .replace('{daysOverdue}', daysOverdue.toString());
     }
 
     let message = '';
-    const formattedAmount = new Intl.NumberFormat('en-NG', { 
-      style: 'currency', 
-      currency: 'NGN',
-      minimumFractionDigits: 0 
-    }).format(member.amount);
 
     if (member.status === 'overdue') {
       message = `Hi ${member.userName}! Your payment of ${formattedAmount} for ${group.name} (Cycle ${cycle}) is ${daysOverdue} days overdue. `;
       
       if (config.includePenaltyWarning) {
-        const penaltyAmount = member.amount * BUSINESS_CONSTANTS.PENALTY_RATE;
-        const formattedPenalty = new Intl.NumberFormat('en-NG', { 
-          style: 'currency', 
-          currency: 'NGN',
-          minimumFractionDigits: 0 
-        }).format(penaltyAmount);
+        const formattedPenalty = formatMoney(multiplyMoney(money(member.amount, currency), BUSINESS_CONSTANTS.PENALTY_RATE));
         message += `A penalty of ${formattedPenalty} may apply. `;
       }
       
@@ -382,7 +378,7 @@ class PaymentReminderService {
         { type: 'email', enabled: true, template: 'default' },
         { type: 'sms', enabled: false, template: 'default' }, // SMS disabled by default due to cost
       ],
-      daysBeforeDue: BUSINESS_CONSTANTS.REMINDER_DAYS,
+      daysBeforeDue: [...BUSINESS_CONSTANTS.REMINDER_DAYS],
       includePenaltyWarning: true,
     };
   }
@@ -9,6 +9,8 @@ import {
 } from '../../types/business';
 import { Contribution } from '../../types/database';
 import DatabaseService from '../database';
+import { amountPaid, lateSince, outstandingBalance } from './installments';
+import { CurrencyCode, Money, addMoney, currencyOf, money, multiplyMoney, sumMoney, toMajor } from '../../utils/money';
 
 class PaymentStatusService {
   /**
@@ -32,13 +34,14 @@ class PaymentStatusService {
       }
 
       const group = groupResult.data;
+      const currency = currencyOf(group);
 
       // Get active members
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(
         groupId,
         { status: 'active' }
       );
-      if (!membersResult.success) {
+      if (!membersResult.success || !membersResult.data) {
         throw new PaymentValidationError('Failed to fetch group members');
       }
 
@@ -49,7 +52,7 @@ class PaymentStatusService {
         groupId,
         cycle
       );
-      if (!contributionsResult.success) {
+      if (!contributionsResult.success || !contributionsResult.data) {
         throw new PaymentValidationError('Failed to fetch contributions');
       }
 
@@ -57,10 +60,11 @@ class PaymentStatusService {
 
       // Calculate member payment statuses
       const membersStatus: MemberPaymentStatus[] = [];
-      let totalCollected = 0;
+      const collected: Money[] = [];
       let paidCount = 0;
       let pendingCount = 0;
       let overdueCount = 0;
+      let partiallyPaidCount = 0;
 
       for (const member of activeMembers) {
         const memberContribution = contributions.find(c => c.user_id === member.user_id);
@@ -69,6 +73,7 @@ class PaymentStatusService {
           // No contribution record - create pending status
           membersStatus.push({
             userId: member.user_id,
+            groupId: group.id,
             userName: `User ${member.user_id}`, // Would fetch actual name
             status: 'pending',
             amount: group.contribution_amount,
@@ -78,25 +83,26 @@ class PaymentStatusService {
           pendingCount++;
         } else {
           // Analyze contribution status
-          const status = this.determinePaymentStatus(memberContribution);
-          const daysOverdue = this.calculateDaysOverdue(memberContribution.due_date);
+          const status = this.determinePaymentStatus(memberContribution, currency);
           
-          membersStatus.push({
-            userId: member.user_id,
-            userName: `User ${member.user_id}`,
-            status: status as MemberPaymentStatus['status'],
-            amount: memberContribution.amount,
-            dueDate: memberContribution.due_date,
-            paidDate: memberContribution.paid_date,
-            daysOverdue: daysOverdue > 0 ? daysOverdue : undefined,
-            contributionId: memberContribution.id,
-          });
+          membersStatus.push(this.toMemberStatus(member.user_id, memberContribution, status, currency));
+
+          // Part payments count toward what has been collected, whatever the status
+          if (status !== 'paid' && memberContribution.payments?.length) {
+            collected.push(money(amountPaid(memberContribution, currency), currency));
+          }
 
           // Update counters
           switch (status) {
             case 'paid':
               paidCount++;
-              totalCollected += memberContribution.amount + (memberContribution.late_penalty_amount || 0);
+              collected.push(addMoney(
+                money(memberContribution.amount, currency),
+                money(memberContribution.late_penalty_amount || 0, currency)
+              ));
+              break;
+            case 'partially_paid':
+              partiallyPaidCount++;
               break;
             case 'overdue':
               overdueCount++;
@@ -109,7 +115,8 @@ class PaymentStatusService {
       }
 
       // Calculate summary
-      const totalExpected = group.contribution_amount * activeMembers.length;
+      const totalExpected = toMajor(multiplyMoney(money(group.contribution_amount, currency), activeMembers.length));
+      const totalCollected = toMajor(sumMoney(collected, currency));
       const completionRate = (paidCount / activeMembers.length) * 100;
 
       const summary: PaymentStatusSummary = {
@@ -119,8 +126,10 @@ class PaymentStatusService {
         paidMembers: paidCount,
         pendingMembers: pendingCount,
         overdueMembers: overdueCount,
+        partiallyPaidMembers: partiallyPaidCount,
         totalExpected,
         totalCollected,
+        currency,
         completionRate,
         membersStatus,
       };
@@ -156,28 +165,18 @@ class PaymentStatusService {
         { group_id: groupId }
       );
 
-      if (!contributionsResult.success) {
+      if (!contributionsResult.success || !contributionsResult.data) {
         throw new PaymentValidationError('Failed to fetch user contributions');
       }
 
       const contributions = contributionsResult.data.items;
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      const currency = currencyOf(groupResult.data);
 
       // Convert to payment status format
-      const paymentHistory: MemberPaymentStatus[] = contributions.map(contribution => {
-        const status = this.determinePaymentStatus(contribution);
-        const daysOverdue = this.calculateDaysOverdue(contribution.due_date);
-
-        return {
-          userId,
-          userName: `User ${userId}`,
-          status: status as MemberPaymentStatus['status'],
-          amount: contribution.amount,
-          dueDate: contribution.due_date,
-          paidDate: contribution.paid_date,
-          daysOverdue: daysOverdue > 0 ? daysOverdue : undefined,
-          contributionId: contribution.id,
-        };
-      });
+      const paymentHistory: MemberPaymentStatus[] = contributions.map(contribution =>
+        this.toMemberStatus(userId, contribution, this.determinePaymentStatus(contribution, currency), currency),
+      );
 
       // Sort by cycle number (assuming it's available in contribution data)
       paymentHistory.sort((a, b) => {
@@ -208,7 +207,7 @@ class PaymentStatusService {
     try {
       const overdueContributions = await DatabaseService.contributions.getOverdueContributions();
       
-      if (!overdueContributions.success) {
+      if (!overdueContributions.success || !overdueContributions.data) {
         throw new PaymentValidationError('Failed to fetch overdue contributions');
       }
 
@@ -222,6 +221,7 @@ class PaymentStatusService {
         if (daysOverdue <= maxDays) {
           overduePayments.push({
             userId: contribution.user_id,
+            groupId: contribution.group_id,
             userName: `User ${contribution.user_id}`,
             status: 'overdue',
             amount: contribution.amount,
@@ -318,7 +318,7 @@ class PaymentStatusService {
               memberStatus.contributionId
             );
             
-            if (updateResult.success) {
+            if (updateResult.success && updateResult.data) {
               markedOverdue++;
             }
           }
@@ -342,9 +342,10 @@ class PaymentStatusService {
   /**
    * Determine payment status from contribution data
    * @param contribution - Contribution to analyze
+   * @param currency - The group's currency
    * @returns Payment status
    */
-  private determinePaymentStatus(contribution: Contribution): string {
+  private determinePaymentStatus(contribution: Contribution, currency: CurrencyCode): MemberPaymentStatus['status'] {
     if (contribution.status === 'paid') {
       return 'paid';
     }
@@ -353,13 +354,51 @@ class PaymentStatusService {
       return 'cancelled';
     }
 
-    const daysOverdue = this.calculateDaysOverdue(contribution.due_date);
+    const daysOverdue = this.daysOverdueFor(contribution, currency);
     
     if (daysOverdue > BUSINESS_CONSTANTS.DEFAULT_GRACE_PERIOD) {
       return 'overdue';
     }
 
-    return 'pending';
+    return contribution.status === 'partially_paid' ? 'partially_paid' : 'pending';
+  }
+
+  /**
+   * Days overdue, counted from the first missed installment when the member
+   * has an installment plan (0 while they keep to it)
+   */
+  private daysOverdueFor(contribution: Contribution, currency: CurrencyCode): number {
+    const lateFrom = lateSince(contribution, new Date(), currency);
+    return lateFrom ? this.calculateDaysOverdue(lateFrom) : 0;
+  }
+
+  private toMemberStatus(
+    userId: string,
+    contribution: Contribution,
+    status: MemberPaymentStatus['status'],
+    currency: CurrencyCode,
+  ): MemberPaymentStatus {
+    const daysOverdue =
+      status === 'paid' || status === 'cancelled'
+        ? this.calculateDaysOverdue(contribution.due_date)
+        : this.daysOverdueFor(contribution, currency);
+    const isPaidInPart = status !== 'paid' && !!contribution.payments?.length;
+
+    return {
+      userId,
+      groupId: contribution.group_id,
+      userName: `User ${userId}`,
+      status,
+      amount: contribution.amount,
+      dueDate: contribution.due_date,
+      paidDate: contribution.paid_date,
+      daysOverdue: daysOverdue > 0 ? daysOverdue : undefined,
+      contributionId: contribution.id,
+      ...(isPaidInPart
+        ? { paidAmount: amountPaid(contribution, currency), outstandingAmount: outstandingBalance(contribution, currency) }
+        : {}),
+      ...(contribution.installment_plan && status !== 'paid' ? { onInstallmentPlan: true } : {}),
+    };
   }
 
   /**
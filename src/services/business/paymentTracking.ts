@@ -1,11 +1,27 @@
 import { BusinessLogicResult } from '../../types/business';
-import DatabaseService from '../database';
+import DatabaseService, { Contribution, ContributionPayment, InstallmentPlan, Payout } from '../database';
 import BusinessLogicService from '../business';
 import { MemberPaymentStatus } from '../../types/business';
 import TurnRotationScheduler from './turnRotationScheduler';
 import PaymentReminderService from '../notifications/paymentReminders';
 import PayoutNotificationService from '../notifications/payoutNotifications';
-
+import { buildLatePaymentPolicy, calculateLateFee } from './latePaymentPolicy';
+import LedgerService from './ledger';
+import WalletService from './wallet';
+import { getClock } from '../jobs/clock';
+import ApprovalService from './approvals';
+import AuditLogService from './auditLog';
+import ReceiptService from '../receipts';
+import NotificationService from '../notifications';
+import { daysSince, lateSince, outstandingBalance, validateInstallments } from './installments';
+import { CurrencyCode, currencyOf, formatAmount, money, subtractMoney, toMajor } from '../../utils/money';
+import { hasGroupPermission } from '../../utils/permissions';
+import NotificationActions, { actionOutcome } from '../notifications/actions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXTENSION_DAYS = 30;
+// Granted from the button on the admin's "member needs help" notification
+const NOTIFICATION_EXTENSION_DAYS = 7;
 
 export interface PaymentConfirmation {
   contributionId: string;
@@ -19,6 +35,7 @@ export interface PaymentConfirmation {
   confirmedAt: Date;
   notes?: string;
   receiptUrl?: string;
+  walletCredit?: number; // paid above what was owed and put in the member's wallet
 }
 
 export interface PaymentProgress {
@@ -28,8 +45,10 @@ export interface PaymentProgress {
   paidMembers: number;
   pendingMembers: number;
   overdueMembers: number;
+  partiallyPaidMembers: number;
   totalExpected: number;
   totalCollected: number;
+  currency: CurrencyCode;
   completionPercentage: number;
   canProcessCycle: boolean;
   nextRecipient?: {
@@ -39,6 +58,13 @@ export interface PaymentProgress {
   };
 }
 
+export interface PartialPaymentResult {
+  contribution: Contribution;
+  payment: ContributionPayment;
+  outstandingAmount: number;
+  completed: boolean; // this payment settled the contribution
+}
+
 export interface PaymentHistoryItem {
   id: string;
   groupId: string;
@@ -46,9 +72,11 @@ export interface PaymentHistoryItem {
   memberName: string;
   cycle: number;
   amount: number;
-  status: 'paid' | 'pending' | 'overdue' | 'cancelled';
+  currency: CurrencyCode;
+  status: Contribution['status'];
   dueDate: Date;
   paidDate?: Date;
+  paidAmount?: number; // paid so far while the contribution is partially paid
   confirmedBy?: string;
   confirmedAt?: Date;
   confirmationType?: string;
@@ -69,6 +97,30 @@ export interface LatePaymentAction {
 }
 
 class PaymentTrackingService {
+  constructor() {
+    ApprovalService.registerExecutor('release_payout', action =>
+      this.releasePayout({
+        adminId: action.requested_by,
+        payoutId: action.params.payoutId,
+        notes: action.params.notes,
+        approvedActionId: action.id,
+      }),
+    );
+
+    NotificationActions.registerHandler('grant_extension', async ({ userId, data }) =>
+      actionOutcome(
+        await this.grantExtension({ contributionId: data.contributionId || '', adminId: userId, days: NOTIFICATION_EXTENSION_DAYS }),
+        { message: `Due date extended by ${NOTIFICATION_EXTENSION_DAYS} days` },
+      ),
+    );
+    NotificationActions.registerHandler('explain_delay', async ({ userId, data }) =>
+      actionOutcome(
+        await this.requestPaymentHelp({ contributionId: data.contributionId || '', memberId: userId }),
+        { message: 'Your group admin has been asked to help' },
+      ),
+    );
+  }
+
   /**
    * Admin function to mark member payment as confirmed
    * @param params - Payment confirmation details
@@ -81,9 +133,13 @@ class PaymentTrackingService {
     notes?: string;
     receiptUrl?: string;
     customAmount?: number;
+    confirmationMethod?: PaymentConfirmation['confirmationMethod'];
+    transactionReference?: string;
+    paidDate?: Date; // when the money arrived, if known (e.g. a bank statement's value date)
   }): Promise<BusinessLogicResult<PaymentConfirmation>> {
     try {
-      const { contributionId, adminId, confirmationType, notes, receiptUrl, customAmount } = params;
+      const { contributionId, adminId, confirmationType, notes, receiptUrl, customAmount, transactionReference } = params;
+      const confirmationMethod = params.confirmationMethod || 'admin_manual';
 
       // Get contribution details
       const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
@@ -107,10 +163,10 @@ class PaymentTrackingService {
         };
       }
 
-      if (groupResult.data.admin_id !== adminId) {
+      if (!hasGroupPermission(groupResult.data, adminId, 'canMarkPayments')) {
         return {
           success: false,
-          error: 'Only group admin can confirm payments',
+          error: 'You do not have permission to confirm payments',
           code: 'PERMISSION_DENIED',
         };
       }
@@ -125,7 +181,13 @@ class PaymentTrackingService {
       }
 
       const now = new Date();
-      const finalAmount = customAmount || contribution.amount;
+      const paidDate = params.paidDate || now;
+      // Anything paid above the contribution goes into the member's wallet
+      const currency = currencyOf(groupResult.data);
+      const overpayment = customAmount
+        ? toMajor(subtractMoney(money(customAmount, currency), money(contribution.amount, currency)))
+        : 0;
+      const finalAmount = overpayment > 0 ? contribution.amount : customAmount || contribution.amount;
 
       // Create payment confirmation record
       const confirmation: PaymentConfirmation = {
@@ -135,32 +197,42 @@ class PaymentTrackingService {
         cycle: contribution.cycle_number,
         amount: finalAmount,
         confirmationType: confirmationType,
-        confirmationMethod: 'admin_manual',
+        confirmationMethod,
         confirmedBy: adminId,
         confirmedAt: now,
         notes: notes,
         receiptUrl: receiptUrl,
       };
 
-      // Calculate late penalty if applicable
-      let penaltyAmount = 0;
-      const daysLate = Math.max(0, Math.ceil((now.getTime() - new Date(contribution.due_date).getTime()) / (1000 * 60 * 60 * 24)));
-      if (daysLate > 0) {
-        penaltyAmount = finalAmount * 0.01 * Math.min(daysLate, 30); // 1% per day, max 30%
-      }
+      // Late fee under the group's policy; a fee already charged is never reduced,
+      // and one settled by a penalty dispute stands. A member who kept to an
+      // installment plan isn't late.
+      const policy = buildLatePaymentPolicy(groupResult.data);
+      const lateFrom = lateSince(contribution, paidDate, currency);
+      const daysLate = lateFrom ? daysSince(lateFrom, paidDate) : 0;
+      const policyFee =
+        daysLate >= policy.fee_after_days
+          ? calculateLateFee(policy, daysLate, contribution.amount, currency)
+          : 0;
+      const penaltyAmount =
+        contribution.settled_late_fee !== undefined
+          ? contribution.settled_late_fee
+          : Math.max(contribution.late_penalty_amount || 0, policyFee);
+      await LedgerService.recordLateFee(contribution, penaltyAmount, adminId);
 
       // Update contribution status
       const updateResult = await DatabaseService.contributions.updateContribution(contributionId, {
         status: 'paid',
-        paid_date: now,
+        paid_date: paidDate,
         paid_amount: finalAmount,
         late_penalty_amount: penaltyAmount,
         confirmed_by: adminId,
         confirmation_type: confirmationType,
         confirmation_notes: notes,
+        ...(transactionReference ? { transaction_reference: transactionReference } : {}),
       });
 
-      if (!updateResult.success) {
+      if (!updateResult.success || !updateResult.data) {
         return {
           success: false,
           error: 'Failed to update contribution status',
@@ -168,6 +240,22 @@ class PaymentTrackingService {
         };
       }
 
+      await LedgerService.recordContribution(updateResult.data);
+
+      if (overpayment > 0) {
+        const credited = await WalletService.creditOverpayment(updateResult.data, overpayment, adminId);
+        if (credited.success) {
+          confirmation.walletCredit = overpayment;
+        }
+      }
+
+      // Receipts the member attached back this confirmation
+      const acceptedReceipts = await ReceiptService.acceptReceipts(contributionId, adminId);
+      if (acceptedReceipts.length > 0) {
+        confirmation.receiptUrl = receiptUrl || acceptedReceipts[0].url;
+        confirmation.confirmationMethod = params.confirmationMethod || 'receipt_upload';
+      }
+
       // Cancel payment reminders since payment is confirmed
       await PaymentReminderService.cancelReminders(contributionId);
 
@@ -177,7 +265,24 @@ class PaymentTrackingService {
       // Check if cycle can be processed (all payments collected)
       await this.checkCycleCompletion(contribution.group_id, contribution.cycle_number);
 
-      // Log the confirmation for audit
+      await AuditLogService.record({
+        groupId: contribution.group_id,
+        actorId: adminId,
+        category: 'payments',
+        action: 'payment_confirmed',
+        targetId: contributionId,
+        before: contribution,
+        after: {
+          status: 'paid',
+          paid_amount: finalAmount,
+          late_penalty_amount: penaltyAmount,
+          ...(transactionReference ? { transaction_reference: transactionReference } : {}),
+          ...(confirmation.walletCredit ? { wallet_credit: confirmation.walletCredit } : {}),
+        },
+        reason: notes,
+        metadata: { member_id: contribution.user_id, cycle: contribution.cycle_number, method: confirmation.confirmationMethod },
+      });
+
       console.log(`Payment confirmed: ${contributionId} by admin ${adminId}`);
 
       return {
@@ -194,6 +299,376 @@ class PaymentTrackingService {
     }
   }
 
+  /**
+   * Record a payment that covers part of a contribution. A payment that
+   * covers what is left confirms the contribution as paid.
+   * @param params.amount - Amount received; no more than the outstanding balance
+   * @returns The updated contribution and its outstanding balance
+   */
+  async recordPartialPayment(params: {
+    contributionId: string;
+    adminId: string;
+    amount: number;
+    confirmationType: PaymentConfirmation['confirmationType'];
+    paidDate?: Date;
+    transactionReference?: string;
+    notes?: string;
+  }): Promise<BusinessLogicResult<PartialPaymentResult>> {
+    try {
+      const { contributionId, adminId, amount, confirmationType, transactionReference, notes } = params;
+
+      const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+      if (!contributionResult.success || !contributionResult.data) {
+        return { success: false, error: 'Contribution not found', code: 'CONTRIBUTION_NOT_FOUND' };
+      }
+      const contribution = contributionResult.data;
+
+      const groupResult = await DatabaseService.groups.getGroupById(contribution.group_id);
+      if (!groupResult.success || !groupResult.data) {
+        return { success: false, error: 'Group not found', code: 'GROUP_NOT_FOUND' };
+      }
+      const currency = currencyOf(groupResult.data);
+
+      if (!hasGroupPermission(groupResult.data, adminId, 'canMarkPayments')) {
+        return { success: false, error: 'You do not have permission to record payments', code: 'PERMISSION_DENIED' };
+      }
+      if (contribution.status === 'paid' || contribution.status === 'cancelled') {
+        return { success: false, error: `This contribution is already ${contribution.status}`, code: 'ALREADY_CONFIRMED' };
+      }
+
+      const outstanding = outstandingBalance(contribution, currency);
+      const received = money(amount, currency).minorUnits;
+      if (!(received > 0)) {
+        return { success: false, error: 'Enter the amount received', code: 'INVALID_AMOUNT' };
+      }
+      if (received > money(outstanding, currency).minorUnits) {
+        return {
+          success: false,
+          error: `Only ${formatAmount(outstanding, currency)} is outstanding on this contribution`,
+          code: 'AMOUNT_EXCEEDS_BALANCE',
+        };
+      }
+
+      const now = getClock().now();
+      const payment: ContributionPayment = {
+        id: DatabaseService.contributions.generatePaymentId(),
+        amount,
+        paid_at: params.paidDate || now,
+        ...(confirmationType !== 'other' ? { method: confirmationType } : {}),
+        ...(transactionReference ? { reference: transactionReference } : {}),
+        recorded_by: adminId,
+        ...(notes ? { notes } : {}),
+        created_at: now,
+      };
+
+      // The last piece settles the contribution like any other confirmation
+      if (received === money(outstanding, currency).minorUnits) {
+        const confirmation = await this.confirmMemberPayment({
+          contributionId,
+          adminId,
+          confirmationType,
+          notes,
+          transactionReference,
+          paidDate: params.paidDate,
+        });
+        if (!confirmation.success) {
+          return { success: false, error: confirmation.error, code: confirmation.code };
+        }
+        const settled = await DatabaseService.contributions.getContributionById(contributionId);
+        return {
+          success: true,
+          data: { contribution: settled.data || contribution, payment, outstandingAmount: 0, completed: true },
+        };
+      }
+
+      const updateResult = await DatabaseService.contributions.recordPartialPayment(contributionId, payment);
+      if (!updateResult.success || !updateResult.data) {
+        return { success: false, error: updateResult.error || 'Failed to record payment', code: 'UPDATE_FAILED' };
+      }
+
+      await this.updateGroupPaymentStats(contribution.group_id, contribution.cycle_number);
+
+      await AuditLogService.record({
+        groupId: contribution.group_id,
+        actorId: adminId,
+        category: 'payments',
+        action: 'partial_payment_recorded',
+        targetId: contributionId,
+        before: { status: contribution.status, paid_amount: contribution.paid_amount || 0 },
+        after: { status: updateResult.data.status, paid_amount: updateResult.data.paid_amount },
+        reason: notes,
+        metadata: { member_id: contribution.user_id, cycle: contribution.cycle_number, amount },
+      });
+
+      return {
+        success: true,
+        data: {
+          contribution: updateResult.data,
+          payment,
+          outstandingAmount: outstandingBalance(updateResult.data, currency),
+          completed: false,
+        },
+      };
+    } catch (error) {
+      console.error('Error recording partial payment:', error);
+      return {
+        success: false,
+        error: 'Failed to record payment',
+        code: 'PARTIAL_PAYMENT_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Agree a schedule with a member for paying what is left of a contribution.
+   * The late payment monitor leaves them alone while they keep to it.
+   * @param params.installments - Amounts and due dates adding up to the outstanding balance
+   * @returns The agreed plan
+   */
+  async agreeInstallmentPlan(params: {
+    contributionId: string;
+    adminId: string;
+    installments: InstallmentPlan['installments'];
+    notes?: string;
+  }): Promise<BusinessLogicResult<InstallmentPlan>> {
+    try {
+      const { contributionId, adminId, notes } = params;
+
+      const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+      if (!contributionResult.success || !contributionResult.data) {
+        return { success: false, error: 'Contribution not found', code: 'CONTRIBUTION_NOT_FOUND' };
+      }
+      const contribution = contributionResult.data;
+
+      const groupResult = await DatabaseService.groups.getGroupById(contribution.group_id);
+      if (!groupResult.success || !groupResult.data) {
+        return { success: false, error: 'Group not found', code: 'GROUP_NOT_FOUND' };
+      }
+      const group = groupResult.data;
+      const currency = currencyOf(group);
+
+      if (!hasGroupPermission(group, adminId, 'canMarkPayments')) {
+        return { success: false, error: 'You do not have permission to agree installment plans', code: 'PERMISSION_DENIED' };
+      }
+      if (contribution.status === 'paid' || contribution.status === 'cancelled') {
+        return { success: false, error: `This contribution is already ${contribution.status}`, code: 'ALREADY_CONFIRMED' };
+      }
+
+      const now = getClock().now();
+      const installments = [...params.installments]
+        .map(installment => ({ amount: installment.amount, due_date: new Date(installment.due_date) }))
+        .sort((a, b) => a.due_date.getTime() - b.due_date.getTime());
+      const errors = validateInstallments(installments, outstandingBalance(contribution, currency), now, currency);
+      if (errors.length > 0) {
+        return { success: false, error: errors.join('. '), code: 'INVALID_PLAN' };
+      }
+
+      const plan: InstallmentPlan = {
+        installments,
+        paid_before_plan: contribution.paid_amount && contribution.status === 'partially_paid' ? contribution.paid_amount : 0,
+        agreed_by: adminId,
+        agreed_at: now,
+        ...(notes ? { notes } : {}),
+      };
+      const updateResult = await DatabaseService.contributions.setInstallmentPlan(contributionId, plan);
+      if (!updateResult.success) {
+        return { success: false, error: updateResult.error || 'Failed to save plan', code: 'UPDATE_FAILED' };
+      }
+
+      await AuditLogService.record({
+        groupId: contribution.group_id,
+        actorId: adminId,
+        category: 'payments',
+        action: 'installment_plan_agreed',
+        targetId: contributionId,
+        before: contribution.installment_plan ? { installments: contribution.installment_plan.installments } : undefined,
+        after: { installments },
+        reason: notes,
+        metadata: { member_id: contribution.user_id, cycle: contribution.cycle_number },
+      });
+
+      try {
+        const memberResult = await DatabaseService.users.getUserById(contribution.user_id);
+        await NotificationService.sendToUser({
+          templateId: 'installment_plan_agreed',
+          userId: contribution.user_id,
+          groupId: group.id,
+          data: {
+            memberName: memberResult.data?.name || 'there',
+            groupName: group.name,
+            amount: installments[0].amount,
+            dueDate: installments[0].due_date,
+            currency,
+          },
+        });
+      } catch (error) {
+        console.error('Error sending installment plan notification:', error);
+      }
+
+      return { success: true, data: plan };
+    } catch (error) {
+      console.error('Error agreeing installment plan:', error);
+      return {
+        success: false,
+        error: 'Failed to agree installment plan',
+        code: 'INSTALLMENT_PLAN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Give a member more time to pay a contribution. Counted from the current due
+   * date, or from today when that has passed; an overdue contribution is no
+   * longer late until the new date.
+   * @param params.days - Days to add, 1 to 30
+   * @returns The contribution with its new due date
+   */
+  async grantExtension(params: {
+    contributionId: string;
+    adminId: string;
+    days: number;
+    notes?: string;
+  }): Promise<BusinessLogicResult<Contribution>> {
+    try {
+      const { contributionId, adminId, days, notes } = params;
+
+      if (!Number.isInteger(days) || days < 1 || days > MAX_EXTENSION_DAYS) {
+        return { success: false, error: `Extensions must be 1 to ${MAX_EXTENSION_DAYS} days`, code: 'INVALID_EXTENSION' };
+      }
+
+      const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+      if (!contributionResult.success || !contributionResult.data) {
+        return { success: false, error: 'Contribution not found', code: 'CONTRIBUTION_NOT_FOUND' };
+      }
+      const contribution = contributionResult.data;
+
+      const groupResult = await DatabaseService.groups.getGroupById(contribution.group_id);
+      if (!groupResult.success || !groupResult.data) {
+        return { success: false, error: 'Group not found', code: 'GROUP_NOT_FOUND' };
+      }
+      const group = groupResult.data;
+
+      if (!hasGroupPermission(group, adminId, 'canMarkPayments')) {
+        return { success: false, error: 'You do not have permission to extend due dates', code: 'PERMISSION_DENIED' };
+      }
+      if (contribution.status === 'paid' || contribution.status === 'cancelled') {
+        return { success: false, error: `This contribution is already ${contribution.status}`, code: 'ALREADY_CONFIRMED' };
+      }
+
+      const now = getClock().now();
+      const previousDueDate = new Date(contribution.due_date);
+      const dueDate = new Date(Math.max(previousDueDate.getTime(), now.getTime()) + days * DAY_MS);
+
+      const updateResult = await DatabaseService.contributions.updateContribution(contributionId, {
+        due_date: dueDate,
+        original_due_date: contribution.original_due_date || previousDueDate,
+        is_late: false,
+        ...(contribution.status === 'overdue'
+          ? { status: contribution.paid_amount ? ('partially_paid' as const) : ('pending' as const) }
+          : {}),
+      });
+      if (!updateResult.success || !updateResult.data) {
+        return { success: false, error: updateResult.error || 'Failed to extend due date', code: 'UPDATE_FAILED' };
+      }
+
+      await AuditLogService.record({
+        groupId: contribution.group_id,
+        actorId: adminId,
+        category: 'payments',
+        action: 'due_date_extended',
+        targetId: contributionId,
+        before: { due_date: previousDueDate, status: contribution.status },
+        after: { due_date: dueDate, status: updateResult.data.status },
+        reason: notes,
+        metadata: { member_id: contribution.user_id, cycle: contribution.cycle_number, days },
+      });
+
+      try {
+        const memberResult = await DatabaseService.users.getUserById(contribution.user_id);
+        const currency = currencyOf(group);
+        await NotificationService.sendToUser({
+          templateId: 'payment_extension_granted',
+          userId: contribution.user_id,
+          groupId: group.id,
+          data: {
+            memberName: memberResult.data?.name || 'there',
+            groupName: group.name,
+            amount: outstandingBalance(contribution, currency),
+            dueDate,
+            currency,
+          },
+          refs: { contributionId },
+        });
+      } catch (error) {
+        console.error('Error sending extension notification:', error);
+      }
+
+      return { success: true, data: updateResult.data };
+    } catch (error) {
+      console.error('Error granting extension:', error);
+      return {
+        success: false,
+        error: 'Failed to extend due date',
+        code: 'EXTENSION_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Let the group admin know a member is struggling to pay a contribution,
+   * so they can reach out or grant an extension
+   * @param params.memberId - The member the contribution belongs to
+   * @returns Whether the admin was notified
+   */
+  async requestPaymentHelp(params: {
+    contributionId: string;
+    memberId: string;
+  }): Promise<BusinessLogicResult<boolean>> {
+    try {
+      const { contributionId, memberId } = params;
+
+      const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+      if (!contributionResult.success || !contributionResult.data) {
+        return { success: false, error: 'Contribution not found', code: 'CONTRIBUTION_NOT_FOUND' };
+      }
+      const contribution = contributionResult.data;
+      if (contribution.user_id !== memberId) {
+        return { success: false, error: 'You can only ask for help with your own contributions', code: 'PERMISSION_DENIED' };
+      }
+      if (contribution.status === 'paid' || contribution.status === 'cancelled') {
+        return { success: false, error: `This contribution is already ${contribution.status}`, code: 'ALREADY_CONFIRMED' };
+      }
+
+      const groupResult = await DatabaseService.groups.getGroupById(contribution.group_id);
+      if (!groupResult.success || !groupResult.data) {
+        return { success: false, error: 'Group not found', code: 'GROUP_NOT_FOUND' };
+      }
+      const group = groupResult.data;
+
+      const memberResult = await DatabaseService.users.getUserById(memberId);
+      const sent = await NotificationService.sendToUser({
+        templateId: 'admin_member_needs_help',
+        userId: group.admin_id,
+        groupId: group.id,
+        data: {
+          memberName: memberResult.data?.name || 'A member',
+          groupName: group.name,
+          daysLate: daysSince(contribution.due_date, getClock().now()),
+        },
+        refs: { contributionId, memberId },
+      });
+
+      return { success: true, data: sent };
+    } catch (error) {
+      console.error('Error requesting payment help:', error);
+      return {
+        success: false,
+        error: 'Failed to contact the group admin',
+        code: 'PAYMENT_HELP_ERROR',
+      };
+    }
+  }
+
   /**
    * Get payment progress for a group and cycle
    * @param groupId - Group ID
@@ -219,8 +694,9 @@ class PaymentTrackingService {
       const paymentStatus = paymentStatusResult.data;
 
       // Get turn order to find next recipient
+      const group = await this.getGroupData(groupId);
       const turnOrderResult = await BusinessLogicService.calculateTurnOrder({
-        group: await this.getGroupData(groupId),
+        group,
         members: await this.getGroupMembers(groupId),
         currentCycle: cycle,
       });
@@ -244,8 +720,10 @@ class PaymentTrackingService {
         paidMembers: paymentStatus.paidMembers,
         pendingMembers: paymentStatus.pendingMembers,
         overdueMembers: paymentStatus.overdueMembers,
+        partiallyPaidMembers: paymentStatus.partiallyPaidMembers,
         totalExpected: paymentStatus.totalExpected,
         totalCollected: paymentStatus.totalCollected,
+        currency: currencyOf(group),
         completionPercentage: paymentStatus.completionRate,
         canProcessCycle: paymentStatus.completionRate >= 100,
         nextRecipient: nextRecipient,
@@ -274,12 +752,13 @@ class PaymentTrackingService {
   async getMemberPaymentHistory(memberId: string, groupId: string): Promise<BusinessLogicResult<PaymentHistoryItem[]>> {
     try {
       // Get member's contributions for this group
-      const contributionsResult = await DatabaseService.contributions.getUserContributions(
-        memberId,
-        { group_id: groupId }
-      );
+      const [groupResult, contributionsResult] = await Promise.all([
+        DatabaseService.groups.getGroupById(groupId),
+        DatabaseService.contributions.getUserContributions(memberId, { group_id: groupId }),
+      ]);
+      const currency = currencyOf(groupResult.data);
 
-      if (!contributionsResult.success) {
+      if (!contributionsResult.success || !contributionsResult.data) {
         return {
           success: false,
           error: 'Failed to fetch payment history',
@@ -302,7 +781,8 @@ class PaymentTrackingService {
           memberName: `User ${contribution.user_id}`, // Would fetch actual name
           cycle: contribution.cycle_number,
           amount: contribution.amount,
-          status: contribution.status as 'paid' | 'pending' | 'overdue' | 'cancelled',
+          currency,
+          status: contribution.status,
           dueDate: contribution.due_date,
           paidDate: contribution.paid_date || undefined,
           confirmedBy: contribution.confirmed_by || undefined,
@@ -310,6 +790,7 @@ class PaymentTrackingService {
           confirmationType: contribution.confirmation_type || undefined,
           lateDays: daysLate > 0 ? daysLate : undefined,
           penaltyAmount: contribution.late_penalty_amount || undefined,
+          paidAmount: contribution.status === 'partially_paid' ? contribution.paid_amount : undefined,
         };
       });
 
@@ -343,9 +824,13 @@ class PaymentTrackingService {
     toCycle?: number
   ): Promise<BusinessLogicResult<PaymentHistoryItem[]>> {
     try {
-      const contributionsResult = await DatabaseService.contributions.getGroupContributions(groupId);
+      const [groupResult, contributionsResult] = await Promise.all([
+        DatabaseService.groups.getGroupById(groupId),
+        DatabaseService.contributions.getGroupContributions(groupId),
+      ]);
+      const currency = currencyOf(groupResult.data);
       
-      if (!contributionsResult.success) {
+      if (!contributionsResult.success || !contributionsResult.data) {
         return {
           success: false,
           error: 'Failed to fetch group payment history',
@@ -376,7 +861,8 @@ class PaymentTrackingService {
           memberName: `User ${contribution.user_id}`,
           cycle: contribution.cycle_number,
           amount: contribution.amount,
-          status: contribution.status as 'paid' | 'pending' | 'overdue' | 'cancelled',
+          currency,
+          status: contribution.status,
           dueDate: contribution.due_date,
           paidDate: contribution.paid_date || undefined,
           confirmedBy: contribution.confirmed_by || undefined,
@@ -384,6 +870,7 @@ class PaymentTrackingService {
           confirmationType: contribution.confirmation_type || undefined,
           lateDays: daysLate > 0 ? daysLate : undefined,
           penaltyAmount: contribution.late_penalty_amount || undefined,
+          paidAmount: contribution.status === 'partially_paid' ? contribution.paid_amount : undefined,
         };
       });
 
@@ -443,41 +930,65 @@ class PaymentTrackingService {
         };
       }
 
-      const now = new Date();
-      const daysLate = Math.ceil((now.getTime() - new Date(contribution.due_date).getTime()) / (1000 * 60 * 60 * 24));
+      // Count lateness the way the monitor does: members keeping to an installment
+      // plan aren't late, and once behind, from the first installment they missed
+      const now = getClock().now();
+      const currency = currencyOf(groupResult.data);
+      const lateFrom = lateSince(contribution, now, currency);
+      const daysLate = lateFrom ? daysSince(lateFrom, now) : 0;
 
       let actionTaken = '';
-      
+      const contributionUpdates: Partial<Contribution> = {
+        last_late_action_type: action,
+        last_late_action_at: now,
+      };
+
       switch (action) {
         case 'warning':
           actionTaken = `Warning sent for ${daysLate} days late payment`;
-          // Would send notification to member
+          contributionUpdates.late_warnings_sent = (contribution.late_warnings_sent || 0) + 1;
           break;
-        case 'penalty':
-          const penaltyAmount = contribution.amount * 0.05; // 5% penalty
-          actionTaken = `Penalty applied: ${penaltyAmount}`;
-          // Update contribution with penalty
-          await DatabaseService.contributions.updateContribution(contributionId, {
-            late_penalty_amount: penaltyAmount,
-          });
+        case 'penalty': {
+          // Fee comes from the group's late payment policy, capped by any dispute settled on it
+          const policy = buildLatePaymentPolicy(groupResult.data);
+          const policyFee = calculateLateFee(policy, daysLate, contribution.amount, currency);
+          const penaltyAmount =
+            contribution.settled_late_fee !== undefined ? Math.min(policyFee, contribution.settled_late_fee) : policyFee;
+          // The fee is owed only once the ledger has it
+          const feeResult = await LedgerService.recordLateFee(contribution, penaltyAmount, adminId);
+          if (!feeResult.success) {
+            return {
+              success: false,
+              error: feeResult.error || 'Failed to record late fee',
+              code: feeResult.code || 'LEDGER_ERROR',
+            };
+          }
+          actionTaken = `Penalty applied: ${formatAmount(penaltyAmount, currency)}`;
+          contributionUpdates.late_penalty_amount = penaltyAmount;
+          contributionUpdates.is_late = true;
           break;
+        }
         case 'suspension':
-          actionTaken = `Member suspended for late payment`;
-          // Update member status
+        case 'removal': {
           const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(
-            contribution.user_id, 
+            contribution.user_id,
             contribution.group_id
           );
           if (memberResult.success && memberResult.data) {
-            await DatabaseService.groupMembers.updateMemberStatus(memberResult.data.id, 'suspended');
+            if (action === 'suspension') {
+              actionTaken = `Member suspended for late payment`;
+              await DatabaseService.groupMembers.updateMemberStatus(memberResult.data.id, 'suspended');
+            } else {
+              actionTaken = `Member removed for chronic late payments`;
+              await DatabaseService.groupMembers.removeMember(memberResult.data.id, adminId);
+            }
           }
           break;
-        case 'removal':
-          actionTaken = `Member removed for chronic late payments`;
-          // This would require more complex logic to handle ongoing cycles
-          break;
+        }
       }
 
+      await DatabaseService.contributions.updateContribution(contributionId, contributionUpdates);
+
       const latePaymentAction: LatePaymentAction = {
         type: action,
         memberId: contribution.user_id,
@@ -490,7 +1001,18 @@ class PaymentTrackingService {
         notes: notes,
       };
 
-      // Log the action
+      await AuditLogService.record({
+        groupId: contribution.group_id,
+        actorId: adminId,
+        category: action === 'penalty' || action === 'warning' ? 'penalties' : 'members',
+        action: `late_payment_${action}`,
+        targetId: contribution.user_id,
+        before: contribution,
+        after: contributionUpdates,
+        reason: notes || actionTaken,
+        metadata: { contribution_id: contributionId, cycle: contribution.cycle_number, days_late: daysLate },
+      });
+
       console.log(`Late payment action taken:`, latePaymentAction);
 
       return {
@@ -592,12 +1114,10 @@ class PaymentTrackingService {
    */
   async getPendingConfirmations(adminId: string): Promise<BusinessLogicResult<MemberPaymentStatus[]>> {
     try {
-      // Get groups where user is admin
-      const adminGroupsResult = await DatabaseService.groupMembers.getUserMemberships(adminId, {
-        role: 'admin',
-      });
+      // Get groups where user confirms payments (admins and delegates)
+      const adminGroupsResult = await DatabaseService.groupMembers.getUserMemberships(adminId);
 
-      if (!adminGroupsResult.success) {
+      if (!adminGroupsResult.success || !adminGroupsResult.data) {
         return {
           success: false,
           error: 'Failed to fetch admin groups',
@@ -611,7 +1131,7 @@ class PaymentTrackingService {
       // Get pending payments for each admin group
       for (const membership of adminGroups) {
         const groupResult = await DatabaseService.groups.getGroupById(membership.group_id);
-        if (groupResult.success && groupResult.data) {
+        if (groupResult.success && groupResult.data && hasGroupPermission(groupResult.data, adminId, 'canMarkPayments')) {
           const group = groupResult.data;
           
           const paymentStatusResult = await BusinessLogicService.checkPaymentStatus({
@@ -621,7 +1141,7 @@ class PaymentTrackingService {
 
           if (paymentStatusResult.success && paymentStatusResult.data) {
             const pendingPayments = paymentStatusResult.data.membersStatus.filter(
-              member => member.status === 'pending' || member.status === 'overdue'
+              member => member.status === 'pending' || member.status === 'partially_paid' || member.status === 'overdue'
             );
             allPendingPayments.push(...pendingPayments);
           }
@@ -649,6 +1169,88 @@ class PaymentTrackingService {
     }
   }
 
+  /**
+   * Release a scheduled payout so the cycle processor pays it out.
+   * Groups can require other members to sign off first.
+   * @param params.approvedActionId - Set when running an approved request
+   * @returns The released payout
+   */
+  async releasePayout(params: {
+    adminId: string;
+    payoutId: string;
+    notes?: string;
+    approvedActionId?: string;
+  }): Promise<BusinessLogicResult<Payout>> {
+    try {
+      const { adminId, payoutId, notes, approvedActionId } = params;
+
+      const payoutResult = await DatabaseService.payouts.getPayoutById(payoutId);
+      if (!payoutResult.success || !payoutResult.data) {
+        return { success: false, error: 'Payout not found', code: 'PAYOUT_NOT_FOUND' };
+      }
+      const payout = payoutResult.data;
+
+      const group = await this.getGroupData(payout.group_id);
+      if (!group || !hasGroupPermission(group, adminId, 'canManageCycles')) {
+        return {
+          success: false,
+          error: 'Insufficient permissions to release payouts',
+          code: 'INSUFFICIENT_PERMISSIONS',
+        };
+      }
+
+      if (payout.status !== 'scheduled' || payout.approved_by_admin) {
+        return { success: false, error: 'This payout has already been released', code: 'PAYOUT_NOT_RELEASABLE' };
+      }
+
+      const recipientResult = await DatabaseService.users.getUserById(payout.recipient_id);
+      const approval = await ApprovalService.requireApproval<Payout>({
+        groupId: payout.group_id,
+        requestedBy: adminId,
+        type: 'release_payout',
+        params: { payoutId, notes },
+        summary: `release the ${formatAmount(payout.amount, currencyOf(group))} payout to ${recipientResult.data?.name || 'a member'}`,
+        approvedActionId,
+      });
+      if (approval) {
+        return approval;
+      }
+
+      const approveResult = await DatabaseService.payouts.approvePayout(payoutId, adminId, notes, approvedActionId);
+      if (!approveResult.success || !approveResult.data) {
+        return { success: false, error: 'Failed to release payout', code: 'RELEASE_PAYOUT_ERROR' };
+      }
+
+      await AuditLogService.record({
+        groupId: payout.group_id,
+        actorId: adminId,
+        category: 'payouts',
+        action: 'payout_released',
+        targetId: payoutId,
+        before: { status: payout.status, approved_by_admin: payout.approved_by_admin || false },
+        after: { status: 'approved', approved_by_admin: true },
+        reason: notes,
+        metadata: {
+          recipient_id: payout.recipient_id,
+          amount: payout.amount,
+          cycle: payout.cycle_number,
+          ...(approvedActionId ? { approved_action_id: approvedActionId } : {}),
+        },
+      });
+
+      console.log(`✅ Payout ${payoutId} released by ${adminId}`);
+
+      return { success: true, data: approveResult.data };
+    } catch (error) {
+      console.error('Error releasing payout:', error);
+      return {
+        success: false,
+        error: 'Failed to release payout',
+        code: 'RELEASE_PAYOUT_ERROR',
+      };
+    }
+  }
+
   // Helper methods
 
   private async updateGroupPaymentStats(groupId: string, cycle: number): Promise<void> {
@@ -677,19 +1279,15 @@ class PaymentTrackingService {
         if (progress.canProcessCycle && progress.completionPercentage === 100) {
           console.log(`Cycle ${cycle} complete for group ${groupId}. Scheduling automatic turn rotation.`);
           
-          // Use the scheduler service for better reliability and retry logic
+          // The rotation runs as a persisted job, so it survives restarts and runs once
           const scheduleResult = await TurnRotationScheduler.scheduleAutomaticRotation({
             groupId,
             cycle,
             delayMinutes: 5, // 5-minute delay to allow for any final updates
           });
           
-          if (!scheduleResult.success) {
+          if (!scheduleResult.success && scheduleResult.code !== 'ALREADY_SCHEDULED') {
             console.error('Failed to schedule automatic turn rotation:', scheduleResult.error);
-            // Fallback to immediate processing if scheduling fails
-            setTimeout(() => {
-              this.processAutomaticTurnRotation(groupId, cycle);
-            }, 5000);
           }
         }
       }
@@ -705,7 +1303,7 @@ class PaymentTrackingService {
 
   private async getGroupMembers(groupId: string): Promise<any[]> {
     const result = await DatabaseService.groupMembers.getGroupMembers(groupId);
-    return result.success ? result.data.items : [];
+    return result.data ? result.data.items : [];
   }
 }
 
@@ -0,0 +1,93 @@
+import { PayoutShortfallDecision } from '../../types/business';
+import { Contribution, Group, PayoutShortfallPolicy, PayoutShortfallRule } from '../../types/database';
+import { CurrencyCode, formatAmount, localeFor, money, subtractMoney, sumMoney, toMajor } from '../../utils/money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_PAYOUT_DELAY_DAYS = 30;
+
+const RULES: PayoutShortfallRule[] = ['full_only', 'pay_collected', 'advance_from_reserve', 'delay'];
+
+/**
+ * What groups did before the rule was configurable: the collected portion is
+ * paid out once enough members have paid
+ */
+export const DEFAULT_PAYOUT_SHORTFALL_POLICY: PayoutShortfallPolicy = { rule: 'pay_collected' };
+
+export const buildPayoutShortfallPolicy = (group: Pick<Group, 'payout_shortfall_policy'>): PayoutShortfallPolicy =>
+  group.payout_shortfall_policy || DEFAULT_PAYOUT_SHORTFALL_POLICY;
+
+/**
+ * Check a policy before it is stored on a group
+ * @returns List of validation errors (empty when valid)
+ */
+export const validatePayoutShortfallPolicy = (policy: PayoutShortfallPolicy): string[] => {
+  const errors: string[] = [];
+  if (!RULES.includes(policy.rule)) {
+    errors.push('Unknown payout shortfall rule');
+  }
+  if (policy.rule === 'delay') {
+    const days = policy.delay_days;
+    if (days === undefined || !Number.isInteger(days) || days < 1 || days > MAX_PAYOUT_DELAY_DAYS) {
+      errors.push(`Payout delay must be between 1 and ${MAX_PAYOUT_DELAY_DAYS} days`);
+    }
+  }
+  return errors;
+};
+
+/**
+ * What a cycle would collect if everyone paid, and what has been paid in full
+ * so far. Only settled contributions count, as only they are paid out.
+ */
+export const summarizeCycleCollection = (
+  contributions: Contribution[],
+  currency: CurrencyCode
+): { expected: number; collected: number } => {
+  const due = contributions.filter(contribution => contribution.status !== 'cancelled');
+  const expected = sumMoney(due.map(contribution => money(contribution.amount, currency)), currency);
+  const collected = sumMoney(
+    due
+      .filter(contribution => contribution.status === 'paid')
+      .map(contribution => money(Math.min(contribution.paid_amount ?? contribution.amount, contribution.amount), currency)),
+    currency
+  );
+  return { expected: toMajor(expected), collected: toMajor(collected) };
+};
+
+/**
+ * Decide whether a cycle's payout can go ahead with what has been collected.
+ * Once it goes ahead any shortfall is recorded on the payout as owed to the
+ * recipient.
+ */
+export const evaluatePayoutShortfall = (
+  policy: PayoutShortfallPolicy,
+  state: { expected: number; collected: number; cycleEndDate: Date; now: Date; currency: CurrencyCode }
+): PayoutShortfallDecision => {
+  const { expected, collected, cycleEndDate, now, currency } = state;
+  const shortfall = Math.max(0, toMajor(subtractMoney(money(expected, currency), money(collected, currency))));
+  if (shortfall === 0) {
+    return { release: true, shortfall, notes: 'Every member has paid in full.' };
+  }
+
+  const missing = `${formatAmount(shortfall, currency)} of ${formatAmount(expected, currency)} has not been collected.`;
+  switch (policy.rule) {
+    case 'full_only':
+      return { release: false, shortfall, notes: `${missing} The payout waits until every member has paid.` };
+    case 'delay': {
+      const heldUntil = new Date(new Date(cycleEndDate).getTime() + (policy.delay_days || 0) * DAY_MS);
+      if (now < heldUntil) {
+        return {
+          release: false,
+          shortfall,
+          heldUntil,
+          notes: `${missing} The payout waits until ${heldUntil.toLocaleDateString(localeFor(currency))}.`,
+        };
+      }
+      return { release: true, shortfall, heldUntil, notes: `${missing} The delay has passed; the rest is owed to the recipient.` };
+    }
+    case 'advance_from_reserve':
+      return { release: true, shortfall, notes: `${missing} An admin can advance the rest from the reserve fund.` };
+    default:
+      return { release: true, shortfall, notes: `${missing} The rest is owed to the recipient.` };
+  }
+};
@@ -0,0 +1,577 @@
+import { BusinessLogicResult, PaymentError, PayoutError } from '../../types/business';
+import DatabaseService, { CurrencyCode, Group, LEDGER_ACCOUNTS, Payout, PayoutAccount } from '../database';
+import { credit, debit } from '../database/ledger';
+import PaymentService from '../payments';
+import PayoutNotificationService, { PayoutNotificationData } from '../notifications/payoutNotifications';
+import { getClock } from '../jobs/clock';
+import AuditLogService, { SYSTEM_ACTOR } from './auditLog';
+import LedgerService from './ledger';
+import { buildPayoutShortfallPolicy } from './payoutShortfallPolicy';
+import { hasGroupPermission } from '../../utils/permissions';
+import { currencyOf, formatAmount, minMoney, money, toMajor } from '../../utils/money';
+
+const nameParts = (name: string): string[] =>
+  name
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(part => part.length > 1);
+
+/**
+ * Whether the name a provider has for an account belongs to the member. Banks
+ * order names differently and often add a middle name, so every part of the
+ * shorter name must appear in the longer one, in any order.
+ */
+export const namesMatch = (memberName: string, accountName: string): boolean => {
+  const [shorter, longer] = [nameParts(memberName), nameParts(accountName)].sort((a, b) => a.length - b.length);
+  return shorter.length > 0 && shorter.every(part => longer.includes(part));
+};
+
+/**
+ * Sends payouts to recipients.
+ *
+ * Members register the bank account or mobile money wallet they want to be paid
+ * into; it is looked up with the payment provider and only saved when the name
+ * on it matches theirs. A payout then moves scheduled -> approved (released by
+ * an admin, see PaymentTrackingService.releasePayout) -> sending (claimed by
+ * the admin sending it, so the transfer is only asked for once) -> sent (the
+ * provider accepted the transfer and the money left the pot) -> confirmed (the
+ * recipient says it arrived). A transfer the provider turns down leaves the
+ * payout failed until an admin retries it.
+ *
+ * When a cycle pays out before every member has paid, the payout records what a
+ * full cycle would have paid and the shortfall still owed to the recipient (see
+ * the group's PayoutShortfallPolicy). Groups on the advance_from_reserve rule
+ * keep a reserve fund an admin can cover the shortfall from before sending.
+ */
+class PayoutService {
+  /**
+   * Verify and save an account for the member's payouts; it becomes their default
+   * @param params.accountNumber - Bank account number, or the mobile money phone number
+   * @param params.currency - Currency the account is held in
+   * @returns The saved account, with the name the provider has for it
+   */
+  async registerPayoutAccount(params: {
+    userId: string;
+    method: PayoutAccount['method'];
+    accountNumber: string;
+    bankCode?: string;
+    bankName?: string;
+    mobileProvider?: string;
+    currency: CurrencyCode;
+  }): Promise<BusinessLogicResult<PayoutAccount>> {
+    try {
+      const { userId, method, bankCode, bankName, mobileProvider, currency } = params;
+      const accountNumber = params.accountNumber.replace(/\s+/g, '');
+      if (!accountNumber) {
+        throw new PayoutError('Enter the account number');
+      }
+      if (method === 'bank_transfer' && !bankCode) {
+        throw new PayoutError('Choose the bank the account is with');
+      }
+
+      const userResult = await DatabaseService.users.getUserById(userId);
+      if (!userResult.success || !userResult.data) {
+        throw new PayoutError('User not found');
+      }
+
+      const provider = PaymentService.getProviderForMethod(method);
+      if (!provider.resolveAccount) {
+        throw new PayoutError(`${provider.id} cannot verify payout accounts`);
+      }
+      const lookup = await provider.resolveAccount({ method, accountNumber, bankCode, mobileProvider, currency });
+      if (!namesMatch(userResult.data.name, lookup.accountName)) {
+        throw new PayoutError(`This account belongs to ${lookup.accountName}, not ${userResult.data.name}`);
+      }
+
+      const result = await DatabaseService.payoutAccounts.addAccount({
+        user_id: userId,
+        method,
+        account_number: lookup.accountNumber || accountNumber,
+        ...(bankCode ? { bank_code: bankCode } : {}),
+        ...(bankName || lookup.bankName ? { bank_name: bankName || lookup.bankName } : {}),
+        ...(mobileProvider ? { mobile_provider: mobileProvider } : {}),
+        account_name: lookup.accountName,
+        provider: provider.id,
+        verified_at: getClock().now(),
+      });
+      if (!result.success || !result.data) {
+        throw new PayoutError(result.error || 'Failed to save payout account');
+      }
+
+      return { success: true, data: result.data };
+    } catch (error) {
+      console.error('Error registering payout account:', error);
+      return {
+        success: false,
+        error: error instanceof PayoutError || error instanceof PaymentError ? error.message : 'Failed to register payout account',
+        code: error instanceof PayoutError || error instanceof PaymentError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * A member's payout accounts, the default first
+   */
+  async getPayoutAccounts(userId: string): Promise<BusinessLogicResult<PayoutAccount[]>> {
+    const result = await DatabaseService.payoutAccounts.getUserAccounts(userId);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to load payout accounts', code: 'FETCH_ERROR' };
+    }
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Remove one of a member's payout accounts
+   */
+  async removePayoutAccount(params: { userId: string; accountId: string }): Promise<BusinessLogicResult<boolean>> {
+    const result = await DatabaseService.payoutAccounts.removeAccount(params.userId, params.accountId);
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to remove payout account', code: 'REMOVE_ERROR' };
+    }
+    return { success: true, data: true };
+  }
+
+  /**
+   * Send an approved payout to the recipient's default payout account
+   * @param params.adminId - Needs permission to manage cycles
+   * @returns The sent payout; a transfer the provider turns down leaves it failed
+   */
+  async sendPayout(params: { payoutId: string; adminId: string }): Promise<BusinessLogicResult<Payout>> {
+    try {
+      const { payoutId, adminId } = params;
+      const { payout, group } = await this.loadPayout(payoutId);
+      if (!hasGroupPermission(group, adminId, 'canManageCycles')) {
+        throw new PayoutError('You do not have permission to send payouts');
+      }
+      if (payout.status === 'scheduled') {
+        throw new PayoutError('This payout has to be released before it can be sent');
+      }
+      if (payout.status !== 'approved') {
+        throw new PayoutError(`This payout is already ${payout.status}`);
+      }
+
+      const accountResult = await DatabaseService.payoutAccounts.getDefaultAccount(payout.recipient_id);
+      const account = accountResult.data;
+      if (!account) {
+        throw new PayoutError('The recipient has not added a verified payout account yet');
+      }
+
+      const currency = currencyOf(group);
+      const provider = PaymentService.getProviderForMethod(account.method);
+      if (!provider.sendTransfer) {
+        throw new PayoutError(`${provider.id} cannot send payouts`);
+      }
+
+      // Another admin may be sending it at the same moment
+      const claimResult = await DatabaseService.payouts.markAsSending(payoutId);
+      if (!claimResult.success || !claimResult.data) {
+        throw new PayoutError(
+          claimResult.code === 'invalid-status' ? 'This payout is already being sent' : claimResult.error || 'Failed to send payout',
+        );
+      }
+
+      let transfer;
+      try {
+        transfer = await provider.sendTransfer({
+          reference: payout.id,
+          amount: payout.net_amount,
+          currency,
+          destination: {
+            method: account.method,
+            accountNumber: account.account_number,
+            bankCode: account.bank_code,
+            mobileProvider: account.mobile_provider,
+            accountName: account.account_name,
+          },
+          reason: `${group.name} cycle ${payout.cycle_number} payout`,
+        });
+      } catch (error) {
+        transfer = { transferId: '', status: 'failed' as const, failureReason: error instanceof Error ? error.message : undefined };
+      }
+
+      if (transfer.status === 'failed') {
+        const failureReason = transfer.failureReason || 'The transfer was declined';
+        const failed = await DatabaseService.payouts.markAsFailed(payoutId, failureReason);
+        if (failed.success && failed.data) {
+          await this.recordTransition(adminId, payout, failed.data, 'payout_failed', failureReason);
+          await PayoutNotificationService.notifyPayoutFailed({
+            ...(await this.notificationData(failed.data, group, account)),
+            reason: failureReason,
+          });
+        }
+        throw new PayoutError(`The transfer failed: ${failureReason}`);
+      }
+
+      const sentResult = await DatabaseService.payouts.markAsSent(payoutId, {
+        payout_method: account.method,
+        payout_account_id: account.id,
+        provider: provider.id,
+        ...(account.method === 'bank_transfer'
+          ? {
+              bank_details: {
+                account_number: account.account_number,
+                bank_name: account.bank_name || '',
+                account_name: account.account_name,
+              },
+            }
+          : {
+              mobile_money_details: {
+                provider: account.mobile_provider || '',
+                phone_number: account.account_number,
+                account_name: account.account_name,
+              },
+            }),
+        transaction_reference: payout.id,
+        external_transaction_id: transfer.transferId,
+        sent_date: getClock().now(),
+      }, adminId);
+      if (!sentResult.success || !sentResult.data) {
+        // The provider has the money on its way; don't let it be sent again
+        console.error(`Payout ${payoutId} was sent as ${transfer.transferId} but could not be saved:`, sentResult.error);
+        throw new PayoutError('The payout was sent but could not be saved', { transferId: transfer.transferId });
+      }
+
+      await this.recordTransition(adminId, payout, sentResult.data, 'payout_sent');
+      await PayoutNotificationService.notifyPayoutProcessing(await this.notificationData(sentResult.data, group, account));
+
+      return { success: true, data: sentResult.data };
+    } catch (error) {
+      console.error('Error sending payout:', error);
+      return {
+        success: false,
+        error: error instanceof PayoutError || error instanceof PaymentError ? error.message : 'Failed to send payout',
+        code: error instanceof PayoutError || error instanceof PaymentError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Try a failed payout again
+   * @returns The payout as it stands after the new attempt
+   */
+  async retryPayout(params: { payoutId: string; adminId: string }): Promise<BusinessLogicResult<Payout>> {
+    try {
+      const { payoutId, adminId } = params;
+      const { group } = await this.loadPayout(payoutId);
+      if (!hasGroupPermission(group, adminId, 'canManageCycles')) {
+        throw new PayoutError('You do not have permission to send payouts');
+      }
+
+      const retryResult = await DatabaseService.payouts.markForRetry(payoutId);
+      if (!retryResult.success) {
+        throw new PayoutError(
+          retryResult.code === 'retries-exhausted'
+            ? 'This payout has failed too many times; check the account with the recipient'
+            : 'Only failed payouts can be retried',
+        );
+      }
+
+      return await this.sendPayout({ payoutId, adminId });
+    } catch (error) {
+      console.error('Error retrying payout:', error);
+      return {
+        success: false,
+        error: error instanceof PayoutError ? error.message : 'Failed to retry payout',
+        code: error instanceof PayoutError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * The recipient confirms the payout reached their account
+   * @returns The confirmed payout
+   */
+  async confirmReceipt(params: { payoutId: string; userId: string }): Promise<BusinessLogicResult<Payout>> {
+    try {
+      const { payoutId, userId } = params;
+      const { payout, group } = await this.loadPayout(payoutId);
+      if (payout.recipient_id !== userId) {
+        throw new PayoutError('Only the recipient can confirm a payout');
+      }
+      if (payout.status !== 'sent') {
+        throw new PayoutError(
+          payout.status === 'confirmed' ? 'You have already confirmed this payout' : 'This payout has not been sent yet',
+        );
+      }
+
+      const confirmedResult = await DatabaseService.payouts.markAsConfirmed(payoutId, getClock().now());
+      if (!confirmedResult.success || !confirmedResult.data) {
+        throw new PayoutError(confirmedResult.error || 'Failed to confirm payout');
+      }
+
+      await this.recordTransition(userId, payout, confirmedResult.data, 'payout_confirmed');
+      await PayoutNotificationService.notifyPayoutCompleted({
+        ...(await this.notificationData(confirmedResult.data, group)),
+        transactionId: confirmedResult.data.external_transaction_id,
+      });
+
+      return { success: true, data: confirmedResult.data };
+    } catch (error) {
+      console.error('Error confirming payout:', error);
+      return {
+        success: false,
+        error: error instanceof PayoutError ? error.message : 'Failed to confirm payout',
+        code: error instanceof PayoutError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Record the group's shortfall rule on a payout created before everyone had
+   * paid, and tell the recipient what they get and what is still owed to them
+   * @returns The payout; unchanged when nothing is short
+   */
+  async recordShortfall(payoutId: string): Promise<BusinessLogicResult<Payout>> {
+    try {
+      const { payout, group } = await this.loadPayout(payoutId);
+      if (!payout.shortfall_amount) {
+        return { success: true, data: payout };
+      }
+
+      const policy = buildPayoutShortfallPolicy(group);
+      const updated = await DatabaseService.payouts.updatePayout(payoutId, { shortfall_rule: policy.rule });
+      if (!updated.success || !updated.data) {
+        throw new PayoutError(updated.error || 'Failed to record payout shortfall');
+      }
+
+      await AuditLogService.record({
+        groupId: group.id,
+        actorId: SYSTEM_ACTOR,
+        category: 'payouts',
+        action: 'payout_shortfall_recorded',
+        targetId: payout.id,
+        after: { amount: payout.amount, expected_amount: payout.expected_amount, shortfall_amount: payout.shortfall_amount },
+        metadata: { recipient_id: payout.recipient_id, cycle: payout.cycle_number, rule: policy.rule },
+      });
+      await PayoutNotificationService.notifyPayoutShortfall({
+        ...(await this.notificationData(updated.data, group)),
+        owedAmount: payout.shortfall_amount,
+      });
+
+      return { success: true, data: updated.data };
+    } catch (error) {
+      console.error('Error recording payout shortfall:', error);
+      return {
+        success: false,
+        error: error instanceof PayoutError ? error.message : 'Failed to record payout shortfall',
+        code: error instanceof PayoutError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Record money put into the group's reserve fund
+   * @param params.adminId - Needs permission to mark payments
+   * @returns The reserve balance afterwards
+   */
+  async fundReserve(params: {
+    groupId: string;
+    adminId: string;
+    amount: number;
+    notes?: string;
+  }): Promise<BusinessLogicResult<number>> {
+    try {
+      const { groupId, adminId, amount, notes } = params;
+      const groupResult = await DatabaseService.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        throw new PayoutError('Group not found');
+      }
+      const group = groupResult.data;
+      if (!hasGroupPermission(group, adminId, 'canMarkPayments')) {
+        throw new PayoutError('You do not have permission to record payments');
+      }
+      const currency = currencyOf(group);
+      if (!(money(amount, currency).minorUnits > 0)) {
+        throw new PayoutError('Enter the amount put into the reserve');
+      }
+
+      const now = getClock().now();
+      const entryResult = await DatabaseService.ledger.appendEntry({
+        id: `reserve_deposit_${DatabaseService.ledger.generateEntryId()}`,
+        group_id: groupId,
+        type: 'reserve',
+        cycle_number: group.current_cycle,
+        reference_id: groupId,
+        description: 'Deposit into the reserve fund',
+        currency,
+        lines: [debit(LEDGER_ACCOUNTS.RESERVE, amount, currency), credit(LEDGER_ACCOUNTS.RESERVE_FUNDING, amount, currency)],
+        created_by: adminId,
+        created_at: now,
+      });
+      if (!entryResult.success) {
+        throw new PayoutError(entryResult.error || 'Failed to record reserve deposit');
+      }
+
+      const balance = await this.loadReserveBalance(groupId);
+      await AuditLogService.record({
+        groupId,
+        actorId: adminId,
+        category: 'payments',
+        action: 'reserve_funded',
+        targetId: groupId,
+        after: { balance },
+        reason: notes,
+        metadata: { amount },
+      });
+
+      return { success: true, data: balance };
+    } catch (error) {
+      console.error('Error funding reserve:', error);
+      return {
+        success: false,
+        error: error instanceof PayoutError ? error.message : 'Failed to record reserve deposit',
+        code: error instanceof PayoutError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Cover a payout's shortfall from the group's reserve fund before it is sent
+   * @param params.adminId - Needs permission to manage cycles
+   * @param params.amount - How much to advance; as much of the shortfall as the reserve holds when unset
+   * @returns The payout with the advance added to its amount
+   */
+  async advanceFromReserve(params: {
+    payoutId: string;
+    adminId: string;
+    amount?: number;
+  }): Promise<BusinessLogicResult<Payout>> {
+    try {
+      const { payoutId, adminId } = params;
+      const { payout, group } = await this.loadPayout(payoutId);
+      if (!hasGroupPermission(group, adminId, 'canManageCycles')) {
+        throw new PayoutError('You do not have permission to manage payouts');
+      }
+      if (buildPayoutShortfallPolicy(group).rule !== 'advance_from_reserve') {
+        throw new PayoutError('This group does not advance payouts from its reserve fund');
+      }
+      if (payout.status !== 'scheduled' && payout.status !== 'approved') {
+        throw new PayoutError(`This payout is already ${payout.status}`);
+      }
+      if (!payout.shortfall_amount) {
+        throw new PayoutError('This payout is not short');
+      }
+
+      const currency = currencyOf(group);
+      const reserve = money(await this.loadReserveBalance(group.id), currency);
+      const amount = toMajor(
+        params.amount !== undefined ? money(params.amount, currency) : minMoney(money(payout.shortfall_amount, currency), reserve),
+      );
+      if (!(money(amount, currency).minorUnits > 0)) {
+        throw new PayoutError('The reserve fund is empty');
+      }
+      if (money(amount, currency).minorUnits > reserve.minorUnits) {
+        throw new PayoutError(`The reserve fund only holds ${formatAmount(toMajor(reserve), currency)}`);
+      }
+
+      const advanced = await DatabaseService.payouts.applyReserveAdvance(payoutId, amount, adminId);
+      if (!advanced.success || !advanced.data) {
+        throw new PayoutError(
+          advanced.code === 'invalid-amount' ? 'The advance is more than the payout is short' : advanced.error || 'Failed to advance from the reserve',
+        );
+      }
+
+      await AuditLogService.record({
+        groupId: group.id,
+        actorId: adminId,
+        category: 'payouts',
+        action: 'payout_reserve_advanced',
+        targetId: payout.id,
+        before: { amount: payout.amount, shortfall_amount: payout.shortfall_amount },
+        after: { amount: advanced.data.amount, shortfall_amount: advanced.data.shortfall_amount },
+        metadata: { recipient_id: payout.recipient_id, cycle: payout.cycle_number, advance: amount },
+      });
+      await PayoutNotificationService.notifyPayoutShortfall({
+        ...(await this.notificationData(advanced.data, group)),
+        owedAmount: advanced.data.shortfall_amount || 0,
+        advancedAmount: amount,
+      });
+
+      return { success: true, data: advanced.data };
+    } catch (error) {
+      console.error('Error advancing payout from reserve:', error);
+      return {
+        success: false,
+        error: error instanceof PayoutError ? error.message : 'Failed to advance from the reserve',
+        code: error instanceof PayoutError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * A group's payouts in cycle order
+   */
+  async getGroupPayouts(groupId: string): Promise<BusinessLogicResult<Payout[]>> {
+    const result = await DatabaseService.payouts.getGroupPayouts(groupId);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to load payouts', code: 'FETCH_ERROR' };
+    }
+    return { success: true, data: result.data.items };
+  }
+
+  private async loadPayout(payoutId: string): Promise<{ payout: Payout; group: Group }> {
+    const payoutResult = await DatabaseService.payouts.getPayoutById(payoutId);
+    if (!payoutResult.success || !payoutResult.data) {
+      throw new PayoutError('Payout not found');
+    }
+    const groupResult = await DatabaseService.groups.getGroupById(payoutResult.data.group_id);
+    if (!groupResult.success || !groupResult.data) {
+      throw new PayoutError('Group not found');
+    }
+    return { payout: payoutResult.data, group: groupResult.data };
+  }
+
+  private async loadReserveBalance(groupId: string): Promise<number> {
+    const result = await LedgerService.getReserveBalance(groupId);
+    if (!result.success || result.data === undefined) {
+      throw new PayoutError(result.error || 'Failed to load reserve balance');
+    }
+    return result.data;
+  }
+
+  private async recordTransition(
+    actorId: string,
+    before: Payout,
+    after: Payout,
+    action: string,
+    reason?: string,
+  ): Promise<void> {
+    await AuditLogService.record({
+      groupId: before.group_id,
+      actorId,
+      category: 'payouts',
+      action,
+      targetId: before.id,
+      before: { status: before.status },
+      after: { status: after.status, ...(after.external_transaction_id ? { transfer_id: after.external_transaction_id } : {}) },
+      reason,
+      metadata: { recipient_id: before.recipient_id, amount: before.net_amount, cycle: before.cycle_number },
+    });
+  }
+
+  private async notificationData(payout: Payout, group: Group, account?: PayoutAccount): Promise<PayoutNotificationData> {
+    const recipientResult = await DatabaseService.users.getUserById(payout.recipient_id);
+    return {
+      recipientId: payout.recipient_id,
+      recipientName: recipientResult.data?.name || 'there',
+      groupId: group.id,
+      groupName: group.name,
+      cycle: payout.cycle_number,
+      payoutAmount: payout.net_amount,
+      currency: currencyOf(group),
+      processingDate: payout.sent_date || getClock().now(),
+      completionDate: payout.confirmed_date,
+      payoutMethod: account?.method || payout.payout_method,
+      accountDetails: account
+        ? {
+            accountNumber: account.account_number,
+            bankName: account.bank_name,
+            mobileNumber: account.method === 'mobile_money' ? account.account_number : undefined,
+          }
+        : undefined,
+    };
+  }
+}
+
+export default new PayoutService();
@@ -0,0 +1,688 @@
+import { BusinessLogicResult, PenaltyDisputeError } from '../../types/business';
+import DatabaseService, {
+  Contribution,
+  Group,
+  GroupMember,
+  PenaltyDispute,
+  PenaltyDisputeEvidence,
+  PenaltyDisputeResolution,
+} from '../database';
+import NotificationService from '../notifications';
+import NotificationActions, { actionOutcome } from '../notifications/actions';
+import { FirebaseReceiptFileStore, MAX_RECEIPT_BYTES, RECEIPT_FILE_EXTENSIONS, ReceiptFile, ReceiptFileStore } from '../receipts';
+import { getClock } from '../jobs/clock';
+import JobRunner from '../jobs/jobRunner';
+import { base64ToBytes } from '../../utils/base64';
+import { CurrencyCode, currencyOf, formatAmount, roundAmount } from '../../utils/money';
+import { hasGroupPermission } from '../../utils/permissions';
+import AuditLogService from './auditLog';
+import LedgerService from './ledger';
+
+const SETTLE_VOTE_JOB = 'penalty_dispute_vote';
+const MAX_EVIDENCE_FILES = 5;
+const MAX_EXPLANATION_LENGTH = 1000;
+
+type DisputeOutcome = PenaltyDisputeResolution['outcome'];
+
+/**
+ * Members contesting a late fee or a suspension.
+ *
+ * The member explains what happened and can attach evidence such as a bank
+ * alert. An admin who can mark payments (or remove members, for a suspension)
+ * upholds, reduces or waives the penalty, or puts a proposed reduction or waiver
+ * to the rest of the group: a majority in favour carries it, half or more against
+ * upholds the penalty. Only those who decide disputes may record a decision, so the
+ * deciding vote leaves the settlement to a job run by the admin's app or the backend.
+ * Admins can still decide a dispute that is being voted on.
+ * A lower fee is taken back in the ledger (refunded to the member's wallet when
+ * it was already paid), and a waived suspension reinstates the member.
+ */
+class PenaltyDisputeService {
+  private fileStore: ReceiptFileStore = new FirebaseReceiptFileStore();
+
+  constructor() {
+    JobRunner.registerHandler(SETTLE_VOTE_JOB, job => this.settleVote(job.payload.disputeId, job.payload.voterId));
+    NotificationActions.registerHandler('support_dispute', async ({ userId, data }) =>
+      actionOutcome(await this.voteOnDispute({ disputeId: data.disputeId || '', voterId: userId, support: true }), {
+        message: 'Your vote has been counted',
+      })
+    );
+    NotificationActions.registerHandler('oppose_dispute', async ({ userId, data }) =>
+      actionOutcome(await this.voteOnDispute({ disputeId: data.disputeId || '', voterId: userId, support: false }), {
+        message: 'Your vote has been counted',
+      })
+    );
+  }
+
+  // Swap where evidence files are kept, e.g. an InMemoryReceiptFileStore in tests
+  useFileStore(fileStore: ReceiptFileStore): void {
+    this.fileStore = fileStore;
+  }
+
+  /**
+   * Dispute the late fee on a contribution, or the suspension that followed it
+   * @param params.memberId - The member the penalty was applied to
+   * @param params.evidence - Up to 5 files, e.g. a bank alert showing when they paid
+   * @returns The open dispute
+   */
+  async openDispute(params: {
+    contributionId: string;
+    memberId: string;
+    penaltyType: PenaltyDispute['penalty_type'];
+    explanation: string;
+    evidence?: ReceiptFile[];
+  }): Promise<BusinessLogicResult<PenaltyDispute>> {
+    try {
+      const { contributionId, memberId, penaltyType, evidence = [] } = params;
+      const explanation = params.explanation.trim();
+
+      const { contribution, group } = await this.loadContribution(contributionId);
+      if (contribution.user_id !== memberId) {
+        throw new PenaltyDisputeError('You can only dispute penalties applied to you');
+      }
+      if (!explanation) {
+        throw new PenaltyDisputeError('Please explain why the penalty should be reviewed');
+      }
+      if (explanation.length > MAX_EXPLANATION_LENGTH) {
+        throw new PenaltyDisputeError(`Explanations must be ${MAX_EXPLANATION_LENGTH} characters or fewer`);
+      }
+      if (evidence.length > MAX_EVIDENCE_FILES) {
+        throw new PenaltyDisputeError(`You can attach up to ${MAX_EVIDENCE_FILES} files`);
+      }
+
+      if (penaltyType === 'late_fee' && !(contribution.late_penalty_amount && contribution.late_penalty_amount > 0)) {
+        throw new PenaltyDisputeError('There is no late fee on this contribution');
+      }
+      if (penaltyType === 'suspension') {
+        const member = await this.loadMember(contribution);
+        if (member.status !== 'suspended') {
+          throw new PenaltyDisputeError('You are not suspended from this group');
+        }
+      }
+
+      const existing = await DatabaseService.penaltyDisputes.getContributionDisputes(contributionId);
+      if (
+        existing.data?.some(
+          dispute => dispute.penalty_type === penaltyType && (dispute.status === 'open' || dispute.status === 'voting')
+        )
+      ) {
+        throw new PenaltyDisputeError('This penalty is already being disputed');
+      }
+
+      const disputeId = DatabaseService.penaltyDisputes.generateDisputeId();
+      const stored = await this.storeEvidence(contribution.group_id, disputeId, evidence);
+
+      const createResult = await DatabaseService.penaltyDisputes.createDispute(
+        {
+          group_id: contribution.group_id,
+          contribution_id: contributionId,
+          member_id: memberId,
+          penalty_type: penaltyType,
+          penalty_amount: penaltyType === 'late_fee' ? contribution.late_penalty_amount || 0 : 0,
+          explanation,
+          evidence: stored,
+        },
+        disputeId
+      );
+      if (!createResult.success || !createResult.data) {
+        await Promise.all(stored.map(file => this.fileStore.remove(file.storage_path).catch(() => undefined)));
+        throw new PenaltyDisputeError(createResult.error || 'Failed to open dispute');
+      }
+      const dispute = createResult.data;
+
+      await AuditLogService.record({
+        groupId: contribution.group_id,
+        actorId: memberId,
+        category: 'penalties',
+        action: 'penalty_disputed',
+        targetId: disputeId,
+        reason: explanation,
+        metadata: {
+          contribution_id: contributionId,
+          penalty_type: penaltyType,
+          penalty_amount: dispute.penalty_amount,
+          evidence_files: stored.length,
+        },
+      });
+
+      try {
+        const memberResult = await DatabaseService.users.getUserById(memberId);
+        await NotificationService.sendToUser({
+          templateId: 'penalty_dispute_opened',
+          userId: group.admin_id,
+          groupId: group.id,
+          data: {
+            memberName: memberResult.data?.name || 'A member',
+            groupName: group.name,
+            amount: dispute.penalty_amount || undefined,
+            reason: explanation,
+            currency: currencyOf(group),
+          },
+          refs: { contributionId, disputeId, memberId },
+        });
+      } catch (error) {
+        console.error('Error sending dispute notification:', error);
+      }
+
+      return { success: true, data: dispute };
+    } catch (error) {
+      console.error('Error opening penalty dispute:', error);
+      return {
+        success: false,
+        error: error instanceof PenaltyDisputeError ? error.message : 'Failed to open dispute',
+        code: error instanceof PenaltyDisputeError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Withdraw a dispute that hasn't been decided (disputing member only)
+   */
+  async withdrawDispute(disputeId: string, memberId: string): Promise<BusinessLogicResult<PenaltyDispute>> {
+    try {
+      const dispute = await this.loadOpenDispute(disputeId);
+      if (dispute.member_id !== memberId) {
+        throw new PenaltyDisputeError('Only the member who raised the dispute can withdraw it');
+      }
+
+      const updateResult = await DatabaseService.penaltyDisputes.transitionDispute(disputeId, ['open', 'voting'], {
+        status: 'withdrawn',
+      });
+      if (!updateResult.success || !updateResult.data) {
+        throw new PenaltyDisputeError(updateResult.error || 'Failed to withdraw dispute');
+      }
+
+      await AuditLogService.record({
+        groupId: dispute.group_id,
+        actorId: memberId,
+        category: 'penalties',
+        action: 'penalty_dispute_withdrawn',
+        targetId: disputeId,
+        metadata: { contribution_id: dispute.contribution_id },
+      });
+
+      return { success: true, data: updateResult.data };
+    } catch (error) {
+      console.error('Error withdrawing penalty dispute:', error);
+      return {
+        success: false,
+        error: error instanceof PenaltyDisputeError ? error.message : 'Failed to withdraw dispute',
+        code: error instanceof PenaltyDisputeError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Decide a dispute
+   * @param params.outcome - Keep the penalty, reduce the late fee, or waive the penalty
+   * @param params.amount - The reduced late fee, when reducing
+   * @returns The resolved dispute
+   */
+  async resolveDispute(params: {
+    disputeId: string;
+    adminId: string;
+    outcome: DisputeOutcome;
+    amount?: number;
+    notes?: string;
+  }): Promise<BusinessLogicResult<PenaltyDispute>> {
+    try {
+      const { disputeId, adminId, outcome, amount, notes } = params;
+
+      const dispute = await this.loadOpenDispute(disputeId);
+      const { contribution, group } = await this.loadContribution(dispute.contribution_id);
+      this.assertCanDecide(group, adminId, dispute);
+      const finalAmount = this.finalAmount(dispute, contribution, outcome, amount, currencyOf(group));
+
+      // A vote may settle it first, in which case this decision is refused
+      const resolvedResult = await DatabaseService.penaltyDisputes.transitionDispute(
+        disputeId,
+        ['open', 'voting'],
+        this.resolution({ outcome, decided_by: 'admin', resolved_by: adminId, final_amount: finalAmount, notes })
+      );
+      if (!resolvedResult.success || !resolvedResult.data) {
+        throw new PenaltyDisputeError(resolvedResult.error || 'Failed to record decision');
+      }
+
+      return { success: true, data: await this.settle(resolvedResult.data, contribution, group) };
+    } catch (error) {
+      console.error('Error resolving penalty dispute:', error);
+      return {
+        success: false,
+        error: error instanceof PenaltyDisputeError ? error.message : 'Failed to resolve dispute',
+        code: error instanceof PenaltyDisputeError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Let the group decide: put a reduction or waiver to every active member
+   * other than the one disputing
+   * @param params.amount - The reduced late fee, when proposing a reduction
+   * @returns The dispute, now being voted on
+   */
+  async startVote(params: {
+    disputeId: string;
+    adminId: string;
+    outcome: 'reduced' | 'waived';
+    amount?: number;
+  }): Promise<BusinessLogicResult<PenaltyDispute>> {
+    try {
+      const { disputeId, adminId, outcome, amount } = params;
+
+      const dispute = await this.loadOpenDispute(disputeId);
+      if (dispute.status !== 'open') {
+        throw new PenaltyDisputeError('This dispute is already being voted on');
+      }
+      const { contribution, group } = await this.loadContribution(dispute.contribution_id);
+      this.assertCanDecide(group, adminId, dispute);
+      const proposedAmount = this.finalAmount(dispute, contribution, outcome, amount, currencyOf(group));
+
+      const membersResult = await DatabaseService.groupMembers.getGroupMembers(group.id, { status: 'active' });
+      const voterIds = (membersResult.data?.items || [])
+        .map(member => member.user_id)
+        .filter(userId => userId !== dispute.member_id);
+      if (voterIds.length === 0) {
+        throw new PenaltyDisputeError('There are no other active members to vote');
+      }
+
+      const updateResult = await DatabaseService.penaltyDisputes.transitionDispute(disputeId, ['open'], {
+        status: 'voting',
+        vote: {
+          outcome,
+          ...(outcome === 'reduced' ? { amount: proposedAmount } : {}),
+          proposed_by: adminId,
+          voter_ids: voterIds,
+          votes_for: [],
+          votes_against: [],
+          started_at: getClock().now(),
+        },
+      });
+      if (!updateResult.success || !updateResult.data) {
+        throw new PenaltyDisputeError(
+          updateResult.code === 'invalid-status' ? 'This dispute is already being decided' : updateResult.error || 'Failed to start vote'
+        );
+      }
+
+      await AuditLogService.record({
+        groupId: group.id,
+        actorId: adminId,
+        category: 'penalties',
+        action: 'penalty_dispute_vote_started',
+        targetId: disputeId,
+        after: { outcome, amount: outcome === 'reduced' ? proposedAmount : 0 },
+        metadata: { contribution_id: contribution.id, voters: voterIds.length },
+      });
+
+      const memberResult = await DatabaseService.users.getUserById(dispute.member_id);
+      for (const voterId of voterIds) {
+        try {
+          await NotificationService.sendToUser({
+            templateId: 'penalty_dispute_vote',
+            userId: voterId,
+            groupId: group.id,
+            data: {
+              memberName: memberResult.data?.name || 'A member',
+              groupName: group.name,
+              penaltyAmount: dispute.penalty_amount || undefined,
+              amount: outcome === 'reduced' ? proposedAmount : undefined,
+              currency: currencyOf(group),
+            },
+            refs: { contributionId: contribution.id, disputeId },
+          });
+        } catch (error) {
+          console.error('Error sending dispute vote notification:', error);
+        }
+      }
+
+      return { success: true, data: updateResult.data };
+    } catch (error) {
+      console.error('Error starting dispute vote:', error);
+      return {
+        success: false,
+        error: error instanceof PenaltyDisputeError ? error.message : 'Failed to start vote',
+        code: error instanceof PenaltyDisputeError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Vote on the proposal for a dispute. A majority of voters in favour carries
+   * it; half or more against upholds the penalty.
+   * @param params.support - Whether the vote is for the proposal
+   * @returns The dispute after the vote
+   */
+  async voteOnDispute(params: {
+    disputeId: string;
+    voterId: string;
+    support: boolean;
+  }): Promise<BusinessLogicResult<PenaltyDispute>> {
+    try {
+      const { disputeId, voterId, support } = params;
+
+      const dispute = await this.loadOpenDispute(disputeId);
+      if (dispute.status !== 'voting') {
+        throw new PenaltyDisputeError('This dispute is not being voted on');
+      }
+      // The vote is counted against the dispute as it stands when it is written
+      const updateResult = await DatabaseService.penaltyDisputes.transitionDispute(disputeId, ['voting'], current => {
+        const vote = current.vote;
+        if (!vote) {
+          throw new PenaltyDisputeError('This dispute is not being voted on');
+        }
+        if (!vote.voter_ids.includes(voterId)) {
+          throw new PenaltyDisputeError('You are not eligible to vote on this dispute');
+        }
+        if (vote.votes_for.includes(voterId) || vote.votes_against.includes(voterId)) {
+          throw new PenaltyDisputeError('You have already voted on this dispute');
+        }
+        if (this.voteResult(vote)) {
+          throw new PenaltyDisputeError('The vote on this dispute has already been decided');
+        }
+        return {
+          vote: {
+            ...vote,
+            votes_for: support ? [...vote.votes_for, voterId] : vote.votes_for,
+            votes_against: support ? vote.votes_against : [...vote.votes_against, voterId],
+          },
+        };
+      });
+      if (!updateResult.success || !updateResult.data) {
+        throw new PenaltyDisputeError(
+          updateResult.code === 'invalid-status'
+            ? 'This dispute is not being voted on'
+            : updateResult.error || 'Failed to record vote'
+        );
+      }
+
+      // The job is keyed by the dispute, so votes cast after the deciding one add nothing
+      if (this.voteResult(updateResult.data.vote!)) {
+        await JobRunner.enqueue({
+          type: SETTLE_VOTE_JOB,
+          idempotencyKey: `dispute-vote:${disputeId}`,
+          groupId: updateResult.data.group_id,
+          payload: { disputeId, voterId },
+        });
+      }
+      return { success: true, data: updateResult.data };
+    } catch (error) {
+      console.error('Error voting on penalty dispute:', error);
+      return {
+        success: false,
+        error: error instanceof PenaltyDisputeError ? error.message : 'Failed to vote on dispute',
+        code: error instanceof PenaltyDisputeError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Disputes raised about a contribution, newest first. Visible to the group's members.
+   */
+  async getContributionDisputes(contributionId: string, userId: string): Promise<BusinessLogicResult<PenaltyDispute[]>> {
+    try {
+      const { contribution, group } = await this.loadContribution(contributionId);
+      const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(userId, group.id);
+      if (contribution.user_id !== userId && !memberResult.data && group.admin_id !== userId) {
+        throw new PenaltyDisputeError('Only members of this group can view its disputes');
+      }
+
+      const disputesResult = await DatabaseService.penaltyDisputes.getContributionDisputes(contributionId);
+      if (!disputesResult.success || !disputesResult.data) {
+        throw new PenaltyDisputeError(disputesResult.error || 'Failed to load disputes');
+      }
+      return { success: true, data: disputesResult.data };
+    } catch (error) {
+      console.error('Error getting penalty disputes:', error);
+      return {
+        success: false,
+        error: error instanceof PenaltyDisputeError ? error.message : 'Failed to load disputes',
+        code: error instanceof PenaltyDisputeError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  // Whether a vote has been decided: a majority for carries it, half or more against defeats it
+  private voteResult(vote: NonNullable<PenaltyDispute['vote']>): 'carried' | 'defeated' | null {
+    if (vote.votes_for.length > vote.voter_ids.length / 2) {
+      return 'carried';
+    }
+    return vote.votes_against.length >= vote.voter_ids.length / 2 ? 'defeated' : null;
+  }
+
+  // Record and apply the outcome of a decided vote, unless the dispute was withdrawn or an
+  // admin decided it first. The decision is credited to the member whose vote settled it.
+  private async settleVote(disputeId: string, voterId: string): Promise<void> {
+    const disputeResult = await DatabaseService.penaltyDisputes.getDisputeById(disputeId);
+    const dispute = disputeResult.data;
+    if (!dispute || dispute.status !== 'voting') {
+      return;
+    }
+    const { contribution, group } = await this.loadContribution(dispute.contribution_id);
+    const upheldAmount = this.finalAmount(dispute, contribution, 'upheld', undefined, currencyOf(group));
+
+    const resolvedResult = await DatabaseService.penaltyDisputes.transitionDispute(disputeId, ['voting'], current => {
+      const vote = current.vote;
+      const result = vote && this.voteResult(vote);
+      if (!vote || !result) {
+        throw new PenaltyDisputeError('This vote has not been decided');
+      }
+      return this.resolution({
+        outcome: result === 'carried' ? vote.outcome : 'upheld',
+        decided_by: 'vote',
+        resolved_by: voterId,
+        final_amount: result === 'carried' ? vote.amount || 0 : upheldAmount,
+        notes: `${vote.votes_for.length} for, ${vote.votes_against.length} against`,
+      });
+    });
+    if (resolvedResult.code === 'invalid-status') {
+      return;
+    }
+    if (!resolvedResult.success || !resolvedResult.data) {
+      throw new PenaltyDisputeError(resolvedResult.error || 'Failed to record the vote result');
+    }
+    await this.settle(resolvedResult.data, contribution, group);
+  }
+
+  // The updates that resolve a dispute. Recording them is what claims the dispute, so
+  // only the caller whose write resolved it goes on to settle it.
+  private resolution(
+    decision: Omit<PenaltyDisputeResolution, 'member_reinstated' | 'resolved_at'>
+  ): Pick<PenaltyDispute, 'status' | 'resolution'> {
+    const { notes, ...rest } = decision;
+    return {
+      status: 'resolved',
+      resolution: {
+        ...rest,
+        ...(notes ? { notes } : {}),
+        member_reinstated: false,
+        resolved_at: getClock().now(),
+      },
+    };
+  }
+
+  // Apply a decision this caller recorded: adjust the fee in the ledger, reinstate the member, record it and tell them
+  private async settle(dispute: PenaltyDispute, contribution: Contribution, group: Group): Promise<PenaltyDispute> {
+    const decision = dispute.resolution;
+    if (!decision) {
+      throw new PenaltyDisputeError('This dispute has not been decided');
+    }
+    const currency = currencyOf(group);
+    let memberReinstated = false;
+
+    if (dispute.penalty_type === 'late_fee') {
+      if (decision.outcome !== 'upheld') {
+        const waiver = await LedgerService.recordLateFeeWaiver(
+          contribution,
+          decision.final_amount,
+          dispute.id,
+          decision.resolved_by
+        );
+        if (!waiver.success) {
+          throw new PenaltyDisputeError(waiver.error || 'Failed to adjust the late fee');
+        }
+      }
+      // Settled either way, so the fee isn't raised again for the same lateness
+      await DatabaseService.contributions.updateContribution(contribution.id, {
+        late_penalty_amount: decision.final_amount,
+        settled_late_fee: decision.final_amount,
+      });
+    } else if (decision.outcome === 'waived') {
+      const member = await this.loadMember(contribution);
+      if (member.status === 'suspended') {
+        await DatabaseService.groupMembers.updateMemberStatus(member.id, 'active');
+        memberReinstated = true;
+      }
+    }
+
+    let settled = dispute;
+    if (memberReinstated) {
+      const updateResult = await DatabaseService.penaltyDisputes.updateDispute(dispute.id, {
+        resolution: { ...decision, member_reinstated: true },
+      });
+      if (!updateResult.success || !updateResult.data) {
+        throw new PenaltyDisputeError(updateResult.error || 'Failed to record decision');
+      }
+      settled = updateResult.data;
+    }
+
+    await AuditLogService.record({
+      groupId: group.id,
+      actorId: decision.resolved_by,
+      category: 'penalties',
+      action: `penalty_dispute_${decision.outcome}`,
+      targetId: dispute.id,
+      before: { penalty_type: dispute.penalty_type, amount: dispute.penalty_amount },
+      after: { amount: decision.final_amount, member_reinstated: memberReinstated },
+      reason: decision.notes,
+      metadata: {
+        contribution_id: contribution.id,
+        member_id: dispute.member_id,
+        decided_by: decision.decided_by,
+        refund:
+          contribution.status === 'paid' && decision.final_amount < dispute.penalty_amount
+            ? formatAmount(dispute.penalty_amount - decision.final_amount, currency)
+            : undefined,
+      },
+    });
+
+    try {
+      const memberResult = await DatabaseService.users.getUserById(dispute.member_id);
+      const isLateFee = dispute.penalty_type === 'late_fee';
+      await NotificationService.sendToUser({
+        templateId: `penalty_dispute_${decision.outcome}`,
+        userId: dispute.member_id,
+        groupId: group.id,
+        data: {
+          memberName: memberResult.data?.name || 'there',
+          groupName: group.name,
+          amount: isLateFee ? (decision.outcome === 'reduced' ? decision.final_amount : dispute.penalty_amount) : undefined,
+          reason: decision.decided_by === 'admin' ? decision.notes : undefined,
+          currency,
+        },
+        sendSMS: decision.outcome !== 'upheld',
+        refs: { contributionId: contribution.id, disputeId: dispute.id },
+      });
+    } catch (error) {
+      console.error('Error sending dispute decision notification:', error);
+    }
+
+    return settled;
+  }
+
+  // The late fee owed after an outcome
+  private finalAmount(
+    dispute: PenaltyDispute,
+    contribution: Contribution,
+    outcome: DisputeOutcome,
+    amount: number | undefined,
+    currency: CurrencyCode
+  ): number {
+    if (dispute.penalty_type === 'suspension') {
+      if (outcome === 'reduced') {
+        throw new PenaltyDisputeError('A suspension can be upheld or waived, not reduced');
+      }
+      return 0;
+    }
+
+    const current = contribution.late_penalty_amount || 0;
+    if (outcome === 'upheld') {
+      return current;
+    }
+    if (outcome === 'waived') {
+      return 0;
+    }
+    if (amount === undefined || !Number.isFinite(amount) || amount <= 0 || amount >= current) {
+      throw new PenaltyDisputeError(`The reduced fee must be more than nothing and less than ${formatAmount(current, currency)}`);
+    }
+    return roundAmount(amount, currency);
+  }
+
+  private assertCanDecide(group: Group, adminId: string, dispute: PenaltyDispute): void {
+    const permission = dispute.penalty_type === 'suspension' ? 'canRemoveMembers' : 'canMarkPayments';
+    if (!hasGroupPermission(group, adminId, permission)) {
+      throw new PenaltyDisputeError('You do not have permission to decide this dispute');
+    }
+    if (adminId === dispute.member_id) {
+      throw new PenaltyDisputeError('You cannot decide your own dispute');
+    }
+  }
+
+  private async storeEvidence(groupId: string, disputeId: string, files: ReceiptFile[]): Promise<PenaltyDisputeEvidence[]> {
+    const stored: PenaltyDisputeEvidence[] = [];
+    for (const [index, file] of files.entries()) {
+      if (!(file.contentType in RECEIPT_FILE_EXTENSIONS)) {
+        throw new PenaltyDisputeError('Evidence must be a JPEG or PNG image, a PDF or text');
+      }
+      let size: number;
+      try {
+        size = base64ToBytes(file.base64).length;
+      } catch {
+        throw new PenaltyDisputeError(`${file.name} could not be read`);
+      }
+      if (size === 0 || size > MAX_RECEIPT_BYTES) {
+        throw new PenaltyDisputeError('Evidence files must be between 1 byte and 5 MB');
+      }
+
+      const storagePath = `penalty_disputes/${groupId}/${disputeId}/${index + 1}.${RECEIPT_FILE_EXTENSIONS[file.contentType]}`;
+      const url = await this.fileStore.upload(storagePath, file.base64, file.contentType);
+      stored.push({ file_name: file.name, content_type: file.contentType, size_bytes: size, storage_path: storagePath, url });
+    }
+    return stored;
+  }
+
+  private async loadOpenDispute(disputeId: string): Promise<PenaltyDispute> {
+    const disputeResult = await DatabaseService.penaltyDisputes.getDisputeById(disputeId);
+    if (!disputeResult.success || !disputeResult.data) {
+      throw new PenaltyDisputeError('Dispute not found');
+    }
+    const dispute = disputeResult.data;
+    if (dispute.status !== 'open' && dispute.status !== 'voting') {
+      throw new PenaltyDisputeError(`This dispute has already been ${dispute.status}`);
+    }
+    return dispute;
+  }
+
+  private async loadContribution(contributionId: string): Promise<{ contribution: Contribution; group: Group }> {
+    const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+    if (!contributionResult.success || !contributionResult.data) {
+      throw new PenaltyDisputeError('Contribution not found');
+    }
+    const groupResult = await DatabaseService.groups.getGroupById(contributionResult.data.group_id);
+    if (!groupResult.success || !groupResult.data) {
+      throw new PenaltyDisputeError('Group not found');
+    }
+    return { contribution: contributionResult.data, group: groupResult.data };
+  }
+
+  private async loadMember(contribution: Contribution): Promise<GroupMember> {
+    const memberResult = await DatabaseService.groupMembers.getMemberByUserAndGroup(
+      contribution.user_id,
+      contribution.group_id
+    );
+    if (!memberResult.success || !memberResult.data) {
+      throw new PenaltyDisputeError('Member not found in this group');
+    }
+    return memberResult.data;
+  }
+}
+
+export default new PenaltyDisputeService();
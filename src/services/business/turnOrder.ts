@@ -3,10 +3,20 @@ import {
   CalculateTurnOrderParams, 
   BusinessLogicResult, 
   TurnOrderError,
-  CycleStatus
+  CycleStatus,
+  TurnOrderRecalculationReason,
+  TurnOrderVerification
 } from '../../types/business';
-import { GroupMember } from '../../types/database';
+import { Group, GroupMember, TurnOrderStrategyConfig, TurnSwapRequest } from '../../types/database';
 import DatabaseService from '../database';
+import {
+  buildTurnOrderAudit,
+  drawSeed,
+  getTurnOrderStrategy,
+  planTurnOrder,
+  resolveTurnOrder,
+  turnOrderChecksum,
+} from './turnOrderStrategies';
 
 class TurnOrderService {
   /**
@@ -24,22 +34,24 @@ class TurnOrderService {
         throw new TurnOrderError(`Invalid parameters: ${validation.errors.join(', ')}`);
       }
 
-      // Get active members sorted by join order
-      const activeMembers = members
-        .filter(member => member.status === 'active')
-        .sort((a, b) => a.join_order - b.join_order);
+      const activeMembers = members.filter(member => member.status === 'active');
 
       if (activeMembers.length === 0) {
         throw new TurnOrderError('No active members found in group');
       }
 
+      // Order active members with the group's turn order strategy
+      const plan = planTurnOrder(group, activeMembers);
+      const membersById = new Map(activeMembers.map(member => [member.user_id, member]));
+      const bids = new Map((plan.inputs.bids || []).map(bid => [bid.user_id, bid.discount_amount]));
+
       // Calculate turn order for all cycles
       const turnOrders: TurnOrder[] = [];
       const cycleStartDate = new Date(group.cycle_start_date);
 
       for (let cycle = 1; cycle <= group.total_cycles; cycle++) {
-        const memberIndex = (cycle - 1) % activeMembers.length;
-        const recipient = activeMembers[memberIndex];
+        const recipientId = plan.order[(cycle - 1) % plan.order.length];
+        const recipient = membersById.get(recipientId) as GroupMember;
         
         // Calculate scheduled date for this cycle
         const scheduledDate = this.calculateCycleDate(
@@ -59,10 +71,11 @@ class TurnOrderService {
         turnOrders.push({
           cycle,
           recipientId: recipient.user_id,
-          recipientName: `User ${recipient.user_id}`, // Would fetch actual name in real implementation
+          recipientName: recipient.display_name || `User ${recipient.user_id}`,
           joinOrder: recipient.join_order,
           scheduledDate,
           status,
+          ...(bids.has(recipient.user_id) ? { discountAmount: bids.get(recipient.user_id) } : {}),
         });
       }
 
@@ -98,7 +111,7 @@ class TurnOrderService {
         groupId,
         { status: 'active' }
       );
-      if (!membersResult.success) {
+      if (!membersResult.success || !membersResult.data) {
         throw new TurnOrderError('Failed to fetch group members');
       }
 
@@ -163,23 +176,16 @@ class TurnOrderService {
         return { success: true, data: true };
       }
 
-      // Check if user's join order has passed in current cycle pattern
-      // For a group with N members, user with join_order X gets payout in cycles X, X+N, X+2N, etc.
-      const groupResult = await DatabaseService.groups.getGroupById(groupId);
-      if (!groupResult.success || !groupResult.data) {
-        throw new TurnOrderError('Group not found');
-      }
-
-      const group = groupResult.data;
-      const userTurnCycles = [];
-      
-      // Calculate all cycles where this user would receive payout
-      for (let cycle = membership.join_order; cycle <= group.total_cycles; cycle += group.total_members) {
-        userTurnCycles.push(cycle);
+      // The strategy decides which cycles are the user's, so check the group's schedule
+      const scheduleResult = await this.getGroupTurnSchedule(groupId);
+      if (!scheduleResult.success || !scheduleResult.data) {
+        throw new TurnOrderError(scheduleResult.error || 'Failed to get turn schedule');
       }
 
       // Check if any of user's turn cycles have passed
-      const hasPassedTurn = userTurnCycles.some(cycle => cycle < currentCycle);
+      const hasPassedTurn = scheduleResult.data.some(
+        turn => turn.recipientId === userId && turn.cycle < currentCycle
+      );
 
       return {
         success: true,
@@ -210,7 +216,7 @@ class TurnOrderService {
 
       // Get all members
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) {
+      if (!membersResult.success || !membersResult.data) {
         throw new TurnOrderError('Failed to fetch group members');
       }
 
@@ -300,41 +306,367 @@ class TurnOrderService {
   }
 
   /**
-   * Recalculate turn order when members change
+   * Recalculate turn order and record how it was produced
    * @param groupId - Group ID
    * @param reason - Reason for recalculation
+   * @param triggeredBy - User whose action caused the recalculation
    * @returns Updated turn order
    */
   async recalculateTurnOrder(
     groupId: string, 
-    reason: 'member_added' | 'member_removed' | 'member_status_changed'
+    reason: TurnOrderRecalculationReason,
+    triggeredBy?: string
   ): Promise<BusinessLogicResult<TurnOrder[]>> {
     try {
       console.log(`Recalculating turn order for group ${groupId}, reason: ${reason}`);
 
-      // This would typically involve complex logic to handle:
-      // - Member additions mid-cycle
-      // - Member removals and redistributing turns
-      // - Maintaining fairness in payout order
-      
-      // For now, we'll recalculate from current state
-      const result = await this.getGroupTurnSchedule(groupId);
-      
-      if (result.success && result.data) {
-        // Log the recalculation for audit purposes
-        console.log(`Turn order recalculated: ${result.data.length} cycles planned`);
+      const { group, members } = await this.loadGroupWithActiveMembers(groupId);
+
+      // Store the strategy inputs alongside the result so anyone can re-run it
+      const auditResult = await DatabaseService.turnOrderAudits.createAudit(
+        buildTurnOrderAudit(group, members, reason, triggeredBy)
+      );
+      if (!auditResult.success) {
+        throw new TurnOrderError('Failed to record turn order audit', auditResult.error);
       }
 
-      return result;
+      return await this.calculateTurnOrder({
+        group,
+        members,
+        currentCycle: group.current_cycle,
+      });
     } catch (error) {
       console.error('Error recalculating turn order:', error);
       return {
         success: false,
-        error: 'Failed to recalculate turn order',
-        code: 'RECALCULATION_ERROR',
+        error: error instanceof TurnOrderError ? error.message : 'Failed to recalculate turn order',
+        code: error instanceof TurnOrderError ? error.code : 'RECALCULATION_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Change how a group's payout turns are assigned (admin only)
+   * @param groupId - Group ID
+   * @param adminId - Admin making the change
+   * @param config - Strategy type plus its assigned order. A random draw's seed is derived from the group.
+   * @returns Turn order under the new strategy
+   */
+  async setTurnOrderStrategy(
+    groupId: string,
+    adminId: string,
+    config: Pick<TurnOrderStrategyConfig, 'type' | 'admin_order'>
+  ): Promise<BusinessLogicResult<TurnOrder[]>> {
+    try {
+      const { group, members } = await this.loadGroupWithActiveMembers(groupId);
+      if (group.admin_id !== adminId) {
+        throw new TurnOrderError('Only the group admin can change the turn order strategy');
+      }
+
+      // Bids and swap requests only carry over while the strategy type stays the same
+      const current = group.turn_order_strategy;
+      const sameType = current?.type === config.type;
+      const strategyConfig: TurnOrderStrategyConfig = {
+        type: config.type,
+        updated_at: new Date(),
+        updated_by: adminId,
+      };
+      if (config.type === 'random_draw') {
+        strategyConfig.seed = drawSeed(groupId);
+      }
+      if (config.type === 'admin_assigned') {
+        strategyConfig.admin_order = config.admin_order || [];
+      }
+      if (config.type === 'bidding') {
+        strategyConfig.bids = sameType ? current?.bids || {} : {};
+      }
+      if (config.type === 'need_based') {
+        strategyConfig.swap_requests = sameType ? current?.swap_requests || {} : {};
+      }
+
+      const errors = getTurnOrderStrategy(config.type).validate(strategyConfig, members);
+      if (errors.length > 0) {
+        throw new TurnOrderError(`Invalid turn order strategy: ${errors.join(', ')}`);
+      }
+
+      await this.saveStrategyConfig(groupId, strategyConfig);
+      return await this.recalculateTurnOrder(groupId, 'strategy_changed', adminId);
+    } catch (error) {
+      console.error('Error setting turn order strategy:', error);
+      return {
+        success: false,
+        error: error instanceof TurnOrderError ? error.message : 'Failed to set turn order strategy',
+        code: error instanceof TurnOrderError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Offer a discount on your payout to be paid earlier (bidding strategy).
+   * A new bid replaces the member's previous one.
+   * @param groupId - Group ID
+   * @param userId - Bidding member
+   * @param discountAmount - Amount the member gives up from their payout
+   * @returns Turn order including the new bid
+   */
+  async placeBid(
+    groupId: string,
+    userId: string,
+    discountAmount: number
+  ): Promise<BusinessLogicResult<TurnOrder[]>> {
+    try {
+      const { group, members } = await this.loadGroupWithActiveMembers(groupId);
+      const member = members.find(m => m.user_id === userId);
+      if (!member) {
+        throw new TurnOrderError('Only active members can bid for a turn');
+      }
+      if (member.payout_received) {
+        throw new TurnOrderError('Member has already received a payout');
+      }
+
+      const payoutAmount = group.contribution_amount * members.length;
+      if (!(discountAmount > 0) || discountAmount >= payoutAmount) {
+        throw new TurnOrderError('Bid discount must be more than zero and less than the payout');
+      }
+
+      await this.changeStrategyConfig(groupId, config => {
+        if (config?.type !== 'bidding') {
+          throw new TurnOrderError('This group does not assign turns by bidding');
+        }
+        return {
+          ...config,
+          bids: {
+            ...config.bids,
+            [userId]: { user_id: userId, discount_amount: discountAmount, placed_at: new Date() },
+          },
+        };
+      });
+      return await this.recalculateTurnOrder(groupId, 'bid_placed', userId);
+    } catch (error) {
+      console.error('Error placing turn bid:', error);
+      return {
+        success: false,
+        error: error instanceof TurnOrderError ? error.message : 'Failed to place bid',
+        code: error instanceof TurnOrderError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Ask the group to swap turns with another member (need-based strategy)
+   * @param groupId - Group ID
+   * @param requesterId - Member in need
+   * @param swapWithId - Member whose turn they would take
+   * @param reason - Explanation shown to voters
+   * @returns The pending swap request
+   */
+  async requestTurnSwap(
+    groupId: string,
+    requesterId: string,
+    swapWithId: string,
+    reason: string
+  ): Promise<BusinessLogicResult<TurnSwapRequest>> {
+    try {
+      const { members } = await this.loadGroupWithActiveMembers(groupId);
+      if (requesterId === swapWithId) {
+        throw new TurnOrderError('Cannot swap turns with yourself');
+      }
+      this.assertSwappable(members, [requesterId, swapWithId]);
+
+      const swapRequest: TurnSwapRequest = {
+        id: `${requesterId}_${Date.now().toString(36)}`,
+        requester_id: requesterId,
+        swap_with_id: swapWithId,
+        reason,
+        votes_for: [],
+        votes_against: [],
+        status: 'pending',
+        created_at: new Date(),
+      };
+
+      await this.changeStrategyConfig(groupId, config => {
+        if (config?.type !== 'need_based') {
+          throw new TurnOrderError('This group does not allow need-based swaps');
+        }
+        const swapRequests = config.swap_requests || {};
+        if (Object.values(swapRequests).some(swap => swap.requester_id === requesterId && swap.status === 'pending')) {
+          throw new TurnOrderError('You already have a swap request awaiting votes');
+        }
+        return { ...config, swap_requests: { ...swapRequests, [swapRequest.id]: swapRequest } };
+      });
+      return { success: true, data: swapRequest };
+    } catch (error) {
+      console.error('Error requesting turn swap:', error);
+      return {
+        success: false,
+        error: error instanceof TurnOrderError ? error.message : 'Failed to request turn swap',
+        code: error instanceof TurnOrderError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Vote on a need-based swap. A majority of active members approves it;
+   * half or more voting against rejects it.
+   * @param groupId - Group ID
+   * @param swapId - Swap request ID
+   * @param voterId - Voting member
+   * @param approve - Whether the vote is in favour
+   * @returns The swap request after the vote
+   */
+  async voteOnTurnSwap(
+    groupId: string,
+    swapId: string,
+    voterId: string,
+    approve: boolean
+  ): Promise<BusinessLogicResult<TurnSwapRequest>> {
+    try {
+      const { members } = await this.loadGroupWithActiveMembers(groupId);
+      if (!members.some(member => member.user_id === voterId)) {
+        throw new TurnOrderError('Only active members can vote on swaps');
+      }
+
+      // Tallied against the votes stored now, so votes cast at the same time all count
+      const saved = await this.changeStrategyConfig(groupId, config => {
+        const swap = config?.swap_requests?.[swapId];
+        if (!config || !swap) {
+          throw new TurnOrderError('Swap request not found');
+        }
+        if (swap.status !== 'pending') {
+          throw new TurnOrderError(`Swap request has already been ${swap.status}`);
+        }
+        if (swap.votes_for.includes(voterId) || swap.votes_against.includes(voterId)) {
+          throw new TurnOrderError('You have already voted on this swap');
+        }
+        this.assertSwappable(members, [swap.requester_id, swap.swap_with_id]);
+
+        const updated: TurnSwapRequest = {
+          ...swap,
+          votes_for: approve ? [...swap.votes_for, voterId] : swap.votes_for,
+          votes_against: approve ? swap.votes_against : [...swap.votes_against, voterId],
+        };
+        if (updated.votes_for.length > members.length / 2) {
+          updated.status = 'approved';
+          updated.resolved_at = new Date();
+        } else if (updated.votes_against.length >= members.length / 2) {
+          updated.status = 'rejected';
+          updated.resolved_at = new Date();
+        }
+        return { ...config, swap_requests: { ...config.swap_requests, [swapId]: updated } };
+      });
+      const updated = saved.swap_requests![swapId];
+
+      if (updated.status === 'approved') {
+        const recalculated = await this.recalculateTurnOrder(groupId, 'swap_approved', voterId);
+        if (!recalculated.success) {
+          throw new TurnOrderError(recalculated.error || 'Failed to apply approved swap');
+        }
+      }
+
+      return { success: true, data: updated };
+    } catch (error) {
+      console.error('Error voting on turn swap:', error);
+      return {
+        success: false,
+        error: error instanceof TurnOrderError ? error.message : 'Failed to vote on turn swap',
+        code: error instanceof TurnOrderError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Re-run the strategy recorded in an audit and compare with the stored order
+   * @param auditId - Turn order audit ID
+   * @returns Whether the recorded order can be reproduced
+   */
+  async verifyTurnOrderAudit(auditId: string): Promise<BusinessLogicResult<TurnOrderVerification>> {
+    try {
+      const auditResult = await DatabaseService.turnOrderAudits.getAuditById(auditId);
+      if (!auditResult.success || !auditResult.data) {
+        throw new TurnOrderError('Turn order audit not found');
+      }
+
+      const audit = auditResult.data;
+      const expectedOrder = resolveTurnOrder(audit.strategy, audit.inputs);
+      const recordedPlan = { strategy: audit.strategy, inputs: audit.inputs, order: audit.order };
+
+      return {
+        success: true,
+        data: {
+          auditId,
+          matches: expectedOrder.length === audit.order.length
+            && expectedOrder.every((userId, index) => audit.order[index] === userId),
+          checksumValid: turnOrderChecksum(recordedPlan) === audit.checksum,
+          expectedOrder,
+          recordedOrder: audit.order,
+        },
+      };
+    } catch (error) {
+      console.error('Error verifying turn order audit:', error);
+      return {
+        success: false,
+        error: error instanceof TurnOrderError ? error.message : 'Failed to verify turn order audit',
+        code: error instanceof TurnOrderError ? error.code : 'UNKNOWN_ERROR',
       };
     }
   }
+
+  /**
+   * Load a group and its active members, throwing if either is missing
+   */
+  private async loadGroupWithActiveMembers(groupId: string): Promise<{ group: Group; members: GroupMember[] }> {
+    const groupResult = await DatabaseService.groups.getGroupById(groupId);
+    if (!groupResult.success || !groupResult.data) {
+      throw new TurnOrderError('Group not found');
+    }
+
+    const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId, { status: 'active' });
+    if (!membersResult.success || !membersResult.data) {
+      throw new TurnOrderError('Failed to fetch group members');
+    }
+
+    return { group: groupResult.data, members: membersResult.data.items };
+  }
+
+  /**
+   * Persist a group's strategy settings
+   */
+  private async saveStrategyConfig(groupId: string, config: TurnOrderStrategyConfig): Promise<void> {
+    const result = await DatabaseService.groups.updateGroup(groupId, { turn_order_strategy: config });
+    if (!result.success) {
+      throw new TurnOrderError('Failed to save turn order strategy', result.error);
+    }
+  }
+
+  /**
+   * Change the strategy settings from what is stored when the change is saved, so
+   * members bidding or voting at the same time keep each other's entries
+   */
+  private async changeStrategyConfig(
+    groupId: string,
+    change: (config: TurnOrderStrategyConfig | undefined) => TurnOrderStrategyConfig
+  ): Promise<TurnOrderStrategyConfig> {
+    const result = await DatabaseService.groups.updateTurnOrderStrategy(groupId, change);
+    if (!result.success || !result.data) {
+      throw new TurnOrderError(result.error || 'Failed to save turn order strategy');
+    }
+    return result.data;
+  }
+
+  /**
+   * Swaps only make sense between active members who are still waiting for their payout
+   */
+  private assertSwappable(members: GroupMember[], userIds: string[]): void {
+    for (const userId of userIds) {
+      const member = members.find(m => m.user_id === userId);
+      if (!member) {
+        throw new TurnOrderError('Both members in a swap must be active');
+      }
+      if (member.payout_received) {
+        throw new TurnOrderError('Cannot swap with a member who has already been paid');
+      }
+    }
+  }
 }
 
-export default new TurnOrderService();
\ No newline at end of file
+export default new TurnOrderService();
@@ -0,0 +1,319 @@
+import { TurnOrderError } from '../../types/business';
+import {
+  Group,
+  GroupMember,
+  TurnOrderAudit,
+  TurnOrderStrategyConfig,
+  TurnOrderStrategyType,
+} from '../../types/database';
+import { canonicalJson, sha256 } from '../../utils/hash';
+
+// Serializable inputs a strategy works from; stored verbatim on each audit record
+export type TurnOrderInputs = TurnOrderAudit['inputs'];
+
+export interface TurnOrderPlan {
+  strategy: TurnOrderStrategyType;
+  inputs: TurnOrderInputs;
+  order: string[]; // user IDs, index 0 receives the first payout of each rotation
+}
+
+/**
+ * A way of deciding who receives the pot in which cycle.
+ * Strategies only see plain inputs (never Firestore documents or the clock),
+ * so running one again on an audit's inputs must give the same order back.
+ */
+export interface TurnOrderStrategy {
+  readonly type: TurnOrderStrategyType;
+  readonly label: string;
+
+  /**
+   * Check strategy-specific settings before they are stored on the group
+   * @returns List of validation errors (empty when valid)
+   */
+  validate(config: TurnOrderStrategyConfig, members: GroupMember[]): string[];
+
+  /**
+   * Order the group's active members
+   * @param inputs - Member IDs in join order plus the strategy's own inputs
+   * @returns Every member ID exactly once, in payout order
+   */
+  order(inputs: TurnOrderInputs): string[];
+}
+
+/**
+ * Classic ajo rotation: whoever joined first is paid first
+ */
+class JoinOrderStrategy implements TurnOrderStrategy {
+  readonly type = 'join_order' as const;
+  readonly label = 'Join order';
+
+  validate(): string[] {
+    return [];
+  }
+
+  order(inputs: TurnOrderInputs): string[] {
+    return [...inputs.member_ids];
+  }
+}
+
+/**
+ * Random draw from a published seed. Anyone holding the seed and the member
+ * list can re-run the shuffle and check the result.
+ */
+class RandomDrawStrategy implements TurnOrderStrategy {
+  readonly type = 'random_draw' as const;
+  readonly label = 'Random draw';
+
+  validate(config: TurnOrderStrategyConfig): string[] {
+    return config.seed !== undefined && !config.seed.trim() ? ['Draw seed cannot be empty'] : [];
+  }
+
+  order(inputs: TurnOrderInputs): string[] {
+    if (!inputs.seed) {
+      throw new TurnOrderError('A seed is required for a random draw');
+    }
+
+    // Fisher-Yates shuffle driven by the seeded generator
+    const random = seededRandom(inputs.seed);
+    const order = [...inputs.member_ids];
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+  }
+}
+
+/**
+ * Members offer a discount on their payout to be paid earlier. Highest
+ * discount goes first; equal bids keep the order they were placed in, and
+ * members without a bid follow in join order.
+ */
+class BiddingStrategy implements TurnOrderStrategy {
+  readonly type = 'bidding' as const;
+  readonly label = 'Bidding';
+
+  validate(config: TurnOrderStrategyConfig): string[] {
+    const invalid = Object.values(config.bids || {}).filter(bid => !(bid.discount_amount > 0));
+    return invalid.length > 0 ? ['Bid discounts must be greater than zero'] : [];
+  }
+
+  order(inputs: TurnOrderInputs): string[] {
+    const bids = inputs.bids || [];
+    const rank = (userId: string) => {
+      const index = bids.findIndex(bid => bid.user_id === userId);
+      return index === -1 ? { discount: 0, placed: bids.length } : { discount: bids[index].discount_amount, placed: index };
+    };
+
+    // Array.sort is stable, so members without a bid stay in join order
+    return [...inputs.member_ids].sort((a, b) => {
+      const rankA = rank(a);
+      const rankB = rank(b);
+      return rankB.discount - rankA.discount || rankA.placed - rankB.placed;
+    });
+  }
+}
+
+/**
+ * The admin sets the order explicitly. Members missing from the list (e.g.
+ * joined after it was set) are appended in join order.
+ */
+class AdminAssignedStrategy implements TurnOrderStrategy {
+  readonly type = 'admin_assigned' as const;
+  readonly label = 'Assigned by admin';
+
+  validate(config: TurnOrderStrategyConfig, members: GroupMember[]): string[] {
+    const errors: string[] = [];
+    const adminOrder = config.admin_order || [];
+    const memberIds = new Set(members.map(member => member.user_id));
+
+    if (adminOrder.length === 0) {
+      errors.push('Admin-assigned order must list at least one member');
+    }
+    if (new Set(adminOrder).size !== adminOrder.length) {
+      errors.push('A member can only appear once in the assigned order');
+    }
+    if (adminOrder.some(userId => !memberIds.has(userId))) {
+      errors.push('Assigned order contains users who are not active members');
+    }
+    return errors;
+  }
+
+  order(inputs: TurnOrderInputs): string[] {
+    const memberIds = new Set(inputs.member_ids);
+    const assigned = (inputs.admin_order || []).filter(userId => memberIds.has(userId));
+    const assignedIds = new Set(assigned);
+    return [...assigned, ...inputs.member_ids.filter(userId => !assignedIds.has(userId))];
+  }
+}
+
+/**
+ * Join order, adjusted by swaps the group voted to approve for members in
+ * need. Swaps are applied in the order they were approved.
+ */
+class NeedBasedStrategy implements TurnOrderStrategy {
+  readonly type = 'need_based' as const;
+  readonly label = 'Need-based swaps';
+
+  validate(): string[] {
+    return [];
+  }
+
+  order(inputs: TurnOrderInputs): string[] {
+    const order = [...inputs.member_ids];
+    for (const swap of inputs.swaps || []) {
+      const from = order.indexOf(swap.requester_id);
+      const to = order.indexOf(swap.swap_with_id);
+      if (from !== -1 && to !== -1) {
+        [order[from], order[to]] = [order[to], order[from]];
+      }
+    }
+    return order;
+  }
+}
+
+export const TURN_ORDER_STRATEGIES: Record<TurnOrderStrategyType, TurnOrderStrategy> = {
+  join_order: new JoinOrderStrategy(),
+  random_draw: new RandomDrawStrategy(),
+  bidding: new BiddingStrategy(),
+  admin_assigned: new AdminAssignedStrategy(),
+  need_based: new NeedBasedStrategy(),
+};
+
+export const getTurnOrderStrategy = (type: TurnOrderStrategyType = 'join_order'): TurnOrderStrategy => {
+  const strategy = TURN_ORDER_STRATEGIES[type];
+  if (!strategy) {
+    throw new TurnOrderError(`Unknown turn order strategy: ${type}`);
+  }
+  return strategy;
+};
+
+// A random draw's seed comes from the group itself, so no one, the admin included, can pick
+// a seed that favours them. firestore.rules recomputes it when the strategy is saved.
+export const drawSeed = (groupId: string): string => sha256(`random_draw:${groupId}`);
+
+/**
+ * Collect the inputs for a group's strategy from its current members.
+ * Members who have already been paid are pinned to the slot they were paid
+ * in, so changing strategy mid-rotation never rewrites history.
+ */
+export const buildTurnOrderInputs = (group: Group, members: GroupMember[]): TurnOrderInputs => {
+  const config = group.turn_order_strategy;
+  const activeMembers = members
+    .filter(member => member.status === 'active')
+    .sort((a, b) => a.join_order - b.join_order);
+  const memberIds = activeMembers.map(member => member.user_id);
+
+  const pinned = activeMembers
+    .filter(member => member.payout_received && member.payout_cycle && member.payout_cycle <= activeMembers.length)
+    .map(member => ({ user_id: member.user_id, position: (member.payout_cycle as number) - 1 }));
+
+  const inputs: TurnOrderInputs = { member_ids: memberIds, pinned };
+  if (group.turn_trades && group.turn_trades.length > 0) {
+    inputs.trades = [...group.turn_trades]
+      .sort((a, b) => new Date(a.applied_at).getTime() - new Date(b.applied_at).getTime())
+      .map(trade => ({ user_a: trade.user_a, user_b: trade.user_b }));
+  }
+  switch (config?.type) {
+    case 'random_draw':
+      inputs.seed = config.seed;
+      break;
+    case 'admin_assigned':
+      inputs.admin_order = config.admin_order || [];
+      break;
+    case 'bidding':
+      inputs.bids = Object.values(config.bids || {})
+        .filter(bid => memberIds.includes(bid.user_id))
+        .sort((a, b) => new Date(a.placed_at).getTime() - new Date(b.placed_at).getTime())
+        .map(bid => ({ user_id: bid.user_id, discount_amount: bid.discount_amount }));
+      break;
+    case 'need_based':
+      inputs.swaps = Object.values(config.swap_requests || {})
+        .filter(swap => swap.status === 'approved' && swap.resolved_at)
+        .sort((a, b) => new Date(a.resolved_at as Date).getTime() - new Date(b.resolved_at as Date).getTime())
+        .map(swap => ({ requester_id: swap.requester_id, swap_with_id: swap.swap_with_id }));
+      break;
+  }
+  return inputs;
+};
+
+/**
+ * Run a strategy on its inputs, apply swaps traded between members, and put
+ * pinned members back in their slots
+ * @returns User IDs in payout order
+ */
+export const resolveTurnOrder = (type: TurnOrderStrategyType, inputs: TurnOrderInputs): string[] => {
+  const ordered = getTurnOrderStrategy(type).order(inputs);
+  for (const trade of inputs.trades || []) {
+    const a = ordered.indexOf(trade.user_a);
+    const b = ordered.indexOf(trade.user_b);
+    if (a !== -1 && b !== -1) {
+      [ordered[a], ordered[b]] = [ordered[b], ordered[a]];
+    }
+  }
+  const pinnedIds = new Set(inputs.pinned.map(pin => pin.user_id));
+  const order: (string | undefined)[] = new Array(ordered.length).fill(undefined);
+
+  for (const pin of inputs.pinned) {
+    if (pin.position < order.length && order[pin.position] === undefined) {
+      order[pin.position] = pin.user_id;
+    } else {
+      pinnedIds.delete(pin.user_id);
+    }
+  }
+
+  const remaining = ordered.filter(userId => !pinnedIds.has(userId));
+  return order.map(slot => slot ?? (remaining.shift() as string));
+};
+
+/**
+ * Work out the payout order for a group from its stored strategy
+ */
+export const planTurnOrder = (group: Group, members: GroupMember[]): TurnOrderPlan => {
+  const strategy = group.turn_order_strategy?.type || 'join_order';
+  const inputs = buildTurnOrderInputs(group, members);
+  return { strategy, inputs, order: resolveTurnOrder(strategy, inputs) };
+};
+
+/**
+ * Build the audit record for a group's current turn order
+ * @param reason - Why the order was (re)calculated
+ * @param triggeredBy - User whose action caused it
+ */
+export const buildTurnOrderAudit = (
+  group: Group,
+  members: GroupMember[],
+  reason: string,
+  triggeredBy?: string,
+): Omit<TurnOrderAudit, 'id' | 'created_at'> => {
+  const plan = planTurnOrder(group, members);
+  return {
+    group_id: group.id,
+    strategy: plan.strategy,
+    reason,
+    ...(triggeredBy ? { triggered_by: triggeredBy } : {}),
+    inputs: plan.inputs,
+    order: plan.order,
+    checksum: turnOrderChecksum(plan),
+  };
+};
+
+/**
+ * SHA-256 checksum over a plan, stored with each audit so tampering with the
+ * inputs or the recorded order is detectable
+ */
+export const turnOrderChecksum = (plan: TurnOrderPlan): string =>
+  sha256(canonicalJson([plan.strategy, plan.inputs, plan.order]));
+
+/* eslint-disable no-bitwise */
+// Mulberry32 generator seeded from the first 32 bits of the string's SHA-256
+const seededRandom = (seed: string): (() => number) => {
+  let state = parseInt(sha256(seed).slice(0, 8), 16);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+/* eslint-enable no-bitwise */
@@ -1,15 +1,17 @@
 import { BusinessLogicResult } from '../../types/business';
-import DatabaseService from '../database';
+import DatabaseService, { Job } from '../database';
 import PaymentTrackingService from './paymentTracking';
 import NotificationService from '../notifications';
 import PayoutNotificationService from '../notifications/payoutNotifications';
+import JobRunner from '../jobs/jobRunner';
+import { getClock } from '../jobs/clock';
 
 export interface TurnRotationJob {
   id: string;
   groupId: string;
   cycle: number;
   scheduledAt: Date;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   attempts: number;
   maxAttempts: number;
   errorMessage?: string;
@@ -29,9 +31,17 @@ export interface TurnRotationResult {
   processedAt: Date;
 }
 
+const ROTATION_JOB = 'turn_rotation';
+
+const rotationKey = (groupId: string, cycle: number) => `turn-rotation:${groupId}:${cycle}`;
+
 class TurnRotationSchedulerService {
-  private pendingJobs: Map<string, NodeJS.Timeout> = new Map();
-  private processingJobs: Set<string> = new Set();
+  constructor() {
+    JobRunner.registerHandler(ROTATION_JOB, job => this.processRotationJob(job), {
+      retryDelayMs: 10 * 60 * 1000, // 10 minutes, then 20
+      onFailed: (job, error) => this.sendFailureNotification(job.payload.groupId, job.payload.cycle, error.message),
+    });
+  }
 
   async scheduleAutomaticRotation(params: {
     groupId: string;
@@ -40,46 +50,34 @@ class TurnRotationSchedulerService {
   }): Promise<BusinessLogicResult<TurnRotationJob>> {
     try {
       const { groupId, cycle, delayMinutes = 5 } = params;
-      const jobId = `rotation_${groupId}_${cycle}_${Date.now()}`;
-      
-      // Check if already scheduled
-      if (this.pendingJobs.has(`${groupId}_${cycle}`)) {
-        return {
-          success: false,
-          error: 'Turn rotation already scheduled for this cycle',
-          code: 'ALREADY_SCHEDULED',
-        };
-      }
+      const scheduledAt = new Date(getClock().now().getTime() + delayMinutes * 60 * 1000);
 
-      const scheduledAt = new Date(Date.now() + delayMinutes * 60 * 1000);
-      
-      const job: TurnRotationJob = {
-        id: jobId,
+      // One rotation job per group and cycle, however many clients schedule it
+      const result = await JobRunner.enqueue({
+        type: ROTATION_JOB,
+        idempotencyKey: rotationKey(groupId, cycle),
         groupId,
-        cycle,
-        scheduledAt,
-        status: 'pending',
-        attempts: 0,
+        payload: { groupId, cycle },
+        runAt: scheduledAt,
         maxAttempts: 3,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      // Store job in database (would be stored in a jobs table in real implementation)
-      await this.storeRotationJob(job);
-
-      // Schedule the job
-      const timeout = setTimeout(() => {
-        this.processRotationJob(jobId);
-      }, delayMinutes * 60 * 1000);
+      });
 
-      this.pendingJobs.set(`${groupId}_${cycle}`, timeout);
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error:
+            result.code === 'DUPLICATE_JOB'
+              ? 'Turn rotation already scheduled for this cycle'
+              : 'Failed to schedule turn rotation',
+          code: result.code === 'DUPLICATE_JOB' ? 'ALREADY_SCHEDULED' : 'SCHEDULE_ERROR',
+        };
+      }
 
       console.log(`Turn rotation scheduled for group ${groupId}, cycle ${cycle} at ${scheduledAt}`);
 
       return {
         success: true,
-        data: job,
+        data: this.toRotationJob(result.data),
       };
     } catch (error) {
       console.error('Error scheduling turn rotation:', error);
@@ -91,164 +89,60 @@ class TurnRotationSchedulerService {
     }
   }
 
-  async processRotationJob(jobId: string): Promise<BusinessLogicResult<TurnRotationResult>> {
-    try {
-      const job = await this.getRotationJob(jobId);
-      if (!job) {
-        return {
-          success: false,
-          error: 'Job not found',
-          code: 'JOB_NOT_FOUND',
-        };
-      }
-
-      const jobKey = `${job.groupId}_${job.cycle}`;
-      
-      // Check if already processing
-      if (this.processingJobs.has(jobKey)) {
-        return {
-          success: false,
-          error: 'Job already being processed',
-          code: 'ALREADY_PROCESSING',
-        };
-      }
-
-      this.processingJobs.add(jobKey);
-      
-      try {
-        // Update job status
-        await this.updateJobStatus(jobId, 'processing');
-
-        // Verify cycle is still complete and ready for rotation
-        const progressResult = await PaymentTrackingService.getPaymentProgress(job.groupId, job.cycle);
-        if (!progressResult.success || !progressResult.data?.canProcessCycle) {
-          throw new Error('Cycle is no longer ready for processing');
-        }
-
-        // Process the automatic turn rotation
-        const rotationResult = await PaymentTrackingService.processAutomaticTurnRotation(
-          job.groupId,
-          job.cycle
-        );
-
-        if (!rotationResult.success) {
-          throw new Error(rotationResult.error || 'Turn rotation failed');
-        }
-
-        // Send rotation completion notifications
-        await this.sendRotationNotifications(job.groupId, job.cycle, rotationResult.data);
+  // Job handler: throwing hands the job back to the runner for a retry
+  private async processRotationJob(job: Job): Promise<void> {
+    const { groupId, cycle } = job.payload as { groupId: string; cycle: number };
 
-        // Setup payout notifications for the recipient
-        if (rotationResult.data.nextRecipient) {
-          await PayoutNotificationService.notifyPayoutCompleted({
-            recipientId: rotationResult.data.recipient.userId,
-            recipientName: rotationResult.data.recipient.name,
-            groupId: job.groupId,
-            groupName: rotationResult.data.groupName || 'Group',
-            cycle: job.cycle,
-            payoutAmount: rotationResult.data.payoutAmount || 0,
-            processingDate: new Date(),
-            payoutMethod: 'mobile_money', // Default method
-          });
-
-          // Announce next recipient
-          await PayoutNotificationService.announceNextRecipient({
-            recipientId: rotationResult.data.nextRecipient.userId,
-            recipientName: rotationResult.data.nextRecipient.name,
-            groupId: job.groupId,
-            groupName: rotationResult.data.groupName || 'Group',
-            cycle: job.cycle + 1,
-            expectedPayoutAmount: rotationResult.data.nextRecipient.expectedAmount,
-            expectedDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-            sendToGroup: true,
-          });
-        }
-
-        // Mark job as completed
-        await this.updateJobStatus(jobId, 'completed');
-
-        const result: TurnRotationResult = {
-          success: true,
-          cycle: job.cycle,
-          nextRecipient: rotationResult.data.nextRecipient,
-          payoutAmount: rotationResult.data.payoutAmount || 0,
-          processedAt: new Date(),
-        };
-
-        console.log(`Turn rotation completed for group ${job.groupId}, cycle ${job.cycle}`);
+    // Verify cycle is still complete and ready for rotation
+    const progressResult = await PaymentTrackingService.getPaymentProgress(groupId, cycle);
+    if (!progressResult.success || !progressResult.data?.canProcessCycle) {
+      throw new Error('Cycle is no longer ready for processing');
+    }
 
-        return {
-          success: true,
-          data: result,
-        };
+    // Process the automatic turn rotation
+    const rotationResult = await PaymentTrackingService.processAutomaticTurnRotation(groupId, cycle);
+    if (!rotationResult.success) {
+      throw new Error(rotationResult.error || 'Turn rotation failed');
+    }
 
-      } catch (error) {
-        console.error('Error processing rotation job:', error);
-        
-        // Increment attempts and decide on retry
-        job.attempts += 1;
-        job.errorMessage = error.message;
+    // Send rotation completion notifications
+    await this.sendRotationNotifications(groupId, cycle, rotationResult.data);
 
-        if (job.attempts >= job.maxAttempts) {
-          await this.updateJobStatus(jobId, 'failed');
-          
-          // Send failure notification to admin
-          await this.sendFailureNotification(job.groupId, job.cycle, error.message);
-          
-          return {
-            success: false,
-            error: `Turn rotation failed after ${job.maxAttempts} attempts: ${error.message}`,
-            code: 'MAX_ATTEMPTS_EXCEEDED',
-          };
-        } else {
-          // Schedule retry in 10 minutes
-          setTimeout(() => {
-            this.processRotationJob(jobId);
-          }, 10 * 60 * 1000);
-          
-          await this.updateJobStatus(jobId, 'pending');
-          
-          return {
-            success: false,
-            error: `Turn rotation failed, retry scheduled (attempt ${job.attempts}/${job.maxAttempts})`,
-            code: 'RETRY_SCHEDULED',
-          };
-        }
-      } finally {
-        this.processingJobs.delete(jobKey);
-        this.pendingJobs.delete(jobKey);
-      }
-    } catch (error) {
-      console.error('Error in processRotationJob:', error);
-      return {
-        success: false,
-        error: 'Failed to process rotation job',
-        code: 'PROCESSING_ERROR',
-      };
+    // The recipient hears about their payout as it is sent and confirmed (see PayoutService)
+    if (rotationResult.data.nextRecipient) {
+      // Announce next recipient
+      await PayoutNotificationService.announceNextRecipient({
+        recipientId: rotationResult.data.nextRecipient.userId,
+        recipientName: rotationResult.data.nextRecipient.name,
+        groupId,
+        groupName: rotationResult.data.groupName || 'Group',
+        cycle: cycle + 1,
+        expectedPayoutAmount: rotationResult.data.nextRecipient.expectedAmount,
+        currency: progressResult.data.currency,
+        expectedDate: new Date(getClock().now().getTime() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+        sendToGroup: true,
+      });
     }
+
+    console.log(`Turn rotation completed for group ${groupId}, cycle ${cycle}`);
   }
 
   async cancelScheduledRotation(groupId: string, cycle: number): Promise<BusinessLogicResult<boolean>> {
     try {
-      const jobKey = `${groupId}_${cycle}`;
-      
-      if (this.pendingJobs.has(jobKey)) {
-        const timeout = this.pendingJobs.get(jobKey)!;
-        clearTimeout(timeout);
-        this.pendingJobs.delete(jobKey);
-        
-        console.log(`Cancelled scheduled rotation for group ${groupId}, cycle ${cycle}`);
-        
+      const result = await JobRunner.cancel(rotationKey(groupId, cycle));
+      if (!result.success) {
         return {
-          success: true,
-          data: true,
+          success: false,
+          error: 'No scheduled rotation found',
+          code: 'NOT_SCHEDULED',
         };
       }
 
+      console.log(`Cancelled scheduled rotation for group ${groupId}, cycle ${cycle}`);
+
       return {
-        success: false,
-        error: 'No scheduled rotation found',
-        code: 'NOT_SCHEDULED',
+        success: true,
+        data: true,
       };
     } catch (error) {
       console.error('Error cancelling scheduled rotation:', error);
@@ -262,31 +156,14 @@ class TurnRotationSchedulerService {
 
   async getScheduledRotations(groupId?: string): Promise<BusinessLogicResult<TurnRotationJob[]>> {
     try {
-      // In real implementation, would query jobs table
-      const jobs: TurnRotationJob[] = [];
-      
-      // For now, return information about pending jobs
-      const pendingJobs: TurnRotationJob[] = [];
-      for (const [key, _] of this.pendingJobs) {
-        const [gId, cycle] = key.split('_');
-        if (!groupId || gId === groupId) {
-          pendingJobs.push({
-            id: `pending_${key}`,
-            groupId: gId,
-            cycle: parseInt(cycle),
-            scheduledAt: new Date(), // Would be actual scheduled time
-            status: 'pending',
-            attempts: 0,
-            maxAttempts: 3,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          });
-        }
+      const jobsResult = await DatabaseService.jobs.getJobsByType(ROTATION_JOB, ['pending', 'running'], groupId);
+      if (!jobsResult.success || !jobsResult.data) {
+        throw new Error(jobsResult.error);
       }
 
       return {
         success: true,
-        data: pendingJobs,
+        data: jobsResult.data.map(job => this.toRotationJob(job)),
       };
     } catch (error) {
       console.error('Error getting scheduled rotations:', error);
@@ -306,7 +183,7 @@ class TurnRotationSchedulerService {
     try {
       // Get group members
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) return;
+      if (!membersResult.success || !membersResult.data) return;
 
       const members = membersResult.data.items;
       
@@ -352,7 +229,7 @@ class TurnRotationSchedulerService {
     try {
       // Get group admin
       const groupResult = await DatabaseService.groups.getGroupById(groupId);
-      if (!groupResult.success) return;
+      if (!groupResult.success || !groupResult.data) return;
 
       const adminId = groupResult.data.admin_id;
       
@@ -371,43 +248,26 @@ class TurnRotationSchedulerService {
     }
   }
 
-  private async storeRotationJob(job: TurnRotationJob): Promise<void> {
-    // In real implementation, would store in database
-    console.log('Storing rotation job:', job.id);
-  }
-
-  private async getRotationJob(jobId: string): Promise<TurnRotationJob | null> {
-    // In real implementation, would fetch from database
-    // For now, create a mock job based on jobId
-    const parts = jobId.split('_');
-    if (parts.length >= 4) {
-      return {
-        id: jobId,
-        groupId: parts[1],
-        cycle: parseInt(parts[2]),
-        scheduledAt: new Date(),
-        status: 'pending',
-        attempts: 0,
-        maxAttempts: 3,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-    }
-    return null;
-  }
-
-  private async updateJobStatus(jobId: string, status: TurnRotationJob['status']): Promise<void> {
-    // In real implementation, would update in database
-    console.log(`Updating job ${jobId} status to ${status}`);
-  }
-
-  // Cleanup method to be called when service shuts down
-  cleanup(): void {
-    for (const timeout of this.pendingJobs.values()) {
-      clearTimeout(timeout);
-    }
-    this.pendingJobs.clear();
-    this.processingJobs.clear();
+  private toRotationJob(job: Job): TurnRotationJob {
+    const statuses: Record<Job['status'], TurnRotationJob['status']> = {
+      pending: 'pending',
+      running: 'processing',
+      completed: 'completed',
+      failed: 'failed',
+      cancelled: 'cancelled',
+    };
+    return {
+      id: job.id,
+      groupId: job.payload.groupId,
+      cycle: job.payload.cycle,
+      scheduledAt: job.run_at,
+      status: statuses[job.status],
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      errorMessage: job.last_error,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    };
   }
 }
 
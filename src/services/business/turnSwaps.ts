@@ -0,0 +1,380 @@
+import {
+  BusinessLogicResult,
+  ProposeTurnSwapParams,
+  TurnOrder,
+  TurnSwapError,
+} from '../../types/business';
+import { Group, GroupMember, TurnSwap, TurnTrade } from '../../types/database';
+import DatabaseService from '../database';
+import GroupNotificationService from '../notifications/groupNotifications';
+import TurnOrderService from './turnOrder';
+import { buildTurnOrderAudit } from './turnOrderStrategies';
+import NotificationActions, { actionOutcome } from '../notifications/actions';
+
+/**
+ * Marketplace where members trade payout positions.
+ * A member proposes giving up one of their upcoming cycles for another
+ * member's cycle; the counterparty accepts, and the admin approves when the
+ * group requires it. Completed swaps are stored as trades on the group and
+ * applied on top of its turn order strategy.
+ */
+class TurnSwapService {
+  constructor() {
+    NotificationActions.registerHandler('accept_swap', async ({ userId, data }) =>
+      actionOutcome(await this.respondToSwap(data.swapId || '', userId, true), { message: 'Turn swap accepted' })
+    );
+    NotificationActions.registerHandler('decline_swap', async ({ userId, data }) =>
+      actionOutcome(await this.respondToSwap(data.swapId || '', userId, false), { message: 'Turn swap declined' })
+    );
+    NotificationActions.registerHandler('approve_swap', async ({ userId, data }) =>
+      actionOutcome(await this.reviewSwap(data.swapId || '', userId, true), { message: 'Turn swap approved' })
+    );
+    NotificationActions.registerHandler('reject_swap', async ({ userId, data }) =>
+      actionOutcome(await this.reviewSwap(data.swapId || '', userId, false), { message: 'Turn swap rejected' })
+    );
+  }
+
+  /**
+   * Propose swapping one of your upcoming cycles for another member's cycle
+   * @param params - Group, requester and the two cycles being traded
+   * @returns The created swap proposal
+   */
+  async proposeSwap(params: ProposeTurnSwapParams): Promise<BusinessLogicResult<TurnSwap>> {
+    try {
+      const { groupId, requesterId, requesterCycle, counterpartyCycle, message } = params;
+
+      const { group, members } = await this.loadGroup(groupId);
+      const schedule = await this.getSchedule(group, members);
+      this.assertCycleOpen(group, requesterCycle);
+      this.assertCycleOpen(group, counterpartyCycle);
+
+      const requesterTurn = schedule.find(turn => turn.cycle === requesterCycle);
+      if (!requesterTurn || requesterTurn.recipientId !== requesterId) {
+        throw new TurnSwapError(`Cycle ${requesterCycle} is not your turn`);
+      }
+
+      const counterpartyTurn = schedule.find(turn => turn.cycle === counterpartyCycle);
+      if (!counterpartyTurn) {
+        throw new TurnSwapError(`Cycle ${counterpartyCycle} is not in the schedule`);
+      }
+      if (counterpartyTurn.recipientId === requesterId) {
+        throw new TurnSwapError('You cannot swap turns with yourself');
+      }
+      this.assertNotPaid(members, [requesterId, counterpartyTurn.recipientId]);
+
+      // Only one open proposal per pair of members at a time
+      const openResult = await DatabaseService.turnSwaps.getGroupSwaps(groupId, ['proposed', 'accepted']);
+      const duplicate = (openResult.data || []).some(
+        swap => swap.requester_id === requesterId && swap.counterparty_id === counterpartyTurn.recipientId
+      );
+      if (duplicate) {
+        throw new TurnSwapError('You already have an open swap request with this member');
+      }
+
+      const createResult = await DatabaseService.turnSwaps.createSwap({
+        group_id: groupId,
+        requester_id: requesterId,
+        requester_cycle: requesterCycle,
+        counterparty_id: counterpartyTurn.recipientId,
+        counterparty_cycle: counterpartyCycle,
+        ...(message ? { message } : {}),
+        requires_admin_approval: group.require_swap_approval === true,
+      });
+      if (!createResult.success || !createResult.data) {
+        throw new TurnSwapError(createResult.error || 'Failed to create swap request');
+      }
+
+      await this.notify(group, members, createResult.data, 'proposed');
+
+      return {
+        success: true,
+        data: createResult.data,
+      };
+    } catch (error) {
+      console.error('Error proposing turn swap:', error);
+      return {
+        success: false,
+        error: error instanceof TurnSwapError ? error.message : 'Failed to propose turn swap',
+        code: error instanceof TurnSwapError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Accept or decline a swap proposed to you
+   * @param swapId - Swap ID
+   * @param userId - Responding member (must be the counterparty)
+   * @param accept - Whether the swap is accepted
+   * @returns The swap after the response; completed unless the admin must approve
+   */
+  async respondToSwap(swapId: string, userId: string, accept: boolean): Promise<BusinessLogicResult<TurnSwap>> {
+    try {
+      const swap = await this.loadSwap(swapId);
+      if (swap.counterparty_id !== userId) {
+        throw new TurnSwapError('Only the member asked to swap can respond');
+      }
+      if (swap.status !== 'proposed') {
+        throw new TurnSwapError(`Swap request is already ${swap.status}`);
+      }
+
+      const { group, members } = await this.loadGroup(swap.group_id);
+
+      if (!accept) {
+        const declined = await this.resolveSwap(swap, 'declined', userId);
+        await this.notify(group, members, declined, 'declined');
+        return { success: true, data: declined };
+      }
+
+      await this.assertStillValid(group, members, swap);
+
+      if (swap.requires_admin_approval) {
+        const updateResult = await DatabaseService.turnSwaps.updateSwap(swap.id, {
+          status: 'accepted',
+          accepted_at: new Date(),
+        });
+        if (!updateResult.success || !updateResult.data) {
+          throw new TurnSwapError('Failed to accept swap request');
+        }
+        await this.notify(group, members, updateResult.data, 'awaiting_approval');
+        return { success: true, data: updateResult.data };
+      }
+
+      return { success: true, data: await this.applySwap(group, members, swap, userId) };
+    } catch (error) {
+      console.error('Error responding to turn swap:', error);
+      return {
+        success: false,
+        error: error instanceof TurnSwapError ? error.message : 'Failed to respond to turn swap',
+        code: error instanceof TurnSwapError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Approve or reject an accepted swap (admin only)
+   * @param swapId - Swap ID
+   * @param adminId - Group admin
+   * @param approve - Whether the swap is approved
+   * @returns The completed or rejected swap
+   */
+  async reviewSwap(swapId: string, adminId: string, approve: boolean): Promise<BusinessLogicResult<TurnSwap>> {
+    try {
+      const swap = await this.loadSwap(swapId);
+      const { group, members } = await this.loadGroup(swap.group_id);
+
+      if (group.admin_id !== adminId) {
+        throw new TurnSwapError('Only the group admin can review swaps');
+      }
+      if (swap.status !== 'accepted') {
+        throw new TurnSwapError('Only swaps accepted by both members can be reviewed');
+      }
+
+      if (!approve) {
+        const rejected = await this.resolveSwap(swap, 'rejected', adminId);
+        await this.notify(group, members, rejected, 'rejected');
+        return { success: true, data: rejected };
+      }
+
+      await this.assertStillValid(group, members, swap);
+      return { success: true, data: await this.applySwap(group, members, swap, adminId) };
+    } catch (error) {
+      console.error('Error reviewing turn swap:', error);
+      return {
+        success: false,
+        error: error instanceof TurnSwapError ? error.message : 'Failed to review turn swap',
+        code: error instanceof TurnSwapError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Withdraw a swap you proposed before it is completed
+   * @param swapId - Swap ID
+   * @param userId - Requester
+   * @returns The cancelled swap
+   */
+  async cancelSwap(swapId: string, userId: string): Promise<BusinessLogicResult<TurnSwap>> {
+    try {
+      const swap = await this.loadSwap(swapId);
+      if (swap.requester_id !== userId) {
+        throw new TurnSwapError('Only the member who proposed the swap can cancel it');
+      }
+      if (swap.status !== 'proposed' && swap.status !== 'accepted') {
+        throw new TurnSwapError(`Swap request is already ${swap.status}`);
+      }
+
+      return { success: true, data: await this.resolveSwap(swap, 'cancelled', userId) };
+    } catch (error) {
+      console.error('Error cancelling turn swap:', error);
+      return {
+        success: false,
+        error: error instanceof TurnSwapError ? error.message : 'Failed to cancel turn swap',
+        code: error instanceof TurnSwapError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Get swaps in a group that are still waiting on a member or the admin
+   * @param groupId - Group ID
+   * @returns Open swap requests, newest first
+   */
+  async getOpenSwaps(groupId: string): Promise<BusinessLogicResult<TurnSwap[]>> {
+    const result = await DatabaseService.turnSwaps.getGroupSwaps(groupId, ['proposed', 'accepted']);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to load swap requests', code: 'UNKNOWN_ERROR' };
+    }
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Rewrite the schedule: store the trade, complete the swap and record the
+   * resulting turn order in a single transaction, then tell both members
+   */
+  private async applySwap(
+    group: Group,
+    members: GroupMember[],
+    swap: TurnSwap,
+    resolvedBy: string
+  ): Promise<TurnSwap> {
+    const trade: TurnTrade = {
+      swap_id: swap.id,
+      user_a: swap.requester_id,
+      user_b: swap.counterparty_id,
+      applied_at: new Date(),
+    };
+    const completeResult = await DatabaseService.turnSwaps.completeSwap(swap.id, resolvedBy, trade, turnTrades =>
+      buildTurnOrderAudit({ ...group, turn_trades: turnTrades }, members, 'swap_completed', resolvedBy)
+    );
+    if (!completeResult.success || !completeResult.data) {
+      throw new TurnSwapError(completeResult.error || 'Failed to apply swap');
+    }
+
+    await this.notify(group, members, completeResult.data, 'completed');
+    console.log(`✅ Swapped cycles ${swap.requester_cycle} and ${swap.counterparty_cycle} in group ${group.id}`);
+
+    return completeResult.data;
+  }
+
+  /**
+   * Close a swap without applying it
+   */
+  private async resolveSwap(
+    swap: TurnSwap,
+    status: 'declined' | 'rejected' | 'cancelled',
+    resolvedBy: string
+  ): Promise<TurnSwap> {
+    const updateResult = await DatabaseService.turnSwaps.updateSwap(swap.id, {
+      status,
+      resolved_at: new Date(),
+      resolved_by: resolvedBy,
+    });
+    if (!updateResult.success || !updateResult.data) {
+      throw new TurnSwapError('Failed to update swap request');
+    }
+    return updateResult.data;
+  }
+
+  /**
+   * The schedule may have moved on since the swap was proposed; make sure both
+   * cycles are still upcoming and still belong to the same members
+   */
+  private async assertStillValid(group: Group, members: GroupMember[], swap: TurnSwap): Promise<void> {
+    this.assertCycleOpen(group, swap.requester_cycle);
+    this.assertCycleOpen(group, swap.counterparty_cycle);
+    this.assertNotPaid(members, [swap.requester_id, swap.counterparty_id]);
+
+    const schedule = await this.getSchedule(group, members);
+    const recipientOf = (cycle: number) => schedule.find(turn => turn.cycle === cycle)?.recipientId;
+    if (
+      recipientOf(swap.requester_cycle) !== swap.requester_id ||
+      recipientOf(swap.counterparty_cycle) !== swap.counterparty_id
+    ) {
+      throw new TurnSwapError('The payout schedule has changed since this swap was proposed');
+    }
+  }
+
+  /**
+   * Completed and current cycles can no longer be traded
+   */
+  private assertCycleOpen(group: Group, cycle: number): void {
+    if (!Number.isInteger(cycle) || cycle < 1 || cycle > group.total_cycles) {
+      throw new TurnSwapError(`Cycle ${cycle} is not in the schedule`);
+    }
+    if (cycle <= group.current_cycle) {
+      throw new TurnSwapError(`Cycle ${cycle} is already completed or in progress and cannot be swapped`);
+    }
+  }
+
+  private assertNotPaid(members: GroupMember[], userIds: string[]): void {
+    for (const userId of userIds) {
+      const member = members.find(m => m.user_id === userId);
+      if (!member) {
+        throw new TurnSwapError('Both members in a swap must be active');
+      }
+      if (member.payout_received) {
+        throw new TurnSwapError('Members who have already been paid cannot swap turns');
+      }
+    }
+  }
+
+  private async getSchedule(group: Group, members: GroupMember[]): Promise<TurnOrder[]> {
+    const result = await TurnOrderService.calculateTurnOrder({
+      group,
+      members,
+      currentCycle: group.current_cycle,
+    });
+    if (!result.success || !result.data) {
+      throw new TurnSwapError(result.error || 'Failed to calculate turn schedule');
+    }
+    return result.data;
+  }
+
+  private async loadGroup(groupId: string): Promise<{ group: Group; members: GroupMember[] }> {
+    const groupResult = await DatabaseService.groups.getGroupById(groupId);
+    if (!groupResult.success || !groupResult.data) {
+      throw new TurnSwapError('Group not found');
+    }
+
+    const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId, { status: 'active' });
+    if (!membersResult.success || !membersResult.data) {
+      throw new TurnSwapError('Failed to fetch group members');
+    }
+
+    return { group: groupResult.data, members: membersResult.data.items };
+  }
+
+  private async loadSwap(swapId: string): Promise<TurnSwap> {
+    const swapResult = await DatabaseService.turnSwaps.getSwapById(swapId);
+    if (!swapResult.success || !swapResult.data) {
+      throw new TurnSwapError('Swap request not found');
+    }
+    return swapResult.data;
+  }
+
+  private async notify(
+    group: Group,
+    members: GroupMember[],
+    swap: TurnSwap,
+    event: 'proposed' | 'awaiting_approval' | 'completed' | 'declined' | 'rejected'
+  ): Promise<void> {
+    const nameOf = (userId: string) =>
+      members.find(member => member.user_id === userId)?.display_name || 'A member';
+
+    await GroupNotificationService.notifyTurnSwap({
+      groupId: group.id,
+      groupName: group.name,
+      event,
+      swapId: swap.id,
+      requesterId: swap.requester_id,
+      requesterName: nameOf(swap.requester_id),
+      requesterCycle: swap.requester_cycle,
+      counterpartyId: swap.counterparty_id,
+      counterpartyName: nameOf(swap.counterparty_id),
+      counterpartyCycle: swap.counterparty_cycle,
+      adminId: group.admin_id,
+    });
+  }
+}
+
+export default new TurnSwapService();
@@ -0,0 +1,462 @@
+import { BusinessLogicResult, WalletError } from '../../types/business';
+import DatabaseService, {
+  AppliedWalletPayment,
+  Contribution,
+  Group,
+  LEDGER_ACCOUNTS,
+  LedgerEntry,
+  MemberWallet,
+  WalletCreditSource,
+  WalletWithdrawal,
+  walletAccount,
+  walletId,
+} from '../database';
+import { credit, debit } from '../database/ledger';
+import NotificationService from '../notifications';
+import { getClock } from '../jobs/clock';
+import AuditLogService, { SYSTEM_ACTOR } from './auditLog';
+import { hasGroupPermission } from '../../utils/permissions';
+import { CurrencyCode, currencyOf, formatAmount, money, multiplyMoney, subtractMoney, toMajor } from '../../utils/money';
+
+const CREDIT_DESCRIPTIONS: Record<WalletCreditSource, string> = {
+  overpayment: 'Overpayment',
+  refund: 'Refund',
+  prepayment: 'Prepayment',
+};
+
+/**
+ * Member credit wallets.
+ *
+ * Each member has a balance with each group for money that isn't tied to one
+ * contribution: the extra when a payment is confirmed for more than was owed,
+ * the refund when they leave, or money paid in advance for future cycles.
+ * When a new cycle's contributions are created, wallet funds settle them
+ * first. Members can ask to withdraw their balance; an admin or treasurer
+ * approves the withdrawal before it leaves the wallet.
+ */
+class WalletService {
+  /**
+   * A member's wallet with a group
+   * @returns The wallet, with a zero balance if nothing has been put in yet
+   */
+  async getWallet(groupId: string, userId: string): Promise<BusinessLogicResult<MemberWallet>> {
+    try {
+      const result = await DatabaseService.wallets.getWallet(groupId, userId);
+      if (!result.success) {
+        throw new WalletError(result.error || 'Failed to load wallet');
+      }
+      const now = getClock().now();
+      return {
+        success: true,
+        data: result.data || { id: walletId(groupId, userId), group_id: groupId, user_id: userId, balance: 0, created_at: now, updated_at: now },
+      };
+    } catch (error) {
+      console.error('Error loading wallet:', error);
+      return {
+        success: false,
+        error: error instanceof WalletError ? error.message : 'Failed to load wallet',
+        code: error instanceof WalletError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Put the part of a confirmed payment above what was owed into the member's wallet
+   * @param contribution - The contribution the payment was confirmed for
+   * @param amount - The extra received
+   */
+  async creditOverpayment(
+    contribution: Contribution,
+    amount: number,
+    adminId: string,
+  ): Promise<BusinessLogicResult<MemberWallet>> {
+    try {
+      const group = await this.loadGroup(contribution.group_id);
+      const wallet = await this.credit({
+        groupId: contribution.group_id,
+        userId: contribution.user_id,
+        source: 'overpayment',
+        amount,
+        currency: currencyOf(group),
+        entryId: `wallet_overpayment_${contribution.id}`,
+        referenceId: contribution.id,
+        cycleNumber: contribution.cycle_number,
+        createdBy: adminId,
+      });
+      return { success: true, data: wallet };
+    } catch (error) {
+      console.error('Error crediting overpayment:', error);
+      return {
+        success: false,
+        error: error instanceof WalletError ? error.message : 'Failed to credit overpayment',
+        code: error instanceof WalletError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Record money a member paid in advance, to settle their coming contributions
+   * @param params.amount - Amount received
+   * @param params.cycles - Or the number of cycles paid for, at the group's contribution amount
+   * @returns The member's wallet after the prepayment
+   */
+  async recordPrepayment(params: {
+    groupId: string;
+    memberId: string;
+    adminId: string;
+    amount?: number;
+    cycles?: number;
+    notes?: string;
+  }): Promise<BusinessLogicResult<MemberWallet>> {
+    try {
+      const { groupId, memberId, adminId, cycles, notes } = params;
+      const group = await this.loadGroup(groupId);
+      if (!hasGroupPermission(group, adminId, 'canMarkPayments')) {
+        throw new WalletError('You do not have permission to record payments');
+      }
+      const membership = await DatabaseService.groupMembers.getMemberByUserAndGroup(memberId, groupId);
+      if (!membership.success || !membership.data || membership.data.status !== 'active') {
+        throw new WalletError('Only active members can prepay');
+      }
+
+      const currency = currencyOf(group);
+      const amount = cycles ? toMajor(multiplyMoney(money(group.contribution_amount, currency), cycles)) : params.amount || 0;
+      if (!(money(amount, currency).minorUnits > 0)) {
+        throw new WalletError('Enter the amount received or the number of cycles paid for');
+      }
+
+      const wallet = await this.credit({
+        groupId,
+        userId: memberId,
+        source: 'prepayment',
+        amount,
+        currency,
+        entryId: `wallet_prepayment_${DatabaseService.ledger.generateEntryId()}`,
+        referenceId: memberId,
+        cycleNumber: group.current_cycle,
+        createdBy: adminId,
+      });
+
+      await AuditLogService.record({
+        groupId,
+        actorId: adminId,
+        category: 'payments',
+        action: 'wallet_prepayment_recorded',
+        targetId: memberId,
+        before: { balance: toMajor(subtractMoney(money(wallet.balance, currency), money(amount, currency))) },
+        after: { balance: wallet.balance },
+        reason: notes,
+        metadata: { amount, ...(cycles ? { cycles } : {}) },
+      });
+
+      return { success: true, data: wallet };
+    } catch (error) {
+      console.error('Error recording prepayment:', error);
+      return {
+        success: false,
+        error: error instanceof WalletError ? error.message : 'Failed to record prepayment',
+        code: error instanceof WalletError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Pay new contributions from their members' wallets, as far as each wallet goes
+   * @param contributions - Contributions just created for a cycle
+   * @returns The payments made; members without wallet funds are left out
+   */
+  async settleFromWallets(contributions: Contribution[]): Promise<BusinessLogicResult<AppliedWalletPayment[]>> {
+    try {
+      const applied: AppliedWalletPayment[] = [];
+      for (const contribution of contributions) {
+        const result = await DatabaseService.wallets.applyToContribution(contribution.id, getClock().now());
+        if (!result.success) {
+          console.error(`Error paying contribution ${contribution.id} from wallet:`, result.error);
+          continue;
+        }
+        if (!result.data) {
+          continue;
+        }
+        applied.push(result.data);
+
+        await AuditLogService.record({
+          groupId: contribution.group_id,
+          actorId: SYSTEM_ACTOR,
+          category: 'payments',
+          action: 'wallet_applied',
+          targetId: contribution.id,
+          before: { status: contribution.status },
+          after: { status: result.data.contribution.status, paid_amount: result.data.contribution.paid_amount },
+          metadata: { member_id: contribution.user_id, cycle: contribution.cycle_number, amount: result.data.amount },
+        });
+        await this.notifyMember(contribution.group_id, contribution.user_id, 'wallet_contribution_paid', {
+          amount: result.data.amount,
+          cycle: contribution.cycle_number,
+        });
+      }
+      return { success: true, data: applied };
+    } catch (error) {
+      console.error('Error settling contributions from wallets:', error);
+      return {
+        success: false,
+        error: 'Failed to settle contributions from wallets',
+        code: 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Ask for money in your wallet to be paid out to you
+   * @param params.amount - How much to withdraw; the whole balance when left out
+   * @returns The withdrawal request, waiting for an admin
+   */
+  async requestWithdrawal(params: {
+    groupId: string;
+    userId: string;
+    amount?: number;
+    notes?: string;
+  }): Promise<BusinessLogicResult<WalletWithdrawal>> {
+    try {
+      const { groupId, userId, notes } = params;
+      const group = await this.loadGroup(groupId);
+      const currency = currencyOf(group);
+
+      const walletResult = await DatabaseService.wallets.getWallet(groupId, userId);
+      const balance = walletResult.data?.balance || 0;
+      const amount = params.amount ?? balance;
+      if (!(money(amount, currency).minorUnits > 0)) {
+        throw new WalletError('There is nothing in your wallet to withdraw');
+      }
+      if (money(amount, currency).minorUnits > money(balance, currency).minorUnits) {
+        throw new WalletError(`Your wallet only holds ${formatAmount(balance, currency)}`);
+      }
+
+      const openResult = await DatabaseService.wallets.getGroupWithdrawals(groupId, ['requested'], userId);
+      if ((openResult.data || []).length > 0) {
+        throw new WalletError('You already have a withdrawal waiting for approval');
+      }
+
+      const created = await DatabaseService.wallets.createWithdrawal({
+        group_id: groupId,
+        user_id: userId,
+        amount,
+        status: 'requested',
+        ...(notes ? { notes } : {}),
+        created_at: getClock().now(),
+      });
+      if (!created.success || !created.data) {
+        throw new WalletError(created.error || 'Failed to request withdrawal');
+      }
+
+      const userResult = await DatabaseService.users.getUserById(userId);
+      await this.notifyMember(groupId, group.admin_id, 'wallet_withdrawal_requested', {
+        memberName: userResult.data?.name || 'A member',
+        amount,
+      });
+
+      return { success: true, data: created.data };
+    } catch (error) {
+      console.error('Error requesting withdrawal:', error);
+      return {
+        success: false,
+        error: error instanceof WalletError ? error.message : 'Failed to request withdrawal',
+        code: error instanceof WalletError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Approve a withdrawal once the money has been paid to the member
+   * @returns The approved withdrawal
+   */
+  async approveWithdrawal(params: {
+    withdrawalId: string;
+    adminId: string;
+    notes?: string;
+  }): Promise<BusinessLogicResult<WalletWithdrawal>> {
+    try {
+      const { withdrawalId, adminId, notes } = params;
+      const { withdrawal, group } = await this.loadWithdrawal(withdrawalId, adminId);
+
+      const result = await DatabaseService.wallets.approveWithdrawal(withdrawalId, {
+        decided_by: adminId,
+        decided_at: getClock().now(),
+        ...(notes ? { decision_notes: notes } : {}),
+        cycle_number: group.current_cycle,
+      });
+      if (!result.success || !result.data) {
+        throw new WalletError(result.error || 'Failed to approve withdrawal');
+      }
+
+      await AuditLogService.record({
+        groupId: group.id,
+        actorId: adminId,
+        category: 'payments',
+        action: 'wallet_withdrawal_approved',
+        targetId: withdrawal.user_id,
+        before: { status: withdrawal.status },
+        after: { status: 'approved' },
+        reason: notes,
+        metadata: { withdrawal_id: withdrawalId, amount: withdrawal.amount },
+      });
+      await this.notifyMember(group.id, withdrawal.user_id, 'wallet_withdrawal_approved', { amount: withdrawal.amount });
+
+      return { success: true, data: result.data };
+    } catch (error) {
+      console.error('Error approving withdrawal:', error);
+      return {
+        success: false,
+        error: error instanceof WalletError ? error.message : 'Failed to approve withdrawal',
+        code: error instanceof WalletError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Turn down a withdrawal and tell the member why; the money stays in their wallet
+   * @returns The rejected withdrawal
+   */
+  async rejectWithdrawal(params: {
+    withdrawalId: string;
+    adminId: string;
+    reason: string;
+  }): Promise<BusinessLogicResult<WalletWithdrawal>> {
+    try {
+      const { withdrawalId, adminId } = params;
+      const reason = params.reason.trim();
+      if (!reason) {
+        throw new WalletError('Please give a reason so the member knows why');
+      }
+      const { withdrawal, group } = await this.loadWithdrawal(withdrawalId, adminId);
+
+      const result = await DatabaseService.wallets.rejectWithdrawal(withdrawalId, {
+        decided_by: adminId,
+        decided_at: getClock().now(),
+        decision_notes: reason,
+      });
+      if (!result.success || !result.data) {
+        throw new WalletError(result.error || 'Failed to reject withdrawal');
+      }
+
+      await AuditLogService.record({
+        groupId: group.id,
+        actorId: adminId,
+        category: 'payments',
+        action: 'wallet_withdrawal_rejected',
+        targetId: withdrawal.user_id,
+        before: { status: withdrawal.status },
+        after: { status: 'rejected' },
+        reason,
+        metadata: { withdrawal_id: withdrawalId, amount: withdrawal.amount },
+      });
+      await this.notifyMember(group.id, withdrawal.user_id, 'wallet_withdrawal_rejected', {
+        amount: withdrawal.amount,
+        reason,
+      });
+
+      return { success: true, data: result.data };
+    } catch (error) {
+      console.error('Error rejecting withdrawal:', error);
+      return {
+        success: false,
+        error: error instanceof WalletError ? error.message : 'Failed to reject withdrawal',
+        code: error instanceof WalletError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * A group's withdrawal requests, newest first
+   * @param statuses - Only these statuses, e.g. ['requested'] for the approval queue
+   */
+  async getWithdrawals(
+    groupId: string,
+    statuses?: WalletWithdrawal['status'][],
+  ): Promise<BusinessLogicResult<WalletWithdrawal[]>> {
+    const result = await DatabaseService.wallets.getGroupWithdrawals(groupId, statuses);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to load withdrawals', code: 'FETCH_ERROR' };
+    }
+    return { success: true, data: result.data };
+  }
+
+  // Money comes into the group and is held for the member, apart from the pot
+  private async credit(params: {
+    groupId: string;
+    userId: string;
+    source: WalletCreditSource;
+    amount: number;
+    currency: CurrencyCode;
+    entryId: string;
+    referenceId: string;
+    cycleNumber: number;
+    createdBy?: string;
+  }): Promise<MemberWallet> {
+    const entry: LedgerEntry = {
+      id: params.entryId,
+      group_id: params.groupId,
+      type: 'wallet',
+      cycle_number: params.cycleNumber,
+      reference_id: params.referenceId,
+      description: `${CREDIT_DESCRIPTIONS[params.source]} into wallet`,
+      currency: params.currency,
+      lines: [
+        debit(LEDGER_ACCOUNTS.WALLET_FUNDS, params.amount, params.currency),
+        credit(walletAccount(params.userId), params.amount, params.currency),
+      ],
+      created_by: params.createdBy,
+      created_at: getClock().now(),
+    };
+    const result = await DatabaseService.wallets.creditWallet(params.groupId, params.userId, entry);
+    if (!result.success || !result.data) {
+      throw new WalletError(result.error || 'Failed to credit wallet');
+    }
+    return result.data;
+  }
+
+  private async loadGroup(groupId: string): Promise<Group> {
+    const groupResult = await DatabaseService.groups.getGroupById(groupId);
+    if (!groupResult.success || !groupResult.data) {
+      throw new WalletError('Group not found');
+    }
+    return groupResult.data;
+  }
+
+  private async loadWithdrawal(withdrawalId: string, adminId: string): Promise<{ withdrawal: WalletWithdrawal; group: Group }> {
+    const withdrawalResult = await DatabaseService.wallets.getWithdrawalById(withdrawalId);
+    if (!withdrawalResult.success || !withdrawalResult.data) {
+      throw new WalletError('Withdrawal not found');
+    }
+    const withdrawal = withdrawalResult.data;
+    const group = await this.loadGroup(withdrawal.group_id);
+    if (!hasGroupPermission(group, adminId, 'canMarkPayments')) {
+      throw new WalletError('You do not have permission to decide withdrawals');
+    }
+    if (withdrawal.status !== 'requested') {
+      throw new WalletError(`This withdrawal has already been ${withdrawal.status}`);
+    }
+    return { withdrawal, group };
+  }
+
+  private async notifyMember(
+    groupId: string,
+    userId: string,
+    templateId: string,
+    data: { memberName?: string; amount?: number; cycle?: number; reason?: string },
+  ): Promise<void> {
+    try {
+      const group = await this.loadGroup(groupId);
+      const userResult = await DatabaseService.users.getUserById(userId);
+      await NotificationService.sendToUser({
+        templateId,
+        userId,
+        groupId,
+        data: { memberName: userResult.data?.name || 'there', groupName: group.name, currency: currencyOf(group), ...data },
+      });
+    } catch (error) {
+      console.error('Error sending wallet notification:', error);
+    }
+  }
+}
+
+export default new WalletService();
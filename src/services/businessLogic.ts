@@ -1,6 +1,14 @@
-import { SavingsGroup, GroupMember, Contribution, Payout } from './firestore';
-import FirestoreService from './firestore';
+import DatabaseService, { Contribution, Group, GroupMember, GroupWithMembers } from './database';
 import messaging from '@react-native-firebase/messaging';
+import { planTurnOrder } from './business/turnOrderStrategies';
+import {
+  DEFAULT_LATE_PAYMENT_POLICY,
+  buildLatePaymentPolicy,
+  calculateLateFee as calculatePolicyLateFee,
+} from './business/latePaymentPolicy';
+import { currencyOf, formatAmount, localeFor, money, multiplyMoney, sumMoney, toMajor } from '../utils/money';
+import { formatDisplayDate } from '../utils/dateUtils';
+import { hasGroupPermission } from '../utils/permissions';
 
 // Business Logic Types
 export interface TurnOrderResult {
@@ -72,35 +80,34 @@ class AjoturnBusinessLogic {
    */
   async calculateTurnOrder(groupId: string): Promise<TurnOrderResult> {
     try {
-      const group = await FirestoreService.getSavingsGroup(groupId);
-      
-      if (!group) {
-        throw new BusinessLogicError('Group not found', 'GROUP_NOT_FOUND');
-      }
+      const group = await this.getGroup(groupId);
 
       if (group.status !== 'active') {
         throw new BusinessLogicError('Group is not active', 'GROUP_INACTIVE');
       }
 
-      // Sort members by join date to establish turn order
-      const sortedMembers = [...group.members]
-        .filter(member => member.isActive)
-        .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+      const activeMembers = group.members.filter(member => member.status === 'active');
 
-      if (sortedMembers.length === 0) {
+      if (activeMembers.length === 0) {
         throw new BusinessLogicError('No active members in group', 'NO_ACTIVE_MEMBERS');
       }
 
+      // The group's turn order strategy decides the payout rotation
+      const { order } = planTurnOrder(group, activeMembers);
+      const sortedMembers = order.map(
+        userId => activeMembers.find(member => member.user_id === userId) as GroupMember,
+      );
+
       // Current recipient is based on current cycle (1-indexed)
-      const currentRecipientIndex = (group.currentCycle - 1) % sortedMembers.length;
+      const currentRecipientIndex = (group.current_cycle - 1) % sortedMembers.length;
       const currentRecipient = sortedMembers[currentRecipientIndex];
       
       // Next recipient
-      const nextRecipientIndex = group.currentCycle % sortedMembers.length;
+      const nextRecipientIndex = group.current_cycle % sortedMembers.length;
       const nextRecipient = sortedMembers[nextRecipientIndex];
 
       // Calculate cycle progress
-      const cycleProgress = Math.min((group.currentCycle / group.totalCycles) * 100, 100);
+      const cycleProgress = Math.min((group.current_cycle / group.total_cycles) * 100, 100);
 
       return {
         success: true,
@@ -125,37 +132,33 @@ class AjoturnBusinessLogic {
    */
   async checkPaymentStatus(groupId: string, cycle?: number): Promise<PaymentStatusResult> {
     try {
-      const group = await FirestoreService.getSavingsGroup(groupId);
-      
-      if (!group) {
-        throw new BusinessLogicError('Group not found', 'GROUP_NOT_FOUND');
-      }
+      const group = await this.getGroup(groupId);
 
-      const targetCycle = cycle || group.currentCycle;
-      const contributions = await FirestoreService.getGroupContributions(groupId, targetCycle);
+      const targetCycle = cycle || group.current_cycle;
+      const contributions = await this.getCycleContributions(groupId, targetCycle);
       
-      const activeMembers = group.members.filter(member => member.isActive);
-      const totalExpected = activeMembers.length * group.contributionAmount;
+      const activeMembers = group.members.filter(member => member.status === 'active');
+      const totalExpected = toMajor(multiplyMoney(money(group.contribution_amount, currencyOf(group)), activeMembers.length));
       
       const paidContributions = contributions.filter(c => c.status === 'paid');
       const pendingContributions = contributions.filter(c => c.status === 'pending');
       const overdueContributions = contributions.filter(c => {
         if (c.status === 'paid') return false;
-        const dueDate = c.dueDate instanceof Date ? c.dueDate : new Date(c.dueDate.seconds * 1000);
-        return new Date() > dueDate;
+        return new Date() > new Date(c.due_date);
       });
 
-      const totalPaid = paidContributions.reduce((sum, c) => sum + c.amount, 0);
-      const totalPending = pendingContributions.reduce((sum, c) => sum + c.amount, 0);
+      const currency = currencyOf(group);
+      const totalPaid = toMajor(sumMoney(paidContributions.map(c => money(c.amount, currency)), currency));
+      const totalPending = toMajor(sumMoney(pendingContributions.map(c => money(c.amount, currency)), currency));
       
       // Get member details for each category
-      const paidMemberIds = new Set(paidContributions.map(c => c.userId));
-      const pendingMemberIds = new Set(pendingContributions.map(c => c.userId));
-      const overdueMemberIds = new Set(overdueContributions.map(c => c.userId));
+      const paidMemberIds = new Set(paidContributions.map(c => c.user_id));
+      const pendingMemberIds = new Set(pendingContributions.map(c => c.user_id));
+      const overdueMemberIds = new Set(overdueContributions.map(c => c.user_id));
 
-      const paidMembers = activeMembers.filter(m => paidMemberIds.has(m.userId));
-      const pendingMembers = activeMembers.filter(m => pendingMemberIds.has(m.userId) && !paidMemberIds.has(m.userId));
-      const overdueMembers = activeMembers.filter(m => overdueMemberIds.has(m.userId));
+      const paidMembers = activeMembers.filter(m => paidMemberIds.has(m.user_id));
+      const pendingMembers = activeMembers.filter(m => pendingMemberIds.has(m.user_id) && !paidMemberIds.has(m.user_id));
+      const overdueMembers = activeMembers.filter(m => overdueMemberIds.has(m.user_id));
 
       const completionPercentage = totalExpected > 0 ? Math.round((totalPaid / totalExpected) * 100) : 0;
 
@@ -190,14 +193,10 @@ class AjoturnBusinessLogic {
    */
   async processGroupCycle(groupId: string, adminId: string): Promise<CycleProcessResult> {
     try {
-      const group = await FirestoreService.getSavingsGroup(groupId);
-      
-      if (!group) {
-        throw new BusinessLogicError('Group not found', 'GROUP_NOT_FOUND');
-      }
+      const group = await this.getGroup(groupId);
 
-      if (group.adminId !== adminId) {
-        throw new BusinessLogicError('Only group admin can process cycle', 'UNAUTHORIZED');
+      if (!hasGroupPermission(group, adminId, 'canManageCycles')) {
+        throw new BusinessLogicError('You do not have permission to process this cycle', 'UNAUTHORIZED');
       }
 
       if (group.status !== 'active') {
@@ -227,43 +226,32 @@ class AjoturnBusinessLogic {
       const payoutAmount = paymentStatus.totalPaid;
 
       // Create payout record
-      const payoutData: Omit<Payout, 'id' | 'createdAt'> = {
-        groupId,
-        recipientId: currentRecipient.userId,
+      const payoutResult = await DatabaseService.payouts.createPayout({
+        group_id: groupId,
+        recipient_id: currentRecipient.user_id,
         amount: payoutAmount,
-        cycle: group.currentCycle,
-        status: 'pending',
-        scheduledDate: new Date(),
-      };
-
-      const payoutId = await FirestoreService.createPayout(payoutData);
-      if (!payoutId) {
+        cycle_number: group.current_cycle,
+        scheduled_date: new Date(),
+      });
+      if (!payoutResult.success || !payoutResult.data) {
         throw new BusinessLogicError('Failed to create payout record', 'PAYOUT_CREATION_FAILED');
       }
+      const payoutId = payoutResult.data.id;
 
       // Update group to next cycle
-      const newCycle = group.currentCycle + 1;
-      const updates: Partial<SavingsGroup> = {
-        currentCycle: newCycle,
-        updatedAt: new Date(),
+      const newCycle = group.current_cycle + 1;
+      const updates: Partial<Group> = {
+        current_cycle: newCycle,
       };
 
       // Check if group should be completed
-      if (newCycle > group.totalCycles) {
+      if (newCycle > group.total_cycles) {
         updates.status = 'completed';
-        updates.endDate = new Date();
+        updates.completion_date = new Date();
       }
 
-      // Update group in Firestore using batch update
-      const updateSuccess = await FirestoreService.batchUpdate([
-        {
-          collection: 'savingsGroups',
-          docId: groupId,
-          data: updates,
-        },
-      ]);
-
-      if (!updateSuccess) {
+      const updateResult = await DatabaseService.groups.updateGroup(groupId, updates);
+      if (!updateResult.success) {
         throw new BusinessLogicError('Failed to update group cycle', 'GROUP_UPDATE_FAILED');
       }
 
@@ -273,7 +261,7 @@ class AjoturnBusinessLogic {
         payoutCreated: true,
         payoutId,
         payoutAmount,
-        recipientId: currentRecipient.userId,
+        recipientId: currentRecipient.user_id,
       };
     } catch (error) {
       console.error('Error processing group cycle:', error);
@@ -293,17 +281,13 @@ class AjoturnBusinessLogic {
    */
   async validateGroupCompletion(groupId: string): Promise<GroupCompletionResult> {
     try {
-      const group = await FirestoreService.getSavingsGroup(groupId);
-      
-      if (!group) {
-        throw new BusinessLogicError('Group not found', 'GROUP_NOT_FOUND');
-      }
+      const group = await this.getGroup(groupId);
 
-      const totalCyclesCompleted = group.currentCycle - 1; // Current cycle is in progress
-      const remainingCycles = Math.max(0, group.totalCycles - group.currentCycle);
-      const completionPercentage = Math.min((totalCyclesCompleted / group.totalCycles) * 100, 100);
+      const totalCyclesCompleted = group.current_cycle - 1; // Current cycle is in progress
+      const remainingCycles = Math.max(0, group.total_cycles - group.current_cycle);
+      const completionPercentage = Math.min((totalCyclesCompleted / group.total_cycles) * 100, 100);
       
-      const isCompleted = group.status === 'completed' || group.currentCycle > group.totalCycles;
+      const isCompleted = group.status === 'completed' || group.current_cycle > group.total_cycles;
 
       return {
         success: true,
@@ -330,11 +314,7 @@ class AjoturnBusinessLogic {
    */
   async sendPaymentReminders(groupId: string): Promise<ReminderResult> {
     try {
-      const group = await FirestoreService.getSavingsGroup(groupId);
-      
-      if (!group) {
-        throw new BusinessLogicError('Group not found', 'GROUP_NOT_FOUND');
-      }
+      const group = await this.getGroup(groupId);
 
       if (group.status !== 'active') {
         throw new BusinessLogicError('Group is not active', 'GROUP_INACTIVE');
@@ -346,7 +326,7 @@ class AjoturnBusinessLogic {
         throw new BusinessLogicError('Failed to check payment status', 'PAYMENT_CHECK_FAILED');
       }
 
-      const contributions = await FirestoreService.getGroupContributions(groupId, group.currentCycle);
+      const contributions = await this.getCycleContributions(groupId, group.current_cycle);
       const reminders: PaymentReminder[] = [];
       let remindersSent = 0;
 
@@ -359,12 +339,10 @@ class AjoturnBusinessLogic {
       ];
 
       for (const member of membersToRemind) {
-        const contribution = contributions.find(c => c.userId === member.userId);
+        const contribution = contributions.find(c => c.user_id === member.user_id);
         
         if (contribution && contribution.status !== 'paid') {
-          const dueDate = contribution.dueDate instanceof Date 
-            ? contribution.dueDate 
-            : new Date(contribution.dueDate.seconds * 1000);
+          const dueDate = new Date(contribution.due_date);
           
           const timeDiff = now.getTime() - dueDate.getTime();
           const daysOverdue = Math.max(0, Math.floor(timeDiff / (1000 * 60 * 60 * 24)));
@@ -379,9 +357,9 @@ class AjoturnBusinessLogic {
           }
 
           const reminder: PaymentReminder = {
-            memberId: member.userId,
-            memberName: member.displayName,
-            amount: group.contributionAmount,
+            memberId: member.user_id,
+            memberName: member.display_name || 'Member',
+            amount: group.contribution_amount,
             dueDate,
             daysOverdue,
             reminderType,
@@ -394,7 +372,7 @@ class AjoturnBusinessLogic {
             await this.sendNotificationToMember(member, reminder, group);
             remindersSent++;
           } catch (notificationError) {
-            console.error(`Failed to send notification to ${member.displayName}:`, notificationError);
+            console.error(`Failed to send notification to ${member.display_name}:`, notificationError);
           }
         }
       }
@@ -421,7 +399,7 @@ class AjoturnBusinessLogic {
   private async sendNotificationToMember(
     member: GroupMember, 
     reminder: PaymentReminder, 
-    group: SavingsGroup
+    group: Group
   ): Promise<void> {
     try {
       // In a real implementation, you would:
@@ -431,24 +409,25 @@ class AjoturnBusinessLogic {
       
       let title: string;
       let body: string;
+      const amount = formatAmount(reminder.amount, currencyOf(group));
 
       switch (reminder.reminderType) {
         case 'upcoming':
           title = `Payment Due Soon - ${group.name}`;
-          body = `Your contribution of ₦${reminder.amount.toLocaleString()} is due on ${reminder.dueDate.toLocaleDateString()}.`;
+          body = `Your contribution of ${amount} is due on ${formatDisplayDate(reminder.dueDate, localeFor(currencyOf(group)))}.`;
           break;
         case 'due':
           title = `Payment Due Today - ${group.name}`;
-          body = `Your contribution of ₦${reminder.amount.toLocaleString()} is due today. Please make your payment.`;
+          body = `Your contribution of ${amount} is due today. Please make your payment.`;
           break;
         case 'overdue':
           title = `Overdue Payment - ${group.name}`;
-          body = `Your payment is ${reminder.daysOverdue} day(s) overdue. Please pay ₦${reminder.amount.toLocaleString()} immediately.`;
+          body = `Your payment is ${reminder.daysOverdue} day(s) overdue. Please pay ${amount} immediately.`;
           break;
       }
 
       // For now, just log the notification
-      console.log(`Notification sent to ${member.displayName}:`, { title, body });
+      console.log(`Notification sent to ${member.display_name}:`, { title, body });
       
       // In production, you would use:
       /*
@@ -470,13 +449,32 @@ class AjoturnBusinessLogic {
     }
   }
 
+  /**
+   * Load a group with its members, or throw GROUP_NOT_FOUND
+   */
+  private async getGroup(groupId: string): Promise<GroupWithMembers> {
+    const result = await DatabaseService.getGroupWithMembers(groupId);
+    if (!result.success || !result.data) {
+      throw new BusinessLogicError('Group not found', 'GROUP_NOT_FOUND');
+    }
+    return result.data;
+  }
+
+  /**
+   * Load every contribution for a cycle
+   */
+  private async getCycleContributions(groupId: string, cycle: number): Promise<Contribution[]> {
+    const result = await DatabaseService.contributions.getCycleContributions(groupId, cycle);
+    return result.data || [];
+  }
+
   /**
    * Utility function to get next payment due date based on contribution frequency
    */
-  getNextPaymentDueDate(group: SavingsGroup, currentDate: Date = new Date()): Date {
+  getNextPaymentDueDate(group: Group, currentDate: Date = new Date()): Date {
     const dueDate = new Date(currentDate);
     
-    switch (group.contributionFrequency) {
+    switch (group.contribution_frequency) {
       case 'daily':
         dueDate.setDate(dueDate.getDate() + 1);
         break;
@@ -492,14 +490,14 @@ class AjoturnBusinessLogic {
   }
 
   /**
-   * Calculate late fees based on overdue days
+   * Calculate the late fee charged under the group's late payment policy
+   * (the default ladder when no group is given)
    */
-  calculateLateFee(overdueDays: number, contributionAmount: number): number {
-    if (overdueDays <= 0) return 0;
-    
-    // 2% per day late, max 20% of contribution
-    const feePercentage = Math.min(overdueDays * 0.02, 0.20);
-    return Math.floor(contributionAmount * feePercentage);
+  calculateLateFee(overdueDays: number, contributionAmount: number, group?: Group): number {
+    const policy = group ? buildLatePaymentPolicy(group) : DEFAULT_LATE_PAYMENT_POLICY;
+    if (overdueDays < policy.fee_after_days) return 0;
+
+    return calculatePolicyLateFee(policy, overdueDays, contributionAmount, currencyOf(group));
   }
 }
 
@@ -0,0 +1,111 @@
+import { AuditCategory, AuditChainHead, AuditEntry, DatabaseResult } from '../../types/database';
+import { canonicalJson, sha256 } from '../../utils/hash';
+import { Repository } from './repository';
+import { COLLECTIONS, WhereClause, where } from './store';
+
+// previous_hash of a group's first entry
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+// Hash over everything in an entry except its ID and its own hash
+export const auditEntryHash = (entry: Omit<AuditEntry, 'id' | 'hash'>): string =>
+  sha256(
+    canonicalJson({
+      group_id: entry.group_id,
+      sequence: entry.sequence,
+      category: entry.category,
+      action: entry.action,
+      actor_id: entry.actor_id,
+      target_id: entry.target_id,
+      changes: entry.changes,
+      reason: entry.reason,
+      metadata: entry.metadata,
+      created_at: new Date(entry.created_at),
+      previous_hash: entry.previous_hash,
+    }),
+  );
+
+export const auditEntryId = (groupId: string, sequence: number): string =>
+  `${groupId}_${String(sequence).padStart(8, '0')}`;
+
+export interface AuditEntryFilters {
+  category?: AuditCategory;
+  actor_id?: string;
+  target_id?: string;
+  from?: Date;
+  to?: Date;
+}
+
+class AuditLogRepository extends Repository {
+  // Append an entry to the end of its group's chain. The head is read and moved
+  // in one transaction, so two concurrent appends can't claim the same sequence.
+  async appendEntry(
+    entryData: Omit<AuditEntry, 'id' | 'sequence' | 'previous_hash' | 'hash'>,
+  ): Promise<DatabaseResult<AuditEntry>> {
+    try {
+      const entry = await this.store.runTransaction(async transaction => {
+        const head = await transaction.get<AuditChainHead>(COLLECTIONS.AUDIT_HEADS, entryData.group_id);
+        const sequence = (head?.sequence || 0) + 1;
+        const chained = {
+          ...entryData,
+          sequence,
+          previous_hash: head?.hash || AUDIT_GENESIS_HASH,
+        };
+        const hash = auditEntryHash(chained);
+        const id = auditEntryId(entryData.group_id, sequence);
+
+        transaction.set(COLLECTIONS.AUDIT_LOG, id, { ...chained, hash });
+        transaction.set(COLLECTIONS.AUDIT_HEADS, entryData.group_id, {
+          sequence,
+          hash,
+          updated_at: entryData.created_at,
+        });
+        return { id, ...chained, hash };
+      });
+      return { success: true, data: entry };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get the latest entry's position and hash for a group, or null before its first entry
+  async getChainHead(groupId: string): Promise<DatabaseResult<AuditChainHead | null>> {
+    try {
+      const head = await this.store.get<AuditChainHead>(COLLECTIONS.AUDIT_HEADS, groupId);
+      return { success: true, data: head };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's entries in chain order, optionally filtered
+  async getGroupEntries(groupId: string, filters: AuditEntryFilters = {}): Promise<DatabaseResult<AuditEntry[]>> {
+    try {
+      const clauses: WhereClause[] = [where('group_id', '==', groupId)];
+      if (filters.category) {
+        clauses.push(where('category', '==', filters.category));
+      }
+      if (filters.actor_id) {
+        clauses.push(where('actor_id', '==', filters.actor_id));
+      }
+      if (filters.target_id) {
+        clauses.push(where('target_id', '==', filters.target_id));
+      }
+      if (filters.from) {
+        clauses.push(where('created_at', '>=', filters.from));
+      }
+      if (filters.to) {
+        clauses.push(where('created_at', '<=', filters.to));
+      }
+
+      const entries = await this.store.query<AuditEntry>(COLLECTIONS.AUDIT_LOG, {
+        where: clauses,
+        orderBy: { field: 'sequence', direction: 'asc' },
+      });
+      return { success: true, data: entries };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default AuditLogRepository;
@@ -0,0 +1,94 @@
+import { DatabaseResult, StatementCredit, StatementImport } from '../../types/database';
+import { Repository } from './repository';
+import { BatchWrite, COLLECTIONS, where } from './store';
+
+class BankStatementRepository extends Repository {
+  // Generate IDs for an import and its credits before anything is written
+  generateImportId(): string {
+    return this.store.generateId(COLLECTIONS.STATEMENT_IMPORTS);
+  }
+
+  generateCreditId(): string {
+    return this.store.generateId(COLLECTIONS.STATEMENT_CREDITS);
+  }
+
+  // Save an import record together with its credits in one batch
+  async saveImport(
+    statementImport: StatementImport,
+    credits: StatementCredit[],
+  ): Promise<DatabaseResult<{ statementImport: StatementImport; credits: StatementCredit[] }>> {
+    try {
+      const writes: BatchWrite[] = [
+        { type: 'set', collection: COLLECTIONS.STATEMENT_IMPORTS, id: statementImport.id, data: statementImport },
+        ...credits.map(credit => ({
+          type: 'set' as const,
+          collection: COLLECTIONS.STATEMENT_CREDITS,
+          id: credit.id,
+          data: credit,
+        })),
+      ];
+      await this.store.commit(writes);
+      return { success: true, data: { statementImport, credits } };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get credit by ID
+  async getCreditById(creditId: string): Promise<DatabaseResult<StatementCredit | null>> {
+    try {
+      const credit = await this.store.get<StatementCredit>(COLLECTIONS.STATEMENT_CREDITS, creditId);
+      return { success: true, data: credit };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's credits, optionally only those in some statuses, oldest first
+  async getGroupCredits(
+    groupId: string,
+    statuses?: StatementCredit['status'][],
+  ): Promise<DatabaseResult<StatementCredit[]>> {
+    try {
+      const clauses = [where('group_id', '==', groupId)];
+      if (statuses) {
+        clauses.push(where('status', 'in', statuses));
+      }
+      const credits = await this.store.query<StatementCredit>(COLLECTIONS.STATEMENT_CREDITS, {
+        where: clauses,
+        orderBy: { field: 'value_date', direction: 'asc' },
+      });
+      return { success: true, data: credits };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update credit
+  async updateCredit(
+    creditId: string,
+    updates: Partial<Omit<StatementCredit, 'id' | 'group_id' | 'import_id' | 'created_at'>>,
+  ): Promise<DatabaseResult<void>> {
+    try {
+      await this.store.update(COLLECTIONS.STATEMENT_CREDITS, creditId, updates);
+      return { success: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's imports, newest first
+  async getGroupImports(groupId: string): Promise<DatabaseResult<StatementImport[]>> {
+    try {
+      const imports = await this.store.query<StatementImport>(COLLECTIONS.STATEMENT_IMPORTS, {
+        where: [where('group_id', '==', groupId)],
+        orderBy: { field: 'imported_at', direction: 'desc' },
+      });
+      return { success: true, data: imports };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default BankStatementRepository;
@@ -0,0 +1,375 @@
+import {
+  Contribution,
+  ContributionPayment,
+  DatabaseResult,
+  FilterOptions,
+  Group,
+  InstallmentPlan,
+  NewContribution,
+  PaginatedResult,
+  QueryOptions,
+} from '../../types/database';
+import {
+  contributionEntry,
+  contributionPaymentEntry,
+  contributionSettlementAmount,
+  ledgerEntryWrite,
+  recordedPartPayments,
+} from './ledger';
+import { addMoney, compareMoney, currencyOf, money, subtractMoney, toMajor } from '../../utils/money';
+import { Repository } from './repository';
+import { BatchWrite, COLLECTIONS, WhereClause, where } from './store';
+
+export type PaymentDetails = Partial<
+  Pick<
+    Contribution,
+    | 'paid_date'
+    | 'paid_amount'
+    | 'payment_method'
+    | 'transaction_reference'
+    | 'transaction_id'
+    | 'payment_proof_url'
+    | 'payment_proof_type'
+  >
+>;
+
+// Contributions still waiting for money
+const UNPAID_STATUSES: Contribution['status'][] = ['pending', 'partially_paid', 'overdue'];
+
+class ContributionRepository extends Repository {
+  // Generate an ID for one piece of a part-paid contribution, also used for its ledger entry
+  generatePaymentId(): string {
+    return this.store.generateId(COLLECTIONS.LEDGER_ENTRIES);
+  }
+
+  // Create a single contribution
+  async createContribution(contributionData: NewContribution): Promise<DatabaseResult<Contribution>> {
+    try {
+      const id = this.store.generateId(COLLECTIONS.CONTRIBUTIONS);
+      const contribution = await this.store.set<Contribution>(
+        COLLECTIONS.CONTRIBUTIONS,
+        id,
+        this.buildContribution(contributionData, new Date()),
+      );
+      return { success: true, data: contribution };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Create many contributions atomically (e.g. one per member for a new cycle)
+  async batchCreateContributions(
+    contributions: NewContribution[],
+  ): Promise<DatabaseResult<Contribution[]>> {
+    try {
+      const now = new Date();
+      const created: Contribution[] = [];
+      const writes: BatchWrite[] = contributions.map(contributionData => {
+        const id = this.store.generateId(COLLECTIONS.CONTRIBUTIONS);
+        const data = this.buildContribution(contributionData, now);
+        created.push({ ...data, id });
+        return { type: 'set', collection: COLLECTIONS.CONTRIBUTIONS, id, data };
+      });
+
+      await this.store.commit(writes);
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get contribution by ID
+  async getContributionById(contributionId: string): Promise<DatabaseResult<Contribution | null>> {
+    try {
+      const contribution = await this.store.get<Contribution>(COLLECTIONS.CONTRIBUTIONS, contributionId);
+      return { success: true, data: contribution };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update contribution
+  async updateContribution(
+    contributionId: string,
+    updates: Partial<Omit<Contribution, 'id' | 'created_at'>>,
+  ): Promise<DatabaseResult<Contribution | null>> {
+    try {
+      await this.store.update(COLLECTIONS.CONTRIBUTIONS, contributionId, {
+        ...updates,
+        updated_at: new Date(),
+      });
+      return this.getContributionById(contributionId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Mark contribution as paid, add it to the group's collected total and record it in the ledger.
+  // Member reliability counters are updated once per cycle by CycleProcessorService.
+  async markAsPaid(
+    contributionId: string,
+    paymentDetails: PaymentDetails = {},
+  ): Promise<DatabaseResult<Contribution | null>> {
+    try {
+      const contribution = await this.store.get<Contribution>(COLLECTIONS.CONTRIBUTIONS, contributionId);
+      if (!contribution) {
+        return { success: false, error: 'Contribution not found', code: 'contribution-not-found' };
+      }
+
+      if (contribution.status === 'paid') {
+        return { success: false, error: 'Contribution is already paid', code: 'already-paid' };
+      }
+
+      const group = await this.store.get<Group>(COLLECTIONS.GROUPS, contribution.group_id);
+      const currency = currencyOf(group);
+      const now = new Date();
+      const paidDate = paymentDetails.paid_date || now;
+
+      const updates = {
+        ...paymentDetails,
+        status: 'paid' as const,
+        paid_date: paidDate,
+        is_late: paidDate.getTime() > new Date(contribution.due_date).getTime(),
+        updated_at: now,
+      };
+      const paid = { ...contribution, ...updates };
+      const writes: BatchWrite[] = [
+        { type: 'update', collection: COLLECTIONS.CONTRIBUTIONS, id: contributionId, data: updates },
+      ];
+      // Part payments are already in the ledger and the group's total
+      if (money(contributionSettlementAmount(paid, currency), currency).minorUnits > 0) {
+        writes.push(ledgerEntryWrite(contributionEntry(paid, currency, now)));
+      }
+
+      if (group) {
+        writes.push({
+          type: 'update',
+          collection: COLLECTIONS.GROUPS,
+          id: group.id,
+          data: {
+            total_contributions_collected: toMajor(
+              subtractMoney(
+                addMoney(
+                  money(group.total_contributions_collected, currency),
+                  money(paymentDetails.paid_amount ?? contribution.amount, currency),
+                ),
+                money(recordedPartPayments(contribution, currency), currency),
+              ),
+            ),
+            updated_at: now,
+          },
+        });
+      }
+
+      await this.store.commit(writes);
+      return this.getContributionById(contributionId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Record one payment toward a contribution paid in pieces: the payment is added
+  // to the contribution, the group's collected total and the ledger together.
+  // Fails with code 'exceeds-balance' if it would cover the whole contribution;
+  // the last piece settles it through markAsPaid or a confirmation instead.
+  async recordPartialPayment(
+    contributionId: string,
+    payment: ContributionPayment,
+  ): Promise<DatabaseResult<Contribution | null>> {
+    try {
+      await this.store.runTransaction(async transaction => {
+        const contribution = await transaction.get<Contribution>(COLLECTIONS.CONTRIBUTIONS, contributionId);
+        if (!contribution) {
+          throw Object.assign(new Error('Contribution not found'), { code: 'contribution-not-found' });
+        }
+        if (contribution.status === 'paid' || contribution.status === 'cancelled') {
+          throw Object.assign(new Error(`Contribution is already ${contribution.status}`), { code: 'not-payable' });
+        }
+        const group = await transaction.get<Group>(COLLECTIONS.GROUPS, contribution.group_id);
+        const currency = currencyOf(group);
+
+        const payments = [...(contribution.payments || []), payment];
+        const paidAmount = recordedPartPayments({ payments }, currency);
+        if (compareMoney(money(paidAmount, currency), money(contribution.amount, currency)) >= 0) {
+          throw Object.assign(new Error('Payment covers the rest of the contribution'), { code: 'exceeds-balance' });
+        }
+
+        transaction.update(COLLECTIONS.CONTRIBUTIONS, contributionId, {
+          payments,
+          paid_amount: paidAmount,
+          status: 'partially_paid',
+          updated_at: payment.created_at,
+        });
+        const { id: entryId, ...entry } = contributionPaymentEntry(contribution, payment, currency);
+        transaction.set(COLLECTIONS.LEDGER_ENTRIES, entryId, entry);
+
+        if (group) {
+          transaction.update(COLLECTIONS.GROUPS, group.id, {
+            total_contributions_collected: toMajor(
+              addMoney(money(group.total_contributions_collected, currency), money(payment.amount, currency)),
+            ),
+            updated_at: payment.created_at,
+          });
+        }
+      });
+      return this.getContributionById(contributionId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Agree a schedule for paying off what is left of a contribution
+  async setInstallmentPlan(contributionId: string, plan: InstallmentPlan): Promise<DatabaseResult<Contribution | null>> {
+    return this.updateContribution(contributionId, { installment_plan: plan });
+  }
+
+  // Mark contribution as overdue
+  async markAsOverdue(contributionId: string): Promise<DatabaseResult<Contribution | null>> {
+    return this.updateContribution(contributionId, { status: 'overdue', is_late: true });
+  }
+
+  // Record admin verification of a payment
+  async verifyContribution(
+    contributionId: string,
+    adminId: string,
+    notes?: string,
+  ): Promise<DatabaseResult<Contribution | null>> {
+    return this.updateContribution(contributionId, {
+      verified_by_admin: true,
+      verification_date: new Date(),
+      confirmed_by: adminId,
+      admin_notes: notes,
+    });
+  }
+
+  // Get a user's contributions, newest first
+  async getUserContributions(
+    userId: string,
+    filters: FilterOptions = {},
+    options: QueryOptions = {},
+  ): Promise<DatabaseResult<PaginatedResult<Contribution>>> {
+    try {
+      const clauses = [where('user_id', '==', userId), ...this.filterClauses(filters)];
+      const page = await this.paginate<Contribution>(COLLECTIONS.CONTRIBUTIONS, clauses, options, {
+        limit: 50,
+        order_by: 'due_date',
+        order_direction: 'desc',
+      });
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get all contributions for a group, newest first
+  async getGroupContributions(
+    groupId: string,
+    filters: FilterOptions = {},
+    options: QueryOptions = {},
+  ): Promise<DatabaseResult<PaginatedResult<Contribution>>> {
+    try {
+      const clauses = [where('group_id', '==', groupId), ...this.filterClauses(filters)];
+      const page = await this.paginate<Contribution>(COLLECTIONS.CONTRIBUTIONS, clauses, options, {
+        limit: 500,
+        order_by: 'due_date',
+        order_direction: 'desc',
+      });
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get every contribution for one cycle of a group
+  async getCycleContributions(
+    groupId: string,
+    cycleNumber: number,
+  ): Promise<DatabaseResult<Contribution[]>> {
+    try {
+      const contributions = await this.store.query<Contribution>(COLLECTIONS.CONTRIBUTIONS, {
+        where: [where('group_id', '==', groupId), where('cycle_number', '==', cycleNumber)],
+      });
+      return { success: true, data: contributions };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get unpaid contributions across all groups, oldest due date first
+  async getAllPendingContributions(
+    options: QueryOptions = {},
+  ): Promise<DatabaseResult<PaginatedResult<Contribution>>> {
+    try {
+      const page = await this.paginate<Contribution>(
+        COLLECTIONS.CONTRIBUTIONS,
+        [where('status', 'in', UNPAID_STATUSES)],
+        options,
+        { limit: 500, order_by: 'due_date', order_direction: 'asc' },
+      );
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's unpaid contributions, oldest due date first
+  async getGroupUnpaidContributions(groupId: string): Promise<DatabaseResult<Contribution[]>> {
+    try {
+      const contributions = await this.store.query<Contribution>(COLLECTIONS.CONTRIBUTIONS, {
+        where: [where('group_id', '==', groupId), where('status', 'in', UNPAID_STATUSES)],
+        orderBy: { field: 'due_date', direction: 'asc' },
+      });
+      return { success: true, data: contributions };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get pending and partially paid contributions whose due date has passed
+  async getOverdueContributions(asOf: Date = new Date()): Promise<DatabaseResult<Contribution[]>> {
+    try {
+      const contributions = await this.store.query<Contribution>(COLLECTIONS.CONTRIBUTIONS, {
+        where: [where('status', 'in', ['pending', 'partially_paid']), where('due_date', '<', asOf)],
+        orderBy: { field: 'due_date', direction: 'asc' },
+      });
+      return { success: true, data: contributions };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  private filterClauses(filters: FilterOptions): WhereClause[] {
+    const clauses: WhereClause[] = [];
+    if (filters.group_id) {
+      clauses.push(where('group_id', '==', filters.group_id));
+    }
+    if (filters.user_id) {
+      clauses.push(where('user_id', '==', filters.user_id));
+    }
+    if (filters.status) {
+      clauses.push(where('status', '==', filters.status));
+    }
+    if (filters.date_from) {
+      clauses.push(where('due_date', '>=', filters.date_from));
+    }
+    if (filters.date_to) {
+      clauses.push(where('due_date', '<=', filters.date_to));
+    }
+    return clauses;
+  }
+
+  private buildContribution(contributionData: NewContribution, now: Date): Omit<Contribution, 'id'> {
+    return {
+      status: 'pending',
+      is_late: false,
+      grace_period_used: false,
+      verified_by_admin: false,
+      ...contributionData,
+      due_date: new Date(contributionData.due_date),
+      created_at: now,
+      updated_at: now,
+    };
+  }
+}
+
+export default ContributionRepository;
@@ -0,0 +1,147 @@
+import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { getFirestore } from '../../config/firebase';
+import { fromDocument, toDocument } from './mappers';
+import { BatchWrite, DocumentStore, StoreQuery, StoreTransaction } from './store';
+
+/**
+ * Firestore-backed DocumentStore.
+ * The Firestore instance is resolved on every call so the store can be created
+ * before initializeFirebase() has run. Documents pass through the mappers in
+ * ./mappers on the way in and out, so repositories only see the domain model.
+ */
+export class FirestoreStore implements DocumentStore {
+  generateId(collection: string): string {
+    return getFirestore().collection(collection).doc().id;
+  }
+
+  async get<T>(collection: string, id: string): Promise<T | null> {
+    const doc = await getFirestore().collection(collection).doc(id).get();
+    if (!doc.exists()) {
+      return null;
+    }
+    return fromDocument<T>(collection, doc.id, fromFirestore(doc.data()));
+  }
+
+  async set<T extends { id: string }>(collection: string, id: string, data: Omit<T, 'id'>): Promise<T> {
+    await getFirestore()
+      .collection(collection)
+      .doc(id)
+      .set(toFirestore({ ...toDocument(collection, data), id }));
+    return { ...data, id } as T;
+  }
+
+  async update(collection: string, id: string, data: Record<string, any>): Promise<void> {
+    await getFirestore().collection(collection).doc(id).update(toFirestore(toDocument(collection, data)));
+  }
+
+  async delete(collection: string, id: string): Promise<void> {
+    await getFirestore().collection(collection).doc(id).delete();
+  }
+
+  async query<T>(collection: string, query: StoreQuery = {}): Promise<T[]> {
+    let ref: FirebaseFirestoreTypes.Query = getFirestore().collection(collection);
+
+    for (const clause of query.where || []) {
+      ref = ref.where(clause.field, clause.op, toFirestore(clause.value));
+    }
+
+    if (query.orderBy) {
+      ref = ref.orderBy(query.orderBy.field, query.orderBy.direction || 'asc');
+    }
+
+    // Firestore has no native offset, so over-fetch and slice locally
+    const offset = query.offset || 0;
+    if (query.limit !== undefined) {
+      ref = ref.limit(query.limit + offset);
+    }
+
+    const snapshot = await ref.get();
+    return snapshot.docs
+      .slice(offset)
+      .map(doc => fromDocument<T>(collection, doc.id, fromFirestore(doc.data())));
+  }
+
+  async commit(writes: BatchWrite[]): Promise<void> {
+    const db = getFirestore();
+    const batch = db.batch();
+
+    for (const write of writes) {
+      const ref = db.collection(write.collection).doc(write.id);
+      switch (write.type) {
+        case 'set':
+          batch.set(ref, toFirestore({ ...toDocument(write.collection, write.data), id: write.id }));
+          break;
+        case 'update':
+          batch.update(ref, toFirestore(toDocument(write.collection, write.data)));
+          break;
+        case 'delete':
+          batch.delete(ref);
+          break;
+      }
+    }
+
+    await batch.commit();
+  }
+
+  async runTransaction<R>(callback: (transaction: StoreTransaction) => Promise<R>): Promise<R> {
+    const db = getFirestore();
+    return db.runTransaction(async transaction =>
+      callback({
+        get: async <T>(collection: string, id: string): Promise<T | null> => {
+          const doc = await transaction.get(db.collection(collection).doc(id));
+          if (!doc.exists()) {
+            return null;
+          }
+          return fromDocument<T>(collection, doc.id, fromFirestore(doc.data()));
+        },
+        set: (collection, id, data) => {
+          transaction.set(
+            db.collection(collection).doc(id),
+            toFirestore({ ...toDocument(collection, data), id }),
+          );
+        },
+        update: (collection, id, data) => {
+          transaction.update(db.collection(collection).doc(id), toFirestore(toDocument(collection, data)));
+        },
+      }),
+    );
+  }
+}
+
+// Convert Dates to Timestamps and drop undefined values (Firestore rejects them)
+const toFirestore = (value: any): any => {
+  if (value instanceof Date) {
+    return firestore.Timestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toFirestore);
+  }
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        result[key] = toFirestore(item);
+      }
+    }
+    return result;
+  }
+  return value;
+};
+
+// Convert Timestamps back to Dates so repositories only ever see plain JS values
+const fromFirestore = (value: any): any => {
+  if (value && typeof value.toDate === 'function') {
+    return value.toDate();
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromFirestore);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = fromFirestore(item);
+    }
+    return result;
+  }
+  return value;
+};
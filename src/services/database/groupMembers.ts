@@ -0,0 +1,511 @@
+import {
+  DatabaseResult,
+  FilterOptions,
+  Group,
+  GroupMember,
+  LedgerEntry,
+  MemberStatisticsUpdate,
+  NewGroupMember,
+  PaginatedResult,
+  QueryOptions,
+  User,
+} from '../../types/database';
+import { createMemberPermissions, getGrantedPermissions, resolvePermissions } from '../../utils/permissions';
+import { Repository } from './repository';
+import { BatchWrite, COLLECTIONS, WhereClause, where } from './store';
+import { creditWalletInTransaction } from './wallets';
+
+// Default permissions granted with each role
+const ROLE_PERMISSIONS: Record<
+  GroupMember['role'],
+  Pick<GroupMember, 'can_invite_members' | 'can_view_all_contributions'>
+> = {
+  admin: { can_invite_members: true, can_view_all_contributions: true },
+  co_admin: { can_invite_members: true, can_view_all_contributions: true },
+  treasurer: { can_invite_members: false, can_view_all_contributions: true },
+  auditor: { can_invite_members: false, can_view_all_contributions: true },
+  member: { can_invite_members: false, can_view_all_contributions: false },
+};
+
+// The group's delegated_permissions map with one user's entry replaced (or dropped).
+// Only active members granted more than a plain member gets are mirrored.
+const withDelegatedPermissions = (
+  group: Group,
+  userId: string,
+  member: Pick<GroupMember, 'role' | 'permission_overrides' | 'status'> | null,
+): Group['delegated_permissions'] => {
+  const others = { ...group.delegated_permissions };
+  delete others[userId];
+  if (!member || member.role === 'admin' || member.status !== 'active') {
+    return others; // the admin is checked through admin_id
+  }
+  const defaults = createMemberPermissions();
+  const granted = getGrantedPermissions(resolvePermissions(member.role, member.permission_overrides))
+    .filter(permission => !defaults[permission]);
+  return granted.length > 0 ? { ...others, [userId]: granted } : others;
+};
+
+class GroupMemberRepository extends Repository {
+  // Add a member to a group and bump the group's member count in the same batch
+  async addMember(memberData: NewGroupMember): Promise<DatabaseResult<GroupMember>> {
+    try {
+      const group = await this.store.get<Group>(COLLECTIONS.GROUPS, memberData.group_id);
+      if (!group) {
+        return { success: false, error: 'Group not found', code: 'group-not-found' };
+      }
+
+      const existing = await this.getMemberByUserAndGroup(memberData.user_id, memberData.group_id);
+      if (existing.data) {
+        return { success: false, error: 'User is already a member of this group', code: 'already-exists' };
+      }
+
+      // Keep a copy of the member's name so group screens don't need a user lookup per member
+      const user = memberData.display_name
+        ? null
+        : await this.store.get<User>(COLLECTIONS.USERS, memberData.user_id);
+
+      const now = new Date();
+      const id = this.store.generateId(COLLECTIONS.GROUP_MEMBERS);
+      const role = memberData.role || 'member';
+      const data: Omit<GroupMember, 'id'> = {
+        ...ROLE_PERMISSIONS[role],
+        status: 'active',
+        total_contributions_made: 0,
+        missed_contributions: 0,
+        late_contributions: 0,
+        on_time_contributions: 0,
+        reliability_percentage: 100,
+        payout_received: false,
+        notification_enabled: true,
+        auto_contribute: false,
+        ...memberData,
+        display_name: memberData.display_name || user?.name,
+        role,
+        join_order: memberData.join_order || (await this.getNextJoinOrder(memberData.group_id)),
+        joined_at: now,
+        updated_at: now,
+      };
+
+      await this.store.commit([
+        { type: 'set', collection: COLLECTIONS.GROUP_MEMBERS, id, data },
+        {
+          type: 'update',
+          collection: COLLECTIONS.GROUPS,
+          id: group.id,
+          data: {
+            total_members: group.total_members + 1,
+            delegated_permissions: withDelegatedPermissions(group, data.user_id, data),
+            updated_at: now,
+          },
+        },
+      ]);
+
+      return { success: true, data: { ...data, id } };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get membership by ID
+  async getMemberById(memberId: string): Promise<DatabaseResult<GroupMember | null>> {
+    try {
+      const member = await this.store.get<GroupMember>(COLLECTIONS.GROUP_MEMBERS, memberId);
+      return { success: true, data: member };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a user's current membership in a group (removed and departed members are ignored)
+  async getMemberByUserAndGroup(
+    userId: string,
+    groupId: string,
+  ): Promise<DatabaseResult<GroupMember | null>> {
+    try {
+      const members = await this.store.query<GroupMember>(COLLECTIONS.GROUP_MEMBERS, {
+        where: [where('group_id', '==', groupId), where('user_id', '==', userId)],
+      });
+      const current = members.find(member => member.status !== 'removed' && member.status !== 'left');
+      return { success: true, data: current || null };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get members of a group in rotation order
+  async getGroupMembers(
+    groupId: string,
+    filters: FilterOptions = {},
+    options: QueryOptions = {},
+  ): Promise<DatabaseResult<PaginatedResult<GroupMember>>> {
+    try {
+      const clauses: WhereClause[] = [where('group_id', '==', groupId)];
+      if (filters.status) {
+        clauses.push(where('status', '==', filters.status));
+      }
+      if (filters.role) {
+        clauses.push(where('role', '==', filters.role));
+      }
+
+      const page = await this.paginate<GroupMember>(COLLECTIONS.GROUP_MEMBERS, clauses, options, {
+        limit: 100,
+        order_by: 'join_order',
+        order_direction: 'asc',
+      });
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get every membership a user holds, newest first
+  async getUserMemberships(
+    userId: string,
+    filters: FilterOptions = {},
+    options: QueryOptions = {},
+  ): Promise<DatabaseResult<PaginatedResult<GroupMember>>> {
+    try {
+      const clauses: WhereClause[] = [where('user_id', '==', userId)];
+      if (filters.status) {
+        clauses.push(where('status', '==', filters.status));
+      }
+      if (filters.role) {
+        clauses.push(where('role', '==', filters.role));
+      }
+
+      const page = await this.paginate<GroupMember>(COLLECTIONS.GROUP_MEMBERS, clauses, options, {
+        limit: 50,
+        order_by: 'joined_at',
+        order_direction: 'desc',
+      });
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update member information
+  async updateMember(
+    memberId: string,
+    updates: Partial<Omit<GroupMember, 'id' | 'group_id' | 'user_id' | 'joined_at'>>,
+  ): Promise<DatabaseResult<GroupMember | null>> {
+    try {
+      await this.store.update(COLLECTIONS.GROUP_MEMBERS, memberId, {
+        ...updates,
+        updated_at: new Date(),
+      });
+      return this.getMemberById(memberId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update member status (suspend, reactivate, etc.) and re-mirror their permissions,
+  // so a suspended delegate loses them until reactivated
+  async updateMemberStatus(
+    memberId: string,
+    status: GroupMember['status'],
+  ): Promise<DatabaseResult<GroupMember | null>> {
+    try {
+      // The group is read in the transaction so changes to other members' entries are not lost
+      const updated = await this.store.runTransaction(async transaction => {
+        const member = await transaction.get<GroupMember>(COLLECTIONS.GROUP_MEMBERS, memberId);
+        if (!member) {
+          return { success: false, error: 'Member not found', code: 'member-not-found' };
+        }
+
+        const group = await transaction.get<Group>(COLLECTIONS.GROUPS, member.group_id);
+        if (!group) {
+          return { success: false, error: 'Group not found', code: 'group-not-found' };
+        }
+
+        const now = new Date();
+        transaction.update(COLLECTIONS.GROUP_MEMBERS, memberId, { status, updated_at: now });
+        transaction.update(COLLECTIONS.GROUPS, group.id, {
+          delegated_permissions: withDelegatedPermissions(group, member.user_id, { ...member, status }),
+          updated_at: now,
+        });
+        return { success: true };
+      });
+      if (!updated.success) {
+        return updated;
+      }
+
+      return this.getMemberById(memberId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Move a member to a new position in the payout rotation
+  async updateMemberJoinOrder(memberId: string, joinOrder: number): Promise<DatabaseResult<GroupMember | null>> {
+    return this.updateMember(memberId, { join_order: joinOrder });
+  }
+
+  // Change a member's role and overrides, and mirror the resulting permissions onto the group.
+  // Overrides are replaced, so a role change without overrides clears them.
+  async updateMemberRole(
+    userId: string,
+    groupId: string,
+    role: GroupMember['role'],
+    permissionOverrides: GroupMember['permission_overrides'] = {},
+  ): Promise<DatabaseResult<GroupMember | null>> {
+    try {
+      const memberResult = await this.getMemberByUserAndGroup(userId, groupId);
+      if (!memberResult.success) {
+        return memberResult;
+      }
+      if (!memberResult.data) {
+        return { success: false, error: 'Member not found', code: 'member-not-found' };
+      }
+
+      const member = memberResult.data;
+
+      // The group is read in the transaction so roles assigned at the same time are all mirrored
+      const updated = await this.store.runTransaction(async transaction => {
+        const group = await transaction.get<Group>(COLLECTIONS.GROUPS, groupId);
+        if (!group) {
+          return { success: false, error: 'Group not found', code: 'group-not-found' };
+        }
+
+        const now = new Date();
+        transaction.update(COLLECTIONS.GROUP_MEMBERS, member.id, {
+          role,
+          permission_overrides: permissionOverrides,
+          ...ROLE_PERMISSIONS[role],
+          updated_at: now,
+        });
+        transaction.update(COLLECTIONS.GROUPS, groupId, {
+          delegated_permissions: withDelegatedPermissions(group, userId, {
+            role,
+            permission_overrides: permissionOverrides,
+            status: member.status,
+          }),
+          updated_at: now,
+        });
+        return { success: true };
+      });
+      if (!updated.success) {
+        return updated;
+      }
+
+      return this.getMemberById(member.id);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Hand the admin role from one member to another, with the group's admin_id, in one batch
+  async transferAdmin(
+    groupId: string,
+    fromUserId: string,
+    toUserId: string,
+    approvedActionId?: string,
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      const group = await this.store.get<Group>(COLLECTIONS.GROUPS, groupId);
+      if (!group) {
+        return { success: false, error: 'Group not found', code: 'group-not-found' };
+      }
+
+      const [from, to] = await Promise.all([
+        this.getMemberByUserAndGroup(fromUserId, groupId),
+        this.getMemberByUserAndGroup(toUserId, groupId),
+      ]);
+      if (!from.data || !to.data) {
+        return { success: false, error: 'Member not found', code: 'member-not-found' };
+      }
+
+      const now = new Date();
+      // Both members' delegated entries go: the old admin becomes a plain member, the new one uses admin_id
+      const delegated = { ...group.delegated_permissions };
+      delete delegated[fromUserId];
+      delete delegated[toUserId];
+
+      await this.commitWrites(
+        [
+          {
+            type: 'update',
+            collection: COLLECTIONS.GROUP_MEMBERS,
+            id: from.data.id,
+            data: { role: 'member', permission_overrides: {}, ...ROLE_PERMISSIONS.member, updated_at: now },
+          },
+          {
+            type: 'update',
+            collection: COLLECTIONS.GROUP_MEMBERS,
+            id: to.data.id,
+            data: { role: 'admin', permission_overrides: {}, ...ROLE_PERMISSIONS.admin, updated_at: now },
+          },
+          {
+            type: 'update',
+            collection: COLLECTIONS.GROUPS,
+            id: groupId,
+            data: {
+              admin_id: toUserId,
+              admin_transferred_at: now,
+              admin_transferred_by: fromUserId,
+              delegated_permissions: delegated,
+              updated_at: now,
+            },
+          },
+        ],
+        approvedActionId,
+      );
+
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Remove member from group (soft delete) and decrement the group's member count.
+  // closeTurnGap moves everyone after them up one place in the rotation, in the same batch.
+  async removeMember(
+    memberId: string,
+    adminId?: string,
+    options: { closeTurnGap?: boolean; refund?: LedgerEntry; approvedActionId?: string } = {},
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      const member = await this.store.get<GroupMember>(COLLECTIONS.GROUP_MEMBERS, memberId);
+      if (!member) {
+        return { success: false, error: 'Member not found', code: 'member-not-found' };
+      }
+
+      const group = await this.store.get<Group>(COLLECTIONS.GROUPS, member.group_id);
+      if (!group) {
+        return { success: false, error: 'Group not found', code: 'group-not-found' };
+      }
+
+      if (adminId && group.admin_id !== adminId) {
+        return { success: false, error: 'Only group admin can remove members', code: 'permission-denied' };
+      }
+
+      const now = new Date();
+      const writes: Extract<BatchWrite, { type: 'update' }>[] = [
+        {
+          type: 'update',
+          collection: COLLECTIONS.GROUP_MEMBERS,
+          id: memberId,
+          data: { status: 'removed', left_at: now, updated_at: now },
+        },
+        {
+          type: 'update',
+          collection: COLLECTIONS.GROUPS,
+          id: group.id,
+          data: {
+            total_members: Math.max(0, group.total_members - 1),
+            delegated_permissions: withDelegatedPermissions(group, member.user_id, null),
+            updated_at: now,
+          },
+        },
+      ];
+
+      if (options.closeTurnGap && member.join_order) {
+        const later = await this.store.query<GroupMember>(COLLECTIONS.GROUP_MEMBERS, {
+          where: [where('group_id', '==', group.id), where('join_order', '>', member.join_order)],
+        });
+        for (const other of later) {
+          writes.push({
+            type: 'update',
+            collection: COLLECTIONS.GROUP_MEMBERS,
+            id: other.id,
+            data: { join_order: other.join_order - 1, updated_at: now },
+          });
+        }
+      }
+
+      const { refund } = options;
+      if (refund) {
+        // The refund reaches the wallet with the removal, so neither happens without the other
+        await this.runTransaction(async transaction => {
+          await creditWalletInTransaction(transaction, group.id, member.user_id, refund);
+          for (const write of writes) {
+            transaction.update(write.collection, write.id, write.data);
+          }
+        }, options.approvedActionId);
+      } else {
+        await this.commitWrites(writes, options.approvedActionId);
+      }
+
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update contribution counters and recalculate the reliability percentage
+  async updateMemberStatistics(
+    memberId: string,
+    stats: MemberStatisticsUpdate,
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      const member = await this.store.get<GroupMember>(COLLECTIONS.GROUP_MEMBERS, memberId);
+      if (!member) {
+        return { success: false, error: 'Member not found', code: 'member-not-found' };
+      }
+
+      const counters = {
+        total_contributions_made: member.total_contributions_made,
+        on_time_contributions: member.on_time_contributions,
+        late_contributions: member.late_contributions,
+        missed_contributions: member.missed_contributions,
+      };
+
+      if (stats.contributionMade) {
+        counters.total_contributions_made += 1;
+        if (stats.isLate) {
+          counters.late_contributions += 1;
+        } else {
+          counters.on_time_contributions += 1;
+        }
+      }
+
+      if (stats.missed) {
+        counters.missed_contributions += 1;
+      }
+
+      await this.store.update(COLLECTIONS.GROUP_MEMBERS, memberId, {
+        ...counters,
+        reliability_percentage: calculateReliability(counters, member.reliability_percentage),
+        updated_at: stats.groupCompleted && stats.completionDate ? stats.completionDate : new Date(),
+      });
+
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Mark member as having received their payout
+  async markPayoutReceived(memberId: string, cycleNumber: number): Promise<DatabaseResult<GroupMember | null>> {
+    return this.updateMember(memberId, {
+      payout_received: true,
+      payout_cycle: cycleNumber,
+      payout_date: new Date(),
+    });
+  }
+
+  // Get next available join order for a group
+  private async getNextJoinOrder(groupId: string): Promise<number> {
+    const members = await this.store.query<GroupMember>(COLLECTIONS.GROUP_MEMBERS, {
+      where: [where('group_id', '==', groupId)],
+      orderBy: { field: 'join_order', direction: 'desc' },
+      limit: 1,
+    });
+    return members.length > 0 ? members[0].join_order + 1 : 1;
+  }
+}
+
+// On-time contributions get full points, late get half points, missed get zero
+const calculateReliability = (
+  counters: Pick<GroupMember, 'on_time_contributions' | 'late_contributions' | 'missed_contributions'>,
+  fallback: number,
+): number => {
+  const total = counters.on_time_contributions + counters.late_contributions + counters.missed_contributions;
+  if (total === 0) {
+    return fallback;
+  }
+  return Math.round(((counters.on_time_contributions + counters.late_contributions * 0.5) / total) * 100);
+};
+
+export default GroupMemberRepository;
@@ -0,0 +1,256 @@
+import {
+  DatabaseResult,
+  Group,
+  NewGroup,
+  PaginatedResult,
+  QueryOptions,
+  Settlement,
+  TurnOrderStrategyConfig,
+} from '../../types/database';
+import { Repository } from './repository';
+import { settleInTransaction } from './settlements';
+import { COLLECTIONS, where } from './store';
+import { DEFAULT_CURRENCY } from '../../utils/money';
+
+class GroupRepository extends Repository {
+  // Generate a group ID before the group is written, e.g. for a group created offline
+  generateGroupId(): string {
+    return this.store.generateId(COLLECTIONS.GROUPS);
+  }
+
+  // Create a new group. Members are added separately through the group member repository.
+  async createGroup(groupData: NewGroup, id: string = this.generateGroupId()): Promise<DatabaseResult<Group>> {
+    try {
+      const now = new Date();
+      const startDate = new Date(groupData.start_date);
+      const totalCycles = groupData.total_cycles || groupData.max_members;
+
+      const estimatedEndDate = new Date(startDate);
+      for (let cycle = 0; cycle < totalCycles; cycle++) {
+        this.advanceByFrequency(estimatedEndDate, groupData.contribution_frequency);
+      }
+
+      const group = await this.store.set<Group>(COLLECTIONS.GROUPS, id, {
+        payout_schedule: groupData.contribution_frequency === 'weekly' ? 'weekly' : 'monthly',
+        grace_period_days: 3,
+        currency: DEFAULT_CURRENCY,
+        ...groupData,
+        status: groupData.status || 'active',
+        total_members: 0,
+        total_cycles: totalCycles,
+        current_cycle: 1,
+        start_date: startDate,
+        estimated_end_date: groupData.estimated_end_date || estimatedEndDate,
+        cycle_start_date: startDate,
+        cycle_end_date: this.calculateCycleEndDate(startDate, groupData.contribution_frequency),
+        total_contributions_collected: 0,
+        total_payouts_made: 0,
+        successful_cycles: 0,
+        created_at: now,
+        updated_at: now,
+      });
+
+      return { success: true, data: group };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get group by ID
+  async getGroupById(groupId: string): Promise<DatabaseResult<Group | null>> {
+    try {
+      const group = await this.store.get<Group>(COLLECTIONS.GROUPS, groupId);
+      return { success: true, data: group };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update group
+  async updateGroup(
+    groupId: string,
+    updates: Partial<Omit<Group, 'id' | 'created_at'>>,
+    approvedActionId?: string,
+  ): Promise<DatabaseResult<Group | null>> {
+    try {
+      await this.commitWrites(
+        [{ type: 'update', collection: COLLECTIONS.GROUPS, id: groupId, data: { ...updates, updated_at: new Date() } }],
+        approvedActionId,
+      );
+      return this.getGroupById(groupId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Change a group's turn order strategy starting from what is stored now, in a transaction,
+  // so members bidding or voting at the same time don't overwrite each other
+  async updateTurnOrderStrategy(
+    groupId: string,
+    change: (config: TurnOrderStrategyConfig | undefined) => TurnOrderStrategyConfig,
+  ): Promise<DatabaseResult<TurnOrderStrategyConfig>> {
+    try {
+      const config = await this.runTransaction(async transaction => {
+        const group = await transaction.get<Group>(COLLECTIONS.GROUPS, groupId);
+        if (!group) {
+          throw Object.assign(new Error('Group not found'), { code: 'group-not-found' });
+        }
+
+        const changed = change(group.turn_order_strategy);
+        transaction.update(COLLECTIONS.GROUPS, groupId, { turn_order_strategy: changed, updated_at: new Date() });
+        return changed;
+      });
+      return { success: true, data: config };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Dissolve a group: settle its pot when a settlement is given, mark the group dissolved
+  // and every member as left, all in one transaction so a failed settlement dissolves nothing.
+  // Returns the saved settlement, or null when there was none.
+  async dissolveGroup(
+    params: {
+      groupId: string;
+      dissolvedBy: string;
+      memberIds: string[];
+      settlement?: Omit<Settlement, 'id' | 'ledger_entry_ids' | 'created_at'>;
+    },
+    approvedActionId?: string,
+  ): Promise<DatabaseResult<Settlement | null>> {
+    try {
+      const settlement = await this.runTransaction(async transaction => {
+        const settled = params.settlement ? await settleInTransaction(transaction, params.settlement) : null;
+
+        const now = new Date();
+        transaction.update(COLLECTIONS.GROUPS, params.groupId, {
+          status: 'dissolved',
+          dissolved_at: now,
+          dissolved_by: params.dissolvedBy,
+          updated_at: now,
+        });
+        for (const memberId of params.memberIds) {
+          transaction.update(COLLECTIONS.GROUP_MEMBERS, memberId, { status: 'left', left_at: now, updated_at: now });
+        }
+        return settled;
+      }, approvedActionId);
+      return { success: true, data: settlement };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Delete group (soft delete by marking as cancelled)
+  async deleteGroup(groupId: string, adminId: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const group = await this.store.get<Group>(COLLECTIONS.GROUPS, groupId);
+      if (!group) {
+        return { success: false, error: 'Group not found', code: 'group-not-found' };
+      }
+
+      if (group.admin_id !== adminId) {
+        return { success: false, error: 'Only group admin can delete the group', code: 'permission-denied' };
+      }
+
+      await this.store.update(COLLECTIONS.GROUPS, groupId, {
+        status: 'cancelled',
+        updated_at: new Date(),
+      });
+
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get groups administered by a user
+  async getGroupsByAdmin(adminId: string): Promise<DatabaseResult<Group[]>> {
+    try {
+      const groups = await this.store.query<Group>(COLLECTIONS.GROUPS, {
+        where: [where('admin_id', '==', adminId)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: groups };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get active groups, newest first
+  async getActiveGroups(options: QueryOptions = {}): Promise<DatabaseResult<PaginatedResult<Group>>> {
+    try {
+      const page = await this.paginate<Group>(
+        COLLECTIONS.GROUPS,
+        [where('status', '==', 'active')],
+        options,
+        { limit: 20, order_by: 'created_at', order_direction: 'desc' },
+      );
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Search active groups by name prefix
+  async searchGroups(
+    searchQuery: string,
+    options: QueryOptions = {},
+  ): Promise<DatabaseResult<PaginatedResult<Group>>> {
+    try {
+      const page = await this.paginate<Group>(
+        COLLECTIONS.GROUPS,
+        [
+          where('name', '>=', searchQuery),
+          where('name', '<=', searchQuery + ''),
+          where('status', '==', 'active'),
+        ],
+        options,
+        { limit: 20, order_by: 'name', order_direction: 'asc' },
+      );
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Adjust the cached member count when memberships are added or removed
+  async adjustMemberCount(groupId: string, delta: number): Promise<DatabaseResult<boolean>> {
+    try {
+      const group = await this.store.get<Group>(COLLECTIONS.GROUPS, groupId);
+      if (!group) {
+        return { success: false, error: 'Group not found', code: 'group-not-found' };
+      }
+
+      await this.store.update(COLLECTIONS.GROUPS, groupId, {
+        total_members: Math.max(0, group.total_members + delta),
+        updated_at: new Date(),
+      });
+
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  private calculateCycleEndDate(startDate: Date, frequency: Group['contribution_frequency']): Date {
+    const endDate = new Date(startDate);
+    this.advanceByFrequency(endDate, frequency);
+    return endDate;
+  }
+
+  private advanceByFrequency(date: Date, frequency: Group['contribution_frequency']): void {
+    switch (frequency) {
+      case 'daily':
+        date.setDate(date.getDate() + 1);
+        break;
+      case 'weekly':
+        date.setDate(date.getDate() + 7);
+        break;
+      case 'monthly':
+        date.setMonth(date.getMonth() + 1);
+        break;
+    }
+  }
+}
+
+export default GroupRepository;
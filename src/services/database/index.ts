@@ -0,0 +1,359 @@
+import {
+  Contribution,
+  DatabaseResult,
+  Group,
+  GroupMember,
+  GroupWithMembers,
+  NewGroup,
+  Payout,
+} from '../../types/database';
+import AuditLogRepository from './auditLog';
+import BankStatementRepository from './bankStatements';
+import ContributionRepository from './contributions';
+import { FirestoreStore } from './firestoreStore';
+import GroupMemberRepository from './groupMembers';
+import GroupRepository from './groups';
+import InviteRepository from './invites';
+import JobRepository from './jobs';
+import LedgerRepository from './ledger';
+import {
+  EmbeddedMembersMigrationOptions,
+  EmbeddedMembersMigrationResult,
+  migrateEmbeddedMembers,
+} from './migrations';
+import ScheduledNotificationRepository from './notifications';
+import PaymentTransactionRepository from './paymentTransactions';
+import PendingActionRepository from './pendingActions';
+import PenaltyDisputeRepository from './penaltyDisputes';
+import PayoutAccountRepository from './payoutAccounts';
+import PayoutRepository from './payouts';
+import ReceiptRepository from './receipts';
+import SettlementRepository from './settlements';
+import { DocumentStore } from './store';
+import TurnOrderAuditRepository from './turnOrderAudits';
+import TurnSwapRepository from './turnSwaps';
+import UserRepository from './users';
+import WalletRepository from './wallets';
+import { currencyOf, money, subtractMoney, sumMoney, toMajor } from '../../utils/money';
+
+export * from '../../types/database';
+export { InMemoryStore } from './memoryStore';
+export { FirestoreStore } from './firestoreStore';
+export { COLLECTIONS } from './store';
+export { LEDGER_ACCOUNTS, memberAccount, memberIdFromAccount, walletAccount } from './ledger';
+export { walletId } from './wallets';
+export type { AppliedWalletPayment } from './wallets';
+export { isPaidOut } from './payouts';
+export type { NewPayoutAccount } from './payoutAccounts';
+export { AUDIT_GENESIS_HASH, auditEntryHash } from './auditLog';
+export type { AuditEntryFilters } from './auditLog';
+export * from './mappers';
+export type { EmbeddedMembersMigrationOptions, EmbeddedMembersMigrationResult } from './migrations';
+export type { DocumentStore } from './store';
+
+// Processing fee deducted from each payout
+const PAYOUT_PROCESSING_FEE_RATE = 0.01;
+
+class DatabaseService {
+  private store: DocumentStore = new FirestoreStore();
+  private readonly storeProvider = () => this.store;
+
+  public users = new UserRepository(this.storeProvider);
+  public groups = new GroupRepository(this.storeProvider);
+  public groupMembers = new GroupMemberRepository(this.storeProvider);
+  public contributions = new ContributionRepository(this.storeProvider);
+  public payouts = new PayoutRepository(this.storeProvider);
+  public invites = new InviteRepository(this.storeProvider);
+  public notifications = new ScheduledNotificationRepository(this.storeProvider);
+  public turnOrderAudits = new TurnOrderAuditRepository(this.storeProvider);
+  public turnSwaps = new TurnSwapRepository(this.storeProvider);
+  public jobs = new JobRepository(this.storeProvider);
+  public ledger = new LedgerRepository(this.storeProvider);
+  public settlements = new SettlementRepository(this.storeProvider);
+  public paymentTransactions = new PaymentTransactionRepository(this.storeProvider);
+  public bankStatements = new BankStatementRepository(this.storeProvider);
+  public pendingActions = new PendingActionRepository(this.storeProvider);
+  public auditLog = new AuditLogRepository(this.storeProvider);
+  public receipts = new ReceiptRepository(this.storeProvider);
+  public wallets = new WalletRepository(this.storeProvider);
+  public payoutAccounts = new PayoutAccountRepository(this.storeProvider);
+  public penaltyDisputes = new PenaltyDisputeRepository(this.storeProvider);
+
+  // Swap the backing store, e.g. an InMemoryStore in tests
+  useStore(store: DocumentStore): void {
+    this.store = store;
+  }
+
+  getStore(): DocumentStore {
+    return this.store;
+  }
+
+  // Complex operations that involve multiple collections
+
+  // Create a new group with the admin as its first member
+  async createGroupWithAdmin(
+    groupData: NewGroup,
+    groupId?: string,
+  ): Promise<DatabaseResult<{ group: Group; membership: GroupMember }>> {
+    try {
+      const groupResult = await this.groups.createGroup(groupData, groupId);
+      if (!groupResult.success || !groupResult.data) {
+        return { success: false, error: groupResult.error || 'Failed to create group' };
+      }
+
+      const group = groupResult.data;
+      const membershipResult = await this.groupMembers.addMember({
+        group_id: group.id,
+        user_id: group.admin_id,
+        role: 'admin',
+        join_order: 1,
+        joined_via: 'admin',
+      });
+
+      if (!membershipResult.success || !membershipResult.data) {
+        // Roll back the group if the admin could not be added
+        await this.groups.deleteGroup(group.id, group.admin_id);
+        return { success: false, error: membershipResult.error || 'Failed to add admin as member' };
+      }
+
+      const updatedGroup = await this.groups.getGroupById(group.id);
+      return {
+        success: true,
+        data: { group: updatedGroup.data || group, membership: membershipResult.data },
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message, code: error.code };
+    }
+  }
+
+  // Join a group (user perspective)
+  async joinGroup(
+    groupId: string,
+    userId: string,
+    userDisplayName?: string,
+  ): Promise<DatabaseResult<{ group: Group; membership: GroupMember }>> {
+    try {
+      const groupResult = await this.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        return { success: false, error: 'Group not found', code: 'group-not-found' };
+      }
+
+      const group = groupResult.data;
+      if (group.status !== 'active' && group.status !== 'recruiting') {
+        return { success: false, error: 'Group is not accepting new members', code: 'group-closed' };
+      }
+
+      if (group.total_members >= group.max_members) {
+        return { success: false, error: 'Group is full', code: 'group-full' };
+      }
+
+      const membershipResult = await this.groupMembers.addMember({
+        group_id: groupId,
+        user_id: userId,
+        role: 'member',
+        joined_via: 'search',
+        display_name: userDisplayName,
+      });
+
+      if (!membershipResult.success || !membershipResult.data) {
+        return { success: false, error: membershipResult.error || 'Failed to join group' };
+      }
+
+      const updatedGroup = await this.groups.getGroupById(groupId);
+      return {
+        success: true,
+        data: { group: updatedGroup.data || group, membership: membershipResult.data },
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message, code: error.code };
+    }
+  }
+
+  // Get a group together with its current members in rotation order
+  async getGroupWithMembers(groupId: string): Promise<DatabaseResult<GroupWithMembers | null>> {
+    try {
+      const groupResult = await this.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        return { success: groupResult.success, data: null, error: groupResult.error };
+      }
+
+      const membersResult = await this.groupMembers.getGroupMembers(groupId);
+      if (!membersResult.success || !membersResult.data) {
+        return { success: false, error: membersResult.error || 'Failed to load group members' };
+      }
+
+      const members = membersResult.data.items.filter(
+        member => member.status !== 'removed' && member.status !== 'left',
+      );
+      return { success: true, data: { ...groupResult.data, members } };
+    } catch (error: any) {
+      return { success: false, error: error.message, code: error.code };
+    }
+  }
+
+  // Get every group a user currently belongs to, newest membership first
+  async getUserGroups(userId: string): Promise<DatabaseResult<GroupWithMembers[]>> {
+    try {
+      const membershipsResult = await this.groupMembers.getUserMemberships(userId);
+      if (!membershipsResult.success || !membershipsResult.data) {
+        return { success: false, error: membershipsResult.error || 'Failed to load memberships' };
+      }
+
+      const groups: GroupWithMembers[] = [];
+      for (const membership of membershipsResult.data.items) {
+        if (membership.status === 'removed' || membership.status === 'left') {
+          continue;
+        }
+        const groupResult = await this.getGroupWithMembers(membership.group_id);
+        if (groupResult.data) {
+          groups.push(groupResult.data);
+        }
+      }
+
+      return { success: true, data: groups };
+    } catch (error: any) {
+      return { success: false, error: error.message, code: error.code };
+    }
+  }
+
+  // Leave a group
+  async leaveGroup(groupId: string, userId: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const membershipResult = await this.groupMembers.getMemberByUserAndGroup(userId, groupId);
+      if (!membershipResult.success || !membershipResult.data) {
+        return { success: false, error: 'Membership not found', code: 'member-not-found' };
+      }
+
+      const membership = membershipResult.data;
+
+      if (membership.role === 'admin') {
+        const membersResult = await this.groupMembers.getGroupMembers(groupId, { status: 'active' });
+        if (membersResult.success && membersResult.data && membersResult.data.items.length > 1) {
+          return {
+            success: false,
+            error: 'Admin cannot leave group with active members. Transfer admin role first.',
+            code: 'admin-must-transfer',
+          };
+        }
+      }
+
+      const contributionsResult = await this.contributions.getUserContributions(userId, {
+        status: 'pending',
+        group_id: groupId,
+      });
+      if (contributionsResult.success && contributionsResult.data && contributionsResult.data.items.length > 0) {
+        return { success: false, error: 'Cannot leave group with pending contributions', code: 'pending-contributions' };
+      }
+
+      return await this.groupMembers.removeMember(membership.id);
+    } catch (error: any) {
+      return { success: false, error: error.message, code: error.code };
+    }
+  }
+
+  // Create a pending contribution for every active member in a cycle
+  async createCycleContributions(
+    groupId: string,
+    cycleNumber: number,
+    dueDate: Date,
+  ): Promise<DatabaseResult<Contribution[]>> {
+    try {
+      const groupResult = await this.groups.getGroupById(groupId);
+      if (!groupResult.success || !groupResult.data) {
+        return { success: false, error: 'Group not found', code: 'group-not-found' };
+      }
+
+      const group = groupResult.data;
+      const membersResult = await this.groupMembers.getGroupMembers(groupId, { status: 'active' });
+      if (!membersResult.success || !membersResult.data || membersResult.data.items.length === 0) {
+        return { success: false, error: 'No active members found', code: 'no-active-members' };
+      }
+
+      // Never create a second contribution for a member who already has one this cycle
+      const existingResult = await this.contributions.getCycleContributions(groupId, cycleNumber);
+      const existingUserIds = new Set((existingResult.data || []).map(c => c.user_id));
+
+      return await this.contributions.batchCreateContributions(
+        membersResult.data.items
+          .filter(member => !existingUserIds.has(member.user_id))
+          .map(member => ({
+            group_id: groupId,
+            user_id: member.user_id,
+            amount: group.contribution_amount,
+            cycle_number: cycleNumber,
+            due_date: dueDate,
+          })),
+      );
+    } catch (error: any) {
+      return { success: false, error: error.message, code: error.code };
+    }
+  }
+
+  // Create the payout for a cycle from the contributions collected so far.
+  // recipientId comes from the group's turn order strategy; without it the join-order rotation is used.
+  async createCyclePayout(
+    groupId: string,
+    cycleNumber: number,
+    scheduledDate: Date,
+    recipientId?: string,
+  ): Promise<DatabaseResult<Payout>> {
+    try {
+      const membersResult = await this.groupMembers.getGroupMembers(groupId, { status: 'active' });
+      if (!membersResult.success || !membersResult.data || membersResult.data.items.length === 0) {
+        return { success: false, error: 'No recipient found for this cycle', code: 'no-recipient' };
+      }
+
+      // Members are returned in join order, so the cycle number indexes the rotation
+      const members = membersResult.data.items;
+      const recipient = recipientId
+        ? members.find(member => member.user_id === recipientId)
+        : members[(cycleNumber - 1) % members.length];
+      if (!recipient) {
+        return { success: false, error: 'Scheduled recipient is not an active member', code: 'no-recipient' };
+      }
+
+      const contributionsResult = await this.contributions.getCycleContributions(groupId, cycleNumber);
+      if (!contributionsResult.success || !contributionsResult.data) {
+        return { success: false, error: 'Failed to get cycle contributions' };
+      }
+
+      const groupResult = await this.groups.getGroupById(groupId);
+      const currency = currencyOf(groupResult.data);
+      const contributions = contributionsResult.data.filter(c => c.status !== 'cancelled');
+      const paid = contributions.filter(c => c.status === 'paid');
+      const totalCollected = paid.reduce((sum, c) => sum + (c.paid_amount ?? c.amount) + (c.late_penalty_amount || 0), 0);
+      const processingFee = totalCollected * PAYOUT_PROCESSING_FEE_RATE;
+
+      // Record what the recipient is still owed when not everyone has paid in full
+      const expectedAmount = sumMoney(contributions.map(c => money(c.amount, currency)), currency);
+      const shortfall = subtractMoney(
+        expectedAmount,
+        sumMoney(paid.map(c => money(Math.min(c.paid_amount ?? c.amount, c.amount), currency)), currency),
+      );
+
+      return await this.payouts.createPayout({
+        group_id: groupId,
+        recipient_id: recipient.user_id,
+        amount: totalCollected,
+        cycle_number: cycleNumber,
+        scheduled_date: scheduledDate,
+        processing_fee: processingFee,
+        net_amount: totalCollected - processingFee,
+        ...(shortfall.minorUnits > 0
+          ? { expected_amount: toMajor(expectedAmount), shortfall_amount: toMajor(shortfall) }
+          : {}),
+      });
+    } catch (error: any) {
+      return { success: false, error: error.message, code: error.code };
+    }
+  }
+
+  // Move members embedded in legacy group documents into the group_members collection
+  async migrateEmbeddedMembers(
+    options: EmbeddedMembersMigrationOptions = {},
+  ): Promise<DatabaseResult<EmbeddedMembersMigrationResult>> {
+    return migrateEmbeddedMembers(this.store, options);
+  }
+}
+
+export default new DatabaseService();
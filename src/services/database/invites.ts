@@ -0,0 +1,110 @@
+import { DatabaseResult, GroupInvite } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, where } from './store';
+
+class InviteRepository extends Repository {
+  // Store a new invite code
+  async createInvite(invite: Omit<GroupInvite, 'id'>): Promise<DatabaseResult<GroupInvite>> {
+    try {
+      const id = this.store.generateId(COLLECTIONS.GROUP_INVITES);
+      const created = await this.store.set<GroupInvite>(COLLECTIONS.GROUP_INVITES, id, invite);
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get invite by ID
+  async getInviteById(inviteId: string): Promise<DatabaseResult<GroupInvite | null>> {
+    try {
+      const invite = await this.store.get<GroupInvite>(COLLECTIONS.GROUP_INVITES, inviteId);
+      return { success: true, data: invite };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get the most recent invite issued with the given code
+  async getInviteByCode(inviteCode: string): Promise<DatabaseResult<GroupInvite | null>> {
+    try {
+      const invites = await this.store.query<GroupInvite>(COLLECTIONS.GROUP_INVITES, {
+        where: [where('invite_code', '==', inviteCode)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+        limit: 1,
+      });
+      return { success: true, data: invites[0] || null };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get active invites for a group, newest first
+  async getActiveInvitesForGroup(groupId: string): Promise<DatabaseResult<GroupInvite[]>> {
+    try {
+      const invites = await this.store.query<GroupInvite>(COLLECTIONS.GROUP_INVITES, {
+        where: [where('group_id', '==', groupId), where('is_active', '==', true)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: invites };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update invite properties
+  async updateInvite(
+    inviteId: string,
+    updates: Partial<Omit<GroupInvite, 'id'>>,
+  ): Promise<DatabaseResult<GroupInvite | null>> {
+    try {
+      await this.store.update(COLLECTIONS.GROUP_INVITES, inviteId, updates);
+      return this.getInviteById(inviteId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Record one use of an invite, deactivating it once max_uses is reached
+  async incrementUsage(inviteId: string): Promise<DatabaseResult<GroupInvite | null>> {
+    try {
+      const invite = await this.store.get<GroupInvite>(COLLECTIONS.GROUP_INVITES, inviteId);
+      if (!invite) {
+        return { success: false, error: 'Invite not found', code: 'invite-not-found' };
+      }
+
+      const currentUses = invite.current_uses + 1;
+      return this.updateInvite(inviteId, {
+        current_uses: currentUses,
+        is_active: invite.max_uses === undefined || currentUses < invite.max_uses,
+      });
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Deactivate every active invite that expired before the given time
+  async deactivateExpiredInvites(asOf: Date = new Date()): Promise<DatabaseResult<number>> {
+    try {
+      const expired = await this.store.query<GroupInvite>(COLLECTIONS.GROUP_INVITES, {
+        where: [where('is_active', '==', true), where('expires_at', '<', asOf)],
+      });
+
+      if (expired.length > 0) {
+        await this.store.commit(
+          expired.map(invite => ({
+            type: 'update' as const,
+            collection: COLLECTIONS.GROUP_INVITES,
+            id: invite.id,
+            data: { is_active: false },
+          })),
+        );
+      }
+
+      return { success: true, data: expired.length };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default InviteRepository;
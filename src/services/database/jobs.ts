@@ -0,0 +1,204 @@
+import { DatabaseResult, Job } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, where } from './store';
+
+// Firestore document IDs cannot contain slashes
+export const jobIdForKey = (idempotencyKey: string): string => idempotencyKey.replace(/\//g, '_');
+
+class JobRepository extends Repository {
+  // Create a job unless one with the same idempotency key already exists.
+  // Cancelled and failed jobs can be enqueued again under the same key.
+  async enqueueJob(
+    job: Pick<Job, 'type' | 'idempotency_key' | 'group_id' | 'payload' | 'run_at' | 'max_attempts'>,
+    now: Date,
+  ): Promise<DatabaseResult<{ job: Job; created: boolean }>> {
+    try {
+      const id = jobIdForKey(job.idempotency_key);
+      const result = await this.store.runTransaction(async transaction => {
+        const existing = await transaction.get<Job>(COLLECTIONS.JOBS, id);
+        if (existing && existing.status !== 'cancelled' && existing.status !== 'failed') {
+          return { job: existing, created: false };
+        }
+
+        const created: Job = {
+          ...job,
+          id,
+          status: 'pending',
+          attempts: 0,
+          created_at: now,
+          updated_at: now,
+        };
+        transaction.set(COLLECTIONS.JOBS, id, created);
+        return { job: created, created: true };
+      });
+      return { success: true, data: result };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get job by ID
+  async getJobById(jobId: string): Promise<DatabaseResult<Job | null>> {
+    try {
+      const job = await this.store.get<Job>(COLLECTIONS.JOBS, jobId);
+      return { success: true, data: job };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get the job created for an idempotency key
+  async getJobByKey(idempotencyKey: string): Promise<DatabaseResult<Job | null>> {
+    return this.getJobById(jobIdForKey(idempotencyKey));
+  }
+
+  // Get jobs that are due, plus running jobs whose worker let the lease expire.
+  // Pass groupIds (at most 30, Firestore's limit for 'in') to only get those groups' jobs.
+  async getDueJobs(asOf: Date, groupIds?: string[], limit = 50): Promise<DatabaseResult<Job[]>> {
+    try {
+      const inGroups = groupIds ? [where('group_id', 'in', groupIds)] : [];
+      const [pending, abandoned] = await Promise.all([
+        this.store.query<Job>(COLLECTIONS.JOBS, {
+          where: [...inGroups, where('status', '==', 'pending'), where('run_at', '<=', asOf)],
+          orderBy: { field: 'run_at', direction: 'asc' },
+          limit,
+        }),
+        this.store.query<Job>(COLLECTIONS.JOBS, {
+          where: [...inGroups, where('status', '==', 'running'), where('lease_expires_at', '<=', asOf)],
+          orderBy: { field: 'lease_expires_at', direction: 'asc' },
+          limit,
+        }),
+      ]);
+      return { success: true, data: [...abandoned, ...pending].slice(0, limit) };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get jobs of one type, soonest first, optionally limited to some statuses and one group
+  async getJobsByType(type: string, statuses?: Job['status'][], groupId?: string): Promise<DatabaseResult<Job[]>> {
+    try {
+      const clauses = [where('type', '==', type)];
+      if (groupId) {
+        clauses.push(where('group_id', '==', groupId));
+      }
+      if (statuses && statuses.length > 0) {
+        clauses.push(where('status', 'in', statuses));
+      }
+      const jobs = await this.store.query<Job>(COLLECTIONS.JOBS, {
+        where: clauses,
+        orderBy: { field: 'run_at', direction: 'asc' },
+      });
+      return { success: true, data: jobs };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Take the lease on a job; returns null when it is not due or another worker holds it
+  async claimJob(jobId: string, workerId: string, now: Date, leaseMs: number): Promise<DatabaseResult<Job | null>> {
+    try {
+      const claimed = await this.store.runTransaction(async transaction => {
+        const job = await transaction.get<Job>(COLLECTIONS.JOBS, jobId);
+        if (!job) {
+          return null;
+        }
+
+        const due = job.status === 'pending' && new Date(job.run_at) <= now;
+        const abandoned =
+          job.status === 'running' && !!job.lease_expires_at && new Date(job.lease_expires_at) <= now;
+        if (!due && !abandoned) {
+          return null;
+        }
+        if (abandoned && job.attempts >= job.max_attempts) {
+          transaction.update(COLLECTIONS.JOBS, jobId, {
+            status: 'failed',
+            last_error: 'Worker stopped responding on the last attempt',
+            lease_owner: null,
+            lease_expires_at: null,
+            updated_at: now,
+          });
+          return null;
+        }
+
+        const lease = {
+          status: 'running' as const,
+          attempts: job.attempts + 1,
+          lease_owner: workerId,
+          lease_expires_at: new Date(now.getTime() + leaseMs),
+          updated_at: now,
+        };
+        transaction.update(COLLECTIONS.JOBS, jobId, lease);
+        return { ...job, ...lease };
+      });
+      return { success: true, data: claimed };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Mark a job finished, as long as the worker still holds its lease
+  async completeJob(jobId: string, workerId: string, now: Date): Promise<DatabaseResult<boolean>> {
+    return this.releaseJob(jobId, workerId, {
+      status: 'completed',
+      completed_at: now,
+      updated_at: now,
+    });
+  }
+
+  // Record a failed attempt; the job goes back to pending at retryAt, or fails for good without one
+  async failJob(
+    jobId: string,
+    workerId: string,
+    now: Date,
+    error: string,
+    retryAt?: Date,
+  ): Promise<DatabaseResult<boolean>> {
+    return this.releaseJob(jobId, workerId, {
+      status: retryAt ? 'pending' : 'failed',
+      ...(retryAt ? { run_at: retryAt } : {}),
+      last_error: error,
+      updated_at: now,
+    });
+  }
+
+  // Cancel a job that has not started yet
+  async cancelJob(jobId: string, now: Date): Promise<DatabaseResult<boolean>> {
+    try {
+      const cancelled = await this.store.runTransaction(async transaction => {
+        const job = await transaction.get<Job>(COLLECTIONS.JOBS, jobId);
+        if (!job || job.status !== 'pending') {
+          return false;
+        }
+        transaction.update(COLLECTIONS.JOBS, jobId, { status: 'cancelled', updated_at: now });
+        return true;
+      });
+      return { success: true, data: cancelled };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Drop the lease with a final status; a no-op if the lease passed to another worker
+  private async releaseJob(jobId: string, workerId: string, updates: Partial<Job>): Promise<DatabaseResult<boolean>> {
+    try {
+      const released = await this.store.runTransaction(async transaction => {
+        const job = await transaction.get<Job>(COLLECTIONS.JOBS, jobId);
+        if (!job || job.status !== 'running' || job.lease_owner !== workerId) {
+          return false;
+        }
+        transaction.update(COLLECTIONS.JOBS, jobId, {
+          ...updates,
+          lease_owner: null,
+          lease_expires_at: null,
+        });
+        return true;
+      });
+      return { success: true, data: released };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default JobRepository;
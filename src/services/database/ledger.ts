@@ -0,0 +1,322 @@
+import {
+  Contribution,
+  ContributionPayment,
+  DatabaseResult,
+  LedgerEntry,
+  LedgerLine,
+  Payout,
+  Settlement,
+} from '../../types/database';
+import { CurrencyCode, currencyOf, money, roundAmount, subtractMoney, sumMoney, toMajor } from '../../utils/money';
+import { Repository } from './repository';
+import { BatchWrite, COLLECTIONS, where } from './store';
+
+export const LEDGER_ACCOUNTS = {
+  POT: 'pot', // money the group is holding
+  LATE_FEES: 'late_fees',
+  WITHDRAWAL_FEES: 'withdrawal_fees', // share of contributions kept when a member leaves early
+  PROCESSING_FEES: 'processing_fees', // deducted from payouts by the payment processor
+  WALLET_FUNDS: 'wallet_funds', // money held for members' wallets, kept apart from the pot
+  RESERVE: 'reserve', // money set aside to cover payout shortfalls, kept apart from the pot
+  RESERVE_FUNDING: 'reserve_funding', // what has been put into the reserve
+} as const;
+
+const MEMBER_ACCOUNT_PREFIX = 'member:';
+const WALLET_ACCOUNT_PREFIX = 'wallet:';
+
+// A member's account: credited with what they pay in, debited with what they take out or owe
+export const memberAccount = (userId: string): string => `${MEMBER_ACCOUNT_PREFIX}${userId}`;
+
+export const memberIdFromAccount = (account: string): string | null =>
+  account.startsWith(MEMBER_ACCOUNT_PREFIX) ? account.slice(MEMBER_ACCOUNT_PREFIX.length) : null;
+
+// What the group owes a member from their wallet: credited when money is put in, debited when it is used or withdrawn
+export const walletAccount = (userId: string): string => `${WALLET_ACCOUNT_PREFIX}${userId}`;
+
+// Lines are in the group's currency, rounded to whole minor units of it
+export const debit = (account: string, amount: number, currency: CurrencyCode): LedgerLine => ({
+  account,
+  debit: roundAmount(amount, currency),
+  credit: 0,
+});
+
+export const credit = (account: string, amount: number, currency: CurrencyCode): LedgerLine => ({
+  account,
+  debit: 0,
+  credit: roundAmount(amount, currency),
+});
+
+// firestore.rules cannot loop, so it checks the balance of entries up to this many lines
+export const MAX_ENTRY_LINES = 6;
+
+// Sides are compared as Money so floating point never unbalances an entry
+export const isBalanced = (lines: LedgerLine[], currency: CurrencyCode): boolean => {
+  const debits = sumMoney(lines.map(line => money(line.debit, currency)), currency);
+  const credits = sumMoney(lines.map(line => money(line.credit, currency)), currency);
+  return (
+    lines.length >= 2 &&
+    lines.length <= MAX_ENTRY_LINES &&
+    debits.minorUnits === credits.minorUnits &&
+    debits.minorUnits > 0
+  );
+};
+
+// Part payments already in the ledger through contributionPaymentEntry
+export const recordedPartPayments = (contribution: Pick<Contribution, 'payments'>, currency: CurrencyCode): number =>
+  toMajor(sumMoney((contribution.payments || []).map(payment => money(payment.amount, currency)), currency));
+
+// Money paid in when a contribution is settled, including any late fee settled
+// with it, less the part payments recorded before. Zero when the parts covered it all.
+export const contributionSettlementAmount = (contribution: Contribution, currency: CurrencyCode): number =>
+  roundAmount(
+    (contribution.paid_amount ?? contribution.amount) +
+      (contribution.late_penalty_amount || 0) -
+      recordedPartPayments(contribution, currency),
+    currency,
+  );
+
+// Money paid in for a contribution, including any late fee settled with it
+export const contributionEntry = (
+  contribution: Contribution,
+  currency: CurrencyCode,
+  createdAt: Date = new Date(),
+): LedgerEntry => {
+  const received = contributionSettlementAmount(contribution, currency);
+  return {
+    id: `contribution_${contribution.id}`,
+    group_id: contribution.group_id,
+    type: 'contribution',
+    cycle_number: contribution.cycle_number,
+    reference_id: contribution.id,
+    description: `Contribution for cycle ${contribution.cycle_number}`,
+    currency,
+    lines: [
+      debit(LEDGER_ACCOUNTS.POT, received, currency),
+      credit(memberAccount(contribution.user_id), received, currency),
+    ],
+    created_by: contribution.confirmed_by,
+    created_at: createdAt,
+  };
+};
+
+// One part payment toward a contribution that is being paid in pieces
+export const contributionPaymentEntry = (
+  contribution: Contribution,
+  payment: ContributionPayment,
+  currency: CurrencyCode,
+): LedgerEntry => ({
+  id: `contribution_payment_${payment.id}`,
+  group_id: contribution.group_id,
+  type: 'contribution',
+  cycle_number: contribution.cycle_number,
+  reference_id: contribution.id,
+  description: `Part payment for cycle ${contribution.cycle_number}`,
+  currency,
+  lines: [
+    debit(LEDGER_ACCOUNTS.POT, payment.amount, currency),
+    credit(memberAccount(contribution.user_id), payment.amount, currency),
+  ],
+  created_by: payment.recorded_by,
+  created_at: payment.created_at,
+});
+
+// Wallet money used to pay a contribution; the contribution's own entry moves it into the pot
+export const walletPaymentEntry = (
+  contribution: Contribution,
+  paymentId: string,
+  amount: number,
+  currency: CurrencyCode,
+  createdAt: Date,
+): LedgerEntry => ({
+  id: `wallet_payment_${paymentId}`,
+  group_id: contribution.group_id,
+  type: 'wallet',
+  cycle_number: contribution.cycle_number,
+  reference_id: contribution.id,
+  description: `Wallet used for cycle ${contribution.cycle_number}`,
+  currency,
+  lines: [
+    debit(walletAccount(contribution.user_id), amount, currency),
+    credit(LEDGER_ACCOUNTS.WALLET_FUNDS, amount, currency),
+  ],
+  created_at: createdAt,
+});
+
+// The full payout leaves the pot; the recipient gets the net amount and the processor the fee
+export const payoutEntry = (
+  payout: Payout,
+  currency: CurrencyCode,
+  createdAt: Date = new Date(),
+  createdBy?: string,
+): LedgerEntry => {
+  const fee = subtractMoney(money(payout.amount, currency), money(payout.net_amount, currency));
+  const lines = [debit(memberAccount(payout.recipient_id), payout.net_amount, currency)];
+  if (fee.minorUnits > 0) {
+    lines.push(debit(LEDGER_ACCOUNTS.PROCESSING_FEES, toMajor(fee), currency));
+  }
+  lines.push(credit(LEDGER_ACCOUNTS.POT, payout.amount, currency));
+
+  return {
+    id: `payout_${payout.id}`,
+    group_id: payout.group_id,
+    type: 'payout',
+    cycle_number: payout.cycle_number,
+    reference_id: payout.id,
+    description: `Payout for cycle ${payout.cycle_number}`,
+    currency,
+    lines,
+    created_by: createdBy,
+    created_at: createdAt,
+  };
+};
+
+// A leaving member's refund moves from the pot into their wallet; what isn't refunded
+// of their contributions stays with the group as a withdrawal fee
+export const refundEntry = (params: {
+  groupId: string;
+  userId: string;
+  cycleNumber: number;
+  currency: CurrencyCode;
+  contributed: number;
+  refund: number;
+  createdBy?: string;
+  createdAt: Date;
+}): LedgerEntry => {
+  const { groupId, userId, cycleNumber, currency, contributed, refund } = params;
+  const lines = [debit(memberAccount(userId), contributed, currency), credit(LEDGER_ACCOUNTS.POT, refund, currency)];
+  const withdrawalFee = subtractMoney(money(contributed, currency), money(refund, currency));
+  if (withdrawalFee.minorUnits > 0) {
+    lines.push(credit(LEDGER_ACCOUNTS.WITHDRAWAL_FEES, toMajor(withdrawalFee), currency));
+  }
+  lines.push(debit(LEDGER_ACCOUNTS.WALLET_FUNDS, refund, currency), credit(walletAccount(userId), refund, currency));
+
+  return {
+    id: `refund_${groupId}_${userId}_${cycleNumber}`,
+    group_id: groupId,
+    type: 'refund',
+    cycle_number: cycleNumber,
+    reference_id: userId,
+    description: `Refund on leaving in cycle ${cycleNumber}`,
+    currency,
+    lines,
+    created_by: params.createdBy,
+    created_at: params.createdAt,
+  };
+};
+
+// Reserve money moved into the pot to cover part of a payout's shortfall
+export const reserveAdvanceEntry = (
+  payout: Payout,
+  advanceId: string,
+  amount: number,
+  currency: CurrencyCode,
+  createdBy: string,
+  createdAt: Date = new Date(),
+): LedgerEntry => ({
+  id: `reserve_advance_${advanceId}`,
+  group_id: payout.group_id,
+  type: 'reserve',
+  cycle_number: payout.cycle_number,
+  reference_id: payout.id,
+  description: `Reserve advance toward the cycle ${payout.cycle_number} payout`,
+  currency,
+  lines: [debit(LEDGER_ACCOUNTS.POT, amount, currency), credit(LEDGER_ACCOUNTS.RESERVE, amount, currency)],
+  created_by: createdBy,
+  created_at: createdAt,
+});
+
+// Remaining funds paid out of the pot into members' wallets in a settlement, one entry
+// per member paid, so no entry grows past what firestore.rules can check for balance
+export const settlementCredits = (settlement: Settlement): { userId: string; entry: LedgerEntry }[] => {
+  const currency = currencyOf(settlement);
+  return settlement.lines
+    .filter(line => money(line.amount, currency).minorUnits > 0)
+    .map(line => ({
+      userId: line.user_id,
+      entry: {
+        id: `settlement_${settlement.id}_${line.user_id}`,
+        group_id: settlement.group_id,
+        type: 'redistribution',
+        cycle_number: settlement.cycle_number,
+        reference_id: settlement.id,
+        description: `Settlement on ${settlement.reason === 'dissolve' ? 'dissolving' : 'restarting'} the group`,
+        currency,
+        lines: [
+          debit(memberAccount(line.user_id), line.amount, currency),
+          credit(LEDGER_ACCOUNTS.POT, line.amount, currency),
+          debit(LEDGER_ACCOUNTS.WALLET_FUNDS, line.amount, currency),
+          credit(walletAccount(line.user_id), line.amount, currency),
+        ],
+        created_by: settlement.created_by,
+        created_at: settlement.created_at,
+      },
+    }));
+};
+
+// Entries carry the group's currency; ones written before it was recorded are in naira
+const assertBalanced = (entry: LedgerEntry): void => {
+  if (!isBalanced(entry.lines, currencyOf(entry))) {
+    throw Object.assign(new Error(`Ledger entry ${entry.id} does not balance`), { code: 'unbalanced-entry' });
+  }
+};
+
+// Batch write that appends an entry alongside the change it records
+export const ledgerEntryWrite = (entry: LedgerEntry): BatchWrite => {
+  assertBalanced(entry);
+  const { id, ...data } = entry;
+  return { type: 'set', collection: COLLECTIONS.LEDGER_ENTRIES, id, data };
+};
+
+class LedgerRepository extends Repository {
+  // Generate an ID for an entry with nothing else to key it on, e.g. a deposit
+  generateEntryId(): string {
+    return this.store.generateId(COLLECTIONS.LEDGER_ENTRIES);
+  }
+
+  // Append a balanced entry. Entries are never changed, so an entry that
+  // already exists is returned as-is with created set to false.
+  async appendEntry(entry: LedgerEntry): Promise<DatabaseResult<{ entry: LedgerEntry; created: boolean }>> {
+    try {
+      assertBalanced(entry);
+      const result = await this.store.runTransaction(async transaction => {
+        const existing = await transaction.get<LedgerEntry>(COLLECTIONS.LEDGER_ENTRIES, entry.id);
+        if (existing) {
+          return { entry: existing, created: false };
+        }
+        const { id, ...data } = entry;
+        transaction.set(COLLECTIONS.LEDGER_ENTRIES, id, data);
+        return { entry, created: true };
+      });
+      return { success: true, data: result };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get entry by ID
+  async getEntryById(entryId: string): Promise<DatabaseResult<LedgerEntry | null>> {
+    try {
+      const entry = await this.store.get<LedgerEntry>(COLLECTIONS.LEDGER_ENTRIES, entryId);
+      return { success: true, data: entry };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's entries in the order they were recorded, optionally only up to a cycle
+  async getGroupEntries(groupId: string, upToCycle?: number): Promise<DatabaseResult<LedgerEntry[]>> {
+    try {
+      const clauses = [where('group_id', '==', groupId)];
+      if (upToCycle !== undefined) {
+        clauses.push(where('cycle_number', '<=', upToCycle));
+      }
+      const entries = await this.store.query<LedgerEntry>(COLLECTIONS.LEDGER_ENTRIES, { where: clauses });
+      entries.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+      return { success: true, data: entries };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default LedgerRepository;
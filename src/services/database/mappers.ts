@@ -0,0 +1,215 @@
+import { Contribution, Group, GroupMember, Payout } from '../../types/database';
+import { COLLECTIONS } from './store';
+
+/**
+ * Explicit mappers between the canonical domain model (types/database.ts) and
+ * the shape of documents stored in Firestore.
+ *
+ * Documents written by the old savings-group service used camelCase fields
+ * (contributionAmount, currentCycle, adminId...) and embedded members in the
+ * group document. Reading goes through fromDocument so those documents still
+ * come back in the canonical snake_case shape; writing always produces the
+ * canonical shape.
+ */
+export interface DocumentMapper<T extends { id: string }> {
+  fromDocument(id: string, data: Record<string, any>): T;
+  toDocument(entity: Partial<T>): Record<string, any>;
+}
+
+// Collection the old savings-group service wrote to
+export const LEGACY_GROUPS_COLLECTION = 'savingsGroups';
+
+// Legacy camelCase field -> canonical field, per collection
+const LEGACY_GROUP_FIELDS: Record<string, keyof Group> = {
+  adminId: 'admin_id',
+  contributionAmount: 'contribution_amount',
+  contributionFrequency: 'contribution_frequency',
+  payoutSchedule: 'payout_schedule',
+  startDate: 'start_date',
+  endDate: 'estimated_end_date',
+  currentCycle: 'current_cycle',
+  totalCycles: 'total_cycles',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const LEGACY_MEMBER_FIELDS: Record<string, keyof GroupMember> = {
+  groupId: 'group_id',
+  userId: 'user_id',
+  displayName: 'display_name',
+  joinedAt: 'joined_at',
+  totalContributions: 'total_contributions_made',
+  missedPayments: 'missed_contributions',
+};
+
+const LEGACY_CONTRIBUTION_FIELDS: Record<string, keyof Contribution> = {
+  groupId: 'group_id',
+  userId: 'user_id',
+  cycle: 'cycle_number',
+  dueDate: 'due_date',
+  paidDate: 'paid_date',
+  paymentMethod: 'payment_method',
+  transactionId: 'transaction_reference',
+  createdAt: 'created_at',
+};
+
+const LEGACY_PAYOUT_FIELDS: Record<string, keyof Payout> = {
+  groupId: 'group_id',
+  recipientId: 'recipient_id',
+  cycle: 'cycle_number',
+  scheduledDate: 'scheduled_date',
+  paidDate: 'sent_date',
+  completed_date: 'sent_date',
+  transactionId: 'transaction_reference',
+  createdAt: 'created_at',
+};
+
+// Statuses from before payouts had to be sent and confirmed. Paid-out payouts from
+// then are taken as confirmed; 'processing' meant approved but not yet sent.
+const LEGACY_PAYOUT_STATUSES: Record<string, Payout['status']> = {
+  pending: 'scheduled',
+  processing: 'approved',
+  paid: 'confirmed',
+  completed: 'confirmed',
+};
+
+// Move legacy fields onto their canonical names; canonical values win if both exist
+const renameLegacyFields = (
+  data: Record<string, any>,
+  fields: Record<string, string>,
+): Record<string, any> => {
+  const result = { ...data };
+  for (const [legacy, canonical] of Object.entries(fields)) {
+    if (result[canonical] === undefined && result[legacy] !== undefined) {
+      result[canonical] = result[legacy];
+    }
+    delete result[legacy];
+  }
+  return result;
+};
+
+// Strip the id (it is the document key) and any fields that must never be persisted
+const withoutFields = (entity: Record<string, any>, fields: string[]): Record<string, any> => {
+  const result = { ...entity };
+  for (const field of ['id', ...fields]) {
+    delete result[field];
+  }
+  return result;
+};
+
+export const groupMapper: DocumentMapper<Group> = {
+  fromDocument(id, data) {
+    // Embedded members are migrated into group_members; see migrateEmbeddedMembers
+    const { members, ...rest } = renameLegacyFields(data, LEGACY_GROUP_FIELDS);
+    const embeddedCount = Array.isArray(members) ? members.length : 0;
+    const totalCycles = rest.total_cycles ?? embeddedCount;
+    const startDate = rest.start_date;
+
+    return {
+      status: 'active',
+      payout_schedule: 'monthly',
+      total_members: embeddedCount,
+      max_members: Math.max(totalCycles, embeddedCount),
+      current_cycle: 1,
+      total_cycles: totalCycles,
+      grace_period_days: 3,
+      estimated_end_date: startDate,
+      cycle_start_date: startDate,
+      cycle_end_date: startDate,
+      total_contributions_collected: 0,
+      total_payouts_made: 0,
+      successful_cycles: 0,
+      ...rest,
+      id,
+    } as Group;
+  },
+  toDocument(entity) {
+    // Screens pass GroupWithMembers around; its members list lives in group_members
+    return withoutFields(entity, ['members']);
+  },
+};
+
+export const groupMemberMapper: DocumentMapper<GroupMember> = {
+  fromDocument(id, data) {
+    const { isActive, ...rest } = renameLegacyFields(data, LEGACY_MEMBER_FIELDS);
+
+    return {
+      status: isActive === false ? 'inactive' : 'active',
+      role: 'member',
+      can_invite_members: rest.role === 'admin',
+      can_view_all_contributions: rest.role === 'admin',
+      total_contributions_made: 0,
+      missed_contributions: 0,
+      late_contributions: 0,
+      on_time_contributions: 0,
+      reliability_percentage: 100,
+      payout_received: false,
+      notification_enabled: true,
+      auto_contribute: false,
+      updated_at: rest.joined_at,
+      ...rest,
+      id,
+    } as GroupMember;
+  },
+  toDocument(entity) {
+    return withoutFields(entity, []);
+  },
+};
+
+export const contributionMapper: DocumentMapper<Contribution> = {
+  fromDocument(id, data) {
+    const rest = renameLegacyFields(data, LEGACY_CONTRIBUTION_FIELDS);
+
+    return {
+      is_late: false,
+      grace_period_used: false,
+      verified_by_admin: false,
+      updated_at: rest.created_at,
+      ...rest,
+      id,
+    } as Contribution;
+  },
+  toDocument(entity) {
+    return withoutFields(entity, []);
+  },
+};
+
+export const payoutMapper: DocumentMapper<Payout> = {
+  fromDocument(id, data) {
+    const rest = renameLegacyFields(data, LEGACY_PAYOUT_FIELDS);
+
+    return {
+      payout_method: 'bank_transfer',
+      approved_by_admin: false,
+      net_amount: rest.amount,
+      retry_count: 0,
+      max_retries: 3,
+      updated_at: rest.created_at,
+      ...rest,
+      status: LEGACY_PAYOUT_STATUSES[rest.status] || rest.status,
+      id,
+    } as Payout;
+  },
+  toDocument(entity) {
+    return withoutFields(entity, []);
+  },
+};
+
+const MAPPERS: Record<string, DocumentMapper<any>> = {
+  [COLLECTIONS.GROUPS]: groupMapper,
+  [COLLECTIONS.GROUP_MEMBERS]: groupMemberMapper,
+  [COLLECTIONS.CONTRIBUTIONS]: contributionMapper,
+  [COLLECTIONS.PAYOUTS]: payoutMapper,
+};
+
+// Map a stored document to the domain model; collections without a mapper are returned as-is
+export const fromDocument = <T>(collection: string, id: string, data: Record<string, any>): T => {
+  const mapper = MAPPERS[collection];
+  return (mapper ? mapper.fromDocument(id, data) : { ...data, id }) as T;
+};
+
+// Map a (possibly partial) domain object to the stored document shape, without its id
+export const toDocument = (collection: string, entity: Record<string, any>): Record<string, any> => {
+  const mapper = MAPPERS[collection];
+  return mapper ? mapper.toDocument(entity) : withoutFields(entity, []);
+};
@@ -0,0 +1,175 @@
+import { BatchWrite, DocumentStore, StoreQuery, StoreTransaction, WhereClause } from './store';
+
+/**
+ * In-memory DocumentStore used by tests and offline demos.
+ * Documents are deep-copied on the way in and out so callers can never mutate
+ * stored state by accident, mirroring how Firestore snapshots behave.
+ */
+export class InMemoryStore implements DocumentStore {
+  private collections: Map<string, Map<string, Record<string, any>>> = new Map();
+  private idCounter = 0;
+  private lastTransaction: Promise<unknown> = Promise.resolve();
+
+  generateId(collection: string): string {
+    this.idCounter += 1;
+    return `${collection}_${this.idCounter}`;
+  }
+
+  async get<T>(collection: string, id: string): Promise<T | null> {
+    const doc = this.getCollection(collection).get(id);
+    return doc ? (clone(doc) as T) : null;
+  }
+
+  async set<T extends { id: string }>(collection: string, id: string, data: Omit<T, 'id'>): Promise<T> {
+    const doc = { ...clone(data), id };
+    this.getCollection(collection).set(id, doc);
+    return clone(doc) as T;
+  }
+
+  async update(collection: string, id: string, data: Record<string, any>): Promise<void> {
+    const docs = this.getCollection(collection);
+    const existing = docs.get(id);
+    if (!existing) {
+      throw new Error(`No document to update: ${collection}/${id}`);
+    }
+    docs.set(id, { ...existing, ...clone(stripUndefined(data)), id });
+  }
+
+  async delete(collection: string, id: string): Promise<void> {
+    this.getCollection(collection).delete(id);
+  }
+
+  async query<T>(collection: string, query: StoreQuery = {}): Promise<T[]> {
+    let docs = Array.from(this.getCollection(collection).values());
+
+    for (const clause of query.where || []) {
+      docs = docs.filter(doc => matches(doc, clause));
+    }
+
+    if (query.orderBy) {
+      const { field, direction = 'asc' } = query.orderBy;
+      const factor = direction === 'asc' ? 1 : -1;
+      docs.sort((a, b) => compare(a[field], b[field]) * factor);
+    }
+
+    const offset = query.offset || 0;
+    const end = query.limit !== undefined ? offset + query.limit : undefined;
+
+    return docs.slice(offset, end).map(doc => clone(doc) as T);
+  }
+
+  async commit(writes: BatchWrite[]): Promise<void> {
+    // Validate every update target first so a failing batch leaves no partial writes
+    for (const write of writes) {
+      if (write.type === 'update' && !this.getCollection(write.collection).has(write.id)) {
+        throw new Error(`No document to update: ${write.collection}/${write.id}`);
+      }
+    }
+
+    for (const write of writes) {
+      switch (write.type) {
+        case 'set':
+          await this.set(write.collection, write.id, write.data);
+          break;
+        case 'update':
+          await this.update(write.collection, write.id, write.data);
+          break;
+        case 'delete':
+          await this.delete(write.collection, write.id);
+          break;
+      }
+    }
+  }
+
+  // Transactions run one at a time, which is as strong as Firestore's retry-on-conflict
+  async runTransaction<R>(callback: (transaction: StoreTransaction) => Promise<R>): Promise<R> {
+    const run = this.lastTransaction.then(async () => {
+      const writes: BatchWrite[] = [];
+      const result = await callback({
+        get: (collection, id) => this.get(collection, id),
+        set: (collection, id, data) => {
+          writes.push({ type: 'set', collection, id, data });
+        },
+        update: (collection, id, data) => {
+          writes.push({ type: 'update', collection, id, data });
+        },
+      });
+      await this.commit(writes);
+      return result;
+    });
+    this.lastTransaction = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Remove every document - handy between test cases */
+  clear(): void {
+    this.collections.clear();
+    this.idCounter = 0;
+  }
+
+  private getCollection(name: string): Map<string, Record<string, any>> {
+    let docs = this.collections.get(name);
+    if (!docs) {
+      docs = new Map();
+      this.collections.set(name, docs);
+    }
+    return docs;
+  }
+}
+
+const toComparable = (value: any): any => (value instanceof Date ? value.getTime() : value);
+
+const compare = (a: any, b: any): number => {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left === right) return 0;
+  if (left === undefined || left === null) return -1;
+  if (right === undefined || right === null) return 1;
+  return left < right ? -1 : 1;
+};
+
+const matches = (doc: Record<string, any>, clause: WhereClause): boolean => {
+  const value = toComparable(doc[clause.field]);
+  const target = toComparable(clause.value);
+
+  switch (clause.op) {
+    case '==':
+      return value === target;
+    case '!=':
+      return value !== target;
+    case '<':
+      return value !== undefined && value < target;
+    case '<=':
+      return value !== undefined && value <= target;
+    case '>':
+      return value !== undefined && value > target;
+    case '>=':
+      return value !== undefined && value >= target;
+    case 'in':
+      return Array.isArray(clause.value) && clause.value.map(toComparable).includes(value);
+    case 'array-contains':
+      return Array.isArray(doc[clause.field]) && doc[clause.field].includes(clause.value);
+    default:
+      return false;
+  }
+};
+
+const stripUndefined = (data: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+const clone = <T>(value: T): T => {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as any;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => clone(item)) as any;
+  }
+  if (value && typeof value === 'object') {
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = clone(item);
+    }
+    return copy as T;
+  }
+  return value;
+};
@@ -0,0 +1,109 @@
+import { DatabaseResult, GroupMember } from '../../types/database';
+import { groupMapper, groupMemberMapper, LEGACY_GROUPS_COLLECTION } from './mappers';
+import { BatchWrite, COLLECTIONS, DocumentStore, where } from './store';
+
+export interface EmbeddedMembersMigrationOptions {
+  // Only migrate groups administered by this user (required when running with client credentials)
+  adminId?: string;
+  sourceCollection?: string;
+}
+
+export interface EmbeddedMembersMigrationResult {
+  groupsMigrated: number;
+  membersMigrated: number;
+  groupsSkipped: number;
+}
+
+// Membership IDs are derived from group and user so re-running the migration overwrites instead of duplicating
+const migratedMemberId = (groupId: string, userId: string) => `${groupId}_${userId}`;
+
+/**
+ * Convert group documents that embed a `members` array (written by the old
+ * savings-group service) into canonical group documents plus one
+ * group_members document per member.
+ *
+ * Each legacy group is migrated in a single batch and stamped with
+ * migrated_at, so the routine is safe to run repeatedly. The backend runs it
+ * for every group as a one-off job (see MigrationJobs); admins also run it for
+ * their own groups when they sign in.
+ */
+export const migrateEmbeddedMembers = async (
+  store: DocumentStore,
+  options: EmbeddedMembersMigrationOptions = {},
+): Promise<DatabaseResult<EmbeddedMembersMigrationResult>> => {
+  const { adminId, sourceCollection = LEGACY_GROUPS_COLLECTION } = options;
+  const result: EmbeddedMembersMigrationResult = { groupsMigrated: 0, membersMigrated: 0, groupsSkipped: 0 };
+
+  try {
+    // Legacy documents still use camelCase field names
+    const legacyGroups = await store.query<Record<string, any>>(sourceCollection, {
+      where: adminId ? [where('adminId', '==', adminId)] : [],
+    });
+
+    for (const legacy of legacyGroups) {
+      if (legacy.migrated_at || !Array.isArray(legacy.members)) {
+        result.groupsSkipped += 1;
+        continue;
+      }
+
+      const now = new Date();
+      const group = groupMapper.fromDocument(legacy.id, legacy);
+
+      // Legacy rotation order was join date, so keep it when assigning join_order
+      const members = legacy.members
+        .map((embedded: Record<string, any>) => groupMemberMapper.fromDocument('', { ...embedded, groupId: group.id }))
+        .sort((a: GroupMember, b: GroupMember) => new Date(a.joined_at).getTime() - new Date(b.joined_at).getTime())
+        .map((member: GroupMember, index: number): GroupMember => ({
+          ...member,
+          id: migratedMemberId(group.id, member.user_id),
+          join_order: index + 1,
+          role: member.user_id === group.admin_id ? 'admin' : member.role,
+          joined_via: 'migration',
+          updated_at: now,
+        }));
+
+      // Existing memberships (e.g. from a previous partial run) keep their data
+      const existing = await store.query<GroupMember>(COLLECTIONS.GROUP_MEMBERS, {
+        where: [where('group_id', '==', group.id)],
+      });
+      const existingUserIds = new Set(existing.map(member => member.user_id));
+      const newMembers = members.filter((member: GroupMember) => !existingUserIds.has(member.user_id));
+
+      const writes: BatchWrite[] = [
+        {
+          type: 'set',
+          collection: COLLECTIONS.GROUPS,
+          id: group.id,
+          data: groupMapper.toDocument({
+            ...group,
+            total_members: members.filter((member: GroupMember) => member.status === 'active').length,
+            updated_at: now,
+          }),
+        },
+        ...newMembers.map(
+          (member: GroupMember): BatchWrite => ({
+            type: 'set',
+            collection: COLLECTIONS.GROUP_MEMBERS,
+            id: member.id,
+            data: groupMemberMapper.toDocument(member),
+          }),
+        ),
+        {
+          type: 'update',
+          collection: sourceCollection,
+          id: legacy.id,
+          data: { migrated_at: now },
+        },
+      ];
+
+      await store.commit(writes);
+      result.groupsMigrated += 1;
+      result.membersMigrated += newMembers.length;
+    }
+
+    return { success: true, data: result };
+  } catch (error: any) {
+    console.error('Error migrating embedded group members:', error);
+    return { success: false, error: error?.message || 'Migration failed', code: error?.code };
+  }
+};
@@ -0,0 +1,157 @@
+import { DatabaseResult, ScheduledNotification } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, WhereClause, where } from './store';
+
+class ScheduledNotificationRepository extends Repository {
+  // Persist a notification to be sent later by NotificationScheduler
+  async scheduleNotification(
+    notification: Omit<ScheduledNotification, 'id'>,
+  ): Promise<DatabaseResult<ScheduledNotification>> {
+    try {
+      const id = this.store.generateId(COLLECTIONS.SCHEDULED_NOTIFICATIONS);
+      const created = await this.store.set<ScheduledNotification>(
+        COLLECTIONS.SCHEDULED_NOTIFICATIONS,
+        id,
+        notification,
+      );
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a scheduled notification by ID
+  async getScheduledNotificationById(notificationId: string): Promise<DatabaseResult<ScheduledNotification | null>> {
+    try {
+      const notification = await this.store.get<ScheduledNotification>(COLLECTIONS.SCHEDULED_NOTIFICATIONS, notificationId);
+      return { success: true, data: notification };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get pending notifications that are due to be sent
+  async getDueNotifications(asOf: Date = new Date()): Promise<DatabaseResult<ScheduledNotification[]>> {
+    try {
+      const notifications = await this.store.query<ScheduledNotification>(
+        COLLECTIONS.SCHEDULED_NOTIFICATIONS,
+        {
+          where: [where('status', '==', 'pending'), where('scheduledFor', '<=', asOf)],
+          orderBy: { field: 'scheduledFor', direction: 'asc' },
+        },
+      );
+      return { success: true, data: notifications };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update a scheduled notification (attempts, status, errors)
+  async updateScheduledNotification(
+    notificationId: string,
+    updates: Partial<Omit<ScheduledNotification, 'id'>>,
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      const data: Record<string, any> = { ...updates, updatedAt: new Date() };
+      delete data.id;
+      await this.store.update(COLLECTIONS.SCHEDULED_NOTIFICATIONS, notificationId, data);
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Record that a scheduled notification's push reached the device or was opened; the first time counts
+  async recordPushReceipt(
+    notificationId: string,
+    receipt: 'delivered' | 'opened',
+    at: Date = new Date(),
+  ): Promise<DatabaseResult<boolean>> {
+    try {
+      const notification = await this.store.get<ScheduledNotification>(COLLECTIONS.SCHEDULED_NOTIFICATIONS, notificationId);
+      if (!notification) {
+        return { success: false, error: 'Scheduled notification not found', code: 'notification-not-found' };
+      }
+
+      const updates: Partial<ScheduledNotification> = {};
+      if (!notification.deliveredAt) {
+        updates.deliveredAt = at;
+      }
+      if (receipt === 'opened' && !notification.openedAt) {
+        updates.openedAt = at;
+      }
+      if (Object.keys(updates).length > 0) {
+        await this.store.update(COLLECTIONS.SCHEDULED_NOTIFICATIONS, notificationId, { ...updates, updatedAt: at });
+      }
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Cancel pending notifications matching the given criteria
+  async cancelScheduledNotifications(criteria: {
+    contributionId?: string;
+    groupId?: string;
+    userId?: string;
+    templateId?: string;
+  }): Promise<DatabaseResult<boolean>> {
+    try {
+      const clauses: WhereClause[] = [where('status', '==', 'pending')];
+      if (criteria.contributionId) {
+        clauses.push(where('contributionId', '==', criteria.contributionId));
+      }
+      if (criteria.groupId) {
+        clauses.push(where('groupId', '==', criteria.groupId));
+      }
+      if (criteria.userId) {
+        clauses.push(where('userId', '==', criteria.userId));
+      }
+      if (criteria.templateId) {
+        clauses.push(where('templateId', '==', criteria.templateId));
+      }
+
+      if (clauses.length === 1) {
+        return { success: false, error: 'At least one cancellation criterion is required', code: 'invalid-argument' };
+      }
+
+      const pending = await this.store.query<ScheduledNotification>(COLLECTIONS.SCHEDULED_NOTIFICATIONS, {
+        where: clauses,
+      });
+
+      if (pending.length > 0) {
+        const now = new Date();
+        await this.store.commit(
+          pending.map(notification => ({
+            type: 'update' as const,
+            collection: COLLECTIONS.SCHEDULED_NOTIFICATIONS,
+            id: notification.id,
+            data: { status: 'cancelled', updatedAt: now },
+          })),
+        );
+      }
+
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get every scheduled notification for a user, soonest first
+  async getUserScheduledNotifications(userId: string): Promise<DatabaseResult<ScheduledNotification[]>> {
+    try {
+      const notifications = await this.store.query<ScheduledNotification>(
+        COLLECTIONS.SCHEDULED_NOTIFICATIONS,
+        {
+          where: [where('userId', '==', userId)],
+          orderBy: { field: 'scheduledFor', direction: 'asc' },
+        },
+      );
+      return { success: true, data: notifications };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default ScheduledNotificationRepository;
@@ -0,0 +1,93 @@
+import { DatabaseResult, PaymentTransaction } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, where } from './store';
+
+export type NewPaymentTransaction = Omit<PaymentTransaction, 'status' | 'created_at' | 'updated_at'>;
+
+class PaymentTransactionRepository extends Repository {
+  // New reference to send to a provider. Providers reject references they have seen before.
+  generateReference(): string {
+    return `ajo_${this.store.generateId(COLLECTIONS.PAYMENT_TRANSACTIONS)}`;
+  }
+
+  // Record a payment started with a gateway. The reference is the document ID.
+  async createTransaction(transaction: NewPaymentTransaction): Promise<DatabaseResult<PaymentTransaction>> {
+    try {
+      const now = new Date();
+      const { id, ...data } = transaction;
+      const created = await this.store.set<PaymentTransaction>(COLLECTIONS.PAYMENT_TRANSACTIONS, id, {
+        ...data,
+        status: 'pending',
+        created_at: now,
+        updated_at: now,
+      });
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get transaction by reference
+  async getByReference(reference: string): Promise<DatabaseResult<PaymentTransaction | null>> {
+    try {
+      const transaction = await this.store.get<PaymentTransaction>(COLLECTIONS.PAYMENT_TRANSACTIONS, reference);
+      return { success: true, data: transaction };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get every payment attempt for a contribution, newest first
+  async getContributionTransactions(contributionId: string): Promise<DatabaseResult<PaymentTransaction[]>> {
+    try {
+      const transactions = await this.store.query<PaymentTransaction>(COLLECTIONS.PAYMENT_TRANSACTIONS, {
+        where: [where('contribution_id', '==', contributionId)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: transactions };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update transaction
+  async updateTransaction(
+    reference: string,
+    updates: Partial<Omit<PaymentTransaction, 'id' | 'created_at'>>,
+  ): Promise<DatabaseResult<void>> {
+    try {
+      await this.store.update(COLLECTIONS.PAYMENT_TRANSACTIONS, reference, { ...updates, updated_at: new Date() });
+      return { success: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Move a pending (or failed, e.g. abandoned then paid) transaction to success.
+  // Webhooks and the app can both verify the same payment, so completed is only
+  // true for the caller that made the change.
+  async completeTransaction(
+    reference: string,
+    details: { provider_transaction_id?: string; paid_amount: number; paid_at: Date },
+  ): Promise<DatabaseResult<{ transaction: PaymentTransaction; completed: boolean }>> {
+    try {
+      const result = await this.store.runTransaction(async transaction => {
+        const existing = await transaction.get<PaymentTransaction>(COLLECTIONS.PAYMENT_TRANSACTIONS, reference);
+        if (!existing) {
+          throw Object.assign(new Error('Payment transaction not found'), { code: 'transaction-not-found' });
+        }
+        if (existing.status === 'success' || existing.status === 'refunded') {
+          return { transaction: existing, completed: false };
+        }
+        const updates = { ...details, status: 'success' as const, updated_at: new Date() };
+        transaction.update(COLLECTIONS.PAYMENT_TRANSACTIONS, reference, updates);
+        return { transaction: { ...existing, ...updates }, completed: true };
+      });
+      return { success: true, data: result };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default PaymentTransactionRepository;
@@ -0,0 +1,134 @@
+import { DatabaseResult, PayoutAccount } from '../../types/database';
+import { Repository } from './repository';
+import { BatchWrite, COLLECTIONS, where } from './store';
+
+export type NewPayoutAccount = Omit<PayoutAccount, 'id' | 'is_default' | 'created_at' | 'updated_at'>;
+
+class PayoutAccountRepository extends Repository {
+  // Save a verified account and make it the member's default, in one batch
+  async addAccount(accountData: NewPayoutAccount): Promise<DatabaseResult<PayoutAccount>> {
+    try {
+      const existing = await this.store.query<PayoutAccount>(COLLECTIONS.PAYOUT_ACCOUNTS, {
+        where: [where('user_id', '==', accountData.user_id)],
+      });
+      const duplicate = existing.find(
+        account => account.method === accountData.method && account.account_number === accountData.account_number,
+      );
+      if (duplicate) {
+        return { success: false, error: 'This account is already saved', code: 'already-exists' };
+      }
+
+      const now = new Date();
+      const id = this.store.generateId(COLLECTIONS.PAYOUT_ACCOUNTS);
+      const data = { ...accountData, is_default: true, created_at: now, updated_at: now };
+      await this.store.commit([
+        ...this.clearDefaults(existing, now),
+        { type: 'set', collection: COLLECTIONS.PAYOUT_ACCOUNTS, id, data },
+      ]);
+
+      return { success: true, data: { ...data, id } };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get an account by ID
+  async getAccountById(accountId: string): Promise<DatabaseResult<PayoutAccount | null>> {
+    try {
+      const account = await this.store.get<PayoutAccount>(COLLECTIONS.PAYOUT_ACCOUNTS, accountId);
+      return { success: true, data: account };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a member's accounts, the default first
+  async getUserAccounts(userId: string): Promise<DatabaseResult<PayoutAccount[]>> {
+    try {
+      const accounts = await this.store.query<PayoutAccount>(COLLECTIONS.PAYOUT_ACCOUNTS, {
+        where: [where('user_id', '==', userId)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      accounts.sort((a, b) => Number(b.is_default) - Number(a.is_default));
+      return { success: true, data: accounts };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get the account a member's payouts go to, if they have saved one
+  async getDefaultAccount(userId: string): Promise<DatabaseResult<PayoutAccount | null>> {
+    try {
+      const accounts = await this.store.query<PayoutAccount>(COLLECTIONS.PAYOUT_ACCOUNTS, {
+        where: [where('user_id', '==', userId), where('is_default', '==', true)],
+        limit: 1,
+      });
+      return { success: true, data: accounts[0] || null };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Send a member's payouts to another of their accounts
+  async setDefaultAccount(userId: string, accountId: string): Promise<DatabaseResult<PayoutAccount | null>> {
+    try {
+      const accounts = await this.store.query<PayoutAccount>(COLLECTIONS.PAYOUT_ACCOUNTS, {
+        where: [where('user_id', '==', userId)],
+      });
+      if (!accounts.some(account => account.id === accountId)) {
+        return { success: false, error: 'Payout account not found', code: 'account-not-found' };
+      }
+
+      const now = new Date();
+      await this.store.commit([
+        ...this.clearDefaults(accounts, now),
+        { type: 'update', collection: COLLECTIONS.PAYOUT_ACCOUNTS, id: accountId, data: { is_default: true, updated_at: now } },
+      ]);
+      return this.getAccountById(accountId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Remove an account; the newest remaining one becomes the default
+  async removeAccount(userId: string, accountId: string): Promise<DatabaseResult<boolean>> {
+    try {
+      const accounts = await this.store.query<PayoutAccount>(COLLECTIONS.PAYOUT_ACCOUNTS, {
+        where: [where('user_id', '==', userId)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      const account = accounts.find(item => item.id === accountId);
+      if (!account) {
+        return { success: false, error: 'Payout account not found', code: 'account-not-found' };
+      }
+
+      const writes: BatchWrite[] = [{ type: 'delete', collection: COLLECTIONS.PAYOUT_ACCOUNTS, id: accountId }];
+      const next = accounts.find(item => item.id !== accountId);
+      if (account.is_default && next) {
+        writes.push({
+          type: 'update',
+          collection: COLLECTIONS.PAYOUT_ACCOUNTS,
+          id: next.id,
+          data: { is_default: true, updated_at: new Date() },
+        });
+      }
+      await this.store.commit(writes);
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  private clearDefaults(accounts: PayoutAccount[], now: Date): BatchWrite[] {
+    return accounts
+      .filter(account => account.is_default)
+      .map(account => ({
+        type: 'update' as const,
+        collection: COLLECTIONS.PAYOUT_ACCOUNTS,
+        id: account.id,
+        data: { is_default: false, updated_at: now },
+      }));
+  }
+}
+
+export default PayoutAccountRepository;
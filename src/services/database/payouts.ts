@@ -0,0 +1,366 @@
+import {
+  DatabaseResult,
+  FilterOptions,
+  Group,
+  GroupMember,
+  NewPayout,
+  PaginatedResult,
+  Payout,
+  QueryOptions,
+} from '../../types/database';
+import { ledgerEntryWrite, payoutEntry, reserveAdvanceEntry } from './ledger';
+import { Repository } from './repository';
+import { BatchWrite, COLLECTIONS, WhereClause, where } from './store';
+import { addMoney, compareMoney, currencyOf, money, subtractMoney, toMajor } from '../../utils/money';
+
+// Sent or confirmed: the money has left the pot
+export const isPaidOut = (payout: Pick<Payout, 'status'>): boolean =>
+  payout.status === 'sent' || payout.status === 'confirmed';
+
+type PayoutUpdates = Partial<Omit<Payout, 'id' | 'created_at'>>;
+
+const coded = (message: string, code: string): Error => Object.assign(new Error(message), { code });
+
+class PayoutRepository extends Repository {
+  // Create a payout; each cycle of a group pays out exactly once
+  async createPayout(payoutData: NewPayout): Promise<DatabaseResult<Payout>> {
+    try {
+      const existing = await this.getCyclePayout(payoutData.group_id, payoutData.cycle_number);
+      if (existing.data) {
+        return { success: false, error: 'Payout already exists for this cycle', code: 'already-exists' };
+      }
+
+      const now = new Date();
+      const id = this.store.generateId(COLLECTIONS.PAYOUTS);
+      const payout = await this.store.set<Payout>(COLLECTIONS.PAYOUTS, id, {
+        status: 'scheduled',
+        payout_method: 'bank_transfer',
+        approved_by_admin: false,
+        retry_count: 0,
+        max_retries: 3,
+        net_amount: payoutData.amount,
+        ...payoutData,
+        scheduled_date: new Date(payoutData.scheduled_date),
+        created_at: now,
+        updated_at: now,
+      });
+
+      return { success: true, data: payout };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get payout by ID
+  async getPayoutById(payoutId: string): Promise<DatabaseResult<Payout | null>> {
+    try {
+      const payout = await this.store.get<Payout>(COLLECTIONS.PAYOUTS, payoutId);
+      return { success: true, data: payout };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update payout
+  async updatePayout(
+    payoutId: string,
+    updates: Partial<Omit<Payout, 'id' | 'created_at'>>,
+  ): Promise<DatabaseResult<Payout | null>> {
+    try {
+      await this.store.update(COLLECTIONS.PAYOUTS, payoutId, {
+        ...updates,
+        updated_at: new Date(),
+      });
+      return this.getPayoutById(payoutId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Record admin approval of a payout, clearing it to be sent
+  async approvePayout(
+    payoutId: string,
+    approvedBy: string,
+    notes?: string,
+    approvedActionId?: string,
+  ): Promise<DatabaseResult<Payout | null>> {
+    return this.transition(
+      payoutId,
+      ['scheduled'],
+      {
+        status: 'approved',
+        approved_by_admin: true,
+        approved_by: approvedBy,
+        approval_date: new Date(),
+        admin_notes: notes,
+      },
+      approvedActionId,
+    );
+  }
+
+  // Claim an approved payout for sending, so only one transfer is ever asked for
+  async markAsSending(payoutId: string): Promise<DatabaseResult<Payout | null>> {
+    return this.transition(payoutId, ['approved'], { status: 'sending' });
+  }
+
+  // Mark an approved payout as sent to the recipient's account. The money leaves the pot
+  // here, so this also flags the recipient as paid, updates group totals and records it
+  // in the ledger in one batch
+  async markAsSent(
+    payoutId: string,
+    transferDetails: Partial<
+      Pick<
+        Payout,
+        | 'payout_method'
+        | 'payout_account_id'
+        | 'provider'
+        | 'bank_details'
+        | 'mobile_money_details'
+        | 'transaction_reference'
+        | 'external_transaction_id'
+        | 'sent_date'
+      >
+    > = {},
+    sentBy?: string,
+  ): Promise<DatabaseResult<Payout | null>> {
+    try {
+      const payout = await this.store.get<Payout>(COLLECTIONS.PAYOUTS, payoutId);
+      if (!payout) {
+        return { success: false, error: 'Payout not found', code: 'payout-not-found' };
+      }
+
+      if (isPaidOut(payout)) {
+        return { success: false, error: 'Payout has already been sent', code: 'already-sent' };
+      }
+
+      const group = await this.store.get<Group>(COLLECTIONS.GROUPS, payout.group_id);
+      const now = new Date();
+      const sentDate = transferDetails.sent_date || now;
+      const writes: BatchWrite[] = [
+        {
+          type: 'update',
+          collection: COLLECTIONS.PAYOUTS,
+          id: payoutId,
+          data: {
+            ...transferDetails,
+            status: 'sent',
+            sent_date: sentDate,
+            updated_at: now,
+          },
+        },
+        ledgerEntryWrite(payoutEntry(payout, currencyOf(group), now, sentBy)),
+      ];
+
+      const members = await this.store.query<GroupMember>(COLLECTIONS.GROUP_MEMBERS, {
+        where: [where('group_id', '==', payout.group_id), where('user_id', '==', payout.recipient_id)],
+      });
+      for (const member of members) {
+        writes.push({
+          type: 'update',
+          collection: COLLECTIONS.GROUP_MEMBERS,
+          id: member.id,
+          data: {
+            payout_received: true,
+            payout_cycle: payout.cycle_number,
+            payout_date: sentDate,
+            updated_at: now,
+          },
+        });
+      }
+
+      if (group) {
+        writes.push({
+          type: 'update',
+          collection: COLLECTIONS.GROUPS,
+          id: group.id,
+          data: { total_payouts_made: group.total_payouts_made + payout.net_amount, updated_at: now },
+        });
+      }
+
+      await this.store.commit(writes);
+      return this.getPayoutById(payoutId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Cover part of a payout's shortfall from the group reserve before it is sent. The payout
+  // and the ledger entry moving the money into the pot are written in one transaction
+  async applyReserveAdvance(payoutId: string, amount: number, advancedBy: string): Promise<DatabaseResult<Payout | null>> {
+    try {
+      const payout = await this.store.runTransaction(async transaction => {
+        const current = await transaction.get<Payout>(COLLECTIONS.PAYOUTS, payoutId);
+        if (!current) {
+          throw coded('Payout not found', 'payout-not-found');
+        }
+        if (current.status !== 'scheduled' && current.status !== 'approved') {
+          throw coded(`Payout is ${current.status}`, 'invalid-status');
+        }
+        const group = await transaction.get<Group>(COLLECTIONS.GROUPS, current.group_id);
+        const currency = currencyOf(group);
+        const advance = money(amount, currency);
+        if (advance.minorUnits <= 0 || compareMoney(advance, money(current.shortfall_amount || 0, currency)) > 0) {
+          throw coded('The advance is more than the payout is short', 'invalid-amount');
+        }
+
+        const now = new Date();
+        const reserveAdvance = addMoney(money(current.reserve_advance || 0, currency), advance);
+        const data = {
+          amount: toMajor(addMoney(money(current.amount, currency), advance)),
+          net_amount: toMajor(addMoney(money(current.net_amount, currency), advance)),
+          shortfall_amount: toMajor(subtractMoney(money(current.shortfall_amount || 0, currency), advance)),
+          reserve_advance: toMajor(reserveAdvance),
+          updated_at: now,
+        };
+        const { id: entryId, ...entry } = reserveAdvanceEntry(
+          current,
+          `${payoutId}_${reserveAdvance.minorUnits}`,
+          amount,
+          currency,
+          advancedBy,
+          now,
+        );
+        transaction.set(COLLECTIONS.LEDGER_ENTRIES, entryId, entry);
+        transaction.update(COLLECTIONS.PAYOUTS, payoutId, data);
+        return { ...current, ...data };
+      });
+      return { success: true, data: payout };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Record the recipient confirming the money arrived
+  async markAsConfirmed(payoutId: string, confirmedDate: Date = new Date()): Promise<DatabaseResult<Payout | null>> {
+    return this.transition(payoutId, ['sent'], { status: 'confirmed', confirmed_date: confirmedDate });
+  }
+
+  // Mark a transfer as failed; it can be retried while retries remain
+  async markAsFailed(payoutId: string, failureReason: string): Promise<DatabaseResult<Payout | null>> {
+    return this.transition(payoutId, ['sending'], payout => ({
+      status: 'failed',
+      failure_reason: failureReason,
+      retry_count: payout.retry_count + 1,
+    }));
+  }
+
+  // Put a failed payout back in line to be sent
+  async markForRetry(payoutId: string): Promise<DatabaseResult<Payout | null>> {
+    return this.transition(payoutId, ['failed'], payout => {
+      if (payout.retry_count >= payout.max_retries) {
+        throw coded('Payout has used up its retries', 'retries-exhausted');
+      }
+      return { status: 'approved' };
+    });
+  }
+
+  // Get payouts received by a user, newest first
+  async getUserPayouts(
+    userId: string,
+    filters: FilterOptions = {},
+    options: QueryOptions = {},
+  ): Promise<DatabaseResult<PaginatedResult<Payout>>> {
+    try {
+      const clauses = [where('recipient_id', '==', userId), ...this.filterClauses(filters)];
+      const page = await this.paginate<Payout>(COLLECTIONS.PAYOUTS, clauses, options, {
+        limit: 50,
+        order_by: 'scheduled_date',
+        order_direction: 'desc',
+      });
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get payouts for a group in cycle order
+  async getGroupPayouts(
+    groupId: string,
+    filters: FilterOptions = {},
+    options: QueryOptions = {},
+  ): Promise<DatabaseResult<PaginatedResult<Payout>>> {
+    try {
+      const clauses = [where('group_id', '==', groupId), ...this.filterClauses(filters)];
+      const page = await this.paginate<Payout>(COLLECTIONS.PAYOUTS, clauses, options, {
+        limit: 100,
+        order_by: 'cycle_number',
+        order_direction: 'asc',
+      });
+      return { success: true, data: page };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get the payout for one cycle of a group, if it has been created
+  async getCyclePayout(groupId: string, cycleNumber: number): Promise<DatabaseResult<Payout | null>> {
+    try {
+      const payouts = await this.store.query<Payout>(COLLECTIONS.PAYOUTS, {
+        where: [where('group_id', '==', groupId), where('cycle_number', '==', cycleNumber)],
+        limit: 1,
+      });
+      return { success: true, data: payouts[0] || null };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get approved payouts that are due to be sent, oldest first
+  async getPendingPayouts(asOf: Date = new Date()): Promise<DatabaseResult<Payout[]>> {
+    try {
+      const payouts = await this.store.query<Payout>(COLLECTIONS.PAYOUTS, {
+        where: [where('status', '==', 'approved'), where('scheduled_date', '<=', asOf)],
+        orderBy: { field: 'scheduled_date', direction: 'asc' },
+      });
+      return { success: true, data: payouts };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Move a payout on only from the statuses it may leave from, reading and writing in one
+  // transaction so two admins can't both act on it
+  private async transition(
+    payoutId: string,
+    from: Payout['status'][],
+    updates: PayoutUpdates | ((current: Payout) => PayoutUpdates),
+    approvedActionId?: string,
+  ): Promise<DatabaseResult<Payout | null>> {
+    try {
+      const payout = await this.runTransaction(async transaction => {
+        const current = await transaction.get<Payout>(COLLECTIONS.PAYOUTS, payoutId);
+        if (!current) {
+          throw coded('Payout not found', 'payout-not-found');
+        }
+        if (!from.includes(current.status)) {
+          throw coded(`Payout is ${current.status}`, 'invalid-status');
+        }
+        const data = { ...(typeof updates === 'function' ? updates(current) : updates), updated_at: new Date() };
+        transaction.update(COLLECTIONS.PAYOUTS, payoutId, data);
+        return { ...current, ...data };
+      }, approvedActionId);
+      return { success: true, data: payout };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  private filterClauses(filters: FilterOptions): WhereClause[] {
+    const clauses: WhereClause[] = [];
+    if (filters.group_id) {
+      clauses.push(where('group_id', '==', filters.group_id));
+    }
+    if (filters.status) {
+      clauses.push(where('status', '==', filters.status));
+    }
+    if (filters.date_from) {
+      clauses.push(where('scheduled_date', '>=', filters.date_from));
+    }
+    if (filters.date_to) {
+      clauses.push(where('scheduled_date', '<=', filters.date_to));
+    }
+    return clauses;
+  }
+}
+
+export default PayoutRepository;
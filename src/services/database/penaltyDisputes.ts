@@ -0,0 +1,113 @@
+import { DatabaseResult, PenaltyDispute } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, WhereClause, where } from './store';
+
+type DisputeUpdates = Partial<Omit<PenaltyDispute, 'id' | 'group_id' | 'contribution_id' | 'member_id' | 'created_at'>>;
+
+const coded = (message: string, code: string): Error => Object.assign(new Error(message), { code });
+
+class PenaltyDisputeRepository extends Repository {
+  // Open a dispute
+  async createDispute(
+    disputeData: Omit<PenaltyDispute, 'id' | 'status' | 'created_at' | 'updated_at'>,
+    disputeId: string = this.generateDisputeId(),
+  ): Promise<DatabaseResult<PenaltyDispute>> {
+    try {
+      const now = new Date();
+      const created = await this.store.set<PenaltyDispute>(COLLECTIONS.PENALTY_DISPUTES, disputeId, {
+        ...disputeData,
+        status: 'open',
+        created_at: now,
+        updated_at: now,
+      });
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // ID for a dispute about to be opened, so its evidence can be stored under it first
+  generateDisputeId(): string {
+    return this.store.generateId(COLLECTIONS.PENALTY_DISPUTES);
+  }
+
+  // Get dispute by ID
+  async getDisputeById(disputeId: string): Promise<DatabaseResult<PenaltyDispute | null>> {
+    try {
+      const dispute = await this.store.get<PenaltyDispute>(COLLECTIONS.PENALTY_DISPUTES, disputeId);
+      return { success: true, data: dispute };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get the disputes raised about a contribution, newest first
+  async getContributionDisputes(contributionId: string): Promise<DatabaseResult<PenaltyDispute[]>> {
+    try {
+      const disputes = await this.store.query<PenaltyDispute>(COLLECTIONS.PENALTY_DISPUTES, {
+        where: [where('contribution_id', '==', contributionId)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: disputes };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's disputes, newest first, optionally limited to some statuses
+  async getGroupDisputes(groupId: string, statuses?: PenaltyDispute['status'][]): Promise<DatabaseResult<PenaltyDispute[]>> {
+    try {
+      const clauses: WhereClause[] = [where('group_id', '==', groupId)];
+      if (statuses && statuses.length > 0) {
+        clauses.push(where('status', 'in', statuses));
+      }
+
+      const disputes = await this.store.query<PenaltyDispute>(COLLECTIONS.PENALTY_DISPUTES, {
+        where: clauses,
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: disputes };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update dispute status, vote or resolution
+  async updateDispute(disputeId: string, updates: DisputeUpdates): Promise<DatabaseResult<PenaltyDispute | null>> {
+    try {
+      await this.store.update(COLLECTIONS.PENALTY_DISPUTES, disputeId, { ...updates, updated_at: new Date() });
+      return this.getDisputeById(disputeId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Change a dispute only while it is in one of the given statuses, reading and writing in
+  // one transaction so concurrent votes all count and only one caller resolves it. A
+  // function for `updates` sees the current dispute and can throw to refuse the change.
+  async transitionDispute(
+    disputeId: string,
+    from: PenaltyDispute['status'][],
+    updates: DisputeUpdates | ((current: PenaltyDispute) => DisputeUpdates),
+  ): Promise<DatabaseResult<PenaltyDispute>> {
+    try {
+      const dispute = await this.store.runTransaction(async transaction => {
+        const current = await transaction.get<PenaltyDispute>(COLLECTIONS.PENALTY_DISPUTES, disputeId);
+        if (!current) {
+          throw coded('Dispute not found', 'dispute-not-found');
+        }
+        if (!from.includes(current.status)) {
+          throw coded(`This dispute has already been ${current.status}`, 'invalid-status');
+        }
+        const data = { ...(typeof updates === 'function' ? updates(current) : updates), updated_at: new Date() };
+        transaction.update(COLLECTIONS.PENALTY_DISPUTES, disputeId, data);
+        return { ...current, ...data };
+      });
+      return { success: true, data: dispute };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default PenaltyDisputeRepository;
@@ -0,0 +1,118 @@
+import { ApprovalSignature, DatabaseResult, PendingAction } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, WhereClause, where } from './store';
+
+class PendingActionRepository extends Repository {
+  // Record an action waiting for approval
+  async createAction(
+    actionData: Omit<
+      PendingAction,
+      'id' | 'signatures' | 'approval_count' | 'rejection_count' | 'status' | 'created_at' | 'updated_at'
+    >,
+  ): Promise<DatabaseResult<PendingAction>> {
+    try {
+      const now = new Date();
+      const id = this.store.generateId(COLLECTIONS.PENDING_ACTIONS);
+      const created = await this.store.set<PendingAction>(COLLECTIONS.PENDING_ACTIONS, id, {
+        ...actionData,
+        signatures: {},
+        approval_count: 0,
+        rejection_count: 0,
+        status: 'pending',
+        created_at: now,
+        updated_at: now,
+      });
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get action by ID
+  async getActionById(actionId: string): Promise<DatabaseResult<PendingAction | null>> {
+    try {
+      const action = await this.store.get<PendingAction>(COLLECTIONS.PENDING_ACTIONS, actionId);
+      return { success: true, data: action };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's actions, newest first, optionally limited to some statuses
+  async getGroupActions(
+    groupId: string,
+    statuses?: PendingAction['status'][],
+  ): Promise<DatabaseResult<PendingAction[]>> {
+    try {
+      const clauses: WhereClause[] = [where('group_id', '==', groupId)];
+      if (statuses && statuses.length > 0) {
+        clauses.push(where('status', 'in', statuses));
+      }
+
+      const actions = await this.store.query<PendingAction>(COLLECTIONS.PENDING_ACTIONS, {
+        where: clauses,
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: actions };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Add a signature to a pending action. Signing twice is refused, so a second
+  // tap can't count twice, and approvers signing at once all get counted.
+  async addSignature(actionId: string, signature: ApprovalSignature): Promise<DatabaseResult<PendingAction>> {
+    try {
+      const signed = await this.store.runTransaction(async transaction => {
+        const action = await transaction.get<PendingAction>(COLLECTIONS.PENDING_ACTIONS, actionId);
+        if (!action) {
+          throw Object.assign(new Error('Pending action not found'), { code: 'action-not-found' });
+        }
+        if (action.status !== 'pending') {
+          throw Object.assign(new Error(`This request is already ${action.status}`), { code: 'action-closed' });
+        }
+        if (action.signatures[signature.user_id]) {
+          throw Object.assign(new Error('You have already responded to this request'), { code: 'already-signed' });
+        }
+
+        const updates = {
+          signatures: { ...action.signatures, [signature.user_id]: signature },
+          approval_count: action.approval_count + (signature.decision === 'approved' ? 1 : 0),
+          rejection_count: action.rejection_count + (signature.decision === 'rejected' ? 1 : 0),
+          updated_at: new Date(),
+        };
+        transaction.update(COLLECTIONS.PENDING_ACTIONS, actionId, updates);
+        return { ...action, ...updates };
+      });
+      return { success: true, data: signed };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Move an action on from the status it is expected to be in. Returns null when
+  // it has already left that status, so only one caller makes each transition.
+  async transitionAction(
+    actionId: string,
+    from: PendingAction['status'],
+    updates: Partial<Pick<PendingAction, 'status' | 'resolved_at' | 'failure_reason'>>,
+  ): Promise<DatabaseResult<PendingAction | null>> {
+    try {
+      const moved = await this.store.runTransaction(async transaction => {
+        const action = await transaction.get<PendingAction>(COLLECTIONS.PENDING_ACTIONS, actionId);
+        if (!action || action.status !== from) {
+          return null;
+        }
+
+        const changes = { ...updates, updated_at: new Date() };
+        transaction.update(COLLECTIONS.PENDING_ACTIONS, actionId, changes);
+        return { ...action, ...changes };
+      });
+      return { success: true, data: moved };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default PendingActionRepository;
@@ -0,0 +1,87 @@
+import { DatabaseResult, PaymentReceipt, ReceiptFingerprint } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, where } from './store';
+
+class ReceiptRepository extends Repository {
+  // Generate a receipt ID before the file is uploaded, so the file can be named after it
+  generateReceiptId(): string {
+    return this.store.generateId(COLLECTIONS.RECEIPTS);
+  }
+
+  // Save a receipt and claim its fingerprints in one transaction. Fails with
+  // code 'duplicate-receipt' if any fingerprint is already claimed, so the same
+  // receipt uploaded twice at once still only gets attached once.
+  async createReceipt(receipt: PaymentReceipt, fingerprints: string[]): Promise<DatabaseResult<PaymentReceipt>> {
+    try {
+      const { id, ...receiptData } = receipt;
+      await this.store.runTransaction(async transaction => {
+        for (const fingerprint of fingerprints) {
+          const claimed = await transaction.get<ReceiptFingerprint>(COLLECTIONS.RECEIPT_FINGERPRINTS, fingerprint);
+          if (claimed) {
+            throw Object.assign(new Error('This receipt has already been used'), { code: 'duplicate-receipt' });
+          }
+        }
+        transaction.set(COLLECTIONS.RECEIPTS, id, receiptData);
+        for (const fingerprint of fingerprints) {
+          transaction.set(COLLECTIONS.RECEIPT_FINGERPRINTS, fingerprint, {
+            receipt_id: id,
+            contribution_id: receipt.contribution_id,
+            group_id: receipt.group_id,
+            created_at: receipt.created_at,
+          });
+        }
+      });
+      return { success: true, data: receipt };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get receipt by ID
+  async getReceiptById(receiptId: string): Promise<DatabaseResult<PaymentReceipt | null>> {
+    try {
+      const receipt = await this.store.get<PaymentReceipt>(COLLECTIONS.RECEIPTS, receiptId);
+      return { success: true, data: receipt };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get the contribution a fingerprint is claimed by, if any
+  async getFingerprint(fingerprint: string): Promise<DatabaseResult<ReceiptFingerprint | null>> {
+    try {
+      const claim = await this.store.get<ReceiptFingerprint>(COLLECTIONS.RECEIPT_FINGERPRINTS, fingerprint);
+      return { success: true, data: claim };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a contribution's receipts, oldest first
+  async getContributionReceipts(contributionId: string): Promise<DatabaseResult<PaymentReceipt[]>> {
+    try {
+      const receipts = await this.store.query<PaymentReceipt>(COLLECTIONS.RECEIPTS, {
+        where: [where('contribution_id', '==', contributionId)],
+        orderBy: { field: 'created_at', direction: 'asc' },
+      });
+      return { success: true, data: receipts };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Record an admin's review of a receipt
+  async updateReceipt(
+    receiptId: string,
+    updates: Partial<Pick<PaymentReceipt, 'status' | 'reviewed_by' | 'reviewed_at' | 'review_notes'>>,
+  ): Promise<DatabaseResult<void>> {
+    try {
+      await this.store.update(COLLECTIONS.RECEIPTS, receiptId, updates);
+      return { success: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default ReceiptRepository;
@@ -0,0 +1,111 @@
+import { DatabaseResult, PaginatedResult, PendingAction, QueryOptions } from '../../types/database';
+import { BatchWrite, COLLECTIONS, DocumentStore, StoreQuery, StoreTransaction, WhereClause } from './store';
+
+export type StoreProvider = () => DocumentStore;
+
+/**
+ * Base class for all collection repositories.
+ * The store is resolved lazily so DatabaseService can swap backends
+ * (Firestore in the app, in-memory in tests) without recreating repositories.
+ */
+export abstract class Repository {
+  constructor(private readonly storeProvider: StoreProvider) {}
+
+  protected get store(): DocumentStore {
+    return this.storeProvider();
+  }
+
+  // Run a paginated query, fetching one extra document to work out has_more
+  protected async paginate<T>(
+    collection: string,
+    where: WhereClause[],
+    options: QueryOptions,
+    defaults: { limit: number; order_by: string; order_direction: 'asc' | 'desc' },
+  ): Promise<PaginatedResult<T>> {
+    const {
+      limit = defaults.limit,
+      offset = 0,
+      order_by = defaults.order_by,
+      order_direction = defaults.order_direction,
+    } = options;
+
+    const query: StoreQuery = {
+      where,
+      orderBy: { field: order_by, direction: order_direction },
+      limit: limit + 1,
+      offset,
+    };
+
+    const docs = await this.store.query<T>(collection, query);
+
+    return {
+      items: docs.slice(0, limit),
+      has_more: docs.length > limit,
+    };
+  }
+
+  // Run a transaction. When its writes carry out an approved action (see ApprovalService), the
+  // action must still be approved: the writes are stamped with its ID and it is marked executed
+  // in the same transaction, which firestore.rules checks, so each approval is used once.
+  // A transaction that writes nothing leaves the action approved.
+  protected async runTransaction<R>(
+    callback: (transaction: StoreTransaction) => Promise<R>,
+    approvedActionId?: string,
+  ): Promise<R> {
+    if (!approvedActionId) {
+      return this.store.runTransaction(callback);
+    }
+
+    return this.store.runTransaction(async transaction => {
+      const action = await transaction.get<PendingAction>(COLLECTIONS.PENDING_ACTIONS, approvedActionId);
+      if (action?.status !== 'approved') {
+        throw Object.assign(new Error('This action has not been approved'), { code: 'action-not-approved' });
+      }
+
+      let wrote = false;
+      const stamp = (data: Record<string, any>) => {
+        wrote = true;
+        return { ...data, approved_action_id: approvedActionId };
+      };
+      const result = await callback({
+        get: (collection, id) => transaction.get(collection, id),
+        set: (collection, id, data) => transaction.set(collection, id, stamp(data)),
+        update: (collection, id, data) => transaction.update(collection, id, stamp(data)),
+      });
+
+      if (wrote) {
+        const now = new Date();
+        transaction.update(COLLECTIONS.PENDING_ACTIONS, approvedActionId, {
+          status: 'executed',
+          resolved_at: now,
+          updated_at: now,
+        });
+      }
+      return result;
+    });
+  }
+
+  // Commit writes together, as part of an approved action when one is given (see runTransaction)
+  protected async commitWrites(writes: BatchWrite[], approvedActionId?: string): Promise<void> {
+    if (!approvedActionId) {
+      return this.store.commit(writes);
+    }
+
+    await this.runTransaction(async transaction => {
+      for (const write of writes) {
+        if (write.type === 'delete') {
+          throw new Error('Approved actions cannot delete documents');
+        }
+        transaction[write.type](write.collection, write.id, write.data);
+      }
+    }, approvedActionId);
+  }
+
+  protected failure<T>(error: any): DatabaseResult<T> {
+    return {
+      success: false,
+      error: error?.message || 'Database operation failed',
+      code: error?.code,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { DatabaseResult, Settlement } from '../../types/database';
+import { settlementCredits } from './ledger';
+import { Repository } from './repository';
+import { COLLECTIONS, StoreTransaction, where } from './store';
+import { creditWalletsInTransaction } from './wallets';
+
+// A group is settled once for each reason in a cycle, so its settlement ID comes from those
+export const settlementId = (groupId: string, reason: Settlement['reason'], cycleNumber: number): string =>
+  `${groupId}_${reason}_${cycleNumber}`;
+
+// Save a settlement statement inside a transaction and pay each member's share from the
+// pot into their wallet. Fails with already-settled when the group has been settled for
+// the same reason this cycle. It reads before writing, so call it before other writes.
+export const settleInTransaction = async (
+  transaction: StoreTransaction,
+  settlement: Omit<Settlement, 'id' | 'ledger_entry_ids' | 'created_at'>,
+): Promise<Settlement> => {
+  const id = settlementId(settlement.group_id, settlement.reason, settlement.cycle_number);
+  if (await transaction.get<Settlement>(COLLECTIONS.SETTLEMENTS, id)) {
+    throw Object.assign(new Error('This group has already been settled'), { code: 'already-settled' });
+  }
+
+  const created: Settlement = { ...settlement, id, ledger_entry_ids: [], created_at: new Date() };
+  const credits = settlementCredits(created);
+  created.ledger_entry_ids = credits.map(({ entry }) => entry.id);
+  await creditWalletsInTransaction(transaction, created.group_id, credits);
+  transaction.set(COLLECTIONS.SETTLEMENTS, id, created);
+  return created;
+};
+
+class SettlementRepository extends Repository {
+  // Save a settlement statement along with the wallet credits paying it out.
+  // Statements are never updated.
+  async createSettlement(
+    settlement: Omit<Settlement, 'id' | 'ledger_entry_ids' | 'created_at'>,
+  ): Promise<DatabaseResult<Settlement>> {
+    try {
+      const created = await this.runTransaction(transaction => settleInTransaction(transaction, settlement));
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's settlements, newest first
+  async getGroupSettlements(groupId: string): Promise<DatabaseResult<Settlement[]>> {
+    try {
+      const settlements = await this.store.query<Settlement>(COLLECTIONS.SETTLEMENTS, {
+        where: [where('group_id', '==', groupId)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: settlements };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default SettlementRepository;
@@ -0,0 +1,105 @@
+/**
+ * Storage abstraction used by the repository layer.
+ *
+ * Repositories only talk to a DocumentStore, so the same business code can run
+ * against Firestore in the app and against the in-memory store in Jest.
+ */
+
+export type WhereOperator =
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'in'
+  | 'array-contains';
+
+export interface WhereClause {
+  field: string;
+  op: WhereOperator;
+  value: any;
+}
+
+export interface StoreQuery {
+  where?: WhereClause[];
+  orderBy?: {
+    field: string;
+    direction?: 'asc' | 'desc';
+  };
+  limit?: number;
+  offset?: number;
+}
+
+export type BatchWrite =
+  | { type: 'set'; collection: string; id: string; data: Record<string, any> }
+  | { type: 'update'; collection: string; id: string; data: Record<string, any> }
+  | { type: 'delete'; collection: string; id: string };
+
+/** Reads and writes inside runTransaction. Writes are applied when the callback resolves. */
+export interface StoreTransaction {
+  get<T>(collection: string, id: string): Promise<T | null>;
+  set(collection: string, id: string, data: Record<string, any>): void;
+  update(collection: string, id: string, data: Record<string, any>): void;
+}
+
+export interface DocumentStore {
+  /** Generate a new document ID for a collection without writing anything */
+  generateId(collection: string): string;
+
+  get<T>(collection: string, id: string): Promise<T | null>;
+
+  /** Create or overwrite a document. The stored document always carries its `id`. */
+  set<T extends { id: string }>(collection: string, id: string, data: Omit<T, 'id'>): Promise<T>;
+
+  /** Merge fields into an existing document. Rejects when the document does not exist. */
+  update(collection: string, id: string, data: Record<string, any>): Promise<void>;
+
+  delete(collection: string, id: string): Promise<void>;
+
+  query<T>(collection: string, query?: StoreQuery): Promise<T[]>;
+
+  /** Apply all writes atomically - either every write lands or none do */
+  commit(writes: BatchWrite[]): Promise<void>;
+
+  /**
+   * Read-then-write atomically. If a document read inside the callback changes
+   * before the writes land, the callback is retried (or the transactions are
+   * serialized), so two workers can never both act on the same snapshot.
+   */
+  runTransaction<R>(callback: (transaction: StoreTransaction) => Promise<R>): Promise<R>;
+}
+
+export const where = (field: string, op: WhereOperator, value: any): WhereClause => ({
+  field,
+  op,
+  value,
+});
+
+// Collection names
+export const COLLECTIONS = {
+  USERS: 'users',
+  GROUPS: 'groups',
+  GROUP_MEMBERS: 'group_members',
+  CONTRIBUTIONS: 'contributions',
+  PAYOUTS: 'payouts',
+  GROUP_INVITES: 'group_invites',
+  SCHEDULED_NOTIFICATIONS: 'scheduled_notifications',
+  TURN_ORDER_AUDITS: 'turn_order_audits',
+  TURN_SWAPS: 'turn_swaps',
+  JOBS: 'jobs',
+  LEDGER_ENTRIES: 'ledger_entries',
+  SETTLEMENTS: 'settlements',
+  PAYMENT_TRANSACTIONS: 'payment_transactions',
+  STATEMENT_IMPORTS: 'statement_imports',
+  STATEMENT_CREDITS: 'statement_credits',
+  PENDING_ACTIONS: 'pending_actions',
+  AUDIT_LOG: 'audit_log',
+  AUDIT_HEADS: 'audit_heads',
+  RECEIPTS: 'receipts',
+  RECEIPT_FINGERPRINTS: 'receipt_fingerprints',
+  WALLETS: 'wallets',
+  WALLET_WITHDRAWALS: 'wallet_withdrawals',
+  PAYOUT_ACCOUNTS: 'payout_accounts',
+  PENALTY_DISPUTES: 'penalty_disputes',
+} as const;
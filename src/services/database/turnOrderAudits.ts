@@ -0,0 +1,45 @@
+import { DatabaseResult, TurnOrderAudit } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, where } from './store';
+
+class TurnOrderAuditRepository extends Repository {
+  // Record how a group's turn order was produced; audits are never updated
+  async createAudit(audit: Omit<TurnOrderAudit, 'id' | 'created_at'>): Promise<DatabaseResult<TurnOrderAudit>> {
+    try {
+      const id = this.store.generateId(COLLECTIONS.TURN_ORDER_AUDITS);
+      const created = await this.store.set<TurnOrderAudit>(COLLECTIONS.TURN_ORDER_AUDITS, id, {
+        ...audit,
+        created_at: new Date(),
+      });
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get audit by ID
+  async getAuditById(auditId: string): Promise<DatabaseResult<TurnOrderAudit | null>> {
+    try {
+      const audit = await this.store.get<TurnOrderAudit>(COLLECTIONS.TURN_ORDER_AUDITS, auditId);
+      return { success: true, data: audit };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's turn order history, newest first
+  async getGroupAudits(groupId: string, limit = 20): Promise<DatabaseResult<TurnOrderAudit[]>> {
+    try {
+      const audits = await this.store.query<TurnOrderAudit>(COLLECTIONS.TURN_ORDER_AUDITS, {
+        where: [where('group_id', '==', groupId)],
+        orderBy: { field: 'created_at', direction: 'desc' },
+        limit,
+      });
+      return { success: true, data: audits };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default TurnOrderAuditRepository;
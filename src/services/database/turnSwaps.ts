@@ -0,0 +1,131 @@
+import { DatabaseResult, Group, TurnOrderAudit, TurnSwap, TurnTrade } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, WhereClause, where } from './store';
+
+const coded = (message: string, code: string): Error => Object.assign(new Error(message), { code });
+
+// Accepted swaps wait for the admin; when the group doesn't ask for approval,
+// the counterparty completes the swap straight from the proposal
+const canComplete = (swap: TurnSwap): boolean =>
+  swap.status === 'accepted' || (swap.status === 'proposed' && !swap.requires_admin_approval);
+
+class TurnSwapRepository extends Repository {
+  // Create a new swap proposal
+  async createSwap(
+    swapData: Omit<TurnSwap, 'id' | 'status' | 'created_at' | 'updated_at'>,
+  ): Promise<DatabaseResult<TurnSwap>> {
+    try {
+      const now = new Date();
+      const id = this.store.generateId(COLLECTIONS.TURN_SWAPS);
+      const created = await this.store.set<TurnSwap>(COLLECTIONS.TURN_SWAPS, id, {
+        ...swapData,
+        status: 'proposed',
+        created_at: now,
+        updated_at: now,
+      });
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get swap by ID
+  async getSwapById(swapId: string): Promise<DatabaseResult<TurnSwap | null>> {
+    try {
+      const swap = await this.store.get<TurnSwap>(COLLECTIONS.TURN_SWAPS, swapId);
+      return { success: true, data: swap };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's swaps, newest first, optionally limited to some statuses
+  async getGroupSwaps(groupId: string, statuses?: TurnSwap['status'][]): Promise<DatabaseResult<TurnSwap[]>> {
+    try {
+      const clauses: WhereClause[] = [where('group_id', '==', groupId)];
+      if (statuses && statuses.length > 0) {
+        clauses.push(where('status', 'in', statuses));
+      }
+
+      const swaps = await this.store.query<TurnSwap>(COLLECTIONS.TURN_SWAPS, {
+        where: clauses,
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: swaps };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get proposals waiting for a user's answer
+  async getIncomingSwaps(userId: string): Promise<DatabaseResult<TurnSwap[]>> {
+    try {
+      const swaps = await this.store.query<TurnSwap>(COLLECTIONS.TURN_SWAPS, {
+        where: [where('counterparty_id', '==', userId), where('status', '==', 'proposed')],
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: swaps };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update swap status and timestamps
+  async updateSwap(
+    swapId: string,
+    updates: Partial<Omit<TurnSwap, 'id' | 'group_id' | 'created_at'>>,
+  ): Promise<DatabaseResult<TurnSwap | null>> {
+    try {
+      await this.store.update(COLLECTIONS.TURN_SWAPS, swapId, { ...updates, updated_at: new Date() });
+      return this.getSwapById(swapId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Apply an agreed swap: mark it completed, append its trade to the group and record the new
+  // order, in one transaction. The swap must still be open, so it is applied once, and the trade
+  // joins the group's trades as they are now, so concurrent swaps don't overwrite each other.
+  async completeSwap(
+    swapId: string,
+    resolvedBy: string,
+    trade: TurnTrade,
+    buildAudit: (turnTrades: TurnTrade[]) => Omit<TurnOrderAudit, 'id' | 'created_at'>,
+  ): Promise<DatabaseResult<TurnSwap>> {
+    try {
+      const auditId = this.store.generateId(COLLECTIONS.TURN_ORDER_AUDITS);
+      const completed = await this.runTransaction(async transaction => {
+        const swap = await transaction.get<TurnSwap>(COLLECTIONS.TURN_SWAPS, swapId);
+        if (!swap) {
+          throw coded('Swap request not found', 'swap-not-found');
+        }
+        if (!canComplete(swap)) {
+          throw coded(`Swap request is already ${swap.status}`, 'swap-closed');
+        }
+        const group = await transaction.get<Group>(COLLECTIONS.GROUPS, swap.group_id);
+        if (!group) {
+          throw coded('Group not found', 'group-not-found');
+        }
+
+        const now = new Date();
+        const turnTrades = [...(group.turn_trades || []), trade];
+        transaction.update(COLLECTIONS.TURN_SWAPS, swapId, {
+          status: 'completed',
+          resolved_at: now,
+          resolved_by: resolvedBy,
+          updated_at: now,
+        });
+        transaction.update(COLLECTIONS.GROUPS, group.id, { turn_trades: turnTrades, updated_at: now });
+        transaction.set(COLLECTIONS.TURN_ORDER_AUDITS, auditId, { ...buildAudit(turnTrades), created_at: now });
+
+        return { ...swap, status: 'completed' as const, resolved_at: now, resolved_by: resolvedBy, updated_at: now };
+      });
+
+      return { success: true, data: completed };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default TurnSwapRepository;
@@ -0,0 +1,136 @@
+import { DatabaseResult, NewUser, User } from '../../types/database';
+import { Repository } from './repository';
+import { COLLECTIONS, where } from './store';
+
+class UserRepository extends Repository {
+  // Create a new user profile
+  async createUser(userData: NewUser & { id?: string }): Promise<DatabaseResult<User>> {
+    try {
+      const now = new Date();
+      const id = userData.id || this.store.generateId(COLLECTIONS.USERS);
+
+      const user = await this.store.set<User>(COLLECTIONS.USERS, id, {
+        phone: userData.phone,
+        name: userData.name,
+        email: userData.email?.trim().toLowerCase(),
+        bvn_verified: userData.bvn_verified ?? false,
+        phone_verified: userData.phone_verified ?? false,
+        email_verified: userData.email_verified ?? false,
+        identity_verified: userData.identity_verified ?? false,
+        notification_preferences: userData.notification_preferences,
+        total_groups: 0,
+        total_contributions: 0,
+        total_payouts_received: 0,
+        reliability_score: 100,
+        created_at: now,
+        updated_at: now,
+      });
+
+      return { success: true, data: user };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get user by ID
+  async getUserById(userId: string): Promise<DatabaseResult<User | null>> {
+    try {
+      const user = await this.store.get<User>(COLLECTIONS.USERS, userId);
+      return { success: true, data: user };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get user by phone number
+  async getUserByPhone(phone: string): Promise<DatabaseResult<User | null>> {
+    try {
+      const users = await this.store.query<User>(COLLECTIONS.USERS, {
+        where: [where('phone', '==', phone)],
+        limit: 1,
+      });
+      return { success: true, data: users[0] || null };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get user by email address
+  async getUserByEmail(email: string): Promise<DatabaseResult<User | null>> {
+    try {
+      const users = await this.store.query<User>(COLLECTIONS.USERS, {
+        where: [where('email', '==', email.trim().toLowerCase())],
+        limit: 1,
+      });
+      return { success: true, data: users[0] || null };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get the user an email unsubscribe link was sent to
+  async getUserByUnsubscribeToken(token: string): Promise<DatabaseResult<User | null>> {
+    try {
+      const users = await this.store.query<User>(COLLECTIONS.USERS, {
+        where: [where('email_unsubscribe_token', '==', token)],
+        limit: 1,
+      });
+      return { success: true, data: users[0] || null };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Update user profile
+  async updateUser(
+    userId: string,
+    updates: Partial<Omit<User, 'id' | 'created_at'>>,
+  ): Promise<DatabaseResult<User | null>> {
+    try {
+      await this.store.update(COLLECTIONS.USERS, userId, {
+        ...updates,
+        updated_at: new Date(),
+      });
+      return this.getUserById(userId);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Merge notification preferences into the user's profile
+  async updateUserPreferences(
+    userId: string,
+    preferences: Record<string, any>,
+  ): Promise<DatabaseResult<User | null>> {
+    try {
+      const user = await this.store.get<User & Record<string, any>>(COLLECTIONS.USERS, userId);
+      if (!user) {
+        return { success: false, error: 'User not found', code: 'user-not-found' };
+      }
+
+      const merged: Record<string, any> = {};
+      for (const [key, value] of Object.entries(preferences)) {
+        merged[key] =
+          value && typeof value === 'object' && !Array.isArray(value)
+            ? { ...(user[key] || {}), ...value }
+            : value;
+      }
+
+      return this.updateUser(userId, merged);
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Delete user profile
+  async deleteUser(userId: string): Promise<DatabaseResult<boolean>> {
+    try {
+      await this.store.delete(COLLECTIONS.USERS, userId);
+      return { success: true, data: true };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+}
+
+export default UserRepository;
@@ -0,0 +1,390 @@
+import {
+  Contribution,
+  ContributionPayment,
+  DatabaseResult,
+  Group,
+  LedgerEntry,
+  MemberWallet,
+  WalletWithdrawal,
+} from '../../types/database';
+import {
+  LEDGER_ACCOUNTS,
+  contributionEntry,
+  contributionPaymentEntry,
+  contributionSettlementAmount,
+  credit,
+  debit,
+  isBalanced,
+  recordedPartPayments,
+  walletAccount,
+  walletPaymentEntry,
+} from './ledger';
+import {
+  Money,
+  addMoney,
+  compareMoney,
+  currencyOf,
+  minMoney,
+  money,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toMajor,
+} from '../../utils/money';
+import { Repository } from './repository';
+import { COLLECTIONS, StoreTransaction, WhereClause, where } from './store';
+
+export const walletId = (groupId: string, userId: string): string => `${groupId}_${userId}`;
+
+// Wallet money put toward one contribution
+export interface AppliedWalletPayment {
+  contribution: Contribution;
+  amount: number;
+  settled: boolean; // the wallet covered everything that was left
+}
+
+// A ledger entry crediting a member's wallet
+export interface WalletCredit {
+  userId: string;
+  entry: LedgerEntry;
+}
+
+const coded = (message: string, code: string): Error => Object.assign(new Error(message), { code });
+
+// Write a wallet's new balance, creating the wallet on its first credit
+const writeBalance = (
+  transaction: StoreTransaction,
+  groupId: string,
+  userId: string,
+  current: MemberWallet | null,
+  change: Money,
+  now: Date,
+): MemberWallet => {
+  const id = walletId(groupId, userId);
+  const balance = toMajor(addMoney(money(current?.balance || 0, change.currency), change));
+  if (current) {
+    transaction.update(COLLECTIONS.WALLETS, id, { balance, updated_at: now });
+    return { ...current, balance, updated_at: now };
+  }
+  const wallet = { group_id: groupId, user_id: userId, balance, created_at: now, updated_at: now };
+  transaction.set(COLLECTIONS.WALLETS, id, wallet);
+  return { id, ...wallet };
+};
+
+// Add money to several members' wallets inside a transaction, each along with the ledger
+// entry saying where it came from (see creditWallet). Every wallet is read before any is
+// written, so call it before other writes.
+export const creditWalletsInTransaction = async (
+  transaction: StoreTransaction,
+  groupId: string,
+  credits: WalletCredit[],
+): Promise<MemberWallet[]> => {
+  const amounts = credits.map(({ userId, entry }) => {
+    const currency = currencyOf(entry);
+    const amount = sumMoney(
+      entry.lines
+        .filter(line => line.account === walletAccount(userId))
+        .map(line => subtractMoney(money(line.credit, currency), money(line.debit, currency))),
+      currency,
+    );
+    if (!isBalanced(entry.lines, currency) || amount.minorUnits <= 0) {
+      throw coded(`Ledger entry ${entry.id} does not credit the wallet`, 'unbalanced-entry');
+    }
+    return amount;
+  });
+
+  const existing: { entry: LedgerEntry | null; wallet: MemberWallet | null }[] = [];
+  for (const { userId, entry } of credits) {
+    existing.push({
+      entry: await transaction.get<LedgerEntry>(COLLECTIONS.LEDGER_ENTRIES, entry.id),
+      wallet: await transaction.get<MemberWallet>(COLLECTIONS.WALLETS, walletId(groupId, userId)),
+    });
+  }
+
+  return credits.map(({ userId, entry }, index) => {
+    const current = existing[index].wallet;
+    if (existing[index].entry && current) {
+      return current;
+    }
+
+    const { id: entryId, ...entryData } = entry;
+    transaction.set(COLLECTIONS.LEDGER_ENTRIES, entryId, entryData);
+    return writeBalance(transaction, groupId, userId, current, amounts[index], entry.created_at);
+  });
+};
+
+// Add money to one member's wallet inside a transaction (see creditWalletsInTransaction)
+export const creditWalletInTransaction = async (
+  transaction: StoreTransaction,
+  groupId: string,
+  userId: string,
+  entry: LedgerEntry,
+): Promise<MemberWallet> => {
+  const [wallet] = await creditWalletsInTransaction(transaction, groupId, [{ userId, entry }]);
+  return wallet;
+};
+
+class WalletRepository extends Repository {
+  // Get a member's wallet with a group; null until money is first put in
+  async getWallet(groupId: string, userId: string): Promise<DatabaseResult<MemberWallet | null>> {
+    try {
+      const wallet = await this.store.get<MemberWallet>(COLLECTIONS.WALLETS, walletId(groupId, userId));
+      return { success: true, data: wallet };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get every wallet held with a group
+  async getGroupWallets(groupId: string): Promise<DatabaseResult<MemberWallet[]>> {
+    try {
+      const wallets = await this.store.query<MemberWallet>(COLLECTIONS.WALLETS, {
+        where: [where('group_id', '==', groupId)],
+      });
+      return { success: true, data: wallets };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Add money to a wallet along with the ledger entry saying where it came from.
+  // The entry must credit the member's wallet account with the amount. Crediting
+  // the same entry twice leaves the wallet as it is.
+  async creditWallet(groupId: string, userId: string, entry: LedgerEntry): Promise<DatabaseResult<MemberWallet>> {
+    try {
+      const wallet = await this.store.runTransaction(transaction =>
+        creditWalletInTransaction(transaction, groupId, userId, entry),
+      );
+      return { success: true, data: wallet };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Pay as much of an unpaid contribution as the member's wallet covers. The wallet,
+  // the contribution, the group's collected total and the ledger change together.
+  // Returns null when the wallet is empty or the contribution has nothing left to pay.
+  async applyToContribution(contributionId: string, now: Date): Promise<DatabaseResult<AppliedWalletPayment | null>> {
+    try {
+      const paymentId = this.store.generateId(COLLECTIONS.LEDGER_ENTRIES);
+      const applied = await this.store.runTransaction(async transaction => {
+        const contribution = await transaction.get<Contribution>(COLLECTIONS.CONTRIBUTIONS, contributionId);
+        if (!contribution) {
+          throw coded('Contribution not found', 'contribution-not-found');
+        }
+        if (contribution.status === 'paid' || contribution.status === 'cancelled') {
+          return null;
+        }
+        const group = await transaction.get<Group>(COLLECTIONS.GROUPS, contribution.group_id);
+        const currency = currencyOf(group);
+        const wallet = await transaction.get<MemberWallet>(
+          COLLECTIONS.WALLETS,
+          walletId(contribution.group_id, contribution.user_id),
+        );
+        const available = money(wallet?.balance || 0, currency);
+
+        // Late fees are paid with the last piece, so a wallet that covers the
+        // contribution but not its fee is left for the admin to settle
+        const owed = money(
+          contributionSettlementAmount({ ...contribution, paid_amount: contribution.amount }, currency),
+          currency,
+        );
+        const remaining = subtractMoney(
+          money(contribution.amount, currency),
+          money(recordedPartPayments(contribution, currency), currency),
+        );
+        const settled = compareMoney(available, owed) >= 0;
+        const used = settled ? owed : minMoney(available, remaining);
+        if (!wallet || used.minorUnits <= 0 || (!settled && compareMoney(used, remaining) >= 0)) {
+          return null;
+        }
+        const amount = toMajor(used);
+
+        let updated: Contribution;
+        if (settled) {
+          const updates = {
+            status: 'paid' as const,
+            paid_date: now,
+            paid_amount: contribution.amount,
+            payment_method: 'wallet' as const,
+            is_late: now.getTime() > new Date(contribution.due_date).getTime(),
+            updated_at: now,
+          };
+          updated = { ...contribution, ...updates };
+          transaction.update(COLLECTIONS.CONTRIBUTIONS, contributionId, updates);
+          if (owed.minorUnits > 0) {
+            const { id: entryId, ...entry } = contributionEntry(updated, currency, now);
+            transaction.set(COLLECTIONS.LEDGER_ENTRIES, entryId, entry);
+          }
+        } else {
+          const payment: ContributionPayment = {
+            id: paymentId,
+            amount,
+            paid_at: now,
+            method: 'wallet',
+            recorded_by: contribution.user_id,
+            created_at: now,
+          };
+          const payments = [...(contribution.payments || []), payment];
+          const updates = {
+            payments,
+            paid_amount: recordedPartPayments({ payments }, currency),
+            status: 'partially_paid' as const,
+            updated_at: now,
+          };
+          updated = { ...contribution, ...updates };
+          transaction.update(COLLECTIONS.CONTRIBUTIONS, contributionId, updates);
+          const { id: entryId, ...entry } = contributionPaymentEntry(contribution, payment, currency);
+          transaction.set(COLLECTIONS.LEDGER_ENTRIES, entryId, entry);
+        }
+
+        const { id: walletEntryId, ...walletEntry } = walletPaymentEntry(contribution, paymentId, amount, currency, now);
+        transaction.set(COLLECTIONS.LEDGER_ENTRIES, walletEntryId, walletEntry);
+        writeBalance(transaction, contribution.group_id, contribution.user_id, wallet, multiplyMoney(used, -1), now);
+
+        if (group) {
+          // A late fee paid from the wallet isn't a contribution
+          const collected = minMoney(used, remaining);
+          transaction.update(COLLECTIONS.GROUPS, group.id, {
+            total_contributions_collected: toMajor(addMoney(money(group.total_contributions_collected, currency), collected)),
+            updated_at: now,
+          });
+        }
+        return { contribution: updated, amount, settled };
+      });
+      return { success: true, data: applied };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Create a withdrawal request
+  async createWithdrawal(withdrawal: Omit<WalletWithdrawal, 'id'>): Promise<DatabaseResult<WalletWithdrawal>> {
+    try {
+      const id = this.store.generateId(COLLECTIONS.WALLET_WITHDRAWALS);
+      const created = await this.store.set<WalletWithdrawal>(COLLECTIONS.WALLET_WITHDRAWALS, id, withdrawal);
+      return { success: true, data: created };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get withdrawal by ID
+  async getWithdrawalById(withdrawalId: string): Promise<DatabaseResult<WalletWithdrawal | null>> {
+    try {
+      const withdrawal = await this.store.get<WalletWithdrawal>(COLLECTIONS.WALLET_WITHDRAWALS, withdrawalId);
+      return { success: true, data: withdrawal };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Get a group's withdrawal requests, newest first, optionally filtered by status
+  async getGroupWithdrawals(
+    groupId: string,
+    statuses?: WalletWithdrawal['status'][],
+    userId?: string,
+  ): Promise<DatabaseResult<WalletWithdrawal[]>> {
+    try {
+      const clauses: WhereClause[] = [where('group_id', '==', groupId)];
+      if (statuses && statuses.length > 0) {
+        clauses.push(where('status', 'in', statuses));
+      }
+      if (userId) {
+        clauses.push(where('user_id', '==', userId));
+      }
+
+      const withdrawals = await this.store.query<WalletWithdrawal>(COLLECTIONS.WALLET_WITHDRAWALS, {
+        where: clauses,
+        orderBy: { field: 'created_at', direction: 'desc' },
+      });
+      return { success: true, data: withdrawals };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Approve a withdrawal: the amount leaves the wallet and the ledger records it being
+  // paid out. Fails with code 'insufficient-balance' if the wallet no longer holds it.
+  async approveWithdrawal(
+    withdrawalId: string,
+    decision: { decided_by: string; decided_at: Date; decision_notes?: string; cycle_number: number },
+  ): Promise<DatabaseResult<WalletWithdrawal>> {
+    try {
+      const approved = await this.store.runTransaction(async transaction => {
+        const withdrawal = await this.getOpenWithdrawal(transaction, withdrawalId);
+        const currency = currencyOf(await transaction.get<Group>(COLLECTIONS.GROUPS, withdrawal.group_id));
+        const wallet = await transaction.get<MemberWallet>(
+          COLLECTIONS.WALLETS,
+          walletId(withdrawal.group_id, withdrawal.user_id),
+        );
+        const amount = money(withdrawal.amount, currency);
+        if (!wallet || compareMoney(money(wallet.balance, currency), amount) < 0) {
+          throw coded('The wallet no longer holds enough to pay this withdrawal', 'insufficient-balance');
+        }
+
+        const { cycle_number, ...details } = decision;
+        const updates = { status: 'approved' as const, ...details };
+        transaction.update(COLLECTIONS.WALLET_WITHDRAWALS, withdrawalId, updates);
+        transaction.set(COLLECTIONS.LEDGER_ENTRIES, `wallet_withdrawal_${withdrawalId}`, {
+          group_id: withdrawal.group_id,
+          type: 'wallet',
+          cycle_number,
+          reference_id: withdrawalId,
+          description: 'Wallet withdrawal',
+          currency,
+          lines: [
+            debit(walletAccount(withdrawal.user_id), withdrawal.amount, currency),
+            credit(LEDGER_ACCOUNTS.WALLET_FUNDS, withdrawal.amount, currency),
+          ],
+          created_by: decision.decided_by,
+          created_at: decision.decided_at,
+        });
+        writeBalance(
+          transaction,
+          withdrawal.group_id,
+          withdrawal.user_id,
+          wallet,
+          multiplyMoney(amount, -1),
+          decision.decided_at,
+        );
+        return { ...withdrawal, ...updates };
+      });
+      return { success: true, data: approved };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  // Turn down a withdrawal; the money stays in the wallet
+  async rejectWithdrawal(
+    withdrawalId: string,
+    decision: { decided_by: string; decided_at: Date; decision_notes?: string },
+  ): Promise<DatabaseResult<WalletWithdrawal>> {
+    try {
+      const rejected = await this.store.runTransaction(async transaction => {
+        const withdrawal = await this.getOpenWithdrawal(transaction, withdrawalId);
+        const updates = { status: 'rejected' as const, ...decision };
+        transaction.update(COLLECTIONS.WALLET_WITHDRAWALS, withdrawalId, updates);
+        return { ...withdrawal, ...updates };
+      });
+      return { success: true, data: rejected };
+    } catch (error: any) {
+      return this.failure(error);
+    }
+  }
+
+  private async getOpenWithdrawal(transaction: StoreTransaction, withdrawalId: string): Promise<WalletWithdrawal> {
+    const withdrawal = await transaction.get<WalletWithdrawal>(COLLECTIONS.WALLET_WITHDRAWALS, withdrawalId);
+    if (!withdrawal) {
+      throw coded('Withdrawal not found', 'withdrawal-not-found');
+    }
+    if (withdrawal.status !== 'requested') {
+      throw coded(`This withdrawal has already been ${withdrawal.status}`, 'already-decided');
+    }
+    return withdrawal;
+  }
+
+}
+
+export default WalletRepository;
@@ -0,0 +1,42 @@
+import { EmailError } from '../../types/business';
+import { EmailBounceType, EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+export interface CapturedEmail extends EmailMessage {
+  messageId: string;
+}
+
+// Keeps emails in memory instead of sending them, for tests and development.
+// Addresses can be set to bounce, like a server refusing the recipient.
+export class CaptureEmailTransport implements EmailTransport {
+  readonly id = 'capture';
+  readonly sent: CapturedEmail[] = [];
+  private bounces = new Map<string, EmailBounceType>();
+  private nextId = 1;
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const address = message.to.address.toLowerCase();
+    const bounce = this.bounces.get(address);
+    if (bounce) {
+      throw new EmailError(`${address} was refused`, { bounce, smtpCode: bounce === 'hard' ? 550 : 452 });
+    }
+
+    const messageId = `capture-${this.nextId++}@ajoturn.app`;
+    this.sent.push({ ...message, messageId });
+    console.log('📧 CAPTURED EMAIL:', { to: address, subject: message.subject });
+    return { messageId };
+  }
+
+  bounce(address: string, type: EmailBounceType = 'hard'): void {
+    this.bounces.set(address.toLowerCase(), type);
+  }
+
+  // Emails sent to an address, oldest first
+  sentTo(address: string): CapturedEmail[] {
+    return this.sent.filter(message => message.to.address.toLowerCase() === address.toLowerCase());
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+    this.bounces.clear();
+  }
+}
@@ -0,0 +1,270 @@
+import { BusinessLogicResult, EmailError } from '../../types/business';
+import DatabaseService, { User } from '../database';
+import { getClock } from '../jobs/clock';
+import { CaptureEmailTransport } from './capture';
+import { EmailDocument, renderEmail } from './render';
+import { EmailAddress, EmailBounceEvent, EmailBounceType, EmailSendResult, EmailTransport } from './types';
+
+export * from './types';
+export { SmtpTransport } from './smtp';
+export type { SmtpConfig, SmtpConnection, SmtpConnector } from './smtp';
+export { CaptureEmailTransport } from './capture';
+export type { CapturedEmail } from './capture';
+export { notificationDocument, renderEmail, settlementStatementDocument } from './render';
+export type { EmailDocument } from './render';
+
+interface EmailServiceConfig {
+  from: EmailAddress;
+  replyTo?: EmailAddress;
+  unsubscribeUrl?: string; // page that passes its `token` parameter to unsubscribe()
+  maxSoftBounces: number; // temporary failures in a row before emails stop
+}
+
+const TOKEN_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const TOKEN_LENGTH = 24;
+
+/**
+ * Emails members notifications and statements through the configured transport.
+ *
+ * Until an SMTP transport is set up, emails are captured in memory, like the mock
+ * SMS provider. Each member's address is tracked separately: a hard bounce, a spam
+ * complaint, too many soft bounces or following the unsubscribe link stops emails
+ * to that address until they resubscribe or change it.
+ */
+class EmailService {
+  private config: EmailServiceConfig = {
+    from: { address: 'no-reply@ajoturn.app', name: 'Ajoturn' },
+    maxSoftBounces: 3,
+  };
+  private transport: EmailTransport = new CaptureEmailTransport();
+
+  // Initialize email service with configuration
+  initialize(config: Partial<EmailServiceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  setTransport(transport: EmailTransport): void {
+    this.transport = transport;
+    console.log(`Email Service using transport: ${transport.id}`);
+  }
+
+  getTransport(): EmailTransport {
+    return this.transport;
+  }
+
+  /**
+   * Email a member, unless their address has bounced or they unsubscribed
+   * @param document - What to say; laid out as HTML and plain text with an unsubscribe footer
+   * @returns The transport's message ID
+   */
+  async sendToUser(userId: string, document: EmailDocument): Promise<BusinessLogicResult<EmailSendResult>> {
+    try {
+      const userResult = await DatabaseService.users.getUserById(userId);
+      if (!userResult.success || !userResult.data) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND',
+        };
+      }
+      const user = userResult.data;
+      if (!user.email) {
+        return {
+          success: false,
+          error: 'Member has no email address',
+          code: 'NO_EMAIL_ADDRESS',
+        };
+      }
+      if (this.isSuppressed(user)) {
+        return {
+          success: false,
+          error: 'Emails to this member are turned off',
+          code: 'EMAIL_SUPPRESSED',
+        };
+      }
+
+      const unsubscribeUrl = await this.getUnsubscribeUrl(user);
+      const content = renderEmail(document, { unsubscribeUrl });
+
+      let result: EmailSendResult;
+      try {
+        result = await this.transport.send({
+          from: this.config.from,
+          replyTo: this.config.replyTo,
+          to: { address: user.email, name: user.name },
+          ...content,
+          headers: unsubscribeUrl
+            ? { 'List-Unsubscribe': `<${unsubscribeUrl}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }
+            : undefined,
+        });
+      } catch (error) {
+        const bounce: EmailBounceType | undefined = error instanceof EmailError ? error.details?.bounce : undefined;
+        if (!bounce) {
+          throw error;
+        }
+        await this.recordBounce(user, bounce, error instanceof Error ? error.message : undefined);
+        return {
+          success: false,
+          error: `Email to ${user.email} bounced`,
+          code: 'EMAIL_BOUNCED',
+        };
+      }
+
+      if (user.email_soft_bounces) {
+        await DatabaseService.users.updateUser(userId, { email_soft_bounces: 0 });
+      }
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      console.error('Error sending email:', error);
+      return {
+        success: false,
+        error: 'Failed to send email',
+        code: 'EMAIL_SEND_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Record a bounce or spam complaint the mail provider reported after accepting an email
+   * @param event - From the provider's bounce webhook
+   */
+  async handleBounce(event: EmailBounceEvent): Promise<BusinessLogicResult<void>> {
+    try {
+      const userResult = await DatabaseService.users.getUserByEmail(event.email);
+      if (!userResult.success || !userResult.data) {
+        return {
+          success: false,
+          error: 'No member has this email address',
+          code: 'USER_NOT_FOUND',
+        };
+      }
+
+      await this.recordBounce(userResult.data, event.type, event.reason);
+      return { success: true };
+    } catch (error) {
+      console.error('Error handling email bounce:', error);
+      return {
+        success: false,
+        error: 'Failed to record bounce',
+        code: 'BOUNCE_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Stop emails to the member an unsubscribe link was sent to
+   * @param token - The `token` parameter of the link
+   */
+  async unsubscribe(token: string): Promise<BusinessLogicResult<void>> {
+    try {
+      const userResult = await DatabaseService.users.getUserByUnsubscribeToken(token);
+      if (!userResult.success || !userResult.data?.email) {
+        return {
+          success: false,
+          error: 'This unsubscribe link is not valid',
+          code: 'INVALID_UNSUBSCRIBE_TOKEN',
+        };
+      }
+
+      await this.suppress(userResult.data, 'unsubscribed');
+      return { success: true };
+    } catch (error) {
+      console.error('Error unsubscribing from email:', error);
+      return {
+        success: false,
+        error: 'Failed to unsubscribe',
+        code: 'UNSUBSCRIBE_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Start emailing a member again after they unsubscribed or their address bounced
+   */
+  async resubscribe(userId: string): Promise<BusinessLogicResult<void>> {
+    try {
+      const result = await DatabaseService.users.updateUser(userId, {
+        email_suppression: null,
+        email_soft_bounces: 0,
+      });
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          code: result.code,
+        };
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error resubscribing to email:', error);
+      return {
+        success: false,
+        error: 'Failed to resubscribe',
+        code: 'RESUBSCRIBE_ERROR',
+      };
+    }
+  }
+
+  // Suppression only applies to the address that bounced or unsubscribed
+  isSuppressed(user: Pick<User, 'email' | 'email_suppression'>): boolean {
+    return !!user.email_suppression && user.email_suppression.email.toLowerCase() === user.email?.toLowerCase();
+  }
+
+  private async recordBounce(user: User, type: EmailBounceEvent['type'], detail?: string): Promise<void> {
+    if (type === 'hard') {
+      await this.suppress(user, 'hard_bounce', detail);
+    } else if (type === 'complaint') {
+      await this.suppress(user, 'complaint', detail);
+    } else {
+      const softBounces = (user.email_soft_bounces || 0) + 1;
+      if (softBounces >= this.config.maxSoftBounces) {
+        await this.suppress(user, 'soft_bounces', detail, softBounces);
+      } else {
+        await DatabaseService.users.updateUser(user.id, { email_soft_bounces: softBounces });
+      }
+    }
+  }
+
+  private async suppress(
+    user: User,
+    reason: NonNullable<User['email_suppression']>['reason'],
+    detail?: string,
+    softBounces: number = user.email_soft_bounces || 0
+  ): Promise<void> {
+    console.log(`Stopping emails to ${user.email}: ${reason}`);
+    await DatabaseService.users.updateUser(user.id, {
+      email_suppression: {
+        email: user.email || '',
+        reason,
+        ...(detail ? { detail } : {}),
+        suppressed_at: getClock().now(),
+      },
+      email_soft_bounces: softBounces,
+    });
+  }
+
+  // The member's unsubscribe link, giving them a token the first time
+  private async getUnsubscribeUrl(user: User): Promise<string | undefined> {
+    if (!this.config.unsubscribeUrl) {
+      return undefined;
+    }
+
+    let token = user.email_unsubscribe_token;
+    if (!token) {
+      token = '';
+      for (let index = 0; index < TOKEN_LENGTH; index++) {
+        token += TOKEN_ALPHABET.charAt(Math.floor(Math.random() * TOKEN_ALPHABET.length));
+      }
+      await DatabaseService.users.updateUser(user.id, { email_unsubscribe_token: token });
+    }
+
+    const separator = this.config.unsubscribeUrl.includes('?') ? '&' : '?';
+    return `${this.config.unsubscribeUrl}${separator}token=${token}`;
+  }
+}
+
+export default new EmailService();
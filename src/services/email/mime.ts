@@ -0,0 +1,81 @@
+import { textToBase64, utf8Bytes } from '../../utils/base64';
+import { EmailAddress, EmailMessage } from './types';
+
+const CRLF = '\r\n';
+const LINE_LENGTH = 76;
+const ENCODED_WORD_BYTES = 45; // keeps each encoded word under 75 characters
+
+const isPlainAscii = (text: string): boolean => /^[\x20-\x7e]*$/.test(text);
+
+// Header values can't span lines; a newline in a subject would start a new header
+const singleLine = (value: string): string => value.replace(/[\r\n]+/g, ' ').trim();
+
+const wrap = (text: string): string => (text.match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g')) || []).join(CRLF);
+
+// RFC 2047 encoded words for header text that isn't plain ASCII, e.g. subjects with emoji
+export const encodeHeader = (value: string): string => {
+  const text = singleLine(value);
+  if (isPlainAscii(text)) {
+    return text;
+  }
+
+  // Split between characters, never inside one
+  const words: string[] = [];
+  let word = '';
+  for (const char of text) {
+    if (utf8Bytes(word + char).length > ENCODED_WORD_BYTES) {
+      words.push(word);
+      word = '';
+    }
+    word += char;
+  }
+  words.push(word);
+  return words.map(part => `=?UTF-8?B?${textToBase64(part)}?=`).join(`${CRLF} `);
+};
+
+export const formatAddress = ({ address, name }: EmailAddress): string => {
+  const mailbox = `<${singleLine(address)}>`;
+  if (!name) {
+    return mailbox;
+  }
+  const displayName = singleLine(name);
+  return isPlainAscii(displayName)
+    ? `"${displayName.replace(/["\\]/g, '\\$&')}" ${mailbox}`
+    : `${encodeHeader(displayName)} ${mailbox}`;
+};
+
+/**
+ * The email as sent over SMTP: headers, then the plain-text and HTML renderings
+ * as multipart/alternative, each base64 encoded so any language survives transit
+ * @param envelope.messageId - Message-ID without the angle brackets
+ */
+export const buildMimeMessage = (message: EmailMessage, envelope: { messageId: string; date: Date }): string => {
+  const boundary = `=_ajoturn_${envelope.messageId.replace(/[^a-zA-Z0-9]/g, '')}`;
+  const headers = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    ...(message.replyTo ? [`Reply-To: ${formatAddress(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${envelope.date.toUTCString()}`,
+    `Message-ID: <${envelope.messageId}>`,
+    'MIME-Version: 1.0',
+    ...Object.entries(message.headers || {}).map(([name, value]) => `${name}: ${singleLine(value)}`),
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+  const part = (contentType: string, content: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrap(textToBase64(content)),
+  ];
+
+  return [
+    ...headers,
+    '',
+    ...part('text/plain', message.text),
+    ...part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+};
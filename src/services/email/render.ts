@@ -0,0 +1,98 @@
+import { Settlement, SettlementLine } from '../../types/database';
+import { currencyOf, formatAmount } from '../../utils/money';
+import { NotificationTemplate } from '../notifications/templates';
+import { EmailContent } from './types';
+
+// What an email says, before it is laid out as HTML and plain text
+export interface EmailDocument {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  rows?: Array<[string, string]>; // label and value, e.g. the lines of a statement
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// A rendered notification template; its body's line breaks become paragraphs
+export const notificationDocument = (template: Pick<NotificationTemplate, 'title' | 'body'>): EmailDocument => ({
+  subject: template.title,
+  heading: template.title,
+  paragraphs: template.body.split(/\n+/).filter(paragraph => paragraph.trim()),
+});
+
+// One member's share of a settled group pot
+export const settlementStatementDocument = (
+  settlement: Pick<Settlement, 'reason' | 'cycle_number' | 'currency'>,
+  line: SettlementLine,
+  groupName: string
+): EmailDocument => {
+  const format = (amount: number) => formatAmount(amount, currencyOf(settlement));
+  const rows: Array<[string, string]> = [
+    ['Paid in', format(line.paid_in)],
+    ['Payouts received', format(line.received)],
+    ['Late fees', format(line.penalties)],
+    line.owes > 0 ? ['You owe the group', format(line.owes)] : ['Your claim', format(line.claim)],
+    ['Share of money left over', format(line.surplus_share)],
+    ['Paid to you', format(line.amount)],
+  ];
+  if (line.shortfall > 0) {
+    rows.push(['Not covered by the pot', format(line.shortfall)]);
+  }
+
+  return {
+    subject: `${groupName} settlement statement`,
+    heading: `${groupName} settlement statement`,
+    paragraphs: [
+      `${groupName} was ${settlement.reason === 'dissolve' ? 'dissolved' : 'restarted'} after cycle ${
+        settlement.cycle_number
+      }. Here is how your share of the pot was worked out.`,
+    ],
+    rows,
+  };
+};
+
+/**
+ * Lay out a document as the HTML and plain-text parts of an email
+ * @param options.unsubscribeUrl - Link in the footer that stops emails to the member
+ */
+export const renderEmail = (document: EmailDocument, options: { unsubscribeUrl?: string } = {}): EmailContent => {
+  const footer = 'You are receiving this because you are a member of an Ajoturn savings group.';
+  const labelWidth = Math.max(0, ...(document.rows || []).map(([label]) => label.length));
+
+  const text = [
+    document.heading,
+    '',
+    ...document.paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...(document.rows ? [...document.rows.map(([label, value]) => `${label.padEnd(labelWidth)}  ${value}`), ''] : []),
+    '--',
+    footer,
+    ...(options.unsubscribeUrl ? [`Unsubscribe: ${options.unsubscribeUrl}`] : []),
+  ].join('\n');
+
+  const rows = (document.rows || [])
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:6px 12px 6px 0;color:#718096">${escapeHtml(label)}</td>` +
+        `<td style="padding:6px 0;text-align:right;font-weight:600">${escapeHtml(value)}</td></tr>`
+    )
+    .join('');
+  const html = [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(document.subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f7fafc;font-family:Helvetica,Arial,sans-serif;color:#2d3748">',
+    '<div style="max-width:560px;margin:0 auto;padding:24px;background:#ffffff;border-radius:8px">',
+    `<h1 style="margin:0 0 16px;font-size:20px;color:#2d3748">${escapeHtml(document.heading)}</h1>`,
+    ...document.paragraphs.map(paragraph => `<p style="margin:0 0 12px;font-size:15px;line-height:22px">${escapeHtml(paragraph)}</p>`),
+    ...(rows ? [`<table style="width:100%;border-collapse:collapse;font-size:15px">${rows}</table>`] : []),
+    '</div>',
+    `<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#718096">${escapeHtml(footer)}`,
+    ...(options.unsubscribeUrl
+      ? [` <a href="${escapeHtml(options.unsubscribeUrl)}" style="color:#3182ce">Unsubscribe</a>`]
+      : []),
+    '</p>',
+    '</body></html>',
+  ].join('');
+
+  return { subject: document.subject, text, html };
+};
@@ -0,0 +1,169 @@
+import { EmailError } from '../../types/business';
+import { getClock } from '../jobs/clock';
+import { textToBase64 } from '../../utils/base64';
+import { buildMimeMessage } from './mime';
+import { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+// A socket to an SMTP server. React Native has no TCP sockets of its own, so
+// the app supplies a connector backed by a native socket module.
+export interface SmtpConnection {
+  write(data: string): Promise<void>;
+  readLine(): Promise<string>; // next line from the server, without the CRLF
+  startTls(): Promise<void>; // upgrade the connection after STARTTLS
+  close(): Promise<void>;
+}
+
+export type SmtpConnector = (options: { host: string; port: number; secure: boolean }) => Promise<SmtpConnection>;
+
+export interface SmtpConfig {
+  host: string;
+  port?: number; // 465 when secure, otherwise 587
+  secure?: boolean; // TLS from the start (port 465) instead of STARTTLS
+  requireTls?: boolean; // refuse to send if the server doesn't offer STARTTLS; defaults to true
+  username?: string;
+  password?: string;
+  clientName?: string; // sent with EHLO
+  connect: SmtpConnector;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const CRLF = '\r\n';
+
+// A leading dot would end the DATA section early (RFC 5321 4.5.2)
+const dotStuff = (content: string): string => content.replace(/^\./gm, '..');
+
+const domainOf = (address: string): string => address.slice(address.lastIndexOf('@') + 1) || 'localhost';
+
+/**
+ * Sends email through an SMTP server (a provider's relay such as SES, Mailgun or
+ * SendGrid, or the group's own server). One connection per email, upgraded with
+ * STARTTLS and authenticated with AUTH PLAIN or LOGIN.
+ * A recipient the server refuses is reported as a bounce: hard for 5xx replies,
+ * soft for 4xx. Any other failure is a transport error and says nothing about the address.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly id = 'smtp';
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const secure = this.config.secure || false;
+    const connection = await this.config.connect({
+      host: this.config.host,
+      port: this.config.port || (secure ? 465 : 587),
+      secure,
+    });
+
+    try {
+      await this.expect(connection, 220, 'greeting');
+      let extensions = await this.hello(connection);
+
+      if (!secure) {
+        if (extensions.has('STARTTLS')) {
+          await this.command(connection, 'STARTTLS', 220);
+          await connection.startTls();
+          extensions = await this.hello(connection);
+        } else if (this.config.requireTls !== false) {
+          throw new EmailError(`${this.config.host} does not support STARTTLS`);
+        }
+      }
+
+      if (this.config.username) {
+        await this.authenticate(connection, extensions.get('AUTH') || '');
+      }
+
+      const messageId = `${getClock().now().getTime().toString(36)}.${Math.random().toString(36).slice(2, 10)}@${domainOf(
+        message.from.address
+      )}`;
+      await this.command(connection, `MAIL FROM:<${message.from.address}>`, 250);
+
+      const recipient = await this.exchange(connection, `RCPT TO:<${message.to.address}>`);
+      if (recipient.code !== 250 && recipient.code !== 251) {
+        throw new EmailError(`${message.to.address} was refused: ${recipient.lines.join(' ')}`, {
+          bounce: recipient.code >= 500 ? 'hard' : 'soft',
+          smtpCode: recipient.code,
+        });
+      }
+
+      await this.command(connection, 'DATA', 354);
+      const content = dotStuff(buildMimeMessage(message, { messageId, date: getClock().now() }));
+      await connection.write(`${content}${content.endsWith(CRLF) ? '' : CRLF}.${CRLF}`);
+      await this.expect(connection, 250, 'message');
+
+      await connection.write(`QUIT${CRLF}`);
+      return { messageId };
+    } finally {
+      await connection.close();
+    }
+  }
+
+  // EHLO, returning the extensions the server offers, e.g. STARTTLS and AUTH
+  private async hello(connection: SmtpConnection): Promise<Map<string, string>> {
+    const reply = await this.command(connection, `EHLO ${this.config.clientName || 'ajoturn.app'}`, 250);
+    return new Map(
+      reply.lines.slice(1).map(line => {
+        const [keyword, ...params] = line.split(' ');
+        return [keyword.toUpperCase(), params.join(' ').toUpperCase()] as [string, string];
+      })
+    );
+  }
+
+  private async authenticate(connection: SmtpConnection, mechanisms: string): Promise<void> {
+    const username = this.config.username || '';
+    const password = this.config.password || '';
+    if (mechanisms.split(' ').includes('PLAIN') || !mechanisms.split(' ').includes('LOGIN')) {
+      await this.command(connection, `AUTH PLAIN ${textToBase64(`\u0000${username}\u0000${password}`)}`, 235, 'AUTH');
+      return;
+    }
+    await this.command(connection, 'AUTH LOGIN', 334);
+    await this.command(connection, textToBase64(username), 334, 'AUTH');
+    await this.command(connection, textToBase64(password), 235, 'AUTH');
+  }
+
+  // `label` names the command in errors, so credentials are never echoed
+  private async command(
+    connection: SmtpConnection,
+    line: string,
+    expected: number,
+    label: string = line.split(' ')[0]
+  ): Promise<SmtpReply> {
+    const reply = await this.exchange(connection, line);
+    if (reply.code !== expected) {
+      throw new EmailError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`, { smtpCode: reply.code });
+    }
+    return reply;
+  }
+
+  private async exchange(connection: SmtpConnection, line: string): Promise<SmtpReply> {
+    await connection.write(`${line}${CRLF}`);
+    return this.readReply(connection);
+  }
+
+  private async expect(connection: SmtpConnection, expected: number, stage: string): Promise<SmtpReply> {
+    const reply = await this.readReply(connection);
+    if (reply.code !== expected) {
+      throw new EmailError(`SMTP ${stage} failed: ${reply.code} ${reply.lines.join(' ')}`, { smtpCode: reply.code });
+    }
+    return reply;
+  }
+
+  // Replies span lines like "250-first", "250 last"
+  private async readReply(connection: SmtpConnection): Promise<SmtpReply> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await connection.readLine();
+      const code = Number(line.slice(0, 3));
+      if (!Number.isInteger(code) || code < 200) {
+        throw new EmailError(`Unexpected SMTP reply: ${line}`);
+      }
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        return { code, lines };
+      }
+    }
+  }
+}
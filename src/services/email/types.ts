@@ -0,0 +1,42 @@
+export interface EmailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface EmailMessage {
+  from: EmailAddress;
+  to: EmailAddress;
+  replyTo?: EmailAddress;
+  subject: string;
+  text: string; // plain-text rendering, for clients that don't show HTML
+  html: string;
+  headers?: Record<string, string>; // extra headers, e.g. List-Unsubscribe
+}
+
+export interface EmailSendResult {
+  messageId: string;
+}
+
+// How emails leave the app: SMTP in production, captured in memory in tests
+export interface EmailTransport {
+  readonly id: string;
+  // Throws EmailError; `bounce` in its details when the server refused the recipient
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+// 'hard' for addresses that don't exist, 'soft' for full mailboxes and other passing failures
+export type EmailBounceType = 'hard' | 'soft';
+
+// A bounce or complaint reported by the mail provider after the email was accepted
+export interface EmailBounceEvent {
+  email: string;
+  type: EmailBounceType | 'complaint';
+  reason?: string;
+}
+
+// The parts of an email that differ per notification
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
@@ -1,17 +1,9 @@
 import { BusinessLogicResult } from '../types/business';
-import DatabaseService from './database';
-
-export interface GroupInvite {
-  id: string;
-  group_id: string;
-  invite_code: string;
-  created_by: string;
-  created_at: Date;
-  expires_at: Date;
-  max_uses?: number;
-  current_uses: number;
-  is_active: boolean;
-}
+import DatabaseService, { GroupInvite } from './database';
+import { hasGroupPermission } from '../utils/permissions';
+import AuditLogService from './business/auditLog';
+
+export type { GroupInvite };
 
 export interface InviteValidation {
   isValid: boolean;
@@ -47,10 +39,10 @@ class GroupInviteService {
       }
 
       const group = groupResult.data;
-      if (group.admin_id !== createdBy) {
+      if (!hasGroupPermission(group, createdBy, 'canAddMembers')) {
         return {
           success: false,
-          error: 'Only group admin can generate invite codes',
+          error: 'You do not have permission to generate invite codes',
           code: 'PERMISSION_DENIED',
         };
       }
@@ -69,8 +61,7 @@ class GroupInviteService {
       const expiresAt = new Date();
       expiresAt.setHours(expiresAt.getHours() + expiresInHours);
 
-      const invite: GroupInvite = {
-        id: `invite_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const inviteData: Omit<GroupInvite, 'id'> = {
         group_id: groupId,
         invite_code: inviteCode,
         created_by: createdBy,
@@ -82,8 +73,8 @@ class GroupInviteService {
       };
 
       // Store invite in database
-      const storeResult = await this.storeInvite(invite);
-      if (!storeResult) {
+      const storeResult = await DatabaseService.invites.createInvite(inviteData);
+      if (!storeResult.success || !storeResult.data) {
         return {
           success: false,
           error: 'Failed to create invite code',
@@ -91,11 +82,20 @@ class GroupInviteService {
         };
       }
 
+      await AuditLogService.record({
+        groupId,
+        actorId: createdBy,
+        category: 'invites',
+        action: 'invite_created',
+        targetId: storeResult.data.id,
+        after: { invite_code: inviteCode, expires_at: expiresAt, max_uses: maxUses ?? null },
+      });
+
       console.log(`Generated invite code ${inviteCode} for group ${groupId}`);
 
       return {
         success: true,
-        data: invite,
+        data: storeResult.data,
       };
     } catch (error) {
       console.error('Error generating invite code:', error);
@@ -265,13 +265,12 @@ class GroupInviteService {
         group_id: group.id,
         user_id: userId,
         role: 'member',
-        join_order: group.total_members + 1,
         status: 'active',
         joined_via: 'invite_code',
         invite_code: inviteCode,
       });
 
-      if (!joinResult.success) {
+      if (!joinResult.success || !joinResult.data) {
         return {
           success: false,
           error: 'Failed to join group',
@@ -279,12 +278,18 @@ class GroupInviteService {
         };
       }
 
-      // Update invite usage count
-      await this.incrementInviteUsage(invite.id);
-
-      // Update group member count
-      await DatabaseService.groups.updateGroup(group.id, {
-        total_members: group.total_members + 1,
+      // Update invite usage count (the member count is updated by addMember)
+      await DatabaseService.invites.incrementUsage(invite.id);
+
+      await AuditLogService.record({
+        groupId: group.id,
+        actorId: userId,
+        category: 'invites',
+        action: 'invite_used',
+        targetId: invite.id,
+        before: { current_uses: invite.current_uses },
+        after: { current_uses: invite.current_uses + 1 },
+        metadata: { invite_code: inviteCode },
       });
 
       console.log(`User ${userId} joined group ${group.id} using invite code ${inviteCode}`);
@@ -356,17 +361,28 @@ class GroupInviteService {
         };
       }
 
-      if (groupResult.data.admin_id !== userId) {
+      if (!hasGroupPermission(groupResult.data, userId, 'canAddMembers')) {
         return {
           success: false,
-          error: 'Only group admin can deactivate invites',
+          error: 'You do not have permission to deactivate invites',
           code: 'PERMISSION_DENIED',
         };
       }
 
       // Deactivate the invite
       const result = await this.updateInvite(inviteId, { is_active: false });
-      
+      if (result) {
+        await AuditLogService.record({
+          groupId: invite.group_id,
+          actorId: userId,
+          category: 'invites',
+          action: 'invite_deactivated',
+          targetId: inviteId,
+          before: { is_active: invite.is_active },
+          after: { is_active: false },
+        });
+      }
+
       return {
         success: result,
         data: result,
@@ -395,114 +411,47 @@ class GroupInviteService {
   }
 
   /**
-   * Store invite in database (simulated - would use real database)
-   * @param invite - Invite to store
-   * @returns Success status
-   */
-  private async storeInvite(invite: GroupInvite): Promise<boolean> {
-    try {
-      // In a real implementation, this would store in Firestore
-      // For now, we'll simulate storage
-      console.log(`Storing invite: ${JSON.stringify(invite)}`);
-      return true;
-    } catch (error) {
-      console.error('Error storing invite:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Get invite by code (simulated)
+   * Get invite by code
    * @param code - Invite code
    * @returns Invite or null
    */
   private async getInviteByCode(code: string): Promise<GroupInvite | null> {
-    try {
-      // In a real implementation, this would query Firestore
-      // For now, we'll simulate a database lookup
-      
-      // Simulate some valid codes for testing
-      if (code === 'TEST01') {
-        return {
-          id: 'invite_test_1',
-          group_id: 'group_1',
-          invite_code: code,
-          created_by: 'admin_user',
-          created_at: new Date(Date.now() - 3600000), // 1 hour ago
-          expires_at: new Date(Date.now() + 82800000), // 23 hours from now
-          current_uses: 0,
-          is_active: true,
-        };
-      }
-      
-      return null; // Code not found
-    } catch (error) {
-      console.error('Error getting invite by code:', error);
-      return null;
-    }
+    const result = await DatabaseService.invites.getInviteByCode(code);
+    return result.data || null;
   }
 
   /**
-   * Get invite by ID (simulated)
+   * Get invite by ID
    * @param inviteId - Invite ID
    * @returns Invite or null
    */
   private async getInviteById(inviteId: string): Promise<GroupInvite | null> {
-    try {
-      // In a real implementation, this would query Firestore by ID
-      return null; // Simulated
-    } catch (error) {
-      console.error('Error getting invite by ID:', error);
-      return null;
-    }
+    const result = await DatabaseService.invites.getInviteById(inviteId);
+    return result.data || null;
   }
 
   /**
-   * Get active invites for a group (simulated)
+   * Get active invites for a group
    * @param groupId - Group ID
    * @returns Array of active invites
    */
   private async getActiveInvitesForGroup(groupId: string): Promise<GroupInvite[]> {
-    try {
-      // In a real implementation, this would query Firestore
-      return []; // Simulated
-    } catch (error) {
-      console.error('Error getting active invites:', error);
-      return [];
+    const result = await DatabaseService.invites.getActiveInvitesForGroup(groupId);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to load invites');
     }
+    return result.data;
   }
 
   /**
-   * Increment invite usage count (simulated)
-   * @param inviteId - Invite ID
-   * @returns Success status
-   */
-  private async incrementInviteUsage(inviteId: string): Promise<boolean> {
-    try {
-      // In a real implementation, this would increment the count in Firestore
-      console.log(`Incrementing usage for invite: ${inviteId}`);
-      return true;
-    } catch (error) {
-      console.error('Error incrementing invite usage:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Update invite properties (simulated)
+   * Update invite properties
    * @param inviteId - Invite ID
    * @param updates - Properties to update
    * @returns Success status
    */
-  private async updateInvite(inviteId: string, updates: Partial<GroupInvite>): Promise<boolean> {
-    try {
-      // In a real implementation, this would update the document in Firestore
-      console.log(`Updating invite ${inviteId}:`, updates);
-      return true;
-    } catch (error) {
-      console.error('Error updating invite:', error);
-      return false;
-    }
+  private async updateInvite(inviteId: string, updates: Partial<Omit<GroupInvite, 'id'>>): Promise<boolean> {
+    const result = await DatabaseService.invites.updateInvite(inviteId, updates);
+    return result.success;
   }
 
   /**
@@ -511,15 +460,19 @@ class GroupInviteService {
    */
   async cleanupExpiredInvites(): Promise<BusinessLogicResult<number>> {
     try {
-      // In a real implementation, this would:
-      // 1. Query for expired invites
-      // 2. Mark them as inactive
-      // 3. Return count of cleaned up invites
-      
-      console.log('Cleaning up expired invites...');
+      const result = await DatabaseService.invites.deactivateExpiredInvites(new Date());
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Failed to cleanup expired invites',
+          code: 'CLEANUP_ERROR',
+        };
+      }
+
+      console.log(`Deactivated ${result.data} expired invites`);
       return {
         success: true,
-        data: 0, // Simulated count
+        data: result.data,
       };
     } catch (error) {
       console.error('Error cleaning up expired invites:', error);
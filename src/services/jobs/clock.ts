@@ -0,0 +1,75 @@
+/**
+ * Time source for scheduled work.
+ *
+ * Everything that decides "is this due yet?" asks the active clock instead of
+ * calling new Date() or setTimeout directly, so tests can swap in a
+ * ManualClock and move time forward deterministically.
+ */
+
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: () => void | Promise<void>, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Clock that only moves when advance() is called. Timers fire in due order,
+ * and async callbacks are awaited before the next one, so a test sees their
+ * effects as soon as advance() resolves.
+ */
+export class ManualClock implements Clock {
+  private current: number;
+  private timers: { id: number; at: number; callback: () => void | Promise<void> }[] = [];
+  private nextTimerId = 1;
+
+  constructor(start: Date = new Date()) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTimeout(callback: () => void | Promise<void>, ms: number): TimerHandle {
+    const id = this.nextTimerId++;
+    this.timers.push({ id, at: this.current + Math.max(0, ms), callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+    for (;;) {
+      const next = this.timers
+        .filter(timer => timer.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!next) {
+        break;
+      }
+      this.timers = this.timers.filter(timer => timer !== next);
+      this.current = next.at;
+      await next.callback();
+    }
+    this.current = target;
+  }
+}
+
+let activeClock: Clock = systemClock;
+
+export const getClock = (): Clock => activeClock;
+
+// Swap the time source, e.g. a ManualClock in tests
+export const setClock = (clock: Clock): void => {
+  activeClock = clock;
+};
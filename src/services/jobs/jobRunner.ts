@@ -0,0 +1,257 @@
+import { BusinessLogicResult } from '../../types/business';
+import DatabaseService, { Job } from '../database';
+import { TimerHandle, getClock } from './clock';
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+export interface JobHandlerOptions {
+  leaseMs?: number; // how long a worker may hold the job before others take over
+  retryDelayMs?: number; // delay before the first retry, doubled on each further attempt
+  maxRetryDelayMs?: number;
+  onFailed?: (job: Job, error: Error) => Promise<void>; // after the last attempt fails
+}
+
+// Which jobs a worker runs. The backend runs all of them with admin credentials;
+// the app only runs jobs for the groups its user administers, since the rules
+// deny it the rest. Recurring jobs span groups, so only the backend runs them.
+export type JobScope = { server: true } | { adminGroupIds: string[] };
+
+interface RecurringJob {
+  intervalMs: number;
+  payload: Record<string, any>;
+}
+
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 60 * 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Runs persisted jobs from the `jobs` collection.
+ *
+ * The backend and every admin's app may run a JobRunner, each within its
+ * scope. Jobs are keyed by an idempotency key, so
+ * enqueueing the same work from several clients creates one job, and a worker
+ * must take a lease on a job before running it, so only one of them does the
+ * work. Failed attempts are retried with exponential backoff; a job whose
+ * worker disappears is picked up again once its lease expires.
+ */
+export class JobRunner {
+  readonly workerId: string;
+  private handlers = new Map<string, { handler: JobHandler; options: JobHandlerOptions }>();
+  private recurring = new Map<string, RecurringJob>();
+  private pollTimer: TimerHandle | null = null;
+  private pollIntervalMs = DEFAULT_POLL_INTERVAL_MS;
+  private scope: JobScope;
+
+  constructor(
+    workerId: string = `worker_${Math.random().toString(36).slice(2, 10)}`,
+    scope: JobScope = { adminGroupIds: [] },
+  ) {
+    this.workerId = workerId;
+    this.scope = scope;
+  }
+
+  // The app updates this whenever the groups its user administers change
+  setScope(scope: JobScope): void {
+    this.scope = scope;
+  }
+
+  // Register the function that runs jobs of a type
+  registerHandler(type: string, handler: JobHandler, options: JobHandlerOptions = {}): void {
+    this.handlers.set(type, { handler, options });
+  }
+
+  /**
+   * Add a job unless one already exists for its idempotency key
+   * @param params.idempotencyKey - Identifies the unit of work, e.g. "late-check:group:cycle:date"
+   * @param params.groupId - The group the job works on; without one, only the backend runs it
+   * @returns The new job, or the existing one for the key
+   */
+  async enqueue(params: {
+    type: string;
+    idempotencyKey: string;
+    groupId?: string;
+    payload?: Record<string, any>;
+    runAt?: Date;
+    maxAttempts?: number;
+  }): Promise<BusinessLogicResult<Job>> {
+    try {
+      const now = getClock().now();
+      const result = await DatabaseService.jobs.enqueueJob(
+        {
+          type: params.type,
+          idempotency_key: params.idempotencyKey,
+          group_id: params.groupId ?? null,
+          payload: params.payload || {},
+          run_at: params.runAt || now,
+          max_attempts: params.maxAttempts || 3,
+        },
+        now,
+      );
+
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error || 'Failed to enqueue job', code: 'ENQUEUE_ERROR' };
+      }
+
+      if (!result.data.created) {
+        return {
+          success: false,
+          data: result.data.job,
+          error: `Job already exists for ${params.idempotencyKey}`,
+          code: 'DUPLICATE_JOB',
+        };
+      }
+
+      return { success: true, data: result.data.job };
+    } catch (error) {
+      console.error('Error enqueueing job:', error);
+      return { success: false, error: 'Failed to enqueue job', code: 'ENQUEUE_ERROR' };
+    }
+  }
+
+  // Cancel a job that has not started yet
+  async cancel(idempotencyKey: string): Promise<BusinessLogicResult<boolean>> {
+    const job = await DatabaseService.jobs.getJobByKey(idempotencyKey);
+    if (!job.success || !job.data) {
+      return { success: false, error: 'Job not found', code: 'JOB_NOT_FOUND' };
+    }
+
+    const result = await DatabaseService.jobs.cancelJob(job.data.id, getClock().now());
+    if (!result.success || !result.data) {
+      return { success: false, error: 'Job is not pending', code: 'JOB_NOT_PENDING' };
+    }
+    return { success: true, data: true };
+  }
+
+  /**
+   * Run a job type every interval. Each period gets its own idempotency key,
+   * so clients sharing the schedule run each period once between them.
+   */
+  scheduleRecurring(type: string, intervalMs: number, payload: Record<string, any> = {}): void {
+    this.recurring.set(type, { intervalMs, payload });
+  }
+
+  unscheduleRecurring(type: string): void {
+    this.recurring.delete(type);
+  }
+
+  // Start polling for due jobs; the first poll happens straight away
+  start(pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+    this.pollIntervalMs = pollIntervalMs;
+    if (this.pollTimer !== null) {
+      return;
+    }
+    this.pollTimer = getClock().setTimeout(() => this.poll(), 0);
+  }
+
+  stop(): void {
+    if (this.pollTimer !== null) {
+      getClock().clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  /**
+   * Enqueue this period's recurring jobs, then run everything that is due
+   * @returns Number of jobs this worker ran
+   */
+  async tick(): Promise<number> {
+    const now = getClock().now();
+
+    for (const [type, recurring] of 'server' in this.scope ? this.recurring : []) {
+      const periodStart = new Date(Math.floor(now.getTime() / recurring.intervalMs) * recurring.intervalMs);
+      await this.enqueue({
+        type,
+        idempotencyKey: `${type}:${periodStart.toISOString()}`,
+        payload: recurring.payload,
+        runAt: now,
+        maxAttempts: 1, // the next period covers a missed one
+      });
+    }
+
+    return this.runDueJobs();
+  }
+
+  // Claim and run every due job in this worker's scope that it has a handler for
+  async runDueJobs(): Promise<number> {
+    const groupIds = 'server' in this.scope ? undefined : this.scope.adminGroupIds;
+    if (groupIds && groupIds.length === 0) {
+      return 0;
+    }
+
+    const due = await DatabaseService.jobs.getDueJobs(getClock().now(), groupIds);
+    if (!due.success || !due.data) {
+      console.error('Error fetching due jobs:', due.error);
+      return 0;
+    }
+
+    let ran = 0;
+    for (const job of due.data) {
+      if (this.handlers.has(job.type) && (await this.runJob(job))) {
+        ran++;
+      }
+    }
+    return ran;
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.tick();
+    } catch (error) {
+      console.error('Error running jobs:', error);
+    }
+
+    // Schedule the next poll only after this one finishes, so polls never overlap
+    if (this.pollTimer !== null) {
+      this.pollTimer = getClock().setTimeout(() => this.poll(), this.pollIntervalMs);
+    }
+  }
+
+  // Run one job under lease; returns false when another worker got it first
+  private async runJob(candidate: Job): Promise<boolean> {
+    const { handler, options } = this.handlers.get(candidate.type)!;
+    const claimed = await DatabaseService.jobs.claimJob(
+      candidate.id,
+      this.workerId,
+      getClock().now(),
+      options.leaseMs ?? DEFAULT_LEASE_MS,
+    );
+    if (!claimed.success || !claimed.data) {
+      return false;
+    }
+
+    const job = claimed.data;
+    try {
+      await handler(job);
+      await DatabaseService.jobs.completeJob(job.id, this.workerId, getClock().now());
+    } catch (error: any) {
+      const now = getClock().now();
+      const message = error?.message || String(error);
+
+      if (job.attempts < job.max_attempts) {
+        const retryAt = new Date(now.getTime() + this.retryDelay(options, job.attempts));
+        await DatabaseService.jobs.failJob(job.id, this.workerId, now, message, retryAt);
+        console.log(`Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying at ${retryAt}`);
+      } else {
+        await DatabaseService.jobs.failJob(job.id, this.workerId, now, message);
+        console.error(`Job ${job.id} failed after ${job.attempts} attempts:`, message);
+        if (options.onFailed) {
+          await options.onFailed(job, error instanceof Error ? error : new Error(message));
+        }
+      }
+    }
+    return true;
+  }
+
+  private retryDelay(options: JobHandlerOptions, attempts: number): number {
+    const base = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    return Math.min(base * 2 ** (attempts - 1), options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS);
+  }
+}
+
+export default new JobRunner();
@@ -0,0 +1,51 @@
+import { DatabaseResult } from '../../types/database';
+import DatabaseService from '../database';
+import JobRunner from './jobRunner';
+
+const MIGRATION_JOB = 'data_migration';
+
+// One-off data migrations by key. Each runs once across every group; give a
+// migration a new key to run it again.
+const MIGRATIONS: Record<string, () => Promise<DatabaseResult<unknown>>> = {
+  'embedded-members-v1': () => DatabaseService.migrateEmbeddedMembers(),
+};
+
+/**
+ * Runs one-off data migrations as jobs. Migrations span every group, so they
+ * have no group_id and only the backend worker runs them; the app can only
+ * migrate groups its own user administers.
+ */
+class MigrationJobsService {
+  constructor() {
+    JobRunner.registerHandler(MIGRATION_JOB, job => this.runMigration(job.payload.migration), {
+      retryDelayMs: 10 * 60 * 1000,
+    });
+  }
+
+  // Queue every migration; ones already queued or run are skipped by their idempotency keys
+  async scheduleMigrations(): Promise<void> {
+    for (const migration of Object.keys(MIGRATIONS)) {
+      await JobRunner.enqueue({
+        type: MIGRATION_JOB,
+        idempotencyKey: `migration:${migration}`,
+        payload: { migration },
+        maxAttempts: 5,
+      });
+    }
+  }
+
+  private async runMigration(migration: string): Promise<void> {
+    const run = MIGRATIONS[migration];
+    if (!run) {
+      throw new Error(`Unknown migration ${migration}`);
+    }
+
+    const result = await run();
+    if (!result.success) {
+      throw new Error(result.error || `Migration ${migration} failed`);
+    }
+    console.log(`Migration ${migration} finished:`, result.data);
+  }
+}
+
+export default new MigrationJobsService();
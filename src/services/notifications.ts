@@ -2,8 +2,12 @@ import messaging, { FirebaseMessagingTypes } from '@react-native-firebase/messag
 import { Platform, Alert, PermissionsAndroid } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { db } from '../config/firebase';
-import NotificationTemplates, { TemplateData } from './notifications/templates';
+import NotificationTemplates, { NotificationTemplate, TemplateData } from './notifications/templates';
 import SMSService from './notifications/sms';
+import EmailService, { notificationDocument } from './email';
+import DatabaseService from './database';
+import NotificationActions, { OPEN_NOTIFICATION } from './notifications/actions';
+import { DEFAULT_LANGUAGE, LanguageCode, isLanguageCode } from '../utils/languages';
 
 export interface NotificationData {
   id: string;
@@ -14,6 +18,12 @@ export interface NotificationData {
   groupId?: string;
   contributionId?: string;
   payoutId?: string;
+  swapId?: string;
+  pendingActionId?: string;
+  disputeId?: string;
+  scheduledNotificationId?: string; // the scheduled notification this was sent for
+  memberId?: string; // the member an admin notification is about
+  adminId?: string;
   data?: Record<string, any>;
   createdAt: Date;
   read: boolean;
@@ -21,18 +31,36 @@ export interface NotificationData {
   priority?: 'low' | 'normal' | 'high' | 'max';
   category?: string;
   scheduledFor?: Date;
+  pushEnabled?: boolean;
   smsEnabled?: boolean;
   emailEnabled?: boolean;
+  language?: LanguageCode; // the language the notification was sent in
 }
 
+// Records a notification is about; its action buttons act on them
+export type NotificationRefs = Pick<
+  NotificationData,
+  | 'contributionId'
+  | 'payoutId'
+  | 'swapId'
+  | 'pendingActionId'
+  | 'disputeId'
+  | 'scheduledNotificationId'
+  | 'memberId'
+  | 'adminId'
+>;
+
 export interface SendNotificationParams {
   templateId: string;
   userId: string;
   data: TemplateData;
+  sendPush?: boolean; // false sends only by SMS or email
   sendSMS?: boolean;
   sendEmail?: boolean;
   scheduleFor?: Date;
   groupId?: string;
+  language?: LanguageCode; // defaults to the recipient's language preference
+  refs?: NotificationRefs;
 }
 
 class NotificationService {
@@ -176,18 +204,38 @@ class NotificationService {
 
   // Handle foreground messages
   private handleForegroundMessage(remoteMessage: FirebaseMessagingTypes.RemoteMessage): void {
+    this.recordPushReceipt(remoteMessage.data, 'delivered');
     if (remoteMessage.notification) {
+      const actions = this.getMessageActions(remoteMessage);
       Alert.alert(
         remoteMessage.notification.title || 'Ajoturn',
         remoteMessage.notification.body || 'You have a new notification',
         [
           { text: 'Cancel', style: 'cancel' },
-          { text: 'View', onPress: () => this.handleNotificationOpened(remoteMessage) },
+          ...(actions.length > 0
+            ? actions.map(action => ({
+                text: action.title,
+                onPress: () => {
+                  this.recordPushReceipt(remoteMessage.data, 'opened');
+                  NotificationActions.enqueue(action.id, remoteMessage.data);
+                },
+              }))
+            : [{ text: 'View', onPress: () => this.handleNotificationOpened(remoteMessage) }]),
         ]
       );
     }
   }
 
+  // The template's buttons, sent along with the push
+  private getMessageActions(remoteMessage: FirebaseMessagingTypes.RemoteMessage): Array<{ id: string; title: string }> {
+    try {
+      const actions = remoteMessage.data?.actions;
+      return typeof actions === 'string' ? JSON.parse(actions) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
   // Handle background messages
   private async handleBackgroundMessage(remoteMessage: FirebaseMessagingTypes.RemoteMessage): Promise<void> {
     // Save notification to local storage for later processing
@@ -209,6 +257,14 @@ class NotificationService {
 
       notifications.unshift(newNotification);
       await AsyncStorage.setItem('stored_notifications', JSON.stringify(notifications.slice(0, 50))); // Keep last 50 notifications
+
+      await this.recordPushReceipt(remoteMessage.data, 'delivered');
+
+      // A button tapped while the app was in the background or not running
+      if (typeof remoteMessage.data?.actionId === 'string') {
+        await this.recordPushReceipt(remoteMessage.data, 'opened');
+        await NotificationActions.enqueue(remoteMessage.data.actionId, remoteMessage.data);
+      }
     } catch (error) {
       console.error('Error handling background message:', error);
     }
@@ -217,24 +273,30 @@ class NotificationService {
   // Handle notification opened
   private handleNotificationOpened(remoteMessage: FirebaseMessagingTypes.RemoteMessage): void {
     const data = remoteMessage.data;
-    
-    if (data?.type === 'contribution_due' && data?.groupId) {
-      // Navigate to group contributions screen
-      console.log('Navigate to contributions for group:', data.groupId);
-    } else if (data?.type === 'payout_ready' && data?.groupId) {
-      // Navigate to group payouts screen
-      console.log('Navigate to payouts for group:', data.groupId);
-    } else if (data?.type === 'group_update' && data?.groupId) {
-      // Navigate to group details screen
-      console.log('Navigate to group details:', data.groupId);
-    }
-    
+
+    // Runs the tapped button, or opens what the notification is about, once the app is ready
+    const actionId = typeof data?.actionId === 'string' ? data.actionId : OPEN_NOTIFICATION;
+    NotificationActions.enqueue(actionId, data);
+    this.recordPushReceipt(data, 'opened');
+
     // Mark notification as read if it has an ID
     if (data?.notificationId) {
       this.markNotificationAsRead(data.notificationId);
     }
   }
 
+  // Let the scheduler know a push it sent arrived or was opened, so it doesn't fall back to SMS
+  async recordPushReceipt(data: Record<string, unknown> | undefined, receipt: 'delivered' | 'opened'): Promise<void> {
+    if (typeof data?.scheduledNotificationId !== 'string') {
+      return;
+    }
+    try {
+      await DatabaseService.notifications.recordPushReceipt(data.scheduledNotificationId, receipt);
+    } catch (error) {
+      console.error('Error recording push receipt:', error);
+    }
+  }
+
   // Get stored notifications
   async getStoredNotifications(): Promise<NotificationData[]> {
     try {
@@ -262,10 +324,11 @@ class NotificationService {
   // Send notification using template
   async sendToUser(params: SendNotificationParams): Promise<boolean> {
     try {
-      const { templateId, userId, data, sendSMS = false, sendEmail = false, scheduleFor, groupId } = params;
-      
-      // Render template
-      const template = NotificationTemplates.renderTemplate(templateId, data);
+      const { templateId, userId, data, sendPush = true, sendSMS = false, sendEmail = false, scheduleFor, groupId } = params;
+      const language = params.language || (await this.getUserLanguage(userId));
+
+      // Render template in the recipient's language
+      const template = NotificationTemplates.renderTemplate(templateId, data, language);
       if (!template) {
         console.error(`Template not found: ${templateId}`);
         return false;
@@ -281,12 +344,15 @@ class NotificationService {
         priority: template.priority,
         category: template.category,
         groupId,
+        ...params.refs,
         data,
         createdAt: new Date(),
         read: false,
         scheduledFor,
+        pushEnabled: sendPush,
         smsEnabled: sendSMS,
         emailEnabled: sendEmail,
+        language,
       };
 
       if (scheduleFor && scheduleFor > new Date()) {
@@ -302,6 +368,13 @@ class NotificationService {
     }
   }
 
+  // The language a member asked to receive notifications in, English when unset
+  private async getUserLanguage(userId: string): Promise<LanguageCode> {
+    const result = await DatabaseService.users.getUserById(userId);
+    const language = result.data?.language;
+    return isLanguageCode(language) ? language : DEFAULT_LANGUAGE;
+  }
+
   // Send notification immediately
   private async sendImmediately(notificationData: Omit<NotificationData, 'id'>, template: any): Promise<boolean> {
     try {
@@ -310,25 +383,31 @@ class NotificationService {
       const notificationId = docRef.id;
 
       // Send push notification via FCM
-      await this.sendPushNotification(notificationData.userId, {
-        title: template.title,
-        body: template.body,
-        data: {
-          notificationId,
-          type: template.type,
-          groupId: notificationData.groupId || '',
-          ...notificationData.data,
-        },
-      });
+      if (notificationData.pushEnabled !== false) {
+        await this.sendPushNotification(notificationData.userId, {
+          title: template.title,
+          body: template.body,
+          data: {
+            notificationId,
+            type: template.type,
+            userId: notificationData.userId,
+            templateId: notificationData.templateId || '',
+            groupId: notificationData.groupId || '',
+            ...notificationData.data,
+            ...this.getPushRefs(notificationData),
+            actions: JSON.stringify((template.actions || []).map((action: any) => ({ id: action.id, title: action.title }))),
+          },
+        });
+      }
 
       // Send SMS if enabled and template has SMS content
       if (notificationData.smsEnabled && template.smsTemplate) {
         await this.sendSMS(notificationData.userId, template.smsTemplate);
       }
 
-      // Send email if enabled (would be implemented separately)
+      // Send email if enabled, as HTML and plain-text renderings of the template
       if (notificationData.emailEnabled) {
-        await this.sendEmail(notificationData.userId, template.title, template.body);
+        await this.sendEmail(notificationData.userId, template);
       }
 
       return true;
@@ -338,6 +417,23 @@ class NotificationService {
     }
   }
 
+  // The records a notification is about, for its action buttons to act on
+  private getPushRefs(notificationData: Omit<NotificationData, 'id'>): Record<string, string> {
+    const refs: NotificationRefs = {
+      contributionId: notificationData.contributionId,
+      payoutId: notificationData.payoutId,
+      swapId: notificationData.swapId,
+      pendingActionId: notificationData.pendingActionId,
+      disputeId: notificationData.disputeId,
+      scheduledNotificationId: notificationData.scheduledNotificationId,
+      memberId: notificationData.memberId,
+      adminId: notificationData.adminId,
+    };
+    return Object.fromEntries(
+      Object.entries(refs).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  }
+
   // Schedule notification for later delivery
   private async scheduleNotification(notificationData: Omit<NotificationData, 'id'>): Promise<boolean> {
     try {
@@ -397,25 +493,13 @@ class NotificationService {
     }
   }
 
-  // Send email (placeholder for future implementation)
-  private async sendEmail(userId: string, subject: string, body: string): Promise<boolean> {
-    try {
-      // Get user's email from database
-      const userDoc = await db.collection('users').doc(userId).get();
-      const userData = userDoc.data();
-      
-      if (!userData?.email) {
-        console.log(`No email found for user ${userId}`);
-        return false;
-      }
-
-      // Email implementation would go here
-      console.log(`Email would be sent to ${userData.email}: ${subject}`);
-      return true;
-    } catch (error) {
-      console.error('Error sending email:', error);
-      return false;
+  // Send email; skipped for members without an address, or whose address bounced or unsubscribed
+  private async sendEmail(userId: string, template: NotificationTemplate): Promise<boolean> {
+    const result = await EmailService.sendToUser(userId, notificationDocument(template));
+    if (!result.success) {
+      console.log(`Email not sent to user ${userId}: ${result.error}`);
     }
+    return result.success;
   }
 
   // Legacy method for backward compatibility
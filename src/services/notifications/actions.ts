@@ -0,0 +1,280 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BusinessLogicResult } from '../../types/business';
+import { MainStackParamList } from '../../navigation/types';
+import { getClock } from '../jobs/clock';
+
+// A screen in the main stack together with the params it needs
+export type NavigationTarget = {
+  [S in keyof MainStackParamList]: { screen: S; params: MainStackParamList[S] };
+}[keyof MainStackParamList];
+
+// The push payload's data, as delivered (FCM only carries strings)
+export type NotificationActionData = Record<string, string | undefined>;
+
+export interface NotificationActionRequest {
+  actionId: string; // a template action ID, or OPEN_NOTIFICATION when the body was tapped
+  data: NotificationActionData;
+  receivedAt: string; // ISO time the tap was recorded
+}
+
+export interface NotificationActionContext {
+  actionId: string;
+  userId: string; // the signed-in member acting on the notification
+  data: NotificationActionData;
+}
+
+export interface NotificationActionOutcome {
+  navigateTo?: NavigationTarget;
+  message?: string; // shown to the member once the action is done
+}
+
+export type NotificationActionHandler = (
+  context: NotificationActionContext
+) => Promise<BusinessLogicResult<NotificationActionOutcome>>;
+
+// What the dispatcher needs from the running app: a ready navigator and a way to give feedback
+export interface NotificationActionHost {
+  navigate(target: NavigationTarget): void;
+  showResult(message: string, success: boolean): void;
+}
+
+export const OPEN_NOTIFICATION = 'open';
+
+const PENDING_KEY = 'pending_notification_actions';
+const HANDLED_KEY = 'handled_notification_actions';
+const PENDING_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const HANDLED_HISTORY = 100;
+
+const requestKey = (request: NotificationActionRequest): string | null =>
+  request.data.notificationId ? `${request.data.notificationId}:${request.actionId}` : null;
+
+// The contribution a notification is about, or the member's payment history when it has no amount
+const paymentTarget = (data: NotificationActionData): NavigationTarget => {
+  const amount = Number(data.amount);
+  if (data.groupId && data.contributionId && Number.isFinite(amount) && amount > 0) {
+    return { screen: 'Payment', params: { groupId: data.groupId, contributionId: data.contributionId, amount } };
+  }
+  return { screen: 'PaymentHistory', params: { groupId: data.groupId || undefined } };
+};
+
+const groupTarget = (data: NotificationActionData): NavigationTarget =>
+  data.groupId
+    ? { screen: 'GroupDetails', params: { groupId: data.groupId, groupName: data.groupName } }
+    : { screen: 'Notifications', params: undefined };
+
+const memberTarget = (memberId: string | undefined, data: NotificationActionData): NavigationTarget =>
+  memberId ? { screen: 'MemberProfile', params: { userId: memberId, groupId: data.groupId || undefined } } : groupTarget(data);
+
+// The penalty dispute screen for a contribution
+const disputeTarget = (data: NotificationActionData): NavigationTarget =>
+  data.contributionId
+    ? { screen: 'PenaltyDispute', params: { contributionId: data.contributionId, groupId: data.groupId || undefined } }
+    : groupTarget(data);
+
+const navigateTo = (target: (data: NotificationActionData) => NavigationTarget): NotificationActionHandler =>
+  async ({ data }) => ({ success: true, data: { navigateTo: target(data) } });
+
+// Actions that only open a screen. Actions that change data are registered by the
+// business service that owns them, which also checks the member may take them.
+const NAVIGATION_ACTIONS: Record<string, NotificationActionHandler> = {
+  [OPEN_NOTIFICATION]: navigateTo(data => (data.contributionId ? paymentTarget(data) : groupTarget(data))),
+  view_payment: navigateTo(paymentTarget),
+  mark_paid: navigateTo(paymentTarget),
+  pay_now: navigateTo(paymentTarget),
+  pay_immediately: navigateTo(paymentTarget),
+  pay_total: navigateTo(paymentTarget),
+  pay_dues: navigateTo(paymentTarget),
+  dispute_penalty: navigateTo(disputeTarget),
+  view_dispute: navigateTo(disputeTarget),
+  view_receipt: navigateTo(data => ({ screen: 'PaymentHistory', params: { groupId: data.groupId || undefined } })),
+  view_details: navigateTo(groupTarget),
+  track_payout: navigateTo(groupTarget),
+  view_summary: navigateTo(groupTarget),
+  next_cycle: navigateTo(groupTarget),
+  view_schedule: navigateTo(groupTarget),
+  group_chat: navigateTo(groupTarget),
+  share_success: navigateTo(groupTarget),
+  view_withdrawal: navigateTo(groupTarget),
+  contact_admin: navigateTo(data => memberTarget(data.adminId, data)),
+  view_member: navigateTo(data => memberTarget(data.memberId, data)),
+  welcome_message: navigateTo(data => memberTarget(data.memberId, data)),
+  contact_member: navigateTo(data => memberTarget(data.memberId, data)),
+  prepare_account: navigateTo(() => ({ screen: 'Settings', params: undefined })),
+  check_account: navigateTo(() => ({ screen: 'Settings', params: undefined })),
+  update_now: navigateTo(() => ({ screen: 'Settings', params: undefined })),
+  remind_later: async () => ({ success: true, data: {} }),
+};
+
+/**
+ * Turn the result of a business service call into the outcome of a notification action
+ * @param result - What the service returned
+ * @param outcome - Feedback for the member when it succeeded
+ */
+export const actionOutcome = (
+  result: BusinessLogicResult<unknown>,
+  outcome: NotificationActionOutcome
+): BusinessLogicResult<NotificationActionOutcome> =>
+  result.success ? { success: true, data: outcome } : { success: false, error: result.error, code: result.code };
+
+/**
+ * Carries out the buttons on push notifications.
+ *
+ * A tap is written to a durable queue first, whatever state the app was in, and
+ * run once there is a signed-in member and a navigator to act with: straight away
+ * in the foreground, after start-up for a tap that launched the app. Each action
+ * ID maps to a screen or to a handler registered by the business service that
+ * owns it; those services check the member is allowed to take the action, and the
+ * dispatcher refuses notifications addressed to another account. A tap is handled
+ * at most once, and taps on handlers that never register are dropped after a week.
+ */
+export class NotificationActionDispatcher {
+  private handlers = new Map<string, NotificationActionHandler>(Object.entries(NAVIGATION_ACTIONS));
+  private host: NotificationActionHost | null = null;
+  private userId: string | null = null;
+  private processing: Promise<void> = Promise.resolve();
+
+  /**
+   * Register the function that carries out an action ID
+   * @param actionId - Template action ID
+   * @param handler - Called with the signed-in member and the notification's data
+   */
+  registerHandler(actionId: string, handler: NotificationActionHandler): void {
+    this.handlers.set(actionId, handler);
+    // Taps waiting on this handler can run now
+    this.processPending();
+  }
+
+  // Called once the navigator is ready; queued taps run from here on
+  attach(host: NotificationActionHost): void {
+    this.host = host;
+    this.processPending();
+  }
+
+  detach(): void {
+    this.host = null;
+  }
+
+  // Taps wait in the queue while nobody is signed in
+  setCurrentUser(userId: string | null): void {
+    this.userId = userId;
+    this.processPending();
+  }
+
+  /**
+   * Record a tap on a notification so it runs as soon as the app can.
+   * Safe to call from the background message handler.
+   * @param actionId - The button tapped, or OPEN_NOTIFICATION
+   * @param data - The notification's data payload
+   */
+  async enqueue(actionId: string, data: Record<string, unknown> = {}): Promise<void> {
+    try {
+      const request: NotificationActionRequest = {
+        actionId,
+        data: Object.fromEntries(
+          Object.entries(data).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        ),
+        receivedAt: getClock().now().toISOString(),
+      };
+
+      const key = requestKey(request);
+      const [pending, handled] = await Promise.all([this.getPending(), this.getHandled()]);
+      if (key && (handled.includes(key) || pending.some(queued => requestKey(queued) === key))) {
+        return;
+      }
+
+      await AsyncStorage.setItem(PENDING_KEY, JSON.stringify([...pending, request]));
+    } catch (error) {
+      console.error('Error queueing notification action:', error);
+    }
+    await this.processPending();
+  }
+
+  /**
+   * Run an action for a member
+   * @param request - The tapped action and the notification's data
+   * @param userId - Signed-in member
+   * @returns Where to navigate and what to tell the member
+   */
+  async dispatch(
+    request: Pick<NotificationActionRequest, 'actionId' | 'data'>,
+    userId: string
+  ): Promise<BusinessLogicResult<NotificationActionOutcome>> {
+    try {
+      const handler = this.handlers.get(request.actionId);
+      if (!handler) {
+        return { success: false, error: `Unknown notification action: ${request.actionId}`, code: 'UNKNOWN_ACTION' };
+      }
+      if (request.data.userId && request.data.userId !== userId) {
+        return { success: false, error: 'This notification was sent to another account', code: 'PERMISSION_DENIED' };
+      }
+
+      return await handler({ actionId: request.actionId, userId, data: request.data });
+    } catch (error) {
+      console.error(`Error running notification action ${request.actionId}:`, error);
+      return { success: false, error: 'Failed to complete the action', code: 'NOTIFICATION_ACTION_ERROR' };
+    }
+  }
+
+  // Run queued taps; calls are serialized so a tap never runs twice
+  processPending(): Promise<void> {
+    this.processing = this.processing.then(() => this.drain());
+    return this.processing;
+  }
+
+  private async drain(): Promise<void> {
+    const host = this.host;
+    const userId = this.userId;
+    if (!host || !userId) {
+      return;
+    }
+
+    try {
+      const pending = await this.getPending();
+      if (pending.length === 0) {
+        return;
+      }
+
+      const cutoff = getClock().now().getTime() - PENDING_TTL_MS;
+      const ready = pending.filter(request => this.handlers.has(request.actionId));
+      const waiting = pending.filter(
+        request => !this.handlers.has(request.actionId) && new Date(request.receivedAt).getTime() >= cutoff
+      );
+      await AsyncStorage.setItem(PENDING_KEY, JSON.stringify(waiting));
+      if (ready.length === 0) {
+        return;
+      }
+
+      const keys = ready.map(requestKey).filter((key): key is string => !!key);
+      const handled = await this.getHandled();
+      await AsyncStorage.setItem(HANDLED_KEY, JSON.stringify([...handled, ...keys].slice(-HANDLED_HISTORY)));
+
+      for (const request of ready) {
+        const result = await this.dispatch(request, userId);
+        if (!result.success) {
+          host.showResult(result.error || 'Failed to complete the action', false);
+          continue;
+        }
+        if (result.data?.navigateTo) {
+          host.navigate(result.data.navigateTo);
+        }
+        if (result.data?.message) {
+          host.showResult(result.data.message, true);
+        }
+      }
+    } catch (error) {
+      console.error('Error processing notification actions:', error);
+    }
+  }
+
+  private async getPending(): Promise<NotificationActionRequest[]> {
+    const stored = await AsyncStorage.getItem(PENDING_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private async getHandled(): Promise<string[]> {
+    const stored = await AsyncStorage.getItem(HANDLED_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+}
+
+export default new NotificationActionDispatcher();
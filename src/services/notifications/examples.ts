@@ -20,6 +20,7 @@ export async function setupPaymentRemindersExample() {
     groupId: 'group_abc',
     groupName: 'Savings Circle A',
     amount: 50000,
+    currency: 'NGN' as const,
     dueDate: new Date('2024-02-15'),
     cycle: 3,
   };
@@ -44,6 +45,7 @@ export async function sendImmediateReminderExample() {
     memberName: 'John Mukasa',
     groupName: 'Investment Group B',
     amount: 75000,
+    currency: 'NGN' as const,
     dueDate: new Date('2024-02-10'),
     daysLate: 3,
     adminMessage: 'Please contact admin if you need an extension',
@@ -182,6 +184,7 @@ export async function latePaymentEscalationExample() {
     memberName: 'Peter Ssali',
     groupName: 'Construction Workers Group',
     amount: 30000,
+    currency: 'NGN',
     dueDate: new Date('2024-02-10'),
     daysLate: 1,
     previousWarnings: 0,
@@ -195,6 +198,7 @@ export async function latePaymentEscalationExample() {
     memberName: 'Peter Ssali',
     groupName: 'Construction Workers Group',
     amount: 30000,
+    currency: 'NGN',
     dueDate: new Date('2024-02-10'),
     daysLate: 5,
     previousWarnings: 1,
@@ -211,6 +215,7 @@ export async function latePaymentEscalationExample() {
     adminId: 'user_admin3',
     daysLate: 10,
     amount: 30000,
+    currency: 'NGN',
   });
   console.log('🚫 Day 10 overdue: Account suspended, admin notified');
 }
@@ -228,6 +233,7 @@ export async function bulkNotificationsExample() {
       groupId: 'group_bulk',
       groupName: 'Monthly Savers',
       amount: 40000,
+      currency: 'NGN' as const,
       dueDate: new Date('2024-03-01'),
       cycle: 1,
     },
@@ -238,6 +244,7 @@ export async function bulkNotificationsExample() {
       groupId: 'group_bulk',
       groupName: 'Monthly Savers',
       amount: 40000,
+      currency: 'NGN' as const,
       dueDate: new Date('2024-03-01'),
       cycle: 1,
     },
@@ -246,7 +253,7 @@ export async function bulkNotificationsExample() {
 
   const result = await PaymentReminderService.setupBulkReminders(contributions);
   
-  if (result.success) {
+  if (result.success && result.data) {
     console.log(`✅ Bulk reminders setup: ${result.data.remindersSent}/${result.data.totalReminders} successful`);
     console.log('📅 All members will receive reminders on:');
     console.log('   - February 26th (3 days before)');
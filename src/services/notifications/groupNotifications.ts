@@ -368,6 +368,132 @@ class GroupNotificationService {
     }
   }
 
+  // Notify the members involved in a turn swap as it moves through the marketplace
+  async notifyTurnSwap(params: {
+    groupId: string;
+    groupName: string;
+    event: 'proposed' | 'awaiting_approval' | 'completed' | 'declined' | 'rejected';
+    swapId?: string;
+    requesterId: string;
+    requesterName: string;
+    requesterCycle: number;
+    counterpartyId: string;
+    counterpartyName: string;
+    counterpartyCycle: number;
+    adminId?: string;
+  }): Promise<BusinessLogicResult<boolean>> {
+    try {
+      const {
+        groupId,
+        groupName,
+        event,
+        swapId,
+        requesterId,
+        requesterName,
+        requesterCycle,
+        counterpartyId,
+        counterpartyName,
+        counterpartyCycle,
+        adminId,
+      } = params;
+
+      switch (event) {
+        case 'proposed':
+          await NotificationService.sendToUser({
+            templateId: 'turn_swap_proposed',
+            userId: counterpartyId,
+            data: { swapMemberName: requesterName, fromCycle: requesterCycle, toCycle: counterpartyCycle, groupName },
+            sendSMS: true,
+            groupId,
+            refs: { swapId },
+          });
+          break;
+
+        case 'awaiting_approval':
+          if (adminId) {
+            await NotificationService.sendToUser({
+              templateId: 'admin_turn_swap_approval',
+              userId: adminId,
+              data: {
+                memberName: requesterName,
+                swapMemberName: counterpartyName,
+                fromCycle: requesterCycle,
+                toCycle: counterpartyCycle,
+                groupName,
+              },
+              sendSMS: false,
+              groupId,
+              refs: { swapId, memberId: requesterId },
+            });
+          }
+          break;
+
+        case 'completed':
+          // Each party now holds the other's cycle
+          await Promise.all([
+            NotificationService.sendToUser({
+              templateId: 'turn_swap_completed',
+              userId: requesterId,
+              data: { swapMemberName: counterpartyName, cycle: counterpartyCycle, groupName },
+              sendSMS: true,
+              groupId,
+            }),
+            NotificationService.sendToUser({
+              templateId: 'turn_swap_completed',
+              userId: counterpartyId,
+              data: { swapMemberName: requesterName, cycle: requesterCycle, groupName },
+              sendSMS: true,
+              groupId,
+            }),
+          ]);
+          break;
+
+        case 'declined':
+          await NotificationService.sendToUser({
+            templateId: 'turn_swap_declined',
+            userId: requesterId,
+            data: { swapMemberName: counterpartyName, fromCycle: requesterCycle, groupName },
+            sendSMS: false,
+            groupId,
+          });
+          break;
+
+        case 'rejected':
+          await Promise.all([
+            NotificationService.sendToUser({
+              templateId: 'turn_swap_rejected',
+              userId: requesterId,
+              data: { swapMemberName: counterpartyName, cycle: requesterCycle, groupName },
+              sendSMS: false,
+              groupId,
+            }),
+            NotificationService.sendToUser({
+              templateId: 'turn_swap_rejected',
+              userId: counterpartyId,
+              data: { swapMemberName: requesterName, cycle: counterpartyCycle, groupName },
+              sendSMS: false,
+              groupId,
+            }),
+          ]);
+          break;
+      }
+
+      console.log(`✅ Sent turn swap ${event} notification for group ${groupName}`);
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      console.error('Error notifying turn swap:', error);
+      return {
+        success: false,
+        error: 'Failed to send turn swap notification',
+        code: 'TURN_SWAP_NOTIFICATION_ERROR',
+      };
+    }
+  }
+
   // Send general announcements to group
   async sendGroupAnnouncement(params: {
     groupId: string;
@@ -431,7 +557,7 @@ class GroupNotificationService {
 
       // Get group members and their contribution schedule
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) return;
+      if (!membersResult.success || !membersResult.data) return;
 
       const members = membersResult.data.items;
 
@@ -443,9 +569,9 @@ class GroupNotificationService {
 
         // Get member details for personalized messages
         const userResult = await DatabaseService.users.getUserById(member.user_id);
-        if (!userResult.success) continue;
+        if (!userResult.success || !userResult.data) continue;
 
-        const memberName = userResult.data.displayName || userResult.data.email;
+        const memberName = userResult.data.name || userResult.data.email;
 
         // This would integrate with PaymentReminderService for comprehensive scheduling
         console.log(`Scheduled first cycle notifications for ${memberName} in ${groupName}`);
@@ -469,7 +595,7 @@ class GroupNotificationService {
 
       // Get group members
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) return;
+      if (!membersResult.success || !membersResult.data) return;
 
       const members = membersResult.data.items.filter(
         member => member.user_id !== excludeUserId
@@ -4,8 +4,10 @@ import PaymentReminderService from './paymentReminders';
 import PayoutNotificationService from './payoutNotifications';
 import GroupNotificationService from './groupNotifications';
 import SMSService from './sms';
+import EmailService, { EmailAddress, EmailTransport } from '../email';
 import NotificationTemplates from './templates';
 import LatePaymentMonitor from '../business/latePaymentMonitor';
+import JobRunner from '../jobs/jobRunner';
 
 export interface NotificationConfig {
   enablePushNotifications: boolean;
@@ -15,6 +17,9 @@ export interface NotificationConfig {
   smsApiKey?: string;
   smsApiSecret?: string;
   smsSenderId?: string;
+  emailTransport?: EmailTransport; // e.g. an SmtpTransport; emails are captured in memory without one
+  emailFrom?: EmailAddress;
+  emailUnsubscribeUrl?: string;
   schedulerEnabled: boolean;
   latePaymentMonitorEnabled: boolean;
 }
@@ -24,7 +29,7 @@ class NotificationManager {
   private config: NotificationConfig = {
     enablePushNotifications: true,
     enableSMSNotifications: true,
-    enableEmailNotifications: false,
+    enableEmailNotifications: true,
     smsProvider: 'mock',
     smsSenderId: 'AJOTURN',
     schedulerEnabled: true,
@@ -71,6 +76,18 @@ class NotificationManager {
         }
       }
 
+      // Initialize email service
+      if (this.config.enableEmailNotifications) {
+        EmailService.initialize({
+          ...(this.config.emailFrom ? { from: this.config.emailFrom } : {}),
+          unsubscribeUrl: this.config.emailUnsubscribeUrl,
+        });
+        if (this.config.emailTransport) {
+          EmailService.setTransport(this.config.emailTransport);
+        }
+        console.log('✅ Email Service initialized');
+      }
+
       // Initialize notification scheduler
       if (this.config.schedulerEnabled) {
         NotificationScheduler.start();
@@ -83,6 +100,9 @@ class NotificationManager {
         console.log('✅ Late Payment Monitor started');
       }
 
+      // Persisted jobs (e.g. turn rotations) run even when both are disabled
+      JobRunner.start();
+
       this.isInitialized = true;
       console.log('🎉 Notification Manager fully initialized');
 
@@ -111,6 +131,8 @@ class NotificationManager {
         console.log('✅ Late Payment Monitor stopped');
       }
 
+      JobRunner.stop();
+
       this.isInitialized = false;
       console.log('✅ Notification Manager shutdown complete');
     } catch (error) {
@@ -298,11 +320,14 @@ class NotificationManager {
       const smsStatus = this.config.enableSMSNotifications ? 
         SMSService.isConfigured() : 'disabled';
 
+      const emailStatus = this.config.enableEmailNotifications ? EmailService.getTransport().id : 'disabled';
+
       const schedulerStatus = this.config.schedulerEnabled ? 'running' : 'disabled';
 
       console.log('📊 Diagnostic Results:');
       console.log(`  Push Notifications: ${pushStatus}`);
       console.log(`  SMS Service: ${smsStatus}`);
+      console.log(`  Email Transport: ${emailStatus}`);
       console.log(`  Scheduler: ${schedulerStatus}`);
       console.log(`  Templates: ${NotificationTemplates.getAllTemplates().length} loaded`);
 
@@ -328,6 +353,7 @@ class NotificationManager {
       payoutNotifications: PayoutNotificationService,
       groupNotifications: GroupNotificationService,
       sms: SMSService,
+      email: EmailService,
       templates: NotificationTemplates,
       latePaymentMonitor: LatePaymentMonitor,
     };
@@ -345,6 +371,7 @@ export {
   PayoutNotificationService,
   GroupNotificationService,
   SMSService,
+  EmailService,
   NotificationTemplates,
   LatePaymentMonitor,
 };
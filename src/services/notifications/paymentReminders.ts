@@ -3,6 +3,7 @@ import DatabaseService from '../database';
 import NotificationScheduler from './scheduler';
 import NotificationService from '../notifications';
 import { TemplateData } from './templates';
+import { CurrencyCode, localeFor, money, multiplyMoney, toMajor } from '../../utils/money';
 
 export interface PaymentReminderConfig {
   enabledReminderTypes: ('3_days_before' | 'due_date' | '2_days_overdue')[];
@@ -36,6 +37,7 @@ class PaymentReminderService {
     groupId: string;
     groupName: string;
     amount: number;
+    currency: CurrencyCode;
     dueDate: Date;
     cycle: number;
     config?: Partial<PaymentReminderConfig>;
@@ -48,6 +50,7 @@ class PaymentReminderService {
         groupId, 
         groupName, 
         amount, 
+        currency,
         dueDate, 
         cycle,
         config = {}
@@ -65,6 +68,7 @@ class PaymentReminderService {
         memberName,
         groupName,
         amount,
+        currency,
         dueDate,
         sendSMS: reminderConfig.sendSMS,
       });
@@ -101,6 +105,7 @@ class PaymentReminderService {
     memberName: string;
     groupName: string;
     amount: number;
+    currency: CurrencyCode;
     dueDate: Date;
     daysLate?: number;
     adminMessage?: string;
@@ -113,6 +118,7 @@ class PaymentReminderService {
         memberName, 
         groupName, 
         amount, 
+        currency,
         dueDate, 
         daysLate = 0,
         adminMessage,
@@ -125,7 +131,8 @@ class PaymentReminderService {
         memberName,
         groupName,
         amount,
-        dueDate: dueDate.toLocaleDateString(),
+        currency,
+        dueDate: dueDate.toLocaleDateString(localeFor(currency)),
         daysLate,
       };
 
@@ -143,6 +150,7 @@ class PaymentReminderService {
         userId: memberId,
         data: templateData,
         sendSMS,
+        refs: { contributionId },
       });
 
       if (success) {
@@ -173,6 +181,7 @@ class PaymentReminderService {
     groupId: string;
     groupName: string;
     amount: number;
+    currency: CurrencyCode;
     dueDate: Date;
     cycle: number;
   }>): Promise<BusinessLogicResult<ReminderStats>> {
@@ -274,18 +283,20 @@ class PaymentReminderService {
     memberName: string;
     groupName: string;
     amount: number;
+    currency: CurrencyCode;
     dueDate: Date;
     daysLate: number;
     previousWarnings: number;
   }): Promise<BusinessLogicResult<boolean>> {
     try {
-      const { memberId, memberName, groupName, amount, daysLate, previousWarnings } = params;
+      const { memberId, memberName, groupName, amount, currency, daysLate, previousWarnings } = params;
 
       let templateId: string;
       const templateData: TemplateData = {
         memberName,
         groupName,
         amount,
+        currency,
         daysLate,
         warningCount: previousWarnings + 1,
       };
@@ -294,7 +305,7 @@ class PaymentReminderService {
       if (daysLate >= 7 || previousWarnings >= 2) {
         templateId = 'penalty_applied';
         // Calculate penalty amount (5% of contribution)
-        templateData.penaltyAmount = amount * 0.05;
+        templateData.penaltyAmount = toMajor(multiplyMoney(money(amount, currency), 0.05));
       } else {
         templateId = 'late_payment_warning';
       }
@@ -304,6 +315,7 @@ class PaymentReminderService {
         userId: memberId,
         data: templateData,
         sendSMS: true, // Always send SMS for overdue notifications
+        refs: { contributionId: params.contributionId },
       });
 
       if (success) {
@@ -330,12 +342,15 @@ class PaymentReminderService {
     try {
       // Store user preferences in database
       const result = await DatabaseService.users.updateUserPreferences(userId, {
-        notificationPreferences: {
-          paymentReminders: preferences,
-        },
+        reminder_preferences: preferences,
       });
 
-      return result;
+      return {
+        success: result.success,
+        data: result.success,
+        error: result.error,
+        code: result.code,
+      };
     } catch (error) {
       console.error('Error updating reminder preferences:', error);
       return {
@@ -359,7 +374,8 @@ class PaymentReminderService {
         };
       }
 
-      const preferences = userResult.data.notificationPreferences?.paymentReminders || this.defaultConfig;
+      const preferences =
+        (userResult.data.reminder_preferences as PaymentReminderConfig | undefined) || this.defaultConfig;
 
       return {
         success: true,
@@ -383,10 +399,12 @@ class PaymentReminderService {
     groupId: string;
     groupName: string;
     adminId: string;
+    amount: number;
+    currency: CurrencyCode;
     daysLate: number;
   }): Promise<BusinessLogicResult<boolean>> {
     try {
-      const { memberId, memberName, groupName, adminId, daysLate } = params;
+      const { contributionId, memberId, memberName, groupId, groupName, adminId, amount, currency, daysLate } = params;
 
       // Notify admin about persistent late payment
       if (daysLate >= 5) {
@@ -399,6 +417,8 @@ class PaymentReminderService {
             daysLate,
           },
           sendSMS: false, // Don't SMS admin for this
+          groupId,
+          refs: { contributionId, memberId },
         });
       }
 
@@ -410,9 +430,12 @@ class PaymentReminderService {
           memberName,
           groupName,
           daysLate,
-          penaltyAmount: params.amount * 0.05 * Math.min(daysLate, 30), // Max 150% penalty
+          currency,
+          penaltyAmount: toMajor(multiplyMoney(money(amount, currency), 0.05 * Math.min(daysLate, 30))), // Max 150% penalty
         },
         sendSMS: true,
+        groupId,
+        refs: { contributionId, adminId },
       });
 
       return {
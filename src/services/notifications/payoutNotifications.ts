@@ -3,6 +3,7 @@ import DatabaseService from '../database';
 import NotificationService from '../notifications';
 import NotificationScheduler from './scheduler';
 import { TemplateData } from './templates';
+import { CurrencyCode } from '../../utils/money';
 
 export interface PayoutNotificationData {
   recipientId: string;
@@ -11,6 +12,7 @@ export interface PayoutNotificationData {
   groupName: string;
   cycle: number;
   payoutAmount: number;
+  currency?: CurrencyCode;
   processingDate: Date;
   completionDate?: Date;
   payoutMethod: 'bank_transfer' | 'mobile_money' | 'cash' | 'cheque';
@@ -39,6 +41,7 @@ class PayoutNotificationService {
     groupName: string;
     cycle: number;
     expectedPayoutAmount: number;
+    currency?: CurrencyCode;
     expectedDate: Date;
     sendToGroup?: boolean;
   }): Promise<BusinessLogicResult<boolean>> {
@@ -50,6 +53,7 @@ class PayoutNotificationService {
         groupName, 
         cycle, 
         expectedPayoutAmount, 
+        currency,
         expectedDate,
         sendToGroup = true 
       } = params;
@@ -62,6 +66,7 @@ class PayoutNotificationService {
           recipientName,
           groupName,
           payoutAmount: expectedPayoutAmount,
+          currency,
           cycle,
         },
         sendSMS: true,
@@ -79,6 +84,7 @@ class PayoutNotificationService {
             groupName,
             cycle,
             payoutAmount: expectedPayoutAmount,
+            currency,
           },
         });
       }
@@ -109,6 +115,7 @@ class PayoutNotificationService {
         groupName, 
         cycle, 
         payoutAmount, 
+        currency,
         processingDate 
       } = params;
 
@@ -125,6 +132,7 @@ class PayoutNotificationService {
         recipientName,
         groupName,
         payoutAmount,
+        currency,
         cycle,
       };
 
@@ -175,7 +183,7 @@ class PayoutNotificationService {
   // Send payout processing notification
   async notifyPayoutProcessing(params: PayoutNotificationData): Promise<BusinessLogicResult<boolean>> {
     try {
-      const { recipientId, recipientName, groupName, payoutAmount, payoutMethod } = params;
+      const { recipientId, recipientName, groupId, groupName, payoutAmount, currency, payoutMethod } = params;
 
       await NotificationService.sendToUser({
         templateId: 'payout_processing',
@@ -184,8 +192,10 @@ class PayoutNotificationService {
           recipientName,
           groupName,
           payoutAmount,
+          currency,
         },
         sendSMS: true,
+        groupId,
       });
 
       // Log payout processing start
@@ -216,8 +226,10 @@ class PayoutNotificationService {
       const { 
         recipientId, 
         recipientName, 
+        groupId,
         groupName, 
         payoutAmount, 
+        currency,
         actualAmount,
         transactionId,
         payoutMethod 
@@ -232,8 +244,10 @@ class PayoutNotificationService {
           recipientName,
           groupName,
           payoutAmount: finalAmount,
+          currency,
         },
         sendSMS: true,
+        groupId,
       });
 
       // Log payout completion
@@ -264,28 +278,22 @@ class PayoutNotificationService {
     retryDate?: Date; 
   }): Promise<BusinessLogicResult<boolean>> {
     try {
-      const { recipientId, recipientName, groupName, payoutAmount, reason, retryDate } = params;
+      const { recipientId, recipientName, groupId, groupName, payoutAmount, currency, reason, retryDate } = params;
 
-      // Use a custom template for payout failures
       await NotificationService.sendToUser({
-        templateId: 'admin_member_needs_help', // Repurpose admin template
+        templateId: 'payout_failed',
         userId: recipientId,
         data: {
-          memberName: recipientName,
+          recipientName,
           groupName,
-          // Custom message for payout failure
+          payoutAmount,
+          currency,
+          reason: retryDate ? `${reason}. It will be tried again on ${retryDate.toLocaleDateString()}` : reason,
         },
         sendSMS: true,
+        groupId,
       });
 
-      // Send detailed SMS with failure reason
-      const failureMessage = `Payout failed for ${groupName}: ${reason}. ${
-        retryDate ? `We'll retry on ${retryDate.toLocaleDateString()}.` : 'Please contact admin.'
-      } Amount: UGX ${payoutAmount.toLocaleString()}`;
-
-      // This would use the SMS service directly for custom message
-      console.log(`📱 Payout failure SMS: ${failureMessage}`);
-
       // Log payout failure
       await this.logPayoutEvent(params, 'failed', undefined, reason);
 
@@ -305,6 +313,47 @@ class PayoutNotificationService {
     }
   }
 
+  // Tell the recipient their payout is short and what is still owed to them, or that
+  // the reserve fund has covered some of it
+  async notifyPayoutShortfall(params: PayoutNotificationData & {
+    owedAmount: number;
+    advancedAmount?: number;
+  }): Promise<BusinessLogicResult<boolean>> {
+    try {
+      const { recipientId, recipientName, groupId, groupName, cycle, payoutAmount, currency, owedAmount, advancedAmount } = params;
+
+      await NotificationService.sendToUser({
+        templateId: advancedAmount ? 'payout_reserve_advance' : 'payout_shortfall',
+        userId: recipientId,
+        data: {
+          recipientName,
+          groupName,
+          cycle,
+          payoutAmount,
+          owedAmount,
+          amount: advancedAmount,
+          currency,
+        },
+        sendSMS: true,
+        groupId,
+      });
+
+      await this.logPayoutEvent(params, advancedAmount ? 'reserve_advanced' : 'shortfall_recorded');
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      console.error('Error notifying payout shortfall:', error);
+      return {
+        success: false,
+        error: 'Failed to notify payout shortfall',
+        code: 'SHORTFALL_ERROR',
+      };
+    }
+  }
+
   // Notify group about cycle completion and payout
   async notifyCycleCompletion(params: {
     groupId: string;
@@ -313,6 +362,7 @@ class PayoutNotificationService {
     recipientId: string;
     recipientName: string;
     payoutAmount: number;
+    currency?: CurrencyCode;
     nextRecipientId?: string;
     nextRecipientName?: string;
   }): Promise<BusinessLogicResult<boolean>> {
@@ -323,6 +373,7 @@ class PayoutNotificationService {
         cycle, 
         recipientName, 
         payoutAmount, 
+        currency,
         nextRecipientId,
         nextRecipientName 
       } = params;
@@ -336,6 +387,7 @@ class PayoutNotificationService {
           cycle,
           recipientName,
           payoutAmount,
+          currency,
         },
       });
 
@@ -348,6 +400,7 @@ class PayoutNotificationService {
           groupName,
           cycle: cycle + 1,
           expectedPayoutAmount: payoutAmount, // Assuming same amount
+          currency,
           expectedDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
           sendToGroup: false, // Already notified above
         });
@@ -375,11 +428,12 @@ class PayoutNotificationService {
     groupName: string;
     recipientName: string;
     payoutAmount: number;
+    currency?: CurrencyCode;
     status: 'initiated' | 'processing' | 'completed' | 'failed';
     details?: string;
   }): Promise<BusinessLogicResult<boolean>> {
     try {
-      const { adminId, groupName, recipientName, payoutAmount, status, details } = params;
+      const { adminId, groupName, recipientName, payoutAmount, currency, status, details } = params;
 
       await NotificationService.sendToUser({
         templateId: 'admin_payment_confirmed', // Repurpose admin template
@@ -388,6 +442,7 @@ class PayoutNotificationService {
           memberName: recipientName,
           groupName,
           amount: payoutAmount,
+          currency,
         },
         sendSMS: false, // Don't SMS admin for status updates
       });
@@ -457,7 +512,7 @@ class PayoutNotificationService {
 
       // Get group members
       const membersResult = await DatabaseService.groupMembers.getGroupMembers(groupId);
-      if (!membersResult.success) return;
+      if (!membersResult.success || !membersResult.data) return;
 
       const members = membersResult.data.items.filter(
         member => member.user_id !== excludeUserId
@@ -0,0 +1,292 @@
+import { BusinessLogicResult } from '../../types/business';
+import DatabaseService, {
+  NotificationChannel,
+  NotificationDeliveryPreferences,
+  NotificationPreferenceCategory,
+  ScheduledNotification,
+} from '../database';
+import { NotificationTemplate } from './templates';
+
+export const DEFAULT_DELIVERY_PREFERENCES: NotificationDeliveryPreferences = {
+  channels: {},
+  timezone: 'Africa/Lagos',
+  delivery: 'immediate',
+  digest_time: '19:00',
+};
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['push', 'sms', 'email'];
+
+export const PREFERENCE_CATEGORY_LABELS: Record<NotificationPreferenceCategory, string> = {
+  payments: 'Payment reminders',
+  late_payments: 'Late payments & penalties',
+  payouts: 'Payouts',
+  group: 'Group activity',
+  admin: 'Admin alerts',
+  system: 'App updates',
+};
+
+export const MIN_FALLBACK_MINUTES = 5;
+export const MAX_FALLBACK_MINUTES = 24 * 60;
+
+// Template categories members choose channels for together
+const TEMPLATE_CATEGORIES: Record<string, NotificationPreferenceCategory> = {
+  reminder: 'payments',
+  confirmation: 'payments',
+  urgent: 'late_payments',
+  warning: 'late_payments',
+  penalty: 'late_payments',
+  payout: 'payouts',
+  group: 'group',
+  group_update: 'group',
+  turn_swap: 'group',
+  milestone: 'group',
+  success: 'group',
+  admin: 'admin',
+  admin_urgent: 'admin',
+  system: 'system',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+export const preferenceCategoryOf = (templateCategory?: string): NotificationPreferenceCategory =>
+  (templateCategory && TEMPLATE_CATEGORIES[templateCategory]) || 'system';
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    return !!new Intl.DateTimeFormat('en-GB', { timeZone: timezone }).resolvedOptions().timeZone;
+  } catch {
+    return false;
+  }
+};
+
+// 'HH:mm' -> minutes past midnight
+const minutesOf = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes past midnight at a moment, on the clock in a time zone
+const localMinutes = (at: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value || 0);
+  return part('hour') * 60 + part('minute');
+};
+
+/**
+ * The next moment a time zone's clock shows `time`, from `after` on
+ * (the current minute counts). Assumes the zone's offset doesn't change in between.
+ */
+export const nextLocalTime = (time: string, timezone: string, after: Date): Date => {
+  const minutes = (minutesOf(time) - localMinutes(after, timezone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const minuteStart = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS;
+  return new Date(minuteStart + minutes * MINUTE_MS);
+};
+
+export const isQuietTime = (preferences: NotificationDeliveryPreferences, at: Date): boolean => {
+  if (!preferences.quiet_hours) {
+    return false;
+  }
+  const now = localMinutes(at, preferences.timezone);
+  const start = minutesOf(preferences.quiet_hours.start);
+  const end = minutesOf(preferences.quiet_hours.end);
+  // Quiet hours like 22:00-07:00 run past midnight
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+// What to do with a due scheduled notification
+export type DeliveryPlan =
+  | { action: 'skip'; reason: string }
+  | { action: 'defer'; until: Date; digest?: boolean }
+  | { action: 'send'; channels: NotificationChannel[]; fallback?: { channels: NotificationChannel[]; at: Date } };
+
+/**
+ * Decide how a due scheduled notification reaches the member.
+ *
+ * Channels come from the member's priority for the template's category, or the
+ * ones it was scheduled with. Urgent ('max' priority) notifications ignore quiet
+ * hours and the digest, and go by push even when the category is muted. With
+ * SMS fallback on, a push-first category sends only the push; the other channels
+ * follow if it hasn't been opened in time.
+ * @param notification - The due notification
+ * @param template - Its template, for the category and priority
+ * @param now - Current time
+ */
+export const planDelivery = (
+  preferences: NotificationDeliveryPreferences,
+  notification: ScheduledNotification,
+  template: Pick<NotificationTemplate, 'category' | 'priority'>,
+  now: Date
+): DeliveryPlan => {
+  const urgent = template.priority === 'max';
+  const requested: NotificationChannel[] = [
+    'push',
+    ...(notification.sendSMS ? (['sms'] as const) : []),
+    ...(notification.sendEmail ? (['email'] as const) : []),
+  ];
+  const channels =
+    notification.fallbackChannels || preferences.channels[preferenceCategoryOf(template.category)] || requested;
+
+  if (channels.length === 0) {
+    if (!urgent) {
+      return { action: 'skip', reason: 'Muted in member preferences' };
+    }
+    return { action: 'send', channels: ['push'] };
+  }
+  if (urgent) {
+    return { action: 'send', channels };
+  }
+
+  if (isQuietTime(preferences, now)) {
+    return { action: 'defer', until: nextLocalTime(preferences.quiet_hours!.end, preferences.timezone, now) };
+  }
+  if (preferences.delivery === 'daily_digest' && template.priority !== 'high' && !notification.fallbackFor) {
+    return { action: 'defer', until: nextLocalTime(preferences.digest_time, preferences.timezone, now), digest: true };
+  }
+
+  if (preferences.sms_fallback_minutes && channels[0] === 'push' && channels.length > 1 && !notification.fallbackFor) {
+    return {
+      action: 'send',
+      channels: ['push'],
+      fallback: { channels: channels.slice(1), at: new Date(now.getTime() + preferences.sms_fallback_minutes * MINUTE_MS) },
+    };
+  }
+  return { action: 'send', channels };
+};
+
+const validatePreferences = (preferences: NotificationDeliveryPreferences): string | null => {
+  for (const [category, channels = []] of Object.entries(preferences.channels)) {
+    if (!(category in PREFERENCE_CATEGORY_LABELS)) {
+      return `Unknown notification category: ${category}`;
+    }
+    if (channels.some(channel => !NOTIFICATION_CHANNELS.includes(channel))) {
+      return `Unknown channel for ${PREFERENCE_CATEGORY_LABELS[category as NotificationPreferenceCategory]}`;
+    }
+    if (new Set(channels).size !== channels.length) {
+      return `Each channel can only be listed once for ${PREFERENCE_CATEGORY_LABELS[category as NotificationPreferenceCategory]}`;
+    }
+  }
+  if (!isValidTimezone(preferences.timezone)) {
+    return `Unknown time zone: ${preferences.timezone}`;
+  }
+  if (preferences.quiet_hours && ![preferences.quiet_hours.start, preferences.quiet_hours.end].every(time => TIME_PATTERN.test(time))) {
+    return 'Quiet hours must be times like 22:00';
+  }
+  if (!TIME_PATTERN.test(preferences.digest_time)) {
+    return 'The digest time must be a time like 19:00';
+  }
+  if (preferences.delivery !== 'immediate' && preferences.delivery !== 'daily_digest') {
+    return 'Delivery must be immediate or a daily digest';
+  }
+  const fallback = preferences.sms_fallback_minutes;
+  if (
+    fallback !== undefined &&
+    (!Number.isInteger(fallback) || fallback < MIN_FALLBACK_MINUTES || fallback > MAX_FALLBACK_MINUTES)
+  ) {
+    return `SMS fallback must be between ${MIN_FALLBACK_MINUTES} minutes and ${MAX_FALLBACK_MINUTES / 60} hours`;
+  }
+  return null;
+};
+
+/**
+ * Each member's choices for how scheduled notifications reach them: channel
+ * priority per category, quiet hours in their time zone, immediate delivery or a
+ * daily digest, and falling back to SMS when a push goes unopened.
+ * NotificationScheduler applies them through planDelivery.
+ */
+class NotificationPreferenceService {
+  /**
+   * Get a member's delivery preferences, with defaults for anything unset
+   */
+  async getPreferences(userId: string): Promise<BusinessLogicResult<NotificationDeliveryPreferences>> {
+    try {
+      const userResult = await DatabaseService.users.getUserById(userId);
+      if (!userResult.success || !userResult.data) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND',
+        };
+      }
+
+      return {
+        success: true,
+        data: { ...DEFAULT_DELIVERY_PREFERENCES, ...userResult.data.delivery_preferences },
+      };
+    } catch (error) {
+      console.error('Error getting delivery preferences:', error);
+      return {
+        success: false,
+        error: 'Failed to get preferences',
+        code: 'GET_PREFERENCES_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Change some of a member's delivery preferences
+   * @param updates - Settings to change; `quiet_hours` or `sms_fallback_minutes` set to undefined turns them off
+   * @returns The member's preferences after the change
+   */
+  async updatePreferences(
+    userId: string,
+    updates: Partial<NotificationDeliveryPreferences>
+  ): Promise<BusinessLogicResult<NotificationDeliveryPreferences>> {
+    try {
+      const currentResult = await this.getPreferences(userId);
+      if (!currentResult.success || !currentResult.data) {
+        return currentResult;
+      }
+
+      const preferences: NotificationDeliveryPreferences = {
+        ...currentResult.data,
+        ...updates,
+        // A category set to undefined goes back to the channels notifications are scheduled with
+        channels: Object.fromEntries(
+          Object.entries({ ...currentResult.data.channels, ...updates.channels }).filter(([, channels]) => channels)
+        ),
+      };
+      const problem = validatePreferences(preferences);
+      if (problem) {
+        return {
+          success: false,
+          error: problem,
+          code: 'INVALID_PREFERENCES',
+        };
+      }
+
+      // Written whole, so settings turned off are removed
+      const stored = Object.fromEntries(
+        Object.entries(preferences).filter(([, value]) => value !== undefined)
+      ) as NotificationDeliveryPreferences;
+      const result = await DatabaseService.users.updateUser(userId, { delivery_preferences: stored });
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          code: result.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: stored,
+      };
+    } catch (error) {
+      console.error('Error updating delivery preferences:', error);
+      return {
+        success: false,
+        error: 'Failed to update preferences',
+        code: 'PREFERENCES_ERROR',
+      };
+    }
+  }
+}
+
+export default new NotificationPreferenceService();
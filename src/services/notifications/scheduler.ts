@@ -1,25 +1,19 @@
 import { BusinessLogicResult } from '../../types/business';
-import DatabaseService from '../database';
+import DatabaseService, { NotificationDeliveryPreferences, ScheduledNotification } from '../database';
 import NotificationService from '../notifications';
-import { TemplateData } from './templates';
-
-export interface ScheduledNotification {
-  id: string;
-  templateId: string;
-  userId: string;
-  groupId?: string;
-  data: TemplateData;
-  scheduledFor: Date;
-  status: 'pending' | 'sent' | 'failed' | 'cancelled';
-  sendSMS: boolean;
-  sendEmail: boolean;
-  attempts: number;
-  maxAttempts: number;
-  lastAttempt?: Date;
-  error?: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+import NotificationTemplates, { TemplateData } from './templates';
+import NotificationPreferences, {
+  DEFAULT_DELIVERY_PREFERENCES,
+  isQuietTime,
+  nextLocalTime,
+  planDelivery,
+} from './preferences';
+import JobRunner from '../jobs/jobRunner';
+import { getClock } from '../jobs/clock';
+import { CurrencyCode, localeFor } from '../../utils/money';
+import { DEFAULT_LANGUAGE, isLanguageCode } from '../../utils/languages';
+
+export type { ScheduledNotification };
 
 export interface PaymentReminderSchedule {
   contributionId: string;
@@ -35,12 +29,17 @@ export interface PaymentReminderSchedule {
   };
 }
 
+const DELIVERY_JOB = 'scheduled_notifications';
+
 class NotificationScheduler {
   private isRunning = false;
-  private intervalId: NodeJS.Timeout | null = null;
   private readonly CHECK_INTERVAL = 60000; // Check every minute
 
-  // Start the scheduler
+  constructor() {
+    JobRunner.registerHandler(DELIVERY_JOB, () => this.processScheduledNotifications());
+  }
+
+  // Start the scheduler; due notifications are sent by a recurring job
   start(): void {
     if (this.isRunning) {
       console.log('Notification scheduler is already running');
@@ -49,20 +48,14 @@ class NotificationScheduler {
 
     this.isRunning = true;
     console.log('Starting notification scheduler...');
-    
-    // Process immediately, then set interval
-    this.processScheduledNotifications();
-    this.intervalId = setInterval(() => {
-      this.processScheduledNotifications();
-    }, this.CHECK_INTERVAL);
+
+    JobRunner.scheduleRecurring(DELIVERY_JOB, this.CHECK_INTERVAL);
+    JobRunner.start();
   }
 
   // Stop the scheduler
   stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
+    JobRunner.unscheduleRecurring(DELIVERY_JOB);
     this.isRunning = false;
     console.log('Notification scheduler stopped');
   }
@@ -76,12 +69,14 @@ class NotificationScheduler {
     sendSMS?: boolean;
     sendEmail?: boolean;
     groupId?: string;
+    contributionId?: string;
   }): Promise<BusinessLogicResult<ScheduledNotification>> {
     try {
       const notification: Omit<ScheduledNotification, 'id'> = {
         templateId: params.templateId,
         userId: params.userId,
         groupId: params.groupId,
+        contributionId: params.contributionId,
         data: params.data,
         scheduledFor: params.scheduledFor,
         status: 'pending',
@@ -100,7 +95,7 @@ class NotificationScheduler {
         console.log(`Notification scheduled for ${params.scheduledFor}: ${params.templateId}`);
         return {
           success: true,
-          data: result.data as ScheduledNotification,
+          data: result.data,
         };
       }
 
@@ -127,11 +122,12 @@ class NotificationScheduler {
     memberName: string;
     groupName: string;
     amount: number;
+    currency: CurrencyCode;
     dueDate: Date;
     sendSMS?: boolean;
   }): Promise<BusinessLogicResult<PaymentReminderSchedule>> {
     try {
-      const { contributionId, memberId, groupId, memberName, groupName, amount, dueDate, sendSMS = false } = params;
+      const { contributionId, memberId, groupId, memberName, groupName, amount, currency, dueDate, sendSMS = false } = params;
 
       // Calculate reminder dates
       const threeDaysBefore = new Date(dueDate);
@@ -153,7 +149,8 @@ class NotificationScheduler {
         memberName,
         groupName,
         amount,
-        dueDate: dueDate.toLocaleDateString(),
+        currency,
+        dueDate: dueDate.toLocaleDateString(localeFor(currency)),
       };
 
       const reminderSchedule: PaymentReminderSchedule = {
@@ -204,6 +201,7 @@ class NotificationScheduler {
           scheduledFor: reminder.scheduledFor,
           sendSMS,
           groupId,
+          contributionId,
         });
       }
 
@@ -230,11 +228,12 @@ class NotificationScheduler {
     groupId: string;
     groupName: string;
     payoutAmount: number;
+    currency: CurrencyCode;
     processingDate: Date;
     sendSMS?: boolean;
   }): Promise<BusinessLogicResult<boolean>> {
     try {
-      const { recipientId, recipientName, groupId, groupName, payoutAmount, processingDate, sendSMS = true } = params;
+      const { recipientId, recipientName, groupId, groupName, payoutAmount, currency, processingDate, sendSMS = true } = params;
 
       // Schedule "You're next" notification (send now if payout is today, otherwise 1 day before)
       const nextNotificationDate = processingDate <= new Date() 
@@ -248,6 +247,7 @@ class NotificationScheduler {
           recipientName,
           groupName,
           payoutAmount,
+          currency,
         },
         scheduledFor: nextNotificationDate,
         sendSMS,
@@ -265,6 +265,7 @@ class NotificationScheduler {
           recipientName,
           groupName,
           payoutAmount,
+          currency,
         },
         scheduledFor: processingNotificationDate,
         sendSMS,
@@ -309,10 +310,10 @@ class NotificationScheduler {
     }
   }
 
-  // Process scheduled notifications (called by the scheduler)
-  private async processScheduledNotifications(): Promise<void> {
+  // Process scheduled notifications (called by the recurring job)
+  async processScheduledNotifications(): Promise<void> {
     try {
-      const now = new Date();
+      const now = getClock().now();
       
       // Get all pending notifications that are due
       const result = await DatabaseService.notifications.getDueNotifications(now);
@@ -329,24 +330,67 @@ class NotificationScheduler {
 
       console.log(`Processing ${dueNotifications.length} due notifications`);
 
-      // Process each notification
+      // Process each notification; ones held for a digest go out together per member
+      const digests = new Map<string, ScheduledNotification[]>();
       for (const notification of dueNotifications) {
-        await this.sendScheduledNotification(notification);
+        if (notification.digest) {
+          digests.set(notification.userId, [...(digests.get(notification.userId) || []), notification]);
+        } else {
+          await this.sendScheduledNotification(notification);
+        }
+      }
+
+      for (const [userId, notifications] of digests) {
+        await this.sendDigest(userId, notifications);
       }
     } catch (error) {
       console.error('Error processing scheduled notifications:', error);
     }
   }
 
-  // Send a scheduled notification
+  // Send a scheduled notification the way the member prefers: on their channels for
+  // its category, outside their quiet hours, or held for their daily digest
   private async sendScheduledNotification(notification: ScheduledNotification): Promise<void> {
     try {
+      const now = getClock().now();
+
+      // A fallback only goes out if the push it follows wasn't opened
+      if (notification.fallbackFor) {
+        const pushResult = await DatabaseService.notifications.getScheduledNotificationById(notification.fallbackFor);
+        if (pushResult.data?.openedAt) {
+          await DatabaseService.notifications.updateScheduledNotification(notification.id, {
+            status: 'cancelled',
+            error: 'Push was opened',
+          });
+          return;
+        }
+      }
+
+      const preferences = await this.getDeliveryPreferences(notification.userId);
+      const template = NotificationTemplates.getTemplate(notification.templateId) || { priority: 'normal' as const };
+      const plan = planDelivery(preferences, notification, template, now);
+
+      if (plan.action === 'skip') {
+        await DatabaseService.notifications.updateScheduledNotification(notification.id, {
+          status: 'cancelled',
+          error: plan.reason,
+        });
+        return;
+      }
+      if (plan.action === 'defer') {
+        await DatabaseService.notifications.updateScheduledNotification(notification.id, {
+          scheduledFor: plan.until,
+          ...(plan.digest ? { digest: true } : {}),
+        });
+        return;
+      }
+
       // Update attempts count
       const updatedNotification = {
         ...notification,
         attempts: notification.attempts + 1,
-        lastAttempt: new Date(),
-        updatedAt: new Date(),
+        lastAttempt: now,
+        updatedAt: now,
       };
 
       // Send the notification
@@ -354,9 +398,11 @@ class NotificationScheduler {
         templateId: notification.templateId,
         userId: notification.userId,
         data: notification.data,
-        sendSMS: notification.sendSMS,
-        sendEmail: notification.sendEmail,
+        sendPush: plan.channels.includes('push'),
+        sendSMS: plan.channels.includes('sms'),
+        sendEmail: plan.channels.includes('email'),
         groupId: notification.groupId,
+        refs: { contributionId: notification.contributionId, scheduledNotificationId: notification.id },
       });
 
       if (success) {
@@ -364,6 +410,27 @@ class NotificationScheduler {
         updatedNotification.status = 'sent';
         await DatabaseService.notifications.updateScheduledNotification(notification.id, updatedNotification);
         console.log(`✅ Sent scheduled notification: ${notification.templateId} to ${notification.userId}`);
+
+        // The member's other channels, in case the push goes unopened
+        if (plan.fallback) {
+          await DatabaseService.notifications.scheduleNotification({
+            templateId: notification.templateId,
+            userId: notification.userId,
+            groupId: notification.groupId,
+            contributionId: notification.contributionId,
+            data: notification.data,
+            scheduledFor: plan.fallback.at,
+            status: 'pending',
+            sendSMS: plan.fallback.channels.includes('sms'),
+            sendEmail: plan.fallback.channels.includes('email'),
+            attempts: 0,
+            maxAttempts: notification.maxAttempts,
+            fallbackFor: notification.id,
+            fallbackChannels: plan.fallback.channels,
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
       } else {
         // Check if we should retry
         if (updatedNotification.attempts >= notification.maxAttempts) {
@@ -393,6 +460,67 @@ class NotificationScheduler {
     }
   }
 
+  // Send a member's held notifications as one digest
+  private async sendDigest(userId: string, notifications: ScheduledNotification[]): Promise<void> {
+    try {
+      const now = getClock().now();
+      const preferences = await this.getDeliveryPreferences(userId);
+
+      // Switched back to immediate delivery since these were held
+      if (preferences.delivery !== 'daily_digest') {
+        for (const notification of notifications) {
+          await this.sendScheduledNotification({ ...notification, digest: false });
+        }
+        return;
+      }
+
+      if (isQuietTime(preferences, now)) {
+        const quietEnd = nextLocalTime(preferences.quiet_hours!.end, preferences.timezone, now);
+        for (const notification of notifications) {
+          await DatabaseService.notifications.updateScheduledNotification(notification.id, { scheduledFor: quietEnd });
+        }
+        return;
+      }
+
+      const userResult = await DatabaseService.users.getUserById(userId);
+      const language = isLanguageCode(userResult.data?.language) ? userResult.data!.language! : DEFAULT_LANGUAGE;
+      const titles = notifications
+        .map(notification => NotificationTemplates.renderTemplate(notification.templateId, notification.data, language)?.title)
+        .filter((title): title is string => !!title);
+
+      const success = await NotificationService.sendToUser({
+        templateId: 'notification_digest',
+        userId,
+        data: { notificationCount: titles.length, digestSummary: titles.join('; ') },
+        language,
+      });
+
+      for (const notification of notifications) {
+        const updates: Partial<ScheduledNotification> = {
+          attempts: notification.attempts + 1,
+          lastAttempt: now,
+        };
+        if (success) {
+          updates.status = 'sent';
+        } else if (updates.attempts! >= notification.maxAttempts) {
+          updates.status = 'failed';
+          updates.error = 'Max attempts reached';
+        } else {
+          updates.error = 'Digest failed, will retry';
+        }
+        await DatabaseService.notifications.updateScheduledNotification(notification.id, updates);
+      }
+    } catch (error) {
+      console.error('Error sending notification digest:', error);
+    }
+  }
+
+  // The member's delivery preferences; defaults if they can't be loaded
+  private async getDeliveryPreferences(userId: string): Promise<NotificationDeliveryPreferences> {
+    const result = await NotificationPreferences.getPreferences(userId);
+    return result.data || DEFAULT_DELIVERY_PREFERENCES;
+  }
+
   // Get scheduled notifications for a user
   async getUserScheduledNotifications(userId: string): Promise<BusinessLogicResult<ScheduledNotification[]>> {
     try {
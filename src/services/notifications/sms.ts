@@ -1,3 +1,5 @@
+import { CurrencyCode, DEFAULT_CURRENCY, formatCompactAmount } from '../../utils/money';
+
 interface SMSConfig {
   provider: 'twilio' | 'africas_talking' | 'mock';
   apiKey?: string;
@@ -277,15 +279,9 @@ class SMSService {
   }
 
   // Format currency for SMS messages
-  formatCurrencyForSMS(amount: number): string {
+  formatCurrencyForSMS(amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): string {
     // Use a shorter format suitable for SMS
-    if (amount >= 1000000) {
-      return `UGX ${(amount / 1000000).toFixed(1)}M`;
-    } else if (amount >= 1000) {
-      return `UGX ${(amount / 1000).toFixed(0)}K`;
-    } else {
-      return `UGX ${amount}`;
-    }
+    return formatCompactAmount(amount, currency);
   }
 
   // Create short URL for SMS (if needed)
@@ -0,0 +1,200 @@
+import { CurrencyCode, DEFAULT_CURRENCY, formatAmount } from '../../utils/money';
+import { DEFAULT_LANGUAGE, LanguageCode, PluralCategory, getLanguage, localeForLanguage } from '../../utils/languages';
+
+/**
+ * Notification template engine
+ *
+ * Templates are plain text with tags in double braces:
+ *   {{memberName}}                                 a variable, formatted by its kind
+ *   {{#if reason}}: {{reason}}{{else}}.{{/if}}     shown when the variable is set (non-empty, non-zero)
+ *   {{plural daysLate one="# day" other="# days"}} the form for the count in the template's language; # is the count
+ *
+ * Templates are parsed once when they are loaded, so syntax errors surface
+ * then rather than when a notification is sent.
+ */
+
+// How a variable's value is formatted
+export type VariableKind = 'text' | 'number' | 'money' | 'date';
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'plural'; name: string; forms: Partial<Record<PluralCategory, string>> };
+
+export interface RenderOptions {
+  kinds: Record<string, VariableKind>;
+  language?: LanguageCode;
+  currency?: CurrencyCode;
+  channel?: 'push' | 'sms'; // SMS uses currency codes and numeric dates so the text stays GSM-7
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+const TAG = /\{\{\s*(.*?)\s*\}\}/g;
+const NAME = /^\w+$/;
+const PLURAL_FORM = /(one|other)="([^"]*)"/g;
+
+/**
+ * Parse a template into nodes
+ * @throws TemplateSyntaxError for unknown tags and unbalanced blocks
+ */
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const blocks: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const block = blocks[blocks.length - 1];
+    return block ? (block.inElse ? block.node.otherwise : block.node.then) : root;
+  };
+
+  let last = 0;
+  for (const match of source.matchAll(TAG)) {
+    if (match.index! > last) {
+      current().push({ type: 'text', value: source.slice(last, match.index) });
+    }
+    last = match.index! + match[0].length;
+
+    const tag = match[1];
+    if (tag.startsWith('#if ')) {
+      const name = tag.slice(4).trim();
+      if (!NAME.test(name)) {
+        throw new TemplateSyntaxError(`Invalid condition "${tag}"`);
+      }
+      const node: TemplateNode = { type: 'if', name, then: [], otherwise: [] };
+      current().push(node);
+      blocks.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const block = blocks[blocks.length - 1];
+      if (!block || block.inElse) {
+        throw new TemplateSyntaxError('{{else}} outside an {{#if}} block');
+      }
+      block.inElse = true;
+    } else if (tag === '/if') {
+      if (!blocks.pop()) {
+        throw new TemplateSyntaxError('{{/if}} without an {{#if}}');
+      }
+    } else if (tag.startsWith('plural ')) {
+      const [name, ...rest] = tag.slice(7).trim().split(' ');
+      const forms: Partial<Record<PluralCategory, string>> = {};
+      for (const [, category, text] of rest.join(' ').matchAll(PLURAL_FORM)) {
+        forms[category as PluralCategory] = text;
+      }
+      if (!NAME.test(name) || forms.other === undefined) {
+        throw new TemplateSyntaxError(`Plural "${tag}" needs a count and an other="..." form`);
+      }
+      current().push({ type: 'plural', name, forms });
+    } else if (NAME.test(tag)) {
+      current().push({ type: 'variable', name: tag });
+    } else {
+      throw new TemplateSyntaxError(`Unknown tag "{{${tag}}}"`);
+    }
+  }
+
+  if (blocks.length > 0) {
+    throw new TemplateSyntaxError(`{{#if ${blocks[blocks.length - 1].node.name}}} is not closed`);
+  }
+  if (last < source.length) {
+    root.push({ type: 'text', value: source.slice(last) });
+  }
+  return root;
+};
+
+/**
+ * Every variable a template refers to, including conditions and plural counts
+ */
+export const templateVariables = (nodes: TemplateNode[], found: Set<string> = new Set()): Set<string> => {
+  for (const node of nodes) {
+    if (node.type === 'if') {
+      found.add(node.name);
+      templateVariables(node.then, found);
+      templateVariables(node.otherwise, found);
+    } else if (node.type !== 'text') {
+      found.add(node.name);
+    }
+  }
+  return found;
+};
+
+const isSet = (value: unknown): boolean => value !== undefined && value !== null && value !== '' && value !== 0 && value !== false;
+
+const formatValue = (value: unknown, kind: VariableKind, options: RenderOptions): string => {
+  const language = options.language || DEFAULT_LANGUAGE;
+  const currency = options.currency || DEFAULT_CURRENCY;
+  const locale = localeForLanguage(language, currency);
+
+  switch (kind) {
+    case 'money':
+      return typeof value === 'number'
+        ? formatAmount(value, currency, { locale, showCode: options.channel === 'sms' })
+        : String(value);
+    case 'number':
+      return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : String(value);
+    case 'date':
+      if (!(value instanceof Date)) {
+        return String(value);
+      }
+      return options.channel === 'sms'
+        ? value.toLocaleDateString(locale, { day: 'numeric', month: 'numeric', year: 'numeric' })
+        : value.toLocaleDateString(locale, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Render parsed nodes with the data for one notification. Variables without
+ * a value render as nothing.
+ */
+export const renderNodes = (nodes: TemplateNode[], data: Record<string, unknown>, options: RenderOptions): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'variable': {
+          const value = data[node.name];
+          return value === undefined || value === null ? '' : formatValue(value, options.kinds[node.name] || 'text', options);
+        }
+        case 'if':
+          return renderNodes(isSet(data[node.name]) ? node.then : node.otherwise, data, options);
+        case 'plural': {
+          const count = Number(data[node.name] ?? 0);
+          const category = getLanguage(options.language).plural(count);
+          const form = node.forms[category] ?? node.forms.other ?? '';
+          return form.replace(/#/g, formatValue(count, 'number', options));
+        }
+      }
+    })
+    .join('');
+
+// GSM 03.38: the basic set costs one character, the extension set two
+const GSM7_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM7_EXTENSION = '^{}\\[~]|€\f';
+
+export const SMS_SEGMENT_LIMITS = { gsm7: 160, ucs2: 70 } as const;
+
+/**
+ * Length of a message as an SMS counts it, and what one segment holds. Any
+ * character outside GSM-7 (an emoji, a tone-marked Yoruba vowel) sends the
+ * whole message as UCS-2, which fits 70 characters instead of 160.
+ */
+export const smsLength = (text: string): { length: number; limit: number; encoding: 'gsm7' | 'ucs2' } => {
+  let length = 0;
+  for (const char of text) {
+    if (GSM7_BASIC.includes(char)) {
+      length += 1;
+    } else if (GSM7_EXTENSION.includes(char)) {
+      length += 2;
+    } else {
+      const units = Array.from(text).reduce((sum, c) => sum + c.length, 0);
+      return { length: units, limit: SMS_SEGMENT_LIMITS.ucs2, encoding: 'ucs2' };
+    }
+  }
+  return { length, limit: SMS_SEGMENT_LIMITS.gsm7, encoding: 'gsm7' };
+};
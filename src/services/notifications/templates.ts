@@ -1,3 +1,8 @@
+import { CurrencyCode } from '../../utils/money';
+import { DEFAULT_LANGUAGE, LanguageCode } from '../../utils/languages';
+import { TemplateNode, VariableKind, parseTemplate, renderNodes, smsLength, templateVariables } from './templateEngine';
+import TRANSLATIONS, { TemplateTranslation, TemplateTranslations } from './translations';
+
 export interface NotificationTemplate {
   id: string;
   type: string;
@@ -21,7 +26,7 @@ export interface TemplateData {
   memberName?: string;
   groupName?: string;
   amount?: number;
-  dueDate?: string;
+  dueDate?: string | Date; // Dates are formatted for the member's language
   daysLate?: number;
   cycle?: number;
   recipientName?: string;
@@ -29,14 +34,102 @@ export interface TemplateData {
   adminName?: string;
   payoutAmount?: number;
   penaltyAmount?: number;
+  owedAmount?: number; // part of a payout still owed to the recipient
   warningCount?: number;
+  swapMemberName?: string;
+  fromCycle?: number;
+  toCycle?: number;
+  actionSummary?: string; // what an approval request will do, e.g. "Remove Bola Ade from the group"
+  approvalsNeeded?: number;
+  reason?: string; // why a receipt or withdrawal was turned down, or a payout failed
+  startTime?: string | Date;
+  endTime?: string | Date;
+  notificationCount?: number;
+  digestSummary?: string; // titles of the notifications a daily digest collects
+  currency?: CurrencyCode; // amounts and dates are formatted for the group's currency; NGN when unset
+}
+
+// How each variable is formatted; templates may only use these
+const VARIABLE_KINDS: Record<Exclude<keyof TemplateData, 'currency'>, VariableKind> = {
+  memberName: 'text',
+  groupName: 'text',
+  amount: 'money',
+  dueDate: 'date',
+  daysLate: 'number',
+  cycle: 'number',
+  recipientName: 'text',
+  joinedMemberName: 'text',
+  adminName: 'text',
+  payoutAmount: 'money',
+  penaltyAmount: 'money',
+  owedAmount: 'money',
+  warningCount: 'number',
+  swapMemberName: 'text',
+  fromCycle: 'number',
+  toCycle: 'number',
+  actionSummary: 'text',
+  approvalsNeeded: 'number',
+  reason: 'text',
+  startTime: 'date',
+  endTime: 'date',
+  notificationCount: 'number',
+  digestSummary: 'text',
+};
+
+// Long but realistic values, used to check every SMS fits in one segment
+const SMS_SAMPLE_DATA: TemplateData = {
+  memberName: 'Oluwaseun Adebayo',
+  groupName: 'Market Women Ajo',
+  amount: 250000,
+  dueDate: new Date('2026-12-28T00:00:00Z'),
+  daysLate: 14,
+  cycle: 12,
+  recipientName: 'Chiamaka Okonkwo',
+  joinedMemberName: 'Abubakar Musa',
+  adminName: 'Ngozi Eze',
+  payoutAmount: 3000000,
+  penaltyAmount: 25000,
+  owedAmount: 750000,
+  warningCount: 3,
+  swapMemberName: 'Folake Adeyemi',
+  fromCycle: 11,
+  toCycle: 12,
+  actionSummary: 'Remove Bola Ade from the group',
+  approvalsNeeded: 3,
+  reason: 'Account name does not match',
+  currency: 'NGN',
+};
+
+// One template's text parsed for one language
+interface CompiledText {
+  title: TemplateNode[];
+  body: TemplateNode[];
+  sms?: TemplateNode[];
 }
 
+/**
+ * Notification templates in every supported language
+ *
+ * Templates are written in English; translations override a template's
+ * title, body, SMS text and action titles, and anything a translation leaves
+ * out is sent in English. Everything is parsed and checked when the templates
+ * load: unknown variables, translations that drop or add variables, and SMS
+ * text that would not fit in one segment.
+ */
 class NotificationTemplates {
   private templates: Map<string, NotificationTemplate> = new Map();
+  private translations: Map<LanguageCode, TemplateTranslations> = new Map();
+  private compiled: Map<string, CompiledText> = new Map(); // keyed by `${language}:${templateId}`
 
   constructor() {
     this.initializeTemplates();
+    const problems = this.validateTemplates();
+    (Object.keys(TRANSLATIONS) as (keyof typeof TRANSLATIONS)[]).forEach(language => {
+      problems.push(...this.addTranslations(language, TRANSLATIONS[language]));
+    });
+    if (problems.length > 0) {
+      throw new Error(`Invalid notification templates:\n${problems.join('\n')}`);
+    }
   }
 
   private initializeTemplates(): void {
@@ -75,7 +168,7 @@ class NotificationTemplates {
       id: 'payment_overdue_2_days',
       type: 'payment_overdue',
       title: '⚠️ Payment Overdue!',
-      body: 'Hi {{memberName}}! Your payment of {{amount}} for {{groupName}} is {{daysLate}} days overdue. Please pay immediately to avoid penalties.',
+      body: 'Hi {{memberName}}! Your payment of {{amount}} for {{groupName}} is {{plural daysLate one="# day" other="# days"}} overdue. Please pay immediately to avoid penalties.',
       icon: 'error',
       priority: 'max',
       category: 'urgent',
@@ -83,7 +176,91 @@ class NotificationTemplates {
         { id: 'pay_immediately', title: 'Pay Now', icon: 'payment' },
         { id: 'explain_delay', title: 'Explain Delay', icon: 'message' },
       ],
-      smsTemplate: 'OVERDUE: Your {{amount}} payment for {{groupName}} is {{daysLate}} days late. Pay immediately to avoid penalties.',
+      smsTemplate: 'OVERDUE: Your {{amount}} payment for {{groupName}} is {{plural daysLate one="# day" other="# days"}} late. Pay immediately to avoid penalties.',
+    });
+
+    this.addTemplate({
+      id: 'receipt_rejected',
+      type: 'payment_reminder',
+      title: 'Receipt Not Accepted',
+      body: 'Hi {{memberName}}! The receipt you attached for your {{groupName}} contribution was not accepted: {{reason}}. Please attach another one.',
+      icon: 'receipt',
+      priority: 'high',
+      category: 'reminder',
+      actions: [
+        { id: 'view_payment', title: 'View Details', icon: 'visibility' },
+      ],
+    });
+
+    this.addTemplate({
+      id: 'installment_plan_agreed',
+      type: 'payment_reminder',
+      title: 'Installment Plan Agreed',
+      body: 'Hi {{memberName}}! You can pay the rest of your {{groupName}} contribution in installments. The first, {{amount}}, is due {{dueDate}}.',
+      icon: 'event-note',
+      priority: 'normal',
+      category: 'reminder',
+      actions: [
+        { id: 'view_payment', title: 'View Plan', icon: 'visibility' },
+      ],
+    });
+
+    this.addTemplate({
+      id: 'payment_extension_granted',
+      type: 'payment_reminder',
+      title: 'Payment Extension Granted',
+      body: 'Hi {{memberName}}! Your {{groupName}} contribution of {{amount}} is now due {{dueDate}}. No late fees apply until then.',
+      icon: 'schedule',
+      priority: 'normal',
+      category: 'reminder',
+      actions: [
+        { id: 'pay_now', title: 'Pay Now', icon: 'payment' },
+      ],
+      smsTemplate: 'Extension granted: your {{amount}} for {{groupName}} is now due {{dueDate}}.',
+    });
+
+    // Wallet Notifications
+    this.addTemplate({
+      id: 'wallet_contribution_paid',
+      type: 'payment_confirmed',
+      title: 'Paid From Your Wallet',
+      body: 'Hi {{memberName}}! {{amount}} from your {{groupName}} wallet has gone toward your cycle {{cycle}} contribution.',
+      icon: 'account-balance-wallet',
+      priority: 'normal',
+      category: 'confirmation',
+    });
+
+    this.addTemplate({
+      id: 'wallet_withdrawal_requested',
+      type: 'admin_alert',
+      title: 'Withdrawal Request',
+      body: '{{memberName}} has asked to withdraw {{amount}} from their {{groupName}} wallet.',
+      icon: 'account-balance-wallet',
+      priority: 'normal',
+      category: 'admin',
+      actions: [
+        { id: 'view_withdrawal', title: 'Review', icon: 'visibility' },
+      ],
+    });
+
+    this.addTemplate({
+      id: 'wallet_withdrawal_approved',
+      type: 'payment_confirmed',
+      title: 'Withdrawal Approved',
+      body: 'Hi {{memberName}}! Your withdrawal of {{amount}} from your {{groupName}} wallet has been approved.',
+      icon: 'account-balance-wallet',
+      priority: 'normal',
+      category: 'confirmation',
+    });
+
+    this.addTemplate({
+      id: 'wallet_withdrawal_rejected',
+      type: 'payment_reminder',
+      title: 'Withdrawal Not Approved',
+      body: 'Hi {{memberName}}! Your withdrawal of {{amount}} from your {{groupName}} wallet was not approved: {{reason}}. The money is still in your wallet.',
+      icon: 'account-balance-wallet',
+      priority: 'normal',
+      category: 'reminder',
     });
 
     // Payout Notifications
@@ -106,7 +283,7 @@ class NotificationTemplates {
       id: 'payout_processing',
       type: 'payout_processing',
       title: '💸 Payout Processing',
-      body: 'Hi {{recipientName}}! Your payout of {{payoutAmount}} from {{groupName}} is being processed. You should receive it shortly.',
+      body: 'Hi {{recipientName}}! Your payout of {{payoutAmount}} from {{groupName}} has been sent. Please confirm in the app once it reaches your account.',
       icon: 'sync',
       priority: 'high',
       category: 'payout',
@@ -114,7 +291,51 @@ class NotificationTemplates {
         { id: 'track_payout', title: 'Track Payout', icon: 'track_changes' },
         { id: 'contact_admin', title: 'Contact Admin', icon: 'support_agent' },
       ],
-      smsTemplate: 'Your payout of {{payoutAmount}} from {{groupName}} is being processed. You should receive it shortly.',
+      smsTemplate: 'Your payout of {{payoutAmount}} from {{groupName}} has been sent. Confirm in Ajoturn once it arrives.',
+    });
+
+    this.addTemplate({
+      id: 'payout_failed',
+      type: 'payout_failed',
+      title: '⚠️ Payout Not Sent',
+      body: 'Hi {{recipientName}}, your payout of {{payoutAmount}} from {{groupName}} could not be sent{{#if reason}}: {{reason}}{{/if}}. Your admin will try again; check your payout account is correct.',
+      icon: 'error',
+      priority: 'high',
+      category: 'payout',
+      actions: [
+        { id: 'check_account', title: 'Check Account', icon: 'account_balance' },
+        { id: 'contact_admin', title: 'Contact Admin', icon: 'support_agent' },
+      ],
+      smsTemplate: 'Your {{groupName}} payout of {{payoutAmount}} could not be sent{{#if reason}}: {{reason}}{{/if}}. Please check your payout account in Ajoturn.',
+    });
+
+    this.addTemplate({
+      id: 'payout_shortfall',
+      type: 'payout_shortfall',
+      title: '📉 Partial Payout',
+      body: 'Hi {{recipientName}}, not every member of {{groupName}} paid in full for cycle {{cycle}}. Your payout is {{payoutAmount}} and {{owedAmount}} is still owed to you.',
+      icon: 'pie_chart',
+      priority: 'high',
+      category: 'payout',
+      actions: [
+        { id: 'view_details', title: 'View Details', icon: 'info' },
+        { id: 'contact_admin', title: 'Contact Admin', icon: 'support_agent' },
+      ],
+      smsTemplate: 'Your {{groupName}} cycle {{cycle}} payout is {{payoutAmount}}; {{owedAmount}} is still owed to you.',
+    });
+
+    this.addTemplate({
+      id: 'payout_reserve_advance',
+      type: 'payout_shortfall',
+      title: '💰 Payout Topped Up',
+      body: 'Hi {{recipientName}}, {{amount}} from the {{groupName}} reserve fund has been added to your cycle {{cycle}} payout, which is now {{payoutAmount}}.{{#if owedAmount}} Still owed to you: {{owedAmount}}.{{/if}}',
+      icon: 'savings',
+      priority: 'high',
+      category: 'payout',
+      actions: [
+        { id: 'view_details', title: 'View Details', icon: 'info' },
+      ],
+      smsTemplate: '{{amount}} from the {{groupName}} reserve was added to your payout, now {{payoutAmount}}.{{#if owedAmount}} Still owed: {{owedAmount}}.{{/if}}',
     });
 
     this.addTemplate({
@@ -178,6 +399,56 @@ class NotificationTemplates {
       smsTemplate: '{{groupName}} is now complete! First cycle begins soon. Get ready to start saving together!',
     });
 
+    // Turn Swap Notifications
+    this.addTemplate({
+      id: 'turn_swap_proposed',
+      type: 'group_update',
+      title: '🔁 Turn Swap Request',
+      body: '{{swapMemberName}} would like to swap their cycle {{fromCycle}} payout for your cycle {{toCycle}} payout in {{groupName}}.',
+      icon: 'swap_horiz',
+      priority: 'high',
+      category: 'turn_swap',
+      actions: [
+        { id: 'accept_swap', title: 'Accept', icon: 'check' },
+        { id: 'decline_swap', title: 'Decline', icon: 'close' },
+      ],
+      smsTemplate: '{{swapMemberName}} wants to swap turns in {{groupName}}: their cycle {{fromCycle}} for your cycle {{toCycle}}. Open Ajoturn to respond.',
+    });
+
+    this.addTemplate({
+      id: 'turn_swap_completed',
+      type: 'group_update',
+      title: '✅ Turn Swap Confirmed',
+      body: 'Your payout in {{groupName}} has moved to cycle {{cycle}} after swapping turns with {{swapMemberName}}.',
+      icon: 'event_available',
+      priority: 'high',
+      category: 'turn_swap',
+      actions: [
+        { id: 'view_schedule', title: 'View Schedule', icon: 'schedule' },
+      ],
+      smsTemplate: 'Turn swap confirmed: your {{groupName}} payout is now in cycle {{cycle}}.',
+    });
+
+    this.addTemplate({
+      id: 'turn_swap_declined',
+      type: 'group_update',
+      title: 'Turn Swap Declined',
+      body: 'Your request to swap payout turns with {{swapMemberName}} in {{groupName}} was not accepted. Your turn stays in cycle {{fromCycle}}.',
+      icon: 'swap_horiz',
+      priority: 'normal',
+      category: 'turn_swap',
+    });
+
+    this.addTemplate({
+      id: 'turn_swap_rejected',
+      type: 'group_update',
+      title: 'Turn Swap Not Approved',
+      body: 'The admin of {{groupName}} did not approve the turn swap with {{swapMemberName}}. Your payout stays in cycle {{cycle}}.',
+      icon: 'swap_horiz',
+      priority: 'normal',
+      category: 'turn_swap',
+    });
+
     // Late Payment Notifications
     this.addTemplate({
       id: 'late_payment_warning',
@@ -220,10 +491,53 @@ class NotificationTemplates {
       actions: [
         { id: 'contact_admin', title: 'Contact Admin', icon: 'support_agent' },
         { id: 'pay_dues', title: 'Pay Outstanding', icon: 'payment' },
+        { id: 'dispute_penalty', title: 'Dispute', icon: 'gavel' },
       ],
       smsTemplate: 'Account suspended due to late payment in {{groupName}}. Contact admin to resolve.',
     });
 
+    // Penalty disputes. amount is the late fee in dispute; none for a suspension.
+    this.addTemplate({
+      id: 'penalty_dispute_upheld',
+      type: 'penalty_applied',
+      title: 'Dispute Decided',
+      body: 'Hi {{memberName}}, your dispute in {{groupName}} was reviewed and the {{#if amount}}late fee of {{amount}}{{else}}suspension{{/if}} stands.{{#if reason}} {{reason}}{{/if}}',
+      icon: 'gavel',
+      priority: 'normal',
+      category: 'penalty',
+      actions: [
+        { id: 'view_dispute', title: 'View Decision', icon: 'visibility' },
+      ],
+    });
+
+    this.addTemplate({
+      id: 'penalty_dispute_reduced',
+      type: 'penalty_applied',
+      title: '✅ Late Fee Reduced',
+      body: 'Hi {{memberName}}, your dispute in {{groupName}} was accepted in part: your late fee is now {{amount}}.{{#if reason}} {{reason}}{{/if}}',
+      icon: 'gavel',
+      priority: 'normal',
+      category: 'penalty',
+      actions: [
+        { id: 'view_dispute', title: 'View Decision', icon: 'visibility' },
+      ],
+      smsTemplate: 'Your dispute in {{groupName}} was accepted in part: your late fee is now {{amount}}.',
+    });
+
+    this.addTemplate({
+      id: 'penalty_dispute_waived',
+      type: 'penalty_applied',
+      title: '✅ Dispute Accepted',
+      body: 'Hi {{memberName}}, your dispute in {{groupName}} was accepted: {{#if amount}}the late fee of {{amount}} has been waived{{else}}your suspension has been lifted{{/if}}.{{#if reason}} {{reason}}{{/if}}',
+      icon: 'gavel',
+      priority: 'normal',
+      category: 'penalty',
+      actions: [
+        { id: 'view_dispute', title: 'View Decision', icon: 'visibility' },
+      ],
+      smsTemplate: 'Your dispute in {{groupName}} was accepted: {{#if amount}}the late fee of {{amount}} is waived{{else}}your suspension is lifted{{/if}}.',
+    });
+
     // Admin Notifications
     this.addTemplate({
       id: 'admin_payment_confirmed',
@@ -251,6 +565,103 @@ class NotificationTemplates {
       smsTemplate: '{{memberName}} in {{groupName}} needs help with payment. Please contact them.',
     });
 
+    this.addTemplate({
+      id: 'admin_turn_swap_approval',
+      type: 'admin_notification',
+      title: '🔁 Turn Swap Needs Approval',
+      body: '{{memberName}} and {{swapMemberName}} have agreed to swap cycles {{fromCycle}} and {{toCycle}} in {{groupName}}. Approve the swap to update the payout schedule.',
+      icon: 'swap_horiz',
+      priority: 'normal',
+      category: 'admin',
+      actions: [
+        { id: 'approve_swap', title: 'Approve', icon: 'check' },
+        { id: 'reject_swap', title: 'Reject', icon: 'close' },
+      ],
+    });
+
+    // Approval Notifications
+    this.addTemplate({
+      id: 'penalty_dispute_opened',
+      type: 'admin_notification',
+      title: '⚖️ Penalty Disputed',
+      body: '{{memberName}} is disputing their {{#if amount}}late fee of {{amount}}{{else}}suspension{{/if}} in {{groupName}}: "{{reason}}"',
+      icon: 'gavel',
+      priority: 'high',
+      category: 'admin',
+      actions: [
+        { id: 'view_dispute', title: 'Review', icon: 'visibility' },
+      ],
+    });
+
+    this.addTemplate({
+      id: 'penalty_dispute_vote',
+      type: 'group_update',
+      title: '🗳️ Vote on a Dispute',
+      body: '{{memberName}} is disputing their {{#if penaltyAmount}}late fee of {{penaltyAmount}}{{else}}suspension{{/if}} in {{groupName}}. The admin proposes to {{#if amount}}reduce it to {{amount}}{{else}}waive it{{/if}}. Do you agree?',
+      icon: 'how_to_vote',
+      priority: 'normal',
+      category: 'group',
+      actions: [
+        { id: 'support_dispute', title: 'Agree', icon: 'check' },
+        { id: 'oppose_dispute', title: 'Disagree', icon: 'close' },
+      ],
+    });
+
+    this.addTemplate({
+      id: 'approval_requested',
+      type: 'admin_notification',
+      title: '✍️ Your Approval Is Needed',
+      body: '{{memberName}} has asked to: {{actionSummary}} ({{groupName}}). {{plural approvalsNeeded one="# approval is" other="# approvals are"}} needed before {{dueDate}}.',
+      icon: 'how_to_vote',
+      priority: 'high',
+      category: 'admin',
+      actions: [
+        { id: 'approve_action', title: 'Approve', icon: 'check' },
+        { id: 'reject_action', title: 'Reject', icon: 'close' },
+      ],
+      smsTemplate: '{{memberName}} asks you to approve: {{actionSummary}} ({{groupName}}). Open Ajoturn to respond before {{dueDate}}.',
+    });
+
+    this.addTemplate({
+      id: 'approval_executed',
+      type: 'group_update',
+      title: '✅ Request Approved',
+      body: 'Your request to {{actionSummary}} in {{groupName}} was approved and has been carried out.',
+      icon: 'verified',
+      priority: 'normal',
+      category: 'admin',
+    });
+
+    this.addTemplate({
+      id: 'approval_failed',
+      type: 'group_update',
+      title: 'Approved Request Could Not Run',
+      body: 'Your request to {{actionSummary}} in {{groupName}} was approved but could not be carried out. Please check the group and try again.',
+      icon: 'error',
+      priority: 'high',
+      category: 'admin',
+    });
+
+    this.addTemplate({
+      id: 'approval_rejected',
+      type: 'group_update',
+      title: 'Request Not Approved',
+      body: 'Your request to {{actionSummary}} in {{groupName}} was turned down by the approvers.',
+      icon: 'block',
+      priority: 'normal',
+      category: 'admin',
+    });
+
+    this.addTemplate({
+      id: 'approval_expired',
+      type: 'group_update',
+      title: 'Request Expired',
+      body: 'Your request to {{actionSummary}} in {{groupName}} expired before enough members approved it.',
+      icon: 'timer_off',
+      priority: 'normal',
+      category: 'admin',
+    });
+
     // System Notifications
     this.addTemplate({
       id: 'app_update_available',
@@ -270,70 +681,177 @@ class NotificationTemplates {
       id: 'maintenance_notice',
       type: 'maintenance',
       title: '🔧 Scheduled Maintenance',
-      body: 'Ajoturn will undergo scheduled maintenance from {{startTime}} to {{endTime}}. Some features may be temporarily unavailable.',
+      body: 'Ajoturn will undergo scheduled maintenance{{#if startTime}} from {{startTime}} to {{endTime}}{{/if}}. Some features may be temporarily unavailable.',
       icon: 'build',
       priority: 'normal',
       category: 'system',
     });
+
+    // Notifications held for members who chose a daily digest
+    this.addTemplate({
+      id: 'notification_digest',
+      type: 'general',
+      title: '📬 Your Ajoturn Updates',
+      body: '{{plural notificationCount one="# update" other="# updates"}} since your last summary: {{digestSummary}}',
+      icon: 'inbox',
+      priority: 'low',
+      category: 'system',
+    });
   }
 
   private addTemplate(template: NotificationTemplate): void {
     this.templates.set(template.id, template);
   }
 
-  getTemplate(templateId: string): NotificationTemplate | null {
-    return this.templates.get(templateId) || null;
+  /**
+   * Check the English templates: they parse, use only known variables, and
+   * their SMS text fits in one segment
+   * @returns List of problems (empty when valid)
+   */
+  validateTemplates(): string[] {
+    const problems: string[] = [];
+    this.templates.forEach(template => {
+      try {
+        this.compiled.set(`${DEFAULT_LANGUAGE}:${template.id}`, this.compile(template));
+      } catch (error) {
+        problems.push(`${template.id}: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+      problems.push(...this.checkCompiled(template.id, DEFAULT_LANGUAGE).map(problem => `${template.id}: ${problem}`));
+    });
+    return problems;
+  }
+
+  /**
+   * Add translations for a language. Each translated template is checked
+   * against the English one; a translation with problems is left out so that
+   * template is sent in English.
+   * @returns List of problems (empty when every translation was added)
+   */
+  addTranslations(language: LanguageCode, translations: TemplateTranslations): string[] {
+    const problems: string[] = [];
+    const accepted: TemplateTranslations = { ...this.translations.get(language) };
+
+    Object.entries(translations).forEach(([templateId, translation]) => {
+      const label = `${language}/${templateId}`;
+      const template = this.templates.get(templateId);
+      if (!template) {
+        problems.push(`${label}: no such template`);
+        return;
+      }
+
+      const key = `${language}:${templateId}`;
+      const found = this.checkTranslation(template, translation);
+      if (found.length === 0) {
+        this.compiled.set(key, this.compile(this.merge(template, translation)));
+        found.push(...this.checkCompiled(templateId, language));
+      }
+
+      if (found.length > 0) {
+        problems.push(...found.map(problem => `${label}: ${problem}`));
+        this.compiled.delete(key);
+        delete accepted[templateId];
+      } else {
+        accepted[templateId] = translation;
+      }
+    });
+
+    this.translations.set(language, accepted);
+    return problems;
   }
 
-  renderTemplate(templateId: string, data: TemplateData): NotificationTemplate | null {
-    const template = this.getTemplate(templateId);
+  /**
+   * A template with its text in the given language, falling back to English
+   */
+  getTemplate(templateId: string, language: LanguageCode = DEFAULT_LANGUAGE): NotificationTemplate | null {
+    const template = this.templates.get(templateId);
     if (!template) return null;
 
+    const translation = this.translations.get(language)?.[templateId];
+    return translation ? this.merge(template, translation) : template;
+  }
+
+  renderTemplate(templateId: string, data: TemplateData, language: LanguageCode = DEFAULT_LANGUAGE): NotificationTemplate | null {
+    const template = this.getTemplate(templateId, language);
+    const compiled = this.compiled.get(`${language}:${templateId}`) || this.compiled.get(`${DEFAULT_LANGUAGE}:${templateId}`);
+    if (!template || !compiled) return null;
+
+    const options = { kinds: VARIABLE_KINDS, language, currency: data.currency };
+    return {
+      ...template,
+      title: renderNodes(compiled.title, { ...data }, options),
+      body: renderNodes(compiled.body, { ...data }, options),
+      smsTemplate: compiled.sms ? renderNodes(compiled.sms, { ...data }, { ...options, channel: 'sms' }) : undefined,
+    };
+  }
+
+  private merge(template: NotificationTemplate, translation: TemplateTranslation): NotificationTemplate {
     return {
       ...template,
-      title: this.replaceVariables(template.title, data),
-      body: this.replaceVariables(template.body, data),
-      smsTemplate: template.smsTemplate ? this.replaceVariables(template.smsTemplate, data) : undefined,
+      title: translation.title ?? template.title,
+      body: translation.body ?? template.body,
+      smsTemplate: translation.smsTemplate ?? template.smsTemplate,
+      actions: template.actions?.map(action => ({ ...action, title: translation.actions?.[action.id] ?? action.title })),
     };
   }
 
-  private replaceVariables(text: string, data: TemplateData): string {
-    let result = text;
-    
-    Object.entries(data).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        const placeholder = `{{${key}}}`;
-        const replacement = this.formatValue(key, value);
-        result = result.replace(new RegExp(placeholder, 'g'), replacement);
+  private compile(template: NotificationTemplate): CompiledText {
+    return {
+      title: parseTemplate(template.title),
+      body: parseTemplate(template.body),
+      sms: template.smsTemplate ? parseTemplate(template.smsTemplate) : undefined,
+    };
+  }
+
+  // A translation must use exactly the variables of the English text it replaces
+  private checkTranslation(template: NotificationTemplate, translation: TemplateTranslation): string[] {
+    const problems: string[] = [];
+    const fields: ['title' | 'body' | 'smsTemplate', string | undefined, string | undefined][] = [
+      ['title', template.title, translation.title],
+      ['body', template.body, translation.body],
+      ['smsTemplate', template.smsTemplate, translation.smsTemplate],
+    ];
+
+    fields.forEach(([field, english, translated]) => {
+      if (translated === undefined) return;
+      if (english === undefined) {
+        problems.push(`${field} has no English text to translate`);
+        return;
+      }
+      try {
+        const expected = templateVariables(parseTemplate(english));
+        const actual = templateVariables(parseTemplate(translated));
+        expected.forEach(name => !actual.has(name) && problems.push(`${field} is missing {{${name}}}`));
+        actual.forEach(name => !expected.has(name) && problems.push(`${field} uses {{${name}}}, which the English text does not`));
+      } catch (error) {
+        problems.push(`${field}: ${error instanceof Error ? error.message : error}`);
       }
     });
 
-    return result;
+    Object.keys(translation.actions || {}).forEach(actionId => {
+      if (!template.actions?.some(action => action.id === actionId)) {
+        problems.push(`unknown action "${actionId}"`);
+      }
+    });
+    return problems;
   }
 
-  private formatValue(key: string, value: any): string {
-    if (key === 'amount' || key === 'payoutAmount' || key === 'penaltyAmount') {
-      return this.formatCurrency(value);
-    }
-    
-    if (key === 'dueDate' && value instanceof Date) {
-      return value.toLocaleDateString('en-UG', {
-        weekday: 'short',
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-      });
-    }
-    
-    return String(value);
-  }
+  private checkCompiled(templateId: string, language: LanguageCode): string[] {
+    const compiled = this.compiled.get(`${language}:${templateId}`)!;
+    const problems: string[] = [];
 
-  private formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-UG', {
-      style: 'currency',
-      currency: 'UGX',
-      minimumFractionDigits: 0,
-    }).format(amount);
+    const used = new Set<string>();
+    [compiled.title, compiled.body, compiled.sms || []].forEach(nodes => templateVariables(nodes, used));
+    used.forEach(name => !(name in VARIABLE_KINDS) && problems.push(`unknown variable {{${name}}}`));
+
+    if (compiled.sms && problems.length === 0) {
+      const text = renderNodes(compiled.sms, { ...SMS_SAMPLE_DATA }, { kinds: VARIABLE_KINDS, language, currency: SMS_SAMPLE_DATA.currency, channel: 'sms' });
+      const { length, limit, encoding } = smsLength(text);
+      if (length > limit) {
+        problems.push(`SMS is ${length} characters, over the ${limit} that fit in one ${encoding === 'gsm7' ? 'GSM-7' : 'UCS-2'} segment`);
+      }
+    }
+    return problems;
   }
 
   getAllTemplates(): NotificationTemplate[] {
@@ -0,0 +1,139 @@
+import { TemplateTranslations } from './types';
+
+// Hausa. SMS text uses plain b, d, k and y for ɓ, ɗ, ƙ and ƴ so it is sent as GSM-7.
+const ha: TemplateTranslations = {
+  payment_reminder_3_days: {
+    title: '💰 Tunatarwar Biya',
+    body: 'Sannu {{memberName}}! Kuɗin {{amount}} na {{groupName}} zai cika nan da kwana 3 ({{dueDate}}). Ka shirya biyan gudummawarka.',
+    smsTemplate: 'Tunatarwa: {{amount}} na {{groupName}} zai cika nan da kwana 3 ({{dueDate}}). Ka shirya biyan gudummawarka.',
+    actions: { view_payment: 'Duba Bayani', mark_paid: 'Na Biya' },
+  },
+  payment_due_today: {
+    title: '🚨 Biya Ya Cika Yau!',
+    body: 'Sannu {{memberName}}! Kuɗin {{amount}} na {{groupName}} ya cika YAU ({{dueDate}}). Ka biya don guje wa tara.',
+    smsTemplate: 'GAGGAWA: {{amount}} na {{groupName}} ya cika YAU ({{dueDate}}). Ka biya yanzu don guje wa tara.',
+    actions: { pay_now: 'Biya Yanzu', contact_admin: 'Tuntuɓi Shugaba' },
+  },
+  payment_overdue_2_days: {
+    title: '⚠️ Biya Ya Wuce Lokaci!',
+    body: 'Sannu {{memberName}}! Kuɗin {{amount}} na {{groupName}} ya wuce lokaci da {{plural daysLate one="kwana #" other="kwanaki #"}}. Ka biya nan take don guje wa tara.',
+    smsTemplate: 'YA WUCE LOKACI: {{amount}} na {{groupName}} ya makara da {{plural daysLate one="kwana #" other="kwanaki #"}}. Ka biya nan take don guje wa tara.',
+    actions: { pay_immediately: 'Biya Yanzu', explain_delay: 'Bayyana Jinkiri' },
+  },
+  receipt_rejected: {
+    title: 'Ba a Karɓi Rasiti Ba',
+    body: 'Sannu {{memberName}}! Ba a karɓi rasitin da ka haɗa da gudummawarka ta {{groupName}} ba: {{reason}}. Don Allah ka haɗa wani.',
+    actions: { view_payment: 'Duba Bayani' },
+  },
+  installment_plan_agreed: {
+    title: 'An Amince da Biya Kaɗan-Kaɗan',
+    body: 'Sannu {{memberName}}! Za ka iya biyan sauran gudummawarka ta {{groupName}} kaɗan-kaɗan. Na farko, {{amount}}, zai cika {{dueDate}}.',
+    actions: { view_payment: 'Duba Tsari' },
+  },
+  wallet_contribution_paid: {
+    title: 'An Biya Daga Jakarka',
+    body: 'Sannu {{memberName}}! An yi amfani da {{amount}} daga jakarka ta {{groupName}} don gudummawarka ta zagaye na {{cycle}}.',
+  },
+  wallet_withdrawal_approved: {
+    title: 'An Amince da Cirewa',
+    body: 'Sannu {{memberName}}! An amince da cire {{amount}} daga jakarka ta {{groupName}}.',
+  },
+  wallet_withdrawal_rejected: {
+    title: 'Ba a Amince da Cirewa Ba',
+    body: 'Sannu {{memberName}}! Ba a amince da cire {{amount}} daga jakarka ta {{groupName}} ba: {{reason}}. Kuɗin suna nan a jakarka.',
+  },
+  payout_recipient_next: {
+    title: '🎉 Kai Ne Na Gaba!',
+    body: 'Albishir {{recipientName}}! Kai ne na gaba da zai karɓi kuɗi a {{groupName}}. Za ka karɓi {{payoutAmount}} idan zagayen nan ya ƙare.',
+    smsTemplate: 'Albishir! Kai ne na gaba da zai karbi {{payoutAmount}} daga {{groupName}} idan zagayen nan ya kare.',
+    actions: { view_details: 'Duba Bayani', prepare_account: 'Shirya Asusu' },
+  },
+  payout_processing: {
+    title: '💸 Ana Aika Kuɗi',
+    body: 'Sannu {{recipientName}}! An aika {{payoutAmount}} naka daga {{groupName}}. Don Allah ka tabbatar a manhajar idan ya shiga asusunka.',
+    smsTemplate: 'An aika {{payoutAmount}} naka daga {{groupName}}. Ka tabbatar a Ajoturn idan ya shiga asusunka.',
+    actions: { track_payout: 'Bibiyi Kuɗi', contact_admin: 'Tuntuɓi Shugaba' },
+  },
+  payout_failed: {
+    title: '⚠️ Ba a Aika Kuɗi Ba',
+    body: 'Sannu {{recipientName}}, ba a iya aika {{payoutAmount}} naka daga {{groupName}} ba{{#if reason}}: {{reason}}{{/if}}. Shugaba zai sake gwadawa; ka duba asusunka ya yi daidai.',
+    smsTemplate: 'Ba a iya aika {{payoutAmount}} naka daga {{groupName}} ba{{#if reason}}: {{reason}}{{/if}}. Ka duba asusunka a Ajoturn.',
+    actions: { check_account: 'Duba Asusu', contact_admin: 'Tuntuɓi Shugaba' },
+  },
+  payout_shortfall: {
+    title: '📉 Rabin Kuɗi',
+    body: 'Sannu {{recipientName}}, ba duk membobin {{groupName}} ne suka biya cikakke ba a zagaye na {{cycle}}. Kuɗinka {{payoutAmount}} ne, kuma ana bin ka {{owedAmount}}.',
+    smsTemplate: 'Kudinka na zagaye {{cycle}} a {{groupName}} {{payoutAmount}} ne; ana bin ka {{owedAmount}}.',
+    actions: { view_details: 'Duba Bayani', contact_admin: 'Tuntuɓi Shugaba' },
+  },
+  payout_reserve_advance: {
+    title: '💰 An Ƙara Kuɗinka',
+    body: 'Sannu {{recipientName}}, an ƙara {{amount}} daga asusun ajiya na {{groupName}} a kuɗinka na zagaye {{cycle}}, yanzu ya zama {{payoutAmount}}.{{#if owedAmount}} Ana bin ka {{owedAmount}}.{{/if}}',
+    smsTemplate: 'An kara {{amount}} daga ajiyar {{groupName}} a kudinka, yanzu {{payoutAmount}}.{{#if owedAmount}} Ana bin ka {{owedAmount}}.{{/if}}',
+    actions: { view_details: 'Duba Bayani' },
+  },
+  payout_completed: {
+    title: '✅ An Karɓi Kuɗi!',
+    body: 'Barka {{recipientName}}! Ka karɓi {{payoutAmount}} daga {{groupName}}. Mun gode da kasancewarka a ƙungiyarmu!',
+    smsTemplate: 'Barka! Ka karbi {{payoutAmount}} daga {{groupName}}.',
+    actions: { view_receipt: 'Duba Rasiti', share_success: 'Raba' },
+  },
+  member_joined: {
+    title: '👋 Sabon Memba',
+    body: 'Barka da zuwa {{joinedMemberName}} cikin {{groupName}}! Ƙungiyarmu tana ƙara ƙarfi.',
+    smsTemplate: '{{joinedMemberName}} ya shiga {{groupName}}. Barka da zuwa!',
+    actions: { view_member: 'Duba Bayani', welcome_message: 'Yi Maraba' },
+  },
+  cycle_completed: {
+    title: '🏆 Zagaye Ya Ƙare!',
+    body: 'Aiki mai kyau! Zagaye na {{cycle}} na {{groupName}} ya ƙare. {{recipientName}} ya karɓi {{payoutAmount}}.',
+    smsTemplate: 'Zagaye {{cycle}} na {{groupName}} ya kare! {{recipientName}} ya karbi {{payoutAmount}}. Aiki mai kyau!',
+    actions: { view_summary: 'Duba Taƙaitawa', next_cycle: 'Zagaye Na Gaba' },
+  },
+  group_full: {
+    title: '✨ Ƙungiya Ta Cika!',
+    body: '{{groupName}} ta cika da dukkan membobi. Zagaye na farko zai fara nan ba da jimawa ba. Ku shirya fara ajiya tare!',
+    smsTemplate: '{{groupName}} ta cika! Zagaye na farko zai fara ba da jimawa ba. Ku shirya fara ajiya tare!',
+    actions: { view_schedule: 'Duba Jadawali', group_chat: 'Hirar Ƙungiya' },
+  },
+  turn_swap_proposed: {
+    title: '🔁 Buƙatar Musanya Juyi',
+    body: '{{swapMemberName}} yana son musanya kuɗinsa na zagaye {{fromCycle}} da naka na zagaye {{toCycle}} a {{groupName}}.',
+    smsTemplate: '{{swapMemberName}} yana son musanya juyi a {{groupName}}: zagayensa {{fromCycle}} da naka {{toCycle}}. Ka amsa a Ajoturn.',
+    actions: { accept_swap: 'Karɓa', decline_swap: 'Ƙi' },
+  },
+  turn_swap_completed: {
+    title: '✅ An Tabbatar da Musanya',
+    body: 'Kuɗinka a {{groupName}} ya koma zagaye na {{cycle}} bayan musanya juyi da {{swapMemberName}}.',
+    smsTemplate: 'An tabbatar da musanya: kudinka a {{groupName}} yanzu yana zagaye {{cycle}}.',
+    actions: { view_schedule: 'Duba Jadawali' },
+  },
+  turn_swap_declined: {
+    title: 'An Ƙi Musanya',
+    body: '{{swapMemberName}} bai karɓi buƙatarka ta musanya juyi a {{groupName}} ba. Juyinka yana nan a zagaye {{fromCycle}}.',
+  },
+  turn_swap_rejected: {
+    title: 'Ba a Amince da Musanya Ba',
+    body: 'Shugaban {{groupName}} bai amince da musanya da {{swapMemberName}} ba. Kuɗinka yana nan a zagaye {{cycle}}.',
+  },
+  late_payment_warning: {
+    title: '⚠️ Gargaɗin Jinkirin Biya',
+    body: 'Sannu {{memberName}}! Wannan gargaɗi #{{warningCount}} ne kan jinkirin biyan {{amount}} a {{groupName}}. Ka biya da wuri don guje wa tara.',
+    smsTemplate: 'Gargadi #{{warningCount}}: Jinkirin biyan {{amount}} na {{groupName}}. Ka biya da wuri don guje wa tara.',
+    actions: { pay_now: 'Biya Yanzu', contact_admin: 'Tuntuɓi Shugaba' },
+  },
+  penalty_applied: {
+    title: '💸 Tarar Jinkiri',
+    body: 'Sannu {{memberName}}! An sanya tarar {{penaltyAmount}} kan jinkirin biyanka a {{groupName}}. Jimillar da za ka biya: {{amount}}.',
+    smsTemplate: 'An sanya tarar {{penaltyAmount}} kan jinkirin biya a {{groupName}}. Jimilla: {{amount}}.',
+    actions: { pay_total: 'Biya Jimilla', dispute_penalty: 'Ƙalubalanta' },
+  },
+  account_suspended: {
+    title: '🚫 An Dakatar da Asusu',
+    body: 'Sannu {{memberName}}! An dakatar da asusunka na ɗan lokaci saboda jinkirin biya a {{groupName}}. Ka tuntuɓi shugaba.',
+    smsTemplate: 'An dakatar da asusunka saboda jinkirin biya a {{groupName}}. Ka tuntubi shugaba.',
+    actions: { contact_admin: 'Tuntuɓi Shugaba', pay_dues: 'Biya Bashi' },
+  },
+};
+
+export default ha;
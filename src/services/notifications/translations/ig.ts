@@ -0,0 +1,139 @@
+import { TemplateTranslations } from './types';
+
+// Igbo. SMS text drops the dots under ị, ọ and ụ so it is sent as GSM-7.
+const ig: TemplateTranslations = {
+  payment_reminder_3_days: {
+    title: '💰 Ncheta Ịkwụ Ụgwọ',
+    body: 'Ndewo {{memberName}}! Ego {{amount}} gị maka {{groupName}} ga-eru n\'ụbọchị atọ ({{dueDate}}). Biko kwadebe ịtụnye ego gị.',
+    smsTemplate: 'Ncheta: {{amount}} maka {{groupName}} ga-eru n\'ubochi ato ({{dueDate}}). Biko kwadebe itunye ego gi.',
+    actions: { view_payment: 'Lee Nkọwa', mark_paid: 'Akwụọla M' },
+  },
+  payment_due_today: {
+    title: '🚨 Ụgwọ Eruola Taa!',
+    body: 'Ndewo {{memberName}}! Ego {{amount}} gị maka {{groupName}} eruola TAA ({{dueDate}}). Biko kwụọ ka ị ghara ịkwụ ntaramahụhụ.',
+    smsTemplate: 'NGWA NGWA: {{amount}} maka {{groupName}} eruola TAA ({{dueDate}}). Kwuo ugbu a ka i ghara ikwu ntaramahuhu.',
+    actions: { pay_now: 'Kwụọ Ugbu a', contact_admin: 'Kpọtụrụ Onye Ndu' },
+  },
+  payment_overdue_2_days: {
+    title: '⚠️ Ụgwọ Agafeela Oge!',
+    body: 'Ndewo {{memberName}}! Ego {{amount}} gị maka {{groupName}} agafeela ụbọchị {{daysLate}}. Biko kwụọ ozugbo ka ị ghara ịkwụ ntaramahụhụ.',
+    smsTemplate: 'AGAFEELA OGE: Ego {{amount}} gi maka {{groupName}} agafeela ubochi {{daysLate}}. Kwuo ozugbo ka i ghara ikwu ntaramahuhu.',
+    actions: { pay_immediately: 'Kwụọ Ugbu a', explain_delay: 'Kọwaa Igbu Oge' },
+  },
+  receipt_rejected: {
+    title: 'Anabataghị Akwụkwọ Ego',
+    body: 'Ndewo {{memberName}}! Anabataghị akwụkwọ ego ị tinyere maka ntụnye {{groupName}} gị: {{reason}}. Biko tinye ọzọ.',
+    actions: { view_payment: 'Lee Nkọwa' },
+  },
+  installment_plan_agreed: {
+    title: 'Ekwenyela na Ịkwụ Nke Nta Nke Nta',
+    body: 'Ndewo {{memberName}}! Ị nwere ike ịkwụ ndị fọdụrụ na ntụnye {{groupName}} gị nke nta nke nta. Nke mbụ, {{amount}}, ga-eru {{dueDate}}.',
+    actions: { view_payment: 'Lee Atụmatụ' },
+  },
+  wallet_contribution_paid: {
+    title: 'Akwụọla Site n\'Akpa Gị',
+    body: 'Ndewo {{memberName}}! E jirila {{amount}} site n\'akpa {{groupName}} gị kwụọ ntụnye okirikiri {{cycle}} gị.',
+  },
+  wallet_withdrawal_approved: {
+    title: 'Ekwenyela Iwepụ Ego',
+    body: 'Ndewo {{memberName}}! Ekwenyela iwepụ {{amount}} site n\'akpa {{groupName}} gị.',
+  },
+  wallet_withdrawal_rejected: {
+    title: 'Ekwenyeghị Iwepụ Ego',
+    body: 'Ndewo {{memberName}}! Ekwenyeghị iwepụ {{amount}} site n\'akpa {{groupName}} gị: {{reason}}. Ego ahụ ka dị n\'akpa gị.',
+  },
+  payout_recipient_next: {
+    title: '🎉 Ọ Bụ Gị Ọzọ!',
+    body: 'Ozi ọma {{recipientName}}! Ọ bụ gị ga-anata ego ọzọ na {{groupName}}. Ị ga-anata {{payoutAmount}} mgbe okirikiri a gwụrụ.',
+    smsTemplate: 'Ozi oma! O bu gi ga-anata {{payoutAmount}} ozo na {{groupName}} mgbe okirikiri a gwuru.',
+    actions: { view_details: 'Lee Nkọwa', prepare_account: 'Kwadebe Akaụntụ' },
+  },
+  payout_processing: {
+    title: '💸 A Na-ezipu Ego',
+    body: 'Ndewo {{recipientName}}! E zipuola {{payoutAmount}} gị site na {{groupName}}. Biko kwado ya n\'ime ngwa mgbe ọ batara n\'akaụntụ gị.',
+    smsTemplate: 'E zipuola {{payoutAmount}} gi site na {{groupName}}. Kwado ya na Ajoturn mgbe o batara.',
+    actions: { track_payout: 'Soro Ego', contact_admin: 'Kpọtụrụ Onye Ndu' },
+  },
+  payout_failed: {
+    title: '⚠️ Ezipughị Ego',
+    body: 'Ndewo {{recipientName}}, enweghị ike izipu {{payoutAmount}} gị site na {{groupName}}{{#if reason}}: {{reason}}{{/if}}. Onye ndu ga-anwa ọzọ; lelee na akaụntụ gị ziri ezi.',
+    smsTemplate: 'Enweghi ike izipu {{payoutAmount}} gi site na {{groupName}}{{#if reason}}: {{reason}}{{/if}}. Lelee akauntu gi na Ajoturn.',
+    actions: { check_account: 'Lelee Akaụntụ', contact_admin: 'Kpọtụrụ Onye Ndu' },
+  },
+  payout_shortfall: {
+    title: '📉 Ụfọdụ Ego',
+    body: 'Ndewo {{recipientName}}, ọ bụghị mmadụ niile nọ na {{groupName}} kwụchara maka okirikiri {{cycle}}. Ego gị bụ {{payoutAmount}}, a ka ji gị {{owedAmount}}.',
+    smsTemplate: 'Ego okirikiri {{cycle}} gi na {{groupName}} bu {{payoutAmount}}; a ka ji gi {{owedAmount}}.',
+    actions: { view_details: 'Lee Nkọwa', contact_admin: 'Kpọtụrụ Onye Ndu' },
+  },
+  payout_reserve_advance: {
+    title: '💰 A Gbakwunyere Ego Gị',
+    body: 'Ndewo {{recipientName}}, a gbakwunyere {{amount}} site n\'ego nchekwa {{groupName}} n\'ego okirikiri {{cycle}} gị, ugbu a ọ bụ {{payoutAmount}}.{{#if owedAmount}} A ka ji gị {{owedAmount}}.{{/if}}',
+    smsTemplate: 'A gbakwunyere {{amount}} site n\'ego nchekwa {{groupName}}, ego gi bu {{payoutAmount}} ugbu a.{{#if owedAmount}} A ka ji gi {{owedAmount}}.{{/if}}',
+    actions: { view_details: 'Lee Nkọwa' },
+  },
+  payout_completed: {
+    title: '✅ Ị Natara Ego!',
+    body: 'Ekele {{recipientName}}! Ị natara {{payoutAmount}} site na {{groupName}}. Daalụ maka ịbụ otu n\'ime otu anyị!',
+    smsTemplate: 'Ekele! I natara {{payoutAmount}} site na {{groupName}}.',
+    actions: { view_receipt: 'Lee Akwụkwọ Ego', share_success: 'Kesaa' },
+  },
+  member_joined: {
+    title: '👋 Onye Otu Ọhụrụ',
+    body: 'Nnọọ {{joinedMemberName}} na {{groupName}}! Otu anyị na-esiwanye ike.',
+    smsTemplate: '{{joinedMemberName}} abanyela na {{groupName}}. Nnoo!',
+    actions: { view_member: 'Lee Profaịlụ', welcome_message: 'Nabata Ya' },
+  },
+  cycle_completed: {
+    title: '🏆 Okirikiri Agwụla!',
+    body: 'Ọrụ ọma! Okirikiri {{cycle}} nke {{groupName}} agwụla. {{recipientName}} anatala {{payoutAmount}}.',
+    smsTemplate: 'Okirikiri {{cycle}} nke {{groupName}} agwula! {{recipientName}} anatala {{payoutAmount}}. Oru oma!',
+    actions: { view_summary: 'Lee Nchịkọta', next_cycle: 'Okirikiri Ọzọ' },
+  },
+  group_full: {
+    title: '✨ Otu Ezuola!',
+    body: '{{groupName}} ezuola ndị otu niile. Okirikiri mbụ ga-amalite n\'oge na-adịghị anya. Kwadebe ka anyị chekwaa ego ọnụ!',
+    smsTemplate: '{{groupName}} ezuola! Okirikiri mbu ga-amalite n\'oge adighi anya. Kwadebe ka anyi chekwaa ego onu!',
+    actions: { view_schedule: 'Lee Usoro', group_chat: 'Mkparịta Ụka Otu' },
+  },
+  turn_swap_proposed: {
+    title: '🔁 Arịrịọ Ịgbanwe Oge',
+    body: '{{swapMemberName}} chọrọ ịgbanwe ego okirikiri {{fromCycle}} ya na nke okirikiri {{toCycle}} gị na {{groupName}}.',
+    smsTemplate: '{{swapMemberName}} choro igbanwe oge na {{groupName}}: okirikiri {{fromCycle}} ya na {{toCycle}} gi. Zaa na Ajoturn.',
+    actions: { accept_swap: 'Nabata', decline_swap: 'Jụ' },
+  },
+  turn_swap_completed: {
+    title: '✅ Agbanweela Oge',
+    body: 'Ego gị na {{groupName}} akwagala na okirikiri {{cycle}} mgbe gị na {{swapMemberName}} gbanwere oge.',
+    smsTemplate: 'Agbanweela oge: ego gi na {{groupName}} di na okirikiri {{cycle}} ugbu a.',
+    actions: { view_schedule: 'Lee Usoro' },
+  },
+  turn_swap_declined: {
+    title: 'Ajụla Ịgbanwe Oge',
+    body: '{{swapMemberName}} anabataghị arịrịọ gị ịgbanwe oge na {{groupName}}. Oge gị ka dị na okirikiri {{fromCycle}}.',
+  },
+  turn_swap_rejected: {
+    title: 'Ekwenyeghị Ịgbanwe Oge',
+    body: 'Onye ndu {{groupName}} ekwenyeghị ịgbanwe oge gị na {{swapMemberName}}. Ego gị ka dị na okirikiri {{cycle}}.',
+  },
+  late_payment_warning: {
+    title: '⚠️ Ịdọ Aka ná Ntị',
+    body: 'Ndewo {{memberName}}! Nke a bụ ịdọ aka ná ntị #{{warningCount}} maka {{amount}} ị kwụbeghị na {{groupName}}. Biko kwụọ ngwa ngwa ka ị ghara ịkwụ ntaramahụhụ.',
+    smsTemplate: 'Ido aka na nti #{{warningCount}}: I kwubeghi {{amount}} maka {{groupName}}. Kwuo ngwa ngwa ka i ghara ikwu ntaramahuhu.',
+    actions: { pay_now: 'Kwụọ Ugbu a', contact_admin: 'Kpọtụrụ Onye Ndu' },
+  },
+  penalty_applied: {
+    title: '💸 Ntaramahụhụ',
+    body: 'Ndewo {{memberName}}! E tinyela ntaramahụhụ {{penaltyAmount}} n\'ụgwọ gị gafere oge na {{groupName}}. Ngụkọta ị ga-akwụ: {{amount}}.',
+    smsTemplate: 'Ntaramahuhu {{penaltyAmount}} maka igbu oge na {{groupName}}. Ngukota i ga-akwu: {{amount}}.',
+    actions: { pay_total: 'Kwụọ Ngụkọta', dispute_penalty: 'Mee Mkpesa' },
+  },
+  account_suspended: {
+    title: '🚫 Akwụsịla Akaụntụ',
+    body: 'Ndewo {{memberName}}! Akwụsịla akaụntụ gị nwa oge n\'ihi ụgwọ gafere oge na {{groupName}}. Biko kpọtụrụ onye ndu.',
+    smsTemplate: 'Akwusila akauntu gi n\'ihi ugwo gafere oge na {{groupName}}. Kpoturu onye ndu.',
+    actions: { contact_admin: 'Kpọtụrụ Onye Ndu', pay_dues: 'Kwụọ Ụgwọ' },
+  },
+};
+
+export default ig;
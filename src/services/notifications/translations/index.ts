@@ -0,0 +1,15 @@
+import { LanguageCode } from '../../../utils/languages';
+import { TemplateTranslations } from './types';
+import yo from './yo';
+import ha from './ha';
+import ig from './ig';
+import sw from './sw';
+import pcm from './pcm';
+
+export type { TemplateTranslation, TemplateTranslations } from './types';
+
+// Templates are written in English; these cover what members receive. Admin
+// and system notices are sent in English.
+const TRANSLATIONS: Record<Exclude<LanguageCode, 'en'>, TemplateTranslations> = { yo, ha, ig, sw, pcm };
+
+export default TRANSLATIONS;
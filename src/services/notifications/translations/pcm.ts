@@ -0,0 +1,139 @@
+import { TemplateTranslations } from './types';
+
+// Nigerian Pidgin
+const pcm: TemplateTranslations = {
+  payment_reminder_3_days: {
+    title: '💰 Reminder for Payment',
+    body: 'How far {{memberName}}! Your {{amount}} for {{groupName}} go due in 3 days ({{dueDate}}). Abeg prepare your contribution.',
+    smsTemplate: 'Reminder: Your {{amount}} for {{groupName}} go due in 3 days ({{dueDate}}). Abeg prepare your contribution.',
+    actions: { view_payment: 'See Details', mark_paid: 'I Don Pay' },
+  },
+  payment_due_today: {
+    title: '🚨 Payment Due Today!',
+    body: 'How far {{memberName}}! Your {{amount}} for {{groupName}} don due TODAY ({{dueDate}}). Abeg pay make you no pay late fee.',
+    smsTemplate: 'URGENT: Your {{amount}} for {{groupName}} don due TODAY ({{dueDate}}). Pay now make you no pay late fee.',
+    actions: { pay_now: 'Pay Now', contact_admin: 'Call Admin' },
+  },
+  payment_overdue_2_days: {
+    title: '⚠️ Payment Don Pass Time!',
+    body: 'How far {{memberName}}! Your {{amount}} for {{groupName}} don late by {{plural daysLate one="# day" other="# days"}}. Abeg pay sharp sharp make penalty no land.',
+    smsTemplate: 'OVERDUE: Your {{amount}} for {{groupName}} don late {{plural daysLate one="# day" other="# days"}}. Pay sharp sharp make penalty no land.',
+    actions: { pay_immediately: 'Pay Now', explain_delay: 'Explain Why' },
+  },
+  receipt_rejected: {
+    title: 'Receipt No Pass',
+    body: 'How far {{memberName}}! The receipt wey you attach for your {{groupName}} contribution no pass: {{reason}}. Abeg attach another one.',
+    actions: { view_payment: 'See Details' },
+  },
+  installment_plan_agreed: {
+    title: 'Installment Plan Don Set',
+    body: 'How far {{memberName}}! You fit pay the remaining {{groupName}} contribution small small. The first one, {{amount}}, go due {{dueDate}}.',
+    actions: { view_payment: 'See Plan' },
+  },
+  wallet_contribution_paid: {
+    title: 'We Don Pay From Your Wallet',
+    body: 'How far {{memberName}}! {{amount}} from your {{groupName}} wallet don enter your cycle {{cycle}} contribution.',
+  },
+  wallet_withdrawal_approved: {
+    title: 'Withdrawal Don Approve',
+    body: 'How far {{memberName}}! Your withdrawal of {{amount}} from your {{groupName}} wallet don approve.',
+  },
+  wallet_withdrawal_rejected: {
+    title: 'Withdrawal No Approve',
+    body: 'How far {{memberName}}! Your withdrawal of {{amount}} from your {{groupName}} wallet no approve: {{reason}}. The money still dey your wallet.',
+  },
+  payout_recipient_next: {
+    title: '🎉 Na You Next!',
+    body: 'Good news {{recipientName}}! Na you go collect next for {{groupName}}. You go collect {{payoutAmount}} when this cycle finish.',
+    smsTemplate: 'Good news! Na you go collect {{payoutAmount}} next for {{groupName}} when this cycle finish.',
+    actions: { view_details: 'See Details', prepare_account: 'Prepare Account' },
+  },
+  payout_processing: {
+    title: '💸 Payout Dey Go',
+    body: 'How far {{recipientName}}! We don send your {{payoutAmount}} payout from {{groupName}}. Abeg confirm for the app when e land your account.',
+    smsTemplate: 'We don send your {{payoutAmount}} payout from {{groupName}}. Confirm for Ajoturn when e land.',
+    actions: { track_payout: 'Track Payout', contact_admin: 'Call Admin' },
+  },
+  payout_failed: {
+    title: '⚠️ Payout No Go',
+    body: 'How far {{recipientName}}, your {{payoutAmount}} payout from {{groupName}} no fit go{{#if reason}}: {{reason}}{{/if}}. Admin go try again; check say your payout account correct.',
+    smsTemplate: 'Your {{groupName}} payout of {{payoutAmount}} no fit go{{#if reason}}: {{reason}}{{/if}}. Check your payout account for Ajoturn.',
+    actions: { check_account: 'Check Account', contact_admin: 'Call Admin' },
+  },
+  payout_shortfall: {
+    title: '📉 Part Payout',
+    body: 'How far {{recipientName}}, no be everybody for {{groupName}} pay complete for cycle {{cycle}}. Your payout na {{payoutAmount}} and we still owe you {{owedAmount}}.',
+    smsTemplate: 'Your {{groupName}} cycle {{cycle}} payout na {{payoutAmount}}; we still owe you {{owedAmount}}.',
+    actions: { view_details: 'See Details', contact_admin: 'Call Admin' },
+  },
+  payout_reserve_advance: {
+    title: '💰 We Don Add To Your Payout',
+    body: 'How far {{recipientName}}, we don add {{amount}} from {{groupName}} reserve to your cycle {{cycle}} payout, e don be {{payoutAmount}} now.{{#if owedAmount}} We still owe you {{owedAmount}}.{{/if}}',
+    smsTemplate: 'We add {{amount}} from {{groupName}} reserve to your payout, e don be {{payoutAmount}}.{{#if owedAmount}} We still owe you {{owedAmount}}.{{/if}}',
+    actions: { view_details: 'See Details' },
+  },
+  payout_completed: {
+    title: '✅ Payout Don Land!',
+    body: 'Congrats {{recipientName}}! You don collect {{payoutAmount}} from {{groupName}}. Thank you say you dey our savings group!',
+    smsTemplate: 'Congrats! You don collect {{payoutAmount}} from {{groupName}}.',
+    actions: { view_receipt: 'See Receipt', share_success: 'Share' },
+  },
+  member_joined: {
+    title: '👋 New Member Don Join',
+    body: 'Welcome {{joinedMemberName}} to {{groupName}}! Our group dey grow strong.',
+    smsTemplate: '{{joinedMemberName}} don join {{groupName}}. Welcome!',
+    actions: { view_member: 'See Profile', welcome_message: 'Greet Am' },
+  },
+  cycle_completed: {
+    title: '🏆 Cycle Don Finish!',
+    body: 'Well done! Cycle {{cycle}} for {{groupName}} don finish. {{recipientName}} don collect {{payoutAmount}}.',
+    smsTemplate: 'Cycle {{cycle}} for {{groupName}} don finish! {{recipientName}} don collect {{payoutAmount}}. Well done!',
+    actions: { view_summary: 'See Summary', next_cycle: 'Next Cycle' },
+  },
+  group_full: {
+    title: '✨ Group Don Full!',
+    body: '{{groupName}} don full with all the members. First cycle go start soon. Make we get ready to save together!',
+    smsTemplate: '{{groupName}} don full! First cycle go start soon. Make we get ready to save together!',
+    actions: { view_schedule: 'See Schedule', group_chat: 'Group Chat' },
+  },
+  turn_swap_proposed: {
+    title: '🔁 Turn Swap Request',
+    body: '{{swapMemberName}} wan swap im cycle {{fromCycle}} payout with your cycle {{toCycle}} payout for {{groupName}}.',
+    smsTemplate: '{{swapMemberName}} wan swap turn for {{groupName}}: im cycle {{fromCycle}} for your cycle {{toCycle}}. Answer for Ajoturn.',
+    actions: { accept_swap: 'Accept', decline_swap: 'Decline' },
+  },
+  turn_swap_completed: {
+    title: '✅ Turn Swap Don Confirm',
+    body: 'Your payout for {{groupName}} don move to cycle {{cycle}} after you swap turn with {{swapMemberName}}.',
+    smsTemplate: 'Turn swap don confirm: your {{groupName}} payout dey cycle {{cycle}} now.',
+    actions: { view_schedule: 'See Schedule' },
+  },
+  turn_swap_declined: {
+    title: 'Turn Swap No Work',
+    body: '{{swapMemberName}} no accept your request to swap turn for {{groupName}}. Your turn still dey cycle {{fromCycle}}.',
+  },
+  turn_swap_rejected: {
+    title: 'Admin No Approve Swap',
+    body: 'The admin for {{groupName}} no approve the turn swap with {{swapMemberName}}. Your payout still dey cycle {{cycle}}.',
+  },
+  late_payment_warning: {
+    title: '⚠️ Warning for Late Payment',
+    body: 'How far {{memberName}}! This na warning #{{warningCount}} for your late {{amount}} payment for {{groupName}}. Abeg pay quick make penalty no land.',
+    smsTemplate: 'Warning #{{warningCount}}: Your {{amount}} for {{groupName}} don late. Pay quick make penalty no land.',
+    actions: { pay_now: 'Pay Now', contact_admin: 'Call Admin' },
+  },
+  penalty_applied: {
+    title: '💸 Late Payment Penalty',
+    body: 'How far {{memberName}}! We don add penalty of {{penaltyAmount}} to your late payment for {{groupName}}. Total wey you go pay: {{amount}}.',
+    smsTemplate: 'Penalty of {{penaltyAmount}} don land for late payment for {{groupName}}. Total to pay: {{amount}}.',
+    actions: { pay_total: 'Pay Total', dispute_penalty: 'Dispute Am' },
+  },
+  account_suspended: {
+    title: '🚫 Account Don Suspend',
+    body: 'How far {{memberName}}! We don suspend your account for now because of late payment for {{groupName}}. Abeg call the admin.',
+    smsTemplate: 'Your account don suspend because of late payment for {{groupName}}. Call admin.',
+    actions: { contact_admin: 'Call Admin', pay_dues: 'Pay Wetin You Owe' },
+  },
+};
+
+export default pcm;
@@ -0,0 +1,139 @@
+import { TemplateTranslations } from './types';
+
+// Swahili
+const sw: TemplateTranslations = {
+  payment_reminder_3_days: {
+    title: '💰 Kikumbusho cha Malipo',
+    body: 'Habari {{memberName}}! Malipo yako ya {{amount}} kwa {{groupName}} yanadaiwa baada ya siku 3 ({{dueDate}}). Tafadhali jiandae kutoa mchango wako.',
+    smsTemplate: 'Kikumbusho: {{amount}} kwa {{groupName}} yanadaiwa baada ya siku 3 ({{dueDate}}). Jiandae kutoa mchango wako.',
+    actions: { view_payment: 'Angalia Maelezo', mark_paid: 'Nimelipa' },
+  },
+  payment_due_today: {
+    title: '🚨 Malipo ni Leo!',
+    body: 'Habari {{memberName}}! Malipo yako ya {{amount}} kwa {{groupName}} ni LEO ({{dueDate}}). Tafadhali lipa ili kuepuka faini.',
+    smsTemplate: 'HARAKA: Malipo ya {{amount}} kwa {{groupName}} ni LEO ({{dueDate}}). Lipa sasa ili kuepuka faini.',
+    actions: { pay_now: 'Lipa Sasa', contact_admin: 'Wasiliana na Msimamizi' },
+  },
+  payment_overdue_2_days: {
+    title: '⚠️ Malipo Yamechelewa!',
+    body: 'Habari {{memberName}}! Malipo yako ya {{amount}} kwa {{groupName}} yamechelewa siku {{daysLate}}. Tafadhali lipa mara moja ili kuepuka faini.',
+    smsTemplate: 'YAMECHELEWA: Malipo yako ya {{amount}} kwa {{groupName}} yamechelewa siku {{daysLate}}. Lipa mara moja ili kuepuka faini.',
+    actions: { pay_immediately: 'Lipa Sasa', explain_delay: 'Eleza Sababu' },
+  },
+  receipt_rejected: {
+    title: 'Risiti Haikukubaliwa',
+    body: 'Habari {{memberName}}! Risiti uliyoambatisha kwa mchango wako wa {{groupName}} haikukubaliwa: {{reason}}. Tafadhali ambatisha nyingine.',
+    actions: { view_payment: 'Angalia Maelezo' },
+  },
+  installment_plan_agreed: {
+    title: 'Mpango wa Awamu Umekubaliwa',
+    body: 'Habari {{memberName}}! Unaweza kulipa salio la mchango wako wa {{groupName}} kwa awamu. Awamu ya kwanza, {{amount}}, inadaiwa {{dueDate}}.',
+    actions: { view_payment: 'Angalia Mpango' },
+  },
+  wallet_contribution_paid: {
+    title: 'Imelipwa Kutoka Pochi Yako',
+    body: 'Habari {{memberName}}! {{amount}} kutoka pochi yako ya {{groupName}} imetumika kwa mchango wako wa mzunguko {{cycle}}.',
+  },
+  wallet_withdrawal_approved: {
+    title: 'Utoaji Umeidhinishwa',
+    body: 'Habari {{memberName}}! Utoaji wako wa {{amount}} kutoka pochi yako ya {{groupName}} umeidhinishwa.',
+  },
+  wallet_withdrawal_rejected: {
+    title: 'Utoaji Haukuidhinishwa',
+    body: 'Habari {{memberName}}! Utoaji wako wa {{amount}} kutoka pochi yako ya {{groupName}} haukuidhinishwa: {{reason}}. Pesa bado ziko kwenye pochi yako.',
+  },
+  payout_recipient_next: {
+    title: '🎉 Wewe Ndiye Unayefuata!',
+    body: 'Habari njema {{recipientName}}! Wewe ndiye mpokeaji anayefuata katika {{groupName}}. Utapokea {{payoutAmount}} mzunguko huu ukikamilika.',
+    smsTemplate: 'Habari njema! Wewe ndiye unayefuata kupokea {{payoutAmount}} kutoka {{groupName}} mzunguko ukikamilika.',
+    actions: { view_details: 'Angalia Maelezo', prepare_account: 'Andaa Akaunti' },
+  },
+  payout_processing: {
+    title: '💸 Malipo Yanatumwa',
+    body: 'Habari {{recipientName}}! Malipo yako ya {{payoutAmount}} kutoka {{groupName}} yametumwa. Tafadhali thibitisha kwenye programu yakifika kwenye akaunti yako.',
+    smsTemplate: 'Malipo yako ya {{payoutAmount}} kutoka {{groupName}} yametumwa. Thibitisha kwenye Ajoturn yakifika.',
+    actions: { track_payout: 'Fuatilia Malipo', contact_admin: 'Wasiliana na Msimamizi' },
+  },
+  payout_failed: {
+    title: '⚠️ Malipo Hayakutumwa',
+    body: 'Habari {{recipientName}}, malipo yako ya {{payoutAmount}} kutoka {{groupName}} hayakuweza kutumwa{{#if reason}}: {{reason}}{{/if}}. Msimamizi atajaribu tena; hakikisha akaunti yako ni sahihi.',
+    smsTemplate: 'Malipo yako ya {{payoutAmount}} kutoka {{groupName}} hayakutumwa{{#if reason}}: {{reason}}{{/if}}. Hakikisha akaunti yako kwenye Ajoturn.',
+    actions: { check_account: 'Angalia Akaunti', contact_admin: 'Wasiliana na Msimamizi' },
+  },
+  payout_shortfall: {
+    title: '📉 Malipo ya Sehemu',
+    body: 'Habari {{recipientName}}, si wanachama wote wa {{groupName}} walilipa kikamilifu kwa mzunguko {{cycle}}. Malipo yako ni {{payoutAmount}} na bado unadai {{owedAmount}}.',
+    smsTemplate: 'Malipo yako ya mzunguko {{cycle}} wa {{groupName}} ni {{payoutAmount}}; bado unadai {{owedAmount}}.',
+    actions: { view_details: 'Angalia Maelezo', contact_admin: 'Wasiliana na Msimamizi' },
+  },
+  payout_reserve_advance: {
+    title: '💰 Malipo Yameongezwa',
+    body: 'Habari {{recipientName}}, {{amount}} kutoka akiba ya {{groupName}} imeongezwa kwenye malipo yako ya mzunguko {{cycle}}, sasa ni {{payoutAmount}}.{{#if owedAmount}} Bado unadai {{owedAmount}}.{{/if}}',
+    smsTemplate: '{{amount}} kutoka akiba ya {{groupName}} imeongezwa kwenye malipo yako, sasa {{payoutAmount}}.{{#if owedAmount}} Bado unadai {{owedAmount}}.{{/if}}',
+    actions: { view_details: 'Angalia Maelezo' },
+  },
+  payout_completed: {
+    title: '✅ Malipo Yamepokelewa!',
+    body: 'Hongera {{recipientName}}! Umepokea {{payoutAmount}} kutoka {{groupName}}. Asante kwa kuwa sehemu ya kikundi chetu cha akiba!',
+    smsTemplate: 'Hongera! Umepokea {{payoutAmount}} kutoka {{groupName}}.',
+    actions: { view_receipt: 'Angalia Risiti', share_success: 'Shiriki' },
+  },
+  member_joined: {
+    title: '👋 Mwanachama Mpya',
+    body: 'Karibu {{joinedMemberName}} katika {{groupName}}! Kikundi chetu kinazidi kuimarika.',
+    smsTemplate: '{{joinedMemberName}} amejiunga na {{groupName}}. Karibu!',
+    actions: { view_member: 'Angalia Wasifu', welcome_message: 'Mkaribishe' },
+  },
+  cycle_completed: {
+    title: '🏆 Mzunguko Umekamilika!',
+    body: 'Kazi nzuri! Mzunguko {{cycle}} wa {{groupName}} umekamilika. {{recipientName}} amepokea malipo ya {{payoutAmount}}.',
+    smsTemplate: 'Mzunguko {{cycle}} wa {{groupName}} umekamilika! {{recipientName}} amepokea {{payoutAmount}}. Kazi nzuri!',
+    actions: { view_summary: 'Angalia Muhtasari', next_cycle: 'Mzunguko Ujao' },
+  },
+  group_full: {
+    title: '✨ Kikundi Kimekamilika!',
+    body: '{{groupName}} sasa kina wanachama wote. Mzunguko wa kwanza utaanza hivi karibuni. Jiandae kuanza kuweka akiba pamoja!',
+    smsTemplate: '{{groupName}} kimekamilika! Mzunguko wa kwanza utaanza hivi karibuni. Jiandae kuweka akiba pamoja!',
+    actions: { view_schedule: 'Angalia Ratiba', group_chat: 'Gumzo la Kikundi' },
+  },
+  turn_swap_proposed: {
+    title: '🔁 Ombi la Kubadilishana Zamu',
+    body: '{{swapMemberName}} angependa kubadilisha malipo yake ya mzunguko {{fromCycle}} na yako ya mzunguko {{toCycle}} katika {{groupName}}.',
+    smsTemplate: '{{swapMemberName}} anataka kubadilishana zamu katika {{groupName}}: mzunguko wake {{fromCycle}} kwa wako {{toCycle}}. Jibu kwenye Ajoturn.',
+    actions: { accept_swap: 'Kubali', decline_swap: 'Kataa' },
+  },
+  turn_swap_completed: {
+    title: '✅ Kubadilishana Kumethibitishwa',
+    body: 'Malipo yako katika {{groupName}} yamehamia mzunguko {{cycle}} baada ya kubadilishana zamu na {{swapMemberName}}.',
+    smsTemplate: 'Zamu imebadilishwa: malipo yako ya {{groupName}} sasa ni mzunguko {{cycle}}.',
+    actions: { view_schedule: 'Angalia Ratiba' },
+  },
+  turn_swap_declined: {
+    title: 'Kubadilishana Kumekataliwa',
+    body: 'Ombi lako la kubadilishana zamu na {{swapMemberName}} katika {{groupName}} halikukubaliwa. Zamu yako inabaki mzunguko {{fromCycle}}.',
+  },
+  turn_swap_rejected: {
+    title: 'Kubadilishana Hakukuidhinishwa',
+    body: 'Msimamizi wa {{groupName}} hakuidhinisha kubadilishana zamu na {{swapMemberName}}. Malipo yako yanabaki mzunguko {{cycle}}.',
+  },
+  late_payment_warning: {
+    title: '⚠️ Onyo la Malipo ya Kuchelewa',
+    body: 'Habari {{memberName}}! Hili ni onyo #{{warningCount}} kwa malipo yako ya {{amount}} yaliyochelewa katika {{groupName}}. Tafadhali lipa mapema ili kuepuka faini.',
+    smsTemplate: 'Onyo #{{warningCount}}: Malipo ya {{amount}} kwa {{groupName}} yamechelewa. Lipa mapema ili kuepuka faini.',
+    actions: { pay_now: 'Lipa Sasa', contact_admin: 'Wasiliana na Msimamizi' },
+  },
+  penalty_applied: {
+    title: '💸 Faini ya Kuchelewa',
+    body: 'Habari {{memberName}}! Faini ya {{penaltyAmount}} imeongezwa kwa malipo yako yaliyochelewa katika {{groupName}}. Jumla inayodaiwa: {{amount}}.',
+    smsTemplate: 'Faini ya {{penaltyAmount}} kwa kuchelewa kulipa {{groupName}}. Jumla inayodaiwa: {{amount}}.',
+    actions: { pay_total: 'Lipa Jumla', dispute_penalty: 'Pinga' },
+  },
+  account_suspended: {
+    title: '🚫 Akaunti Imesimamishwa',
+    body: 'Habari {{memberName}}! Akaunti yako imesimamishwa kwa muda kwa sababu ya kuchelewa kulipa katika {{groupName}}. Tafadhali wasiliana na msimamizi.',
+    smsTemplate: 'Akaunti imesimamishwa kwa kuchelewa kulipa katika {{groupName}}. Wasiliana na msimamizi.',
+    actions: { contact_admin: 'Wasiliana na Msimamizi', pay_dues: 'Lipa Deni' },
+  },
+};
+
+export default sw;
@@ -0,0 +1,10 @@
+// A template's text in another language. Anything left out is sent in English.
+export interface TemplateTranslation {
+  title?: string;
+  body?: string;
+  smsTemplate?: string;
+  actions?: Record<string, string>; // action id -> title
+}
+
+// Translations for one language, keyed by template id
+export type TemplateTranslations = Record<string, TemplateTranslation>;
@@ -0,0 +1,139 @@
+import { TemplateTranslations } from './types';
+
+// Yoruba. SMS text leaves out tone marks so it is sent as GSM-7.
+const yo: TemplateTranslations = {
+  payment_reminder_3_days: {
+    title: '💰 Ìrántí Ìsanwó',
+    body: 'Ẹ n lẹ́ o {{memberName}}! Owó {{amount}} yín fún {{groupName}} yóò tó ní ọjọ́ mẹ́ta ({{dueDate}}). Ẹ múra láti san àjọ yín.',
+    smsTemplate: 'Iranti: {{amount}} fun {{groupName}} yoo to ni ojo meta ({{dueDate}}). E mura lati san ajo yin.',
+    actions: { view_payment: 'Wo Àlàyé', mark_paid: 'Mo Ti San' },
+  },
+  payment_due_today: {
+    title: '🚨 Ìsanwó Tó Lónìí!',
+    body: 'Ẹ n lẹ́ o {{memberName}}! Owó {{amount}} yín fún {{groupName}} tó LÓNÌÍ ({{dueDate}}). Ẹ sanwó kí ẹ má baà san owó ìtanràn.',
+    smsTemplate: 'O PONDANDAN: {{amount}} fun {{groupName}} to LONII ({{dueDate}}). E sanwo bayii ki e ma baa san itanran.',
+    actions: { pay_now: 'Sanwó Báyìí', contact_admin: 'Kàn sí Alákòóso' },
+  },
+  payment_overdue_2_days: {
+    title: '⚠️ Ìsanwó Ti Pẹ́!',
+    body: 'Ẹ n lẹ́ o {{memberName}}! Owó {{amount}} yín fún {{groupName}} ti pẹ́ ní ọjọ́ {{daysLate}}. Ẹ sanwó lẹ́sẹ̀kẹsẹ̀ kí ẹ má baà san owó ìtanràn.',
+    smsTemplate: 'O TI PE: Owo {{amount}} yin fun {{groupName}} ti pe ni ojo {{daysLate}}. E sanwo lesekese ki e ma baa san itanran.',
+    actions: { pay_immediately: 'Sanwó Báyìí', explain_delay: 'Ṣàlàyé Ìdádúró' },
+  },
+  receipt_rejected: {
+    title: 'A Kò Gba Ìwé Ẹ̀rí',
+    body: 'Ẹ n lẹ́ o {{memberName}}! A kò gba ìwé ẹ̀rí tí ẹ fi sí àjọ {{groupName}} yín: {{reason}}. Ẹ jọ̀wọ́ fi òmíràn sí i.',
+    actions: { view_payment: 'Wo Àlàyé' },
+  },
+  installment_plan_agreed: {
+    title: 'A Ti Fọwọ́ sí Ìsanwó Díẹ̀díẹ̀',
+    body: 'Ẹ n lẹ́ o {{memberName}}! Ẹ lè san ìyókù àjọ {{groupName}} yín ní díẹ̀díẹ̀. Àkọ́kọ́, {{amount}}, yóò tó ní {{dueDate}}.',
+    actions: { view_payment: 'Wo Ètò' },
+  },
+  wallet_contribution_paid: {
+    title: 'A Sanwó Láti Àpò Yín',
+    body: 'Ẹ n lẹ́ o {{memberName}}! A ti lo {{amount}} láti àpò {{groupName}} yín fún àjọ ìyípo {{cycle}} yín.',
+  },
+  wallet_withdrawal_approved: {
+    title: 'A Fọwọ́ sí Ìyọwó',
+    body: 'Ẹ n lẹ́ o {{memberName}}! A ti fọwọ́ sí ìyọwó {{amount}} yín láti àpò {{groupName}} yín.',
+  },
+  wallet_withdrawal_rejected: {
+    title: 'A Kò Fọwọ́ sí Ìyọwó',
+    body: 'Ẹ n lẹ́ o {{memberName}}! A kò fọwọ́ sí ìyọwó {{amount}} yín láti àpò {{groupName}} yín: {{reason}}. Owó náà ṣì wà nínú àpò yín.',
+  },
+  payout_recipient_next: {
+    title: '🎉 Ẹ̀yin Ló Kàn!',
+    body: 'Ìròyìn ayọ̀ {{recipientName}}! Ẹ̀yin ló kàn láti gba owó nínú {{groupName}}. Ẹ ó gba {{payoutAmount}} nígbà tí ìyípo yìí bá parí.',
+    smsTemplate: 'Iroyin ayo! Eyin lo kan lati gba {{payoutAmount}} ninu {{groupName}} nigba ti iyipo yii ba pari.',
+    actions: { view_details: 'Wo Àlàyé', prepare_account: 'Ṣètò Àkáǹtì' },
+  },
+  payout_processing: {
+    title: '💸 A Ń Fi Owó Ránṣẹ́',
+    body: 'Ẹ n lẹ́ o {{recipientName}}! A ti fi {{payoutAmount}} yín láti {{groupName}} ránṣẹ́. Ẹ jọ̀wọ́ jẹ́rìí sí i nínú áàpù nígbà tí ó bá dé àkáǹtì yín.',
+    smsTemplate: 'A ti fi {{payoutAmount}} yin lati {{groupName}} ranse. E jerii si i ninu Ajoturn nigba ti o ba de.',
+    actions: { track_payout: 'Tọpa Owó', contact_admin: 'Kàn sí Alákòóso' },
+  },
+  payout_failed: {
+    title: '⚠️ A Kò Lè Fi Owó Ránṣẹ́',
+    body: 'Ẹ n lẹ́ o {{recipientName}}, a kò lè fi {{payoutAmount}} yín láti {{groupName}} ránṣẹ́{{#if reason}}: {{reason}}{{/if}}. Alákòóso yóò tún gbìyànjú; ẹ ṣàyẹ̀wò pé àkáǹtì yín péye.',
+    smsTemplate: 'A ko le fi {{payoutAmount}} yin lati {{groupName}} ranse{{#if reason}}: {{reason}}{{/if}}. E sayewo akanti yin ninu Ajoturn.',
+    actions: { check_account: 'Ṣàyẹ̀wò Àkáǹtì', contact_admin: 'Kàn sí Alákòóso' },
+  },
+  payout_shortfall: {
+    title: '📉 Apá Kan Owó',
+    body: 'Ẹ n lẹ́ o {{recipientName}}, kì í ṣe gbogbo ọmọ {{groupName}} ló san tán fún ìyípo {{cycle}}. Owó yín jẹ́ {{payoutAmount}}, a sì ṣì jẹ yín ní {{owedAmount}}.',
+    smsTemplate: 'Owo iyipo {{cycle}} yin ninu {{groupName}} je {{payoutAmount}}; a si n je yin ni {{owedAmount}}.',
+    actions: { view_details: 'Wo Àlàyé', contact_admin: 'Kàn sí Alákòóso' },
+  },
+  payout_reserve_advance: {
+    title: '💰 A Fi Kún Owó Yín',
+    body: 'Ẹ n lẹ́ o {{recipientName}}, a ti fi {{amount}} láti owó ìpamọ́ {{groupName}} kún owó ìyípo {{cycle}} yín, ó di {{payoutAmount}} báyìí.{{#if owedAmount}} A ṣì jẹ yín ní {{owedAmount}}.{{/if}}',
+    smsTemplate: 'A fi {{amount}} lati owo ipamo {{groupName}} kun owo yin, o di {{payoutAmount}}.{{#if owedAmount}} A si n je yin ni {{owedAmount}}.{{/if}}',
+    actions: { view_details: 'Wo Àlàyé' },
+  },
+  payout_completed: {
+    title: '✅ Ẹ Ti Gba Owó!',
+    body: 'Ẹ kú oríire {{recipientName}}! Ẹ ti gba {{payoutAmount}} láti {{groupName}}. A dúpẹ́ pé ẹ wà nínú àjọ wa!',
+    smsTemplate: 'E ku oriire! E ti gba {{payoutAmount}} lati {{groupName}}.',
+    actions: { view_receipt: 'Wo Ìwé Ẹ̀rí', share_success: 'Pín' },
+  },
+  member_joined: {
+    title: '👋 Ọmọ Ẹgbẹ́ Tuntun',
+    body: 'Ẹ káàbọ̀ {{joinedMemberName}} sí {{groupName}}! Àjọ wa ń lágbára sí i.',
+    smsTemplate: '{{joinedMemberName}} ti darapo mo {{groupName}}. E kaabo!',
+    actions: { view_member: 'Wo Profaili', welcome_message: 'Kí I Káàbọ̀' },
+  },
+  cycle_completed: {
+    title: '🏆 Ìyípo Ti Parí!',
+    body: 'Iṣẹ́ takuntakun! Ìyípo {{cycle}} ti {{groupName}} ti parí. {{recipientName}} ti gba {{payoutAmount}}.',
+    smsTemplate: 'Iyipo {{cycle}} ti {{groupName}} ti pari! {{recipientName}} ti gba {{payoutAmount}}. E se ise takuntakun!',
+    actions: { view_summary: 'Wo Àkópọ̀', next_cycle: 'Ìyípo Tó Kàn' },
+  },
+  group_full: {
+    title: '✨ Àjọ Ti Kún!',
+    body: '{{groupName}} ti kún pẹ̀lú gbogbo ọmọ ẹgbẹ́. Ìyípo àkọ́kọ́ yóò bẹ̀rẹ̀ láìpẹ́. Ẹ múra láti jọ fi owó pamọ́!',
+    smsTemplate: '{{groupName}} ti kun! Iyipo akoko yoo bere laipe. E mura lati jo fi owo pamo!',
+    actions: { view_schedule: 'Wo Ètò', group_chat: 'Ìjíròrò Àjọ' },
+  },
+  turn_swap_proposed: {
+    title: '🔁 Ìbéèrè Pàṣípààrọ̀ Ipò',
+    body: '{{swapMemberName}} fẹ́ pààrọ̀ ìyípo {{fromCycle}} rẹ̀ pẹ̀lú ìyípo {{toCycle}} yín nínú {{groupName}}.',
+    smsTemplate: '{{swapMemberName}} fe paaro ipo ninu {{groupName}}: iyipo {{fromCycle}} re fun iyipo {{toCycle}} yin. E dahun ninu Ajoturn.',
+    actions: { accept_swap: 'Gbà', decline_swap: 'Kọ̀' },
+  },
+  turn_swap_completed: {
+    title: '✅ Pàṣípààrọ̀ Ti Ṣẹlẹ̀',
+    body: 'Owó yín nínú {{groupName}} ti bọ́ sí ìyípo {{cycle}} lẹ́yìn pàṣípààrọ̀ pẹ̀lú {{swapMemberName}}.',
+    smsTemplate: 'Paaro ti sele: owo yin ninu {{groupName}} wa ni iyipo {{cycle}} bayii.',
+    actions: { view_schedule: 'Wo Ètò' },
+  },
+  turn_swap_declined: {
+    title: 'A Kọ Pàṣípààrọ̀',
+    body: '{{swapMemberName}} kò gba ìbéèrè yín láti pààrọ̀ ipò nínú {{groupName}}. Ipò yín ṣì wà ní ìyípo {{fromCycle}}.',
+  },
+  turn_swap_rejected: {
+    title: 'Alákòóso Kò Fọwọ́ sí Pàṣípààrọ̀',
+    body: 'Alákòóso {{groupName}} kò fọwọ́ sí pàṣípààrọ̀ pẹ̀lú {{swapMemberName}}. Owó yín ṣì wà ní ìyípo {{cycle}}.',
+  },
+  late_payment_warning: {
+    title: '⚠️ Ìkìlọ̀ Ìsanwó Pípẹ́',
+    body: 'Ẹ n lẹ́ o {{memberName}}! Ìkìlọ̀ #{{warningCount}} nìyí fún owó {{amount}} tí ẹ kò tíì san nínú {{groupName}}. Ẹ sanwó kí ẹ má baà san owó ìtanràn.',
+    smsTemplate: 'Ikilo #{{warningCount}}: E ko tii san {{amount}} fun {{groupName}}. E sanwo ki e ma baa san itanran.',
+    actions: { pay_now: 'Sanwó Báyìí', contact_admin: 'Kàn sí Alákòóso' },
+  },
+  penalty_applied: {
+    title: '💸 Owó Ìtanràn',
+    body: 'Ẹ n lẹ́ o {{memberName}}! A ti fi owó ìtanràn {{penaltyAmount}} kún ìsanwó pípẹ́ yín nínú {{groupName}}. Àpapọ̀ tí ẹ ó san: {{amount}}.',
+    smsTemplate: 'Itanran {{penaltyAmount}} fun isanwo pipe ninu {{groupName}}. Apapo ti e o san: {{amount}}.',
+    actions: { pay_total: 'San Àpapọ̀', dispute_penalty: 'Takò Ó' },
+  },
+  account_suspended: {
+    title: '🚫 A Ti Dá Àkáǹtì Dúró',
+    body: 'Ẹ n lẹ́ o {{memberName}}! A ti dá àkáǹtì yín dúró fún ìgbà díẹ̀ nítorí ìsanwó pípẹ́ nínú {{groupName}}. Ẹ kàn sí alákòóso.',
+    smsTemplate: 'A ti da akanti yin duro nitori isanwo pipe ninu {{groupName}}. E kan si alakooso.',
+    actions: { contact_admin: 'Kàn sí Alákòóso', pay_dues: 'San Gbèsè' },
+  },
+};
+
+export default yo;
@@ -0,0 +1,61 @@
+import { PaymentError } from '../../types/business';
+
+export interface HttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  text: string;
+}
+
+// Adapters take an HttpClient so tests can answer provider calls without a network
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+export const fetchHttpClient: HttpClient = async request => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+  });
+  return { status: response.status, text: await response.text() };
+};
+
+// Send a JSON request and parse the reply, failing on non-2xx responses.
+// Some providers answer with an empty body (e.g. 202 Accepted), which parses to null.
+export const requestJson = async <T = any>(
+  http: HttpClient,
+  provider: string,
+  request: { method: 'GET' | 'POST'; url: string; headers?: Record<string, string>; body?: unknown },
+): Promise<T> => {
+  const response = await http({
+    method: request.method,
+    url: request.url,
+    headers: {
+      Accept: 'application/json',
+      ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...request.headers,
+    },
+    body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+  });
+
+  let data: any = null;
+  if (response.text) {
+    try {
+      data = JSON.parse(response.text);
+    } catch {
+      data = null;
+    }
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new PaymentError(data?.message || data?.errorMessage || `${provider} request failed (${response.status})`, {
+      provider,
+      status: response.status,
+    });
+  }
+  return data as T;
+};
@@ -0,0 +1,492 @@
+import { BusinessLogicResult, PaymentError } from '../../types/business';
+import DatabaseService, { GatewayPaymentMethod, PaymentTransaction } from '../database';
+import { getClock } from '../jobs/clock';
+import JobRunner from '../jobs/jobRunner';
+import AuditLogService, { SYSTEM_ACTOR } from '../business/auditLog';
+import { addMoney, compareMoney, currencyOf, formatAmount, money, toMajor } from '../../utils/money';
+import { FakePaymentProvider } from './providers/fake';
+import { PaymentProvider, PaymentProviderId, WebhookEvent } from './types';
+
+export * from './types';
+export type { HttpClient } from './http';
+export { PaystackProvider } from './providers/paystack';
+export { FlutterwaveProvider } from './providers/flutterwave';
+export { MpesaProvider } from './providers/mpesa';
+export { MtnMomoProvider } from './providers/mtnMomo';
+export { FakePaymentProvider } from './providers/fake';
+
+const VERIFY_PAYMENT_JOB = 'payment_verification';
+
+interface PaymentServiceConfig {
+  callbackUrl?: string; // where card checkout returns the member
+}
+
+/**
+ * Takes contribution payments through payment gateways.
+ *
+ * Each payment method is served by one provider (Paystack or Flutterwave for
+ * cards and bank transfers, M-Pesa or MTN MoMo for mobile money). A method with
+ * no provider registered is unavailable. Development builds route every method
+ * to the fake provider, which accepts every payment, like the mock SMS provider.
+ * A payment the provider confirms marks the contribution paid straight away,
+ * without waiting for the admin to confirm it. Only the backend and the
+ * group's admins may record a payment's outcome, so members ask for a check
+ * and a verification job does it.
+ */
+class PaymentService {
+  private config: PaymentServiceConfig = {};
+  private providers = new Map<PaymentProviderId, PaymentProvider>();
+  private methodProviders: Partial<Record<GatewayPaymentMethod, PaymentProviderId>> = {};
+
+  constructor() {
+    // Never in release builds, where it would mark contributions paid with no money moved
+    if (__DEV__) {
+      this.registerProvider(new FakePaymentProvider({ autoComplete: true }));
+    }
+    // A payment still pending with the provider fails the attempt, so the job checks again later
+    JobRunner.registerHandler(
+      VERIFY_PAYMENT_JOB,
+      async job => {
+        const result = await this.verifyPayment(job.payload.reference);
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to verify payment');
+        }
+        if (result.data!.status === 'pending') {
+          throw new Error(`Payment ${job.payload.reference} is still pending`);
+        }
+      },
+      { retryDelayMs: 2 * 60 * 1000 }
+    );
+  }
+
+  // Initialize payment service with configuration
+  initialize(config: Partial<PaymentServiceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Register a provider and route payment methods to it
+   * @param methods - Methods it should take, defaults to all it supports
+   */
+  registerProvider(provider: PaymentProvider, methods: GatewayPaymentMethod[] = provider.methods): void {
+    const unsupported = methods.filter(method => !provider.methods.includes(method));
+    if (unsupported.length > 0) {
+      throw new PaymentError(`${provider.id} does not support ${unsupported.join(', ')}`);
+    }
+    this.providers.set(provider.id, provider);
+    for (const method of methods) {
+      this.methodProviders[method] = provider.id;
+    }
+  }
+
+  getProvider(id: PaymentProviderId): PaymentProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  getProviderForMethod(method: GatewayPaymentMethod): PaymentProvider {
+    const providerId = this.methodProviders[method];
+    const provider = providerId && this.providers.get(providerId);
+    if (!provider) {
+      throw new PaymentError(`Payments by ${method.replace('_', ' ')} are not available yet`, { method });
+    }
+    return provider;
+  }
+
+  // Whether a provider has been registered for the method
+  isMethodAvailable(method: GatewayPaymentMethod): boolean {
+    const providerId = this.methodProviders[method];
+    return !!providerId && this.providers.has(providerId);
+  }
+
+  /**
+   * Start paying a contribution through the provider for the chosen method
+   * @param params.phoneNumber - Mobile money number, defaults to the member's phone
+   * @returns The pending transaction, with the checkout URL, transfer account or instructions
+   */
+  async startContributionPayment(params: {
+    contributionId: string;
+    userId: string;
+    method: GatewayPaymentMethod;
+    phoneNumber?: string;
+  }): Promise<BusinessLogicResult<PaymentTransaction>> {
+    try {
+      const { contributionId, userId, method, phoneNumber } = params;
+
+      const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+      if (!contributionResult.success || !contributionResult.data) {
+        throw new PaymentError('Contribution not found');
+      }
+      const contribution = contributionResult.data;
+      if (contribution.user_id !== userId) {
+        throw new PaymentError('You can only pay your own contributions');
+      }
+      if (contribution.status === 'paid') {
+        throw new PaymentError('This contribution has already been paid');
+      }
+
+      const userResult = await DatabaseService.users.getUserById(userId);
+      if (!userResult.success || !userResult.data) {
+        throw new PaymentError('User not found');
+      }
+      const user = userResult.data;
+
+      // Members pay in their group's currency
+      const groupResult = await DatabaseService.groups.getGroupById(contribution.group_id);
+      if (!groupResult.success || !groupResult.data) {
+        throw new PaymentError('Group not found');
+      }
+      const currency = currencyOf(groupResult.data);
+
+      const provider = this.getProviderForMethod(method);
+      const amount = toMajor(
+        addMoney(money(contribution.amount, currency), money(contribution.late_penalty_amount || 0, currency))
+      );
+      const reference = DatabaseService.paymentTransactions.generateReference();
+
+      const initialization = await provider.initializePayment({
+        reference,
+        amount,
+        currency,
+        method,
+        customer: { userId, name: user.name, email: user.email, phone: phoneNumber || user.phone },
+        description: `Ajoturn cycle ${contribution.cycle_number}`,
+        callbackUrl: this.config.callbackUrl,
+        metadata: { contribution_id: contributionId, group_id: contribution.group_id },
+      });
+
+      const createResult = await DatabaseService.paymentTransactions.createTransaction({
+        id: reference,
+        contribution_id: contributionId,
+        group_id: contribution.group_id,
+        user_id: userId,
+        provider: provider.id,
+        method,
+        amount,
+        currency,
+        provider_transaction_id: initialization.providerTransactionId,
+        authorization_url: initialization.authorizationUrl,
+        bank_transfer: initialization.bankTransfer && {
+          account_number: initialization.bankTransfer.accountNumber,
+          bank_name: initialization.bankTransfer.bankName,
+          account_name: initialization.bankTransfer.accountName,
+          expires_at: initialization.bankTransfer.expiresAt,
+        },
+        instructions: initialization.instructions,
+      });
+      if (!createResult.success || !createResult.data) {
+        throw new PaymentError(createResult.error || 'Failed to save payment');
+      }
+
+      console.log(`Started ${method} payment ${reference} via ${provider.id}`);
+      return { success: true, data: createResult.data };
+    } catch (error) {
+      console.error('Error starting payment:', error);
+      return {
+        success: false,
+        error: error instanceof PaymentError ? error.message : 'Failed to start payment',
+        code: error instanceof PaymentError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Ask for a member's payment to be checked with the provider. The check runs
+   * as a job on the backend or an admin's app; a payment still pending is
+   * checked again a few times.
+   * @param params.userId - Must be the member who made the payment
+   * @returns The transaction as it stands now
+   */
+  async requestVerification(params: {
+    reference: string;
+    userId: string;
+  }): Promise<BusinessLogicResult<PaymentTransaction>> {
+    try {
+      const transaction = await this.getTransaction(params.reference);
+      if (transaction.user_id !== params.userId) {
+        throw new PaymentError('You can only check your own payments');
+      }
+      if (transaction.status !== 'pending' && transaction.status !== 'failed') {
+        return { success: true, data: transaction };
+      }
+
+      const enqueued = await JobRunner.enqueue({
+        type: VERIFY_PAYMENT_JOB,
+        idempotencyKey: `payment-verify:${transaction.id}`,
+        groupId: transaction.group_id,
+        payload: { reference: transaction.id },
+        maxAttempts: 5,
+      });
+      if (!enqueued.success && enqueued.code !== 'DUPLICATE_JOB') {
+        throw new PaymentError(enqueued.error || 'Failed to check payment');
+      }
+      return { success: true, data: transaction };
+    } catch (error) {
+      console.error('Error requesting payment verification:', error);
+      return {
+        success: false,
+        error: error instanceof PaymentError ? error.message : 'Failed to check payment',
+        code: error instanceof PaymentError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Ask the provider how a payment went and, once it has succeeded, mark the
+   * contribution paid. Runs on the backend or an admin's app, since it records
+   * the outcome. Safe to call repeatedly and from several places (verification
+   * jobs, webhooks): the contribution is only marked paid once, and a
+   * successful payment whose contribution could not be updated is settled on
+   * the next call.
+   * @param reference - Payment reference
+   * @returns The transaction as it stands after verification
+   */
+  async verifyPayment(reference: string): Promise<BusinessLogicResult<PaymentTransaction>> {
+    try {
+      const transaction = await this.getTransaction(reference);
+      if (transaction.status === 'success') {
+        await this.settleIfUnpaid(transaction);
+        return { success: true, data: transaction };
+      }
+      if (transaction.status === 'refunded') {
+        return { success: true, data: transaction };
+      }
+
+      const provider = this.providers.get(transaction.provider as PaymentProviderId);
+      if (!provider) {
+        throw new PaymentError(`Payment provider ${transaction.provider} is not set up`);
+      }
+      const verification = await provider.verifyTransaction(reference, transaction.provider_transaction_id);
+
+      if (verification.status === 'pending') {
+        return { success: true, data: transaction };
+      }
+      if (verification.status === 'failed') {
+        const failureReason = verification.failureReason || 'Payment failed';
+        await DatabaseService.paymentTransactions.updateTransaction(reference, {
+          status: 'failed',
+          failure_reason: failureReason,
+        });
+        return { success: true, data: { ...transaction, status: 'failed', failure_reason: failureReason } };
+      }
+
+      if (verification.currency && verification.currency !== transaction.currency) {
+        throw new PaymentError(`Payment was made in ${verification.currency}, expected ${transaction.currency}`);
+      }
+      const paidAmount = verification.amount ?? transaction.amount;
+      const providerTransactionId = verification.providerTransactionId || transaction.provider_transaction_id;
+      const paidAt = verification.paidAt || getClock().now();
+
+      const completeResult = await DatabaseService.paymentTransactions.completeTransaction(reference, {
+        provider_transaction_id: providerTransactionId,
+        paid_amount: paidAmount,
+        paid_at: paidAt,
+      });
+      if (!completeResult.success || !completeResult.data) {
+        throw new PaymentError(completeResult.error || 'Failed to update payment');
+      }
+      const { transaction: completed, completed: changed } = completeResult.data;
+      if (!changed) {
+        return { success: true, data: completed };
+      }
+
+      // Money short of the amount due stays on the transaction for the admin to sort out
+      if (compareMoney(money(paidAmount, transaction.currency), money(transaction.amount, transaction.currency)) < 0) {
+        console.warn(`Payment ${reference} received ${paidAmount} of ${transaction.amount}; contribution left unpaid`);
+        return { success: true, data: completed };
+      }
+
+      await this.settleContribution(completed, paidAmount, paidAt);
+      return { success: true, data: completed };
+    } catch (error) {
+      console.error('Error verifying payment:', error);
+      return {
+        success: false,
+        error: error instanceof PaymentError ? error.message : 'Failed to verify payment',
+        code: error instanceof PaymentError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Handle a provider callback. The callback only says which payment changed;
+   * the outcome is always fetched from the provider.
+   * @param providerId - Provider the callback URL belongs to
+   * @returns The verified transaction, or null when the event is not about a payment we track
+   */
+  async handleWebhook(
+    providerId: PaymentProviderId,
+    event: WebhookEvent
+  ): Promise<BusinessLogicResult<PaymentTransaction | null>> {
+    try {
+      const provider = this.providers.get(providerId);
+      if (!provider) {
+        throw new PaymentError(`Payment provider ${providerId} is not set up`);
+      }
+
+      const notification = await provider.handleWebhook(event);
+      if (!notification) {
+        return { success: true, data: null };
+      }
+      const transactionResult = await DatabaseService.paymentTransactions.getByReference(notification.reference);
+      if (!transactionResult.success || !transactionResult.data || transactionResult.data.provider !== providerId) {
+        return { success: true, data: null };
+      }
+
+      return await this.verifyPayment(notification.reference);
+    } catch (error) {
+      console.error('Error handling payment webhook:', error);
+      return {
+        success: false,
+        error: error instanceof PaymentError ? error.message : 'Failed to handle payment webhook',
+        code: error instanceof PaymentError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Refund a payment that did not pay a contribution, such as a second payment
+   * for an already paid contribution or an underpayment. Money that paid a
+   * contribution belongs to the group and is returned through a settlement or
+   * when the member leaves.
+   * @param params.adminId - Must be the group admin
+   * @param params.amount - Defaults to whatever has not been refunded yet
+   * @returns The updated transaction
+   */
+  async refundPayment(params: {
+    reference: string;
+    adminId: string;
+    amount?: number;
+    reason?: string;
+  }): Promise<BusinessLogicResult<PaymentTransaction>> {
+    try {
+      const { reference, adminId, reason } = params;
+      const transaction = await this.getTransaction(reference);
+
+      const groupResult = await DatabaseService.groups.getGroupById(transaction.group_id);
+      if (!groupResult.success || !groupResult.data) {
+        throw new PaymentError('Group not found');
+      }
+      if (groupResult.data.admin_id !== adminId) {
+        throw new PaymentError('Only the group admin can refund payments');
+      }
+      if (transaction.status !== 'success') {
+        throw new PaymentError('Only successful payments can be refunded');
+      }
+
+      const contributionResult = await DatabaseService.contributions.getContributionById(transaction.contribution_id);
+      if (contributionResult.data?.transaction_reference === reference) {
+        throw new PaymentError('This payment paid a contribution and belongs to the group pot');
+      }
+
+      const paidAmount = transaction.paid_amount ?? transaction.amount;
+      const refundable = paidAmount - (transaction.refunded_amount || 0);
+      const amount = params.amount ?? refundable;
+      if (amount <= 0 || compareMoney(money(amount, transaction.currency), money(refundable, transaction.currency)) > 0) {
+        throw new PaymentError(`Refund must be between 0 and ${formatAmount(refundable, transaction.currency)}`);
+      }
+
+      const provider = this.providers.get(transaction.provider as PaymentProviderId);
+      if (!provider) {
+        throw new PaymentError(`Payment provider ${transaction.provider} is not set up`);
+      }
+      await provider.refund({
+        reference,
+        providerTransactionId: transaction.provider_transaction_id,
+        amount,
+        currency: transaction.currency,
+        reason,
+      });
+
+      const refundedAmount = (transaction.refunded_amount || 0) + amount;
+      const updates = {
+        refunded_amount: refundedAmount,
+        ...(compareMoney(money(refundedAmount, transaction.currency), money(paidAmount, transaction.currency)) >= 0
+          ? { status: 'refunded' as const }
+          : {}),
+      };
+      const updateResult = await DatabaseService.paymentTransactions.updateTransaction(reference, updates);
+      if (!updateResult.success) {
+        throw new PaymentError(updateResult.error || 'Refund was sent but could not be saved');
+      }
+
+      await AuditLogService.record({
+        groupId: transaction.group_id,
+        actorId: adminId,
+        category: 'payments',
+        action: 'payment_refunded',
+        targetId: reference,
+        before: transaction,
+        after: updates,
+        reason,
+        metadata: { amount, member_id: transaction.user_id },
+      });
+
+      console.log(`Refunded ${amount} of payment ${reference}`);
+      return { success: true, data: { ...transaction, ...updates } };
+    } catch (error) {
+      console.error('Error refunding payment:', error);
+      return {
+        success: false,
+        error: error instanceof PaymentError ? error.message : 'Failed to refund payment',
+        code: error instanceof PaymentError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  private async getTransaction(reference: string): Promise<PaymentTransaction> {
+    const result = await DatabaseService.paymentTransactions.getByReference(reference);
+    if (!result.success || !result.data) {
+      throw new PaymentError('Payment not found');
+    }
+    return result.data;
+  }
+
+  // Settle a payment completed earlier whose contribution was left unpaid
+  private async settleIfUnpaid(transaction: PaymentTransaction): Promise<void> {
+    const paidAmount = transaction.paid_amount ?? transaction.amount;
+    if (compareMoney(money(paidAmount, transaction.currency), money(transaction.amount, transaction.currency)) < 0) {
+      return;
+    }
+    const contributionResult = await DatabaseService.contributions.getContributionById(transaction.contribution_id);
+    if (!contributionResult.data || contributionResult.data.status === 'paid') {
+      return;
+    }
+    await this.settleContribution(transaction, paidAmount, transaction.paid_at || getClock().now());
+  }
+
+  private async settleContribution(transaction: PaymentTransaction, paidAmount: number, paidAt: Date): Promise<void> {
+    const contributionResult = await DatabaseService.contributions.getContributionById(transaction.contribution_id);
+    const penalty = contributionResult.data?.late_penalty_amount || 0;
+
+    const result = await DatabaseService.contributions.markAsPaid(transaction.contribution_id, {
+      paid_amount: paidAmount - penalty,
+      paid_date: paidAt,
+      payment_method: transaction.method,
+      transaction_reference: transaction.id,
+      transaction_id: transaction.provider_transaction_id,
+    });
+    if (result.code === 'already-paid') {
+      // Paid some other way in the meantime; the admin can refund this payment
+      console.warn(`Contribution ${transaction.contribution_id} was already paid; payment ${transaction.id} needs a refund`);
+      return;
+    }
+    if (!result.success) {
+      throw new PaymentError(result.error || 'Payment succeeded but the contribution could not be updated', {
+        reference: transaction.id,
+      });
+    }
+
+    await AuditLogService.record({
+      groupId: transaction.group_id,
+      actorId: SYSTEM_ACTOR,
+      category: 'payments',
+      action: 'payment_verified',
+      targetId: transaction.contribution_id,
+      before: contributionResult.data || {},
+      after: { status: 'paid', paid_amount: paidAmount - penalty, transaction_reference: transaction.id },
+      metadata: { provider: transaction.provider, member_id: transaction.user_id },
+    });
+  }
+}
+
+export default new PaymentService();
@@ -0,0 +1,177 @@
+import { GatewayPaymentMethod } from '../../../types/database';
+import { PaymentError } from '../../../types/business';
+import { getClock } from '../../jobs/clock';
+import { formatAmount } from '../../../utils/money';
+import {
+  AccountLookup,
+  AccountLookupRequest,
+  BankTransferDetails,
+  CollectionAccountRequest,
+  PaymentInitialization,
+  PaymentProvider,
+  PaymentRequest,
+  PaymentVerification,
+  RefundRequest,
+  RefundResult,
+  TransferRequest,
+  TransferResult,
+  WebhookEvent,
+} from '../types';
+
+interface FakePayment {
+  request: PaymentRequest;
+  status: PaymentVerification['status'];
+  paidAmount?: number;
+  failureReason?: string;
+  paidAt?: Date;
+  refunded: number;
+}
+
+/**
+ * In-memory gateway for development and tests. Payments stay pending until
+ * completePayment() or failPayment() is called, like a member finishing (or
+ * abandoning) checkout, unless autoComplete is set.
+ * Account lookups only know the accounts added with addAccount(), and every
+ * transfer succeeds unless failNextTransfer() is called first.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly id = 'fake' as const;
+  readonly methods: GatewayPaymentMethod[] = ['card', 'bank_transfer', 'mobile_money'];
+  private payments = new Map<string, FakePayment>();
+  private accounts = new Map<string, AccountLookup>();
+  private transfers = new Map<string, TransferRequest>();
+  private transferFailure?: string;
+  private nextId = 1;
+
+  // autoComplete: every payment succeeds the first time it is verified
+  constructor(private readonly options: { autoComplete?: boolean } = {}) {}
+
+  async initializePayment(request: PaymentRequest): Promise<PaymentInitialization> {
+    this.payments.set(request.reference, { request, status: 'pending', refunded: 0 });
+    const providerTransactionId = `fake_${this.nextId++}`;
+
+    switch (request.method) {
+      case 'card':
+        return {
+          reference: request.reference,
+          providerTransactionId,
+          authorizationUrl: `https://checkout.example.com/pay/${request.reference}`,
+        };
+      case 'bank_transfer':
+        return {
+          reference: request.reference,
+          providerTransactionId,
+          bankTransfer: { accountNumber: '0000000000', bankName: 'Test Bank', accountName: 'Ajoturn Test' },
+          instructions: `Transfer exactly ${formatAmount(request.amount, request.currency)}`,
+        };
+      case 'mobile_money':
+      default:
+        return {
+          reference: request.reference,
+          providerTransactionId,
+          instructions: 'Approve the prompt on your phone to complete the payment',
+        };
+    }
+  }
+
+  async verifyTransaction(reference: string): Promise<PaymentVerification> {
+    const payment = this.getPayment(reference);
+    if (this.options.autoComplete && payment.status === 'pending') {
+      this.completePayment(reference);
+    }
+    return {
+      reference,
+      status: payment.status,
+      amount: payment.paidAmount ?? payment.request.amount,
+      currency: payment.request.currency,
+      providerTransactionId: payment.status === 'success' ? `fake_txn_${reference}` : undefined,
+      paidAt: payment.paidAt,
+      failureReason: payment.failureReason,
+    };
+  }
+
+  async handleWebhook(event: WebhookEvent): Promise<{ reference: string } | null> {
+    const reference = event.body?.reference;
+    return reference && this.payments.has(reference) ? { reference } : null;
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResult> {
+    const payment = this.getPayment(request.reference);
+    if (payment.status !== 'success') {
+      throw new PaymentError('Only successful payments can be refunded');
+    }
+    payment.refunded += request.amount;
+    return { refundId: `fake_refund_${this.nextId++}`, status: 'processed', amount: request.amount };
+  }
+
+  async createCollectionAccount(request: CollectionAccountRequest): Promise<BankTransferDetails> {
+    const accountNumber = String(9000000000 + this.nextId++);
+    return { accountNumber, bankName: 'Test Bank', accountName: request.accountName };
+  }
+
+  async resolveAccount(request: AccountLookupRequest): Promise<AccountLookup> {
+    const account = this.accounts.get(request.accountNumber);
+    if (!account) {
+      throw new PaymentError('Account not found');
+    }
+    return account;
+  }
+
+  async sendTransfer(request: TransferRequest): Promise<TransferResult> {
+    const existing = this.transfers.get(request.reference);
+    if (existing) {
+      return { transferId: `fake_transfer_${request.reference}`, status: 'success' };
+    }
+    if (this.transferFailure) {
+      const failureReason = this.transferFailure;
+      this.transferFailure = undefined;
+      return { transferId: `fake_transfer_${this.nextId++}`, status: 'failed', failureReason };
+    }
+    this.transfers.set(request.reference, request);
+    return { transferId: `fake_transfer_${request.reference}`, status: 'success' };
+  }
+
+  // Make an account known to lookups, as if it were open at a bank or operator
+  addAccount(accountNumber: string, accountName: string, bankName: string = 'Test Bank'): void {
+    this.accounts.set(accountNumber, { accountNumber, accountName, bankName });
+  }
+
+  // Transfers sent so far, by reference
+  getTransfer(reference: string): TransferRequest | undefined {
+    return this.transfers.get(reference);
+  }
+
+  // Simulate the provider declining the next transfer, e.g. for an insufficient balance
+  failNextTransfer(reason: string = 'Transfer failed'): void {
+    this.transferFailure = reason;
+  }
+
+  // Simulate the member paying; amount defaults to the amount requested
+  completePayment(reference: string, amount?: number): WebhookEvent {
+    const payment = this.getPayment(reference);
+    payment.status = 'success';
+    payment.paidAmount = amount;
+    payment.paidAt = getClock().now();
+    return this.webhookFor(reference);
+  }
+
+  // Simulate the payment being declined or abandoned
+  failPayment(reference: string, reason: string = 'Declined'): WebhookEvent {
+    const payment = this.getPayment(reference);
+    payment.status = 'failed';
+    payment.failureReason = reason;
+    return this.webhookFor(reference);
+  }
+
+  private webhookFor(reference: string): WebhookEvent {
+    return { headers: {}, body: { reference } };
+  }
+
+  private getPayment(reference: string): FakePayment {
+    const payment = this.payments.get(reference);
+    if (!payment) {
+      throw new PaymentError(`No payment with reference ${reference}`);
+    }
+    return payment;
+  }
+}
@@ -0,0 +1,133 @@
+import { GatewayPaymentMethod } from '../../../types/database';
+import { PaymentError } from '../../../types/business';
+import { HttpClient, fetchHttpClient, requestJson } from '../http';
+import {
+  PaymentInitialization,
+  PaymentProvider,
+  PaymentRequest,
+  PaymentVerification,
+  RefundRequest,
+  RefundResult,
+  WebhookEvent,
+} from '../types';
+
+export interface FlutterwaveConfig {
+  secretKey: string;
+  webhookHash: string; // the "secret hash" set on the dashboard, sent back as verif-hash
+  accountName?: string; // shown to members on bank transfer details
+  baseUrl?: string;
+}
+
+const STATUS_MAP: Record<string, PaymentVerification['status']> = {
+  successful: 'success',
+  failed: 'failed',
+  cancelled: 'failed',
+};
+
+export class FlutterwaveProvider implements PaymentProvider {
+  readonly id = 'flutterwave' as const;
+  readonly methods: GatewayPaymentMethod[] = ['card', 'bank_transfer'];
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: FlutterwaveConfig, private readonly http: HttpClient = fetchHttpClient) {
+    this.baseUrl = config.baseUrl || 'https://api.flutterwave.com/v3';
+  }
+
+  async initializePayment(request: PaymentRequest): Promise<PaymentInitialization> {
+    if (request.method === 'bank_transfer') {
+      const response = await this.send('POST', '/charges?type=bank_transfer', {
+        tx_ref: request.reference,
+        amount: request.amount,
+        currency: request.currency,
+        email: request.customer.email,
+        phone_number: request.customer.phone,
+        fullname: request.customer.name,
+        narration: request.description,
+        meta: request.metadata,
+      });
+      const authorization = response.meta?.authorization;
+      if (!authorization?.transfer_account) {
+        throw new PaymentError('Flutterwave did not return a transfer account', { provider: this.id });
+      }
+      return {
+        reference: request.reference,
+        bankTransfer: {
+          accountNumber: authorization.transfer_account,
+          bankName: authorization.transfer_bank,
+          accountName: this.config.accountName || 'Ajoturn',
+          expiresAt: authorization.account_expiration ? new Date(authorization.account_expiration) : undefined,
+        },
+        instructions: authorization.transfer_note,
+      };
+    }
+
+    const response = await this.send('POST', '/payments', {
+      tx_ref: request.reference,
+      amount: request.amount,
+      currency: request.currency,
+      redirect_url: request.callbackUrl,
+      payment_options: 'card',
+      customer: {
+        email: request.customer.email,
+        phonenumber: request.customer.phone,
+        name: request.customer.name,
+      },
+      customizations: { title: 'Ajoturn', description: request.description },
+      meta: request.metadata,
+    });
+    return { reference: request.reference, authorizationUrl: response.data.link };
+  }
+
+  async verifyTransaction(reference: string): Promise<PaymentVerification> {
+    const response = await this.send('GET', `/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`);
+    const data = response.data;
+    const status = STATUS_MAP[data.status] || 'pending';
+    return {
+      reference,
+      status,
+      amount: data.amount,
+      currency: data.currency,
+      providerTransactionId: data.id !== undefined ? String(data.id) : undefined,
+      paidAt: status === 'success' && data.created_at ? new Date(data.created_at) : undefined,
+      failureReason: status === 'failed' ? data.processor_response : undefined,
+    };
+  }
+
+  async handleWebhook(event: WebhookEvent): Promise<{ reference: string } | null> {
+    if (!event.headers['verif-hash'] || event.headers['verif-hash'] !== this.config.webhookHash) {
+      throw new PaymentError('Invalid Flutterwave webhook hash');
+    }
+    if (event.body?.event !== 'charge.completed' || !event.body.data?.tx_ref) {
+      return null;
+    }
+    return { reference: event.body.data.tx_ref };
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResult> {
+    if (!request.providerTransactionId) {
+      throw new PaymentError('Flutterwave refunds need the transaction ID', { provider: this.id });
+    }
+    const response = await this.send('POST', `/transactions/${request.providerTransactionId}/refund`, {
+      amount: request.amount,
+      comments: request.reason,
+    });
+    return {
+      refundId: String(response.data.id),
+      status: response.data.status === 'completed' ? 'processed' : 'pending',
+      amount: response.data.amount_refunded ?? request.amount,
+    };
+  }
+
+  private async send(method: 'GET' | 'POST', path: string, body?: unknown): Promise<any> {
+    const response = await requestJson(this.http, 'Flutterwave', {
+      method,
+      url: `${this.baseUrl}${path}`,
+      headers: { Authorization: `Bearer ${this.config.secretKey}` },
+      body,
+    });
+    if (response?.status !== 'success') {
+      throw new PaymentError(response?.message || 'Flutterwave request failed', { provider: this.id });
+    }
+    return response;
+  }
+}
@@ -0,0 +1,156 @@
+import { GatewayPaymentMethod } from '../../../types/database';
+import { PaymentError } from '../../../types/business';
+import { getClock } from '../../jobs/clock';
+import { textToBase64 } from '../../../utils/base64';
+import { HttpClient, fetchHttpClient, requestJson } from '../http';
+import {
+  PaymentInitialization,
+  PaymentProvider,
+  PaymentRequest,
+  PaymentVerification,
+  RefundResult,
+  WebhookEvent,
+} from '../types';
+
+export interface MpesaConfig {
+  consumerKey: string;
+  consumerSecret: string;
+  shortCode: string; // paybill or till number
+  passkey: string;
+  callbackUrl: string; // receives the STK callback; the reference is added as a query parameter
+  baseUrl?: string; // sandbox by default
+}
+
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+// Daraja timestamps are YYYYMMDDHHmmss in East Africa Time
+const darajaTimestamp = (date: Date): string =>
+  new Date(date.getTime() + EAT_OFFSET_MS).toISOString().replace(/[^0-9]/g, '').slice(0, 14);
+
+// 07XX / +2547XX / 2547XX -> 2547XX
+const toMsisdn = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('0') ? `254${digits.slice(1)}` : digits;
+};
+
+/**
+ * Safaricom M-Pesa (Daraja) STK push: the member gets a prompt on their phone
+ * and approves it with their M-Pesa PIN.
+ */
+export class MpesaProvider implements PaymentProvider {
+  readonly id = 'mpesa' as const;
+  readonly methods: GatewayPaymentMethod[] = ['mobile_money'];
+  private readonly baseUrl: string;
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(private readonly config: MpesaConfig, private readonly http: HttpClient = fetchHttpClient) {
+    this.baseUrl = config.baseUrl || 'https://sandbox.safaricom.co.ke';
+  }
+
+  async initializePayment(request: PaymentRequest): Promise<PaymentInitialization> {
+    if (!request.customer.phone) {
+      throw new PaymentError('A phone number is needed to pay with M-Pesa');
+    }
+    const phone = toMsisdn(request.customer.phone);
+    const separator = this.config.callbackUrl.includes('?') ? '&' : '?';
+
+    const response = await this.send('/mpesa/stkpush/v1/processrequest', {
+      ...this.credentials(),
+      TransactionType: 'CustomerPayBillOnline',
+      Amount: Math.ceil(request.amount), // M-Pesa only takes whole shillings
+      PartyA: phone,
+      PartyB: this.config.shortCode,
+      PhoneNumber: phone,
+      CallBackURL: `${this.config.callbackUrl}${separator}reference=${encodeURIComponent(request.reference)}`,
+      AccountReference: request.reference.slice(-12),
+      TransactionDesc: request.description.slice(0, 13),
+    });
+    if (response.ResponseCode !== '0') {
+      throw new PaymentError(response.ResponseDescription || 'M-Pesa did not accept the payment request');
+    }
+
+    return {
+      reference: request.reference,
+      providerTransactionId: response.CheckoutRequestID,
+      instructions: response.CustomerMessage || 'Enter your M-Pesa PIN on your phone to approve the payment',
+    };
+  }
+
+  async verifyTransaction(reference: string, providerTransactionId?: string): Promise<PaymentVerification> {
+    if (!providerTransactionId) {
+      throw new PaymentError('M-Pesa payments are looked up by their checkout request ID');
+    }
+
+    let response: any;
+    try {
+      response = await this.send('/mpesa/stkpushquery/v1/query', {
+        ...this.credentials(),
+        CheckoutRequestID: providerTransactionId,
+      });
+    } catch (error) {
+      // Daraja answers with an error while the member has not responded to the prompt
+      if (error instanceof PaymentError && /being processed/i.test(error.message)) {
+        return { reference, status: 'pending', providerTransactionId };
+      }
+      throw error;
+    }
+
+    const resultCode = String(response.ResultCode);
+    return {
+      reference,
+      status: resultCode === '0' ? 'success' : 'failed',
+      providerTransactionId,
+      paidAt: resultCode === '0' ? getClock().now() : undefined,
+      failureReason: resultCode === '0' ? undefined : response.ResultDesc,
+    };
+  }
+
+  // Daraja does not sign callbacks; the outcome is confirmed with a status query
+  async handleWebhook(event: WebhookEvent): Promise<{ reference: string } | null> {
+    const callback = event.body?.Body?.stkCallback;
+    const reference = event.query?.reference;
+    if (!callback?.CheckoutRequestID || !reference) {
+      return null;
+    }
+    return { reference };
+  }
+
+  async refund(): Promise<RefundResult> {
+    throw new PaymentError('M-Pesa payments are reversed from the M-Pesa organisation portal', {
+      provider: this.id,
+    });
+  }
+
+  private credentials() {
+    const timestamp = darajaTimestamp(getClock().now());
+    return {
+      BusinessShortCode: this.config.shortCode,
+      Password: textToBase64(`${this.config.shortCode}${this.config.passkey}${timestamp}`),
+      Timestamp: timestamp,
+    };
+  }
+
+  private async accessToken(): Promise<string> {
+    const now = getClock().now().getTime();
+    if (this.token && this.token.expiresAt > now) {
+      return this.token.value;
+    }
+    const response = await requestJson(this.http, 'M-Pesa', {
+      method: 'GET',
+      url: `${this.baseUrl}/oauth/v1/generate?grant_type=client_credentials`,
+      headers: { Authorization: `Basic ${textToBase64(`${this.config.consumerKey}:${this.config.consumerSecret}`)}` },
+    });
+    // Refresh a minute early so a token never expires mid-request
+    this.token = { value: response.access_token, expiresAt: now + (Number(response.expires_in) - 60) * 1000 };
+    return this.token.value;
+  }
+
+  private async send(path: string, body: unknown): Promise<any> {
+    return requestJson(this.http, 'M-Pesa', {
+      method: 'POST',
+      url: `${this.baseUrl}${path}`,
+      headers: { Authorization: `Bearer ${await this.accessToken()}` },
+      body,
+    });
+  }
+}
@@ -0,0 +1,148 @@
+import { GatewayPaymentMethod } from '../../../types/database';
+import { PaymentError } from '../../../types/business';
+import { getClock } from '../../jobs/clock';
+import { textToBase64 } from '../../../utils/base64';
+import { HttpClient, fetchHttpClient, requestJson } from '../http';
+import {
+  PaymentInitialization,
+  PaymentProvider,
+  PaymentRequest,
+  PaymentVerification,
+  RefundResult,
+  WebhookEvent,
+} from '../types';
+
+export interface MtnMomoConfig {
+  apiUser: string;
+  apiKey: string;
+  subscriptionKey: string; // Collections product key
+  targetEnvironment: string; // 'sandbox' or the market, e.g. 'mtnuganda'
+  callbackUrl?: string;
+  baseUrl?: string;
+}
+
+const STATUS_MAP: Record<string, PaymentVerification['status']> = {
+  SUCCESSFUL: 'success',
+  FAILED: 'failed',
+  REJECTED: 'failed',
+  TIMEOUT: 'failed',
+};
+
+/* eslint-disable no-bitwise */
+// MoMo identifies each request to pay by a UUID v4 chosen by the caller
+const uuidV4 = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+/* eslint-enable no-bitwise */
+
+/**
+ * MTN Mobile Money collections: a request to pay sends the member a prompt to
+ * approve on their phone.
+ */
+export class MtnMomoProvider implements PaymentProvider {
+  readonly id = 'mtn_momo' as const;
+  readonly methods: GatewayPaymentMethod[] = ['mobile_money'];
+  private readonly baseUrl: string;
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(private readonly config: MtnMomoConfig, private readonly http: HttpClient = fetchHttpClient) {
+    this.baseUrl = config.baseUrl || 'https://sandbox.momodeveloper.mtn.com';
+  }
+
+  async initializePayment(request: PaymentRequest): Promise<PaymentInitialization> {
+    if (!request.customer.phone) {
+      throw new PaymentError('A phone number is needed to pay with MTN MoMo');
+    }
+    const requestId = uuidV4();
+
+    // Answers 202 with no body; the outcome is read back with the request ID
+    await requestJson(this.http, 'MTN MoMo', {
+      method: 'POST',
+      url: `${this.baseUrl}/collection/v1_0/requesttopay`,
+      headers: {
+        ...(await this.headers()),
+        'X-Reference-Id': requestId,
+        ...(this.config.callbackUrl ? { 'X-Callback-Url': this.config.callbackUrl } : {}),
+      },
+      body: {
+        amount: String(request.amount),
+        currency: request.currency,
+        externalId: request.reference,
+        payer: { partyIdType: 'MSISDN', partyId: request.customer.phone.replace(/\D/g, '') },
+        payerMessage: request.description,
+        payeeNote: request.description,
+      },
+    });
+
+    return {
+      reference: request.reference,
+      providerTransactionId: requestId,
+      instructions: 'Approve the MoMo prompt on your phone to complete the payment',
+    };
+  }
+
+  async verifyTransaction(reference: string, providerTransactionId?: string): Promise<PaymentVerification> {
+    if (!providerTransactionId) {
+      throw new PaymentError('MTN MoMo payments are looked up by their request ID');
+    }
+    const data = await requestJson(this.http, 'MTN MoMo', {
+      method: 'GET',
+      url: `${this.baseUrl}/collection/v1_0/requesttopay/${providerTransactionId}`,
+      headers: await this.headers(),
+    });
+    if (data?.externalId && data.externalId !== reference) {
+      throw new PaymentError('MTN MoMo returned a different payment', { reference, externalId: data.externalId });
+    }
+
+    const status = STATUS_MAP[data?.status] || 'pending';
+    return {
+      reference,
+      status,
+      amount: data?.amount !== undefined ? Number(data.amount) : undefined,
+      currency: data?.currency,
+      providerTransactionId,
+      paidAt: status === 'success' ? getClock().now() : undefined,
+      failureReason: status === 'failed' ? data?.reason?.message || data?.reason : undefined,
+    };
+  }
+
+  // MoMo callbacks are not signed; the outcome is confirmed with a status query
+  async handleWebhook(event: WebhookEvent): Promise<{ reference: string } | null> {
+    const reference = event.body?.externalId;
+    return reference ? { reference } : null;
+  }
+
+  async refund(): Promise<RefundResult> {
+    throw new PaymentError('MTN MoMo collections cannot be refunded; send the money back as a disbursement', {
+      provider: this.id,
+    });
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    return {
+      Authorization: `Bearer ${await this.accessToken()}`,
+      'X-Target-Environment': this.config.targetEnvironment,
+      'Ocp-Apim-Subscription-Key': this.config.subscriptionKey,
+    };
+  }
+
+  private async accessToken(): Promise<string> {
+    const now = getClock().now().getTime();
+    if (this.token && this.token.expiresAt > now) {
+      return this.token.value;
+    }
+    const response = await requestJson(this.http, 'MTN MoMo', {
+      method: 'POST',
+      url: `${this.baseUrl}/collection/token/`,
+      headers: {
+        Authorization: `Basic ${textToBase64(`${this.config.apiUser}:${this.config.apiKey}`)}`,
+        'Ocp-Apim-Subscription-Key': this.config.subscriptionKey,
+      },
+    });
+    // Refresh a minute early so a token never expires mid-request
+    this.token = { value: response.access_token, expiresAt: now + (Number(response.expires_in) - 60) * 1000 };
+    return this.token.value;
+  }
+}
@@ -0,0 +1,202 @@
+import { GatewayPaymentMethod } from '../../../types/database';
+import { PaymentError } from '../../../types/business';
+import { HttpClient, fetchHttpClient, requestJson } from '../http';
+import {
+  AccountLookup,
+  AccountLookupRequest,
+  BankTransferDetails,
+  CollectionAccountRequest,
+  PaymentInitialization,
+  PaymentProvider,
+  PaymentRequest,
+  PaymentVerification,
+  RefundRequest,
+  RefundResult,
+  TransferRequest,
+  TransferResult,
+  WebhookEvent,
+} from '../types';
+
+export interface PaystackConfig {
+  secretKey: string;
+  baseUrl?: string;
+  // HMAC-SHA512 of the raw body with the secret key, compared with x-paystack-signature.
+  // Webhooks are handled server-side, where a crypto library is available.
+  verifySignature?: (rawBody: string, signature: string) => boolean;
+  preferredBank?: string; // for dedicated accounts, e.g. 'wema-bank'
+}
+
+// Paystack amounts are in kobo (or the currency's minor unit)
+const toSubunit = (amount: number): number => Math.round(amount * 100);
+const fromSubunit = (amount: number): number => amount / 100;
+
+const STATUS_MAP: Record<string, PaymentVerification['status']> = {
+  success: 'success',
+  failed: 'failed',
+  abandoned: 'failed',
+  reversed: 'failed',
+};
+
+export class PaystackProvider implements PaymentProvider {
+  readonly id = 'paystack' as const;
+  readonly methods: GatewayPaymentMethod[] = ['card', 'bank_transfer'];
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: PaystackConfig, private readonly http: HttpClient = fetchHttpClient) {
+    this.baseUrl = config.baseUrl || 'https://api.paystack.co';
+  }
+
+  async initializePayment(request: PaymentRequest): Promise<PaymentInitialization> {
+    if (!request.customer.email) {
+      throw new PaymentError('Paystack needs an email address to take a payment');
+    }
+
+    // Pay with Transfer: Paystack creates a temporary account for this one payment
+    if (request.method === 'bank_transfer') {
+      const response = await this.send('POST', '/charge', {
+        email: request.customer.email,
+        amount: toSubunit(request.amount),
+        currency: request.currency,
+        reference: request.reference,
+        bank_transfer: {},
+        metadata: request.metadata,
+      });
+      const data = response.data;
+      return {
+        reference: request.reference,
+        providerTransactionId: data.id !== undefined ? String(data.id) : undefined,
+        bankTransfer: {
+          accountNumber: data.account_number,
+          bankName: data.bank?.name,
+          accountName: data.account_name,
+          expiresAt: data.account_expires_at ? new Date(data.account_expires_at) : undefined,
+        },
+        instructions: data.display_text,
+      };
+    }
+
+    const response = await this.send('POST', '/transaction/initialize', {
+      email: request.customer.email,
+      amount: toSubunit(request.amount),
+      currency: request.currency,
+      reference: request.reference,
+      callback_url: request.callbackUrl,
+      channels: ['card'],
+      metadata: request.metadata,
+    });
+    return { reference: request.reference, authorizationUrl: response.data.authorization_url };
+  }
+
+  async verifyTransaction(reference: string): Promise<PaymentVerification> {
+    const response = await this.send('GET', `/transaction/verify/${encodeURIComponent(reference)}`);
+    const data = response.data;
+    const status = STATUS_MAP[data.status] || 'pending';
+    return {
+      reference,
+      status,
+      amount: fromSubunit(data.amount),
+      currency: data.currency,
+      providerTransactionId: data.id !== undefined ? String(data.id) : undefined,
+      paidAt: data.paid_at ? new Date(data.paid_at) : undefined,
+      failureReason: status === 'failed' ? data.gateway_response : undefined,
+    };
+  }
+
+  async handleWebhook(event: WebhookEvent): Promise<{ reference: string } | null> {
+    const signature = event.headers['x-paystack-signature'];
+    if (!this.config.verifySignature) {
+      throw new PaymentError('Paystack webhook signature verification is not configured');
+    }
+    if (!signature || !event.rawBody || !this.config.verifySignature(event.rawBody, signature)) {
+      throw new PaymentError('Invalid Paystack webhook signature');
+    }
+
+    if (!['charge.success', 'charge.failed'].includes(event.body?.event) || !event.body.data?.reference) {
+      return null;
+    }
+    return { reference: event.body.data.reference };
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResult> {
+    const response = await this.send('POST', '/refund', {
+      transaction: request.providerTransactionId || request.reference,
+      amount: toSubunit(request.amount),
+      merchant_note: request.reason,
+    });
+    return {
+      refundId: String(response.data.id),
+      status: response.data.status === 'processed' ? 'processed' : 'pending',
+      amount: fromSubunit(response.data.amount),
+    };
+  }
+
+  // Dedicated virtual accounts belong to a Paystack customer, created first
+  async createCollectionAccount(request: CollectionAccountRequest): Promise<BankTransferDetails> {
+    const customer = await this.send('POST', '/customer', {
+      email: request.email,
+      first_name: request.accountName,
+      phone: request.phone,
+      metadata: { group_id: request.groupId },
+    });
+    const response = await this.send('POST', '/dedicated_account', {
+      customer: customer.data.customer_code,
+      preferred_bank: this.config.preferredBank || 'wema-bank',
+    });
+    return {
+      accountNumber: response.data.account_number,
+      bankName: response.data.bank?.name,
+      accountName: response.data.account_name,
+    };
+  }
+
+  async resolveAccount(request: AccountLookupRequest): Promise<AccountLookup> {
+    if (request.method !== 'bank_transfer' || !request.bankCode) {
+      throw new PaymentError('Paystack can only look up bank accounts, by account number and bank code');
+    }
+    const query = `account_number=${encodeURIComponent(request.accountNumber)}&bank_code=${encodeURIComponent(request.bankCode)}`;
+    const response = await this.send('GET', `/bank/resolve?${query}`);
+    return { accountNumber: response.data.account_number, accountName: response.data.account_name };
+  }
+
+  // Transfers go to a transfer recipient, created for the account first
+  async sendTransfer(request: TransferRequest): Promise<TransferResult> {
+    const { destination } = request;
+    if (destination.method !== 'bank_transfer' || !destination.bankCode) {
+      throw new PaymentError('Paystack can only send payouts to bank accounts');
+    }
+    const recipient = await this.send('POST', '/transferrecipient', {
+      type: 'nuban',
+      name: destination.accountName,
+      account_number: destination.accountNumber,
+      bank_code: destination.bankCode,
+      currency: request.currency,
+    });
+    const response = await this.send('POST', '/transfer', {
+      source: 'balance',
+      amount: toSubunit(request.amount),
+      currency: request.currency,
+      recipient: recipient.data.recipient_code,
+      reference: request.reference,
+      reason: request.reason,
+    });
+    const status = response.data.status;
+    return {
+      transferId: response.data.transfer_code,
+      status: status === 'success' ? 'success' : status === 'failed' || status === 'reversed' ? 'failed' : 'pending',
+      failureReason: status === 'failed' || status === 'reversed' ? response.message : undefined,
+    };
+  }
+
+  private async send(method: 'GET' | 'POST', path: string, body?: unknown): Promise<any> {
+    const response = await requestJson(this.http, 'Paystack', {
+      method,
+      url: `${this.baseUrl}${path}`,
+      headers: { Authorization: `Bearer ${this.config.secretKey}` },
+      body,
+    });
+    if (!response?.status) {
+      throw new PaymentError(response?.message || 'Paystack request failed', { provider: this.id });
+    }
+    return response;
+  }
+}
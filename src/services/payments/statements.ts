@@ -0,0 +1,282 @@
+import { PaymentError } from '../../types/business';
+import { StatementImport } from '../../types/database';
+
+export type StatementFormat = StatementImport['format'];
+
+// A money-in line read from a bank statement
+export interface StatementEntry {
+  bankReference?: string;
+  amount: number;
+  currency?: string;
+  valueDate: Date;
+  narration: string;
+  payerName?: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const utcDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+};
+
+// Dates as Nigerian and Kenyan banks print them: 2026-01-05, 05/01/2026, 05-Jan-2026, 05 Jan 26
+export const parseStatementDate = (value: string): Date | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    return utcDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = Number(match[3]) + (match[3].length === 2 ? 2000 : 0);
+    return utcDate(year, Number(match[2]) - 1, Number(match[1]));
+  }
+  match = text.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[A-Za-z]*[\s/-](\d{2}|\d{4})$/);
+  if (match && MONTHS.includes(match[2].toLowerCase())) {
+    const year = Number(match[3]) + (match[3].length === 2 ? 2000 : 0);
+    return utcDate(year, MONTHS.indexOf(match[2].toLowerCase()), Number(match[1]));
+  }
+  return null;
+};
+
+// "₦1,000.50", "1000.5", "(250.00)" -> 1000.5, 1000.5, -250
+export const parseStatementAmount = (value: string): number | null => {
+  const text = value.trim();
+  if (!text) {
+    return null;
+  }
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const digits = text.replace(/[^\d.]/g, '');
+  if (!digits || Number.isNaN(Number(digits))) {
+    return null;
+  }
+  return negative ? -Number(digits) : Number(digits);
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+// Candidate header names for each column, most specific first
+const CSV_COLUMNS = {
+  date: ['valuedate', 'transactiondate', 'transdate', 'txndate', 'postingdate', 'bookingdate', 'date'],
+  credit: ['credit', 'creditamount', 'credits', 'deposit', 'deposits', 'moneyin', 'paidin', 'cr'],
+  amount: ['amount', 'transactionamount'],
+  narration: ['narration', 'description', 'transactiondetails', 'details', 'remarks', 'particulars', 'memo'],
+  reference: ['reference', 'transactionreference', 'referencenumber', 'refno', 'ref', 'transactionid'],
+  payer: ['payername', 'payer', 'sender', 'sendername', 'counterparty', 'originator'],
+  currency: ['currency', 'ccy'],
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Parse a CSV export. The header row is found by name (banks put account
+ * details above it), and credits come from a credit column or, failing that,
+ * from positive values in a signed amount column.
+ */
+export const parseCsvStatement = (content: string): StatementEntry[] => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  const findColumn = (headers: string[], names: string[]): number => {
+    for (const name of names) {
+      const index = headers.indexOf(name);
+      if (index >= 0) {
+        return index;
+      }
+    }
+    return -1;
+  };
+
+  for (let headerIndex = 0; headerIndex < lines.length; headerIndex++) {
+    const line = lines[headerIndex];
+    const delimiter = [',', ';', '\t'].sort((a, b) => line.split(b).length - line.split(a).length)[0];
+    const headers = splitCsvLine(line, delimiter).map(normalizeHeader);
+    const columns = {
+      date: findColumn(headers, CSV_COLUMNS.date),
+      credit: findColumn(headers, CSV_COLUMNS.credit),
+      amount: findColumn(headers, CSV_COLUMNS.amount),
+      narration: findColumn(headers, CSV_COLUMNS.narration),
+      reference: findColumn(headers, CSV_COLUMNS.reference),
+      payer: findColumn(headers, CSV_COLUMNS.payer),
+      currency: findColumn(headers, CSV_COLUMNS.currency),
+    };
+    if (columns.date < 0 || (columns.credit < 0 && columns.amount < 0)) {
+      continue;
+    }
+
+    const entries: StatementEntry[] = [];
+    for (const row of lines.slice(headerIndex + 1)) {
+      const cells = splitCsvLine(row, delimiter);
+      const valueDate = parseStatementDate(cells[columns.date] || '');
+      const amount = parseStatementAmount(cells[columns.credit >= 0 ? columns.credit : columns.amount] || '');
+      if (!valueDate || amount === null || amount <= 0) {
+        continue; // debits, blank credit cells and footer rows
+      }
+      entries.push({
+        bankReference: columns.reference >= 0 ? cells[columns.reference] || undefined : undefined,
+        amount,
+        currency: columns.currency >= 0 ? cells[columns.currency] || undefined : undefined,
+        valueDate,
+        narration: columns.narration >= 0 ? cells[columns.narration] || '' : '',
+        payerName: columns.payer >= 0 ? cells[columns.payer] || undefined : undefined,
+      });
+    }
+    return entries;
+  }
+
+  throw new PaymentError('Could not find the date and amount columns in this CSV statement');
+};
+
+/**
+ * Parse a SWIFT MT940 statement. Each :61: statement line is followed by an
+ * optional :86: line with the narration.
+ */
+export const parseMt940Statement = (content: string): StatementEntry[] => {
+  const fields: { tag: string; value: string }[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() && !line.startsWith('-')) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  const entries: StatementEntry[] = [];
+  let currency: string | undefined;
+  let current: StatementEntry | null = null;
+  for (const { tag, value } of fields) {
+    if (tag === '60F' || tag === '60M') {
+      currency = value.match(/^[CD]\d{6}([A-Z]{3})/)?.[1];
+    } else if (tag === '61') {
+      current = null;
+      // YYMMDD [MMDD] C|D|RC|RD [funds code] amount type-code reference [//bank reference]
+      const match = value.match(/^(\d{2})(\d{2})(\d{2})(?:\d{4})?(R?[CD])[A-Z]?(\d[\d,]*)[NFS][A-Z0-9]{3}([^/\n]*)(?:\/\/([^\n]*))?/);
+      if (match && match[4] === 'C') {
+        const valueDate = utcDate(2000 + Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+        const customerReference = match[6].trim();
+        if (valueDate) {
+          current = {
+            bankReference: match[7]?.trim() || (customerReference !== 'NONREF' ? customerReference : undefined),
+            amount: Number(match[5].replace(',', '.')),
+            currency,
+            valueDate,
+            narration: value.split('\n').slice(1).join(' ').trim(),
+          };
+          entries.push(current);
+        }
+      }
+    } else if (tag === '86' && current) {
+      // Structured narrations separate subfields with ?NN codes
+      current.narration = [current.narration, value.replace(/\?\d{2}/g, ' ').replace(/\s+/g, ' ').trim()]
+        .filter(Boolean)
+        .join(' ');
+      current = null;
+    }
+  }
+  return entries;
+};
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+// Contents of every <Name> element (with or without a namespace prefix)
+const xmlElements = (xml: string, name: string): string[] =>
+  Array.from(xml.matchAll(new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g')), match => match[1]);
+
+const xmlElement = (xml: string, name: string): string | undefined => xmlElements(xml, name)[0];
+
+/**
+ * Parse an ISO 20022 camt.053 bank-to-customer statement, taking the
+ * entry-level amount of every CRDT entry.
+ */
+export const parseCamt053Statement = (content: string): StatementEntry[] => {
+  const entries: StatementEntry[] = [];
+  for (const entry of xmlElements(content, 'Ntry')) {
+    if (xmlElement(entry, 'CdtDbtInd')?.trim() !== 'CRDT') {
+      continue;
+    }
+    const amount = entry.match(/<(?:\w+:)?Amt[^>]*Ccy="([A-Z]{3})"[^>]*>([\d.]+)</);
+    const dateBlock = xmlElement(entry, 'ValDt') || xmlElement(entry, 'BookgDt') || '';
+    const valueDate = parseStatementDate(xmlElement(dateBlock, 'Dt') || xmlElement(dateBlock, 'DtTm') || '');
+    if (!amount || !valueDate) {
+      continue;
+    }
+
+    const endToEndId = xmlElement(entry, 'EndToEndId');
+    const reference =
+      xmlElement(entry, 'AcctSvcrRef') ||
+      xmlElement(entry, 'NtryRef') ||
+      (endToEndId && endToEndId.trim() !== 'NOTPROVIDED' ? endToEndId : undefined);
+    const debtor = xmlElement(entry, 'Dbtr');
+    const narration = [...xmlElements(entry, 'Ustrd'), ...xmlElements(entry, 'AddtlNtryInf')].map(decodeXml).join(' ');
+
+    entries.push({
+      bankReference: reference ? decodeXml(reference) : undefined,
+      amount: Number(amount[2]),
+      currency: amount[1],
+      valueDate,
+      narration,
+      payerName: debtor && xmlElement(debtor, 'Nm') ? decodeXml(xmlElement(debtor, 'Nm')!) : undefined,
+    });
+  }
+  return entries;
+};
+
+export const detectStatementFormat = (content: string): StatementFormat => {
+  const text = content.trim();
+  if (text.startsWith('<') && /BkToCstmrStmt|camt\.053/.test(text)) {
+    return 'camt053';
+  }
+  if (/^:20:/m.test(text) && /^:61:/m.test(text)) {
+    return 'mt940';
+  }
+  return 'csv';
+};
+
+/**
+ * Read the credits from a bank statement
+ * @param format - Detected from the content when not given
+ */
+export const parseStatement = (content: string, format: StatementFormat = detectStatementFormat(content)): StatementEntry[] => {
+  switch (format) {
+    case 'camt053':
+      return parseCamt053Statement(content);
+    case 'mt940':
+      return parseMt940Statement(content);
+    case 'csv':
+    default:
+      return parseCsvStatement(content);
+  }
+};
@@ -0,0 +1,154 @@
+import { CurrencyCode, GatewayPaymentMethod } from '../../types/database';
+
+export type PaymentProviderId = 'paystack' | 'flutterwave' | 'mpesa' | 'mtn_momo' | 'fake';
+
+export interface PaymentCustomer {
+  userId: string;
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface PaymentRequest {
+  reference: string; // our reference, echoed back by the provider in verification and webhooks
+  amount: number; // in major units, e.g. naira
+  currency: CurrencyCode;
+  method: GatewayPaymentMethod;
+  customer: PaymentCustomer;
+  description: string;
+  callbackUrl?: string;
+  metadata?: Record<string, string | number>;
+}
+
+export interface BankTransferDetails {
+  accountNumber: string;
+  bankName: string;
+  accountName: string;
+  expiresAt?: Date;
+}
+
+// What the member needs to finish paying
+export interface PaymentInitialization {
+  reference: string;
+  providerTransactionId?: string;
+  authorizationUrl?: string; // hosted checkout page (card)
+  bankTransfer?: BankTransferDetails; // account to transfer to (bank transfer)
+  instructions?: string; // e.g. approve the prompt sent to the phone (mobile money)
+}
+
+export type PaymentVerificationStatus = 'success' | 'pending' | 'failed';
+
+export interface PaymentVerification {
+  reference: string;
+  status: PaymentVerificationStatus;
+  // Omitted by providers that only confirm the request we sent (M-Pesa and MoMo
+  // prompts are for a fixed amount the member cannot change)
+  amount?: number;
+  currency?: string;
+  providerTransactionId?: string;
+  paidAt?: Date;
+  failureReason?: string;
+}
+
+// A callback as received by the backend
+export interface WebhookEvent {
+  headers: Record<string, string | undefined>;
+  body: any;
+  rawBody?: string; // exact payload, needed for signature checks
+  query?: Record<string, string | undefined>; // callback URL parameters
+}
+
+// A long-lived account a group's members can transfer to at any time
+export interface CollectionAccountRequest {
+  groupId: string;
+  accountName: string; // usually the group name
+  email: string; // the admin's, for providers that attach accounts to a customer
+  phone?: string;
+}
+
+export interface RefundRequest {
+  reference: string;
+  providerTransactionId?: string;
+  amount: number;
+  currency: CurrencyCode;
+  reason?: string;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: 'pending' | 'processed';
+  amount: number;
+}
+
+// A bank account or mobile money wallet that money can be sent to
+export interface PayoutDestination {
+  method: 'bank_transfer' | 'mobile_money';
+  accountNumber: string; // the phone number for mobile money
+  bankCode?: string;
+  mobileProvider?: string;
+  accountName: string;
+}
+
+export interface AccountLookupRequest {
+  method: 'bank_transfer' | 'mobile_money';
+  accountNumber: string;
+  bankCode?: string;
+  mobileProvider?: string;
+  currency: CurrencyCode;
+}
+
+// Who the provider says owns an account
+export interface AccountLookup {
+  accountNumber: string;
+  accountName: string;
+  bankName?: string;
+}
+
+export interface TransferRequest {
+  reference: string; // our payout ID, so a retried call can't send twice
+  amount: number; // in major units
+  currency: CurrencyCode;
+  destination: PayoutDestination;
+  reason: string;
+}
+
+export interface TransferResult {
+  transferId: string;
+  // 'pending' transfers have been accepted by the provider and are on their way
+  status: 'pending' | 'success' | 'failed';
+  failureReason?: string;
+}
+
+/**
+ * A payment gateway. Adapters translate between these calls and the provider's
+ * API; they never touch contributions themselves, so PaymentService decides
+ * what a verified payment means for the group.
+ */
+export interface PaymentProvider {
+  readonly id: PaymentProviderId;
+  readonly methods: GatewayPaymentMethod[];
+
+  initializePayment(request: PaymentRequest): Promise<PaymentInitialization>;
+
+  // providerTransactionId is whatever initializePayment returned, for providers
+  // that look payments up by their own ID
+  verifyTransaction(reference: string, providerTransactionId?: string): Promise<PaymentVerification>;
+
+  /**
+   * Authenticate a callback and return the reference it is about, or null for
+   * events we do not act on. Webhook bodies are never trusted for the outcome:
+   * PaymentService verifies the reference with the provider afterwards.
+   */
+  handleWebhook(event: WebhookEvent): Promise<{ reference: string } | null>;
+
+  refund(request: RefundRequest): Promise<RefundResult>;
+
+  // Issue a dedicated (virtual) account number, for providers that offer them
+  createCollectionAccount?(request: CollectionAccountRequest): Promise<BankTransferDetails>;
+
+  // Look up the name on an account, for providers that can send payouts
+  resolveAccount?(request: AccountLookupRequest): Promise<AccountLookup>;
+
+  // Send money from the platform balance to a member's account
+  sendTransfer?(request: TransferRequest): Promise<TransferResult>;
+}
@@ -36,7 +36,14 @@ class PhoneVerificationService {
 
       // Send verification code using Firebase Auth
       const confirmation = await auth().signInWithPhoneNumber(formattedPhone);
-      
+      if (!confirmation.verificationId) {
+        return {
+          success: false,
+          error: 'Failed to send verification code. Please try again.',
+          code: 'VERIFICATION_NOT_SENT',
+        };
+      }
+
       this.verificationId = confirmation.verificationId;
       this.phoneNumber = formattedPhone;
 
@@ -0,0 +1,129 @@
+import { CurrencyCode, ReceiptDetails } from '../../types/database';
+import { parseStatementDate } from '../payments/statements';
+
+// How currencies are written in bank alerts and mobile money SMS, longest first
+const CURRENCY_MARKERS: [string, CurrencyCode][] = [
+  ['GH₵', 'GHS'],
+  ['NGN', 'NGN'],
+  ['KES', 'KES'],
+  ['KSh', 'KES'],
+  ['Ksh', 'KES'],
+  ['UGX', 'UGX'],
+  ['USh', 'UGX'],
+  ['GHS', 'GHS'],
+  ['GHC', 'GHS'],
+  ['ZAR', 'ZAR'],
+  ['TZS', 'TZS'],
+  ['TSh', 'TZS'],
+  ['RWF', 'RWF'],
+  ['FRw', 'RWF'],
+  ['XOF', 'XOF'],
+  ['CFA', 'XOF'],
+  ['₦', 'NGN'],
+  ['N', 'NGN'], // "N10,000.00" in Nigerian bank SMS
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A currency marker not glued to a preceding letter, then an amount: "NGN 10,000.00", "Ksh1,000"
+const AMOUNT_PATTERN = new RegExp(
+  `(^|[^A-Za-z])(${CURRENCY_MARKERS.map(([marker]) => escapeRegExp(marker)).join('|')})\\s?:?\\s?(\\d{1,3}(?:,\\d{3})+|\\d+)(\\.\\d{1,2})?`,
+  'g',
+);
+
+// Words just before an amount that say it is the one paid, or one to skip
+const PAID_CONTEXT = /(amt|amount|credit|cr\b|received|sent|paid|transfer|deposit)/i;
+const OTHER_CONTEXT = /(bal|balance|avail|fee|charge|limit)/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Dates as alerts print them, tried in order
+const DATE_PATTERNS: RegExp[] = [
+  /\b\d{4}-\d{2}-\d{2}\b/,
+  /\b\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2})\b/,
+  /\b\d{1,2}[\s/-][A-Za-z]{3,9}[\s/-](?:\d{4}|\d{2})\b/,
+];
+
+// "Mar 5th, 2026", "March 5 2026", "5th March, 2026"
+const WORDY_DATE = /\b(?:([A-Za-z]{3,9})\s+(\d{1,2})(?:st|nd|rd|th)?|(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,9})),?\s+(\d{4})\b/;
+
+const REFERENCE_PATTERNS: RegExp[] = [
+  /\b(?:session\s*id|transaction\s*(?:id|no|number|ref(?:erence)?)|trans\s*ref|txn\s*(?:id|ref)|receipt\s*(?:no|number)|ref(?:erence)?(?:\s*(?:no|number|#))?)\s*[:.#-]*\s*([A-Z0-9][A-Z0-9/_-]{5,})/i,
+  /^\s*([A-Z0-9]{10})\s+confirmed/i, // M-Pesa messages start with the transaction code
+];
+
+const findAmount = (text: string): Pick<ReceiptDetails, 'amount' | 'currency'> => {
+  const candidates: { amount: number; currency: CurrencyCode; paid: boolean }[] = [];
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const lineStart = text.lastIndexOf('\n', match.index) + 1;
+    const context = text.slice(Math.max(lineStart, match.index - 24), match.index + match[1].length);
+    if (OTHER_CONTEXT.test(context)) {
+      continue;
+    }
+    const marker = CURRENCY_MARKERS.find(([candidate]) => candidate === match[2]);
+    candidates.push({
+      amount: Number(`${match[3].replace(/,/g, '')}${match[4] || ''}`),
+      currency: marker ? marker[1] : 'NGN',
+      paid: PAID_CONTEXT.test(context),
+    });
+  }
+
+  const best = candidates.find(candidate => candidate.paid) || candidates[0];
+  return best ? { amount: best.amount, currency: best.currency } : {};
+};
+
+const findDate = (text: string): Date | undefined => {
+  for (const pattern of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    const date = match && parseStatementDate(match[0]);
+    if (date) {
+      return date;
+    }
+  }
+
+  const wordy = text.match(WORDY_DATE);
+  if (wordy) {
+    const monthName = (wordy[1] || wordy[4]).slice(0, 3).toLowerCase();
+    const day = Number(wordy[2] || wordy[3]);
+    const month = MONTHS.indexOf(monthName);
+    if (month >= 0) {
+      const date = new Date(Date.UTC(Number(wordy[5]), month, day));
+      if (date.getUTCDate() === day) {
+        return date;
+      }
+    }
+  }
+  return undefined;
+};
+
+const findReference = (text: string): string | undefined => {
+  for (const pattern of REFERENCE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return normalizeReference(match[1]);
+    }
+  }
+  return undefined;
+};
+
+// References are compared without case or spacing
+export const normalizeReference = (reference: string): string => reference.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Read the amount, date and transaction reference from a bank transfer
+ * confirmation or SMS alert, e.g.
+ *   "Acct: 012****789 Amt: NGN10,000.00 CR Desc: TRF FROM ADA OBI/REF:GTB2603051022 Date: 05-Mar-2026"
+ * Fields that can't be found are left out for the member to fill in.
+ */
+export const extractReceiptDetails = (text: string): ReceiptDetails => {
+  const details: ReceiptDetails = { ...findAmount(text) };
+  const paidAt = findDate(text);
+  if (paidAt) {
+    details.paid_at = paidAt;
+  }
+  const reference = findReference(text);
+  if (reference) {
+    details.reference = reference;
+  }
+  return details;
+};
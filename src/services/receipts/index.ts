@@ -0,0 +1,353 @@
+import { BusinessLogicResult, ReceiptError } from '../../types/business';
+import DatabaseService, { Contribution, Group, PaymentReceipt, ReceiptContentType, ReceiptDetails } from '../database';
+import AuditLogService from '../business/auditLog';
+import NotificationService from '../notifications';
+import { getClock } from '../jobs/clock';
+import { hasGroupPermission } from '../../utils/permissions';
+import { base64ToBytes, textToBase64 } from '../../utils/base64';
+import { sha256Bytes } from '../../utils/hash';
+import { extractReceiptDetails, normalizeReference } from './extraction';
+import { FirebaseReceiptFileStore } from './storage';
+import { ReceiptFile, ReceiptFileStore } from './types';
+
+export * from './types';
+export { extractReceiptDetails, normalizeReference } from './extraction';
+export { FirebaseReceiptFileStore, InMemoryReceiptFileStore } from './storage';
+
+export const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+
+export const RECEIPT_FILE_EXTENSIONS: Record<ReceiptContentType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+};
+
+// Fingerprints a receipt claims: its exact bytes, and the transfer reference printed on it
+export const receiptFingerprints = (checksum: string, details: ReceiptDetails): string[] => [
+  `sha256:${checksum}`,
+  ...(details.reference ? [`ref:${normalizeReference(details.reference)}`] : []),
+];
+
+/**
+ * Receipts members attach to their contributions.
+ *
+ * Files (photos, PDFs, or a bank alert pasted as text) are stored with their
+ * SHA-256 checksum and linked to the contribution for admins to check before
+ * confirming the payment. Each receipt claims its checksum and transaction
+ * reference, so the same receipt can't be reused for a second contribution.
+ */
+class ReceiptService {
+  private fileStore: ReceiptFileStore = new FirebaseReceiptFileStore();
+
+  // Swap where files are kept, e.g. an InMemoryReceiptFileStore in tests
+  useFileStore(fileStore: ReceiptFileStore): void {
+    this.fileStore = fileStore;
+  }
+
+  /**
+   * Attach a receipt file to a contribution
+   * @param params.userId - The contributing member, or an admin who can mark payments
+   * @param params.details - Amount, date and reference as the member confirmed them
+   * @returns The stored receipt; DUPLICATE_RECEIPT if it backs another contribution
+   */
+  async attachReceipt(params: {
+    contributionId: string;
+    userId: string;
+    file: ReceiptFile;
+    details?: ReceiptDetails;
+    source?: PaymentReceipt['source'];
+  }): Promise<BusinessLogicResult<PaymentReceipt>> {
+    try {
+      const { contributionId, userId, file, details = {}, source = 'file' } = params;
+
+      const { contribution } = await this.loadContribution(contributionId, userId, 'attach receipts to');
+      if (contribution.status === 'cancelled') {
+        throw new ReceiptError('This contribution has been cancelled');
+      }
+      if (!(file.contentType in RECEIPT_FILE_EXTENSIONS)) {
+        throw new ReceiptError('Receipts must be a JPEG or PNG image, a PDF or text');
+      }
+
+      let bytes: Uint8Array;
+      try {
+        bytes = base64ToBytes(file.base64);
+      } catch {
+        throw new ReceiptError('The receipt file could not be read');
+      }
+      if (bytes.length === 0) {
+        throw new ReceiptError('The receipt file is empty');
+      }
+      if (bytes.length > MAX_RECEIPT_BYTES) {
+        throw new ReceiptError('Receipts must be 5 MB or smaller');
+      }
+
+      const checksum = sha256Bytes(bytes);
+      const fingerprints = receiptFingerprints(checksum, details);
+      const duplicate = await this.findDuplicate(fingerprints, contributionId);
+      if (duplicate) {
+        return duplicate;
+      }
+
+      const receiptId = DatabaseService.receipts.generateReceiptId();
+      const storagePath = `receipts/${contribution.group_id}/${contributionId}/${receiptId}.${RECEIPT_FILE_EXTENSIONS[file.contentType]}`;
+      const url = await this.fileStore.upload(storagePath, file.base64, file.contentType);
+
+      const receipt: PaymentReceipt = {
+        id: receiptId,
+        group_id: contribution.group_id,
+        contribution_id: contributionId,
+        uploaded_by: userId,
+        source,
+        file_name: file.name,
+        content_type: file.contentType,
+        size_bytes: bytes.length,
+        checksum,
+        storage_path: storagePath,
+        url,
+        details: {
+          ...details,
+          ...(details.reference ? { reference: normalizeReference(details.reference) } : {}),
+        },
+        status: 'submitted',
+        created_at: getClock().now(),
+      };
+
+      const createResult = await DatabaseService.receipts.createReceipt(receipt, fingerprints);
+      if (!createResult.success || !createResult.data) {
+        // Lost a race with another upload of the same receipt; don't keep an orphaned file
+        await this.fileStore.remove(storagePath).catch(() => undefined);
+        if (createResult.code === 'duplicate-receipt') {
+          return (await this.findDuplicate(fingerprints, contributionId)) || {
+            success: false,
+            error: 'This receipt has already been used',
+            code: 'DUPLICATE_RECEIPT',
+          };
+        }
+        throw new ReceiptError(createResult.error || 'Failed to save receipt');
+      }
+
+      await AuditLogService.record({
+        groupId: contribution.group_id,
+        actorId: userId,
+        category: 'payments',
+        action: 'receipt_attached',
+        targetId: contributionId,
+        metadata: { receipt_id: receiptId, checksum, file_name: file.name, source },
+      });
+
+      return { success: true, data: createResult.data };
+    } catch (error) {
+      console.error('Error attaching receipt:', error);
+      return {
+        success: false,
+        error: error instanceof ReceiptError ? error.message : 'Failed to attach receipt',
+        code: error instanceof ReceiptError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Attach a bank transfer confirmation or SMS alert the member pasted in
+   * @param params.details - Corrections to what was read from the text
+   */
+  async attachPastedText(params: {
+    contributionId: string;
+    userId: string;
+    text: string;
+    details?: ReceiptDetails;
+  }): Promise<BusinessLogicResult<PaymentReceipt>> {
+    const text = params.text.trim();
+    if (!text) {
+      return { success: false, error: 'Paste the transfer confirmation or alert first', code: 'RECEIPT_ERROR' };
+    }
+
+    return this.attachReceipt({
+      contributionId: params.contributionId,
+      userId: params.userId,
+      file: {
+        name: `alert-${getClock().now().toISOString().slice(0, 10)}.txt`,
+        contentType: 'text/plain',
+        base64: textToBase64(text),
+      },
+      details: { ...extractReceiptDetails(text), ...params.details },
+      source: 'pasted_text',
+    });
+  }
+
+  /**
+   * Get a contribution's receipts, oldest first
+   * @param params.userId - The contributing member, or an admin who can mark payments
+   */
+  async getContributionReceipts(params: {
+    contributionId: string;
+    userId: string;
+  }): Promise<BusinessLogicResult<PaymentReceipt[]>> {
+    try {
+      await this.loadContribution(params.contributionId, params.userId, 'view receipts for');
+
+      const receiptsResult = await DatabaseService.receipts.getContributionReceipts(params.contributionId);
+      if (!receiptsResult.success || !receiptsResult.data) {
+        throw new ReceiptError(receiptsResult.error || 'Failed to load receipts');
+      }
+      return { success: true, data: receiptsResult.data };
+    } catch (error) {
+      console.error('Error getting receipts:', error);
+      return {
+        success: false,
+        error: error instanceof ReceiptError ? error.message : 'Failed to load receipts',
+        code: error instanceof ReceiptError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Turn down a receipt and tell the member why. Its fingerprints stay
+   * claimed, so a rejected receipt can't be reused elsewhere either.
+   */
+  async rejectReceipt(params: {
+    receiptId: string;
+    adminId: string;
+    reason: string;
+  }): Promise<BusinessLogicResult<PaymentReceipt>> {
+    try {
+      const { receiptId, adminId } = params;
+      const reason = params.reason.trim();
+      if (!reason) {
+        throw new ReceiptError('Please give a reason so the member knows what to fix');
+      }
+
+      const receiptResult = await DatabaseService.receipts.getReceiptById(receiptId);
+      if (!receiptResult.success || !receiptResult.data) {
+        throw new ReceiptError('Receipt not found');
+      }
+      const receipt = receiptResult.data;
+
+      const { contribution, group } = await this.loadContribution(receipt.contribution_id, adminId, 'review receipts for');
+      if (!hasGroupPermission(group, adminId, 'canMarkPayments')) {
+        throw new ReceiptError('You do not have permission to review receipts');
+      }
+      if (receipt.status !== 'submitted') {
+        throw new ReceiptError(`This receipt has already been ${receipt.status}`);
+      }
+
+      const updates = {
+        status: 'rejected' as const,
+        reviewed_by: adminId,
+        reviewed_at: getClock().now(),
+        review_notes: reason,
+      };
+      const updateResult = await DatabaseService.receipts.updateReceipt(receiptId, updates);
+      if (!updateResult.success) {
+        throw new ReceiptError(updateResult.error || 'Failed to update receipt');
+      }
+
+      await AuditLogService.record({
+        groupId: receipt.group_id,
+        actorId: adminId,
+        category: 'payments',
+        action: 'receipt_rejected',
+        targetId: receipt.contribution_id,
+        before: { status: receipt.status },
+        after: { status: 'rejected' },
+        reason,
+        metadata: { receipt_id: receiptId },
+      });
+
+      try {
+        const memberResult = await DatabaseService.users.getUserById(contribution.user_id);
+        await NotificationService.sendToUser({
+          templateId: 'receipt_rejected',
+          userId: contribution.user_id,
+          groupId: group.id,
+          data: { memberName: memberResult.data?.name || 'there', groupName: group.name, reason },
+        });
+      } catch (error) {
+        console.error('Error sending receipt notification:', error);
+      }
+
+      return { success: true, data: { ...receipt, ...updates } };
+    } catch (error) {
+      console.error('Error rejecting receipt:', error);
+      return {
+        success: false,
+        error: error instanceof ReceiptError ? error.message : 'Failed to reject receipt',
+        code: error instanceof ReceiptError ? error.code : 'UNKNOWN_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Mark a contribution's submitted receipts accepted once its payment is
+   * confirmed. Called by PaymentTrackingService, which checks permissions.
+   * @returns The accepted receipts
+   */
+  async acceptReceipts(contributionId: string, adminId: string): Promise<PaymentReceipt[]> {
+    const receiptsResult = await DatabaseService.receipts.getContributionReceipts(contributionId);
+    const submitted = (receiptsResult.data || []).filter(receipt => receipt.status === 'submitted');
+
+    const accepted: PaymentReceipt[] = [];
+    for (const receipt of submitted) {
+      const updates = { status: 'accepted' as const, reviewed_by: adminId, reviewed_at: getClock().now() };
+      const updateResult = await DatabaseService.receipts.updateReceipt(receipt.id, updates);
+      if (updateResult.success) {
+        accepted.push({ ...receipt, ...updates });
+      }
+    }
+    return accepted;
+  }
+
+  // Load a contribution and its group, checking the user may see its receipts
+  private async loadContribution(
+    contributionId: string,
+    userId: string,
+    action: string,
+  ): Promise<{ contribution: Contribution; group: Group }> {
+    const contributionResult = await DatabaseService.contributions.getContributionById(contributionId);
+    if (!contributionResult.success || !contributionResult.data) {
+      throw new ReceiptError('Contribution not found');
+    }
+    const contribution = contributionResult.data;
+
+    const groupResult = await DatabaseService.groups.getGroupById(contribution.group_id);
+    if (!groupResult.success || !groupResult.data) {
+      throw new ReceiptError('Group not found');
+    }
+    const group = groupResult.data;
+
+    if (contribution.user_id !== userId && !hasGroupPermission(group, userId, 'canMarkPayments')) {
+      throw new ReceiptError(`You can only ${action} your own contributions`);
+    }
+    return { contribution, group };
+  }
+
+  // A duplicate result if any fingerprint is already claimed
+  private async findDuplicate(
+    fingerprints: string[],
+    contributionId: string,
+  ): Promise<BusinessLogicResult<PaymentReceipt> | null> {
+    for (const fingerprint of fingerprints) {
+      const claimResult = await DatabaseService.receipts.getFingerprint(fingerprint);
+      const claim = claimResult.data;
+      if (!claim) {
+        continue;
+      }
+      return claim.contribution_id === contributionId
+        ? {
+            success: false,
+            error: 'This receipt is already attached to this contribution',
+            code: 'RECEIPT_ALREADY_ATTACHED',
+          }
+        : {
+            success: false,
+            error: fingerprint.startsWith('ref:')
+              ? 'A receipt with this transaction reference was already used for another contribution'
+              : 'This receipt was already used for another contribution',
+            code: 'DUPLICATE_RECEIPT',
+          };
+    }
+    return null;
+  }
+}
+
+export default new ReceiptService();
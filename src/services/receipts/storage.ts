@@ -0,0 +1,34 @@
+import storage from '@react-native-firebase/storage';
+import { ReceiptContentType } from '../../types/database';
+import { ReceiptFileStore } from './types';
+
+// Receipt files in Firebase Storage
+export class FirebaseReceiptFileStore implements ReceiptFileStore {
+  async upload(path: string, base64: string, contentType: ReceiptContentType): Promise<string> {
+    const reference = storage().ref(path);
+    await reference.putString(base64, 'base64', { contentType });
+    return reference.getDownloadURL();
+  }
+
+  async remove(path: string): Promise<void> {
+    await storage().ref(path).delete();
+  }
+}
+
+// Receipt files kept in memory, for tests and development
+export class InMemoryReceiptFileStore implements ReceiptFileStore {
+  private files = new Map<string, { base64: string; contentType: ReceiptContentType }>();
+
+  async upload(path: string, base64: string, contentType: ReceiptContentType): Promise<string> {
+    this.files.set(path, { base64, contentType });
+    return `memory://${path}`;
+  }
+
+  async remove(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  has(path: string): boolean {
+    return this.files.has(path);
+  }
+}
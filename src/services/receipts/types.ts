@@ -0,0 +1,15 @@
+import { ReceiptContentType } from '../../types/database';
+
+// A file as picked on the device, with its content base64-encoded
+export interface ReceiptFile {
+  name: string;
+  contentType: ReceiptContentType;
+  base64: string;
+}
+
+// Where receipt files are kept; receipts only store the path and URL
+export interface ReceiptFileStore {
+  // Store a file and return the URL it can be viewed at
+  upload(path: string, base64: string, contentType: ReceiptContentType): Promise<string>;
+  remove(path: string): Promise<void>;
+}
@@ -1,11 +1,19 @@
-import { SavingsGroup, GroupMember, Contribution, Payout } from './firestore';
+import {
+  contributionMapper,
+  groupMapper,
+  groupMemberMapper,
+  payoutMapper,
+} from './database/mappers';
+import { Contribution, GroupWithMembers, NewGroup, Payout } from '../types/database';
 
-// Sample data for testing business logic without Firebase
+// Sample data for testing business logic without Firebase.
+// Records are written in the document shape used by the first version of the app
+// and converted with the same mappers that read those documents from Firestore.
 export const SAMPLE_USER_ID = 'user123';
 export const SAMPLE_ADMIN_ID = 'admin456';
 
 // Sample Group Members
-export const sampleMembers: GroupMember[] = [
+const sampleMemberDocs: Record<string, any>[] = [
   {
     userId: SAMPLE_ADMIN_ID,
     displayName: 'John Doe (Admin)',
@@ -63,13 +71,13 @@ export const sampleMembers: GroupMember[] = [
 ];
 
 // Sample Groups
-export const sampleGroups: SavingsGroup[] = [
+const sampleGroupDocs: Record<string, any>[] = [
   {
     id: 'group1',
     name: 'Monthly Savers Circle',
     description: 'A trusted group of colleagues saving for the future',
     adminId: SAMPLE_ADMIN_ID,
-    members: sampleMembers,
+    members: sampleMemberDocs,
     contributionAmount: 5000,
     contributionFrequency: 'monthly',
     payoutSchedule: 'monthly',
@@ -86,7 +94,7 @@ export const sampleGroups: SavingsGroup[] = [
     name: 'Family Thrift Group',
     description: 'Weekly family savings for emergencies',
     adminId: SAMPLE_USER_ID,
-    members: sampleMembers.slice(0, 4), // Smaller group
+    members: sampleMemberDocs.slice(0, 4), // Smaller group
     contributionAmount: 2000,
     contributionFrequency: 'weekly',
     payoutSchedule: 'weekly',
@@ -103,7 +111,7 @@ export const sampleGroups: SavingsGroup[] = [
     name: 'Completed Success Group',
     description: 'A completed group that finished successfully',
     adminId: SAMPLE_ADMIN_ID,
-    members: sampleMembers.slice(0, 3),
+    members: sampleMemberDocs.slice(0, 3),
     contributionAmount: 10000,
     contributionFrequency: 'monthly',
     payoutSchedule: 'monthly',
@@ -118,7 +126,7 @@ export const sampleGroups: SavingsGroup[] = [
 ];
 
 // Sample Contributions
-export const sampleContributions: Contribution[] = [
+const sampleContributionDocs: Record<string, any>[] = [
   // Group 1 - Current Cycle (3) Contributions
   {
     id: 'contrib1',
@@ -128,7 +136,7 @@ export const sampleContributions: Contribution[] = [
     dueDate: new Date('2024-03-10'),
     paidDate: new Date('2024-03-08'),
     status: 'paid',
-    paymentMethod: 'Bank Transfer',
+    paymentMethod: 'bank_transfer',
     transactionId: 'TXN001',
     cycle: 3,
     createdAt: new Date('2024-03-08'),
@@ -141,7 +149,7 @@ export const sampleContributions: Contribution[] = [
     dueDate: new Date('2024-03-10'),
     paidDate: new Date('2024-03-09'),
     status: 'paid',
-    paymentMethod: 'Mobile Money',
+    paymentMethod: 'mobile_money',
     transactionId: 'TXN002',
     cycle: 3,
     createdAt: new Date('2024-03-09'),
@@ -153,7 +161,7 @@ export const sampleContributions: Contribution[] = [
     amount: 5000,
     dueDate: new Date('2024-03-10'),
     status: 'pending',
-    paymentMethod: 'Cash',
+    paymentMethod: 'cash',
     transactionId: 'CASH001',
     cycle: 3,
     createdAt: new Date('2024-03-11'),
@@ -166,7 +174,7 @@ export const sampleContributions: Contribution[] = [
     dueDate: new Date('2024-03-10'),
     paidDate: new Date('2024-03-07'),
     status: 'paid',
-    paymentMethod: 'Debit Card',
+    paymentMethod: 'card',
     transactionId: 'TXN003',
     cycle: 3,
     createdAt: new Date('2024-03-07'),
@@ -189,7 +197,7 @@ export const sampleContributions: Contribution[] = [
     dueDate: new Date('2024-03-10'),
     paidDate: new Date('2024-03-10'),
     status: 'paid',
-    paymentMethod: 'Bank Transfer',
+    paymentMethod: 'bank_transfer',
     transactionId: 'TXN004',
     cycle: 3,
     createdAt: new Date('2024-03-10'),
@@ -204,7 +212,7 @@ export const sampleContributions: Contribution[] = [
     dueDate: new Date('2024-03-15'),
     paidDate: new Date('2024-03-14'),
     status: 'paid',
-    paymentMethod: 'Mobile Money',
+    paymentMethod: 'mobile_money',
     transactionId: 'TXN005',
     cycle: 8,
     createdAt: new Date('2024-03-14'),
@@ -216,7 +224,7 @@ export const sampleContributions: Contribution[] = [
     amount: 2000,
     dueDate: new Date('2024-03-15'),
     status: 'pending',
-    paymentMethod: 'Cash',
+    paymentMethod: 'cash',
     transactionId: 'CASH002',
     cycle: 8,
     createdAt: new Date('2024-03-15'),
@@ -224,7 +232,7 @@ export const sampleContributions: Contribution[] = [
 ];
 
 // Sample Payouts
-export const samplePayouts: Payout[] = [
+const samplePayoutDocs: Record<string, any>[] = [
   {
     id: 'payout1',
     groupId: 'group1',
@@ -251,56 +259,76 @@ export const samplePayouts: Payout[] = [
   },
 ];
 
+export const sampleGroups: GroupWithMembers[] = sampleGroupDocs.map(doc => {
+  const group = groupMapper.fromDocument(doc.id, doc);
+  const members = (doc.members as Record<string, any>[]).map((member, index) => ({
+    ...groupMemberMapper.fromDocument(`${doc.id}_${member.userId}`, { ...member, groupId: doc.id }),
+    join_order: index + 1,
+  }));
+  return { ...group, total_members: members.length, members };
+});
+
+export const sampleMembers = sampleGroups[0].members;
+
+export const sampleContributions: Contribution[] = sampleContributionDocs.map(doc =>
+  contributionMapper.fromDocument(doc.id, doc),
+);
+
+export const samplePayouts: Payout[] = samplePayoutDocs.map(doc => payoutMapper.fromDocument(doc.id, doc));
+
 // Mock service functions that simulate Firebase calls
 class SampleDataService {
-  async getSavingsGroup(groupId: string): Promise<SavingsGroup | null> {
+  async getGroupWithMembers(groupId: string): Promise<GroupWithMembers | null> {
     await new Promise(resolve => setTimeout(resolve, 500)); // Simulate network delay
     return sampleGroups.find(group => group.id === groupId) || null;
   }
 
-  async getUserGroups(userId: string): Promise<SavingsGroup[]> {
+  async getUserGroups(userId: string): Promise<GroupWithMembers[]> {
     await new Promise(resolve => setTimeout(resolve, 800)); // Simulate network delay
     return sampleGroups.filter(group => 
-      group.members.some(member => member.userId === userId)
+      group.members.some(member => member.user_id === userId)
     );
   }
 
   async getGroupContributions(groupId: string, cycle?: number): Promise<Contribution[]> {
     await new Promise(resolve => setTimeout(resolve, 600)); // Simulate network delay
     return sampleContributions.filter(contrib => 
-      contrib.groupId === groupId && 
-      (cycle ? contrib.cycle === cycle : true)
+      contrib.group_id === groupId && 
+      (cycle ? contrib.cycle_number === cycle : true)
     );
   }
 
   async getUserContributions(userId: string, groupId?: string): Promise<Contribution[]> {
     await new Promise(resolve => setTimeout(resolve, 700)); // Simulate network delay
     return sampleContributions.filter(contrib => 
-      contrib.userId === userId &&
-      (groupId ? contrib.groupId === groupId : true)
+      contrib.user_id === userId &&
+      (groupId ? contrib.group_id === groupId : true)
     );
   }
 
-  async createContribution(contributionData: Omit<Contribution, 'id' | 'createdAt'>): Promise<string | null> {
+  async createContribution(
+    contributionData: Omit<Contribution, 'id' | 'created_at' | 'updated_at'>,
+  ): Promise<string | null> {
     await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate network delay
     const newId = `contrib_${Date.now()}`;
     const newContribution: Contribution = {
       ...contributionData,
       id: newId,
-      createdAt: new Date(),
+      created_at: new Date(),
+      updated_at: new Date(),
     };
     sampleContributions.push(newContribution);
     return newId;
   }
 
-  async createSavingsGroup(groupData: Omit<SavingsGroup, 'id' | 'createdAt' | 'updatedAt'>): Promise<string | null> {
+  async createGroup(groupData: NewGroup): Promise<string | null> {
     await new Promise(resolve => setTimeout(resolve, 1200)); // Simulate network delay
     const newId = `group_${Date.now()}`;
-    const newGroup: SavingsGroup = {
-      ...groupData,
-      id: newId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    const newGroup: GroupWithMembers = {
+      ...groupMapper.fromDocument(newId, groupData),
+      created_at: new Date(),
+      updated_at: new Date(),
+      members: [],
     };
     sampleGroups.push(newGroup);
     return newId;
@@ -308,21 +336,22 @@ class SampleDataService {
 
   async getUserPayouts(userId: string): Promise<Payout[]> {
     await new Promise(resolve => setTimeout(resolve, 500)); // Simulate network delay
-    return samplePayouts.filter(payout => payout.recipientId === userId);
+    return samplePayouts.filter(payout => payout.recipient_id === userId);
   }
 
   async getGroupPayouts(groupId: string): Promise<Payout[]> {
     await new Promise(resolve => setTimeout(resolve, 500)); // Simulate network delay
-    return samplePayouts.filter(payout => payout.groupId === groupId);
+    return samplePayouts.filter(payout => payout.group_id === groupId);
   }
 
-  async createPayout(payoutData: Omit<Payout, 'id' | 'createdAt'>): Promise<string | null> {
+  async createPayout(payoutData: Omit<Payout, 'id' | 'created_at' | 'updated_at'>): Promise<string | null> {
     await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate network delay
     const newId = `payout_${Date.now()}`;
     const newPayout: Payout = {
       ...payoutData,
       id: newId,
-      createdAt: new Date(),
+      created_at: new Date(),
+      updated_at: new Date(),
     };
     samplePayouts.push(newPayout);
     return newId;
@@ -337,12 +366,6 @@ class SampleDataService {
     }
     return false;
   }
-
-  async batchUpdate(updates: { collection: string; docId: string; data: any }[]): Promise<boolean> {
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate network delay
-    // Simulate batch update success
-    return true;
-  }
 }
 
 export const sampleDataService = new SampleDataService();
\ No newline at end of file
@@ -0,0 +1,129 @@
+import DatabaseService from '../database';
+import GroupInviteService from '../groupInvites';
+import { OutboxAction, SyncOutcome } from './types';
+
+// Error codes that mean the request may succeed if sent again later
+const TRANSIENT_ERROR_CODES = new Set([
+  'unavailable',
+  'deadline-exceeded',
+  'resource-exhausted',
+  'aborted',
+  'internal',
+  'network-request-failed',
+]);
+
+// Failures without a code come from thrown errors (usually the network), so they are retried
+const failureOutcome = (result: { error?: string; code?: string }, fallback: string): SyncOutcome => {
+  const error = result.error || fallback;
+  return !result.code || TRANSIENT_ERROR_CODES.has(result.code)
+    ? { status: 'retry', error }
+    : { status: 'rejected', error };
+};
+
+const versionOf = (record: { updated_at: Date }): number => new Date(record.updated_at).getTime();
+
+// A server record is in conflict when it changed after the version the action was based on
+const isNewerThanBase = (action: OutboxAction, serverVersion: number): boolean =>
+  action.base_version === undefined || serverVersion > action.base_version;
+
+/**
+ * Record a contribution paid while offline. Replaying an action whose
+ * contribution already reached the server (same transaction reference) is a
+ * no-op; any other contribution already recorded for the cycle is a conflict.
+ */
+export const syncMakePayment = async (action: OutboxAction<'MAKE_PAYMENT'>): Promise<SyncOutcome> => {
+  const { payload } = action;
+  const existingResult = await DatabaseService.contributions.getCycleContributions(
+    payload.group_id,
+    payload.cycle_number,
+  );
+  if (!existingResult.success || !existingResult.data) {
+    return failureOutcome(existingResult, 'Failed to load contributions');
+  }
+
+  const details = {
+    amount: payload.amount,
+    ...(payload.paid_date ? { paid_date: new Date(payload.paid_date) } : {}),
+    ...(payload.payment_method ? { payment_method: payload.payment_method } : {}),
+    ...(payload.transaction_reference ? { transaction_reference: payload.transaction_reference } : {}),
+  };
+
+  const existing = existingResult.data.find(contribution => contribution.user_id === payload.user_id);
+  if (existing) {
+    if (payload.transaction_reference && existing.transaction_reference === payload.transaction_reference) {
+      return { status: 'synced' };
+    }
+    if (isNewerThanBase(action, versionOf(existing))) {
+      return {
+        status: 'conflict',
+        error: `A contribution for cycle ${payload.cycle_number} was already recorded`,
+        serverVersion: versionOf(existing),
+      };
+    }
+    const updateResult = await DatabaseService.contributions.updateContribution(existing.id, details);
+    return updateResult.success ? { status: 'synced' } : failureOutcome(updateResult, 'Failed to update contribution');
+  }
+
+  const createResult = await DatabaseService.contributions.createContribution({
+    group_id: payload.group_id,
+    user_id: payload.user_id,
+    cycle_number: payload.cycle_number,
+    due_date: new Date(payload.due_date),
+    ...details,
+  });
+  return createResult.success ? { status: 'synced' } : failureOutcome(createResult, 'Failed to record contribution');
+};
+
+// Create the group under the ID it was given offline. A replay after the group
+// reached the server (say the response was lost) finds it and does nothing.
+export const syncCreateGroup = async (action: OutboxAction<'CREATE_GROUP'>): Promise<SyncOutcome> => {
+  const { group_id, ...groupData } = action.payload;
+  const existingResult = await DatabaseService.groups.getGroupById(group_id);
+  if (!existingResult.success) {
+    return failureOutcome(existingResult, 'Failed to load group');
+  }
+  if (existingResult.data) {
+    return { status: 'synced' };
+  }
+
+  const result = await DatabaseService.createGroupWithAdmin(
+    { ...groupData, start_date: new Date(groupData.start_date) },
+    group_id,
+  );
+  return result.success ? { status: 'synced' } : failureOutcome(result, 'Failed to create group');
+};
+
+// Apply profile edits unless the profile was changed elsewhere since they were made
+export const syncUpdateProfile = async (action: OutboxAction<'UPDATE_PROFILE'>): Promise<SyncOutcome> => {
+  const { user_id, updates } = action.payload;
+  const userResult = await DatabaseService.users.getUserById(user_id);
+  if (!userResult.success) {
+    return failureOutcome(userResult, 'Failed to load profile');
+  }
+  if (!userResult.data) {
+    return { status: 'rejected', error: 'User not found' };
+  }
+
+  if (action.base_version !== undefined && isNewerThanBase(action, versionOf(userResult.data))) {
+    return {
+      status: 'conflict',
+      error: 'Your profile was changed on another device',
+      serverVersion: versionOf(userResult.data),
+    };
+  }
+
+  const updateResult = await DatabaseService.users.updateUser(user_id, updates);
+  return updateResult.success ? { status: 'synced' } : failureOutcome(updateResult, 'Failed to update profile');
+};
+
+export const syncJoinGroup = async (action: OutboxAction<'JOIN_GROUP'>): Promise<SyncOutcome> => {
+  // useInviteCode is a service method, not a React hook
+  // eslint-disable-next-line react-hooks/rules-of-hooks
+  const result = await GroupInviteService.useInviteCode(action.payload.invite_code, action.payload.user_id);
+  if (result.success || result.code === 'ALREADY_MEMBER') {
+    return { status: 'synced' };
+  }
+  return result.code === 'JOIN_FAILED' || result.code === 'USAGE_ERROR'
+    ? { status: 'retry', error: result.error || 'Failed to join group' }
+    : { status: 'rejected', error: result.error || 'Invalid invite code' };
+};
@@ -0,0 +1,372 @@
+import { networkManager } from '../../utils/network';
+import { TimerHandle, getClock } from '../jobs/clock';
+import { syncCreateGroup, syncJoinGroup, syncMakePayment, syncUpdateProfile } from './handlers';
+import { outbox } from './outbox';
+import {
+  FlushSummary,
+  OutboxAction,
+  SyncActionType,
+  SyncHandler,
+  SyncOptions,
+  SyncOutcome,
+  SyncPayloads,
+  SyncStatus,
+} from './types';
+
+export * from './types';
+
+const DEFAULT_OPTIONS: SyncOptions = {
+  maxAttempts: 6,
+  retryDelayMs: 5 * 1000,
+  maxRetryDelayMs: 10 * 60 * 1000,
+};
+
+type SyncListener = (status: SyncStatus) => void;
+
+/**
+ * Offline-first sync engine.
+ *
+ * Actions taken without a connection are written to a durable outbox and
+ * sent by a typed handler once the device is back online. Transient failures
+ * are retried with exponential backoff; actions that keep failing, or that the
+ * server refuses, stay in the outbox as dead letters for the member to retry
+ * or discard, and actions whose record changed on the server meanwhile wait
+ * for the member to resolve the conflict. Nothing is dropped silently.
+ */
+export class SyncEngine {
+  private handlers = new Map<SyncActionType, SyncHandler<any>>();
+  private listeners: SyncListener[] = [];
+  private options: SyncOptions;
+  private flushing: Promise<FlushSummary> | null = null;
+  private flushRequested = false;
+  private wakeTimer: TimerHandle | null = null;
+  private wakeAt = 0;
+  private unsubscribeNetwork: (() => void) | null = null;
+  private lastSyncedAt?: Date;
+  private idCounter = 0;
+
+  constructor(options: Partial<SyncOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.registerHandler('MAKE_PAYMENT', syncMakePayment);
+    this.registerHandler('CREATE_GROUP', syncCreateGroup);
+    this.registerHandler('UPDATE_PROFILE', syncUpdateProfile);
+    this.registerHandler('JOIN_GROUP', syncJoinGroup);
+  }
+
+  // Register the function that sends actions of a type to the server
+  registerHandler<T extends SyncActionType>(type: T, handler: SyncHandler<T>): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add an action to the outbox. It is sent on the next flush, straight away
+   * when the sync engine is running and the device is online.
+   * @param options.entityKey - Record the action changes; its actions are sent in order
+   * @param options.baseVersion - updated_at of the record the change was made against
+   */
+  async enqueue<T extends SyncActionType>(
+    type: T,
+    payload: SyncPayloads[T],
+    options: { entityKey?: string; baseVersion?: Date } = {},
+  ): Promise<OutboxAction<T>> {
+    const now = getClock().now().getTime();
+    const action: OutboxAction<T> = {
+      id: `${type}_${now}_${String(this.idCounter++).padStart(6, '0')}_${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      payload,
+      ...(options.entityKey ? { entity_key: options.entityKey } : {}),
+      ...(options.baseVersion ? { base_version: new Date(options.baseVersion).getTime() } : {}),
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await outbox.save(action);
+    await this.notifyListeners();
+    if (this.isRunning()) {
+      this.scheduleWake(0);
+    }
+    return action;
+  }
+
+  /**
+   * Send every due action. Concurrent calls share one flush, so an action is
+   * never sent twice at once; a call made mid-flush makes it go round again
+   * to pick up anything queued in the meantime.
+   */
+  flush(): Promise<FlushSummary> {
+    if (this.flushing) {
+      this.flushRequested = true;
+      return this.flushing;
+    }
+    this.flushing = this.flushUntilSettled().finally(() => {
+      this.flushing = null;
+      this.notifyListeners();
+    });
+    this.notifyListeners();
+    return this.flushing;
+  }
+
+  // All actions still in the outbox, oldest first
+  async getActions(): Promise<OutboxAction[]> {
+    return outbox.getAll();
+  }
+
+  // Conflicts and dead letters, which only the member can move on
+  async getNeedsAttention(): Promise<OutboxAction[]> {
+    return (await outbox.getAll()).filter(action => action.status !== 'pending');
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const actions = await outbox.getAll();
+    return {
+      online: networkManager.getNetworkStatus(),
+      syncing: this.flushing !== null,
+      pending: actions.filter(action => action.status === 'pending').length,
+      needsAttention: actions.filter(action => action.status !== 'pending'),
+      lastSyncedAt: this.lastSyncedAt,
+    };
+  }
+
+  // Give a dead letter a fresh set of attempts
+  async retry(actionId: string): Promise<boolean> {
+    const action = await outbox.get(actionId);
+    if (!action || action.status !== 'dead') {
+      return false;
+    }
+    await this.requeue(action, {});
+    return true;
+  }
+
+  // Drop an action the member no longer wants sent
+  async discard(actionId: string): Promise<boolean> {
+    const action = await outbox.get(actionId);
+    if (!action) {
+      return false;
+    }
+    await outbox.remove(actionId);
+    await this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Settle a conflict: 'overwrite' sends the action again against the server
+   * version it conflicted with, 'discard' keeps the server's version.
+   */
+  async resolveConflict(actionId: string, resolution: 'overwrite' | 'discard'): Promise<boolean> {
+    const action = await outbox.get(actionId);
+    if (!action || action.status !== 'conflict') {
+      return false;
+    }
+    if (resolution === 'discard') {
+      return this.discard(actionId);
+    }
+    await this.requeue(action, { base_version: action.server_version });
+    return true;
+  }
+
+  // Listen for outbox and connectivity changes; returns an unsubscribe function
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.push(listener);
+    this.getStatus().then(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Flush now and whenever the connection comes back
+  start(): void {
+    if (this.unsubscribeNetwork) {
+      return;
+    }
+    this.unsubscribeNetwork = networkManager.addListener(isOnline => {
+      this.notifyListeners();
+      if (isOnline) {
+        this.flush();
+      }
+    });
+    this.scheduleWake(0);
+  }
+
+  stop(): void {
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = null;
+    if (this.wakeTimer !== null) {
+      getClock().clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.unsubscribeNetwork !== null;
+  }
+
+  private async flushUntilSettled(): Promise<FlushSummary> {
+    const total: FlushSummary = { synced: 0, retrying: 0, conflicts: 0, dead: 0, offline: false };
+    do {
+      this.flushRequested = false;
+      const summary = await this.runFlush();
+      total.synced += summary.synced;
+      total.retrying += summary.retrying;
+      total.conflicts += summary.conflicts;
+      total.dead += summary.dead;
+      total.offline = summary.offline;
+    } while (this.flushRequested && !total.offline);
+
+    if (total.synced > 0) {
+      this.lastSyncedAt = getClock().now();
+    }
+    await this.scheduleNextRetry();
+    return total;
+  }
+
+  private async runFlush(): Promise<FlushSummary> {
+    const summary: FlushSummary = { synced: 0, retrying: 0, conflicts: 0, dead: 0, offline: false };
+    if (!networkManager.getNetworkStatus()) {
+      return { ...summary, offline: true };
+    }
+
+    const now = getClock().now().getTime();
+    // Records with an earlier action still outstanding; later actions on them wait their turn
+    const blocked = new Set<string>();
+    const block = (action: OutboxAction) => {
+      if (action.entity_key) {
+        blocked.add(action.entity_key);
+      }
+    };
+
+    for (const action of await outbox.getAll()) {
+      if (action.status !== 'pending' || action.next_attempt_at > now) {
+        block(action);
+        continue;
+      }
+      if (action.entity_key && blocked.has(action.entity_key)) {
+        continue;
+      }
+      if (!networkManager.getNetworkStatus()) {
+        return { ...summary, offline: true };
+      }
+
+      const outcome = await this.send(action);
+      const attempts = action.attempts + 1;
+      const updatedAt = getClock().now().getTime();
+
+      if (outcome.status === 'synced') {
+        await outbox.remove(action.id);
+        summary.synced++;
+        continue;
+      }
+
+      block(action);
+      // The member may have discarded the action while it was being sent
+      if (!(await outbox.get(action.id))) {
+        continue;
+      }
+      if (outcome.status === 'conflict') {
+        await outbox.save({
+          ...action,
+          status: 'conflict',
+          attempts,
+          last_error: outcome.error,
+          ...(outcome.serverVersion !== undefined ? { server_version: outcome.serverVersion } : {}),
+          updated_at: updatedAt,
+        });
+        summary.conflicts++;
+      } else if (outcome.status === 'rejected' || attempts >= this.options.maxAttempts) {
+        await outbox.save({ ...action, status: 'dead', attempts, last_error: outcome.error, updated_at: updatedAt });
+        console.error(`Sync action ${action.id} moved to dead letters after ${attempts} attempts:`, outcome.error);
+        summary.dead++;
+      } else {
+        await outbox.save({
+          ...action,
+          attempts,
+          next_attempt_at: updatedAt + this.retryDelay(attempts),
+          last_error: outcome.error,
+          updated_at: updatedAt,
+        });
+        summary.retrying++;
+      }
+    }
+
+    return summary;
+  }
+
+  private async send(action: OutboxAction): Promise<SyncOutcome> {
+    const handler = this.handlers.get(action.type);
+    if (!handler) {
+      return { status: 'rejected', error: `No sync handler for ${action.type}` };
+    }
+    try {
+      return await handler(action);
+    } catch (error: any) {
+      return { status: 'retry', error: error?.message || String(error) };
+    }
+  }
+
+  private async requeue(action: OutboxAction, changes: Partial<OutboxAction>): Promise<void> {
+    const now = getClock().now().getTime();
+    await outbox.save({
+      ...action,
+      ...changes,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+      updated_at: now,
+    });
+    await this.notifyListeners();
+    if (this.isRunning()) {
+      this.scheduleWake(0);
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(this.options.retryDelayMs * 2 ** (attempts - 1), this.options.maxRetryDelayMs);
+  }
+
+  // Wake up when the earliest backed-off action is due. Due actions still
+  // pending after a flush are waiting on another action and need no timer.
+  private async scheduleNextRetry(): Promise<void> {
+    if (!this.isRunning()) {
+      return;
+    }
+    const now = getClock().now().getTime();
+    const waiting = (await outbox.getAll()).filter(
+      action => action.status === 'pending' && action.next_attempt_at > now,
+    );
+    if (waiting.length > 0) {
+      this.scheduleWake(Math.min(...waiting.map(action => action.next_attempt_at)) - now);
+    }
+  }
+
+  // Keeps an earlier wake-up that is already scheduled
+  private scheduleWake(delayMs: number): void {
+    const at = getClock().now().getTime() + delayMs;
+    if (this.wakeTimer !== null) {
+      if (this.wakeAt <= at) {
+        return;
+      }
+      getClock().clearTimeout(this.wakeTimer);
+    }
+    this.wakeAt = at;
+    this.wakeTimer = getClock().setTimeout(async () => {
+      this.wakeTimer = null;
+      await this.flush();
+    }, delayMs);
+  }
+
+  private async notifyListeners(): Promise<void> {
+    if (this.listeners.length === 0) {
+      return;
+    }
+    try {
+      const status = await this.getStatus();
+      this.listeners.forEach(listener => listener(status));
+    } catch (error) {
+      console.error('Error reading sync status:', error);
+    }
+  }
+}
+
+export default new SyncEngine();
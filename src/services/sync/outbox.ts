@@ -0,0 +1,41 @@
+import { storage } from '../../utils/network';
+import { OutboxAction } from './types';
+
+const KEY_PREFIX = 'sync_outbox:';
+
+/**
+ * Durable outbox kept in AsyncStorage, one key per action.
+ *
+ * Writing actions individually means saving one action can never overwrite
+ * another with a stale copy, however flushes and new enqueues interleave.
+ */
+export const outbox = {
+  save: async (action: OutboxAction): Promise<void> => {
+    await storage.set(`${KEY_PREFIX}${action.id}`, JSON.stringify(action));
+  },
+
+  get: async (actionId: string): Promise<OutboxAction | null> => {
+    const value = await storage.getString(`${KEY_PREFIX}${actionId}`);
+    return value ? JSON.parse(value) : null;
+  },
+
+  remove: async (actionId: string): Promise<void> => {
+    await storage.delete(`${KEY_PREFIX}${actionId}`);
+  },
+
+  // Every stored action in the order it was queued
+  getAll: async (): Promise<OutboxAction[]> => {
+    const keys = (await storage.getAllKeys()).filter(key => key.startsWith(KEY_PREFIX));
+    const actions: OutboxAction[] = [];
+    for (const key of keys) {
+      const value = await storage.getString(key);
+      if (!value) continue;
+      try {
+        actions.push(JSON.parse(value));
+      } catch {
+        console.error(`Skipping unreadable outbox entry ${key}`);
+      }
+    }
+    return actions.sort((a, b) => a.created_at - b.created_at || a.id.localeCompare(b.id));
+  },
+};
@@ -0,0 +1,89 @@
+import { Contribution, NewGroup, User } from '../../types/database';
+
+export type SyncActionType = 'MAKE_PAYMENT' | 'CREATE_GROUP' | 'UPDATE_PROFILE' | 'JOIN_GROUP';
+
+// Payloads are stored as JSON, so dates travel as ISO strings
+export interface MakePaymentPayload {
+  group_id: string;
+  user_id: string;
+  amount: number;
+  cycle_number: number;
+  due_date: string;
+  paid_date?: string;
+  payment_method?: Contribution['payment_method'];
+  transaction_reference?: string;
+}
+
+// group_id comes from DatabaseService.groups.generateGroupId() when the action is
+// queued, so sending it again finds the group instead of creating a second one
+export type CreateGroupPayload = Pick<
+  NewGroup,
+  'name' | 'description' | 'contribution_amount' | 'admin_id' | 'max_members' | 'contribution_frequency' | 'currency'
+> & { group_id: string; start_date: string };
+
+export interface UpdateProfilePayload {
+  user_id: string;
+  updates: Partial<Pick<User, 'name' | 'email' | 'phone' | 'address' | 'occupation' | 'profile_picture'>>;
+}
+
+export interface JoinGroupPayload {
+  invite_code: string;
+  user_id: string;
+}
+
+export interface SyncPayloads {
+  MAKE_PAYMENT: MakePaymentPayload;
+  CREATE_GROUP: CreateGroupPayload;
+  UPDATE_PROFILE: UpdateProfilePayload;
+  JOIN_GROUP: JoinGroupPayload;
+}
+
+// pending: waiting to be sent, possibly backing off after a failed attempt
+// conflict: the server record changed after the action was queued
+// dead: gave up after too many attempts, or the server refused the action
+export type OutboxStatus = 'pending' | 'conflict' | 'dead';
+
+export interface OutboxAction<T extends SyncActionType = SyncActionType> {
+  id: string;
+  type: T;
+  payload: SyncPayloads[T];
+  entity_key?: string; // actions on the same record are sent in order, e.g. "user:abc"
+  base_version?: number; // server updated_at (ms) the action was based on
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number; // ms
+  last_error?: string;
+  server_version?: number; // server updated_at (ms) found when a conflict was detected
+  created_at: number;
+  updated_at: number;
+}
+
+export type SyncOutcome =
+  | { status: 'synced' }
+  | { status: 'retry'; error: string } // transient, e.g. the connection dropped mid-request
+  | { status: 'conflict'; error: string; serverVersion?: number }
+  | { status: 'rejected'; error: string }; // permanent, retrying will not help
+
+export type SyncHandler<T extends SyncActionType = SyncActionType> = (action: OutboxAction<T>) => Promise<SyncOutcome>;
+
+export interface SyncOptions {
+  maxAttempts: number;
+  retryDelayMs: number; // delay before the second attempt, doubled on each further attempt
+  maxRetryDelayMs: number;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  needsAttention: OutboxAction[]; // conflicts and dead letters, oldest first
+  lastSyncedAt?: Date;
+}
+
+export interface FlushSummary {
+  synced: number;
+  retrying: number;
+  conflicts: number;
+  dead: number;
+  offline: boolean;
+}
@@ -0,0 +1,404 @@
+import { Group, GroupMember, Contribution, Payout, CurrencyCode, PendingAction } from './database';
+
+// Business Logic Types
+export interface TurnOrder {
+  cycle: number;
+  recipientId: string;
+  recipientName: string;
+  joinOrder: number;
+  scheduledDate: Date;
+  status: 'upcoming' | 'current' | 'completed';
+  discountAmount?: number; // bid discount the recipient gives up (bidding strategy)
+}
+
+export interface PaymentStatusSummary {
+  groupId: string;
+  cycle: number;
+  totalMembers: number;
+  paidMembers: number;
+  pendingMembers: number;
+  overdueMembers: number;
+  partiallyPaidMembers: number; // paid some of their contribution and are not overdue
+  totalExpected: number;
+  totalCollected: number; // includes part payments
+  currency: CurrencyCode; // of the totals above
+  completionRate: number;
+  membersStatus: MemberPaymentStatus[];
+}
+
+export interface MemberPaymentStatus {
+  userId: string;
+  groupId: string;
+  userName: string;
+  status: 'paid' | 'partially_paid' | 'pending' | 'overdue' | 'cancelled';
+  amount: number;
+  dueDate: Date;
+  paidDate?: Date;
+  daysOverdue?: number;
+  contributionId?: string;
+  paidAmount?: number; // paid so far, when paying in pieces
+  outstandingAmount?: number;
+  onInstallmentPlan?: boolean;
+}
+
+export interface CycleProcessingResult {
+  success: boolean;
+  groupId: string;
+  previousCycle: number;
+  newCycle: number;
+  payoutCreated: boolean;
+  contributionsCreated: boolean;
+  recipientId: string;
+  payoutAmount: number;
+  error?: string;
+  warnings: string[];
+}
+
+export interface GroupCompletionStatus {
+  isCompleted: boolean;
+  groupId: string;
+  totalCycles: number;
+  completedCycles: number;
+  remainingCycles: number;
+  allMembersReceived: boolean;
+  finalPayoutDate?: Date;
+  completionRate: number;
+  issues: string[];
+}
+
+export interface PaymentReminderConfig {
+  groupId: string;
+  reminderTypes: ReminderType[];
+  daysBeforeDue: number[];
+  includePenaltyWarning: boolean;
+  customMessage?: string;
+}
+
+export interface ReminderType {
+  type: 'push' | 'email' | 'sms';
+  enabled: boolean;
+  template: string;
+}
+
+export interface ReminderResult {
+  success: boolean;
+  totalSent: number;
+  failedSends: number;
+  results: Array<{
+    userId: string;
+    reminderType: 'push' | 'email' | 'sms';
+    success: boolean;
+    error?: string;
+  }>;
+}
+
+// Business Logic Errors
+export class BusinessLogicError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'BusinessLogicError';
+  }
+}
+
+export class TurnOrderError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'TURN_ORDER_ERROR', details);
+  }
+}
+
+export class TurnSwapError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'TURN_SWAP_ERROR', details);
+  }
+}
+
+export class PaymentValidationError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'PAYMENT_VALIDATION_ERROR', details);
+  }
+}
+
+export class CycleProcessingError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'CYCLE_PROCESSING_ERROR', details);
+  }
+}
+
+export class GroupCompletionError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'GROUP_COMPLETION_ERROR', details);
+  }
+}
+
+export class LedgerError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'LEDGER_ERROR', details);
+  }
+}
+
+export class ReconciliationError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'RECONCILIATION_ERROR', details);
+  }
+}
+
+export class PaymentError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'PAYMENT_ERROR', details);
+  }
+}
+
+export class NotificationError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'NOTIFICATION_ERROR', details);
+  }
+}
+
+export class ApprovalError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'APPROVAL_ERROR', details);
+  }
+}
+
+export class AuditError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'AUDIT_ERROR', details);
+  }
+}
+
+export class ReceiptError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'RECEIPT_ERROR', details);
+  }
+}
+
+export class WalletError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'WALLET_ERROR', details);
+  }
+}
+
+export class PayoutError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'PAYOUT_ERROR', details);
+  }
+}
+
+export class PenaltyDisputeError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'PENALTY_DISPUTE_ERROR', details);
+  }
+}
+
+export class EmailError extends BusinessLogicError {
+  constructor(message: string, details?: any) {
+    super(message, 'EMAIL_ERROR', details);
+  }
+}
+
+// Utility Types
+export interface BusinessLogicResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  warnings?: string[];
+  pendingAction?: PendingAction; // with code APPROVAL_REQUIRED: the request now waiting for sign-off
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface CycleTransition {
+  fromCycle: number;
+  toCycle: number;
+  transitionDate: Date;
+  previousRecipient: string;
+  nextRecipient: string;
+  payoutProcessed: boolean;
+  contributionsGenerated: boolean;
+}
+
+export interface GroupMetrics {
+  groupId: string;
+  averagePaymentTime: number; // days
+  reliabilityRate: number; // percentage
+  onTimePaymentRate: number; // percentage
+  totalValue: number;
+  memberRetentionRate: number; // percentage
+  cycleCompletionRate: number; // percentage
+  riskScore: number; // 0-100, lower is better
+}
+
+export interface RiskAssessment {
+  groupId: string;
+  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  riskScore: number;
+  factors: RiskFactor[];
+  recommendations: string[];
+  lastAssessment: Date;
+}
+
+export interface RiskFactor {
+  factor: string;
+  weight: number;
+  score: number;
+  description: string;
+  impact: 'low' | 'medium' | 'high';
+}
+
+// Constants
+export const BUSINESS_CONSTANTS = {
+  MAX_OVERDUE_DAYS: 30,
+  DEFAULT_GRACE_PERIOD: 3,
+  MIN_RELIABILITY_SCORE: 60,
+  PENALTY_RATE: 0.05, // 5% penalty
+  REMINDER_DAYS: [7, 3, 1, 0], // Days before due date
+  MAX_FAILED_PAYMENTS: 3,
+  RISK_THRESHOLD: {
+    LOW: 25,
+    MEDIUM: 50,
+    HIGH: 75,
+    CRITICAL: 90,
+  },
+} as const;
+
+// Enums
+export enum CycleStatus {
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  COMPLETING = 'completing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum PaymentWindow {
+  EARLY = 'early',
+  ON_TIME = 'on_time',
+  GRACE_PERIOD = 'grace_period',
+  OVERDUE = 'overdue',
+  EXPIRED = 'expired',
+}
+
+export enum GroupHealth {
+  HEALTHY = 'healthy',
+  WARNING = 'warning',
+  CRITICAL = 'critical',
+  FAILING = 'failing',
+}
+
+export enum NotificationPriority {
+  LOW = 'low',
+  NORMAL = 'normal',
+  HIGH = 'high',
+  URGENT = 'urgent',
+}
+
+// Function parameter types
+export interface CalculateTurnOrderParams {
+  group: Group;
+  members: GroupMember[];
+  currentCycle?: number;
+}
+
+export type TurnOrderRecalculationReason =
+  | 'member_added'
+  | 'member_removed'
+  | 'member_status_changed'
+  | 'strategy_changed'
+  | 'bid_placed'
+  | 'swap_approved'
+  | 'swap_completed';
+
+export interface ProposeTurnSwapParams {
+  groupId: string;
+  requesterId: string;
+  requesterCycle: number; // the requester's own upcoming cycle
+  counterpartyCycle: number; // the cycle they want; its recipient becomes the counterparty
+  message?: string;
+}
+
+export interface TurnOrderVerification {
+  auditId: string;
+  matches: boolean; // re-running the strategy gave the recorded order
+  checksumValid: boolean;
+  expectedOrder: string[];
+  recordedOrder: string[];
+}
+
+export interface LatePaymentDecision {
+  action: 'warning' | 'penalty' | 'suspension' | 'removal' | null;
+  fee: number; // late fee owed under the policy, whether or not it is charged yet
+  notes: string;
+}
+
+export interface PayoutShortfallDecision {
+  release: boolean; // whether the cycle's payout can go ahead now
+  shortfall: number; // still to be collected
+  heldUntil?: Date; // when a 'delay' hold ends
+  notes: string;
+}
+
+export interface LedgerMemberPosition {
+  userId: string;
+  paidIn: number; // contributions, including late fees settled with them
+  received: number; // payouts before processing fees, refunds and settlements
+  penalties: number; // late fees charged
+  paidOut: number; // received + penalties
+  net: number; // paidIn - paidOut; positive while the group owes the member
+}
+
+export interface PayoutReconciliation {
+  groupId: string;
+  reconciled: boolean;
+  potBalance: number;
+  recordedPayoutTotal: number; // group.total_payouts_made
+  ledgerPayoutTotal: number; // net amounts paid to recipients according to the ledger
+  missingEntries: string[]; // sent payouts with no ledger entry
+  mismatchedEntries: { payoutId: string; payoutAmount: number; ledgerAmount: number }[];
+  unexpectedEntries: string[]; // ledger payouts whose payout has not been sent
+  unbalancedEntries: string[];
+}
+
+export interface AuditChainVerification {
+  groupId: string;
+  valid: boolean;
+  entryCount: number;
+  headHash: string | null; // hash of the latest entry, to compare with a copy members kept
+  brokenAt?: number; // sequence of the first entry that doesn't check out
+  problem?: 'hash_mismatch' | 'broken_link' | 'missing_entry' | 'head_mismatch';
+}
+
+export interface CheckPaymentStatusParams {
+  groupId: string;
+  cycle: number;
+  includeHistory?: boolean;
+}
+
+export interface ProcessGroupCycleParams {
+  groupId: string;
+  adminId: string;
+  forceProcess?: boolean;
+  skipValidation?: boolean;
+}
+
+export interface ValidateGroupCompletionParams {
+  group: Group;
+  members: GroupMember[];
+  contributions: Contribution[];
+  payouts: Payout[];
+}
+
+export interface SendPaymentRemindersParams {
+  groupId: string;
+  cycle: number;
+  reminderConfig?: PaymentReminderConfig;
+  testMode?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,1039 @@
+export interface User {
+  id: string;
+  phone: string;
+  email?: string;
+  name: string;
+  bvn_verified: boolean;
+  created_at: Date;
+  updated_at: Date;
+  
+  // Optional profile fields
+  profile_picture?: string;
+  date_of_birth?: Date;
+  address?: string;
+  occupation?: string;
+  emergency_contact?: {
+    name: string;
+    phone: string;
+    relationship: string;
+  };
+  
+  // App settings
+  notification_preferences?: {
+    push_enabled: boolean;
+    email_enabled: boolean;
+    contribution_reminders: boolean;
+    payout_alerts: boolean;
+  };
+  reminder_preferences?: Record<string, any>; // PaymentReminderService config
+  delivery_preferences?: NotificationDeliveryPreferences; // how and when scheduled notifications reach the member
+  language?: LanguageCode; // notifications are sent in English when unset
+  email_suppression?: EmailSuppression | null; // no emails until the member resubscribes
+  email_soft_bounces?: number; // temporary delivery failures since the last delivered email
+  email_unsubscribe_token?: string; // identifies the member in unsubscribe links
+  
+  // Verification status
+  phone_verified: boolean;
+  email_verified: boolean;
+  identity_verified: boolean;
+  
+  // Stats
+  total_groups: number;
+  total_contributions: number;
+  total_payouts_received: number;
+  reliability_score: number; // 0-100 based on payment history
+}
+
+export interface NewUser {
+  phone: string;
+  name: string;
+  email?: string;
+  bvn_verified?: boolean;
+  phone_verified?: boolean;
+  email_verified?: boolean;
+  identity_verified?: boolean;
+  notification_preferences?: User['notification_preferences'];
+}
+
+// ISO 4217 codes of the currencies groups can save in (see utils/money.ts)
+export type CurrencyCode = 'NGN' | 'KES' | 'UGX' | 'GHS' | 'ZAR' | 'XOF' | 'TZS' | 'RWF';
+
+// Languages notifications are sent in (see utils/languages.ts): English, Yoruba,
+// Hausa, Igbo, Swahili and Nigerian Pidgin
+export type LanguageCode = 'en' | 'yo' | 'ha' | 'ig' | 'sw' | 'pcm';
+
+// What a member may do in a group; roles are templates over these (see utils/permissions.ts)
+export interface GroupPermissions {
+  canAddMembers: boolean;
+  canRemoveMembers: boolean;
+  canEditSettings: boolean;
+  canMarkPayments: boolean;
+  canDeleteGroup: boolean;
+  canTransferAdmin: boolean;
+  canViewFinances: boolean;
+  canManageCycles: boolean;
+}
+
+export type GroupPermission = keyof GroupPermissions;
+
+export type GroupRole = 'admin' | 'co_admin' | 'treasurer' | 'auditor' | 'member';
+
+export interface Group {
+  id: string;
+  name: string;
+  description?: string;
+  contribution_amount: number;
+  currency?: CurrencyCode; // all of the group's amounts are in this currency; NGN when unset
+  total_members: number;
+  admin_id: string;
+  status: 'recruiting' | 'active' | 'completed' | 'paused' | 'cancelled' | 'dissolved';
+  created_at: Date;
+  updated_at: Date;
+  
+  // Group settings
+  max_members: number;
+  contribution_frequency: 'daily' | 'weekly' | 'monthly';
+  payout_schedule: 'weekly' | 'monthly';
+  start_date: Date;
+  estimated_end_date: Date;
+  
+  // Current cycle info
+  current_cycle: number;
+  total_cycles: number;
+  cycle_start_date: Date;
+  cycle_end_date: Date;
+  
+  // Group rules
+  late_payment_penalty?: number;
+  grace_period_days: number;
+  minimum_reliability_score?: number;
+  
+  // Group stats
+  total_contributions_collected: number;
+  total_payouts_made: number;
+  successful_cycles: number;
+  
+  // Group image/theme
+  group_image?: string;
+  theme_color?: string;
+
+  // Admin-managed settings (see GroupManagementService.updateGroupSettings)
+  payment_deadline_days?: number;
+  late_penalty_rate?: number;
+  max_late_days?: number;
+  auto_process_cycles?: boolean;
+  require_payment_proof?: boolean;
+  allow_member_invites?: boolean;
+  group_visibility?: 'private' | 'public' | 'invite_only';
+  settings_updated_at?: Date;
+  settings_updated_by?: string;
+
+  // How payout turns are assigned; round-robin by join_order when unset
+  turn_order_strategy?: TurnOrderStrategyConfig;
+  // Swaps agreed between members, applied on top of the strategy's order
+  turn_trades?: TurnTrade[];
+  require_swap_approval?: boolean;
+  // Overrides for the late-payment ladder derived from the settings above
+  late_payment_policy?: Partial<LatePaymentPolicy>;
+  // What a cycle's payout does when some members have not paid; pay_collected when unset
+  payout_shortfall_policy?: PayoutShortfallPolicy;
+  // Account members transfer contributions to; credits are matched from bank statements
+  collection_account?: CollectionAccount;
+  // Permissions held by members with a delegated role, by user ID. Mirrors group_members
+  // so security rules can check them without querying memberships.
+  delegated_permissions?: { [userId: string]: GroupPermission[] };
+  // Actions that need sign-off from several members before they run
+  approval_policy?: ApprovalPolicy | null;
+  approved_action_id?: string; // the approved action that last changed the group
+
+  // Lifecycle tracking
+  admin_transferred_at?: Date;
+  admin_transferred_by?: string;
+  completion_date?: Date;
+  final_completion_rate?: number;
+  paused_at?: Date | null;
+  paused_by?: string | null;
+  resumed_at?: Date;
+  dissolved_at?: Date;
+  dissolved_by?: string;
+}
+
+export interface CollectionAccount {
+  account_number: string;
+  bank_name: string;
+  account_name: string;
+  provider?: string; // payment provider that issued it as a virtual account
+}
+
+export type NewGroup = Pick<
+  Group,
+  'name' | 'contribution_amount' | 'admin_id' | 'max_members' | 'contribution_frequency' | 'start_date'
+> &
+  Partial<Omit<Group, 'id' | 'created_at' | 'updated_at'>>;
+
+export interface GroupMember {
+  id: string;
+  group_id: string;
+  user_id: string;
+  join_order: number; // Position in payout rotation (1, 2, 3, etc.)
+  status: 'active' | 'inactive' | 'removed' | 'pending' | 'suspended' | 'left';
+  joined_at: Date;
+  updated_at: Date;
+  left_at?: Date;
+  joined_via?: 'admin' | 'invite_code' | 'search' | 'migration';
+  invite_code?: string;
+  display_name?: string; // Copied from the user's name when they join
+  payment_reference?: string; // quoted on bank transfers so statement credits can be matched
+  
+  // Member role and permissions
+  role: GroupRole;
+  permission_overrides?: Partial<GroupPermissions>; // grants and revocations on top of the role
+  approved_action_id?: string; // the approved action that last changed the membership
+  can_invite_members: boolean;
+  can_view_all_contributions: boolean;
+  
+  // Member performance
+  total_contributions_made: number;
+  missed_contributions: number;
+  late_contributions: number;
+  on_time_contributions: number;
+  reliability_percentage: number;
+  
+  // Payout tracking
+  payout_received: boolean;
+  payout_cycle?: number;
+  payout_date?: Date;
+  
+  // Member preferences for this group
+  notification_enabled: boolean;
+  auto_contribute: boolean;
+}
+
+// A group together with its memberships, as shown on group screens
+export interface GroupWithMembers extends Group {
+  members: GroupMember[];
+}
+
+export type NewGroupMember = Pick<GroupMember, 'group_id' | 'user_id'> &
+  Partial<Omit<GroupMember, 'id' | 'group_id' | 'user_id' | 'joined_at' | 'updated_at'>>;
+
+export interface MemberStatisticsUpdate {
+  contributionMade?: boolean;
+  isLate?: boolean;
+  missed?: boolean;
+  groupCompleted?: boolean;
+  completionDate?: Date;
+}
+
+// Payment methods a gateway can take (everything but cash)
+export type GatewayPaymentMethod = 'bank_transfer' | 'card' | 'mobile_money';
+
+export interface Contribution {
+  id: string;
+  group_id: string;
+  user_id: string;
+  amount: number;
+  cycle_number: number;
+  status: 'pending' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled';
+  created_at: Date;
+  updated_at: Date;
+  
+  // Payment details
+  due_date: Date;
+  paid_date?: Date;
+  payment_method?: 'bank_transfer' | 'card' | 'cash' | 'mobile_money' | 'wallet';
+  transaction_reference?: string;
+  transaction_id?: string; // gateway transaction ID, set when PaymentService verifies the payment
+  
+  // Late payment info
+  is_late: boolean;
+  late_penalty_amount?: number;
+  grace_period_used: boolean;
+  
+  // Verification
+  verified_by_admin: boolean;
+  verification_date?: Date;
+  admin_notes?: string;
+  
+  // Payment proof
+  payment_proof_url?: string;
+  payment_proof_type?: 'receipt' | 'screenshot' | 'bank_statement';
+
+  // Admin confirmation (see PaymentTrackingService.confirmMemberPayment)
+  paid_amount?: number;
+  confirmed_by?: string;
+  confirmation_type?: 'cash' | 'bank_transfer' | 'mobile_money' | 'other';
+  confirmation_notes?: string;
+  last_reminder_sent?: Date;
+
+  // Late payment escalation (see LatePaymentMonitorService)
+  late_warnings_sent?: number;
+  last_late_action_type?: 'warning' | 'penalty' | 'suspension' | 'removal';
+  last_late_action_at?: Date;
+  original_due_date?: Date; // set when an admin first extends the due date (see PaymentTrackingService.grantExtension)
+  settled_late_fee?: number; // late fee a penalty dispute settled on; later fees never go above it
+
+  // Paying in pieces (see PaymentTrackingService.recordPartialPayment). While the
+  // contribution is partially paid, paid_amount is the total of these payments.
+  payments?: ContributionPayment[];
+  installment_plan?: InstallmentPlan;
+}
+
+// One payment toward a contribution that is being paid in pieces
+export interface ContributionPayment {
+  id: string;
+  amount: number;
+  paid_at: Date;
+  method?: Contribution['payment_method'];
+  reference?: string;
+  recorded_by: string;
+  notes?: string;
+  created_at: Date;
+}
+
+// Schedule an admin agreed with a member for paying off what they owe;
+// the late payment monitor only escalates once they fall behind it
+export interface InstallmentPlan {
+  installments: Array<{ amount: number; due_date: Date }>; // add up to what was owed when agreed
+  paid_before_plan: number; // part payments made before the plan, which it doesn't count
+  agreed_by: string;
+  agreed_at: Date;
+  notes?: string;
+}
+
+export type NewContribution = Pick<
+  Contribution,
+  'group_id' | 'user_id' | 'amount' | 'cycle_number' | 'due_date'
+> &
+  Partial<Omit<Contribution, 'id' | 'created_at' | 'updated_at'>>;
+
+export interface Payout {
+  id: string;
+  group_id: string;
+  recipient_id: string;
+  amount: number;
+  cycle_number: number;
+  // scheduled -> approved -> sending -> sent -> confirmed; a failed transfer goes back to approved when retried
+  status: 'scheduled' | 'approved' | 'sending' | 'sent' | 'confirmed' | 'failed' | 'cancelled';
+  created_at: Date;
+  updated_at: Date;
+  
+  // Payout timing
+  scheduled_date: Date;
+  sent_date?: Date; // money left the pot
+  confirmed_date?: Date; // recipient confirmed it arrived
+  
+  // Payment details
+  payout_method: 'bank_transfer' | 'mobile_money' | 'cash';
+  payout_account_id?: string;
+  provider?: string; // gateway that made the transfer
+  bank_details?: {
+    account_number: string;
+    bank_name: string;
+    account_name: string;
+  };
+  mobile_money_details?: {
+    provider: string;
+    phone_number: string;
+    account_name: string;
+  };
+  
+  // Transaction tracking
+  transaction_reference?: string;
+  external_transaction_id?: string;
+  
+  // Verification and approval
+  approved_by_admin: boolean;
+  approved_by?: string;
+  approval_date?: Date;
+  admin_notes?: string;
+  approved_action_id?: string; // set when released through an approved action
+  
+  // Fees and deductions
+  processing_fee?: number;
+  penalty_deductions?: number;
+  net_amount: number;
+
+  // Set when the pot was short of a fully paid cycle (see PayoutShortfallPolicy)
+  expected_amount?: number; // what the cycle would have collected had everyone paid
+  shortfall_amount?: number; // still owed to the recipient
+  reserve_advance?: number; // part of amount advanced from the group's reserve fund
+  shortfall_rule?: PayoutShortfallRule;
+  
+  // Failure handling
+  failure_reason?: string;
+  retry_count: number;
+  max_retries: number;
+}
+
+export type NewPayout = Pick<
+  Payout,
+  'group_id' | 'recipient_id' | 'amount' | 'cycle_number' | 'scheduled_date'
+> &
+  Partial<Omit<Payout, 'id' | 'created_at' | 'updated_at'>>;
+
+// Additional types for complex operations
+export interface GroupStatistics {
+  group_id: string;
+  total_contributions: number;
+  total_payouts: number;
+  active_members: number;
+  completion_rate: number;
+  average_reliability_score: number;
+  cycles_completed: number;
+  cycles_remaining: number;
+  next_payout_date: Date;
+  next_recipient_id: string;
+}
+
+export interface UserStatistics {
+  user_id: string;
+  groups_joined: number;
+  groups_completed: number;
+  total_contributed: number;
+  total_received: number;
+  reliability_score: number;
+  on_time_payment_rate: number;
+  current_active_groups: number;
+}
+
+export interface CycleInfo {
+  group_id: string;
+  cycle_number: number;
+  start_date: Date;
+  end_date: Date;
+  recipient_id: string;
+  expected_total_contributions: number;
+  actual_total_contributions: number;
+  payout_amount: number;
+  status: 'active' | 'completed' | 'failed';
+  contributions: Contribution[];
+  payout?: Payout;
+}
+
+// Enums for status values
+export enum UserStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  SUSPENDED = 'suspended'
+}
+
+export enum GroupStatus {
+  ACTIVE = 'active',
+  COMPLETED = 'completed',
+  PAUSED = 'paused',
+  CANCELLED = 'cancelled'
+}
+
+export enum MemberStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  REMOVED = 'removed',
+  PENDING = 'pending'
+}
+
+export enum ContributionStatus {
+  PENDING = 'pending',
+  PAID = 'paid',
+  OVERDUE = 'overdue',
+  CANCELLED = 'cancelled'
+}
+
+export enum PayoutStatus {
+  SCHEDULED = 'scheduled',
+  APPROVED = 'approved',
+  SENDING = 'sending',
+  SENT = 'sent',
+  CONFIRMED = 'confirmed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export enum PaymentMethod {
+  BANK_TRANSFER = 'bank_transfer',
+  CARD = 'card',
+  CASH = 'cash',
+  MOBILE_MONEY = 'mobile_money'
+}
+
+// Database operation result types
+export interface DatabaseResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  has_more: boolean;
+  next_cursor?: string;
+}
+
+export interface GroupInvite {
+  id: string;
+  group_id: string;
+  invite_code: string;
+  created_by: string;
+  created_at: Date;
+  expires_at: Date;
+  max_uses?: number;
+  current_uses: number;
+  is_active: boolean;
+}
+
+// Turn order strategies (see services/business/turnOrderStrategies.ts)
+export type TurnOrderStrategyType = 'join_order' | 'random_draw' | 'bidding' | 'admin_assigned' | 'need_based';
+
+export interface TurnOrderStrategyConfig {
+  type: TurnOrderStrategyType;
+  // random_draw: public seed everyone can re-run the draw with, derived from the group (see drawSeed)
+  seed?: string;
+  // admin_assigned: user IDs in payout order
+  admin_order?: string[];
+  // bidding: discounts members offered to receive their payout earlier, by user ID
+  bids?: { [userId: string]: TurnBid };
+  // need_based: swap requests voted on by the group, by request ID
+  swap_requests?: { [requestId: string]: TurnSwapRequest };
+  updated_at?: Date;
+  updated_by?: string;
+}
+
+export interface TurnBid {
+  user_id: string;
+  discount_amount: number;
+  placed_at: Date;
+}
+
+export interface TurnSwapRequest {
+  id: string;
+  requester_id: string;
+  swap_with_id: string;
+  reason: string;
+  votes_for: string[];
+  votes_against: string[];
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: Date;
+  resolved_at?: Date;
+}
+
+// Everything needed to re-run a strategy and get the same order back
+export interface TurnOrderAudit {
+  id: string;
+  group_id: string;
+  strategy: TurnOrderStrategyType;
+  reason: string;
+  triggered_by?: string;
+  inputs: {
+    member_ids: string[]; // active members in join order
+    pinned: { user_id: string; position: number }[]; // members already paid keep their slot
+    seed?: string;
+    admin_order?: string[];
+    bids?: { user_id: string; discount_amount: number }[];
+    swaps?: { requester_id: string; swap_with_id: string }[];
+    trades?: { user_a: string; user_b: string }[];
+  };
+  order: string[];
+  checksum: string;
+  created_at: Date;
+}
+
+// Turn swap marketplace (see services/business/turnSwaps.ts)
+export interface TurnSwap {
+  id: string;
+  group_id: string;
+  requester_id: string;
+  requester_cycle: number; // cycle the requester gives up
+  counterparty_id: string;
+  counterparty_cycle: number; // cycle the requester wants
+  message?: string;
+  status: 'proposed' | 'accepted' | 'completed' | 'declined' | 'rejected' | 'cancelled';
+  requires_admin_approval: boolean;
+  accepted_at?: Date;
+  resolved_at?: Date;
+  resolved_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TurnTrade {
+  swap_id: string;
+  user_a: string;
+  user_b: string;
+  applied_at: Date;
+}
+
+// Late fee charged once a contribution is past the group's grace days.
+// Rates are percentages of the contribution amount.
+export type LateFeeFormula =
+  | { type: 'flat'; amount: number }
+  | { type: 'percent'; rate: number }
+  | { type: 'per_day'; rate: number; cap: number }; // rate per day after grace, capped at cap
+
+// Escalation ladder for late contributions; day counts are days past the due date
+export interface LatePaymentPolicy {
+  grace_days: number; // no action is taken within the grace period
+  warnings: number; // warnings sent after grace, before the fee
+  warning_interval_days: number;
+  fee: LateFeeFormula;
+  fee_after_days: number;
+  suspend_after_days?: number; // never suspended when unset
+  remove_after_days?: number; // never removed when unset
+}
+
+// What happens to a cycle's payout when some members have not paid in full:
+//   full_only             the cycle waits until everything has been collected
+//   pay_collected         the collected portion is paid; the shortfall is owed to the recipient
+//   advance_from_reserve  as pay_collected, and an admin may cover the shortfall from the reserve fund
+//   delay                 the cycle waits delay_days past its end, then pays as pay_collected
+export type PayoutShortfallRule = 'full_only' | 'pay_collected' | 'advance_from_reserve' | 'delay';
+
+export interface PayoutShortfallPolicy {
+  rule: PayoutShortfallRule;
+  delay_days?: number; // 'delay' only
+}
+
+// Persisted background job (see JobRunner). The document ID is derived from the
+// idempotency key, so enqueueing the same work twice yields one job.
+export interface Job {
+  id: string;
+  type: string;
+  idempotency_key: string;
+  group_id: string | null; // whose admin may run the job; jobs across groups only run on the backend
+  payload: Record<string, any>;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  run_at: Date;
+  attempts: number;
+  max_attempts: number;
+  lease_owner?: string | null; // worker currently holding the job
+  lease_expires_at?: Date | null; // another worker may take over after this
+  last_error?: string;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Group ledger (see services/database/ledger.ts). Every money movement is one
+// entry whose debits and credits balance. Accounts are 'pot', the fee accounts
+// and 'member:<user_id>' for each member's position in the group.
+export type LedgerEntryType =
+  | 'contribution'
+  | 'payout'
+  | 'late_fee'
+  | 'refund'
+  | 'redistribution'
+  | 'wallet'
+  | 'reserve';
+
+export interface LedgerLine {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerEntry {
+  id: string; // derived from the event it records, so recording it twice is a no-op
+  group_id: string;
+  type: LedgerEntryType;
+  cycle_number: number;
+  reference_id: string; // contribution, payout or member the entry records
+  description: string;
+  currency?: CurrencyCode; // the group's currency; NGN when unset
+  lines: LedgerLine[];
+  created_by?: string;
+  created_at: Date;
+}
+
+// One member's share when a group's pot is settled
+export interface SettlementLine {
+  user_id: string;
+  display_name?: string;
+  paid_in: number; // contributions, including late fees paid with them
+  received: number; // payouts before processing fees, refunds and earlier settlements
+  penalties: number; // late fees charged
+  received_payout: boolean;
+  claim: number; // paid_in - received - penalties, when positive
+  owes: number; // the same difference when negative: the member took out more than they paid in
+  surplus_share: number; // share of money left over once every claim is met
+  amount: number; // paid to the member by this settlement
+  shortfall: number; // part of the claim the pot could not cover
+}
+
+// Statement produced when a group's remaining funds are paid out on dissolve or restart
+export interface Settlement {
+  id: string;
+  group_id: string;
+  reason: 'dissolve' | 'restart';
+  cycle_number: number;
+  currency?: CurrencyCode; // the group's currency at settlement; NGN when unset
+  pot_balance: number;
+  total_claims: number;
+  total_paid: number;
+  lines: SettlementLine[];
+  ledger_entry_ids: string[]; // one per member paid; empty when there was nothing to pay out
+  created_by: string;
+  created_at: Date;
+}
+
+export interface ScheduledNotification {
+  id: string;
+  templateId: string;
+  userId: string;
+  groupId?: string;
+  contributionId?: string;
+  data: Record<string, any>;
+  scheduledFor: Date;
+  status: 'pending' | 'sent' | 'failed' | 'cancelled';
+  sendSMS: boolean;
+  sendEmail: boolean;
+  attempts: number;
+  maxAttempts: number;
+  lastAttempt?: Date;
+  error?: string;
+  digest?: boolean; // held for the member's daily digest
+  fallbackFor?: string; // the scheduled notification whose push this follows up
+  fallbackChannels?: NotificationChannel[]; // sent if that push wasn't opened in time
+  deliveredAt?: Date; // the push reached the member's device
+  openedAt?: Date; // the member opened the push
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NotificationChannel = 'push' | 'sms' | 'email';
+
+// What members choose channels for; each template category belongs to one
+export type NotificationPreferenceCategory = 'payments' | 'late_payments' | 'payouts' | 'group' | 'admin' | 'system';
+
+export interface NotificationDeliveryPreferences {
+  // Highest priority first; an empty list mutes the category. Unset categories use
+  // the channels the notification was scheduled with.
+  channels: Partial<Record<NotificationPreferenceCategory, NotificationChannel[]>>;
+  timezone: string; // IANA zone quiet hours and the digest time are in, e.g. 'Africa/Lagos'
+  quiet_hours?: { start: string; end: string }; // 'HH:mm', may run past midnight
+  delivery: 'immediate' | 'daily_digest';
+  digest_time: string; // 'HH:mm'
+  sms_fallback_minutes?: number; // send the next channels when a push isn't opened in time; off when unset
+}
+
+// Why emails to a member's address stopped
+export interface EmailSuppression {
+  email: string; // the address it applies to; a new address starts receiving again
+  reason: 'hard_bounce' | 'soft_bounces' | 'complaint' | 'unsubscribed';
+  detail?: string;
+  suppressed_at: Date;
+}
+
+// Query options
+export interface QueryOptions {
+  limit?: number;
+  offset?: number;
+  order_by?: string;
+  order_direction?: 'asc' | 'desc';
+  cursor?: string;
+}
+
+export interface FilterOptions {
+  status?: string;
+  role?: string;
+  date_from?: Date;
+  date_to?: Date;
+  user_id?: string;
+  group_id?: string;
+}
+
+// Batch operation types
+export interface BatchOperation {
+  operation: 'create' | 'update' | 'delete';
+  collection: string;
+  document_id?: string;
+  data?: any;
+}
+
+export interface BatchResult {
+  success: boolean;
+  results: Array<{
+    success: boolean;
+    document_id?: string;
+    error?: string;
+  }>;
+}
+
+// A contribution payment made through a gateway (see services/payments). The
+// document ID is the reference sent to the provider.
+export interface PaymentTransaction {
+  id: string;
+  contribution_id: string;
+  group_id: string;
+  user_id: string;
+  provider: string;
+  method: GatewayPaymentMethod;
+  amount: number; // amount requested, including any late fee
+  paid_amount?: number; // amount the provider says was received
+  currency: CurrencyCode;
+  status: 'pending' | 'success' | 'failed' | 'refunded';
+  provider_transaction_id?: string;
+  authorization_url?: string; // hosted checkout page for card payments
+  bank_transfer?: {
+    account_number: string;
+    bank_name: string;
+    account_name: string;
+    expires_at?: Date;
+  };
+  instructions?: string; // e.g. "approve the prompt on your phone"
+  failure_reason?: string;
+  refunded_amount?: number;
+  paid_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A bank statement uploaded by a group admin for reconciliation
+export interface StatementImport {
+  id: string;
+  group_id: string;
+  format: 'csv' | 'mt940' | 'camt053';
+  file_name?: string;
+  imported_by: string;
+  imported_at: Date;
+  credit_count: number;
+  matched_count: number;
+  review_count: number;
+  unmatched_count: number;
+  duplicate_count: number; // credits already seen in an earlier import
+}
+
+// A money-in line from a bank statement and what it was matched to
+export interface StatementCredit {
+  id: string;
+  group_id: string;
+  import_id: string;
+  dedupe_key: string; // bank reference, or date, amount and narration when there is none
+  bank_reference?: string;
+  amount: number;
+  currency?: string;
+  value_date: Date;
+  narration: string;
+  payer_name?: string;
+  // matched: confirmed against a contribution; review: needs an admin; unmatched: no candidate found
+  status: 'matched' | 'review' | 'unmatched' | 'ignored';
+  match_reason: string;
+  contribution_id?: string;
+  candidate_contribution_ids: string[];
+  resolved_by?: string;
+  resolved_at?: Date;
+  created_at: Date;
+}
+
+// Payment details read from a receipt, or from a bank alert or SMS a member pasted in
+export interface ReceiptDetails {
+  amount?: number;
+  currency?: CurrencyCode;
+  paid_at?: Date;
+  reference?: string;
+}
+
+export type ReceiptContentType = 'image/jpeg' | 'image/png' | 'application/pdf' | 'text/plain';
+
+// A receipt a member attached to a contribution (see services/receipts)
+export interface PaymentReceipt {
+  id: string;
+  group_id: string;
+  contribution_id: string;
+  uploaded_by: string;
+  source: 'file' | 'pasted_text';
+  file_name: string;
+  content_type: ReceiptContentType;
+  size_bytes: number;
+  checksum: string; // SHA-256 of the file's bytes
+  storage_path: string;
+  url: string;
+  details: ReceiptDetails;
+  // submitted: waiting for an admin; accepted: the payment was confirmed with it
+  status: 'submitted' | 'accepted' | 'rejected';
+  reviewed_by?: string;
+  reviewed_at?: Date;
+  review_notes?: string;
+  created_at: Date;
+}
+
+// Claim on a receipt's checksum or transaction reference, so one receipt can
+// only ever back one contribution. The ID is the fingerprint itself.
+export interface ReceiptFingerprint {
+  id: string; // "sha256:<checksum>" or "ref:<reference>"
+  receipt_id: string;
+  contribution_id: string;
+  group_id: string;
+  created_at: Date;
+}
+
+// Admin actions a group can put behind M-of-N approval (see business/approvals.ts)
+export type ApprovalActionType =
+  | 'remove_member'
+  | 'transfer_admin'
+  | 'dissolve_group'
+  | 'change_contribution_amount'
+  | 'release_payout'
+  | 'change_approval_policy';
+
+export interface ApprovalPolicy {
+  actions: ApprovalActionType[]; // which actions need sign-off
+  approver_ids: string[]; // members who may sign off
+  required_approvals: number; // M, not counting the member who asked
+  expiry_hours: number; // requests lapse if not approved in time
+}
+
+export interface ApprovalSignature {
+  user_id: string;
+  decision: 'approved' | 'rejected';
+  comment?: string;
+  signed_at: Date;
+}
+
+// A high-risk action waiting for approvers to sign off before it runs
+export interface PendingAction {
+  id: string;
+  group_id: string;
+  type: ApprovalActionType;
+  params: Record<string, any>; // arguments the action runs with once approved
+  summary: string; // e.g. "remove Bola Ade from the group"
+  requested_by: string;
+  approver_ids: string[]; // eligible approvers, fixed when the request is made
+  required_approvals: number;
+  signatures: Record<string, ApprovalSignature>; // keyed by user ID, so each approver signs once
+  approval_count: number; // kept with signatures so firestore.rules can check the threshold
+  rejection_count: number;
+  // approved: enough sign-offs, about to run; executed/failed: the action's outcome
+  status: 'pending' | 'approved' | 'executed' | 'failed' | 'rejected' | 'expired' | 'cancelled';
+  expires_at: Date;
+  resolved_at?: Date;
+  failure_reason?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Audit log: append-only record of administrative and financial actions (see business/auditLog.ts)
+export type AuditCategory = 'payments' | 'penalties' | 'settings' | 'roles' | 'members' | 'invites' | 'payouts' | 'group';
+
+export interface AuditChange {
+  field: string;
+  before: unknown; // null when the field was not set
+  after: unknown;
+}
+
+// Entries form a hash chain per group: each hash covers the entry and the hash before it,
+// so editing or deleting an entry breaks every hash after it
+export interface AuditEntry {
+  id: string; // `${group_id}_${sequence}`, zero-padded
+  group_id: string;
+  sequence: number; // 1 for a group's first entry
+  category: AuditCategory;
+  action: string; // e.g. 'payment_confirmed', 'role_changed'
+  actor_id: string; // 'system' for automated actions
+  target_id?: string; // member, contribution, payout or invite acted on
+  changes: AuditChange[];
+  reason?: string;
+  metadata?: Record<string, any>;
+  created_at: Date;
+  previous_hash: string;
+  hash: string;
+}
+
+// Latest entry in a group's chain, read and moved on in the same transaction as each append
+export interface AuditChainHead {
+  id: string; // group ID
+  sequence: number;
+  hash: string;
+  updated_at: Date;
+}
+
+// Money a member has with a group that isn't tied to one contribution: overpayments,
+// refunds and prepayments. It settles their next contributions first (see
+// business/wallet.ts) or is withdrawn. The ID is `${group_id}_${user_id}`.
+export interface MemberWallet {
+  id: string;
+  group_id: string;
+  user_id: string;
+  balance: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type WalletCreditSource = 'overpayment' | 'refund' | 'prepayment';
+
+// A member asking for their wallet balance to be paid out to them
+export interface WalletWithdrawal {
+  id: string;
+  group_id: string;
+  user_id: string;
+  amount: number;
+  status: 'requested' | 'approved' | 'rejected';
+  notes?: string;
+  decided_by?: string;
+  decided_at?: Date;
+  decision_notes?: string;
+  created_at: Date;
+}
+
+// Where a member wants their payouts sent. The account name is checked against
+// the name the provider has on file for the account before it can be used.
+export interface PayoutAccount {
+  id: string;
+  user_id: string;
+  method: 'bank_transfer' | 'mobile_money';
+  account_number: string; // bank account number, or the mobile money phone number
+  bank_code?: string;
+  bank_name?: string;
+  mobile_provider?: string; // e.g. 'mpesa', 'mtn'
+  account_name: string; // as the provider has it
+  provider: string; // gateway that verified the account
+  is_default: boolean;
+  verified_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A member contesting a late fee or suspension (see business/penaltyDisputes.ts).
+// Admins decide it, or put a proposed reduction or waiver to the other members.
+export interface PenaltyDispute {
+  id: string;
+  group_id: string;
+  contribution_id: string;
+  member_id: string;
+  penalty_type: 'late_fee' | 'suspension';
+  penalty_amount: number; // late fee charged when the dispute was opened; 0 for suspensions
+  explanation: string;
+  evidence: PenaltyDisputeEvidence[];
+  status: 'open' | 'voting' | 'resolved' | 'withdrawn';
+  vote?: PenaltyDisputeVote;
+  resolution?: PenaltyDisputeResolution;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PenaltyDisputeEvidence {
+  file_name: string;
+  content_type: ReceiptContentType;
+  size_bytes: number;
+  storage_path: string;
+  url: string;
+}
+
+export interface PenaltyDisputeVote {
+  outcome: 'reduced' | 'waived'; // what the members are asked to agree to
+  amount?: number; // reduced late fee
+  proposed_by: string;
+  voter_ids: string[]; // active members other than the disputing member, fixed when the vote starts
+  votes_for: string[];
+  votes_against: string[];
+  started_at: Date;
+}
+
+export interface PenaltyDisputeResolution {
+  outcome: 'upheld' | 'reduced' | 'waived';
+  decided_by: 'admin' | 'vote';
+  resolved_by: string; // the admin, or the member whose vote settled it
+  final_amount: number; // late fee owed after the decision
+  member_reinstated: boolean;
+  notes?: string;
+  resolved_at: Date;
+}
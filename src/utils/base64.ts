@@ -0,0 +1,75 @@
+/**
+ * Base64 conversion for file content (receipt uploads), email bodies and payment provider
+ * credentials. Implemented here because atob/btoa are not available on every React Native engine.
+ */
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const LOOKUP = new Map([...ALPHABET].map((char, index) => [char, index]));
+
+/* eslint-disable no-bitwise */
+// Decode base64 (padding and line breaks allowed); throws on any other character
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[\s=]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+
+  for (const char of clean) {
+    const value = LOOKUP.get(char);
+    if (value === undefined) {
+      throw new Error(`Invalid base64 character "${char}"`);
+    }
+    buffer = ((buffer << 6) | value) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, length);
+};
+
+export const bytesToBase64 = (bytes: ArrayLike<number>): string => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += ALPHABET[(chunk >> 18) & 63] + ALPHABET[(chunk >> 12) & 63];
+    output += i + 1 < bytes.length ? ALPHABET[(chunk >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? ALPHABET[chunk & 63] : '=';
+  }
+  return output;
+};
+
+// UTF-8 bytes of a string, e.g. for email bodies and headers
+export const utf8Bytes = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 63), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+/* eslint-enable no-bitwise */
+
+// Base64 of a string's UTF-8 bytes, e.g. "user:secret" for a Basic Authorization header
+export const textToBase64 = (text: string): string => bytesToBase64(utf8Bytes(text));
+
+// Read a picked file (content:// or file:// uri) as base64
+export const readAsBase64 = async (uri: string): Promise<string> => {
+  const blob = await (await fetch(uri)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
@@ -1,4 +1,5 @@
-import { SavingsGroup } from '../services/firestore';
+import { Group, GroupWithMembers } from '../types/database';
+import { DEFAULT_CURRENCY, localeFor } from './money';
 
 /**
  * Date utility functions for Ajoturn business logic
@@ -22,15 +23,15 @@ export interface PaymentSchedule {
  * Calculate cycle dates based on group settings and cycle number
  */
 export const calculateCycleDates = (
-  group: SavingsGroup, 
-  cycleNumber: number = group.currentCycle
+  group: Group, 
+  cycleNumber: number = group.current_cycle
 ): CycleDates => {
-  const startDate = new Date(group.startDate);
+  const startDate = new Date(group.start_date);
   
   // Calculate cycle start date
   const cycleStart = new Date(startDate);
   
-  switch (group.contributionFrequency) {
+  switch (group.contribution_frequency) {
     case 'daily':
       cycleStart.setDate(startDate.getDate() + (cycleNumber - 1));
       break;
@@ -44,7 +45,7 @@ export const calculateCycleDates = (
   
   // Calculate cycle end date
   const cycleEnd = new Date(cycleStart);
-  switch (group.contributionFrequency) {
+  switch (group.contribution_frequency) {
     case 'daily':
       cycleEnd.setDate(cycleStart.getDate() + 1);
       break;
@@ -76,13 +77,13 @@ export const calculateCycleDates = (
 /**
  * Generate complete payment schedule for entire group duration
  */
-export const generatePaymentSchedule = (group: SavingsGroup): PaymentSchedule[] => {
+export const generatePaymentSchedule = (group: GroupWithMembers): PaymentSchedule[] => {
   const schedule: PaymentSchedule[] = [];
   const sortedMembers = [...group.members]
-    .filter(member => member.isActive)
-    .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+    .filter(member => member.status === 'active')
+    .sort((a, b) => a.join_order - b.join_order);
   
-  for (let cycle = 1; cycle <= group.totalCycles; cycle++) {
+  for (let cycle = 1; cycle <= group.total_cycles; cycle++) {
     const cycleDates = calculateCycleDates(group, cycle);
     const recipientIndex = (cycle - 1) % sortedMembers.length;
     const recipient = sortedMembers[recipientIndex];
@@ -91,7 +92,7 @@ export const generatePaymentSchedule = (group: SavingsGroup): PaymentSchedule[]
       cycle,
       dueDate: cycleDates.paymentDue,
       payoutDate: cycleDates.payoutDate,
-      recipient: recipient.displayName,
+      recipient: recipient.display_name || recipient.user_id,
     });
   }
   
@@ -139,10 +140,11 @@ export const getNextBusinessDay = (date: Date): Date => {
 };
 
 /**
- * Format date for display in Nigerian format
+ * Format date for display in the given locale (a group's locale comes from
+ * its currency; see localeFor)
  */
-export const formatNigerianDate = (date: Date): string => {
-  return date.toLocaleDateString('en-NG', {
+export const formatDisplayDate = (date: Date, locale: string = localeFor(DEFAULT_CURRENCY)): string => {
+  return date.toLocaleDateString(locale, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -152,8 +154,8 @@ export const formatNigerianDate = (date: Date): string => {
 /**
  * Format date and time for display
  */
-export const formatNigerianDateTime = (date: Date): string => {
-  return date.toLocaleString('en-NG', {
+export const formatDisplayDateTime = (date: Date, locale: string = localeFor(DEFAULT_CURRENCY)): string => {
+  return date.toLocaleString(locale, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -165,7 +167,7 @@ export const formatNigerianDateTime = (date: Date): string => {
 /**
  * Get relative time string (e.g., "2 days ago", "in 3 days")
  */
-export const getRelativeTime = (date: Date, currentDate: Date = new Date()): string => {
+export const getRelativeTime = (date: Date, currentDate: Date = new Date(), locale?: string): string => {
   const timeDiff = date.getTime() - currentDate.getTime();
   const daysDiff = Math.round(timeDiff / (1000 * 60 * 60 * 24));
   
@@ -175,7 +177,7 @@ export const getRelativeTime = (date: Date, currentDate: Date = new Date()): str
   if (daysDiff > 1) return `In ${daysDiff} days`;
   if (daysDiff < -1) return `${Math.abs(daysDiff)} days ago`;
   
-  return formatNigerianDate(date);
+  return formatDisplayDate(date, locale);
 };
 
 /**
@@ -195,19 +197,19 @@ export const isWithinGracePeriod = (
 /**
  * Calculate the estimated completion date for the group
  */
-export const getGroupCompletionDate = (group: SavingsGroup): Date => {
-  const startDate = new Date(group.startDate);
+export const getGroupCompletionDate = (group: Group): Date => {
+  const startDate = new Date(group.start_date);
   const completionDate = new Date(startDate);
   
-  switch (group.contributionFrequency) {
+  switch (group.contribution_frequency) {
     case 'daily':
-      completionDate.setDate(startDate.getDate() + group.totalCycles);
+      completionDate.setDate(startDate.getDate() + group.total_cycles);
       break;
     case 'weekly':
-      completionDate.setDate(startDate.getDate() + (group.totalCycles * 7));
+      completionDate.setDate(startDate.getDate() + (group.total_cycles * 7));
       break;
     case 'monthly':
-      completionDate.setMonth(startDate.getMonth() + group.totalCycles);
+      completionDate.setMonth(startDate.getMonth() + group.total_cycles);
       break;
   }
   
@@ -245,7 +247,7 @@ export const getNextValidTransactionDate = (date: Date = new Date()): Date => {
 /**
  * Calculate time remaining in current cycle
  */
-export const getCycleTimeRemaining = (group: SavingsGroup): {
+export const getCycleTimeRemaining = (group: Group): {
   days: number;
   hours: number;
   minutes: number;
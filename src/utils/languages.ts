@@ -0,0 +1,59 @@
+/**
+ * Languages members can receive notifications in
+ *
+ * Each language knows its plural categories for whole numbers (from CLDR) so
+ * templates can say "1 day" / "3 days" correctly, and is paired with the
+ * group's currency to pick the locale amounts and dates are formatted in.
+ */
+
+import { CurrencyCode, LanguageCode } from '../types/database';
+import { DEFAULT_CURRENCY, localeFor } from './money';
+
+export type { LanguageCode };
+
+export type PluralCategory = 'one' | 'other';
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  name: string;
+  nativeName: string;
+  plural: (count: number) => PluralCategory;
+}
+
+const oneOrOther = (count: number): PluralCategory => (Math.abs(count) === 1 ? 'one' : 'other');
+
+// Yoruba and Igbo nouns don't change with number
+const otherOnly = (): PluralCategory => 'other';
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { code: 'en', name: 'English', nativeName: 'English', plural: oneOrOther },
+  yo: { code: 'yo', name: 'Yoruba', nativeName: 'Yorùbá', plural: otherOnly },
+  ha: { code: 'ha', name: 'Hausa', nativeName: 'Hausa', plural: oneOrOther },
+  ig: { code: 'ig', name: 'Igbo', nativeName: 'Asụsụ Igbo', plural: otherOnly },
+  sw: { code: 'sw', name: 'Swahili', nativeName: 'Kiswahili', plural: oneOrOther },
+  pcm: { code: 'pcm', name: 'Nigerian Pidgin', nativeName: 'Naijá', plural: oneOrOther },
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && value in LANGUAGES;
+
+export const getLanguage = (code: LanguageCode = DEFAULT_LANGUAGE): LanguageInfo => LANGUAGES[code] || LANGUAGES[DEFAULT_LANGUAGE];
+
+/**
+ * Locale to format amounts and dates in, e.g. yo-NG for a Yoruba speaker in a
+ * naira group. Falls back to the currency's own locale when the runtime has
+ * no data for the language.
+ */
+export const localeForLanguage = (language: LanguageCode, currency: CurrencyCode = DEFAULT_CURRENCY): string => {
+  const currencyLocale = localeFor(currency);
+  if (language === DEFAULT_LANGUAGE) {
+    return currencyLocale;
+  }
+  const region = currencyLocale.split('-')[1];
+  const locale = region ? `${language}-${region}` : language;
+  return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0 ? locale : currencyLocale;
+};
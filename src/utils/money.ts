@@ -0,0 +1,345 @@
+/**
+ * Money utilities for Ajoturn
+ *
+ * Amounts are held as integer minor units (kobo, cents, ...) so sums and
+ * splits never pick up floating point error. Firestore documents keep their
+ * major-unit `amount` numbers, always rounded to a whole minor unit (see
+ * DATABASE_SCHEMA.md); convert with `money()` / `toMajor()` at the edges and
+ * do the arithmetic on Money. Every conversion takes the currency explicitly:
+ * pass the group's, via `currencyOf(group)`.
+ */
+
+import { CurrencyCode } from '../types/database';
+
+export type { CurrencyCode };
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string;
+  symbol: string;
+  decimals: number; // minor units per major unit = 10^decimals
+  locale: string; // used to format amounts and dates for groups in this currency
+  minContribution: number; // limits are in major units
+  maxContribution: number;
+  minPayment: number;
+  maxPayment: number;
+}
+
+export interface Money {
+  minorUnits: number;
+  currency: CurrencyCode;
+}
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'NGN';
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  NGN: {
+    code: 'NGN',
+    name: 'Nigerian Naira',
+    symbol: '₦',
+    decimals: 2,
+    locale: 'en-NG',
+    minContribution: 1000,
+    maxContribution: 1000000,
+    minPayment: 100,
+    maxPayment: 10000000,
+  },
+  KES: {
+    code: 'KES',
+    name: 'Kenyan Shilling',
+    symbol: 'KSh',
+    decimals: 2,
+    locale: 'en-KE',
+    minContribution: 50,
+    maxContribution: 100000,
+    minPayment: 10,
+    maxPayment: 1000000,
+  },
+  UGX: {
+    code: 'UGX',
+    name: 'Ugandan Shilling',
+    symbol: 'USh',
+    decimals: 0,
+    locale: 'en-UG',
+    minContribution: 1000,
+    maxContribution: 5000000,
+    minPayment: 500,
+    maxPayment: 50000000,
+  },
+  GHS: {
+    code: 'GHS',
+    name: 'Ghanaian Cedi',
+    symbol: 'GH₵',
+    decimals: 2,
+    locale: 'en-GH',
+    minContribution: 10,
+    maxContribution: 50000,
+    minPayment: 1,
+    maxPayment: 500000,
+  },
+  ZAR: {
+    code: 'ZAR',
+    name: 'South African Rand',
+    symbol: 'R',
+    decimals: 2,
+    locale: 'en-ZA',
+    minContribution: 50,
+    maxContribution: 50000,
+    minPayment: 10,
+    maxPayment: 500000,
+  },
+  XOF: {
+    code: 'XOF',
+    name: 'West African CFA Franc',
+    symbol: 'CFA',
+    decimals: 0,
+    locale: 'fr-SN',
+    minContribution: 500,
+    maxContribution: 1000000,
+    minPayment: 100,
+    maxPayment: 10000000,
+  },
+  TZS: {
+    code: 'TZS',
+    name: 'Tanzanian Shilling',
+    symbol: 'TSh',
+    decimals: 0,
+    locale: 'en-TZ',
+    minContribution: 1000,
+    maxContribution: 2500000,
+    minPayment: 500,
+    maxPayment: 25000000,
+  },
+  RWF: {
+    code: 'RWF',
+    name: 'Rwandan Franc',
+    symbol: 'FRw',
+    decimals: 0,
+    locale: 'en-RW',
+    minContribution: 500,
+    maxContribution: 1000000,
+    minPayment: 100,
+    maxPayment: 10000000,
+  },
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === 'string' && value in CURRENCIES;
+
+export const getCurrency = (code: CurrencyCode): CurrencyInfo => CURRENCIES[code] || CURRENCIES[DEFAULT_CURRENCY];
+
+// Groups created before currencies were configurable are in naira
+export const currencyOf = (group?: { currency?: CurrencyCode } | null): CurrencyCode =>
+  group?.currency && isCurrencyCode(group.currency) ? group.currency : DEFAULT_CURRENCY;
+
+export const localeFor = (currency: CurrencyCode): string => getCurrency(currency).locale;
+
+const factor = (currency: CurrencyCode): number => 10 ** getCurrency(currency).decimals;
+
+// Rounds half away from zero, so -2.5 kobo and 2.5 kobo round the same way
+const roundHalfAway = (value: number): number => Math.sign(value) * Math.round(Math.abs(value));
+
+/**
+ * Money from a major-unit amount (e.g. a stored `amount` field)
+ */
+export const money = (amount: number, currency: CurrencyCode): Money => ({
+  // toFixed first: 1.005 * 100 is 100.49999... in floating point
+  minorUnits: roundHalfAway(Number((amount * factor(currency)).toFixed(6))),
+  currency,
+});
+
+export const moneyFromMinor = (minorUnits: number, currency: CurrencyCode): Money => ({
+  minorUnits: roundHalfAway(minorUnits),
+  currency,
+});
+
+export const zeroMoney = (currency: CurrencyCode): Money => ({ minorUnits: 0, currency });
+
+/**
+ * Major-unit amount, for storing on a document
+ */
+export const toMajor = (value: Money): number => value.minorUnits / factor(value.currency);
+
+/**
+ * Round a major-unit amount to what the currency can actually hold
+ */
+export const roundAmount = (amount: number, currency: CurrencyCode): number => toMajor(money(amount, currency));
+
+const assertSameCurrency = (a: Money, b: Money): void => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { minorUnits: a.minorUnits + b.minorUnits, currency: a.currency };
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { minorUnits: a.minorUnits - b.minorUnits, currency: a.currency };
+};
+
+export const sumMoney = (values: Money[], currency: CurrencyCode): Money =>
+  values.reduce((total, value) => addMoney(total, value), zeroMoney(currency));
+
+/**
+ * Multiply by a rate or count (e.g. a 5% penalty), rounding to the nearest minor unit
+ */
+export const multiplyMoney = (value: Money, multiplier: number): Money => ({
+  minorUnits: roundHalfAway(Number((value.minorUnits * multiplier).toFixed(6))),
+  currency: value.currency,
+});
+
+/**
+ * Totals of amounts that may be in different currencies, one per currency
+ */
+export const totalsByCurrency = (values: Money[]): Money[] => {
+  const totals = new Map<CurrencyCode, Money>();
+  for (const value of values) {
+    totals.set(value.currency, addMoney(totals.get(value.currency) || zeroMoney(value.currency), value));
+  }
+  return Array.from(totals.values());
+};
+
+export const compareMoney = (a: Money, b: Money): number => {
+  assertSameCurrency(a, b);
+  return a.minorUnits - b.minorUnits;
+};
+
+export const minMoney = (a: Money, b: Money): Money => (compareMoney(a, b) <= 0 ? a : b);
+
+export const maxMoney = (a: Money, b: Money): Money => (compareMoney(a, b) >= 0 ? a : b);
+
+/**
+ * Split an amount in proportion to weights (equal parts when the weights are
+ * all equal). Leftover minor units go to the largest remainders, so the parts
+ * always add back up to the original amount.
+ */
+export const allocateMoney = (value: Money, weights: number[]): Money[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (weights.length === 0 || totalWeight <= 0) {
+    return weights.map(() => zeroMoney(value.currency));
+  }
+
+  const exact = weights.map(weight => (value.minorUnits * Math.max(0, weight)) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = value.minorUnits - parts.reduce((sum, part) => sum + part, 0);
+  const byRemainder = exact
+    .map((share, index) => ({ index, remainder: share - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) {
+      break;
+    }
+    parts[index]++;
+    leftover--;
+  }
+  return parts.map(minorUnits => ({ minorUnits, currency: value.currency }));
+};
+
+export interface FormatMoneyOptions {
+  locale?: string; // defaults to the currency's own locale
+  showCode?: boolean; // "NGN 5,000" instead of "₦5,000", for SMS and plain text
+}
+
+/**
+ * Format for display, e.g. ₦5,000 or KSh 1,250.50. Fractions are only shown
+ * when the amount has one.
+ */
+export const formatMoney = (value: Money, options: FormatMoneyOptions = {}): string => {
+  const info = getCurrency(value.currency);
+  const hasFraction = value.minorUnits % factor(value.currency) !== 0;
+  const number = new Intl.NumberFormat(options.locale || info.locale, {
+    minimumFractionDigits: hasFraction ? info.decimals : 0,
+    maximumFractionDigits: info.decimals,
+  }).format(toMajor(value));
+
+  if (options.showCode) {
+    return `${info.code} ${number}`;
+  }
+  return value.minorUnits < 0 ? `-${info.symbol}${number.replace('-', '')}` : `${info.symbol}${number}`;
+};
+
+/**
+ * Format per-currency totals, e.g. "₦50,000 + KSh 2,000". No totals have no
+ * currency to show, so they format as a bare "0".
+ */
+export const formatTotals = (totals: Money[], options: FormatMoneyOptions = {}): string =>
+  totals.length > 0 ? totals.map(total => formatMoney(total, options)).join(' + ') : '0';
+
+/**
+ * Format a stored major-unit amount
+ */
+export const formatAmount = (
+  amount: number,
+  currency: CurrencyCode,
+  options: FormatMoneyOptions = {}
+): string => formatMoney(money(amount || 0, currency), options);
+
+/**
+ * Short form for SMS, e.g. "NGN 1.5M", "KES 25K"
+ */
+export const formatCompactAmount = (amount: number, currency: CurrencyCode): string => {
+  if (amount >= 1000000) {
+    return `${currency} ${Number((amount / 1000000).toFixed(1))}M`;
+  }
+  if (amount >= 1000) {
+    return `${currency} ${Number((amount / 1000).toFixed(1))}K`;
+  }
+  return formatAmount(amount, currency, { showCode: true });
+};
+
+// The decimal separator a locale uses: '.' for en-NG, ',' for fr-SN
+const decimalSeparator = (locale: string): string => {
+  const formatted = new Intl.NumberFormat(locale, { minimumFractionDigits: 1 }).format(1.5);
+  return formatted.replace(/\d/g, '').charAt(0) || '.';
+};
+
+/**
+ * Read an amount typed by the user ("5,000", "5 000,50", "₦5000"). Returns
+ * null when it is not a number or has more decimals than the currency allows.
+ */
+export const parseMoney = (input: string, currency: CurrencyCode, locale?: string): Money | null => {
+  const separator = decimalSeparator(locale || localeFor(currency));
+  const cleaned = input.replace(new RegExp(`[^\\d\\-${separator === '.' ? '\\.' : separator}]`, 'g'), '');
+  const [whole, fraction = '', ...rest] = cleaned.split(separator);
+  if (!/^-?\d+$/.test(whole) || rest.length > 0 || !/^\d*$/.test(fraction)) {
+    return null;
+  }
+  if (fraction.length > getCurrency(currency).decimals) {
+    return null;
+  }
+  return money(Number(`${whole}.${fraction || '0'}`), currency);
+};
+
+/**
+ * Check an amount against the currency's limits
+ * @returns An error message, or null when the amount is allowed
+ */
+export const checkAmountLimits = (
+  amount: number,
+  currency: CurrencyCode,
+  kind: 'contribution' | 'payment' = 'contribution'
+): string | null => {
+  const info = getCurrency(currency);
+  const [min, max] = kind === 'contribution' ? [info.minContribution, info.maxContribution] : [info.minPayment, info.maxPayment];
+  const label = kind === 'contribution' ? 'Contribution amount' : 'Amount';
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return `${label} must be positive`;
+  }
+  if (money(amount, currency).minorUnits !== Number((amount * factor(currency)).toFixed(6))) {
+    return `${label} cannot have more than ${info.decimals} decimal places`;
+  }
+  if (amount < min) {
+    return `${label} must be at least ${formatAmount(min, currency)}`;
+  }
+  if (amount > max) {
+    return `${label} cannot exceed ${formatAmount(max, currency)}`;
+  }
+  return null;
+};
@@ -131,91 +131,6 @@ export const offlineStorage = {
   },
 };
 
-// Offline queue for actions that need to be performed when online
-export interface QueuedAction {
-  id: string;
-  type: 'CREATE_GROUP' | 'MAKE_PAYMENT' | 'UPDATE_PROFILE' | 'JOIN_GROUP';
-  data: any;
-  timestamp: number;
-  retries: number;
-}
-
-export const offlineQueue = {
-  // Add action to queue
-  enqueue: async (type: QueuedAction['type'], data: any): Promise<string> => {
-    const action: QueuedAction = {
-      id: `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type,
-      data,
-      timestamp: Date.now(),
-      retries: 0,
-    };
-
-    const queue = await offlineQueue.getAll();
-    queue.push(action);
-    await storage.set('offline_queue', JSON.stringify(queue));
-    return action.id;
-  },
-
-  // Get all queued actions
-  getAll: async (): Promise<QueuedAction[]> => {
-    try {
-      const queueString = await storage.getString('offline_queue');
-      return queueString ? JSON.parse(queueString) : [];
-    } catch {
-      return [];
-    }
-  },
-
-  // Remove action from queue
-  remove: async (actionId: string) => {
-    const queue = (await offlineQueue.getAll()).filter(action => action.id !== actionId);
-    await storage.set('offline_queue', JSON.stringify(queue));
-  },
-
-  // Process all queued actions when online
-  processQueue: async (processor: (action: QueuedAction) => Promise<boolean>) => {
-    if (!networkManager.getNetworkStatus()) {
-      console.log('Cannot process queue: offline');
-      return;
-    }
-
-    const queue = await offlineQueue.getAll();
-    for (const action of queue) {
-      try {
-        const success = await processor(action);
-        if (success) {
-          await offlineQueue.remove(action.id);
-        } else {
-          // Increment retry count
-          action.retries += 1;
-          if (action.retries >= 3) {
-            // Remove after 3 failed attempts
-            offlineQueue.remove(action.id);
-          } else {
-            // Update the queue with incremented retry count
-            const updatedQueue = queue.map(q => 
-              q.id === action.id ? action : q
-            );
-            storage.set('offline_queue', JSON.stringify(updatedQueue));
-          }
-        }
-      } catch (error) {
-        console.error('Error processing queued action:', error);
-        action.retries += 1;
-        if (action.retries >= 3) {
-          offlineQueue.remove(action.id);
-        }
-      }
-    }
-  },
-
-  // Clear entire queue
-  clear: () => {
-    storage.delete('offline_queue');
-  },
-};
-
 // User preferences storage
 export const userPreferences = {
   set: (key: string, value: any) => {
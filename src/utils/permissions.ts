@@ -1,4 +1,4 @@
-import { GroupPermissions } from '../services/business/groupManagement';
+import { Group, GroupPermission, GroupPermissions, GroupRole } from '../types/database';
 
 // Permission constants for easy reference
 export const PERMISSIONS = {
@@ -30,39 +30,37 @@ export const PERMISSION_GROUPS = {
   ],
 } as const;
 
-// Admin-only permissions
-export const ADMIN_ONLY_PERMISSIONS = [
-  PERMISSIONS.ADD_MEMBERS,
-  PERMISSIONS.REMOVE_MEMBERS,
-  PERMISSIONS.EDIT_SETTINGS,
-  PERMISSIONS.MARK_PAYMENTS,
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS);
+
+// Held only by the group admin; no role or override can grant them
+export const OWNER_ONLY_PERMISSIONS = [
   PERMISSIONS.DELETE_GROUP,
   PERMISSIONS.TRANSFER_ADMIN,
-  PERMISSIONS.MANAGE_CYCLES,
 ] as const;
 
-// Permissions that both admin and members have
-export const SHARED_PERMISSIONS = [
-  PERMISSIONS.VIEW_FINANCES,
-] as const;
+// Roles from least to most privileged
+export const GROUP_ROLES: GroupRole[] = ['member', 'auditor', 'treasurer', 'co_admin', 'admin'];
+
+// Roles the admin can hand out (admin itself moves by transfer)
+export const DELEGATED_ROLES: GroupRole[] = ['co_admin', 'treasurer', 'auditor'];
 
 // Helper functions
 export const hasAllPermissions = (
   userPermissions: GroupPermissions,
-  requiredPermissions: (keyof GroupPermissions)[]
+  requiredPermissions: readonly (keyof GroupPermissions)[]
 ): boolean => {
   return requiredPermissions.every(permission => userPermissions[permission]);
 };
 
 export const hasAnyPermission = (
   userPermissions: GroupPermissions,
-  permissions: (keyof GroupPermissions)[]
+  permissions: readonly (keyof GroupPermissions)[]
 ): boolean => {
   return permissions.some(permission => userPermissions[permission]);
 };
 
 export const isFullAdmin = (userPermissions: GroupPermissions): boolean => {
-  return hasAllPermissions(userPermissions, ADMIN_ONLY_PERMISSIONS);
+  return hasAllPermissions(userPermissions, ALL_PERMISSIONS);
 };
 
 export const canManageMembers = (userPermissions: GroupPermissions): boolean => {
@@ -121,6 +119,34 @@ export const PERMISSION_DESCRIPTIONS = {
   },
 } as const;
 
+export const ROLE_DESCRIPTIONS: Record<GroupRole, { title: string; description: string; icon: string }> = {
+  admin: {
+    title: 'Admin',
+    description: 'Runs the group and can do everything',
+    icon: 'admin-panel-settings',
+  },
+  co_admin: {
+    title: 'Co-admin',
+    description: 'Helps run the group but cannot delete it or hand over admin rights',
+    icon: 'supervisor-account',
+  },
+  treasurer: {
+    title: 'Treasurer',
+    description: 'Confirms payments and sees the group finances',
+    icon: 'account-balance',
+  },
+  auditor: {
+    title: 'Auditor',
+    description: 'Can see the group finances but not change anything',
+    icon: 'visibility',
+  },
+  member: {
+    title: 'Member',
+    description: 'Contributes and receives a payout',
+    icon: 'person',
+  },
+};
+
 // Role-based permission templates
 export const createAdminPermissions = (): GroupPermissions => ({
   canAddMembers: true,
@@ -133,6 +159,23 @@ export const createAdminPermissions = (): GroupPermissions => ({
   canManageCycles: true,
 });
 
+export const createCoAdminPermissions = (): GroupPermissions => ({
+  ...createAdminPermissions(),
+  canDeleteGroup: false,
+  canTransferAdmin: false,
+});
+
+export const createTreasurerPermissions = (): GroupPermissions => ({
+  ...createMemberPermissions(),
+  canMarkPayments: true,
+  canViewFinances: true,
+});
+
+export const createAuditorPermissions = (): GroupPermissions => ({
+  ...createMemberPermissions(),
+  canViewFinances: true,
+});
+
 export const createMemberPermissions = (): GroupPermissions => ({
   canAddMembers: false,
   canRemoveMembers: false,
@@ -140,10 +183,65 @@ export const createMemberPermissions = (): GroupPermissions => ({
   canMarkPayments: false,
   canDeleteGroup: false,
   canTransferAdmin: false,
-  canViewFinances: true,
+  canViewFinances: false,
   canManageCycles: false,
 });
 
+export const createRolePermissions = (role: GroupRole): GroupPermissions => {
+  switch (role) {
+    case 'admin':
+      return createAdminPermissions();
+    case 'co_admin':
+      return createCoAdminPermissions();
+    case 'treasurer':
+      return createTreasurerPermissions();
+    case 'auditor':
+      return createAuditorPermissions();
+    default:
+      return createMemberPermissions();
+  }
+};
+
+// A member's effective permissions: their role's template with per-member overrides applied.
+// Overrides never reach the owner-only permissions, and the admin always keeps everything.
+export const resolvePermissions = (
+  role: GroupRole,
+  overrides?: Partial<GroupPermissions>
+): GroupPermissions => {
+  const permissions = createRolePermissions(role);
+  if (role === 'admin') {
+    return permissions;
+  }
+
+  for (const permission of ALL_PERMISSIONS) {
+    const override = overrides?.[permission];
+    if (typeof override === 'boolean') {
+      permissions[permission] = override;
+    }
+  }
+  for (const permission of OWNER_ONLY_PERMISSIONS) {
+    permissions[permission] = false;
+  }
+  return permissions;
+};
+
+export const getGrantedPermissions = (userPermissions: GroupPermissions): GroupPermission[] => {
+  return ALL_PERMISSIONS.filter(permission => userPermissions[permission]);
+};
+
+// Check a permission against the group document alone: the admin, or a delegate whose
+// permissions are mirrored onto the group. Matches hasGroupPermission in firestore.rules.
+export const hasGroupPermission = (
+  group: Pick<Group, 'admin_id' | 'delegated_permissions'>,
+  userId: string,
+  permission: GroupPermission
+): boolean => {
+  if (group.admin_id === userId) {
+    return true;
+  }
+  return (group.delegated_permissions?.[userId] || []).includes(permission);
+};
+
 // Permission validation
 export const validatePermissionChange = (
   currentPermissions: GroupPermissions,
@@ -167,6 +265,11 @@ export const validatePermissionChange = (
     errors.push('Cannot grant admin transfer permission to non-admins');
   }
 
+  const unknown = Object.keys(newPermissions).filter(key => !ALL_PERMISSIONS.includes(key as GroupPermission));
+  if (unknown.length > 0) {
+    errors.push(`Unknown permissions: ${unknown.join(', ')}`);
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -204,6 +307,10 @@ export const requiresConfirmation = (permission: keyof GroupPermissions): boolea
 };
 
 // Get minimum role required for permission
-export const getMinimumRoleForPermission = (permission: keyof GroupPermissions): 'admin' | 'member' => {
-  return ADMIN_ONLY_PERMISSIONS.includes(permission as any) ? 'admin' : 'member';
+export const getMinimumRoleForPermission = (permission: keyof GroupPermissions): GroupRole => {
+  return getMinimumRoleForPermissions([permission]);
+};
+
+export const getMinimumRoleForPermissions = (permissions: (keyof GroupPermissions)[]): GroupRole => {
+  return GROUP_ROLES.find(role => hasAllPermissions(createRolePermissions(role), permissions)) || 'admin';
 };
\ No newline at end of file
@@ -1,4 +1,31 @@
 import * as yup from 'yup';
+import {
+  CurrencyCode,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  checkAmountLimits,
+  formatAmount,
+  isCurrencyCode,
+  parseMoney,
+  toMajor,
+} from './money';
+
+// An amount checked against the currency's limits. Without a fixed currency the
+// sibling `currency` field is used, falling back to the default currency.
+export const amountSchema = (currency?: CurrencyCode, kind: 'contribution' | 'payment' = 'payment') =>
+  yup
+    .number()
+    .typeError(kind === 'contribution' ? 'Contribution amount must be a number' : 'Amount must be a number')
+    .required(kind === 'contribution' ? 'Contribution amount is required' : 'Amount is required')
+    .test('amount-limits', 'Invalid amount', function (value) {
+      const siblingCurrency = this.parent?.currency;
+      const error = checkAmountLimits(
+        value,
+        currency || (isCurrencyCode(siblingCurrency) ? siblingCurrency : DEFAULT_CURRENCY),
+        kind
+      );
+      return error ? this.createError({ message: error }) : true;
+    });
 
 export const validationSchemas = {
   email: yup
@@ -35,19 +62,14 @@ export const validationSchemas = {
     .max(30, 'Group name cannot exceed 30 characters')
     .required('Group name is required'),
   
-  amount: yup
-    .number()
-    .positive('Amount must be positive')
-    .min(100, 'Minimum amount is KES 100')
-    .max(1000000, 'Maximum amount is KES 1,000,000')
-    .required('Amount is required'),
+  amount: amountSchema(undefined, 'payment'),
   
-  contributionAmount: yup
-    .number()
-    .positive('Contribution amount must be positive')
-    .min(50, 'Minimum contribution is KES 50')
-    .max(100000, 'Maximum contribution is KES 100,000')
-    .required('Contribution amount is required'),
+  contributionAmount: amountSchema(undefined, 'contribution'),
+
+  currency: yup
+    .mixed<CurrencyCode>()
+    .oneOf(SUPPORTED_CURRENCIES, 'Please choose a supported currency')
+    .default(DEFAULT_CURRENCY),
   
   groupSize: yup
     .number()
@@ -89,6 +111,7 @@ export const createGroupSchema = yup.object({
     .string()
     .max(200, 'Description cannot exceed 200 characters')
     .optional(),
+  currency: validationSchemas.currency,
   contributionAmount: validationSchemas.contributionAmount,
   maxMembers: validationSchemas.groupSize,
   paymentDay: yup
@@ -150,16 +173,12 @@ export const formatPhoneNumber = (phone: string): string => {
 };
 
 // Utility function to format currency
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-KE', {
-    style: 'currency',
-    currency: 'KES',
-    minimumFractionDigits: 0,
-  }).format(amount);
+export const formatCurrency = (amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): string => {
+  return formatAmount(amount, currency);
 };
 
-// Utility function to parse currency input
-export const parseCurrencyInput = (input: string): number => {
-  const cleaned = input.replace(/[^\d.]/g, '');
-  return parseFloat(cleaned) || 0;
+// Utility function to parse currency input in the currency's own number format
+export const parseCurrencyInput = (input: string, currency: CurrencyCode = DEFAULT_CURRENCY): number => {
+  const parsed = parseMoney(input, currency);
+  return parsed ? toMajor(parsed) : 0;
 };
\ No newline at end of file
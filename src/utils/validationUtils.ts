@@ -1,4 +1,6 @@
-import { SavingsGroup, GroupMember, Contribution } from '../services/firestore';
+import { Contribution, CurrencyCode, GroupMember, GroupWithMembers } from '../types/database';
+import { DEFAULT_CURRENCY, compareMoney, currencyOf, formatAmount, formatMoney, getCurrency, money, multiplyMoney } from './money';
+import { hasGroupPermission } from './permissions';
 
 /**
  * Validation utilities for Ajoturn business logic
@@ -18,24 +20,28 @@ export interface GroupValidationRules {
   maxMissedPayments: number;
 }
 
-// Default validation rules
-export const DEFAULT_VALIDATION_RULES: GroupValidationRules = {
+// Validation rules for a group saving in the given currency
+export const validationRulesFor = (currency: CurrencyCode): GroupValidationRules => ({
   minMembers: 2,
   maxMembers: 50,
-  minContributionAmount: 1000, // ₦1,000
-  maxContributionAmount: 1000000, // ₦1,000,000
+  minContributionAmount: getCurrency(currency).minContribution,
+  maxContributionAmount: getCurrency(currency).maxContribution,
   maxMissedPayments: 2,
-};
+});
+
+// Default validation rules
+export const DEFAULT_VALIDATION_RULES: GroupValidationRules = validationRulesFor(DEFAULT_CURRENCY);
 
 /**
  * Validate group configuration before creation
  */
 export const validateGroupCreation = (
-  groupData: Omit<SavingsGroup, 'id' | 'createdAt' | 'updatedAt'>,
-  rules: GroupValidationRules = DEFAULT_VALIDATION_RULES
+  groupData: Omit<GroupWithMembers, 'id' | 'created_at' | 'updated_at'>,
+  rules: GroupValidationRules = validationRulesFor(currencyOf(groupData))
 ): ValidationResult => {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const currency = currencyOf(groupData);
 
   // Validate group name
   if (!groupData.name || groupData.name.trim().length < 3) {
@@ -47,12 +53,12 @@ export const validateGroupCreation = (
   }
 
   // Validate contribution amount
-  if (groupData.contributionAmount < rules.minContributionAmount) {
-    errors.push(`Contribution amount must be at least ₦${rules.minContributionAmount.toLocaleString()}`);
+  if (groupData.contribution_amount < rules.minContributionAmount) {
+    errors.push(`Contribution amount must be at least ${formatAmount(rules.minContributionAmount, currency)}`);
   }
 
-  if (groupData.contributionAmount > rules.maxContributionAmount) {
-    errors.push(`Contribution amount cannot exceed ₦${rules.maxContributionAmount.toLocaleString()}`);
+  if (groupData.contribution_amount > rules.maxContributionAmount) {
+    errors.push(`Contribution amount cannot exceed ${formatAmount(rules.maxContributionAmount, currency)}`);
   }
 
   // Validate member count
@@ -65,27 +71,27 @@ export const validateGroupCreation = (
   }
 
   // Validate total cycles
-  if (groupData.totalCycles < groupData.members.length) {
+  if (groupData.total_cycles < groupData.members.length) {
     errors.push('Total cycles must be at least equal to the number of members');
   }
 
-  if (groupData.totalCycles > groupData.members.length * 2) {
+  if (groupData.total_cycles > groupData.members.length * 2) {
     warnings.push('Total cycles significantly exceed member count - this may result in multiple payouts per member');
   }
 
   // Validate start date
-  if (groupData.startDate < new Date()) {
+  if (groupData.start_date < new Date()) {
     warnings.push('Start date is in the past - group will begin immediately');
   }
 
   const futureLimit = new Date();
   futureLimit.setMonth(futureLimit.getMonth() + 6);
-  if (groupData.startDate > futureLimit) {
+  if (groupData.start_date > futureLimit) {
     warnings.push('Start date is more than 6 months in the future');
   }
 
   // Validate admin exists in members
-  const adminMember = groupData.members.find(m => m.userId === groupData.adminId);
+  const adminMember = groupData.members.find(m => m.user_id === groupData.admin_id);
   if (!adminMember) {
     errors.push('Group admin must be included in the members list');
   }
@@ -105,7 +111,7 @@ export const validateGroupCreation = (
  * Validate member eligibility for joining a group
  */
 export const validateMemberEligibility = (
-  group: SavingsGroup,
+  group: GroupWithMembers,
   newMember: Partial<GroupMember>
 ): ValidationResult => {
   const errors: string[] = [];
@@ -117,9 +123,9 @@ export const validateMemberEligibility = (
   }
 
   // Check if member already exists
-  const existingMember = group.members.find(m => m.userId === newMember.userId);
+  const existingMember = group.members.find(m => m.user_id === newMember.user_id);
   if (existingMember) {
-    if (existingMember.isActive) {
+    if (existingMember.status === 'active') {
       errors.push('Member is already active in this group');
     } else {
       warnings.push('Member was previously in this group - will be reactivated');
@@ -127,22 +133,22 @@ export const validateMemberEligibility = (
   }
 
   // Check member count limit
-  const activeMembers = group.members.filter(m => m.isActive);
+  const activeMembers = group.members.filter(m => m.status === 'active');
   if (activeMembers.length >= DEFAULT_VALIDATION_RULES.maxMembers) {
     errors.push('Group has reached maximum member limit');
   }
 
   // Validate member data
-  if (!newMember.displayName || newMember.displayName.trim().length === 0) {
+  if (!newMember.display_name || newMember.display_name.trim().length === 0) {
     errors.push('Member display name is required');
   }
 
-  if (!newMember.userId || newMember.userId.trim().length === 0) {
+  if (!newMember.user_id || newMember.user_id.trim().length === 0) {
     errors.push('Member user ID is required');
   }
 
   // Check if group has already started and warn about joining mid-cycle
-  if (group.currentCycle > 1) {
+  if (group.current_cycle > 1) {
     warnings.push('Joining mid-cycle - member may need to catch up on contributions');
   }
 
@@ -157,8 +163,8 @@ export const validateMemberEligibility = (
  * Validate contribution payment
  */
 export const validateContribution = (
-  group: SavingsGroup,
-  contribution: Omit<Contribution, 'id' | 'createdAt'>,
+  group: GroupWithMembers,
+  contribution: Omit<Contribution, 'id' | 'created_at' | 'updated_at'>,
   member: GroupMember
 ): ValidationResult => {
   const errors: string[] = [];
@@ -170,22 +176,26 @@ export const validateContribution = (
   }
 
   // Check if member is active
-  if (!member.isActive) {
+  if (member.status !== 'active') {
     errors.push('Inactive members cannot make contributions');
   }
 
   // Validate contribution amount
-  if (contribution.amount !== group.contributionAmount) {
-    if (contribution.amount < group.contributionAmount) {
-      errors.push(`Contribution amount (₦${contribution.amount.toLocaleString()}) is less than required (₦${group.contributionAmount.toLocaleString()})`);
+  const currency = currencyOf(group);
+  const difference = compareMoney(money(contribution.amount, currency), money(group.contribution_amount, currency));
+  if (difference !== 0) {
+    const paid = formatAmount(contribution.amount, currency);
+    const required = formatAmount(group.contribution_amount, currency);
+    if (difference < 0) {
+      errors.push(`Contribution amount (${paid}) is less than required (${required})`);
     } else {
-      warnings.push(`Contribution amount (₦${contribution.amount.toLocaleString()}) exceeds required amount (₦${group.contributionAmount.toLocaleString()})`);
+      warnings.push(`Contribution amount (${paid}) exceeds required amount (${required})`);
     }
   }
 
   // Check if contribution is for valid cycle
-  if (contribution.cycle !== group.currentCycle) {
-    if (contribution.cycle < group.currentCycle) {
+  if (contribution.cycle_number !== group.current_cycle) {
+    if (contribution.cycle_number < group.current_cycle) {
       warnings.push('Making contribution for past cycle');
     } else {
       errors.push('Cannot make contributions for future cycles');
@@ -194,7 +204,7 @@ export const validateContribution = (
 
   // Check for duplicate contributions
   // This would typically be checked against existing contributions in the database
-  if (contribution.cycle === group.currentCycle) {
+  if (contribution.cycle_number === group.current_cycle) {
     // In practice, you'd query for existing contributions here
     // For now, we'll just add a warning
     warnings.push('Please verify this is not a duplicate contribution');
@@ -202,7 +212,7 @@ export const validateContribution = (
 
   // Validate due date
   const now = new Date();
-  const dueDate = contribution.dueDate instanceof Date ? contribution.dueDate : new Date(contribution.dueDate);
+  const dueDate = contribution.due_date instanceof Date ? contribution.due_date : new Date(contribution.due_date);
   
   if (dueDate < now) {
     warnings.push('Contribution is overdue');
@@ -219,7 +229,7 @@ export const validateContribution = (
  * Validate cycle processing eligibility
  */
 export const validateCycleProcessing = (
-  group: SavingsGroup,
+  group: GroupWithMembers,
   contributions: Contribution[],
   adminId: string
 ): ValidationResult => {
@@ -227,8 +237,8 @@ export const validateCycleProcessing = (
   const warnings: string[] = [];
 
   // Check admin permissions
-  if (group.adminId !== adminId) {
-    errors.push('Only group admin can process cycles');
+  if (!hasGroupPermission(group, adminId, 'canManageCycles')) {
+    errors.push('You do not have permission to process cycles');
   }
 
   // Check if group is active
@@ -237,15 +247,15 @@ export const validateCycleProcessing = (
   }
 
   // Check if group is completed
-  if (group.currentCycle > group.totalCycles) {
+  if (group.current_cycle > group.total_cycles) {
     errors.push('Group has already completed all cycles');
   }
 
   // Validate payment completion
-  const activeMembers = group.members.filter(m => m.isActive);
-  const expectedTotal = activeMembers.length * group.contributionAmount;
+  const activeMembers = group.members.filter(m => m.status === 'active');
+  const expectedTotal = activeMembers.length * group.contribution_amount;
   const paidTotal = contributions
-    .filter(c => c.cycle === group.currentCycle && c.status === 'paid')
+    .filter(c => c.cycle_number === group.current_cycle && c.status === 'paid')
     .reduce((sum, c) => sum + c.amount, 0);
 
   const completionPercentage = expectedTotal > 0 ? (paidTotal / expectedTotal) * 100 : 0;
@@ -256,7 +266,7 @@ export const validateCycleProcessing = (
 
   // Check for pending contributions
   const pendingContributions = contributions.filter(
-    c => c.cycle === group.currentCycle && c.status === 'pending'
+    c => c.cycle_number === group.current_cycle && c.status === 'pending'
   );
   
   if (pendingContributions.length > 0) {
@@ -264,7 +274,7 @@ export const validateCycleProcessing = (
   }
 
   // Check if this is the last cycle
-  if (group.currentCycle === group.totalCycles) {
+  if (group.current_cycle === group.total_cycles) {
     warnings.push('This is the final cycle - group will be completed after processing');
   }
 
@@ -279,7 +289,7 @@ export const validateCycleProcessing = (
  * Validate payout eligibility
  */
 export const validatePayoutEligibility = (
-  group: SavingsGroup,
+  group: GroupWithMembers,
   recipientMember: GroupMember,
   payoutAmount: number
 ): ValidationResult => {
@@ -287,29 +297,35 @@ export const validatePayoutEligibility = (
   const warnings: string[] = [];
 
   // Check if recipient is active member
-  if (!recipientMember.isActive) {
+  if (recipientMember.status !== 'active') {
     errors.push('Cannot create payout for inactive member');
   }
 
   // Check if recipient is in the group
-  const memberExists = group.members.some(m => m.userId === recipientMember.userId);
+  const memberExists = group.members.some(m => m.user_id === recipientMember.user_id);
   if (!memberExists) {
     errors.push('Recipient is not a member of this group');
   }
 
   // Validate payout amount
-  const expectedPayout = group.members.filter(m => m.isActive).length * group.contributionAmount;
-  if (payoutAmount !== expectedPayout) {
-    if (payoutAmount < expectedPayout) {
-      warnings.push(`Payout amount (₦${payoutAmount.toLocaleString()}) is less than expected (₦${expectedPayout.toLocaleString()})`);
+  const currency = currencyOf(group);
+  const expectedPayout = multiplyMoney(
+    money(group.contribution_amount, currency),
+    group.members.filter(m => m.status === 'active').length
+  );
+  const difference = compareMoney(money(payoutAmount, currency), expectedPayout);
+  if (difference !== 0) {
+    const paid = formatAmount(payoutAmount, currency);
+    if (difference < 0) {
+      warnings.push(`Payout amount (${paid}) is less than expected (${formatMoney(expectedPayout)})`);
     } else {
-      warnings.push(`Payout amount (₦${payoutAmount.toLocaleString()}) exceeds expected amount (₦${expectedPayout.toLocaleString()})`);
+      warnings.push(`Payout amount (${paid}) exceeds expected amount (${formatMoney(expectedPayout)})`);
     }
   }
 
   // Check member's payment history
-  if (recipientMember.missedPayments > DEFAULT_VALIDATION_RULES.maxMissedPayments) {
-    warnings.push(`Recipient has ${recipientMember.missedPayments} missed payments - consider reviewing eligibility`);
+  if (recipientMember.missed_contributions > DEFAULT_VALIDATION_RULES.maxMissedPayments) {
+    warnings.push(`Recipient has ${recipientMember.missed_contributions} missed payments - consider reviewing eligibility`);
   }
 
   // Check if member has already received payout in this cycle